@@ -1,7 +1,7 @@
 import { supabase } from "./supabase.js";
 import { anchorMemory, isAnchoringEnabled, MemoryCategory } from "./memory-anchor.js";
 import type { MemoryCategoryType } from "./memory-anchor.js";
-import { processNewMemory } from "./soul/index.js";
+import { processNewMemory, embedMemory, checkContradictions } from "./soul/index.js";
 import { createCrystal } from "./memory-crystal.js";
 
 // ============================================================
@@ -29,6 +29,8 @@ export interface MemoryEntry {
   content: string;
   source?: string;
   ttl_hours?: number | null;
+  /** Pinned from the dashboard — always considered for context, never decays */
+  pinned?: boolean;
   created_at?: string;
 }
 
@@ -118,6 +120,12 @@ export async function writeMemory(entry: MemoryEntry): Promise<string | null> {
     return null;
   }
 
+  // Embed for semantic retrieval (non-blocking; the backfill retries failures)
+  if (data?.id) embedMemory(data.id, entry.content);
+
+  // Flag facts/goals that contradict existing ones (non-blocking; dreams rescan)
+  if (data?.id) checkContradictions(data.id, entry).catch(() => {});
+
   return data?.id ?? null;
 }
 
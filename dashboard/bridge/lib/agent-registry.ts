@@ -0,0 +1,230 @@
+import { promises as fs } from "fs";
+import { homedir } from "os";
+import { resolve } from "path";
+import type { RealtimeChannel } from "@supabase/supabase-js";
+import { supabase } from "./supabase.js";
+import { trackChannelStatus } from "./metrics.js";
+
+// ============================================================
+// Agent Registry -- the fleet, loaded from the agent_registry table
+// - Hot-reloads on Realtime changes (plus a periodic refresh that
+//   also picks up edits to the OpenClaw config on disk)
+// - Validates each row against openclaw.json and writes mismatches
+//   back to agent_registry.config_issues for the dashboard
+// - If the table can't be read before the first successful load,
+//   falls back to the agents defined in openclaw.json
+// ============================================================
+
+export interface RegistryAgent {
+  id: string;
+  name: string;
+  model: string | null;
+  workspace: string | null;
+  tools: string;
+  skills: string[];
+  fleet: boolean;
+  enabled: boolean;
+  sort_order: number;
+  config_issues: string[];
+  validated_at: string | null;
+}
+
+interface ConfigAgent {
+  model: string | null;
+  workspace: string | null;
+}
+
+const REFRESH_MS = 5 * 60_000;
+const OPENCLAW_CONFIG = process.env.OPENCLAW_CONFIG || resolve(homedir(), ".openclaw/openclaw.json");
+
+let agents = new Map<string, RegistryAgent>();
+let loadedFromDb = false;
+let channel: RealtimeChannel | null = null;
+let timer: ReturnType<typeof setInterval> | null = null;
+let reloadTimer: ReturnType<typeof setTimeout> | null = null;
+
+/** Whether an agent may be run (registered and not retired) */
+export function isRegisteredAgent(agentId: string): boolean {
+  return agents.get(agentId)?.enabled === true;
+}
+
+/** Active agents shown on the fleet, in display order — the ones the heartbeat keeps alive */
+export function fleetAgentIds(): string[] {
+  return [...agents.values()]
+    .filter((a) => a.enabled && a.fleet)
+    .sort((a, b) => a.sort_order - b.sort_order)
+    .map((a) => a.id);
+}
+
+/** Load once, then keep the registry fresh. Call before dispatching commands. */
+export async function startAgentRegistry(): Promise<RealtimeChannel> {
+  await loadAgentRegistry();
+
+  channel = supabase
+    .channel("bridge-agent-registry")
+    .on(
+      "postgres_changes",
+      { event: "*", schema: "public", table: "agent_registry" },
+      () => {
+        // Debounce bursts (bulk edits, our own config_issues writes)
+        if (reloadTimer) clearTimeout(reloadTimer);
+        reloadTimer = setTimeout(() => {
+          reloadTimer = null;
+          loadAgentRegistry().catch((err) => console.error("[registry] Reload failed:", err));
+        }, 1000);
+      }
+    )
+    .subscribe((status) => trackChannelStatus("bridge-agent-registry", status));
+
+  timer = setInterval(() => {
+    loadAgentRegistry().catch((err) => console.error("[registry] Refresh failed:", err));
+  }, REFRESH_MS);
+
+  return channel;
+}
+
+export function stopAgentRegistry() {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+  if (reloadTimer) {
+    clearTimeout(reloadTimer);
+    reloadTimer = null;
+  }
+  if (channel) {
+    supabase.removeChannel(channel);
+    channel = null;
+  }
+}
+
+export async function loadAgentRegistry(): Promise<void> {
+  const config = await readOpenClawAgents();
+  const { data, error } = await supabase
+    .from("agent_registry")
+    .select("*")
+    .order("sort_order", { ascending: true });
+
+  if (error || !data) {
+    if (loadedFromDb) {
+      console.error(`[registry] Reload failed, keeping ${agents.size} cached agent(s):`, error?.message);
+      return;
+    }
+    agents = fallbackFromConfig(config);
+    console.error(
+      `[registry] Could not read agent_registry (${error?.message ?? "no data"}); ` +
+        `using ${agents.size} agent(s) from ${OPENCLAW_CONFIG}`
+    );
+    return;
+  }
+
+  const next = new Map<string, RegistryAgent>();
+  for (const row of data as RegistryAgent[]) next.set(row.id, row);
+
+  const added = [...next.keys()].filter((id) => !agents.has(id));
+  const removed = [...agents.keys()].filter((id) => !next.has(id));
+  agents = next;
+  if (!loadedFromDb || added.length > 0 || removed.length > 0) {
+    console.log(
+      `[registry] ${fleetAgentIds().length} fleet agent(s), ${next.size} registered` +
+        (loadedFromDb && added.length ? ` (+${added.join(", ")})` : "") +
+        (loadedFromDb && removed.length ? ` (-${removed.join(", ")})` : "")
+    );
+  }
+  loadedFromDb = true;
+
+  if (config) await writeConfigIssues(config);
+}
+
+// ============================================================
+// OpenClaw config validation
+// ============================================================
+
+/** Agents defined in openclaw.json, or null if the file is missing/unreadable */
+async function readOpenClawAgents(): Promise<Map<string, ConfigAgent> | null> {
+  try {
+    const cfg = JSON.parse(await fs.readFile(OPENCLAW_CONFIG, "utf-8"));
+    const defaultModel = modelOf(cfg.agents?.defaults?.model);
+    const out = new Map<string, ConfigAgent>();
+    for (const a of cfg.agents?.list ?? []) {
+      if (typeof a?.id !== "string") continue;
+      out.set(a.id, {
+        model: modelOf(a.model) ?? defaultModel,
+        workspace: typeof a.workspace === "string" ? a.workspace : null,
+      });
+    }
+    return out;
+  } catch {
+    return null;
+  }
+}
+
+function modelOf(model: unknown): string | null {
+  if (typeof model === "string") return model;
+  if (model && typeof model === "object" && typeof (model as { primary?: unknown }).primary === "string") {
+    return (model as { primary: string }).primary;
+  }
+  return null;
+}
+
+const expandHome = (p: string) => (p.startsWith("~/") ? resolve(homedir(), p.slice(2)) : p);
+
+/** Mismatches between a registry row and the OpenClaw config */
+function configIssues(agent: RegistryAgent, config: Map<string, ConfigAgent>): string[] {
+  const entry = config.get(agent.id);
+  if (!entry) return [`not defined in OpenClaw config (${OPENCLAW_CONFIG})`];
+
+  const issues: string[] = [];
+  if (agent.model && entry.model && agent.model !== entry.model) {
+    issues.push(`model mismatch: registry "${agent.model}", config "${entry.model}"`);
+  }
+  if (agent.workspace && entry.workspace && expandHome(agent.workspace) !== expandHome(entry.workspace)) {
+    issues.push(`workspace mismatch: registry "${agent.workspace}", config "${entry.workspace}"`);
+  }
+  return issues;
+}
+
+/** Persist validation results — only new rows or rows whose issues changed are written */
+async function writeConfigIssues(config: Map<string, ConfigAgent>) {
+  const now = new Date().toISOString();
+  for (const agent of agents.values()) {
+    if (!agent.enabled) continue;
+    const issues = configIssues(agent, config);
+    if (agent.validated_at && sameIssues(issues, agent.config_issues ?? [])) continue;
+
+    if (issues.length > 0) console.warn(`[registry] "${agent.id}": ${issues.join("; ")}`);
+    agent.config_issues = issues;
+    agent.validated_at = now;
+    const { error } = await supabase
+      .from("agent_registry")
+      .update({ config_issues: issues, validated_at: now })
+      .eq("id", agent.id);
+    if (error) console.error(`[registry] Failed to record issues for "${agent.id}":`, error.message);
+  }
+}
+
+function sameIssues(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((x, i) => x === b[i]);
+}
+
+function fallbackFromConfig(config: Map<string, ConfigAgent> | null): Map<string, RegistryAgent> {
+  const out = new Map<string, RegistryAgent>();
+  let order = 0;
+  for (const [id, entry] of config ?? []) {
+    out.set(id, {
+      id,
+      name: id,
+      model: entry.model,
+      workspace: entry.workspace,
+      tools: "coding",
+      skills: [],
+      // Companions (*_web) run but aren't fleet members, matching the seed rows
+      fleet: !id.endsWith("_web"),
+      enabled: true,
+      sort_order: order++,
+      config_issues: [],
+      validated_at: null,
+    });
+  }
+  return out;
+}
@@ -13,6 +13,13 @@
 
 export type CircuitState = "CLOSED" | "OPEN" | "HALF_OPEN";
 
+/** Every breaker created in this process (read by the metrics endpoint) */
+const breakers: CircuitBreaker[] = [];
+
+export function listCircuitBreakers(): readonly CircuitBreaker[] {
+  return breakers;
+}
+
 export interface CircuitBreakerOptions {
   /** Number of consecutive failures before opening (default: 3) */
   failThreshold?: number;
@@ -30,7 +37,7 @@ export class CircuitBreaker {
   private lastFailure = 0;
   private readonly threshold: number;
   private readonly resetMs: number;
-  private readonly label: string;
+  readonly label: string;
   private readonly fallbackFn?: () => unknown;
 
   constructor(label: string, opts: CircuitBreakerOptions = {}) {
@@ -38,6 +45,7 @@ export class CircuitBreaker {
     this.threshold = opts.failThreshold ?? 3;
     this.resetMs = opts.resetTimeout ?? 30_000;
     this.fallbackFn = opts.fallback;
+    breakers.push(this);
   }
 
   get currentState(): CircuitState {
@@ -47,6 +55,10 @@ export class CircuitBreaker {
     return this.state;
   }
 
+  get failureCount(): number {
+    return this.failures;
+  }
+
   async call<T>(fn: () => Promise<T>): Promise<T> {
     const state = this.currentState;
 
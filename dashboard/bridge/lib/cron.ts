@@ -0,0 +1,210 @@
+// ============================================================
+// Cron — 5-field cron expressions evaluated in an IANA timezone
+// Fields: minute hour day-of-month month day-of-week
+// - *, lists (1,15), ranges (1-5), steps (*/15, 9-17/2)
+// - Month/weekday names (jan, mon) and 7 as Sunday
+// - Macros: @hourly @daily @weekly @monthly @yearly
+// Day-of-month and day-of-week are OR'ed when both are restricted,
+// as in classic cron.
+// ============================================================
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  dayRestricted: boolean;
+  weekdayRestricted: boolean;
+}
+
+const MACROS: Record<string, string> = {
+  "@hourly": "0 * * * *",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@weekly": "0 0 * * 0",
+  "@monthly": "0 0 1 * *",
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+};
+
+const MONTH_NAMES = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const WEEKDAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+/** Give up looking for the next occurrence after this many steps (~5 years of days) */
+const MAX_SEARCH_STEPS = 200_000;
+
+/** Parse a cron expression. Throws with a readable message when invalid. */
+export function parseCron(expr: string): CronSchedule {
+  const source = MACROS[expr.trim().toLowerCase()] ?? expr.trim();
+  const fields = source.split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression needs 5 fields (minute hour day month weekday), got ${fields.length}`);
+  }
+
+  const [min, hour, dom, mon, dow] = fields;
+  const weekdays = parseField(dow, 0, 7, WEEKDAY_NAMES, "weekday");
+  if (weekdays.delete(7)) weekdays.add(0);
+
+  return {
+    minutes: parseField(min, 0, 59, null, "minute"),
+    hours: parseField(hour, 0, 23, null, "hour"),
+    days: parseField(dom, 1, 31, null, "day"),
+    months: parseField(mon, 1, 12, MONTH_NAMES, "month"),
+    weekdays,
+    dayRestricted: dom !== "*",
+    weekdayRestricted: dow !== "*",
+  };
+}
+
+/** Error message for an invalid expression, or null when valid */
+export function validateCron(expr: string): string | null {
+  try {
+    parseCron(expr);
+    return null;
+  } catch (err) {
+    return err instanceof Error ? err.message : String(err);
+  }
+}
+
+export function isValidTimezone(tz: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: tz });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** First occurrence strictly after `after`, or null if none within ~5 years */
+export function nextRun(cron: string | CronSchedule, timezone: string, after: Date): Date | null {
+  const schedule = typeof cron === "string" ? parseCron(cron) : cron;
+  // Start at the next whole minute
+  let t = Math.floor(after.getTime() / 60_000) * 60_000 + 60_000;
+
+  for (let step = 0; step < MAX_SEARCH_STEPS; step++) {
+    const w = wallClock(t, timezone);
+    const minuteOfDay = w.hour * 60 + w.minute;
+
+    if (!schedule.months.has(w.month) || !dayMatches(schedule, w.day, w.weekday)) {
+      t += (24 * 60 - minuteOfDay) * 60_000; // jump to next local midnight
+      continue;
+    }
+    if (!schedule.hours.has(w.hour)) {
+      t += (60 - w.minute) * 60_000; // jump to next hour
+      continue;
+    }
+    if (!schedule.minutes.has(w.minute)) {
+      t += 60_000;
+      continue;
+    }
+    return new Date(t);
+  }
+  return null;
+}
+
+/** Occurrences in (from, to], oldest first, capped at `limit` */
+export function occurrencesBetween(
+  cron: string | CronSchedule,
+  timezone: string,
+  from: Date,
+  to: Date,
+  limit = 100
+): Date[] {
+  const schedule = typeof cron === "string" ? parseCron(cron) : cron;
+  const out: Date[] = [];
+  let cursor = from;
+  while (out.length < limit) {
+    const next = nextRun(schedule, timezone, cursor);
+    if (!next || next > to) break;
+    out.push(next);
+    cursor = next;
+  }
+  return out;
+}
+
+// ============================================================
+// Internals
+// ============================================================
+
+function parseField(
+  field: string,
+  min: number,
+  max: number,
+  names: string[] | null,
+  label: string
+): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(",")) {
+    const [rangePart, stepPart] = part.split("/");
+    const step = stepPart === undefined ? 1 : Number(stepPart);
+    if (!Number.isInteger(step) || step < 1) throw new Error(`Invalid ${label} step "${part}"`);
+
+    let lo: number;
+    let hi: number;
+    if (rangePart === "*") {
+      lo = min;
+      hi = max;
+    } else if (rangePart.includes("-")) {
+      const [a, b] = rangePart.split("-");
+      lo = parseValue(a, names, label);
+      hi = parseValue(b, names, label);
+    } else {
+      lo = parseValue(rangePart, names, label);
+      hi = stepPart === undefined ? lo : max;
+    }
+
+    if (lo < min || hi > max || lo > hi) {
+      throw new Error(`${label} "${part}" is out of range ${min}-${max}`);
+    }
+    for (let v = lo; v <= hi; v += step) values.add(v);
+  }
+
+  return values;
+}
+
+function parseValue(raw: string, names: string[] | null, label: string): number {
+  const idx = names?.indexOf(raw.toLowerCase()) ?? -1;
+  // Month names are 1-based, weekday names 0-based
+  if (idx !== -1) return names === MONTH_NAMES ? idx + 1 : idx;
+  if (!/^\d+$/.test(raw)) throw new Error(`Invalid ${label} value "${raw}"`);
+  return Number(raw);
+}
+
+function dayMatches(s: CronSchedule, day: number, weekday: number): boolean {
+  if (s.dayRestricted && s.weekdayRestricted) return s.days.has(day) || s.weekdays.has(weekday);
+  if (s.dayRestricted) return s.days.has(day);
+  if (s.weekdayRestricted) return s.weekdays.has(weekday);
+  return true;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/** Local calendar fields of an instant in a timezone */
+function wallClock(ms: number, timezone: string) {
+  let fmt = formatters.get(timezone);
+  if (!fmt) {
+    fmt = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      hourCycle: "h23",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      weekday: "short",
+    });
+    formatters.set(timezone, fmt);
+  }
+
+  const parts: Record<string, string> = {};
+  for (const p of fmt.formatToParts(new Date(ms))) parts[p.type] = p.value;
+
+  return {
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    weekday: WEEKDAY_NAMES.indexOf(parts.weekday.toLowerCase()),
+  };
+}
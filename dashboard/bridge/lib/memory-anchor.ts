@@ -107,6 +107,13 @@ export function isAnchoringEnabled(): boolean {
   return !!ANCHOR_ADDRESS && !!PRIVATE_KEY && isPinataConfigured();
 }
 
+/**
+ * The bytes32 written on-chain for a pinned memory: keccak256 of its CID.
+ */
+export function anchorContentHash(ipfsCid: string): `0x${string}` {
+  return keccak256(toHex(ipfsCid));
+}
+
 /**
  * Anchor a memory to IPFS + Base on-chain.
  *
@@ -145,7 +152,7 @@ export async function anchorMemory(
     console.log(`[anchor] Pinned to IPFS: ${pinResult.ipfsHash} (${pinResult.pinSize} bytes)`);
 
     // 2. Write on-chain
-    const contentHash = keccak256(toHex(pinResult.ipfsHash));
+    const contentHash = anchorContentHash(pinResult.ipfsHash);
 
     const account = privateKeyToAccount(`0x${PRIVATE_KEY!.replace(/^0x/, "")}`);
     const walletClient = createWalletClient({
@@ -0,0 +1,508 @@
+/**
+ * Memory Bundles — export / import an agent's memory
+ *
+ * A bundle is a directory:
+ *   manifest.json       format, version, source agent, row counts,
+ *                       sha256 of every file, anchor verification
+ *   memories.jsonl      agent_memory rows (+ `_shared` if asked)
+ *   associations.jsonl  memory_associations between those memories
+ *   insights.jsonl      dream_insights drawn from those memories
+ *   crystals.jsonl      memory_crystals owned by the agent
+ *   decay.jsonl         memory_decay state (archive flags, access counts)
+ *
+ * Import remaps every ID, can retarget the agent (clone `soul` into a
+ * new agent), skips rows that already exist and reports the ones that
+ * exist with different state as conflicts — the existing row is kept.
+ *
+ * Anchored memories (source = 'anchor', "ipfs://<cid>") can be checked
+ * against the keccak256(cid) hashes the AgentMemoryAnchor contract
+ * holds for ERC8004_AGENT_ID.
+ */
+
+import { createHash, randomUUID } from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { supabase } from "./supabase.js";
+import { anchorContentHash, getAnchorCount, getOnChainAnchors } from "./memory-anchor.js";
+
+// ── Types ────────────────────────────────────────────────────
+
+export const BUNDLE_FORMAT = "xmetav-memory-bundle";
+export const BUNDLE_VERSION = 1;
+
+export const BUNDLE_FILES = ["memories", "associations", "insights", "crystals", "decay"] as const;
+export type BundleFile = (typeof BUNDLE_FILES)[number];
+
+type Row = Record<string, unknown> & { id?: string };
+
+export interface AnchorCheck {
+  memory_id: string;
+  cid: string | null;
+  status: "verified" | "not_on_chain" | "no_cid";
+}
+
+export interface AnchorVerification {
+  agent_token_id: number;
+  checked: number;
+  verified: number;
+  failed: number;
+  /** Why nothing was checked (contract not configured, chain unreachable) */
+  skipped?: string;
+  entries: AnchorCheck[];
+}
+
+export interface BundleManifest {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  agent_id: string;
+  include_shared: boolean;
+  exported_at: string;
+  counts: Record<BundleFile, number>;
+  sha256: Record<BundleFile, string>;
+  anchors: AnchorVerification | null;
+}
+
+export interface MemoryBundle {
+  manifest: BundleManifest;
+  rows: Record<BundleFile, Row[]>;
+}
+
+export interface ImportConflict {
+  file: BundleFile;
+  source_id: string;
+  existing_id: string;
+  reason: string;
+}
+
+export interface ImportReport {
+  dry_run: boolean;
+  source_agent_id: string;
+  target_agent_id: string;
+  inserted: Record<BundleFile, number>;
+  duplicates: Record<BundleFile, number>;
+  /** Rows dropped because they reference memories outside the bundle */
+  skipped: Record<BundleFile, number>;
+  conflicts: ImportConflict[];
+}
+
+// ── Helpers ──────────────────────────────────────────────────
+
+const PAGE_SIZE = 1000;
+/** IDs per `.in()` filter — keeps PostgREST URLs short */
+const ID_CHUNK = 200;
+const INSERT_BATCH = 500;
+
+function counters(): Record<BundleFile, number> {
+  return { memories: 0, associations: 0, insights: 0, crystals: 0, decay: 0 };
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const out: T[][] = [];
+  for (let i = 0; i < items.length; i += size) out.push(items.slice(i, i + size));
+  return out;
+}
+
+/** Page through a query past PostgREST's row cap */
+async function fetchAll(build: () => { range: (from: number, to: number) => PromiseLike<{ data: unknown[] | null; error: { message: string } | null }> }): Promise<Row[]> {
+  const rows: Row[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await build().range(from, from + PAGE_SIZE - 1);
+    if (error) throw new Error(error.message);
+    rows.push(...((data ?? []) as Row[]));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+/** Run an `.in(column, ids)` select in chunks */
+async function fetchByIds(table: string, column: string, ids: string[], columns = "*"): Promise<Row[]> {
+  const rows: Row[] = [];
+  for (const part of chunk(ids, ID_CHUNK)) {
+    const { data, error } = await supabase.from(table).select(columns).in(column, part);
+    if (error) throw new Error(`${table}: ${error.message}`);
+    rows.push(...((data ?? []) as unknown as Row[]));
+  }
+  return rows;
+}
+
+async function insertAll(table: string, rows: Row[]): Promise<void> {
+  for (const part of chunk(rows, INSERT_BATCH)) {
+    const { error } = await supabase.from(table).insert(part);
+    if (error) throw new Error(`${table}: ${error.message}`);
+  }
+}
+
+/** Copy of a row minus its primary key, so the insert gets a fresh one */
+function withoutId(row: Row): Row {
+  const copy = { ...row };
+  delete copy.id;
+  return copy;
+}
+
+function toJsonl(rows: Row[]): string {
+  return rows.map((r) => JSON.stringify(r)).join("\n") + (rows.length > 0 ? "\n" : "");
+}
+
+function sha256(text: string): string {
+  return createHash("sha256").update(text).digest("hex");
+}
+
+const CID_RE = /ipfs:\/\/([A-Za-z0-9]+)/;
+
+// ── Anchor verification ──────────────────────────────────────
+
+/**
+ * Check anchored memories against the on-chain anchors for the
+ * fleet's ERC-8004 token: each memory's CID must hash to a recorded
+ * contentHash.
+ */
+export async function verifyAnchoredMemories(memories: Row[]): Promise<AnchorVerification> {
+  const agentTokenId = Number(process.env.ERC8004_AGENT_ID || "16905");
+  const anchored = memories.filter((m) => m.source === "anchor");
+  const result: AnchorVerification = { agent_token_id: agentTokenId, checked: 0, verified: 0, failed: 0, entries: [] };
+  if (anchored.length === 0) return result;
+
+  if (!process.env.ANCHOR_CONTRACT_ADDRESS) {
+    return { ...result, skipped: "ANCHOR_CONTRACT_ADDRESS not set" };
+  }
+
+  const total = await getAnchorCount(agentTokenId);
+  if (total === 0) return { ...result, skipped: "no on-chain anchors readable for this agent" };
+
+  const onChain = new Set<string>();
+  for (let from = 0; from < total; from += 50) {
+    for (const a of await getOnChainAnchors(agentTokenId, from, 50)) onChain.add(a.contentHash.toLowerCase());
+  }
+
+  for (const m of anchored) {
+    const cid = CID_RE.exec(String(m.content))?.[1] ?? null;
+    const status: AnchorCheck["status"] = !cid
+      ? "no_cid"
+      : onChain.has(anchorContentHash(cid).toLowerCase())
+        ? "verified"
+        : "not_on_chain";
+    result.entries.push({ memory_id: String(m.id), cid, status });
+    result.checked++;
+    if (status === "verified") result.verified++;
+    else result.failed++;
+  }
+  return result;
+}
+
+// ── Export ───────────────────────────────────────────────────
+
+/** Collect an agent's memory (optionally with `_shared`) into a bundle */
+export async function exportMemoryBundle(
+  agentId: string,
+  opts: { includeShared?: boolean; verifyAnchors?: boolean } = {}
+): Promise<MemoryBundle> {
+  const agentIds = opts.includeShared ? [agentId, "_shared"] : [agentId];
+
+  const memories = await fetchAll(() =>
+    supabase
+      .from("agent_memory")
+      .select("id, agent_id, kind, content, source, ttl_hours, pinned, created_at, updated_at")
+      .in("agent_id", agentIds)
+      .order("created_at", { ascending: true })
+  );
+  const memoryIds = memories.map((m) => String(m.id));
+  const inBundle = new Set(memoryIds);
+
+  // Associations: both ends must be in the bundle
+  const associations = (await fetchByIds("memory_associations", "memory_id", memoryIds)).filter((a) =>
+    inBundle.has(String(a.related_memory_id))
+  );
+
+  const decay = await fetchByIds("memory_decay", "memory_id", memoryIds);
+
+  // Insights drawn from any exported memory (deduped — several chunks can match one)
+  const insightRows = new Map<string, Row>();
+  for (const part of chunk(memoryIds, ID_CHUNK)) {
+    const { data, error } = await supabase.from("dream_insights").select("*").overlaps("source_memories", part);
+    if (error) throw new Error(`dream_insights: ${error.message}`);
+    for (const row of (data ?? []) as Row[]) insightRows.set(String(row.id), row);
+  }
+
+  const crystals = await fetchAll(() =>
+    supabase.from("memory_crystals").select("*").eq("agent_id", agentId).order("created_at", { ascending: true })
+  );
+
+  const rows: Record<BundleFile, Row[]> = {
+    memories,
+    associations,
+    insights: [...insightRows.values()],
+    crystals,
+    decay,
+  };
+
+  const manifest: BundleManifest = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    agent_id: agentId,
+    include_shared: Boolean(opts.includeShared),
+    exported_at: new Date().toISOString(),
+    counts: counters(),
+    sha256: { memories: "", associations: "", insights: "", crystals: "", decay: "" },
+    anchors: opts.verifyAnchors ? await verifyAnchoredMemories(memories) : null,
+  };
+  for (const file of BUNDLE_FILES) {
+    manifest.counts[file] = rows[file].length;
+    manifest.sha256[file] = sha256(toJsonl(rows[file]));
+  }
+
+  return { manifest, rows };
+}
+
+export function writeBundle(dir: string, bundle: MemoryBundle): void {
+  fs.mkdirSync(dir, { recursive: true });
+  for (const file of BUNDLE_FILES) {
+    fs.writeFileSync(path.join(dir, `${file}.jsonl`), toJsonl(bundle.rows[file]));
+  }
+  fs.writeFileSync(path.join(dir, "manifest.json"), JSON.stringify(bundle.manifest, null, 2) + "\n");
+}
+
+/**
+ * Read a bundle directory. Throws if the format or version is unknown,
+ * a file is missing, or a file's sha256 / row count doesn't match the
+ * manifest.
+ */
+export function readBundle(dir: string): MemoryBundle {
+  const manifest = JSON.parse(fs.readFileSync(path.join(dir, "manifest.json"), "utf8")) as BundleManifest;
+  if (manifest.format !== BUNDLE_FORMAT) throw new Error(`Not a memory bundle (format: ${manifest.format})`);
+  if (manifest.version !== BUNDLE_VERSION) {
+    throw new Error(`Unsupported bundle version ${manifest.version} (this bridge reads v${BUNDLE_VERSION})`);
+  }
+
+  const rows = {} as Record<BundleFile, Row[]>;
+  for (const file of BUNDLE_FILES) {
+    const text = fs.readFileSync(path.join(dir, `${file}.jsonl`), "utf8");
+    if (sha256(text) !== manifest.sha256[file]) throw new Error(`${file}.jsonl does not match its manifest sha256`);
+    rows[file] = text
+      .split("\n")
+      .filter((line) => line.trim().length > 0)
+      .map((line) => JSON.parse(line) as Row);
+    if (rows[file].length !== manifest.counts[file]) {
+      throw new Error(`${file}.jsonl has ${rows[file].length} rows, manifest says ${manifest.counts[file]}`);
+    }
+  }
+
+  return { manifest, rows };
+}
+
+// ── Import ───────────────────────────────────────────────────
+
+/**
+ * Import a bundle. New IDs are generated for everything; memories of
+ * the source agent are written to `targetAgentId` (default: the source
+ * agent), `_shared` memories stay shared. With `dryRun` nothing is
+ * written but the report is the same.
+ */
+export async function importMemoryBundle(
+  bundle: MemoryBundle,
+  opts: { targetAgentId?: string; dryRun?: boolean } = {}
+): Promise<ImportReport> {
+  const source = bundle.manifest.agent_id;
+  const target = opts.targetAgentId ?? source;
+  const dryRun = Boolean(opts.dryRun);
+  const report: ImportReport = {
+    dry_run: dryRun,
+    source_agent_id: source,
+    target_agent_id: target,
+    inserted: counters(),
+    duplicates: counters(),
+    skipped: counters(),
+    conflicts: [],
+  };
+  const retarget = (agentId: unknown) => (agentId === source ? target : (agentId as string));
+
+  // ── Memories: de-duplicate on (agent, kind, content) ──
+  const targetAgents = [...new Set(bundle.rows.memories.map((m) => retarget(m.agent_id)))];
+  const existing = targetAgents.length
+    ? await fetchAll(() =>
+        supabase.from("agent_memory").select("id, agent_id, kind, content, pinned").in("agent_id", targetAgents)
+      )
+    : [];
+  const key = (m: Row, agentId: string) => `${agentId}\u0000${m.kind}\u0000${m.content}`;
+  const existingByKey = new Map(existing.map((m) => [key(m, String(m.agent_id)), m]));
+
+  const idMap = new Map<string, string>();
+  const duplicateIds = new Set<string>();
+  const newMemories: Row[] = [];
+  for (const m of bundle.rows.memories) {
+    const agentId = retarget(m.agent_id);
+    const match = existingByKey.get(key(m, agentId));
+    if (match) {
+      idMap.set(String(m.id), String(match.id));
+      duplicateIds.add(String(m.id));
+      report.duplicates.memories++;
+      if (Boolean(match.pinned) !== Boolean(m.pinned)) {
+        report.conflicts.push({
+          file: "memories",
+          source_id: String(m.id),
+          existing_id: String(match.id),
+          reason: `pinned differs (bundle ${Boolean(m.pinned)}, existing ${Boolean(match.pinned)})`,
+        });
+      }
+      continue;
+    }
+    const id = randomUUID();
+    idMap.set(String(m.id), id);
+    existingByKey.set(key(m, agentId), { ...m, id, agent_id: agentId });
+    newMemories.push({
+      id,
+      agent_id: agentId,
+      kind: m.kind,
+      content: m.content,
+      source: m.source,
+      ttl_hours: m.ttl_hours ?? null,
+      pinned: m.pinned ?? false,
+      created_at: m.created_at,
+    });
+  }
+  report.inserted.memories = newMemories.length;
+
+  // ── Decay: new memories take the bundle's state; existing ones keep theirs ──
+  const newDecay: Row[] = [];
+  const duplicateDecay = bundle.rows.decay.filter((d) => duplicateIds.has(String(d.memory_id)));
+  const existingDecay = new Map(
+    (
+      await fetchByIds(
+        "memory_decay",
+        "memory_id",
+        duplicateDecay.map((d) => idMap.get(String(d.memory_id))!),
+        "memory_id, is_archived"
+      )
+    ).map((d) => [String(d.memory_id), d])
+  );
+  for (const d of bundle.rows.decay) {
+    const memoryId = idMap.get(String(d.memory_id));
+    if (!memoryId) {
+      report.skipped.decay++;
+      continue;
+    }
+    if (duplicateIds.has(String(d.memory_id))) {
+      report.duplicates.decay++;
+      const current = existingDecay.get(memoryId);
+      if (current && Boolean(current.is_archived) !== Boolean(d.is_archived)) {
+        report.conflicts.push({
+          file: "decay",
+          source_id: String(d.memory_id),
+          existing_id: memoryId,
+          reason: `archived differs (bundle ${Boolean(d.is_archived)}, existing ${Boolean(current.is_archived)})`,
+        });
+      }
+      continue;
+    }
+    newDecay.push({
+      memory_id: memoryId,
+      decay_score: d.decay_score,
+      access_count: d.access_count,
+      last_accessed: d.last_accessed,
+      is_archived: d.is_archived,
+      archive_reason: d.archive_reason,
+    });
+  }
+  report.inserted.decay = newDecay.length;
+
+  // ── Associations: remap both ends, keep existing strengths ──
+  // Only memories that already existed can have links or insights
+  const existingTargets = [...new Set([...duplicateIds].map((id) => idMap.get(id)!))];
+  const existingLinks = new Map(
+    (
+      await fetchByIds("memory_associations", "memory_id", existingTargets, "id, memory_id, related_memory_id, strength")
+    ).map((a) => [`${a.memory_id}:${a.related_memory_id}`, a])
+  );
+  const newAssociations: Row[] = [];
+  for (const a of bundle.rows.associations) {
+    const from = idMap.get(String(a.memory_id));
+    const to = idMap.get(String(a.related_memory_id));
+    if (!from || !to) {
+      report.skipped.associations++;
+      continue;
+    }
+    const link = existingLinks.get(`${from}:${to}`);
+    if (link) {
+      report.duplicates.associations++;
+      if (Math.abs(Number(link.strength) - Number(a.strength)) > 0.001) {
+        report.conflicts.push({
+          file: "associations",
+          source_id: String(a.id),
+          existing_id: String(link.id),
+          reason: `strength differs (bundle ${a.strength}, existing ${link.strength})`,
+        });
+      }
+      continue;
+    }
+    existingLinks.set(`${from}:${to}`, { id: "new", memory_id: from, related_memory_id: to, strength: a.strength });
+    newAssociations.push({
+      memory_id: from,
+      related_memory_id: to,
+      association_type: a.association_type,
+      strength: a.strength,
+      created_at: a.created_at,
+    });
+  }
+  report.inserted.associations = newAssociations.length;
+
+  // ── Insights: remap memory references, skip identical claims ──
+  const remapIds = (ids: unknown) =>
+    Array.isArray(ids) ? ids.map((id) => idMap.get(String(id))).filter((id): id is string => Boolean(id)) : [];
+  const existingInsights = new Set<string>();
+  for (const part of chunk(existingTargets, ID_CHUNK)) {
+    const { data, error } = await supabase.from("dream_insights").select("insight").overlaps("source_memories", part);
+    if (error) throw new Error(`dream_insights: ${error.message}`);
+    for (const row of data ?? []) existingInsights.add(String(row.insight));
+  }
+  const newInsights: Row[] = [];
+  for (const i of bundle.rows.insights) {
+    const sourceMemories = remapIds(i.source_memories);
+    if (sourceMemories.length === 0) {
+      report.skipped.insights++;
+      continue;
+    }
+    if (existingInsights.has(String(i.insight))) {
+      report.duplicates.insights++;
+      continue;
+    }
+    existingInsights.add(String(i.insight));
+    newInsights.push({
+      ...withoutId(i),
+      source_memories: sourceMemories,
+      ...(i.evidence_memory_ids !== undefined && { evidence_memory_ids: remapIds(i.evidence_memory_ids) }),
+      ...(i.counter_evidence_ids !== undefined && { counter_evidence_ids: remapIds(i.counter_evidence_ids) }),
+    });
+  }
+  report.inserted.insights = newInsights.length;
+
+  // ── Crystals: retarget owner, remap the anchored memory ──
+  const existingCrystals = await fetchAll(() =>
+    supabase.from("memory_crystals").select("id, name, ipfs_cid").eq("agent_id", target)
+  );
+  const crystalKey = (c: Row) => `${c.name}\u0000${c.ipfs_cid ?? ""}`;
+  const crystalsByKey = new Map(existingCrystals.map((c) => [crystalKey(c), c]));
+  const newCrystals: Row[] = [];
+  for (const c of bundle.rows.crystals) {
+    if (crystalsByKey.has(crystalKey(c))) {
+      report.duplicates.crystals++;
+      continue;
+    }
+    crystalsByKey.set(crystalKey(c), c);
+    newCrystals.push({
+      ...withoutId(c),
+      agent_id: target,
+      memory_id: c.memory_id ? idMap.get(String(c.memory_id)) ?? null : null,
+      equipped_by: c.equipped_by ? retarget(c.equipped_by) : null,
+    });
+  }
+  report.inserted.crystals = newCrystals.length;
+
+  if (!dryRun) {
+    // Memories first — everything else references them
+    await insertAll("agent_memory", newMemories);
+    await insertAll("memory_decay", newDecay);
+    await insertAll("memory_associations", newAssociations);
+    await insertAll("dream_insights", newInsights);
+    await insertAll("memory_crystals", newCrystals);
+  }
+
+  return report;
+}
@@ -0,0 +1,305 @@
+/**
+ * Metrics — in-process counters, gauges and histograms rendered in the
+ * Prometheus text exposition format (served at :3001/metrics).
+ *
+ * Usage:
+ *   const runs = counter("bridge_commands_total", "Commands by outcome", ["agent", "status"]);
+ *   runs.inc({ agent: "main", status: "completed" });
+ *
+ *   const latency = histogram("bridge_flush_seconds", "Flush latency", [], [0.01, 0.05, 0.1]);
+ *   latency.observe({}, 0.023);
+ *
+ * State that lives elsewhere (breakers, caches, the queue) is read at
+ * scrape time by collectors registered with onCollect().
+ */
+
+import type { TTLCache } from "./ttl-cache.js";
+import { listCircuitBreakers, type CircuitState } from "./circuit-breaker.js";
+
+type Labels = Record<string, string>;
+type MetricType = "counter" | "gauge" | "histogram";
+
+/** Default buckets (seconds) — spans sub-second DB writes to multi-minute agent runs */
+export const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300, 600];
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return "";
+  return `{${entries.map(([k, v]) => `${k}="${escapeLabel(v)}"`).join(",")}}`;
+}
+
+function formatValue(n: number): string {
+  if (Number.isNaN(n)) return "NaN";
+  if (n === Infinity) return "+Inf";
+  if (n === -Infinity) return "-Inf";
+  return String(n);
+}
+
+abstract class Metric<S> {
+  protected series = new Map<string, { labels: Labels; value: S }>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly type: MetricType,
+    readonly labelNames: string[]
+  ) {}
+
+  /** Series for a label set (missing labels become "") */
+  protected entry(labels: Labels, init: () => S) {
+    const normalized: Labels = {};
+    for (const name of this.labelNames) normalized[name] = labels[name] ?? "";
+    const key = this.labelNames.map((n) => normalized[n]).join("\u0000");
+    let e = this.series.get(key);
+    if (!e) {
+      e = { labels: normalized, value: init() };
+      this.series.set(key, e);
+    }
+    return e;
+  }
+
+  abstract lines(): string[];
+  abstract toJSON(): unknown;
+}
+
+export class Counter extends Metric<number> {
+  constructor(name: string, help: string, labelNames: string[] = []) {
+    super(name, help, "counter", labelNames);
+  }
+
+  inc(labels: Labels = {}, by = 1) {
+    this.entry(labels, () => 0).value += by;
+  }
+
+  /** Mirror an externally maintained monotonic count (e.g. cache hits) */
+  setTotal(labels: Labels, total: number) {
+    this.entry(labels, () => 0).value = total;
+  }
+
+  lines() {
+    return [...this.series.values()].map((s) => `${this.name}${formatLabels(s.labels)} ${formatValue(s.value)}`);
+  }
+
+  toJSON() {
+    return [...this.series.values()].map((s) => ({ labels: s.labels, value: s.value }));
+  }
+}
+
+export class Gauge extends Metric<number> {
+  constructor(name: string, help: string, labelNames: string[] = []) {
+    super(name, help, "gauge", labelNames);
+  }
+
+  set(labels: Labels, value: number) {
+    this.entry(labels, () => 0).value = value;
+  }
+
+  inc(labels: Labels = {}, by = 1) {
+    this.entry(labels, () => 0).value += by;
+  }
+
+  dec(labels: Labels = {}, by = 1) {
+    this.entry(labels, () => 0).value -= by;
+  }
+
+  lines() {
+    return [...this.series.values()].map((s) => `${this.name}${formatLabels(s.labels)} ${formatValue(s.value)}`);
+  }
+
+  toJSON() {
+    return [...this.series.values()].map((s) => ({ labels: s.labels, value: s.value }));
+  }
+}
+
+interface HistogramState {
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+export class Histogram extends Metric<HistogramState> {
+  readonly buckets: number[];
+
+  constructor(name: string, help: string, labelNames: string[] = [], buckets = DEFAULT_BUCKETS) {
+    super(name, help, "histogram", labelNames);
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  observe(labels: Labels, value: number) {
+    const s = this.entry(labels, () => ({ counts: this.buckets.map(() => 0), sum: 0, count: 0 })).value;
+    for (let i = 0; i < this.buckets.length; i++) {
+      if (value <= this.buckets[i]) s.counts[i]++;
+    }
+    s.sum += value;
+    s.count++;
+  }
+
+  /** Start a timer; call the returned function to observe the elapsed seconds */
+  startTimer(labels: Labels = {}): () => number {
+    const start = process.hrtime.bigint();
+    return () => {
+      const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+      this.observe(labels, seconds);
+      return seconds;
+    };
+  }
+
+  lines() {
+    const out: string[] = [];
+    for (const { labels, value } of this.series.values()) {
+      this.buckets.forEach((le, i) => {
+        out.push(`${this.name}_bucket${formatLabels({ ...labels, le: formatValue(le) })} ${value.counts[i]}`);
+      });
+      out.push(`${this.name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${value.count}`);
+      out.push(`${this.name}_sum${formatLabels(labels)} ${formatValue(value.sum)}`);
+      out.push(`${this.name}_count${formatLabels(labels)} ${value.count}`);
+    }
+    return out;
+  }
+
+  toJSON() {
+    return [...this.series.values()].map(({ labels, value }) => ({
+      labels,
+      count: value.count,
+      sum: value.sum,
+      buckets: this.buckets.map((le, i) => ({ le, count: value.counts[i] })),
+    }));
+  }
+}
+
+// ============================================================
+// Registry
+// ============================================================
+
+type AnyMetric = Counter | Gauge | Histogram;
+
+const registry = new Map<string, AnyMetric>();
+const collectors: (() => void)[] = [];
+
+function register<M extends AnyMetric>(metric: M): M {
+  const existing = registry.get(metric.name);
+  if (existing) {
+    if (existing.type !== metric.type) throw new Error(`Metric ${metric.name} already registered as ${existing.type}`);
+    return existing as M;
+  }
+  registry.set(metric.name, metric);
+  return metric;
+}
+
+/** Get or create a counter (same name → same instance) */
+export function counter(name: string, help: string, labelNames: string[] = []): Counter {
+  return register(new Counter(name, help, labelNames));
+}
+
+/** Get or create a gauge */
+export function gauge(name: string, help: string, labelNames: string[] = []): Gauge {
+  return register(new Gauge(name, help, labelNames));
+}
+
+/** Get or create a histogram */
+export function histogram(name: string, help: string, labelNames: string[] = [], buckets?: number[]): Histogram {
+  return register(new Histogram(name, help, labelNames, buckets));
+}
+
+/** Run `fn` before every scrape to refresh gauges from external state */
+export function onCollect(fn: () => void) {
+  collectors.push(fn);
+}
+
+function collect() {
+  for (const fn of collectors) {
+    try {
+      fn();
+    } catch (err) {
+      console.error("[metrics] Collector failed:", err);
+    }
+  }
+}
+
+/** Prometheus text exposition (Content-Type: text/plain; version=0.0.4) */
+export function renderMetrics(): string {
+  collect();
+  const out: string[] = [];
+  for (const metric of registry.values()) {
+    out.push(`# HELP ${metric.name} ${metric.help.replace(/\\/g, "\\\\").replace(/\n/g, "\\n")}`);
+    out.push(`# TYPE ${metric.name} ${metric.type}`);
+    out.push(...metric.lines());
+  }
+  return out.join("\n") + "\n";
+}
+
+/** The same data as JSON, keyed by metric name (for the dashboard) */
+export function metricsSnapshot(): Record<string, { type: MetricType; help: string; series: unknown }> {
+  collect();
+  const out: Record<string, { type: MetricType; help: string; series: unknown }> = {};
+  for (const metric of registry.values()) {
+    out[metric.name] = { type: metric.type, help: metric.help, series: metric.toJSON() };
+  }
+  return out;
+}
+
+// ============================================================
+// Shared instrumentation
+// ============================================================
+
+const realtimeUp = gauge(
+  "bridge_realtime_channel_up",
+  "1 while the Realtime channel is SUBSCRIBED, 0 otherwise",
+  ["channel"]
+);
+const realtimeStatus = counter(
+  "bridge_realtime_status_changes_total",
+  "Realtime subscription status callbacks by channel and status",
+  ["channel", "status"]
+);
+
+/** Pass as (or call from) a channel's subscribe() callback */
+export function trackChannelStatus(channel: string, status: string) {
+  realtimeUp.set({ channel }, status === "SUBSCRIBED" ? 1 : 0);
+  realtimeStatus.inc({ channel, status });
+}
+
+const cacheHits = counter("bridge_cache_hits_total", "TTLCache lookups served from cache", ["cache"]);
+const cacheMisses = counter("bridge_cache_misses_total", "TTLCache lookups that missed or had expired", ["cache"]);
+const cacheEntries = gauge("bridge_cache_entries", "TTLCache entries (including not-yet-pruned expired ones)", ["cache"]);
+const trackedCaches = new Map<string, TTLCache<unknown>>();
+
+/** Expose a cache's hit/miss counts and size under `name` */
+export function trackCache<T>(name: string, cache: TTLCache<T>) {
+  trackedCaches.set(name, cache as TTLCache<unknown>);
+}
+
+onCollect(() => {
+  for (const [name, cache] of trackedCaches) {
+    const { hits, misses } = cache.stats;
+    cacheHits.setTotal({ cache: name }, hits);
+    cacheMisses.setTotal({ cache: name }, misses);
+    cacheEntries.set({ cache: name }, cache.size);
+  }
+});
+
+const CIRCUIT_STATES: CircuitState[] = ["CLOSED", "HALF_OPEN", "OPEN"];
+const breakerState = gauge(
+  "bridge_circuit_breaker_state",
+  "Circuit breaker state (1 for the current state, 0 for the others)",
+  ["breaker", "state"]
+);
+const breakerFailures = gauge(
+  "bridge_circuit_breaker_consecutive_failures",
+  "Consecutive failures counted by the breaker",
+  ["breaker"]
+);
+
+onCollect(() => {
+  for (const cb of listCircuitBreakers()) {
+    const current = cb.currentState;
+    for (const state of CIRCUIT_STATES) {
+      breakerState.set({ breaker: cb.label, state }, state === current ? 1 : 0);
+    }
+    breakerFailures.set({ breaker: cb.label }, cb.failureCount);
+  }
+});
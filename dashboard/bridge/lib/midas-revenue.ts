@@ -341,10 +341,118 @@ export async function proposeOpportunity(opp: {
   return data?.id || null;
 }
 
+/* ── Pricing Experiments ───────────────────────────────────── */
+
+// Payers are pinned to one variant (x402-server/pricing-experiments.ts),
+// so variants are compared per payer. Mirrors analyzeExperiments in
+// src/lib/pricing-experiments.ts — keep them in step.
+
+/** Two-sided significance level for a verdict */
+const EXPERIMENT_ALPHA = 0.05;
+/** Payers each variant needs before a verdict is drawn */
+const MIN_PAYERS_PER_VARIANT = 30;
+
+export interface ExperimentVerdict {
+  endpoint: string;
+  control: string;
+  variants: Array<{ variant: string; priceUsd: number; payers: number; revenuePerPayer: number }>;
+  sampleReady: boolean;
+  /** Variant that earns significantly more per payer, or null while inconclusive */
+  winner: string | null;
+  pValue: number | null;
+}
+
+/** Standard normal CDF (Abramowitz & Stegun 7.1.26, |error| < 1.5e-7) */
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+type RevenueSums = { n: number; sum: number; sumSq: number };
+
+/** Welch test on mean revenue per payer (normal approximation) */
+function welchPValue(a: RevenueSums, b: RevenueSums): number | null {
+  if (a.n < 2 || b.n < 2) return null;
+  const variance = (s: RevenueSums) => Math.max(0, (s.sumSq - (s.sum * s.sum) / s.n) / (s.n - 1));
+  const se = Math.sqrt(variance(a) / a.n + variance(b) / b.n);
+  if (se === 0) return null;
+  return 2 * (1 - normalCdf(Math.abs((a.sum / a.n - b.sum / b.n) / se)));
+}
+
+/**
+ * Significance verdict for every active experiment, from
+ * pricing_experiment_variant_stats.
+ */
+export async function analyzeExperiments(): Promise<ExperimentVerdict[]> {
+  const [{ data: experiments }, { data: stats }] = await Promise.all([
+    supabase.from("pricing_experiments").select("endpoint_path, variant_name, price_usd").eq("is_active", true),
+    supabase.from("pricing_experiment_variant_stats").select("*"),
+  ]);
+
+  const statsByKey = new Map((stats || []).map((s) => [`${s.endpoint_path}:${s.variant_name}`, s]));
+  const byEndpoint: Record<string, Array<{ variant: string; priceUsd: number; sums: RevenueSums }>> = {};
+  for (const e of experiments || []) {
+    const s = statsByKey.get(`${e.endpoint_path}:${e.variant_name}`);
+    if (!byEndpoint[e.endpoint_path]) byEndpoint[e.endpoint_path] = [];
+    byEndpoint[e.endpoint_path].push({
+      variant: e.variant_name,
+      priceUsd: Number(e.price_usd),
+      sums: { n: s?.payers || 0, sum: Number(s?.revenue_usd || 0), sumSq: Number(s?.revenue_sq_usd || 0) },
+    });
+  }
+
+  const verdicts: ExperimentVerdict[] = [];
+  for (const [endpoint, arms] of Object.entries(byEndpoint)) {
+    if (arms.length < 2) continue;
+    const perPayer = (a: (typeof arms)[number]) => (a.sums.n > 0 ? a.sums.sum / a.sums.n : 0);
+    const control = arms.find((a) => a.variant === "control") ?? [...arms].sort((a, b) => a.priceUsd - b.priceUsd)[0];
+    const challengers = arms
+      .filter((a) => a !== control)
+      .map((a) => ({ arm: a, p: welchPValue(a.sums, control.sums) }));
+    const significant = challengers.filter((c) => c.p !== null && c.p < EXPERIMENT_ALPHA);
+    const sampleReady = arms.every((a) => a.sums.n >= MIN_PAYERS_PER_VARIANT);
+
+    let winner: string | null = null;
+    let pValue: number | null = null;
+    if (sampleReady) {
+      const better = significant
+        .filter((c) => perPayer(c.arm) > perPayer(control))
+        .sort((a, b) => perPayer(b.arm) - perPayer(a.arm));
+      if (better.length > 0) {
+        winner = better[0].arm.variant;
+        pValue = better[0].p;
+      } else if (significant.length === challengers.length) {
+        // Every challenger earns significantly less than control
+        winner = control.variant;
+        pValue = Math.max(...significant.map((c) => c.p!));
+      }
+    }
+
+    verdicts.push({
+      endpoint,
+      control: control.variant,
+      variants: arms.map((a) => ({
+        variant: a.variant,
+        priceUsd: a.priceUsd,
+        payers: a.sums.n,
+        revenuePerPayer: Math.round(perPayer(a) * 1000000) / 1000000,
+      })),
+      sampleReady,
+      winner,
+      pValue,
+    });
+  }
+  return verdicts;
+}
+
 /* ── Pricing Analysis ──────────────────────────────────────── */
 
 /**
- * Analyze current x402 pricing and suggest adjustments.
+ * Analyze current x402 pricing and suggest adjustments. Endpoints with
+ * a running A/B experiment follow its verdict instead of the heuristic.
  */
 export async function analyzePricing(): Promise<
   Array<{
@@ -353,12 +461,16 @@ export async function analyzePricing(): Promise<
     recommendedPrice: number;
     reasoning: string;
     confidence: number;
+    experiment?: ExperimentVerdict;
   }>
 > {
-  const { data: payments } = await supabase
-    .from("x402_payments")
-    .select("endpoint, amount, status, created_at")
-    .in("status", ["completed", "settled"]);
+  const [{ data: payments }, experiments] = await Promise.all([
+    supabase
+      .from("x402_payments")
+      .select("endpoint, amount, status, created_at")
+      .in("status", ["completed", "settled"]),
+    analyzeExperiments(),
+  ]);
 
   const allPayments = payments || [];
   const byEndpoint: Record<string, number[]> = {};
@@ -368,9 +480,15 @@ export async function analyzePricing(): Promise<
     if (!byEndpoint[ep]) byEndpoint[ep] = [];
     byEndpoint[ep].push(parseAmount(p.amount));
   }
+  for (const exp of experiments) {
+    if (!byEndpoint[exp.endpoint]) byEndpoint[exp.endpoint] = [];
+  }
+  const experimentFor = new Map(experiments.map((e) => [e.endpoint, e]));
 
   const recommendations = Object.entries(byEndpoint).map(([endpoint, amounts]) => {
-    const avg = amounts.reduce((s, v) => s + v, 0) / amounts.length;
+    const experiment = experimentFor.get(endpoint);
+    const control = experiment?.variants.find((v) => v.variant === experiment.control);
+    const avg = amounts.length > 0 ? amounts.reduce((s, v) => s + v, 0) / amounts.length : control?.priceUsd || 0;
     const volume = amounts.length;
 
     // Simple heuristic: high volume + low price → raise; low volume + high price → lower
@@ -378,7 +496,23 @@ export async function analyzePricing(): Promise<
     let reasoning = "Current pricing appears optimal";
     let confidence = 0.5;
 
-    if (volume > 50 && avg < 0.001) {
+    if (experiment) {
+      const winner = experiment.variants.find((v) => v.variant === experiment.winner);
+      const payers = experiment.variants.map((v) => `${v.variant} n=${v.payers}`).join(", ");
+      if (winner && experiment.pValue !== null) {
+        recommendedPrice = winner.priceUsd;
+        reasoning =
+          `A/B experiment: ${winner.variant} at $${winner.priceUsd} earns $${winner.revenuePerPayer}/payer ` +
+          `(p=${experiment.pValue.toFixed(3)}; ${payers})`;
+        confidence = Math.min(0.99, Math.round((1 - experiment.pValue) * 100) / 100);
+      } else {
+        recommendedPrice = control?.priceUsd ?? avg;
+        reasoning = experiment.sampleReady
+          ? `A/B experiment inconclusive — no significant difference in revenue per payer (${payers})`
+          : `A/B experiment collecting data — ${MIN_PAYERS_PER_VARIANT} payers per variant needed (${payers})`;
+        confidence = 0.5;
+      }
+    } else if (volume > 50 && avg < 0.001) {
       recommendedPrice = avg * 1.5;
       reasoning = "High demand endpoint — price increase likely tolerable";
       confidence = 0.7;
@@ -397,6 +531,7 @@ export async function analyzePricing(): Promise<
       recommendedPrice: Math.round(recommendedPrice * 1000000) / 1000000,
       reasoning,
       confidence,
+      ...(experiment ? { experiment } : {}),
     };
   });
 
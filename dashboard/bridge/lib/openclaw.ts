@@ -2,22 +2,8 @@ import { spawn, type ChildProcess } from "child_process";
 import { resolve } from "path";
 import { randomUUID } from "crypto";
 import { existsSync, realpathSync } from "fs";
-
-/** Allowed agent IDs to prevent arbitrary execution */
-const ALLOWED_AGENTS = new Set([
-  "main",
-  "soul",
-  "sentinel",
-  "briefing",
-  "oracle",
-  "alchemist",
-  "midas",
-  "web3dev",
-  "akua",
-  "akua_web",
-  "basedintern",
-  "basedintern_web",
-]);
+import { createUsageMeter, type RunUsage } from "./usage-meter.js";
+import { isRegisteredAgent } from "./agent-registry.js";
 
 /** Default timeout for agent calls (seconds) — 180s gives tool-heavy runs room */
 const DEFAULT_TIMEOUT_S = parseInt(process.env.AGENT_TIMEOUT || "180", 10);
@@ -31,6 +17,8 @@ export interface OpenClawOptions {
   isRetry?: boolean;
   /** Timeout in seconds (default 120). Set 0 to disable. */
   timeoutSeconds?: number;
+  /** Called once per process, just before onExit, with wall time and any reported token/cost figures */
+  onUsage?: (usage: RunUsage) => void;
 }
 
 /**
@@ -38,10 +26,11 @@ export interface OpenClawOptions {
  * Returns a handle to kill the process if needed.
  */
 export function runAgent(options: OpenClawOptions): ChildProcess {
-  const { agentId, message, onChunk, onExit, timeoutSeconds } = options;
+  const { agentId, message, onChunk, onExit, onUsage, timeoutSeconds } = options;
 
-  if (!ALLOWED_AGENTS.has(agentId)) {
-    throw new Error(`Agent "${agentId}" is not in the allowed list`);
+  // Only registered, non-retired agents (agent_registry) — prevents arbitrary execution
+  if (!isRegisteredAgent(agentId)) {
+    throw new Error(`Agent "${agentId}" is not in the agent registry (or is retired)`);
   }
 
   const openclawPath = process.env.OPENCLAW_PATH || "openclaw";
@@ -99,6 +88,7 @@ export function runAgent(options: OpenClawOptions): ChildProcess {
     stdio: ["ignore", "pipe", "pipe"],
   });
 
+  const meter = createUsageMeter();
   let resolved = false;
   let timedOut = false;
   let timeoutTimer: ReturnType<typeof setTimeout> | null = null;
@@ -124,12 +114,16 @@ export function runAgent(options: OpenClawOptions): ChildProcess {
 
   // Stream stdout
   child.stdout?.on("data", (data: Buffer) => {
-    onChunk(data.toString("utf-8"));
+    const text = data.toString("utf-8");
+    meter.feed(text);
+    onChunk(text);
   });
 
-  // Stream stderr
+  // Stream stderr (usage summaries are often printed here)
   child.stderr?.on("data", (data: Buffer) => {
-    onChunk(data.toString("utf-8"));
+    const text = data.toString("utf-8");
+    meter.feed(text);
+    onChunk(text);
   });
 
   child.on("exit", (code) => {
@@ -137,6 +131,7 @@ export function runAgent(options: OpenClawOptions): ChildProcess {
     if (timeoutTimer) clearTimeout(timeoutTimer);
     const exitCode = timedOut ? 124 : code;
     console.log(`[openclaw] Process exited with code ${exitCode}${timedOut ? " (timeout)" : ""}`);
+    onUsage?.(meter.finish(exitCode, timedOut));
     onExit(exitCode);
   });
 
@@ -145,6 +140,7 @@ export function runAgent(options: OpenClawOptions): ChildProcess {
     if (timeoutTimer) clearTimeout(timeoutTimer);
     console.error(`[openclaw] Spawn error:`, err.message);
     onChunk(`\n[Bridge Error] ${err.message}\n`);
+    onUsage?.(meter.finish(1, false));
     onExit(1);
   });
 
@@ -175,6 +171,7 @@ export function runAgentWithFallback(options: OpenClawOptions): ChildProcess {
           isRetry: true,
           timeoutSeconds: options.timeoutSeconds ?? DEFAULT_TIMEOUT_S,
           onChunk,
+          onUsage: options.onUsage,
           onExit: originalOnExit,
         });
       } else {
@@ -109,6 +109,7 @@ export async function buildAssociations(
 
 /**
  * Strengthen an existing association (called when a retrieval proves useful).
+ * A negative boost weakens it; strength stays within 0–1.
  */
 export async function reinforceAssociation(
   memoryId: string,
@@ -124,7 +125,7 @@ export async function reinforceAssociation(
       .single();
 
     if (data) {
-      const newStrength = Math.min(1.0, data.strength + boost);
+      const newStrength = Math.max(0, Math.min(1.0, data.strength + boost));
       await supabase
         .from("memory_associations")
         .update({ strength: newStrength })
@@ -7,34 +7,61 @@
  *   1. Keyword-scored recent memories
  *   2. Associated memories from the association graph
  *   3. Dream insights (patterns, corrections)
- *   4. On-chain anchor count (identity context)
+ *   4. Predictions that anticipate the task (when the policy allows)
+ *   5. On-chain anchor count (identity context)
  *
- * Also handles post-task processing: building associations
- * after command completion.
+ * What each agent gets — how many memories, how much context, which
+ * insight categories — comes from its Soul policy (see policies.ts).
+ *
+ * Records what was injected into each command (see provenance.ts)
+ * and handles post-task processing: building associations after
+ * command completion.
  */
 
 import { retrieveRelevantMemories, extractKeywords, logQuery } from "./retrieval.js";
 import { getRelevantInsights } from "./dream.js";
 import { buildAssociations } from "./associations.js";
+import { getActivePredictions } from "./predictive.js";
+import { recordContextProvenance } from "./provenance.js";
+import { getSoulPolicy } from "./policies.js";
 import { getLatestAnchor, isAnchoringEnabled } from "../memory-anchor.js";
-import { DEFAULT_CONFIG } from "./types.js";
 import type { ContextPacket } from "./types.js";
 
+/** Predictions injected per command at most */
+const MAX_PREDICTED_LINES = 2;
+
 /**
  * Build an intelligent context preamble for dispatch.
  * This replaces the old buildMemoryContext() with Soul-powered retrieval.
+ * Pass the command id to record which memories, insights and
+ * predictions were injected into it.
  */
 export async function buildSoulContext(
   agentId: string,
-  taskMessage: string
+  taskMessage: string,
+  commandId?: string
 ): Promise<string> {
   const keywords = extractKeywords(taskMessage);
-
-  // Fetch relevant memories (scored by keyword match + associations)
-  const memories = await retrieveRelevantMemories(agentId, taskMessage);
-
-  // Fetch dream insights that match the task
-  const insights = await getRelevantInsights(keywords);
+  const policy = getSoulPolicy(agentId);
+
+  // Fetch relevant memories (scored by keyword match + associations),
+  // dream insights that match the task, and this agent's open predictions
+  const [memories, insights, predictions] = await Promise.all([
+    retrieveRelevantMemories(agentId, taskMessage),
+    getRelevantInsights(keywords, 3, policy.insightCategories),
+    policy.predictiveInjection ? getActivePredictions(agentId) : Promise.resolve([]),
+  ]);
+
+  // A prediction applies if it pre-staged a retrieved memory or
+  // anticipated this task's keywords
+  const retrievedIds = new Set(memories.map((m) => m.id));
+  const matched = predictions
+    .filter(
+      (p) =>
+        p.preloaded_memory_ids.some((id) => retrievedIds.has(id)) ||
+        ((p.prediction_context.keywords ?? []) as string[]).some((kw) => keywords.includes(kw))
+    )
+    .slice(0, MAX_PREDICTED_LINES);
 
   // Get on-chain anchor count for identity context
   let anchorInfo = "";
@@ -51,13 +78,13 @@ export async function buildSoulContext(
   }
 
   // Build the context string
-  if (memories.length === 0 && insights.length === 0 && !anchorInfo) {
+  if (memories.length === 0 && insights.length === 0 && matched.length === 0 && !anchorInfo) {
     return "";
   }
 
   const lines: string[] = [];
   let chars = 0;
-  const maxChars = DEFAULT_CONFIG.maxContextChars;
+  const maxChars = policy.maxContextChars;
 
   lines.push("--- CONTEXT (curated by Soul) ---");
 
@@ -68,16 +95,29 @@ export async function buildSoulContext(
   }
 
   // Dream insights (high-value, brief)
+  const injectedInsights: typeof insights = [];
   if (insights.length > 0) {
     for (const insight of insights) {
       const line = `[insight] ${insight.insight}`;
       if (chars + line.length > maxChars) break;
       lines.push(line);
       chars += line.length;
+      injectedInsights.push(insight);
     }
   }
 
+  // Predictions (what Soul expects this agent to need)
+  const injectedPredictions: typeof matched = [];
+  for (const prediction of matched) {
+    const line = `[predicted] ${prediction.predicted_intent} (${Math.round(prediction.confidence * 100)}%)`;
+    if (chars + line.length > maxChars) break;
+    lines.push(line);
+    chars += line.length;
+    injectedPredictions.push(prediction);
+  }
+
   // Memories (chronological, most relevant first already filtered)
+  const injected: typeof memories = [];
   if (memories.length > 0) {
     // Re-sort chronologically for reading order
     const chronological = [...memories].sort(
@@ -97,20 +137,37 @@ export async function buildSoulContext(
       if (chars + line.length > maxChars) break;
       lines.push(line);
       chars += line.length + 1;
+      injected.push(mem);
     }
   }
 
   lines.push("--- END CONTEXT ---");
   lines.push("");
 
-  // Log the query for learning (non-blocking)
+  // Log the memories that made it into the context (non-blocking)
   logQuery(
     agentId,
     keywords,
-    memories.map((m) => m.id!).filter(Boolean),
-    memories.map((m) => m.relevance)
+    injected.map((m) => m.id!).filter(Boolean),
+    injected.map((m) => m.relevance),
+    commandId
   ).catch(() => {});
 
+  if (commandId) {
+    await recordContextProvenance({
+      command_id: commandId,
+      agent_id: agentId,
+      task_keywords: keywords,
+      memory_ids: injected.map((m) => m.id!).filter(Boolean),
+      memory_relevance: injected.filter((m) => m.id).map((m) => Math.round(m.relevance * 1000) / 1000),
+      insight_ids: injectedInsights.map((i) => i.id!).filter(Boolean),
+      prediction_ids: injectedPredictions.map((p) => p.id!).filter(Boolean),
+      anchor_included: Boolean(anchorInfo),
+      chars_used: chars,
+      char_budget: maxChars,
+    });
+  }
+
   return lines.join("\n");
 }
 
@@ -136,8 +193,9 @@ export async function buildContextPacket(
   agentId: string,
   taskMessage: string
 ): Promise<ContextPacket> {
+  const policy = getSoulPolicy(agentId);
   const memories = await retrieveRelevantMemories(agentId, taskMessage);
-  const insights = await getRelevantInsights(extractKeywords(taskMessage));
+  const insights = await getRelevantInsights(extractKeywords(taskMessage), 3, policy.insightCategories);
 
   let totalAnchors = 0;
   if (isAnchoringEnabled()) {
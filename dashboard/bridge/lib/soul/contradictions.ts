@@ -0,0 +1,429 @@
+/**
+ * Soul Agent — Contradiction Detection
+ *
+ * Facts and goals are written by many agents and never checked
+ * against each other, so two `_shared` facts can name different
+ * contract addresses. This module pulls simple "subject is value"
+ * claims out of fact/goal memories and flags pairs that give the
+ * same subject different values:
+ *
+ *   - on write (writeMemory → checkContradictions)
+ *   - during dreams (scanContradictions over recent facts/goals)
+ *
+ * Each flagged pair lands in memory_contradictions with a
+ * low-confidence `correction` insight as its candidate (below the
+ * injection threshold, so agents don't see it yet). A human picks
+ * the winner on the dashboard; the bridge then archives the loser
+ * through the reforge archive path and firms the correction up.
+ */
+
+import type { RealtimeChannel } from "@supabase/supabase-js";
+import { supabase } from "../supabase.js";
+import { trackChannelStatus } from "../metrics.js";
+import { extractKeywords } from "./retrieval.js";
+import { archiveMemories } from "./reforge.js";
+
+// ── Types ────────────────────────────────────────────────────
+
+export type ContradictionStatus = "open" | "resolved" | "dismissed";
+
+export interface MemoryContradiction {
+  id: string;
+  memory_a_id: string;
+  memory_b_id: string;
+  kind: "fact" | "goal";
+  subject: string;
+  value_a: string;
+  value_b: string;
+  detected_by: "write" | "dream";
+  insight_id: string | null;
+  status: ContradictionStatus;
+  winner_id: string | null;
+  resolved_by: string | null;
+  resolved_at: string | null;
+  applied_at: string | null;
+  created_at: string;
+}
+
+/** A "subject is value" statement pulled out of a memory */
+export interface Claim {
+  /** Sorted subject keywords, e.g. "address contract xmetav" */
+  subject: string;
+  /** The value as written (trimmed) */
+  value: string;
+  /** What gets compared: addresses, a number, or value keywords */
+  comparable: string;
+  type: "address" | "number" | "text";
+}
+
+interface MemoryRow {
+  id: string;
+  agent_id: string;
+  kind: string;
+  content: string;
+  created_at: string;
+}
+
+// ── Config ───────────────────────────────────────────────────
+
+const CHECKED_KINDS = ["fact", "goal"];
+/** Memories compared against a new one */
+const WRITE_WINDOW = 200;
+/** Memories scanned per dream */
+const DREAM_WINDOW = 500;
+/** Candidate confidence — below getRelevantInsights' 0.4 floor, so never injected */
+const CANDIDATE_CONFIDENCE = 0.3;
+const RESOLVED_CONFIDENCE = 0.9;
+
+const ADDRESS_RE = /\b0x[a-fA-F0-9]{40}\b/g;
+/** A number, or a date/time/version-like run of them ("2026-02-14", "1.2.3") */
+const NUMBER_RE = /-?\d[\d,]*(?:\.\d+)?(?:[-/:.]\d+)*/;
+const CLAIM_RE =
+  /^(.{2,80}?)\s*(?:\bis\b|\bare\b|\bwas\b|\bequals\b|\bset to\b|\bdeployed at\b|\blives at\b|=|:)\s*(.+)$/i;
+
+/** Subject words that label a memory rather than name a thing ("Goal: …", "Task: …") */
+const GENERIC_SUBJECTS = new Set(["goal", "goals", "note", "task", "fact", "output", "todo", "status", "update"]);
+
+// ── Claim extraction ─────────────────────────────────────────
+
+/**
+ * Pull "subject is value" claims out of memory content. Sentences
+ * without a recognizable subject or value are ignored.
+ */
+export function extractClaims(content: string): Claim[] {
+  const claims: Claim[] = [];
+  const seen = new Set<string>();
+
+  for (const sentence of content.split(/(?<=[.!?])\s+|\n|;/)) {
+    const match = CLAIM_RE.exec(sentence.trim());
+    if (!match) continue;
+
+    const subjectWords = extractKeywords(match[1]).filter((w) => !GENERIC_SUBJECTS.has(w));
+    if (subjectWords.length === 0) continue;
+    const subject = [...subjectWords].sort().join(" ");
+    if (seen.has(subject)) continue;
+
+    const value = match[2].trim().replace(/[.!?,]+$/, "").slice(0, 200);
+    const addresses = value.match(ADDRESS_RE);
+    const number = NUMBER_RE.exec(value);
+
+    let claim: Claim | null = null;
+    if (addresses) {
+      const unique = [...new Set(addresses.map((a) => a.toLowerCase()))].sort();
+      claim = { subject, value, comparable: unique.join(","), type: "address" };
+    } else if (number) {
+      const raw = number[0].replace(/,/g, "");
+      const numeric = Number(raw);
+      claim = { subject, value, comparable: Number.isNaN(numeric) ? raw : String(numeric), type: "number" };
+    } else {
+      const words = extractKeywords(value);
+      if (words.length > 0) claim = { subject, value, comparable: [...words].sort().join(" "), type: "text" };
+    }
+
+    if (claim) {
+      claims.push(claim);
+      seen.add(subject);
+    }
+  }
+
+  return claims;
+}
+
+/** Agent-private memories only conflict within the agent; `_shared` conflicts with everyone */
+function sameScope(a: MemoryRow, b: MemoryRow): boolean {
+  return a.agent_id === b.agent_id || a.agent_id === "_shared" || b.agent_id === "_shared";
+}
+
+/** The first subject two memories disagree on, or null */
+export function findConflict(
+  a: MemoryRow,
+  b: MemoryRow,
+  claimsA = extractClaims(a.content),
+  claimsB = extractClaims(b.content)
+): { subject: string; value_a: string; value_b: string } | null {
+  if (a.id === b.id || a.kind !== b.kind || !sameScope(a, b)) return null;
+  for (const ca of claimsA) {
+    const cb = claimsB.find((c) => c.subject === ca.subject && c.type === ca.type);
+    if (cb && cb.comparable !== ca.comparable) {
+      return { subject: ca.subject, value_a: ca.value, value_b: cb.value };
+    }
+  }
+  return null;
+}
+
+// ── Recording ────────────────────────────────────────────────
+
+async function archivedIds(memoryIds: string[]): Promise<Set<string>> {
+  if (memoryIds.length === 0) return new Set();
+  const { data } = await supabase
+    .from("memory_decay")
+    .select("memory_id")
+    .in("memory_id", memoryIds)
+    .eq("is_archived", true);
+  return new Set((data ?? []).map((d: { memory_id: string }) => d.memory_id));
+}
+
+/** Insert the low-confidence `correction` insight that stands for an open contradiction */
+async function insertCandidateInsight(
+  older: MemoryRow,
+  newer: MemoryRow,
+  conflict: { subject: string; value_a: string; value_b: string }
+): Promise<string | null> {
+  const base = {
+    insight: `Conflicting ${older.kind}s about "${conflict.subject}": "${conflict.value_a}" vs "${conflict.value_b}" — awaiting resolution.`,
+    source_memories: [older.id, newer.id],
+    category: "correction",
+    confidence: CANDIDATE_CONFIDENCE,
+  };
+
+  let { data, error } = await supabase
+    .from("dream_insights")
+    .insert({ ...base, generator: "contradiction" })
+    .select("id")
+    .single();
+
+  if (error?.code === "PGRST204" || error?.code === "42703") {
+    // Structured-insight columns not migrated yet
+    ({ data, error } = await supabase.from("dream_insights").insert(base).select("id").single());
+  }
+  if (error) {
+    console.error("[soul:contradictions] Failed to record correction candidate:", error.message);
+    return null;
+  }
+  return data?.id ?? null;
+}
+
+/** Record one contradiction (older memory first). Returns false if it was already known. */
+async function recordContradiction(
+  a: MemoryRow,
+  b: MemoryRow,
+  conflict: { subject: string; value_a: string; value_b: string },
+  detectedBy: MemoryContradiction["detected_by"]
+): Promise<boolean> {
+  const [older, newer] = a.created_at <= b.created_at ? [a, b] : [b, a];
+  const values =
+    older === a ? conflict : { subject: conflict.subject, value_a: conflict.value_b, value_b: conflict.value_a };
+
+  const { data: existing } = await supabase
+    .from("memory_contradictions")
+    .select("id")
+    .eq("memory_a_id", older.id)
+    .eq("memory_b_id", newer.id)
+    .maybeSingle();
+  if (existing) return false;
+
+  const insightId = await insertCandidateInsight(older, newer, values);
+
+  const { error } = await supabase.from("memory_contradictions").insert({
+    memory_a_id: older.id,
+    memory_b_id: newer.id,
+    kind: older.kind,
+    subject: values.subject,
+    value_a: values.value_a,
+    value_b: values.value_b,
+    detected_by: detectedBy,
+    insight_id: insightId,
+  });
+
+  if (error) {
+    // Lost a race with another detector (unique pair) or table not migrated
+    if (insightId) await supabase.from("dream_insights").delete().eq("id", insightId);
+    if (error.code !== "23505") console.error("[soul:contradictions] Failed to record contradiction:", error.message);
+    return false;
+  }
+
+  console.log(
+    `[soul:contradictions] ${older.kind} conflict on "${values.subject}": ` +
+      `${older.id.slice(0, 8)} "${values.value_a}" vs ${newer.id.slice(0, 8)} "${values.value_b}"`
+  );
+  return true;
+}
+
+// ── Detection ────────────────────────────────────────────────
+
+/**
+ * Check a newly written fact/goal against the agent's (and shared)
+ * facts/goals of the same kind. Returns how many contradictions were
+ * flagged. Non-fatal — callers don't await it.
+ */
+export async function checkContradictions(
+  memoryId: string,
+  entry: { agent_id: string; kind: string; content: string }
+): Promise<number> {
+  if (!CHECKED_KINDS.includes(entry.kind)) return 0;
+  const claims = extractClaims(entry.content);
+  if (claims.length === 0) return 0;
+
+  let query = supabase
+    .from("agent_memory")
+    .select("id, agent_id, kind, content, created_at")
+    .eq("kind", entry.kind)
+    .neq("id", memoryId);
+  // A shared fact can contradict any agent's; an agent's only its own + shared
+  if (entry.agent_id !== "_shared") query = query.in("agent_id", [entry.agent_id, "_shared"]);
+
+  const { data, error } = await query.order("created_at", { ascending: false }).limit(WRITE_WINDOW);
+  if (error || !data || data.length === 0) return 0;
+
+  const self: MemoryRow = { id: memoryId, ...entry, created_at: new Date().toISOString() };
+  const conflicts = (data as MemoryRow[])
+    .map((m) => ({ m, conflict: findConflict(self, m, claims) }))
+    .filter((c) => c.conflict !== null);
+  if (conflicts.length === 0) return 0;
+
+  const archived = await archivedIds(conflicts.map((c) => c.m.id));
+  let flagged = 0;
+  for (const { m, conflict } of conflicts) {
+    if (archived.has(m.id)) continue;
+    if (await recordContradiction(self, m, conflict!, "write")) flagged++;
+  }
+  return flagged;
+}
+
+/**
+ * Dream pass: compare the most recent facts/goals with each other
+ * and flag conflicts the write-time check missed (older rows, rows
+ * written straight to the table).
+ */
+export async function scanContradictions(): Promise<number> {
+  const { data, error } = await supabase
+    .from("agent_memory")
+    .select("id, agent_id, kind, content, created_at")
+    .in("kind", CHECKED_KINDS)
+    .order("created_at", { ascending: false })
+    .limit(DREAM_WINDOW);
+
+  if (error || !data || data.length < 2) return 0;
+
+  const archived = await archivedIds(data.map((m: MemoryRow) => m.id));
+
+  // Group claims by subject so only memories about the same thing are compared
+  const bySubject = new Map<string, Array<{ memory: MemoryRow; claims: Claim[] }>>();
+  for (const memory of data as MemoryRow[]) {
+    if (archived.has(memory.id)) continue;
+    const claims = extractClaims(memory.content);
+    for (const claim of claims) {
+      const group = bySubject.get(claim.subject) ?? [];
+      group.push({ memory, claims });
+      bySubject.set(claim.subject, group);
+    }
+  }
+
+  let flagged = 0;
+  const checked = new Set<string>();
+  for (const group of bySubject.values()) {
+    for (let i = 0; i < group.length; i++) {
+      for (let j = i + 1; j < group.length; j++) {
+        const a = group[i];
+        const b = group[j];
+        const pair = [a.memory.id, b.memory.id].sort().join(":");
+        if (checked.has(pair)) continue;
+        checked.add(pair);
+
+        const conflict = findConflict(a.memory, b.memory, a.claims, b.claims);
+        if (conflict && (await recordContradiction(a.memory, b.memory, conflict, "dream"))) flagged++;
+      }
+    }
+  }
+
+  return flagged;
+}
+
+// ── Resolution ───────────────────────────────────────────────
+
+/**
+ * Apply a resolution from the dashboard. Runs once per row —
+ * applied_at is stamped afterwards.
+ *
+ *   resolved  → archive + unpin the loser, turn the candidate into a
+ *               confident correction, and dismiss other open pairs the
+ *               loser was part of
+ *   dismissed → drop the candidate insight
+ */
+export async function applyContradictionResolution(row: MemoryContradiction): Promise<void> {
+  if (row.status === "open" || row.applied_at) return;
+
+  if (row.status === "resolved" && row.winner_id) {
+    const winnerIsA = row.winner_id === row.memory_a_id;
+    const loserId = winnerIsA ? row.memory_b_id : row.memory_a_id;
+    const [winnerValue, loserValue] = winnerIsA ? [row.value_a, row.value_b] : [row.value_b, row.value_a];
+
+    const archived = await archiveMemories(
+      [loserId],
+      `Contradicted by ${row.winner_id.slice(0, 8)} on "${row.subject}"`
+    );
+    if (!archived) return; // retried on the next restart
+
+    // Pinned memories bypass the archive check in retrieval
+    await supabase.from("agent_memory").update({ pinned: false }).eq("id", loserId);
+
+    if (row.insight_id) {
+      const { error } = await supabase
+        .from("dream_insights")
+        .update({
+          insight: `Correction — ${row.subject}: "${winnerValue}", not "${loserValue}".`,
+          confidence: RESOLVED_CONFIDENCE,
+          evidence_memory_ids: [row.winner_id],
+          counter_evidence_ids: [loserId],
+          confidence_rationale: "Resolved by an operator in the contradiction queue.",
+        })
+        .eq("id", row.insight_id);
+      if (error) console.error("[soul:contradictions] Failed to update correction:", error.message);
+    }
+
+    // The loser is archived, so its other open conflicts are moot
+    await supabase
+      .from("memory_contradictions")
+      .update({ status: "dismissed", resolved_at: new Date().toISOString() })
+      .eq("status", "open")
+      .or(`memory_a_id.eq.${loserId},memory_b_id.eq.${loserId}`);
+  } else if (row.insight_id) {
+    await supabase.from("dream_insights").delete().eq("id", row.insight_id);
+  }
+
+  const { error } = await supabase
+    .from("memory_contradictions")
+    .update({ applied_at: new Date().toISOString() })
+    .eq("id", row.id);
+  if (error) {
+    console.error("[soul:contradictions] Failed to mark resolution applied:", error.message);
+    return;
+  }
+
+  console.log(`[soul:contradictions] ${row.status} "${row.subject}" (${row.id.slice(0, 8)})`);
+}
+
+/**
+ * Apply resolutions made while the bridge was offline, then subscribe
+ * to new ones via Realtime.
+ */
+export function startContradictionResolver(): RealtimeChannel {
+  supabase
+    .from("memory_contradictions")
+    .select("*")
+    .neq("status", "open")
+    .is("applied_at", null)
+    .order("resolved_at", { ascending: true })
+    .limit(200)
+    .then(async ({ data, error }) => {
+      if (error) return; // table not migrated yet
+      for (const row of (data ?? []) as MemoryContradiction[]) {
+        await applyContradictionResolution(row).catch(() => {});
+      }
+    });
+
+  return supabase
+    .channel("memory-contradictions")
+    .on(
+      "postgres_changes",
+      { event: "UPDATE", schema: "public", table: "memory_contradictions" },
+      (payload) => {
+        applyContradictionResolution(payload.new as MemoryContradiction).catch((err) =>
+          console.error("[soul:contradictions] Resolution failed:", err)
+        );
+      }
+    )
+    .subscribe((status) => {
+      trackChannelStatus("memory-contradictions", status);
+    });
+}
@@ -0,0 +1,218 @@
+/**
+ * Soul Agent — LLM Dream Consolidation
+ *
+ * Optionally summarizes each dream cluster with a local model
+ * (Ollama /api/chat — the same host OpenClaw's local agents run on)
+ * into a structured insight: a claim, the memories that support it,
+ * the memories that cut against it, and why the confidence is what
+ * it is.
+ *
+ * Off unless SOUL_DREAM_MODEL is set. Any failure — Ollama down,
+ * breaker open, output that doesn't validate — falls back to the
+ * keyword heuristic for that cluster, so a dream never stalls on
+ * the model.
+ */
+
+import { CircuitBreaker } from "../circuit-breaker.js";
+import type { DreamInsight } from "./types.js";
+import type { MemoryCluster } from "./dream.js";
+
+// ── Config ───────────────────────────────────────────────────
+
+const OLLAMA_URL = process.env.OLLAMA_URL || "http://localhost:11434";
+const DREAM_MODEL = (process.env.SOUL_DREAM_MODEL || "").trim();
+const DREAM_TIMEOUT_MS = Number(process.env.SOUL_DREAM_TIMEOUT_MS || 90_000);
+/** Largest clusters go to the model; the rest use the heuristic */
+const DREAM_MAX_CLUSTERS = Number(process.env.SOUL_DREAM_MAX_CLUSTERS || 8);
+/** Memories per cluster shown to the model (newest kept) */
+const MAX_MEMORIES_PER_PROMPT = 25;
+const MAX_MEMORY_CHARS = 400;
+
+const CATEGORIES: DreamInsight["category"][] = ["pattern", "recommendation", "summary", "correction"];
+
+// Circuit breaker: 2 failures → 10 min cooldown (model not pulled / Ollama down)
+const dreamBreaker = new CircuitBreaker("ollama-dream", {
+  failThreshold: 2,
+  resetTimeout: 600_000,
+});
+
+export interface DreamConsolidationConfig {
+  mode: "llm" | "heuristic";
+  provider: "ollama" | null;
+  model: string | null;
+  url: string | null;
+  timeoutMs: number;
+  maxClusters: number;
+  breaker: string;
+  /** Outcome of the last dream cycle in this bridge process */
+  lastRun: DreamConsolidationStats | null;
+}
+
+export interface DreamConsolidationStats {
+  at: string;
+  clusters: number;
+  llm: number;
+  heuristic: number;
+  /** Clusters the model was asked about but that fell back to the heuristic */
+  fallbacks: number;
+}
+
+let lastRun: DreamConsolidationStats | null = null;
+
+export function isLlmConsolidationEnabled(): boolean {
+  return DREAM_MODEL.length > 0;
+}
+
+/** How many clusters per dream go to the model (0 when consolidation is heuristic-only) */
+export function llmClusterBudget(): number {
+  return isLlmConsolidationEnabled() ? DREAM_MAX_CLUSTERS : 0;
+}
+
+/** Current consolidation settings (served on the bridge health port for the dashboard) */
+export function getDreamConsolidationConfig(): DreamConsolidationConfig {
+  const llm = isLlmConsolidationEnabled();
+  return {
+    mode: llm ? "llm" : "heuristic",
+    provider: llm ? "ollama" : null,
+    model: llm ? DREAM_MODEL : null,
+    url: llm ? OLLAMA_URL : null,
+    timeoutMs: DREAM_TIMEOUT_MS,
+    maxClusters: DREAM_MAX_CLUSTERS,
+    breaker: dreamBreaker.currentState,
+    lastRun,
+  };
+}
+
+export function recordConsolidationRun(stats: Omit<DreamConsolidationStats, "at">): void {
+  lastRun = { at: new Date().toISOString(), ...stats };
+}
+
+// ── Prompting ────────────────────────────────────────────────
+
+const SYSTEM_PROMPT = `You consolidate an AI agent fleet's memories during idle "dream" cycles.
+You get a cluster of related memories, each tagged with an id, kind, agent and timestamp.
+Find the single most useful insight the fleet should carry forward.
+
+Respond with ONLY a JSON object:
+{
+  "claim": "one or two sentences, specific and actionable",
+  "category": "pattern" | "recommendation" | "summary" | "correction",
+  "evidence": ["ids of memories that support the claim"],
+  "counter_evidence": ["ids of memories that contradict or weaken it"],
+  "confidence": 0.0-1.0,
+  "confidence_rationale": "why this confidence, in one sentence"
+}
+
+Use "correction" for recurring errors or wrong assumptions, "recommendation" for what agents should do differently,
+"pattern" for repeated successes or behaviours, "summary" when the cluster is only related activity.
+Only cite ids from the list. If the memories support nothing worth keeping, set "claim" to "".`;
+
+function buildPrompt(cluster: MemoryCluster): string {
+  const memories = cluster.memories.slice(-MAX_MEMORIES_PER_PROMPT);
+  const lines = memories.map((m) => {
+    const content = m.content.length > MAX_MEMORY_CHARS ? `${m.content.slice(0, MAX_MEMORY_CHARS)}…` : m.content;
+    return `- id=${m.id} kind=${m.kind} agent=${m.agent_id} at=${m.created_at.slice(0, 16)}: ${content}`;
+  });
+  return `Keywords: ${cluster.keywords.slice(0, 10).join(", ")}\n\nMemories:\n${lines.join("\n")}`;
+}
+
+/** Pull the first JSON object out of a model reply (tolerates fences / chatter) */
+function parseJsonObject(text: string): Record<string, unknown> | null {
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  if (start === -1 || end <= start) return null;
+  try {
+    const parsed = JSON.parse(text.slice(start, end + 1));
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+function idList(raw: unknown, allowed: Set<string>): string[] {
+  if (!Array.isArray(raw)) return [];
+  return [...new Set(raw.filter((id): id is string => typeof id === "string" && allowed.has(id)))];
+}
+
+/**
+ * Validate a model reply into a DreamInsight. Returns null when the model
+ * declined (empty claim) or the reply doesn't hold up — e.g. it cites no
+ * memory from the cluster.
+ */
+export function toStructuredInsight(
+  reply: Record<string, unknown>,
+  cluster: MemoryCluster,
+  model: string
+): DreamInsight | null {
+  const claim = typeof reply.claim === "string" ? reply.claim.trim() : "";
+  if (!claim) return null;
+
+  const allowed = new Set(cluster.memories.map((m) => m.id));
+  const evidence = idList(reply.evidence, allowed);
+  if (evidence.length === 0) return null;
+  const counter = idList(reply.counter_evidence, allowed).filter((id) => !evidence.includes(id));
+
+  const category = CATEGORIES.includes(reply.category as DreamInsight["category"])
+    ? (reply.category as DreamInsight["category"])
+    : "pattern";
+  const rawConfidence = typeof reply.confidence === "number" ? reply.confidence : 0.5;
+  // Never more confident than the evidence allows: one supporting memory caps at 0.6
+  const cap = evidence.length === 1 ? 0.6 : 0.95;
+  const confidence = Math.max(0.1, Math.min(cap, rawConfidence));
+
+  return {
+    insight: claim.slice(0, 1000),
+    source_memories: cluster.memories.map((m) => m.id),
+    category,
+    confidence: Math.round(confidence * 100) / 100,
+    evidence_memory_ids: evidence,
+    counter_evidence_ids: counter,
+    confidence_rationale:
+      typeof reply.confidence_rationale === "string" ? reply.confidence_rationale.trim().slice(0, 500) : null,
+    generator: `llm:${model}`,
+  };
+}
+
+/**
+ * Ask the dream model for a structured insight about one cluster.
+ * Returns null on any failure — the caller falls back to the heuristic.
+ */
+export async function summarizeCluster(cluster: MemoryCluster): Promise<DreamInsight | null> {
+  if (!isLlmConsolidationEnabled()) return null;
+
+  let content: string;
+  try {
+    content = await dreamBreaker.call(async () => {
+      const res = await fetch(`${OLLAMA_URL}/api/chat`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          model: DREAM_MODEL,
+          messages: [
+            { role: "system", content: SYSTEM_PROMPT },
+            { role: "user", content: buildPrompt(cluster) },
+          ],
+          format: "json",
+          stream: false,
+          options: { temperature: 0.2, num_predict: 512 },
+        }),
+        signal: AbortSignal.timeout(DREAM_TIMEOUT_MS),
+      });
+      if (!res.ok) {
+        throw new Error(`Ollama chat ${res.status}: ${(await res.text()).slice(0, 200)}`);
+      }
+      const body = (await res.json()) as { message?: { content?: string } };
+      return body.message?.content ?? "";
+    });
+  } catch (err) {
+    console.warn(`[soul] Dream model unavailable, using heuristic: ${(err as Error).message}`);
+    return null;
+  }
+
+  const reply = parseJsonObject(content);
+  if (!reply) {
+    console.warn("[soul] Dream model reply was not JSON, using heuristic.");
+    return null;
+  }
+  return toStructuredInsight(reply, cluster, DREAM_MODEL);
+}
@@ -7,10 +7,15 @@
  * memories, associations, insights, and crystals to generate
  * actionable proposals (manifestations). These can be:
  *
- *   - Auto-executed (high confidence ≥ 0.8 + low-risk categories)
+ *   - Auto-executed (category policy in soul_lucid_policies allows it
+ *     and confidence clears that category's threshold)
  *   - Proposed for approval (medium confidence or risky actions)
  *   - Logged as patterns (low confidence observations)
  *
+ * Approvals from the dashboard are executed here (startLucidReviewer),
+ * and every association change is logged to soul_association_modifications
+ * so an executed manifestation can be undone.
+ *
  * Manifestation categories:
  *   fusion       — Fuse crystals/memories
  *   association  — Self-modify association graph
@@ -21,7 +26,9 @@
  *   correction   — Error pattern requiring intervention
  */
 
+import type { RealtimeChannel } from "@supabase/supabase-js";
 import { supabase } from "../supabase.js";
+import { trackChannelStatus } from "../metrics.js";
 import { extractKeywords } from "./retrieval.js";
 import type { DreamInsight, MemoryAssociation } from "./types.js";
 
@@ -42,7 +49,8 @@ export type ManifestationStatus =
   | "rejected"
   | "executed"
   | "auto_executed"
-  | "expired";
+  | "expired"
+  | "undone";
 
 export interface DreamManifestation {
   id?: string;
@@ -57,6 +65,29 @@ export interface DreamManifestation {
   status: ManifestationStatus;
   dream_session_id?: string;
   created_at?: string;
+  execution_result?: Record<string, unknown> | null;
+  undo_requested_at?: string | null;
+  undone_at?: string | null;
+}
+
+/** Per-category auto-execute rule (soul_lucid_policies) */
+export interface LucidPolicy {
+  category: ManifestationCategory;
+  auto_execute: boolean;
+  min_confidence: number;
+}
+
+export interface UndoResult {
+  success: boolean;
+  /** Strengths / types restored */
+  restored: number;
+  /** Associations the manifestation created, now deleted */
+  deleted: number;
+  /** Log rows whose association no longer exists */
+  missing: number;
+  /** Associations changed again after the manifestation ran */
+  drifted: number;
+  error?: string;
 }
 
 export interface DreamSession {
@@ -73,14 +104,14 @@ export interface DreamSession {
   status: "dreaming" | "completed" | "interrupted";
 }
 
-/** Categories safe for auto-execution at high confidence */
-const AUTO_EXEC_CATEGORIES: ManifestationCategory[] = [
-  "association",
-  "pattern",
+/** Fallback when soul_lucid_policies is missing: low-risk categories at ≥ 0.8 */
+const DEFAULT_LUCID_POLICIES: LucidPolicy[] = [
+  { category: "association", auto_execute: true, min_confidence: 0.8 },
+  { category: "pattern", auto_execute: true, min_confidence: 0.8 },
 ];
 
-/** Minimum confidence for auto-execute */
-const AUTO_EXEC_THRESHOLD = 0.8;
+/** Strength given to associations a manifestation creates */
+const CREATED_ASSOCIATION_STRENGTH = 0.5;
 
 /* ── Dream Session Management ──────────────────────────────── */
 
@@ -674,25 +705,51 @@ async function persistManifestations(
 /* ── Auto-Execution ──────────────────────────────────────── */
 
 /**
- * Auto-execute safe, high-confidence proposals.
+ * Load per-category auto-execute policies. Falls back to the
+ * built-in defaults when soul_lucid_policies isn't migrated yet.
+ */
+export async function getLucidPolicies(): Promise<LucidPolicy[]> {
+  try {
+    const { data, error } = await supabase
+      .from("soul_lucid_policies")
+      .select("category, auto_execute, min_confidence");
+
+    if (error || !data) return DEFAULT_LUCID_POLICIES;
+    return data as LucidPolicy[];
+  } catch {
+    return DEFAULT_LUCID_POLICIES;
+  }
+}
+
+/**
+ * Auto-execute proposals whose category policy allows it and whose
+ * confidence clears that category's threshold.
  * Returns the count of auto-executed items.
  */
 async function autoExecuteProposals(sessionId: string): Promise<number> {
   let count = 0;
 
   try {
-    const { data: candidates } = await supabase
+    const policies = new Map(
+      (await getLucidPolicies())
+        .filter((p) => p.auto_execute)
+        .map((p) => [p.category, p.min_confidence])
+    );
+    if (policies.size === 0) return 0;
+
+    const { data } = await supabase
       .from("soul_dream_manifestations")
       .select("*")
       .eq("dream_session_id", sessionId)
       .eq("status", "proposed")
-      .gte("confidence", AUTO_EXEC_THRESHOLD)
-      .in("category", AUTO_EXEC_CATEGORIES);
+      .in("category", [...policies.keys()]);
 
-    if (!candidates || candidates.length === 0) return 0;
+    const candidates = ((data ?? []) as DreamManifestation[]).filter(
+      (m) => m.confidence >= (policies.get(m.category) ?? Infinity)
+    );
 
     for (const manifest of candidates) {
-      const success = await executeManifest(manifest);
+      const success = await executeManifest(manifest, "auto");
       if (success) {
         await supabase
           .from("soul_dream_manifestations")
@@ -714,32 +771,54 @@ async function autoExecuteProposals(sessionId: string): Promise<number> {
   return count;
 }
 
+/**
+ * Read the live association between two memories, if any.
+ */
+async function getAssociation(
+  memoryId: string,
+  relatedMemoryId: string
+): Promise<MemoryAssociation | null> {
+  const { data } = await supabase
+    .from("memory_associations")
+    .select("memory_id, related_memory_id, association_type, strength")
+    .eq("memory_id", memoryId)
+    .eq("related_memory_id", relatedMemoryId)
+    .maybeSingle();
+  return (data as MemoryAssociation | null) ?? null;
+}
+
 /**
  * Execute a single manifestation's proposed action.
+ *
+ * Works from the live association rows (not the strengths captured when
+ * the proposal was made) and logs exactly what changed, so undoManifest
+ * can put it back.
  */
-async function executeManifest(manifest: DreamManifestation): Promise<boolean> {
+async function executeManifest(manifest: DreamManifestation, executedBy: string): Promise<boolean> {
   const action = manifest.proposed_action;
   if (!action || !action.type) return false;
 
+  const reason = executedBy === "auto" ? "Lucid dream auto-execution" : `Lucid dream approved by ${executedBy}`;
+
   try {
     switch (action.type) {
       case "create_associations": {
         const pairs = (action.memory_pairs as string[][]) ?? [];
-        if (pairs.length > 0) {
-          // Batch upsert all pairs at once
-          const rows = pairs.map(([memA, memB]) => ({
+        for (const [memA, memB] of pairs) {
+          // Never take over an existing link — undo would delete it
+          if (await getAssociation(memA, memB)) continue;
+
+          const { error } = await supabase.from("memory_associations").insert({
             memory_id: memA,
             related_memory_id: memB,
             association_type: "related",
-            strength: 0.5,
-          }));
-          await supabase.from("memory_associations").upsert(
-            rows,
-            { onConflict: "memory_id,related_memory_id" }
-          );
-          for (const [memA, memB] of pairs) {
-            await logModification(manifest.id!, memA, memB, "create", undefined, 0.5);
-          }
+            strength: CREATED_ASSOCIATION_STRENGTH,
+          });
+          if (error) continue;
+          await logModification(manifest.id!, memA, memB, "create", {
+            newStrength: CREATED_ASSOCIATION_STRENGTH,
+            newType: "related",
+          }, reason);
         }
         return true;
       }
@@ -753,20 +832,21 @@ async function executeManifest(manifest: DreamManifestation): Promise<boolean> {
         }>) ?? [];
 
         for (const a of assocs) {
-          const newStrength = Math.min(1.0, a.current_strength + a.proposed_boost);
+          const live = await getAssociation(a.memory_id, a.related_memory_id);
+          if (!live) continue;
+
+          const newStrength = Math.min(1.0, live.strength + a.proposed_boost);
+          if (newStrength === live.strength) continue;
+
           await supabase
             .from("memory_associations")
             .update({ strength: newStrength })
             .eq("memory_id", a.memory_id)
             .eq("related_memory_id", a.related_memory_id);
-          await logModification(
-            manifest.id!,
-            a.memory_id,
-            a.related_memory_id,
-            "reinforce",
-            a.current_strength,
-            newStrength
-          );
+          await logModification(manifest.id!, a.memory_id, a.related_memory_id, "reinforce", {
+            oldStrength: live.strength,
+            newStrength,
+          }, reason);
         }
         return true;
       }
@@ -780,7 +860,7 @@ async function executeManifest(manifest: DreamManifestation): Promise<boolean> {
         return false;
     }
   } catch (err) {
-    console.error("[soul:lucid] Auto-exec failed:", (err as Error).message);
+    console.error("[soul:lucid] Execution failed:", (err as Error).message);
     return false;
   }
 }
@@ -793,9 +873,8 @@ async function logModification(
   memoryId: string,
   relatedMemoryId: string,
   modificationType: "reinforce" | "weaken" | "create" | "retype",
-  oldStrength?: number,
-  newStrength?: number,
-  reason?: string
+  change: { oldStrength?: number; newStrength?: number; oldType?: string; newType?: string },
+  reason: string
 ): Promise<void> {
   try {
     await supabase.from("soul_association_modifications").insert({
@@ -803,15 +882,203 @@ async function logModification(
       memory_id: memoryId,
       related_memory_id: relatedMemoryId,
       modification_type: modificationType,
-      old_strength: oldStrength ?? null,
-      new_strength: newStrength ?? null,
-      reason: reason ?? "Lucid dream auto-execution",
+      old_strength: change.oldStrength ?? null,
+      new_strength: change.newStrength ?? null,
+      old_type: change.oldType ?? null,
+      new_type: change.newType ?? null,
+      reason,
     });
   } catch {
     // Non-fatal
   }
 }
 
+/* ── Review & Undo ───────────────────────────────────────── */
+
+interface ModificationRow {
+  id: string;
+  memory_id: string;
+  related_memory_id: string;
+  modification_type: "reinforce" | "weaken" | "create" | "retype";
+  old_strength: number | null;
+  new_strength: number | null;
+  old_type: string | null;
+  new_type: string | null;
+}
+
+/** Manifestations being executed / undone by this process */
+const inFlight = new Set<string>();
+
+/**
+ * Revert an executed manifestation by replaying its modification log in
+ * reverse: created associations are deleted, reinforced/weakened ones get
+ * their old strength back, retyped ones their old type. Changes made to
+ * the same association since are overwritten and counted as `drifted`.
+ */
+export async function undoManifest(manifestId: string): Promise<UndoResult> {
+  const result: UndoResult = { success: false, restored: 0, deleted: 0, missing: 0, drifted: 0 };
+
+  const { data: manifest } = await supabase
+    .from("soul_dream_manifestations")
+    .select("id, status, undone_at")
+    .eq("id", manifestId)
+    .maybeSingle();
+
+  if (!manifest) return { ...result, error: "Manifest not found" };
+  if (manifest.undone_at) return { ...result, error: "Manifest already undone" };
+  if (manifest.status !== "executed" && manifest.status !== "auto_executed") {
+    return { ...result, error: `Manifest is ${manifest.status}, not executed` };
+  }
+
+  const { data: mods, error } = await supabase
+    .from("soul_association_modifications")
+    .select("id, memory_id, related_memory_id, modification_type, old_strength, new_strength, old_type, new_type")
+    .eq("manifestation_id", manifestId)
+    .is("undone_at", null)
+    .order("created_at", { ascending: false });
+
+  if (error) return { ...result, error: error.message };
+
+  const undoneIds: string[] = [];
+  for (const mod of (mods ?? []) as ModificationRow[]) {
+    const live = await getAssociation(mod.memory_id, mod.related_memory_id);
+    if (!live) {
+      result.missing++;
+      undoneIds.push(mod.id);
+      continue;
+    }
+    if (
+      (mod.new_strength !== null && live.strength !== mod.new_strength) ||
+      (mod.new_type !== null && live.association_type !== mod.new_type)
+    ) {
+      result.drifted++;
+    }
+
+    const match = supabase.from("memory_associations");
+    const { error: revertErr } =
+      mod.modification_type === "create"
+        ? await match.delete().eq("memory_id", mod.memory_id).eq("related_memory_id", mod.related_memory_id)
+        : await match
+            .update(
+              mod.modification_type === "retype"
+                ? { association_type: mod.old_type }
+                : { strength: mod.old_strength }
+            )
+            .eq("memory_id", mod.memory_id)
+            .eq("related_memory_id", mod.related_memory_id);
+
+    if (revertErr) {
+      console.error(`[soul:lucid] Undo of ${mod.id} failed:`, revertErr.message);
+      continue;
+    }
+    if (mod.modification_type === "create") result.deleted++;
+    else result.restored++;
+    undoneIds.push(mod.id);
+  }
+
+  const now = new Date().toISOString();
+  if (undoneIds.length > 0) {
+    await supabase.from("soul_association_modifications").update({ undone_at: now }).in("id", undoneIds);
+  }
+
+  // Anything left un-reverted keeps the manifestation executed so undo can be retried
+  result.success = undoneIds.length === (mods ?? []).length;
+  await supabase
+    .from("soul_dream_manifestations")
+    .update({
+      ...(result.success ? { status: "undone", undone_at: now } : { undo_requested_at: null }),
+      undo_result: result,
+      updated_at: now,
+    })
+    .eq("id", manifestId);
+
+  return result;
+}
+
+/**
+ * Execute a manifestation the dashboard marked approved, recording the
+ * outcome in execution_result (categories without an executor stay
+ * 'approved' with success=false).
+ */
+async function executeApproved(manifest: DreamManifestation & { approved_by?: string | null }): Promise<boolean> {
+  const executedBy = manifest.approved_by ?? "user";
+  const success = await executeManifest(manifest, executedBy);
+
+  await supabase
+    .from("soul_dream_manifestations")
+    .update({
+      status: success ? "executed" : "approved",
+      executed_at: success ? new Date().toISOString() : null,
+      execution_result: success
+        ? { success, executed_by: executedBy }
+        : { success, executed_by: executedBy, error: `No executor for ${String(manifest.proposed_action?.type ?? "unknown")}` },
+    })
+    .eq("id", manifest.id);
+
+  return success;
+}
+
+async function applyReview(row: DreamManifestation): Promise<void> {
+  if (!row.id || inFlight.has(row.id)) return;
+
+  const wantsUndo =
+    Boolean(row.undo_requested_at) && !row.undone_at && (row.status === "executed" || row.status === "auto_executed");
+  const wantsExecution = row.status === "approved" && !row.execution_result;
+  if (!wantsUndo && !wantsExecution) return;
+
+  inFlight.add(row.id);
+  try {
+    if (wantsUndo) {
+      const result = await undoManifest(row.id);
+      console.log(
+        `[soul:lucid] Undid "${row.title}": ${result.restored} restored, ${result.deleted} deleted` +
+          (result.drifted ? `, ${result.drifted} had drifted` : "") +
+          (result.error ? ` (${result.error})` : "")
+      );
+    } else {
+      const success = await executeApproved(row);
+      console.log(`[soul:lucid] Approved "${row.title}" ${success ? "executed" : "recorded (no executor)"}`);
+    }
+  } finally {
+    inFlight.delete(row.id);
+  }
+}
+
+/**
+ * Execute dashboard approvals and undo requests for lucid dream
+ * manifestations. Catches up on anything left pending while the
+ * bridge was down, then follows soul_dream_manifestations updates.
+ */
+export function startLucidReviewer(): RealtimeChannel {
+  supabase
+    .from("soul_dream_manifestations")
+    .select("*")
+    .or("and(status.eq.approved,execution_result.is.null),and(undo_requested_at.not.is.null,undone_at.is.null)")
+    .order("approved_at", { ascending: true })
+    .limit(200)
+    .then(async ({ data, error }) => {
+      if (error) return; // table not migrated yet
+      for (const row of (data ?? []) as DreamManifestation[]) {
+        await applyReview(row).catch(() => {});
+      }
+    });
+
+  return supabase
+    .channel("soul-lucid-review")
+    .on(
+      "postgres_changes",
+      { event: "UPDATE", schema: "public", table: "soul_dream_manifestations" },
+      (payload) => {
+        applyReview(payload.new as DreamManifestation).catch((err) =>
+          console.error("[soul:lucid] Review failed:", err)
+        );
+      }
+    )
+    .subscribe((status) => {
+      trackChannelStatus("soul-lucid-review", status);
+    });
+}
+
 /* ── Public API ────────────────────────────────────────────── */
 
 /**
@@ -857,29 +1124,23 @@ export async function approveManifest(
       return { success: false, error: `Manifest is ${manifest.status}, not proposed` };
     }
 
-    // Mark as approved
-    await supabase
-      .from("soul_dream_manifestations")
-      .update({
-        status: "approved",
-        approved_by: approvedBy,
-        approved_at: new Date().toISOString(),
-      })
-      .eq("id", manifestId);
-
-    // Execute
-    const success = await executeManifest(manifest as DreamManifestation);
-
-    await supabase
-      .from("soul_dream_manifestations")
-      .update({
-        status: success ? "executed" : "approved",
-        executed_at: success ? new Date().toISOString() : null,
-        execution_result: { success, executed_by: approvedBy },
-      })
-      .eq("id", manifestId);
-
-    return { success };
+    // Claim it before the status change reaches startLucidReviewer
+    inFlight.add(manifestId);
+    try {
+      await supabase
+        .from("soul_dream_manifestations")
+        .update({
+          status: "approved",
+          approved_by: approvedBy,
+          approved_at: new Date().toISOString(),
+        })
+        .eq("id", manifestId);
+
+      const success = await executeApproved({ ...(manifest as DreamManifestation), approved_by: approvedBy });
+      return { success };
+    } finally {
+      inFlight.delete(manifestId);
+    }
   } catch (err) {
     return { success: false, error: (err as Error).message };
   }
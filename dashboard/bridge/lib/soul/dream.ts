@@ -22,6 +22,8 @@ import {
 import { runDreamSynthesis } from "./synthesis.js";
 import { runPredictiveAnalysis } from "./predictive.js";
 import { runDecayPass, autoReforge } from "./reforge.js";
+import { scanContradictions } from "./contradictions.js";
+import { summarizeCluster, llmClusterBudget, recordConsolidationRun } from "./dream-llm.js";
 
 let lastDreamTime = 0;
 let isDreaming = false;
@@ -120,7 +122,7 @@ async function triggerDream(
  * Execute one dream cycle:
  * 1. Fetch unprocessed recent memories
  * 2. Cluster by keyword overlap
- * 3. Generate insights from clusters
+ * 3. Generate insights from clusters (dream model if configured, else heuristics)
  * 4. Generate lucid dream proposals
  * 5. Prune weak associations
  */
@@ -162,21 +164,24 @@ async function runDreamCycle(sessionId: string): Promise<{
     .then(() => {});
 
   // 3. Generate insights from significant clusters
-  const insights: DreamInsight[] = [];
-  for (const cluster of clusters) {
-    if (cluster.memories.length < 2) continue;
-
-    const insight = generateInsight(cluster);
-    if (insight) insights.push(insight);
-  }
+  const insights = await consolidateClusters(clusters);
 
   // 4. Write insights to DB
   if (insights.length > 0) {
     try {
-      const { error: insertErr } = await supabase
+      let { error: insertErr } = await supabase
         .from("dream_insights")
         .insert(insights);
 
+      if (insertErr?.code === "PGRST204" || insertErr?.code === "42703") {
+        // Structured-insight columns not migrated yet — keep the claims
+        ({ error: insertErr } = await supabase
+          .from("dream_insights")
+          .insert(insights.map(({ insight, source_memories, category, confidence }) => ({
+            insight, source_memories, category, confidence,
+          }))));
+      }
+
       if (insertErr) {
         console.error("[soul] Failed to save dream insights:", insertErr.message);
       } else {
@@ -235,17 +240,71 @@ async function runDreamCycle(sessionId: string): Promise<{
     console.error("[soul:reforge] Decay/reforge failed:", (err as Error).message);
   }
 
+  // 10. Contradictions — flag conflicting facts/goals for the resolution queue
+  try {
+    const contradictions = await scanContradictions();
+    if (contradictions > 0) {
+      console.log(`[soul] Flagged ${contradictions} contradiction(s) for review.`);
+    }
+  } catch (err) {
+    console.error("[soul:contradictions] Contradiction scan failed:", (err as Error).message);
+  }
+
   return { insights: insights.length, proposals: proposalCount };
 }
 
-interface MemoryCluster {
+export interface MemoryCluster {
   keywords: string[];
   memories: Array<{ id: string; content: string; kind: string; agent_id: string; created_at: string }>;
   agents: string[];
 }
 
 /**
- * Simple keyword-based clustering of memories.
+ * Turn clusters into insights. With a dream model configured, the largest
+ * clusters are summarized by the model; everything else — and any cluster
+ * the model fails on — goes through the keyword heuristic.
+ */
+async function consolidateClusters(clusters: MemoryCluster[]): Promise<DreamInsight[]> {
+  const insights: DreamInsight[] = [];
+  const llmBudget = llmClusterBudget();
+  let llm = 0;
+  let heuristic = 0;
+  let fallbacks = 0;
+  let considered = 0;
+
+  for (const cluster of clusters) {
+    if (cluster.memories.length < 2) continue;
+    considered++;
+
+    if (llm + fallbacks < llmBudget) {
+      const structured = await summarizeCluster(cluster);
+      if (structured) {
+        insights.push(structured);
+        llm++;
+        continue;
+      }
+      fallbacks++;
+    }
+
+    const insight = generateInsight(cluster);
+    if (insight) {
+      insights.push(insight);
+      heuristic++;
+    }
+  }
+
+  recordConsolidationRun({ clusters: considered, llm, heuristic, fallbacks });
+  if (llmBudget > 0) {
+    console.log(`[soul] Consolidation: ${llm} model insight(s), ${heuristic} heuristic, ${fallbacks} fallback(s).`);
+  }
+  return insights;
+}
+
+/**
+ * Greedy keyword-based clustering of memories. Each unassigned memory
+ * seeds a cluster and pulls in later memories that overlap its keywords;
+ * an inverted keyword index limits the comparisons to memories that
+ * share at least one keyword with the seed.
  */
 function clusterMemories(
   memories: Array<{ id: string; content: string; kind: string; agent_id: string; created_at: string }>
@@ -253,10 +312,20 @@ function clusterMemories(
   const clusters: MemoryCluster[] = [];
 
   // Extract keywords for each memory
-  const memKeywords = memories.map((m) => ({
-    mem: m,
-    keywords: extractKeywords(m.content),
-  }));
+  const memKeywords = memories.map((m) => {
+    const keywords = extractKeywords(m.content);
+    return { mem: m, keywords, keywordSet: new Set(keywords) };
+  });
+
+  // keyword → indexes of memories containing it (ascending)
+  const index = new Map<string, number[]>();
+  memKeywords.forEach(({ keywords }, i) => {
+    for (const kw of keywords) {
+      const postings = index.get(kw);
+      if (postings) postings.push(i);
+      else index.set(kw, [i]);
+    }
+  });
 
   const assigned = new Set<number>();
 
@@ -271,12 +340,18 @@ function clusterMemories(
     };
     assigned.add(i);
 
-    // Find similar memories
-    for (let j = i + 1; j < memKeywords.length; j++) {
-      if (assigned.has(j)) continue;
+    // Later memories sharing a keyword with the seed, in original order
+    const candidates = new Set<number>();
+    for (const kw of memKeywords[i].keywords) {
+      for (const j of index.get(kw) ?? []) {
+        if (j > i && !assigned.has(j)) candidates.add(j);
+      }
+    }
 
+    // Find similar memories
+    for (const j of [...candidates].sort((a, b) => a - b)) {
       const overlap = memKeywords[i].keywords.filter((kw) =>
-        memKeywords[j].keywords.includes(kw)
+        memKeywords[j].keywordSet.has(kw)
       );
 
       // Need at least 2 keyword overlap or 40% similarity
@@ -318,22 +393,26 @@ function generateInsight(cluster: MemoryCluster): DreamInsight | null {
   let insight: string;
   let category: DreamInsight["category"] = "pattern";
   let confidence = 0.5;
+  let rationale: string;
 
   if (errors > outcomes && errors >= 2) {
     // Error pattern detected
     insight = `Recurring issues around [${topKeywords}]: ${errors}/${total} memories are errors. Agents involved: ${uniqueAgents.join(", ")}.`;
     category = "correction";
     confidence = Math.min(0.9, 0.4 + errors * 0.1);
+    rationale = `${errors} error memories outnumber ${outcomes} outcomes`;
   } else if (outcomes >= 3) {
     // Success pattern
     insight = `Strong track record with [${topKeywords}]: ${outcomes}/${total} successful outcomes across ${uniqueAgents.length} agent(s).`;
     category = "pattern";
     confidence = Math.min(0.9, 0.4 + outcomes * 0.1);
+    rationale = `${outcomes} outcome memories in a cluster of ${total}`;
   } else if (total >= 4) {
     // Activity cluster
     insight = `High activity around [${topKeywords}]: ${total} related memories in the last 48h. Agents: ${uniqueAgents.join(", ")}.`;
     category = "summary";
     confidence = 0.5;
+    rationale = "Related activity only; no outcome or error majority";
   } else {
     return null; // Not significant enough
   }
@@ -343,6 +422,10 @@ function generateInsight(cluster: MemoryCluster): DreamInsight | null {
     source_memories: memories.map((m) => m.id),
     category,
     confidence: Math.round(confidence * 100) / 100,
+    evidence_memory_ids: memories.map((m) => m.id),
+    counter_evidence_ids: [],
+    confidence_rationale: rationale,
+    generator: "heuristic",
   };
 }
 
@@ -369,15 +452,18 @@ async function pruneWeakAssociations(): Promise<void> {
  */
 export async function getRelevantInsights(
   taskKeywords: string[],
-  limit = 3
+  limit = 3,
+  categories?: DreamInsight["category"][]
 ): Promise<DreamInsight[]> {
+  if (categories && categories.length === 0) return [];
   try {
-    const { data, error } = await supabase
+    let query = supabase
       .from("dream_insights")
       .select("id, insight, source_memories, category, confidence, generated_at")
-      .gte("confidence", 0.4)
-      .order("generated_at", { ascending: false })
-      .limit(20);
+      .gte("confidence", 0.4);
+    if (categories) query = query.in("category", categories);
+
+    const { data, error } = await query.order("generated_at", { ascending: false }).limit(20);
 
     if (error || !data) return [];
 
@@ -0,0 +1,356 @@
+/**
+ * Soul Agent — Memory Embeddings
+ *
+ * Embeds agent_memory rows into memory_embeddings (pgvector) so
+ * retrieval can match on meaning instead of shared keywords.
+ *
+ * Providers (SOUL_EMBED_PROVIDER):
+ *   ollama — local Ollama /api/embed, SOUL_EMBED_MODEL (default nomic-embed-text)
+ *   local  — deterministic feature hashing; no service needed, weaker recall
+ *   off    — no embeddings; retrieval stays keyword-only
+ *
+ * Every vector is tagged with its model. Search only compares vectors
+ * from the active model, and the backfill re-embeds rows stored under
+ * another model, so switching providers never mixes vector spaces.
+ */
+
+import { createHash } from "crypto";
+import { supabase } from "../supabase.js";
+import { CircuitBreaker } from "../circuit-breaker.js";
+import type { MemoryEntry } from "../agent-memory.js";
+
+/** Must match memory_embeddings.embedding (vector(768)) */
+export const EMBEDDING_DIMS = 768;
+
+export interface EmbeddingProvider {
+  name: "ollama" | "local";
+  model: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * The provider is up but refused this input (e.g. longer than the model's
+ * context). Retrying the same text won't help; other rows are unaffected.
+ */
+export class EmbeddingRejectedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EmbeddingRejectedError";
+  }
+}
+
+export type SimilarMemory = MemoryEntry & { id: string; ttl_hours?: number | null; similarity: number };
+
+// ---- Providers ----
+
+const OLLAMA_URL = process.env.OLLAMA_URL || "http://localhost:11434";
+const OLLAMA_TIMEOUT_MS = 15_000;
+
+// Circuit breaker: 3 failures → 2 min cooldown (Ollama not running / model not pulled)
+const ollamaBreaker = new CircuitBreaker("ollama-embed", {
+  failThreshold: 3,
+  resetTimeout: 120_000,
+});
+
+function ollamaProvider(model: string): EmbeddingProvider {
+  return {
+    name: "ollama",
+    model,
+    async embed(texts) {
+      const res = await ollamaBreaker.call(async () => {
+        const r = await fetch(`${OLLAMA_URL}/api/embed`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ model, input: texts }),
+          signal: AbortSignal.timeout(OLLAMA_TIMEOUT_MS),
+        });
+        // Model not pulled / Ollama unavailable trips the breaker; other errors are about the input
+        if (r.status === 404 || r.status >= 502) {
+          throw new Error(`Ollama embed ${r.status}: ${(await r.text()).slice(0, 200)}`);
+        }
+        return r;
+      });
+      if (!res.ok) {
+        throw new EmbeddingRejectedError(`Ollama embed ${res.status}: ${(await res.text()).slice(0, 200)}`);
+      }
+      const body = (await res.json()) as { embeddings?: number[][] };
+      const vectors = body.embeddings ?? [];
+      if (vectors.length !== texts.length) {
+        throw new Error(`Ollama returned ${vectors.length} embeddings for ${texts.length} inputs`);
+      }
+      for (const v of vectors) {
+        if (v.length !== EMBEDDING_DIMS) {
+          throw new Error(`${model} produces ${v.length}-d vectors, expected ${EMBEDDING_DIMS}`);
+        }
+      }
+      return vectors;
+    },
+  };
+}
+
+/** 32-bit FNV-1a */
+function fnv1a(str: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < str.length; i++) {
+    h ^= str.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/**
+ * Feature-hashed bag of words + character trigrams, L2-normalized.
+ * Deterministic and dependency-free; catches shared vocabulary and
+ * word-form variants ("deploy" / "deployment") but not synonyms.
+ */
+export function hashEmbedding(text: string): number[] {
+  const vec = new Array<number>(EMBEDDING_DIMS).fill(0);
+  const add = (feature: string, weight: number) => {
+    const h = fnv1a(feature);
+    // Top bit picks the sign so collisions cancel out instead of piling up
+    vec[h % EMBEDDING_DIMS] += h & 0x80000000 ? -weight : weight;
+  };
+
+  const words = text.toLowerCase().replace(/[^a-z0-9\s]/g, " ").split(/\s+/).filter((w) => w.length > 1);
+  for (const word of words) {
+    add(`w:${word}`, 1);
+    const padded = ` ${word} `;
+    for (let i = 0; i + 3 <= padded.length; i++) add(`c:${padded.slice(i, i + 3)}`, 0.5);
+  }
+
+  const norm = Math.sqrt(vec.reduce((s, x) => s + x * x, 0));
+  return norm > 0 ? vec.map((x) => x / norm) : vec;
+}
+
+const localProvider: EmbeddingProvider = {
+  name: "local",
+  model: "hash-v1",
+  async embed(texts) {
+    return texts.map(hashEmbedding);
+  },
+};
+
+let provider: EmbeddingProvider | null | undefined;
+
+/** The configured provider, or null when embeddings are off */
+export function getEmbeddingProvider(): EmbeddingProvider | null {
+  if (provider !== undefined) return provider;
+  const choice = (process.env.SOUL_EMBED_PROVIDER || "ollama").toLowerCase();
+  if (choice === "off") {
+    provider = null;
+  } else if (choice === "local") {
+    provider = localProvider;
+  } else {
+    if (choice !== "ollama") {
+      console.warn(`[soul] Unknown SOUL_EMBED_PROVIDER "${choice}" — using ollama`);
+    }
+    provider = ollamaProvider(process.env.SOUL_EMBED_MODEL || "nomic-embed-text");
+  }
+  return provider;
+}
+
+// ---- Storage ----
+
+/** Same digest as Postgres md5(content) — marks embeddings of edited rows as stale */
+function contentHash(content: string): string {
+  return createHash("md5").update(content, "utf8").digest("hex");
+}
+
+async function storeEmbeddings(
+  p: EmbeddingProvider,
+  rows: Array<{ id: string; content: string }>
+): Promise<number> {
+  const vectors = await p.embed(rows.map((r) => r.content));
+  const { error } = await supabase.from("memory_embeddings").upsert(
+    rows.map((r, i) => ({
+      memory_id: r.id,
+      provider: p.name,
+      model: p.model,
+      embedding: JSON.stringify(vectors[i]),
+      content_hash: contentHash(r.content),
+      created_at: new Date().toISOString(),
+    })),
+    { onConflict: "memory_id" }
+  );
+  if (error) throw new Error(error.message);
+  // Clear any backfill failures these rows had built up
+  await supabase.from("memory_embedding_failures").delete().in("memory_id", rows.map((r) => r.id));
+  return rows.length;
+}
+
+/**
+ * Embed a freshly written memory. Failures are logged and left for the
+ * backfill, so a down Ollama never blocks memory writes.
+ */
+export async function embedMemory(memoryId: string, content: string): Promise<void> {
+  const p = getEmbeddingProvider();
+  if (!p) return;
+  try {
+    await storeEmbeddings(p, [{ id: memoryId, content }]);
+  } catch (err) {
+    console.error(`[soul] Embedding ${memoryId.slice(0, 8)} failed (backfill will retry):`, err instanceof Error ? err.message : err);
+  }
+}
+
+// ---- Search ----
+
+/**
+ * Nearest memories to `query` for the given agents (TTL-expired rows excluded).
+ * Returns null when embeddings are off or unavailable, so callers can tell
+ * "no semantic matches" apart from "semantic search didn't run".
+ */
+export async function searchMemories(
+  agentIds: string[],
+  query: string,
+  count = 50
+): Promise<SimilarMemory[] | null> {
+  const p = getEmbeddingProvider();
+  if (!p || !query.trim()) return null;
+
+  try {
+    const [vector] = await p.embed([query]);
+    const { data, error } = await supabase.rpc("match_agent_memory", {
+      query_embedding: JSON.stringify(vector),
+      match_model: p.model,
+      agent_ids: agentIds,
+      match_count: count,
+    });
+    if (error) throw new Error(error.message);
+    return (data ?? []) as SimilarMemory[];
+  } catch (err) {
+    console.warn("[soul] Semantic search unavailable, using keywords only:", err instanceof Error ? err.message : err);
+    return null;
+  }
+}
+
+// ---- Backfill ----
+
+/** Failed attempts (same model, same content) before the backfill gives up on a row */
+export const MAX_EMBED_ATTEMPTS = 5;
+
+export interface BackfillResult {
+  embedded: number;
+  failed: number;
+  /** Rows that just hit MAX_EMBED_ATTEMPTS and are skipped from now on */
+  gaveUp: number;
+  remaining: boolean;
+}
+
+const errorMessage = (err: unknown) => (err instanceof Error ? err.message : String(err));
+
+/**
+ * Embed memories that have no embedding for the active model, or whose
+ * content changed since they were embedded. Newest first.
+ *
+ * A batch that fails is retried row by row, and each row that still
+ * fails gets an attempt recorded in memory_embedding_failures; after
+ * MAX_EMBED_ATTEMPTS it's skipped, so one bad row can't stall the rows
+ * behind it. Anything else (Ollama down, wrong model, database error)
+ * isn't the row's fault: the pass stops without counting an attempt.
+ */
+export async function backfillEmbeddings(
+  opts: { batchSize?: number; maxRows?: number } = {}
+): Promise<BackfillResult> {
+  const p = getEmbeddingProvider();
+  const result: BackfillResult = { embedded: 0, failed: 0, gaveUp: 0, remaining: false };
+  if (!p) return result;
+
+  const batchSize = opts.batchSize ?? 32;
+  const maxRows = opts.maxRows ?? Infinity;
+  // Rows that failed during this pass aren't offered again until the next one
+  const failedIds: string[] = [];
+
+  while (result.embedded + result.failed < maxRows) {
+    const { data, error } = await supabase.rpc("memories_needing_embedding", {
+      match_model: p.model,
+      batch_size: Math.min(batchSize, maxRows - result.embedded - result.failed),
+      max_attempts: MAX_EMBED_ATTEMPTS,
+      skip_ids: failedIds,
+    });
+    if (error) throw new Error(error.message);
+
+    const rows = (data ?? []) as Array<{ id: string; content: string }>;
+    if (rows.length === 0) {
+      result.remaining = failedIds.length > result.gaveUp;
+      return result;
+    }
+
+    try {
+      result.embedded += await storeEmbeddings(p, rows);
+      continue;
+    } catch (err) {
+      if (!(err instanceof EmbeddingRejectedError)) {
+        result.failed += rows.length;
+        result.remaining = true;
+        console.error("[soul] Embedding backfill stopped:", errorMessage(err));
+        return result;
+      }
+      console.warn(`[soul] Embedding batch of ${rows.length} failed, retrying row by row:`, errorMessage(err));
+    }
+
+    for (const row of rows) {
+      try {
+        result.embedded += await storeEmbeddings(p, [row]);
+      } catch (err) {
+        if (!(err instanceof EmbeddingRejectedError)) {
+          result.failed += 1;
+          result.remaining = true;
+          console.error("[soul] Embedding backfill stopped:", errorMessage(err));
+          return result;
+        }
+        result.failed += 1;
+        failedIds.push(row.id);
+        const { data: attempts } = await supabase.rpc("record_embedding_failure", {
+          p_memory_id: row.id,
+          p_model: p.model,
+          p_content_hash: contentHash(row.content),
+          p_error: errorMessage(err),
+        });
+        if (typeof attempts === "number" && attempts >= MAX_EMBED_ATTEMPTS) {
+          result.gaveUp += 1;
+          console.error(`[soul] Giving up on embedding ${row.id.slice(0, 8)} after ${attempts} attempts:`, errorMessage(err));
+        } else {
+          console.warn(`[soul] Embedding ${row.id.slice(0, 8)} failed (attempt ${attempts ?? "?"}/${MAX_EMBED_ATTEMPTS}):`, errorMessage(err));
+        }
+      }
+    }
+  }
+
+  result.remaining = true;
+  return result;
+}
+
+const BACKFILL_INTERVAL_MS = 15 * 60_000;
+const BACKFILL_ROWS_PER_RUN = 500;
+
+let backfillTimer: ReturnType<typeof setInterval> | null = null;
+let backfilling = false;
+
+async function runBackfill() {
+  if (backfilling) return;
+  backfilling = true;
+  try {
+    const { embedded, remaining } = await backfillEmbeddings({ maxRows: BACKFILL_ROWS_PER_RUN });
+    if (embedded > 0) {
+      console.log(`[soul] Embedded ${embedded} memor${embedded === 1 ? "y" : "ies"}${remaining ? " (more pending)" : ""}`);
+    }
+  } catch (err) {
+    console.error("[soul] Embedding backfill failed:", err instanceof Error ? err.message : err);
+  } finally {
+    backfilling = false;
+  }
+}
+
+/** Periodically embed rows missed at write time (Ollama down, model switch, pre-existing rows) */
+export function startEmbeddingBackfill() {
+  if (backfillTimer || !getEmbeddingProvider()) return;
+  runBackfill();
+  backfillTimer = setInterval(runBackfill, BACKFILL_INTERVAL_MS);
+}
+
+export function stopEmbeddingBackfill() {
+  if (backfillTimer) {
+    clearInterval(backfillTimer);
+    backfillTimer = null;
+  }
+}
@@ -9,20 +9,38 @@
 
 export { buildSoulContext, processNewMemory, buildContextPacket } from "./context.js";
 export { retrieveRelevantMemories, extractKeywords } from "./retrieval.js";
+export {
+  embedMemory,
+  searchMemories,
+  backfillEmbeddings,
+  startEmbeddingBackfill,
+  stopEmbeddingBackfill,
+  getEmbeddingProvider,
+  MAX_EMBED_ATTEMPTS,
+  EmbeddingRejectedError,
+} from "./embeddings.js";
+export type { EmbeddingProvider, SimilarMemory, BackfillResult } from "./embeddings.js";
 export { buildAssociations, reinforceAssociation } from "./associations.js";
 export { maybeStartDream, getRelevantInsights, triggerManualDream } from "./dream.js";
+export { getDreamConsolidationConfig, summarizeCluster } from "./dream-llm.js";
+export type { DreamConsolidationConfig, DreamConsolidationStats } from "./dream-llm.js";
 export {
   getActiveProposals,
   approveManifest,
   rejectManifest,
+  undoManifest,
+  getLucidPolicies,
+  startLucidReviewer,
   getManifestationStats,
   getRecentSessions,
 } from "./dream-proposals.js";
 export type {
   DreamManifestation,
   DreamSession,
+  LucidPolicy,
   ManifestationCategory,
   ManifestationStatus,
+  UndoResult,
 } from "./dream-proposals.js";
 
 // Dream Synthesis — fuse anchors into insight shards
@@ -36,12 +54,17 @@ export {
   consumePrediction,
   getPredictionStats,
   buildPredictiveInjection,
+  generatePredictions,
+  DEFAULT_PREDICTIVE_THRESHOLDS,
 } from "./predictive.js";
-export type { PredictiveContext, PredictionTrigger } from "./predictive.js";
+export type { PredictiveContext, PredictionTrigger, PredictiveThresholds } from "./predictive.js";
+export { loadEvalSnapshot, buildGroundTruth, replayPredictions } from "./predictive-eval.js";
+export type { EvalReport, TriggerStats } from "./predictive-eval.js";
 
 // Memory Reforging — decay, archive, compress
 export {
   runDecayPass,
+  archiveMemories,
   findReforgeTargets,
   reforgeMemories,
   autoReforge,
@@ -52,5 +75,23 @@ export {
 } from "./reforge.js";
 export type { DecayEntry, ReforgedCrystal } from "./reforge.js";
 
+// Context Provenance — what was injected into each command, + feedback
+export { recordContextProvenance, applyContextFeedback, startContextFeedback } from "./provenance.js";
+export type { ContextProvenance, ContextFeedback } from "./provenance.js";
+
+// Contradiction Detection — conflicting facts/goals + resolution queue
+export {
+  extractClaims,
+  checkContradictions,
+  scanContradictions,
+  applyContradictionResolution,
+  startContradictionResolver,
+} from "./contradictions.js";
+export type { MemoryContradiction, ContradictionStatus, Claim } from "./contradictions.js";
+
+// Per-Agent Policies — what Soul injects for each agent (hot-reloaded)
+export { getSoulPolicy, loadSoulPolicies, startSoulPolicies, stopSoulPolicies, DEFAULT_POLICY } from "./policies.js";
+export type { SoulPolicy } from "./policies.js";
+
 export type { ContextPacket, SoulConfig, DreamInsight, MemoryAssociation, MemoryQuery } from "./types.js";
 export { DEFAULT_CONFIG } from "./types.js";
@@ -0,0 +1,142 @@
+/**
+ * Soul Agent — Per-Agent Policies
+ *
+ * How Soul curates context for each agent, from the soul_policies
+ * table: memories per command, context budget, shared-memory
+ * inclusion, kinds/sources to leave out, insight categories and
+ * predictive injection.
+ *
+ * Resolution per field: the agent's row → the '_default' row →
+ * DEFAULT_CONFIG. Hot-reloaded on Realtime changes (plus a periodic
+ * refresh); if the table can't be read, the last loaded policies
+ * (or DEFAULT_CONFIG) stay in effect.
+ */
+
+import type { RealtimeChannel } from "@supabase/supabase-js";
+import { supabase } from "../supabase.js";
+import { trackChannelStatus } from "../metrics.js";
+import { DEFAULT_CONFIG } from "./types.js";
+import type { DreamInsight } from "./types.js";
+
+// ── Types ────────────────────────────────────────────────────
+
+/** Row in soul_policies — null fields inherit */
+interface SoulPolicyRow {
+  agent_id: string;
+  max_memories: number | null;
+  max_context_chars: number | null;
+  include_shared: boolean | null;
+  excluded_kinds: string[] | null;
+  excluded_sources: string[] | null;
+  insight_categories: string[] | null;
+  predictive_injection: boolean | null;
+}
+
+/** Effective policy for one agent */
+export interface SoulPolicy {
+  maxRetrievalCount: number;
+  maxContextChars: number;
+  includeShared: boolean;
+  excludedKinds: string[];
+  excludedSources: string[];
+  /** Dream insight categories to inject (empty = none) */
+  insightCategories: DreamInsight["category"][];
+  predictiveInjection: boolean;
+}
+
+export const DEFAULT_POLICY: SoulPolicy = {
+  maxRetrievalCount: DEFAULT_CONFIG.maxRetrievalCount,
+  maxContextChars: DEFAULT_CONFIG.maxContextChars,
+  includeShared: true,
+  excludedKinds: [],
+  excludedSources: [],
+  insightCategories: ["pattern", "recommendation", "summary", "correction"],
+  predictiveInjection: false,
+};
+
+const DEFAULT_ROW = "_default";
+const REFRESH_MS = 5 * 60_000;
+
+let rows = new Map<string, SoulPolicyRow>();
+let loaded = false;
+let channel: RealtimeChannel | null = null;
+let timer: ReturnType<typeof setInterval> | null = null;
+let reloadTimer: ReturnType<typeof setTimeout> | null = null;
+
+// ── Resolution ───────────────────────────────────────────────
+
+function overlay(base: SoulPolicy, row: SoulPolicyRow | undefined): SoulPolicy {
+  if (!row) return base;
+  return {
+    maxRetrievalCount: row.max_memories ?? base.maxRetrievalCount,
+    maxContextChars: row.max_context_chars ?? base.maxContextChars,
+    includeShared: row.include_shared ?? base.includeShared,
+    excludedKinds: row.excluded_kinds ?? base.excludedKinds,
+    excludedSources: row.excluded_sources ?? base.excludedSources,
+    insightCategories: (row.insight_categories as SoulPolicy["insightCategories"] | null) ?? base.insightCategories,
+    predictiveInjection: row.predictive_injection ?? base.predictiveInjection,
+  };
+}
+
+/** The effective Soul policy for an agent */
+export function getSoulPolicy(agentId: string): SoulPolicy {
+  return overlay(overlay(DEFAULT_POLICY, rows.get(DEFAULT_ROW)), rows.get(agentId));
+}
+
+// ── Loading ──────────────────────────────────────────────────
+
+export async function loadSoulPolicies(): Promise<void> {
+  const { data, error } = await supabase.from("soul_policies").select("*");
+  if (error || !data) {
+    console.error(`[soul] Could not read soul_policies, keeping ${rows.size} loaded polic(ies):`, error?.message);
+    return;
+  }
+
+  const next = new Map<string, SoulPolicyRow>();
+  for (const row of data as SoulPolicyRow[]) next.set(row.agent_id, row);
+  if (!loaded || next.size !== rows.size) console.log(`[soul] Loaded ${next.size} Soul polic(ies).`);
+  rows = next;
+  loaded = true;
+}
+
+/** Load once, then keep policies fresh. Call before dispatching commands. */
+export async function startSoulPolicies(): Promise<RealtimeChannel> {
+  await loadSoulPolicies();
+
+  channel = supabase
+    .channel("bridge-soul-policies")
+    .on(
+      "postgres_changes",
+      { event: "*", schema: "public", table: "soul_policies" },
+      () => {
+        // Debounce bursts (several fields saved in a row)
+        if (reloadTimer) clearTimeout(reloadTimer);
+        reloadTimer = setTimeout(() => {
+          reloadTimer = null;
+          loadSoulPolicies().catch((err) => console.error("[soul] Policy reload failed:", err));
+        }, 500);
+      }
+    )
+    .subscribe((status) => trackChannelStatus("bridge-soul-policies", status));
+
+  timer = setInterval(() => {
+    loadSoulPolicies().catch((err) => console.error("[soul] Policy refresh failed:", err));
+  }, REFRESH_MS);
+
+  return channel;
+}
+
+export function stopSoulPolicies() {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+  if (reloadTimer) {
+    clearTimeout(reloadTimer);
+    reloadTimer = null;
+  }
+  if (channel) {
+    supabase.removeChannel(channel);
+    channel = null;
+  }
+}
@@ -0,0 +1,359 @@
+/**
+ * Soul Agent — Predictive Context Evaluation
+ *
+ * Replays history to measure whether predictions help. For every
+ * command in the evaluation window:
+ *   - predictions are regenerated from what was known at the time
+ *     (commands and memories before it) with generatePredictions()
+ *   - ground truth is what retrieval actually injected (command_context)
+ *     or, for commands from before provenance was recorded, what
+ *     keyword retrieval would have picked from the memory snapshot
+ *   - each active prediction is scored on whether its preloaded
+ *     memories were in the ground truth and whether its keywords
+ *     matched the command
+ *
+ * Nothing is written; the snapshot is read once and can be replayed
+ * with different thresholds.
+ */
+
+import { supabase } from "../supabase.js";
+import type { MemoryEntry } from "../agent-memory.js";
+import { extractKeywords, scoreMemory } from "./retrieval.js";
+import {
+  DEFAULT_PREDICTIVE_THRESHOLDS,
+  PRELOAD_SCAN_LIMIT,
+  SEQUENTIAL_COMMAND_LIMIT,
+  TEMPORAL_COMMAND_LIMIT,
+  generatePredictions,
+} from "./predictive.js";
+import type {
+  CommandSample,
+  PredictionTrigger,
+  PredictiveContext,
+  PredictiveThresholds,
+} from "./predictive.js";
+import { DEFAULT_CONFIG } from "./types.js";
+
+// ── Types ────────────────────────────────────────────────────
+
+export interface EvalCommand extends CommandSample {
+  id: string;
+}
+
+export interface EvalSnapshot {
+  /** Oldest first; includes the lookback before `from` */
+  commands: EvalCommand[];
+  /** Oldest first */
+  memories: Array<MemoryEntry & { id: string; created_at: string }>;
+  /** command id → memory ids recorded in command_context */
+  recorded: Map<string, string[]>;
+  from: Date;
+  to: Date;
+}
+
+export interface GroundTruth {
+  memoryIds: Set<string>;
+  keywords: string[];
+  source: "recorded" | "replayed";
+}
+
+export interface ReplayOptions {
+  /** Hours between prediction runs (the live bridge runs them in dream cycles) */
+  intervalHours?: number;
+  /** Hours a prediction stays active (getActivePredictions uses 4) */
+  activeHours?: number;
+}
+
+export interface TriggerStats {
+  /** Predictions generated */
+  predictions: number;
+  /** Predictions whose preload hit at least one command while active */
+  useful: number;
+  /** (command, active prediction) pairs */
+  exposures: number;
+  /** Exposures where at least one preloaded memory was in ground truth */
+  preloadHits: number;
+  /** Exposures where the predicted keywords appeared in the command */
+  intentHits: number;
+  /** Exposures context.ts would have injected */
+  injected: number;
+  preloadedTotal: number;
+  preloadedRelevant: number;
+  truthTotal: number;
+  /** Mean confidence of generated predictions */
+  avgConfidence: number;
+  /** useful / predictions */
+  precision: number;
+  /** preloadHits / exposures */
+  hitRate: number;
+  /** preloadedRelevant / preloadedTotal */
+  preloadPrecision: number;
+  /** preloadedRelevant / truthTotal */
+  preloadRecall: number;
+  /** intentHits / exposures */
+  intentRate: number;
+}
+
+export interface EvalReport {
+  from: string;
+  to: string;
+  thresholds: PredictiveThresholds;
+  intervalHours: number;
+  activeHours: number;
+  commands: number;
+  /** Commands with at least one active prediction for their agent */
+  covered: number;
+  truth: { recorded: number; replayed: number };
+  runs: number;
+  byTrigger: Partial<Record<PredictionTrigger, TriggerStats>>;
+}
+
+// ── Snapshot ─────────────────────────────────────────────────
+
+const PAGE_SIZE = 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+async function fetchPaged<T>(
+  build: (from: number, to: number) => PromiseLike<{ data: unknown[] | null; error: { message: string } | null }>
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await build(from, from + PAGE_SIZE - 1);
+    if (error) throw new Error(error.message);
+    rows.push(...((data ?? []) as T[]));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+/**
+ * Read everything a replay of [from, to) needs: commands from the
+ * lookback before `from`, memories created before `to`, and recorded
+ * command context.
+ */
+export async function loadEvalSnapshot(
+  from: Date,
+  to: Date,
+  lookbackDays = DEFAULT_PREDICTIVE_THRESHOLDS.lookbackDays
+): Promise<EvalSnapshot> {
+  const since = new Date(from.getTime() - lookbackDays * 24 * HOUR_MS).toISOString();
+
+  const commands = await fetchPaged<EvalCommand>((a, b) =>
+    supabase
+      .from("agent_commands")
+      .select("id, agent_id, message, created_at")
+      .gte("created_at", since)
+      .lt("created_at", to.toISOString())
+      .order("created_at", { ascending: true })
+      .range(a, b)
+  );
+
+  const memories = await fetchPaged<EvalSnapshot["memories"][number]>((a, b) =>
+    supabase
+      .from("agent_memory")
+      .select("id, agent_id, kind, content, source, ttl_hours, pinned, created_at")
+      .lt("created_at", to.toISOString())
+      .order("created_at", { ascending: true })
+      .range(a, b)
+  );
+
+  // command_context only exists once provenance has been migrated
+  const recorded = new Map<string, string[]>();
+  try {
+    const rows = await fetchPaged<{ command_id: string; memory_ids: string[] }>((a, b) =>
+      supabase
+        .from("command_context")
+        .select("command_id, memory_ids")
+        .gte("created_at", from.toISOString())
+        .lt("created_at", to.toISOString())
+        .range(a, b)
+    );
+    for (const row of rows) recorded.set(row.command_id, row.memory_ids ?? []);
+  } catch {
+    // Fall back to replayed retrieval for every command
+  }
+
+  return { commands, memories, recorded, from, to };
+}
+
+// ── Ground truth ─────────────────────────────────────────────
+
+/** Memories retrieval would have picked for a command, from the snapshot */
+function replayRetrieval(
+  snapshot: EvalSnapshot,
+  cmd: EvalCommand,
+  keywords: string[],
+  limit: number
+): Set<string> {
+  const at = new Date(cmd.created_at).getTime();
+  const agents = new Set([cmd.agent_id, "_shared"]);
+
+  // Same candidate pool as retrieveRelevantMemories: the recent window plus pinned
+  const window: EvalSnapshot["memories"] = [];
+  for (let i = snapshot.memories.length - 1; i >= 0; i--) {
+    const m = snapshot.memories[i];
+    if (new Date(m.created_at).getTime() >= at || !agents.has(m.agent_id)) continue;
+    if (m.ttl_hours != null && new Date(m.created_at).getTime() + m.ttl_hours * HOUR_MS < at) continue;
+    if (window.length < DEFAULT_CONFIG.associationScanWindow || m.pinned) window.push(m);
+  }
+
+  return new Set(
+    window
+      .map((m) => ({ id: m.id, relevance: Math.max(m.pinned ? 0.6 : 0, scoreMemory(m, keywords, undefined, at)) }))
+      .filter((s) => s.relevance > 0)
+      .sort((a, b) => b.relevance - a.relevance)
+      .slice(0, limit)
+      .map((s) => s.id)
+  );
+}
+
+/**
+ * Ground truth for every command in the evaluation window. Independent
+ * of the prediction thresholds, so compute it once per snapshot.
+ */
+export function buildGroundTruth(
+  snapshot: EvalSnapshot,
+  retrievalLimit = DEFAULT_CONFIG.maxRetrievalCount
+): Map<string, GroundTruth> {
+  const truth = new Map<string, GroundTruth>();
+  for (const cmd of snapshot.commands) {
+    if (new Date(cmd.created_at) < snapshot.from) continue;
+    const keywords = extractKeywords(cmd.message || "");
+    const recorded = snapshot.recorded.get(cmd.id);
+    truth.set(cmd.id, recorded
+      ? { memoryIds: new Set(recorded), keywords, source: "recorded" }
+      : { memoryIds: replayRetrieval(snapshot, cmd, keywords, retrievalLimit), keywords, source: "replayed" });
+  }
+  return truth;
+}
+
+// ── Replay ───────────────────────────────────────────────────
+
+function emptyStats(): TriggerStats {
+  return {
+    predictions: 0, useful: 0, exposures: 0, preloadHits: 0, intentHits: 0, injected: 0,
+    preloadedTotal: 0, preloadedRelevant: 0, truthTotal: 0, avgConfidence: 0,
+    precision: 0, hitRate: 0, preloadPrecision: 0, preloadRecall: 0, intentRate: 0,
+  };
+}
+
+/** Keywords a prediction expects the next command to contain */
+function predictedKeywords(p: PredictiveContext): string[] {
+  return (p.prediction_context.keywords ?? p.prediction_context.then ?? []) as string[];
+}
+
+const ratio = (a: number, b: number) => (b > 0 ? Math.round((a / b) * 1000) / 1000 : 0);
+
+/**
+ * Re-run prediction generation every `intervalHours` across the
+ * snapshot's window with `thresholds`, and score each prediction
+ * against the commands that arrived while it was active.
+ */
+export function replayPredictions(
+  snapshot: EvalSnapshot,
+  truth: Map<string, GroundTruth>,
+  thresholds: PredictiveThresholds = DEFAULT_PREDICTIVE_THRESHOLDS,
+  opts: ReplayOptions = {}
+): EvalReport {
+  const intervalHours = opts.intervalHours ?? 4;
+  const activeHours = opts.activeHours ?? 4;
+  const times = snapshot.commands.map((c) => new Date(c.created_at).getTime());
+  const memoryTimes = snapshot.memories.map((m) => new Date(m.created_at).getTime());
+
+  const byTrigger: Partial<Record<PredictionTrigger, TriggerStats>> = {};
+  const stats = (t: PredictionTrigger) => (byTrigger[t] ??= emptyStats());
+  const confidenceSum: Partial<Record<PredictionTrigger, number>> = {};
+  const covered = new Set<string>();
+  let runs = 0;
+
+  /** Index of the first element ≥ t in an ascending list */
+  const lowerBound = (list: number[], t: number) => {
+    let lo = 0;
+    let hi = list.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (list[mid] < t) lo = mid + 1;
+      else hi = mid;
+    }
+    return lo;
+  };
+
+  for (let run = snapshot.from.getTime(); run < snapshot.to.getTime(); run += intervalHours * HOUR_MS) {
+    runs++;
+    const now = new Date(run);
+    const start = lowerBound(times, run - thresholds.lookbackDays * 24 * HOUR_MS);
+    const end = lowerBound(times, run);
+    const history = snapshot.commands.slice(start, end);
+    const memEnd = lowerBound(memoryTimes, run);
+
+    const predictions = generatePredictions(
+      {
+        commands: history.slice(0, TEMPORAL_COMMAND_LIMIT),
+        mainCommands: history.filter((c) => c.agent_id === "main").slice(-SEQUENTIAL_COMMAND_LIMIT),
+        memories: snapshot.memories.slice(Math.max(0, memEnd - PRELOAD_SCAN_LIMIT), memEnd).reverse(),
+        now,
+      },
+      thresholds
+    );
+    if (predictions.length === 0) continue;
+
+    // Commands that arrive while these predictions are active
+    const activeEnd = lowerBound(times, run + activeHours * HOUR_MS);
+    const exposed = snapshot.commands.slice(end, activeEnd);
+
+    for (const p of predictions) {
+      const s = stats(p.trigger_type);
+      s.predictions++;
+      confidenceSum[p.trigger_type] = (confidenceSum[p.trigger_type] ?? 0) + p.confidence;
+      const expected = predictedKeywords(p);
+      let useful = false;
+
+      for (const cmd of exposed) {
+        const t = truth.get(cmd.id);
+        if (!t || cmd.agent_id !== p.agent_id) continue;
+        covered.add(cmd.id);
+
+        const relevant = p.preloaded_memory_ids.filter((id) => t.memoryIds.has(id)).length;
+        const intentHit = expected.some((kw) => t.keywords.includes(kw));
+        // context.ts rule: a preloaded memory was retrieved, or the keywords match
+        const injected = relevant > 0 || ((p.prediction_context.keywords ?? []) as string[]).some((kw) => t.keywords.includes(kw));
+
+        s.exposures++;
+        s.preloadedTotal += p.preloaded_memory_ids.length;
+        s.preloadedRelevant += relevant;
+        s.truthTotal += t.memoryIds.size;
+        if (relevant > 0) {
+          s.preloadHits++;
+          useful = true;
+        }
+        if (intentHit) s.intentHits++;
+        if (injected) s.injected++;
+      }
+      if (useful) s.useful++;
+    }
+  }
+
+  for (const [trigger, s] of Object.entries(byTrigger) as [PredictionTrigger, TriggerStats][]) {
+    s.avgConfidence = ratio(confidenceSum[trigger] ?? 0, s.predictions);
+    s.precision = ratio(s.useful, s.predictions);
+    s.hitRate = ratio(s.preloadHits, s.exposures);
+    s.preloadPrecision = ratio(s.preloadedRelevant, s.preloadedTotal);
+    s.preloadRecall = ratio(s.preloadedRelevant, s.truthTotal);
+    s.intentRate = ratio(s.intentHits, s.exposures);
+  }
+
+  let recorded = 0;
+  for (const t of truth.values()) if (t.source === "recorded") recorded++;
+
+  return {
+    from: snapshot.from.toISOString(),
+    to: snapshot.to.toISOString(),
+    thresholds,
+    intervalHours,
+    activeHours,
+    commands: truth.size,
+    covered: covered.size,
+    truth: { recorded, replayed: truth.size - recorded },
+    runs,
+    byTrigger,
+  };
+}
@@ -43,30 +43,91 @@ interface TemporalPattern {
   agents: string[];
 }
 
+interface SequentialPattern {
+  afterKeywords: string[];
+  thenKeywords: string[];
+  confidence: number;
+  count: number;
+}
+
+/** A command as pattern analysis sees it */
+export interface CommandSample {
+  agent_id: string;
+  message: string;
+  created_at: string;
+}
+
+/** A memory as preloading sees it */
+export interface PreloadCandidate {
+  id: string;
+  content: string;
+  created_at: string;
+}
+
+/**
+ * Knobs for pattern detection. The live analysis uses the defaults;
+ * the evaluation harness (predictive-eval.ts) replays history with
+ * other values to find better ones.
+ */
+export interface PredictiveThresholds {
+  /** Command history analysed, in days */
+  lookbackDays: number;
+  /** Commands needed before time-of-day patterns are attempted */
+  minCommands: number;
+  /** Commands an hour bucket needs to count as a pattern */
+  minHourEntries: number;
+  /** Share of an hour's commands a keyword must appear in */
+  keywordShare: number;
+  /** Dominant keywords an hour needs to count as a pattern */
+  minDominantKeywords: number;
+  /** Predict hours at most this far ahead */
+  hourLookahead: number;
+  /** Consecutive commands further apart than this aren't a sequence */
+  sequenceMaxGapHours: number;
+  /** Times a sequence must repeat to count */
+  minSequenceCount: number;
+  /** Memories pre-staged per prediction */
+  preloadLimit: number;
+}
+
+export const DEFAULT_PREDICTIVE_THRESHOLDS: PredictiveThresholds = {
+  lookbackDays: 14,
+  minCommands: 10,
+  minHourEntries: 3,
+  keywordShare: 0.4,
+  minDominantKeywords: 2,
+  hourLookahead: 3,
+  sequenceMaxGapHours: 2,
+  minSequenceCount: 2,
+  preloadLimit: 10,
+};
+
+/** Commands read for time-of-day analysis */
+export const TEMPORAL_COMMAND_LIMIT = 1000;
+/** Commands read for sequence analysis (main only) */
+export const SEQUENTIAL_COMMAND_LIMIT = 500;
+/** Recent memories scanned when preloading */
+export const PRELOAD_SCAN_LIMIT = 200;
+
 // ── Temporal Analysis ────────────────────────────────────────
 
 /**
- * Analyze command history to find time-of-day patterns.
- * Groups commands by hour-of-day and finds recurring keywords.
+ * Find time-of-day patterns in command history: hours with
+ * consistent activity sharing the same keywords.
  */
-async function analyzeTemporalPatterns(): Promise<TemporalPattern[]> {
-  // Fetch last 14 days of commands
-  const cutoff = new Date(Date.now() - 14 * 24 * 60 * 60 * 1000).toISOString();
-  const { data: commands } = await supabase
-    .from("agent_commands")
-    .select("agent_id, command, created_at")
-    .gte("created_at", cutoff)
-    .order("created_at", { ascending: true })
-    .limit(1000);
-
-  if (!commands || commands.length < 10) return [];
+export function findTemporalPatterns(
+  commands: CommandSample[],
+  t: PredictiveThresholds = DEFAULT_PREDICTIVE_THRESHOLDS,
+  now = new Date()
+): TemporalPattern[] {
+  if (commands.length < t.minCommands) return [];
 
   // Bucket commands by hour
   const hourBuckets = new Map<number, Array<{ keywords: string[]; agent: string; created_at: string }>>();
 
   for (const cmd of commands) {
     const hour = new Date(cmd.created_at).getHours();
-    const keywords = extractKeywords(cmd.command || "");
+    const keywords = extractKeywords(cmd.message || "");
     if (keywords.length === 0) continue;
 
     const bucket = hourBuckets.get(hour) || [];
@@ -74,11 +135,11 @@ async function analyzeTemporalPatterns(): Promise<TemporalPattern[]> {
     hourBuckets.set(hour, bucket);
   }
 
-  // Find hours with consistent activity (≥3 entries with shared keywords)
+  // Find hours with consistent activity (enough entries with shared keywords)
   const patterns: TemporalPattern[] = [];
 
   for (const [hour, entries] of hourBuckets) {
-    if (entries.length < 3) continue;
+    if (entries.length < t.minHourEntries) continue;
 
     // Count keyword frequency across entries for this hour
     const kwCount = new Map<string, number>();
@@ -91,19 +152,18 @@ async function analyzeTemporalPatterns(): Promise<TemporalPattern[]> {
       }
     }
 
-    // Keywords appearing in ≥40% of entries for this hour
-    const threshold = Math.max(2, Math.floor(entries.length * 0.4));
+    // Keywords appearing in a large enough share of entries for this hour
+    const threshold = Math.max(2, Math.floor(entries.length * t.keywordShare));
     const dominantKeywords = [...kwCount.entries()]
       .filter(([, count]) => count >= threshold)
       .sort((a, b) => b[1] - a[1])
       .slice(0, 5)
       .map(([kw]) => kw);
 
-    if (dominantKeywords.length >= 2) {
-      const dayOfWeek = new Date().getDay();
+    if (dominantKeywords.length >= t.minDominantKeywords) {
       patterns.push({
         hour,
-        dayOfWeek,
+        dayOfWeek: now.getDay(),
         keywords: dominantKeywords,
         memoryIds: [], // Will be filled during preloading
         count: entries.length,
@@ -116,37 +176,26 @@ async function analyzeTemporalPatterns(): Promise<TemporalPattern[]> {
 }
 
 /**
- * Analyze sequential task patterns.
- * Finds "after X, you usually do Y" patterns.
+ * Find sequential task patterns in main's command history:
+ * "after X, you usually do Y".
  */
-async function analyzeSequentialPatterns(): Promise<Array<{
-  afterKeywords: string[];
-  thenKeywords: string[];
-  confidence: number;
-  count: number;
-}>> {
-  const cutoff = new Date(Date.now() - 14 * 24 * 60 * 60 * 1000).toISOString();
-  const { data: commands } = await supabase
-    .from("agent_commands")
-    .select("command, created_at")
-    .gte("created_at", cutoff)
-    .eq("agent_id", "main")
-    .order("created_at", { ascending: true })
-    .limit(500);
-
-  if (!commands || commands.length < 5) return [];
+export function findSequentialPatterns(
+  commands: CommandSample[],
+  t: PredictiveThresholds = DEFAULT_PREDICTIVE_THRESHOLDS
+): SequentialPattern[] {
+  if (commands.length < 5) return [];
 
   // Extract keyword pairs from consecutive commands
   const pairCounts = new Map<string, { afterKw: string[]; thenKw: string[]; count: number }>();
 
   for (let i = 0; i < commands.length - 1; i++) {
-    const current = extractKeywords(commands[i].command || "");
-    const next = extractKeywords(commands[i + 1].command || "");
+    const current = extractKeywords(commands[i].message || "");
+    const next = extractKeywords(commands[i + 1].message || "");
     if (current.length === 0 || next.length === 0) continue;
 
-    // Time gap — only count if within 2 hours
+    // Time gap — only count consecutive commands close together
     const gap = new Date(commands[i + 1].created_at).getTime() - new Date(commands[i].created_at).getTime();
-    if (gap > 2 * 60 * 60 * 1000) continue;
+    if (gap > t.sequenceMaxGapHours * 60 * 60 * 1000) continue;
 
     const key = current.slice(0, 3).join(",") + "|" + next.slice(0, 3).join(",");
     const existing = pairCounts.get(key);
@@ -158,7 +207,7 @@ async function analyzeSequentialPatterns(): Promise<Array<{
   }
 
   return [...pairCounts.values()]
-    .filter((p) => p.count >= 2)
+    .filter((p) => p.count >= t.minSequenceCount)
     .map((p) => ({
       afterKeywords: p.afterKw,
       thenKeywords: p.thenKw,
@@ -170,20 +219,12 @@ async function analyzeSequentialPatterns(): Promise<Array<{
 }
 
 /**
- * Pre-load memories relevant to a set of keywords.
+ * Pick the memories to pre-stage for a set of keywords, by keyword
+ * hits, from the most recent memories.
  */
-async function preloadMemories(keywords: string[], limit = 10): Promise<string[]> {
+export function rankPreloadCandidates(memories: PreloadCandidate[], keywords: string[], limit = 10): string[] {
   if (keywords.length === 0) return [];
 
-  const { data: memories } = await supabase
-    .from("agent_memory")
-    .select("id, content")
-    .order("created_at", { ascending: false })
-    .limit(200);
-
-  if (!memories) return [];
-
-  // Score by keyword hit
   const scored = memories.map((m) => {
     const content = m.content.toLowerCase();
     const hits = keywords.filter((kw) => content.includes(kw)).length;
@@ -197,30 +238,32 @@ async function preloadMemories(keywords: string[], limit = 10): Promise<string[]
     .map((s) => s.id);
 }
 
-// ── Public API ───────────────────────────────────────────────
-
 /**
- * Run predictive analysis and generate context predictions.
- * Called during dream cycles and bridge startup.
+ * Turn history into predictions for `now` — pure, so the evaluation
+ * harness can replay it against a snapshot.
+ *
+ *   commands      all agents' commands in the lookback window (oldest first)
+ *   mainCommands  main's commands in the window (oldest first); the
+ *                 last one is "what main just did"
+ *   memories      recent memories to preload from (newest first)
  */
-export async function runPredictiveAnalysis(sessionId?: string): Promise<{
-  predictions: PredictiveContext[];
-  count: number;
-}> {
-  console.log("[soul:predictive] Analyzing temporal patterns...");
-
+export function generatePredictions(
+  input: {
+    commands: CommandSample[];
+    mainCommands: CommandSample[];
+    memories: PreloadCandidate[];
+    now: Date;
+  },
+  t: PredictiveThresholds = DEFAULT_PREDICTIVE_THRESHOLDS
+): PredictiveContext[] {
   const predictions: PredictiveContext[] = [];
 
   // 1. Time-of-day patterns
-  const temporalPatterns = await analyzeTemporalPatterns();
-  const currentHour = new Date().getHours();
-
-  for (const pattern of temporalPatterns) {
-    // Predict for the NEXT active hour (within 3 hours)
+  const currentHour = input.now.getHours();
+  for (const pattern of findTemporalPatterns(input.commands, t, input.now)) {
+    // Predict for the NEXT active hours only
     const hourDiff = ((pattern.hour - currentHour + 24) % 24);
-    if (hourDiff > 3) continue; // More than 3 hours away, skip
-
-    const preloaded = await preloadMemories(pattern.keywords);
+    if (hourDiff > t.hourLookahead) continue;
 
     const timeLabel = pattern.hour < 12 ? `${pattern.hour}:00 AM` :
       pattern.hour === 12 ? "12:00 PM" : `${pattern.hour - 12}:00 PM`;
@@ -229,7 +272,7 @@ export async function runPredictiveAnalysis(sessionId?: string): Promise<{
       agent_id: pattern.agents[0] || "main",
       trigger_type: "time_of_day",
       predicted_intent: `Around ${timeLabel}, you usually work on: ${pattern.keywords.join(", ")}. ${pattern.count} sessions in the last 2 weeks.`,
-      preloaded_memory_ids: preloaded,
+      preloaded_memory_ids: rankPreloadCandidates(input.memories, pattern.keywords, t.preloadLimit),
       preloaded_shard_ids: [],
       confidence: Math.min(0.9, 0.4 + pattern.count * 0.05),
       prediction_context: {
@@ -241,42 +284,82 @@ export async function runPredictiveAnalysis(sessionId?: string): Promise<{
     });
   }
 
-  // 2. Sequential patterns
-  const seqPatterns = await analyzeSequentialPatterns();
-
-  // Check if any "after" patterns match recent activity
-  const { data: recentCmd } = await supabase
-    .from("agent_commands")
-    .select("command")
-    .eq("agent_id", "main")
-    .order("created_at", { ascending: false })
-    .limit(1);
+  // 2. Sequential patterns that match what main did last
+  const last = input.mainCommands[input.mainCommands.length - 1];
+  if (last) {
+    const recentKw = extractKeywords(last.message || "");
 
-  if (recentCmd && recentCmd.length > 0) {
-    const recentKw = extractKeywords(recentCmd[0].command || "");
-
-    for (const seq of seqPatterns) {
+    for (const seq of findSequentialPatterns(input.mainCommands, t)) {
       const overlap = seq.afterKeywords.filter((kw) => recentKw.includes(kw));
-      if (overlap.length >= 1) {
-        const preloaded = await preloadMemories(seq.thenKeywords);
-
-        predictions.push({
-          agent_id: "main",
-          trigger_type: "sequential",
-          predicted_intent: `After "${seq.afterKeywords.join(", ")}", you usually work on "${seq.thenKeywords.join(", ")}". Seen ${seq.count} times.`,
-          preloaded_memory_ids: preloaded,
-          preloaded_shard_ids: [],
-          confidence: seq.confidence,
-          prediction_context: {
-            after: seq.afterKeywords,
-            then: seq.thenKeywords,
-            historical_count: seq.count,
-          },
-        });
-      }
+      if (overlap.length < 1) continue;
+
+      predictions.push({
+        agent_id: "main",
+        trigger_type: "sequential",
+        predicted_intent: `After "${seq.afterKeywords.join(", ")}", you usually work on "${seq.thenKeywords.join(", ")}". Seen ${seq.count} times.`,
+        preloaded_memory_ids: rankPreloadCandidates(input.memories, seq.thenKeywords, t.preloadLimit),
+        preloaded_shard_ids: [],
+        confidence: seq.confidence,
+        prediction_context: {
+          after: seq.afterKeywords,
+          then: seq.thenKeywords,
+          historical_count: seq.count,
+        },
+      });
     }
   }
 
+  return predictions;
+}
+
+// ── Public API ───────────────────────────────────────────────
+
+/**
+ * Run predictive analysis and generate context predictions.
+ * Called during dream cycles and bridge startup.
+ */
+export async function runPredictiveAnalysis(sessionId?: string): Promise<{
+  predictions: PredictiveContext[];
+  count: number;
+}> {
+  console.log("[soul:predictive] Analyzing temporal patterns...");
+
+  const t = DEFAULT_PREDICTIVE_THRESHOLDS;
+  const now = new Date();
+  const cutoff = new Date(now.getTime() - t.lookbackDays * 24 * 60 * 60 * 1000).toISOString();
+
+  const [{ data: commands }, { data: mainCommands }, { data: memories }] = await Promise.all([
+    supabase
+      .from("agent_commands")
+      .select("agent_id, message, created_at")
+      .gte("created_at", cutoff)
+      .order("created_at", { ascending: true })
+      .limit(TEMPORAL_COMMAND_LIMIT),
+    // Newest first so the last command is always included; reversed below
+    supabase
+      .from("agent_commands")
+      .select("agent_id, message, created_at")
+      .gte("created_at", cutoff)
+      .eq("agent_id", "main")
+      .order("created_at", { ascending: false })
+      .limit(SEQUENTIAL_COMMAND_LIMIT),
+    supabase
+      .from("agent_memory")
+      .select("id, content, created_at")
+      .order("created_at", { ascending: false })
+      .limit(PRELOAD_SCAN_LIMIT),
+  ]);
+
+  const predictions = generatePredictions(
+    {
+      commands: (commands ?? []) as CommandSample[],
+      mainCommands: ((mainCommands ?? []) as CommandSample[]).reverse(),
+      memories: (memories ?? []) as PreloadCandidate[],
+      now,
+    },
+    t
+  );
+
   // 3. Check for insight shards relevant to predictions
   if (predictions.length > 0) {
     try {
@@ -326,6 +409,7 @@ export async function getActivePredictions(agentId = "main"): Promise<Predictive
     const { data, error } = await supabase
       .from("predictive_contexts")
       .select("*")
+      .eq("agent_id", agentId)
       .gte("created_at", cutoff)
       .is("used_at", null)
       .order("confidence", { ascending: false })
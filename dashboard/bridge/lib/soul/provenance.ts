@@ -0,0 +1,140 @@
+/**
+ * Soul Agent — Context Provenance
+ *
+ * Records exactly what buildSoulContext prepended to each command
+ * (memories, insights, predictions, character budget) in
+ * command_context, so the dashboard can explain why an agent
+ * "remembered" something.
+ *
+ * Thumbs up/down on that context flows back into Soul:
+ *   up   → associations between the injected memories strengthen,
+ *          matched predictions are marked useful
+ *   down → those associations weaken, predictions marked not useful
+ */
+
+import { supabase } from "../supabase.js";
+import { reinforceAssociation } from "./associations.js";
+import { consumePrediction } from "./predictive.js";
+import { trackChannelStatus } from "../metrics.js";
+import type { RealtimeChannel } from "@supabase/supabase-js";
+
+// ── Types ────────────────────────────────────────────────────
+
+export type ContextFeedback = "up" | "down";
+
+export interface ContextProvenance {
+  command_id: string;
+  agent_id: string;
+  task_keywords: string[];
+  memory_ids: string[];
+  memory_relevance: number[];
+  insight_ids: string[];
+  prediction_ids: string[];
+  anchor_included: boolean;
+  chars_used: number;
+  char_budget: number;
+  feedback?: ContextFeedback | null;
+  feedback_at?: string | null;
+  feedback_applied_at?: string | null;
+  created_at?: string;
+}
+
+/** Association strength change per thumbs up/down */
+const FEEDBACK_BOOST = 0.1;
+
+// ── Recording ────────────────────────────────────────────────
+
+/**
+ * Save the provenance of an injected context. Non-fatal — a missing
+ * table or a failed insert never blocks dispatch.
+ */
+export async function recordContextProvenance(entry: ContextProvenance): Promise<void> {
+  try {
+    const { error } = await supabase
+      .from("command_context")
+      .upsert(entry, { onConflict: "command_id" });
+    if (error) console.error("[soul] Failed to record context provenance:", error.message);
+  } catch {
+    // Non-fatal
+  }
+}
+
+// ── Feedback ─────────────────────────────────────────────────
+
+/**
+ * Apply a command's thumbs up/down to Soul: reinforce (or weaken) the
+ * associations among the memories that were injected together, and
+ * consume the predictions that matched. Runs once per command —
+ * feedback_applied_at is stamped afterwards.
+ */
+export async function applyContextFeedback(row: ContextProvenance): Promise<void> {
+  if (!row.feedback || row.feedback_applied_at) return;
+  const useful = row.feedback === "up";
+
+  let reinforced = 0;
+  if (row.memory_ids.length > 1) {
+    const { data: links } = await supabase
+      .from("memory_associations")
+      .select("memory_id, related_memory_id")
+      .in("memory_id", row.memory_ids)
+      .in("related_memory_id", row.memory_ids);
+
+    for (const link of links ?? []) {
+      await reinforceAssociation(link.memory_id, link.related_memory_id, useful ? FEEDBACK_BOOST : -FEEDBACK_BOOST);
+      reinforced++;
+    }
+  }
+
+  for (const predictionId of row.prediction_ids) {
+    await consumePrediction(predictionId, useful);
+  }
+
+  const { error } = await supabase
+    .from("command_context")
+    .update({ feedback_applied_at: new Date().toISOString() })
+    .eq("command_id", row.command_id);
+  if (error) {
+    console.error("[soul] Failed to mark context feedback applied:", error.message);
+    return;
+  }
+
+  console.log(
+    `[soul] Context feedback ${row.feedback} for ${row.command_id.slice(0, 8)}: ` +
+      `${reinforced} association(s), ${row.prediction_ids.length} prediction(s)`
+  );
+}
+
+/**
+ * Apply feedback left while the bridge was offline, then subscribe to
+ * new feedback via Realtime.
+ */
+export function startContextFeedback(): RealtimeChannel {
+  supabase
+    .from("command_context")
+    .select("*")
+    .not("feedback", "is", null)
+    .is("feedback_applied_at", null)
+    .order("feedback_at", { ascending: true })
+    .limit(200)
+    .then(async ({ data, error }) => {
+      if (error) return; // table not migrated yet
+      for (const row of (data ?? []) as ContextProvenance[]) {
+        await applyContextFeedback(row).catch(() => {});
+      }
+    });
+
+  return supabase
+    .channel("context-feedback")
+    .on(
+      "postgres_changes",
+      { event: "UPDATE", schema: "public", table: "command_context" },
+      (payload) => {
+        applyContextFeedback(payload.new as ContextProvenance).catch((err) =>
+          console.error("[soul] Context feedback failed:", err)
+        );
+      }
+    )
+    .subscribe((status) => {
+      trackChannelStatus("context-feedback", status);
+    });
+}
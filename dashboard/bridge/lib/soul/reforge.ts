@@ -113,7 +113,7 @@ export async function runDecayPass(): Promise<{
   // Fetch all memories with their existing decay info
   const { data: memories, error: memErr } = await supabase
     .from("agent_memory")
-    .select("id, kind, source, created_at")
+    .select("id, kind, source, pinned, created_at")
     .order("created_at", { ascending: false })
     .limit(2000);
 
@@ -154,7 +154,8 @@ export async function runDecayPass(): Promise<{
     const isAnchored = mem.source === "anchor";
     const wasArchived = existing?.is_archived ?? false;
 
-    const decayScore = calculateDecay(ageHours, accessCount, mem.kind, isAnchored);
+    // Pinned memories (dashboard) don't decay
+    const decayScore = mem.pinned ? 1.0 : calculateDecay(ageHours, accessCount, mem.kind, isAnchored);
 
     // Archive threshold: score < 0.15 and not already anchored
     const shouldArchive = decayScore < 0.15 && !isAnchored && !wasArchived;
@@ -293,6 +294,38 @@ export async function findReforgeTargets(): Promise<Array<{
   })).sort((a, b) => a.avgDecay - b.avgDecay);
 }
 
+/**
+ * Archive memories: zero their decay score and flag them archived so
+ * retrieval skips them. They stay in agent_memory (and on-chain).
+ * Returns false if the archive could not be written.
+ */
+export async function archiveMemories(memoryIds: string[], reason: string): Promise<boolean> {
+  if (memoryIds.length === 0) return true;
+  try {
+    const { error } = await supabase
+      .from("memory_decay")
+      .upsert(
+        memoryIds.map((mid) => ({
+          memory_id: mid,
+          decay_score: 0,
+          is_archived: true,
+          archive_reason: reason,
+          updated_at: new Date().toISOString(),
+        })),
+        { onConflict: "memory_id" }
+      );
+
+    if (error) {
+      console.error("[soul:reforge] Archive error:", error.message);
+      return false;
+    }
+    return true;
+  } catch {
+    // Non-fatal
+    return false;
+  }
+}
+
 /**
  * Reforge a group of memories into a single legendary crystal.
  *
@@ -398,24 +431,7 @@ export async function reforgeMemories(
   }
 
   // 4. Archive the source memories
-  try {
-    const { error: archiveErr } = await supabase
-      .from("memory_decay")
-      .upsert(
-        memoryIds.map((mid) => ({
-          memory_id: mid,
-          decay_score: 0,
-          is_archived: true,
-          archive_reason: `Reforged into "${legendaryName}"`,
-          updated_at: new Date().toISOString(),
-        })),
-        { onConflict: "memory_id" }
-      );
-
-    if (archiveErr) console.error("[soul:reforge] Archive error:", archiveErr.message);
-  } catch {
-    // Non-fatal
-  }
+  await archiveMemories(memoryIds, `Reforged into "${legendaryName}"`);
 
   // 5. Log the reforge event
   const reforged: ReforgedCrystal = {
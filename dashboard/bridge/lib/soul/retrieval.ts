@@ -2,15 +2,18 @@
  * Soul Agent — Memory Retrieval
  *
  * Retrieves the most relevant memories for a given task,
- * using keyword matching, recency weighting, and association
- * strength. This replaces the simple "last N entries" approach
- * in agent-memory.ts with intelligent context curation.
+ * blending embedding similarity with keyword matching, then
+ * weighting by kind, recency, and association strength. This
+ * replaces the simple "last N entries" approach in agent-memory.ts
+ * with intelligent context curation.
  */
 
 import { supabase } from "../supabase.js";
 import type { MemoryEntry } from "../agent-memory.js";
+import { searchMemories } from "./embeddings.js";
 import { DEFAULT_CONFIG } from "./types.js";
 import type { SoulConfig } from "./types.js";
+import { getSoulPolicy } from "./policies.js";
 
 const config: SoulConfig = DEFAULT_CONFIG;
 
@@ -43,12 +46,21 @@ export function extractKeywords(text: string): string[] {
 }
 
 /**
- * Score a memory entry against a set of task keywords.
- * Returns 0.0–1.0 relevance score.
+ * Cosine similarity → 0.0–1.0. Unrelated text still scores ~0.2 with
+ * most embedding models, so that floor maps to zero.
  */
-function scoreMemory(entry: MemoryEntry, keywords: string[]): number {
-  if (keywords.length === 0) return 0;
+function normalizeSimilarity(similarity: number): number {
+  return Math.max(0, Math.min(1, (similarity - 0.2) / 0.8));
+}
 
+/**
+ * Score a memory entry against a task.
+ * `similarity` is the embedding similarity when semantic search ran
+ * (0 for rows it didn't return), or undefined for keyword-only scoring.
+ * `now` (ms) dates the recency bonus — replays pass the command's time.
+ * Returns 0.0–1.0 relevance score.
+ */
+export function scoreMemory(entry: MemoryEntry, keywords: string[], similarity?: number, now = Date.now()): number {
   const content = entry.content.toLowerCase();
   let hits = 0;
 
@@ -56,10 +68,15 @@ function scoreMemory(entry: MemoryEntry, keywords: string[]): number {
     if (content.includes(kw)) hits++;
   }
 
-  const keywordScore = hits / keywords.length;
+  const keywordScore = keywords.length > 0 ? hits / keywords.length : 0;
+  const match = similarity === undefined
+    ? keywordScore
+    : config.vectorWeight * normalizeSimilarity(similarity) + (1 - config.vectorWeight) * keywordScore;
+
+  if (match === 0) return 0;
 
   // Recency bonus: memories from last 24h get a boost
-  const ageMs = Date.now() - new Date(entry.created_at || 0).getTime();
+  const ageMs = now - new Date(entry.created_at || 0).getTime();
   const ageHours = ageMs / (1000 * 60 * 60);
   const recencyBonus = ageHours < 24 ? 0.15 : ageHours < 72 ? 0.05 : 0;
 
@@ -74,50 +91,97 @@ function scoreMemory(entry: MemoryEntry, keywords: string[]): number {
   };
   const kw2 = kindWeight[entry.kind] ?? 0.5;
 
-  return Math.min(1.0, keywordScore * kw2 + recencyBonus);
+  return Math.min(1.0, match * kw2 + recencyBonus);
 }
 
+/** Pinned memories (dashboard memory explorer) never score below this */
+const PINNED_RELEVANCE = 0.6;
+
+const MEMORY_COLUMNS = "id, agent_id, kind, content, source, ttl_hours, pinned, created_at";
+
 /**
  * Retrieve the most relevant memories for a task.
  *
- * 1. Fetch recent memories for the agent (+ shared)
- * 2. Score each against extracted task keywords
- * 3. Boost by association strength (if soul tables exist)
- * 4. Return top N sorted by relevance
+ * 1. Fetch recent memories for the agent (+ shared, unless its Soul policy
+ *    says otherwise), pinned memories, and the nearest memories by
+ *    embedding (any age) when embeddings are on
+ * 2. Drop archived memories (decayed, merged or archived from the dashboard)
+ *    and kinds/sources the agent's policy excludes
+ * 3. Score each on vector similarity + task keyword overlap
+ * 4. Boost by association strength (if soul tables exist)
+ * 5. Return top N sorted by relevance
  */
 export async function retrieveRelevantMemories(
   agentId: string,
   taskMessage: string,
-  maxResults = config.maxRetrievalCount
+  maxResults?: number
 ): Promise<Array<MemoryEntry & { relevance: number }>> {
+  const policy = getSoulPolicy(agentId);
+  const limit = maxResults ?? policy.maxRetrievalCount;
+  if (limit <= 0) return [];
+
   const keywords = extractKeywords(taskMessage);
+  const agentIds = policy.includeShared ? [agentId, "_shared"] : [agentId];
+  const excludedKinds = new Set(policy.excludedKinds);
+  const excludedSources = new Set(policy.excludedSources);
+  const kindFilter = `(${policy.excludedKinds.join(",")})`;
 
   // Fetch a wider window than the old RECENT_LIMIT to score from
   // Exclude TTL-expired memories: created_at + ttl_hours > now
-  const { data, error } = await supabase
+  let windowQuery = supabase
+    .from("agent_memory")
+    .select(MEMORY_COLUMNS)
+    .in("agent_id", agentIds);
+  let pinnedQuery = supabase
     .from("agent_memory")
-    .select("id, agent_id, kind, content, source, ttl_hours, created_at")
-    .in("agent_id", [agentId, "_shared"])
-    .order("created_at", { ascending: false })
-    .limit(config.associationScanWindow);
+    .select(MEMORY_COLUMNS)
+    .in("agent_id", agentIds)
+    .eq("pinned", true);
+  if (excludedKinds.size > 0) {
+    windowQuery = windowQuery.not("kind", "in", kindFilter);
+    pinnedQuery = pinnedQuery.not("kind", "in", kindFilter);
+  }
+
+  const [{ data, error }, { data: pinned }, similar] = await Promise.all([
+    windowQuery.order("created_at", { ascending: false }).limit(config.associationScanWindow),
+    pinnedQuery.order("created_at", { ascending: false }).limit(limit),
+    searchMemories(agentIds, taskMessage, config.vectorCandidateCount),
+  ]);
 
   if (error || !data) return [];
 
+  const excluded = (m: MemoryEntry) =>
+    excludedKinds.has(m.kind) || (m.source != null && excludedSources.has(m.source));
+
   const now = Date.now();
-  const entries = (data as (MemoryEntry & { ttl_hours?: number | null })[]).filter((m) => {
-    // Skip TTL-expired memories
-    if (m.ttl_hours && m.created_at) {
+  const candidates = new Map<string, MemoryEntry>();
+  for (const m of [...(pinned ?? []), ...data] as MemoryEntry[]) {
+    if (excluded(m)) continue;
+    // Skip TTL-expired memories (the dashboard expires one by setting ttl_hours to its age)
+    if (m.ttl_hours != null && m.created_at) {
       const expiresAt = new Date(m.created_at).getTime() + m.ttl_hours * 3600000;
-      if (now > expiresAt) return false;
+      if (now > expiresAt) continue;
     }
-    return true;
-  });
+    if (m.id) candidates.set(m.id, m);
+  }
+
+  // Semantic matches outside the recent window join the candidates
+  // (match_agent_memory already skips expired rows)
+  const similarity = new Map<string, number>();
+  for (const { similarity: sim, ...entry } of similar ?? []) {
+    if (excluded(entry)) continue;
+    similarity.set(entry.id, sim);
+    if (!candidates.has(entry.id)) candidates.set(entry.id, entry);
+  }
+
+  const archived = await archivedIds([...candidates.keys()]);
+  const entries = [...candidates.values()].filter((m) => m.pinned || !archived.has(m.id!));
 
-  // Score each memory
-  const scored = entries.map((entry) => ({
-    ...entry,
-    relevance: scoreMemory(entry, keywords),
-  }));
+  // Score each memory (keyword-only when semantic search didn't run)
+  const scored = entries.map((entry) => {
+    const relevance = scoreMemory(entry, keywords, similar ? similarity.get(entry.id!) ?? 0 : undefined);
+    return { ...entry, relevance: entry.pinned ? Math.max(PINNED_RELEVANCE, relevance) : relevance };
+  });
 
   // Try to boost by associations (non-fatal if table doesn't exist)
   await boostByAssociations(scored);
@@ -128,12 +192,31 @@ export async function retrieveRelevantMemories(
   // Filter out zero-relevance unless we'd return nothing
   const relevant = scored.filter((s) => s.relevance > 0);
   const result = relevant.length > 0
-    ? relevant.slice(0, maxResults)
-    : scored.slice(0, Math.min(5, maxResults)); // fallback: latest 5
+    ? relevant.slice(0, limit)
+    : scored
+        .sort((a, b) => new Date(b.created_at || 0).getTime() - new Date(a.created_at || 0).getTime())
+        .slice(0, Math.min(5, limit)); // fallback: latest 5
 
   return result;
 }
 
+/** Which of these memories the decay pass (or the dashboard) has archived */
+async function archivedIds(ids: string[]): Promise<Set<string>> {
+  if (ids.length === 0) return new Set();
+  try {
+    const { data, error } = await supabase
+      .from("memory_decay")
+      .select("memory_id")
+      .in("memory_id", ids)
+      .eq("is_archived", true);
+    if (error || !data) return new Set();
+    return new Set(data.map((d: { memory_id: string }) => d.memory_id));
+  } catch {
+    // memory_decay table doesn't exist yet — nothing is archived
+    return new Set();
+  }
+}
+
 /**
  * Boost memory scores based on association strength.
  * If two memories are associated, seeing one makes the other more relevant.
@@ -192,7 +275,8 @@ export async function logQuery(
   agentId: string,
   keywords: string[],
   retrievedIds: string[],
-  scores: number[]
+  scores: number[],
+  commandId?: string
 ): Promise<void> {
   try {
     await supabase.from("memory_queries").insert({
@@ -200,6 +284,7 @@ export async function logQuery(
       task_keywords: keywords,
       retrieved_memory_ids: retrievedIds,
       relevance_scores: scores,
+      command_id: commandId ?? null,
     });
   } catch {
     // Non-fatal — table may not exist yet
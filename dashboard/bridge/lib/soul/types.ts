@@ -40,6 +40,13 @@ export interface DreamInsight {
   category: "pattern" | "recommendation" | "summary" | "correction";
   confidence: number; // 0.0 – 1.0
   generated_at?: string;
+  /** Memories supporting the claim (LLM consolidation; heuristics cite all source_memories) */
+  evidence_memory_ids?: string[];
+  /** Memories in the cluster that cut against the claim */
+  counter_evidence_ids?: string[];
+  confidence_rationale?: string | null;
+  /** "heuristic" or "llm:<model>" */
+  generator?: string;
 }
 
 // ---- Context Packet ----
@@ -74,6 +81,10 @@ export interface SoulConfig {
   minAssociationStrength: number;
   /** How many recent memories to scan for association building */
   associationScanWindow: number;
+  /** Nearest-neighbour memories fetched by embedding search per query */
+  vectorCandidateCount: number;
+  /** Share of the match score from vector similarity (rest is keyword overlap) */
+  vectorWeight: number;
 }
 
 export const DEFAULT_CONFIG: SoulConfig = {
@@ -82,4 +93,6 @@ export const DEFAULT_CONFIG: SoulConfig = {
   dreamIdleThresholdHours: 6,
   minAssociationStrength: 0.3,
   associationScanWindow: 50,
+  vectorCandidateCount: 50,
+  vectorWeight: 0.6,
 };
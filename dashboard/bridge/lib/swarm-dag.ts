@@ -0,0 +1,256 @@
+// ============================================================
+// Swarm DAG — dependency graph + task policy helpers
+// - depends_on normalization (legacy single string or array)
+// - Validation: unique ids, known deps, cycles, template refs
+// - {{tasks.<id>.output}} / {{tasks.<id>.exit_code}} rendering
+// - Per-task policies: retry, fallback agent, `when` conditions
+// ============================================================
+
+/** Condition on an upstream task's result, checked before a task starts */
+export interface TaskCondition {
+  /** Upstream task whose result is inspected */
+  task: string;
+  /** Case-insensitive regex the upstream output must match */
+  output_matches?: string;
+  /** Required upstream exit code: an exact number, "zero" or "nonzero" */
+  exit_code?: number | "zero" | "nonzero";
+}
+
+export interface DagTask {
+  id: string;
+  agent?: string;
+  depends_on?: string | string[];
+  message: string;
+  /** Total attempts (including the first) and seconds before the first retry, doubling after */
+  retry?: { attempts: number; backoff?: number };
+  /** Task-level failure policy; overrides the run-level on_failure */
+  on_failure?: "stop" | "continue" | "fallback_agent";
+  /** Agent to reroute to once retries are exhausted (on_failure: "fallback_agent") */
+  fallback_agent?: string;
+  /** Run only if every condition holds; otherwise the task is skipped */
+  when?: TaskCondition | TaskCondition[];
+}
+
+/** Upper bound on retry.attempts so a typo can't loop a task for hours */
+export const MAX_TASK_ATTEMPTS = 5;
+
+export interface DagTaskResult {
+  output: string;
+  exitCode: number | null;
+}
+
+/** Matches {{tasks.<id>.output}} and {{tasks.<id>.exit_code}} */
+const TASK_REF_RE = /\{\{\s*tasks\.([A-Za-z0-9_-]+)\.(output|exit_code)\s*\}\}/g;
+
+/** `when` as an array, whatever shape the manifest used */
+export function normalizeWhen(when: TaskCondition | TaskCondition[] | undefined): TaskCondition[] {
+  if (!when) return [];
+  return Array.isArray(when) ? when : [when];
+}
+
+/** depends_on as an array, whatever shape the manifest used */
+export function normalizeDependsOn(dep: string | string[] | undefined): string[] {
+  if (!dep) return [];
+  return Array.isArray(dep) ? dep : [dep];
+}
+
+/** Task IDs referenced by {{tasks.<id>.*}} placeholders in a message */
+export function referencedTasks(message: string): string[] {
+  const ids = new Set<string>();
+  for (const m of message.matchAll(TASK_REF_RE)) ids.add(m[1]);
+  return [...ids];
+}
+
+/**
+ * Validate a DAG manifest's tasks. Returns a list of human-readable
+ * errors (empty when valid).
+ */
+export function validateDag(tasks: DagTask[]): string[] {
+  const errors: string[] = [];
+  if (tasks.length === 0) return ["No tasks defined in manifest"];
+
+  const ids = new Set<string>();
+  for (const t of tasks) {
+    if (!t.id) errors.push("Every task needs an id");
+    else if (ids.has(t.id)) errors.push(`Duplicate task id "${t.id}"`);
+    ids.add(t.id);
+  }
+
+  for (const t of tasks) {
+    for (const dep of normalizeDependsOn(t.depends_on)) {
+      if (dep === t.id) errors.push(`Task "${t.id}" depends on itself`);
+      else if (!ids.has(dep)) errors.push(`Task "${t.id}" depends on unknown task "${dep}"`);
+    }
+  }
+  if (errors.length > 0) return errors;
+
+  const cycle = findCycle(tasks);
+  if (cycle) {
+    errors.push(`Dependency cycle: ${cycle.join(" → ")}`);
+    return errors;
+  }
+
+  // A template or condition may only reference tasks guaranteed to have finished first
+  for (const t of tasks) {
+    const upstream = ancestorsOf(t.id, tasks);
+    const refs = [...referencedTasks(t.message), ...normalizeWhen(t.when).map((c) => c.task)];
+    for (const ref of refs) {
+      if (!ids.has(ref)) errors.push(`Task "${t.id}" references unknown task "${ref}"`);
+      else if (!upstream.has(ref)) errors.push(`Task "${t.id}" references "${ref}", which is not upstream of it`);
+    }
+  }
+
+  return [...errors, ...validateTaskPolicies(tasks)];
+}
+
+/**
+ * Validate retry / fallback / `when` fields. Applies to every mode with a
+ * task list; upstream checks for `when` live in validateDag (dag) and here
+ * (pipeline: the referenced task must come earlier).
+ */
+export function validateTaskPolicies(tasks: DagTask[], mode?: string): string[] {
+  const errors: string[] = [];
+  const order = new Map(tasks.map((t, i) => [t.id, i]));
+
+  tasks.forEach((t, i) => {
+    if (t.retry) {
+      const { attempts, backoff } = t.retry;
+      if (!Number.isInteger(attempts) || attempts < 1 || attempts > MAX_TASK_ATTEMPTS) {
+        errors.push(`Task "${t.id}": retry.attempts must be an integer from 1 to ${MAX_TASK_ATTEMPTS}`);
+      }
+      if (backoff !== undefined && (typeof backoff !== "number" || backoff < 0)) {
+        errors.push(`Task "${t.id}": retry.backoff must be a non-negative number of seconds`);
+      }
+    }
+
+    if (t.on_failure === "fallback_agent" && !t.fallback_agent) {
+      errors.push(`Task "${t.id}": on_failure "fallback_agent" needs a fallback_agent`);
+    }
+    if (t.fallback_agent && t.fallback_agent === t.agent) {
+      errors.push(`Task "${t.id}": fallback_agent must differ from agent`);
+    }
+
+    for (const c of normalizeWhen(t.when)) {
+      if (!c.task) {
+        errors.push(`Task "${t.id}": every when condition needs a task`);
+        continue;
+      }
+      if (mode === "parallel" || mode === "collaborative") {
+        errors.push(`Task "${t.id}": when conditions need pipeline or dag mode`);
+      } else if (mode === "pipeline" && !((order.get(c.task) ?? Infinity) < i)) {
+        errors.push(`Task "${t.id}": when references "${c.task}", which does not run before it`);
+      }
+      if (c.output_matches !== undefined) {
+        try {
+          new RegExp(c.output_matches, "i");
+        } catch {
+          errors.push(`Task "${t.id}": invalid output_matches regex "${c.output_matches}"`);
+        }
+      }
+      if (
+        c.exit_code !== undefined &&
+        c.exit_code !== "zero" &&
+        c.exit_code !== "nonzero" &&
+        !Number.isInteger(c.exit_code)
+      ) {
+        errors.push(`Task "${t.id}": exit_code must be a number, "zero" or "nonzero"`);
+      }
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Check a task's `when` conditions against finished upstream results.
+ * Returns null when the task should run, or the reason it should be skipped.
+ */
+export function unmetCondition(
+  task: DagTask,
+  results: Map<string, DagTaskResult>
+): string | null {
+  for (const c of normalizeWhen(task.when)) {
+    const res = results.get(c.task);
+    if (!res) return `"${c.task}" has not run`;
+
+    if (c.output_matches !== undefined && !new RegExp(c.output_matches, "i").test(res.output)) {
+      return `"${c.task}" output does not match /${c.output_matches}/i`;
+    }
+
+    if (c.exit_code !== undefined) {
+      const code = res.exitCode;
+      const ok =
+        c.exit_code === "zero" ? code === 0 :
+        c.exit_code === "nonzero" ? code !== 0 && code !== null :
+        code === c.exit_code;
+      if (!ok) return `"${c.task}" exit code ${code ?? "none"} is not ${c.exit_code}`;
+    }
+  }
+  return null;
+}
+
+/** First dependency cycle found (as a path of ids ending where it started), or null */
+export function findCycle(tasks: DagTask[]): string[] | null {
+  const deps = new Map(tasks.map((t) => [t.id, normalizeDependsOn(t.depends_on)]));
+  const state = new Map<string, "visiting" | "done">();
+  const stack: string[] = [];
+
+  const visit = (id: string): string[] | null => {
+    if (state.get(id) === "done") return null;
+    if (state.get(id) === "visiting") {
+      return [...stack.slice(stack.indexOf(id)), id];
+    }
+    state.set(id, "visiting");
+    stack.push(id);
+    for (const dep of deps.get(id) ?? []) {
+      const cycle = visit(dep);
+      if (cycle) return cycle;
+    }
+    stack.pop();
+    state.set(id, "done");
+    return null;
+  };
+
+  for (const t of tasks) {
+    const cycle = visit(t.id);
+    if (cycle) return cycle;
+  }
+  return null;
+}
+
+/** All transitive dependencies of a task */
+export function ancestorsOf(id: string, tasks: DagTask[]): Set<string> {
+  const deps = new Map(tasks.map((t) => [t.id, normalizeDependsOn(t.depends_on)]));
+  const seen = new Set<string>();
+  const queue = [...(deps.get(id) ?? [])];
+  while (queue.length > 0) {
+    const next = queue.shift()!;
+    if (seen.has(next)) continue;
+    seen.add(next);
+    queue.push(...(deps.get(next) ?? []));
+  }
+  return seen;
+}
+
+/**
+ * Build the message for a DAG task. Explicit {{tasks.*}} placeholders are
+ * substituted; messages without any get their direct dependencies' outputs
+ * prepended as context (same shape as pipeline mode).
+ */
+export function renderTaskMessage(task: DagTask, results: Map<string, DagTaskResult>): string {
+  if (referencedTasks(task.message).length > 0) {
+    return task.message.replace(TASK_REF_RE, (_match, id: string, field: string) => {
+      const res = results.get(id);
+      if (!res) return "";
+      return field === "output" ? res.output : String(res.exitCode ?? "");
+    });
+  }
+
+  const deps = normalizeDependsOn(task.depends_on);
+  if (deps.length === 0) return task.message;
+
+  const context = deps
+    .map((dep) => `[Context from upstream task "${dep}"]:\n${results.get(dep)?.output ?? "(no output)"}`)
+    .join("\n\n");
+  return `${context}\n\n[Your task]:\n${task.message}`;
+}
@@ -15,6 +15,8 @@ export class TTLCache<T> {
   private store = new Map<string, CacheEntry<T>>();
   private readonly defaultTTL: number;
   private pruneTimer: ReturnType<typeof setInterval> | null = null;
+  private hits = 0;
+  private misses = 0;
 
   /** @param ttlMs Default time-to-live in milliseconds */
   constructor(ttlMs: number, autoPruneMs?: number) {
@@ -29,8 +31,10 @@ export class TTLCache<T> {
   async getOrFetch(key: string, fetcher: () => Promise<T>, ttlMs?: number): Promise<T> {
     const existing = this.store.get(key);
     if (existing && Date.now() < existing.expiresAt) {
+      this.hits++;
       return existing.value;
     }
+    this.misses++;
 
     const value = await fetcher();
     this.set(key, value, ttlMs);
@@ -42,8 +46,10 @@ export class TTLCache<T> {
     const entry = this.store.get(key);
     if (!entry || Date.now() >= entry.expiresAt) {
       if (entry) this.store.delete(key);
+      this.misses++;
       return undefined;
     }
+    this.hits++;
     return entry.value;
   }
 
@@ -74,6 +80,11 @@ export class TTLCache<T> {
     this.store.clear();
   }
 
+  /** Lookup counts since creation (getOrFetch + get) */
+  get stats(): { hits: number; misses: number } {
+    return { hits: this.hits, misses: this.misses };
+  }
+
   /** Number of entries (including possibly expired) */
   get size(): number {
     return this.store.size;
@@ -0,0 +1,114 @@
+import { supabase } from "./supabase.js";
+import { TTLCache } from "./ttl-cache.js";
+import { trackCache } from "./metrics.js";
+import type { RunUsage } from "./usage-meter.js";
+
+// ============================================================
+// Usage Ledger -- per-run usage rows + daily budget checks
+// - recordUsage: one agent_usage row per agent process
+// - checkBudget: compares today's (UTC) totals from agent_usage_daily
+//   against agent_budgets; no budget row means unlimited
+// Both fail open: a ledger outage never blocks an agent.
+// ============================================================
+
+export interface AgentBudget {
+  agent_id: string;
+  daily_token_limit: number | null;
+  daily_cost_limit_usd: number | null;
+  daily_run_limit: number | null;
+  over_budget_action: "refuse" | "queue";
+}
+
+export type BudgetVerdict =
+  | { ok: true }
+  | { ok: false; action: "refuse" | "queue"; reason: string };
+
+export interface UsageRef {
+  commandId?: string;
+  swarmId?: string;
+  swarmTaskId?: string;
+}
+
+/** Budgets change rarely — cache them for 30s like agent_controls */
+const budgetCache = new TTLCache<AgentBudget | null>(30_000);
+trackCache("agent_budgets", budgetCache);
+
+export async function recordUsage(agentId: string, usage: RunUsage, ref: UsageRef = {}) {
+  const { error } = await supabase.from("agent_usage").insert({
+    agent_id: agentId,
+    source: ref.swarmId ? "swarm" : "command",
+    command_id: ref.commandId ?? null,
+    swarm_id: ref.swarmId ?? null,
+    swarm_task_id: ref.swarmTaskId ?? null,
+    wall_ms: usage.wallMs,
+    exit_code: usage.exitCode,
+    timed_out: usage.timedOut,
+    input_tokens: usage.inputTokens,
+    output_tokens: usage.outputTokens,
+    total_tokens: usage.totalTokens,
+    cost_usd: usage.costUsd,
+    model: usage.model,
+  });
+  if (error) console.error(`[usage] Failed to record usage for "${agentId}":`, error.message);
+}
+
+/** Whether the agent may start another run today */
+export async function checkBudget(agentId: string): Promise<BudgetVerdict> {
+  try {
+    const budget = await budgetCache.getOrFetch(agentId, async () => {
+      const { data } = await supabase
+        .from("agent_budgets")
+        .select("*")
+        .eq("agent_id", agentId)
+        .maybeSingle();
+      return (data as AgentBudget | null) ?? null;
+    });
+
+    if (
+      !budget ||
+      (budget.daily_token_limit === null &&
+        budget.daily_cost_limit_usd === null &&
+        budget.daily_run_limit === null)
+    ) {
+      return { ok: true };
+    }
+
+    const today = new Date();
+    today.setUTCHours(0, 0, 0, 0);
+    const { data, error } = await supabase
+      .from("agent_usage_daily")
+      .select("runs, total_tokens, cost_usd")
+      .eq("agent_id", agentId)
+      .gte("day", today.toISOString())
+      .maybeSingle();
+
+    if (error) return { ok: true };
+
+    const runs = Number(data?.runs ?? 0);
+    const tokens = Number(data?.total_tokens ?? 0);
+    const cost = Number(data?.cost_usd ?? 0);
+    const action = budget.over_budget_action;
+
+    if (budget.daily_run_limit !== null && runs >= budget.daily_run_limit) {
+      return { ok: false, action, reason: `daily run limit reached (${runs}/${budget.daily_run_limit})` };
+    }
+    if (budget.daily_token_limit !== null && tokens >= budget.daily_token_limit) {
+      return {
+        ok: false,
+        action,
+        reason: `daily token limit reached (${tokens.toLocaleString()}/${Number(budget.daily_token_limit).toLocaleString()})`,
+      };
+    }
+    if (budget.daily_cost_limit_usd !== null && cost >= Number(budget.daily_cost_limit_usd)) {
+      return {
+        ok: false,
+        action,
+        reason: `daily cost limit reached ($${cost.toFixed(4)}/$${Number(budget.daily_cost_limit_usd).toFixed(2)})`,
+      };
+    }
+    return { ok: true };
+  } catch (err) {
+    console.error(`[usage] Budget check failed for "${agentId}" (allowing run):`, err);
+    return { ok: true };
+  }
+}
@@ -0,0 +1,107 @@
+// ============================================================
+// Usage Meter -- wall time + token/cost lines from one agent run
+// Fed the raw stdout/stderr stream; scans complete lines for the
+// usage summaries OpenClaw (and the providers behind it) print,
+// e.g. "input_tokens: 1200", "Tokens: 1,200 in / 340 out",
+// "cost: $0.0042", "model: claude-sonnet-4". The last value seen
+// for each field wins, since summaries are cumulative.
+// ============================================================
+
+export interface RunUsage {
+  wallMs: number;
+  exitCode: number | null;
+  timedOut: boolean;
+  inputTokens: number | null;
+  outputTokens: number | null;
+  totalTokens: number | null;
+  costUsd: number | null;
+  model: string | null;
+}
+
+const NUM = String.raw`(\d[\d,]*)`;
+
+const INPUT_RES = [
+  new RegExp(String.raw`\b(?:input|prompt)[_ ]tokens["']?\s*[:=]\s*${NUM}`, "i"),
+  new RegExp(String.raw`${NUM}\s+(?:input|prompt)\s+tokens`, "i"),
+  new RegExp(String.raw`\btokens?\s*[:=]?\s*${NUM}\s*in\b`, "i"),
+];
+const OUTPUT_RES = [
+  new RegExp(String.raw`\b(?:output|completion)[_ ]tokens["']?\s*[:=]\s*${NUM}`, "i"),
+  new RegExp(String.raw`${NUM}\s+(?:output|completion)\s+tokens`, "i"),
+  new RegExp(String.raw`\b${NUM}\s*out\b`, "i"),
+];
+const TOTAL_RES = [
+  new RegExp(String.raw`\btotal[_ ]tokens["']?\s*[:=]\s*${NUM}`, "i"),
+  new RegExp(String.raw`${NUM}\s+total\s+tokens`, "i"),
+];
+const COST_RE = /\b(?:total[_ ])?cost(?:_usd)?["']?\s*[:=]?\s*\$\s?(\d+(?:\.\d+)?)/i;
+const MODEL_RE = /\bmodel["']?\s*[:=]\s*["']?([\w./:@-]+)/i;
+
+/** Only lines mentioning one of these are worth running the regexes on */
+const USAGE_HINT = /token|cost|model/i;
+
+export interface UsageMeter {
+  feed(text: string): void;
+  finish(exitCode: number | null, timedOut: boolean): RunUsage;
+}
+
+export function createUsageMeter(): UsageMeter {
+  const startedAt = Date.now();
+  let partial = "";
+  let inputTokens: number | null = null;
+  let outputTokens: number | null = null;
+  let totalTokens: number | null = null;
+  let costUsd: number | null = null;
+  let model: string | null = null;
+
+  const scan = (line: string) => {
+    if (!USAGE_HINT.test(line)) return;
+    // "tokens ... in / ... out" only counts on lines that mention tokens
+    const tokenLine = /token/i.test(line);
+
+    const input = tokenLine ? firstMatch(INPUT_RES, line) : null;
+    const output = tokenLine ? firstMatch(OUTPUT_RES, line) : null;
+    const total = tokenLine ? firstMatch(TOTAL_RES, line) : null;
+    if (input !== null) inputTokens = input;
+    if (output !== null) outputTokens = output;
+    if (total !== null) totalTokens = total;
+
+    const cost = line.match(COST_RE);
+    if (cost) costUsd = parseFloat(cost[1]);
+
+    const m = line.match(MODEL_RE);
+    if (m) model = m[1];
+  };
+
+  return {
+    feed(text: string) {
+      const lines = (partial + text).split("\n");
+      partial = lines.pop() ?? "";
+      for (const line of lines) scan(line);
+    },
+    finish(exitCode, timedOut) {
+      if (partial) scan(partial);
+      partial = "";
+      return {
+        wallMs: Date.now() - startedAt,
+        exitCode,
+        timedOut,
+        inputTokens,
+        outputTokens,
+        totalTokens: totalTokens ?? (inputTokens !== null || outputTokens !== null
+          ? (inputTokens ?? 0) + (outputTokens ?? 0)
+          : null),
+        costUsd,
+        model,
+      };
+    },
+  };
+}
+
+function firstMatch(patterns: RegExp[], line: string): number | null {
+  for (const re of patterns) {
+    const m = line.match(re);
+    if (m) return parseInt(m[1].replace(/,/g, ""), 10);
+  }
+  return null;
+}
@@ -0,0 +1,51 @@
+/**
+ * Soul Agent — Embedding Backfill
+ *
+ * Embeds every agent_memory row that has no embedding for the active
+ * model (SOUL_EMBED_PROVIDER / SOUL_EMBED_MODEL), or whose content has
+ * changed since it was embedded. Safe to re-run; the bridge also does
+ * this in the background, 500 rows every 15 minutes.
+ *
+ * Usage:
+ *   npm run backfill:embeddings [-- --batch 32] [-- --max 1000]
+ */
+
+import "dotenv/config";
+import { backfillEmbeddings, getEmbeddingProvider, MAX_EMBED_ATTEMPTS } from "../lib/soul/index.js";
+
+function argValue(flag: string): number | undefined {
+  const i = process.argv.indexOf(flag);
+  if (i === -1) return undefined;
+  const n = Number(process.argv[i + 1]);
+  return Number.isFinite(n) && n > 0 ? n : undefined;
+}
+
+async function main() {
+  const provider = getEmbeddingProvider();
+  if (!provider) {
+    console.log("SOUL_EMBED_PROVIDER=off — nothing to do");
+    return;
+  }
+  console.log(`=== Embedding backfill (${provider.name}/${provider.model}) ===\n`);
+
+  const result = await backfillEmbeddings({
+    batchSize: argValue("--batch"),
+    maxRows: argValue("--max"),
+  });
+
+  console.log(`Embedded: ${result.embedded}`);
+  if (result.failed > 0) console.log(`Failed:   ${result.failed}`);
+  if (result.gaveUp > 0) {
+    console.log(`Gave up:  ${result.gaveUp} (failed ${MAX_EMBED_ATTEMPTS} times — see memory_embedding_failures)`);
+  }
+  if (result.remaining) {
+    console.log("More rows still need embedding — re-run to continue");
+    process.exit(result.failed > 0 ? 1 : 0);
+  }
+  console.log("✓ All memories embedded");
+}
+
+main().catch((err) => {
+  console.error("Backfill failed:", err);
+  process.exit(1);
+});
@@ -0,0 +1,277 @@
+import { supabase } from "../lib/supabase.js";
+import { parseSwapCommand } from "../lib/swap-executor.js";
+
+// ============================================================
+// Command Queue -- durable per-agent scheduling for agent_commands
+// - Per-agent FIFO, ordered by priority (higher first) then age
+// - Round-robin across agents so one busy agent can't starve the fleet
+// - Per-agent and global concurrency caps
+// - Queue positions written back to agent_commands.queue_position
+// - Restart recovery: re-queues pending rows and orphaned running rows
+// ============================================================
+
+export interface QueuedCommand {
+  id: string;
+  agent_id: string;
+  message: string;
+  priority?: number | null;
+  created_at?: string;
+}
+
+type Dispatcher = (command: QueuedCommand) => Promise<void>;
+
+/** Max commands running at once for a single agent */
+const MAX_PER_AGENT = parseInt(process.env.BRIDGE_MAX_PER_AGENT || "4", 10);
+/** Max commands running at once across the whole fleet */
+const MAX_GLOBAL = parseInt(process.env.BRIDGE_MAX_CONCURRENT || "8", 10);
+
+/** Waiting commands per agent (already sorted) */
+const queues = new Map<string, QueuedCommand[]>();
+
+/** In-flight command IDs per agent */
+const active = new Map<string, Set<string>>();
+
+/** Every command ID we currently own (queued or active) — dedupes Realtime vs. startup scan */
+const known = new Set<string>();
+
+/** Last queue_position written per command, so unchanged rows aren't rewritten */
+const writtenPositions = new Map<string, number | null>();
+
+/** Agent order for round-robin dispatch */
+const agentOrder: string[] = [];
+let nextAgentIdx = 0;
+
+let dispatcher: Dispatcher | null = null;
+
+/**
+ * Start the queue with the function that actually runs a command,
+ * then recover anything left over from a previous bridge process.
+ */
+export async function startCommandQueue(dispatch: Dispatcher) {
+  dispatcher = dispatch;
+  console.log(`[queue] Started (max ${MAX_PER_AGENT}/agent, ${MAX_GLOBAL} global)`);
+  await recoverCommands();
+}
+
+/** Add a pending command to its agent's queue and try to dispatch */
+export function enqueueCommand(command: QueuedCommand) {
+  if (known.has(command.id)) return;
+  known.add(command.id);
+
+  const queue = queues.get(command.agent_id) ?? [];
+  queue.push(command);
+  queue.sort(compareCommands);
+  queues.set(command.agent_id, queue);
+  if (!agentOrder.includes(command.agent_id)) agentOrder.push(command.agent_id);
+
+  schedule();
+}
+
+/** Mark a command as finished and free its slot. Safe to call more than once. */
+export function releaseCommand(agentId: string, commandId: string) {
+  const set = active.get(agentId);
+  if (set?.delete(commandId)) {
+    known.delete(commandId);
+    writtenPositions.delete(commandId);
+    schedule();
+  }
+}
+
+/** Drop a queued command (e.g. cancelled from the dashboard before it started) */
+export function removeQueuedCommand(commandId: string) {
+  for (const [agentId, queue] of queues) {
+    const idx = queue.findIndex((c) => c.id === commandId);
+    if (idx === -1) continue;
+    queue.splice(idx, 1);
+    known.delete(commandId);
+    writtenPositions.delete(commandId);
+    console.log(`[queue] Removed command ${commandId} from "${agentId}" queue`);
+    writePositions(agentId);
+    return;
+  }
+}
+
+/** Whether an agent currently has at least one command in flight */
+export function isAgentBusy(agentId: string): boolean {
+  return (active.get(agentId)?.size ?? 0) > 0;
+}
+
+/** Snapshot of queue depth and in-flight counts per agent */
+export function getQueueSnapshot() {
+  const agents: Record<string, { queued: number; running: number }> = {};
+  for (const agentId of agentOrder) {
+    agents[agentId] = {
+      queued: queues.get(agentId)?.length ?? 0,
+      running: active.get(agentId)?.size ?? 0,
+    };
+  }
+  return {
+    maxPerAgent: MAX_PER_AGENT,
+    maxGlobal: MAX_GLOBAL,
+    running: activeCount(),
+    agents,
+  };
+}
+
+// ============================================================
+// Scheduling
+// ============================================================
+
+function compareCommands(a: QueuedCommand, b: QueuedCommand): number {
+  const pa = a.priority ?? 0;
+  const pb = b.priority ?? 0;
+  if (pa !== pb) return pb - pa;
+  return (a.created_at ?? "").localeCompare(b.created_at ?? "");
+}
+
+function activeCount(): number {
+  let total = 0;
+  for (const set of active.values()) total += set.size;
+  return total;
+}
+
+/**
+ * Dispatch as many queued commands as the caps allow, visiting agents
+ * round-robin so each agent gets a turn before any agent gets a second.
+ */
+function schedule() {
+  if (!dispatcher) return;
+
+  const touched = new Set<string>();
+
+  while (activeCount() < MAX_GLOBAL) {
+    const agentId = nextReadyAgent();
+    if (!agentId) break;
+
+    const command = queues.get(agentId)!.shift()!;
+    const set = active.get(agentId) ?? new Set<string>();
+    set.add(command.id);
+    active.set(agentId, set);
+    touched.add(agentId);
+
+    dispatch(command);
+  }
+
+  // Queue positions shift whenever something is added or dispatched
+  for (const agentId of agentOrder) {
+    if (touched.has(agentId) || hasStalePositions(agentId)) writePositions(agentId);
+  }
+}
+
+/** Next agent (round-robin) with queued work and a free per-agent slot */
+function nextReadyAgent(): string | null {
+  for (let i = 0; i < agentOrder.length; i++) {
+    const idx = (nextAgentIdx + i) % agentOrder.length;
+    const agentId = agentOrder[idx];
+    const queued = queues.get(agentId)?.length ?? 0;
+    const running = active.get(agentId)?.size ?? 0;
+    if (queued > 0 && running < MAX_PER_AGENT) {
+      nextAgentIdx = (idx + 1) % agentOrder.length;
+      return agentId;
+    }
+  }
+  return null;
+}
+
+function dispatch(command: QueuedCommand) {
+  const { id, agent_id } = command;
+  console.log(`[queue] Dispatching ${id} on "${agent_id}" (${activeCount()}/${MAX_GLOBAL} running)`);
+
+  // Clear the position we advertised while it was waiting
+  if (writtenPositions.get(id) != null) {
+    writtenPositions.set(id, null);
+    supabase
+      .from("agent_commands")
+      .update({ queue_position: null })
+      .eq("id", id)
+      .then(({ error }) => {
+        if (error) console.error(`[queue] Failed to clear position for ${id}:`, error.message);
+      });
+  }
+
+  dispatcher!(command).catch((err) => {
+    console.error(`[queue] Dispatch of ${id} threw:`, err);
+    releaseCommand(agent_id, id);
+  });
+}
+
+function hasStalePositions(agentId: string): boolean {
+  const queue = queues.get(agentId) ?? [];
+  return queue.some((c, i) => writtenPositions.get(c.id) !== i + 1);
+}
+
+/** Write 1-based queue positions for an agent's waiting commands (only changed rows) */
+function writePositions(agentId: string) {
+  const queue = queues.get(agentId) ?? [];
+  queue.forEach((command, i) => {
+    const position = i + 1;
+    if (writtenPositions.get(command.id) === position) return;
+    writtenPositions.set(command.id, position);
+    supabase
+      .from("agent_commands")
+      .update({ queue_position: position })
+      .eq("id", command.id)
+      .eq("status", "pending")
+      .then(({ error }) => {
+        if (error) console.error(`[queue] Failed to write position for ${command.id}:`, error.message);
+      });
+  });
+}
+
+// ============================================================
+// Recovery
+// ============================================================
+
+/**
+ * Re-queue work left behind by a previous bridge process.
+ * - `running` rows are orphaned (no child process survives a restart):
+ *   swaps are failed rather than re-sent, everything else goes back to pending.
+ * - `pending` rows are queued in priority/age order.
+ */
+async function recoverCommands() {
+  const { data: orphaned } = await supabase
+    .from("agent_commands")
+    .select("id, agent_id, message")
+    .eq("status", "running");
+
+  for (const cmd of orphaned ?? []) {
+    if (parseSwapCommand(cmd.message)) {
+      console.log(`[queue] Orphaned swap ${cmd.id} marked failed (not retried)`);
+      await supabase
+        .from("agent_commands")
+        .update({ status: "failed", queue_position: null })
+        .eq("id", cmd.id);
+      await supabase.from("agent_responses").insert({
+        command_id: cmd.id,
+        content: `\n[Bridge] Bridge restarted mid-swap. Not retried automatically — check BaseScan before resubmitting.\n`,
+        is_final: true,
+      });
+      continue;
+    }
+
+    console.log(`[queue] Orphaned command ${cmd.id} on "${cmd.agent_id}" re-queued`);
+    await supabase
+      .from("agent_commands")
+      .update({ status: "pending" })
+      .eq("id", cmd.id);
+    await supabase.from("agent_responses").insert({
+      command_id: cmd.id,
+      content: `\n[Bridge] Bridge restarted — command re-queued.\n`,
+      is_final: false,
+    });
+  }
+
+  const { data: pending } = await supabase
+    .from("agent_commands")
+    .select("id, agent_id, message, priority, created_at")
+    .eq("status", "pending")
+    .order("priority", { ascending: false })
+    .order("created_at", { ascending: true });
+
+  if (pending && pending.length > 0) {
+    console.log(`[queue] Found ${pending.length} pending command(s) to queue`);
+    for (const cmd of pending) enqueueCommand(cmd as QueuedCommand);
+  } else {
+    console.log("[queue] No pending commands");
+  }
+}
@@ -0,0 +1,149 @@
+/**
+ * Soul Agent — Predictive Context Evaluation
+ *
+ * Replays agent_commands against a snapshot of agent_memory and reports,
+ * per trigger, how often predictions pre-staged the memories retrieval
+ * ended up using. Read-only — point SUPABASE_URL at a local Supabase
+ * (`supabase start`, then restore a dump) to evaluate production data
+ * without touching it.
+ *
+ * Usage:
+ *   npm run eval:predictive [-- --days 7] [-- --from <iso> --to <iso>]
+ *     [-- --interval 4] [-- --keyword-share 0.4] [-- --min-hour-entries 3]
+ *     [-- --lookahead 3] [-- --seq-gap 2] [-- --seq-min 2] [-- --preload 10]
+ *     [-- --sweep] [-- --json report.json]
+ *
+ * --sweep replays a grid of keyword-share × min-hour-entries values
+ * (the analyzeTemporalPatterns thresholds) and prints them side by side.
+ */
+
+import "dotenv/config";
+import * as fs from "fs";
+import {
+  DEFAULT_PREDICTIVE_THRESHOLDS,
+  buildGroundTruth,
+  loadEvalSnapshot,
+  replayPredictions,
+} from "../lib/soul/index.js";
+import type { EvalReport, PredictiveThresholds, TriggerStats } from "../lib/soul/index.js";
+
+function argValue(flag: string): string | undefined {
+  const i = process.argv.indexOf(flag);
+  return i === -1 ? undefined : process.argv[i + 1];
+}
+
+function numArg(flag: string): number | undefined {
+  const raw = argValue(flag);
+  if (raw === undefined) return undefined;
+  const n = Number(raw);
+  if (!Number.isFinite(n) || n < 0) {
+    console.error(`${flag} must be a non-negative number`);
+    process.exit(1);
+  }
+  return n;
+}
+
+function dateArg(flag: string): Date | undefined {
+  const raw = argValue(flag);
+  if (raw === undefined) return undefined;
+  const d = new Date(raw);
+  if (Number.isNaN(d.getTime())) {
+    console.error(`${flag} must be an ISO date`);
+    process.exit(1);
+  }
+  return d;
+}
+
+const pct = (n: number) => `${Math.round(n * 100)}%`.padStart(5);
+
+function printReport(report: EvalReport) {
+  console.log(`Window:    ${report.from} → ${report.to} (${report.runs} runs, every ${report.intervalHours}h)`);
+  console.log(
+    `Commands:  ${report.commands} (${report.truth.recorded} recorded context, ${report.truth.replayed} replayed retrieval)`
+  );
+  console.log(`Covered:   ${report.covered} had an active prediction for their agent\n`);
+
+  const triggers = Object.entries(report.byTrigger) as [string, TriggerStats][];
+  if (triggers.length === 0) {
+    console.log("No predictions generated — not enough history for these thresholds");
+    return;
+  }
+
+  console.log("trigger        preds  conf  prec  exposures  hit  preload-p  preload-r  intent  injected");
+  for (const [trigger, s] of triggers) {
+    console.log(
+      `${trigger.padEnd(14)} ${String(s.predictions).padStart(5)} ${pct(s.avgConfidence)} ${pct(s.precision)} ` +
+        `${String(s.exposures).padStart(10)} ${pct(s.hitRate)} ${pct(s.preloadPrecision).padStart(10)} ` +
+        `${pct(s.preloadRecall).padStart(10)} ${pct(s.intentRate).padStart(7)} ${pct(s.injected / Math.max(1, s.exposures)).padStart(9)}`
+    );
+  }
+  console.log(
+    "\nprec = predictions whose preload hit a command · hit = exposures with a preloaded memory retrieved" +
+      "\npreload-p/r = preloaded memories retrieved / of everything retrieved · intent = predicted keywords in the command"
+  );
+}
+
+async function main() {
+  const to = dateArg("--to") ?? new Date();
+  const from = dateArg("--from") ?? new Date(to.getTime() - (numArg("--days") ?? 7) * 24 * 60 * 60 * 1000);
+  if (from >= to) {
+    console.error("--from must be before --to");
+    process.exit(1);
+  }
+
+  const d = DEFAULT_PREDICTIVE_THRESHOLDS;
+  const thresholds: PredictiveThresholds = {
+    ...d,
+    keywordShare: numArg("--keyword-share") ?? d.keywordShare,
+    minHourEntries: numArg("--min-hour-entries") ?? d.minHourEntries,
+    hourLookahead: numArg("--lookahead") ?? d.hourLookahead,
+    sequenceMaxGapHours: numArg("--seq-gap") ?? d.sequenceMaxGapHours,
+    minSequenceCount: numArg("--seq-min") ?? d.minSequenceCount,
+    preloadLimit: numArg("--preload") ?? d.preloadLimit,
+  };
+  const intervalHours = numArg("--interval") ?? 4;
+  if (intervalHours <= 0) {
+    console.error("--interval must be positive");
+    process.exit(1);
+  }
+
+  console.log("=== Predictive context evaluation ===\n");
+  const snapshot = await loadEvalSnapshot(from, to, thresholds.lookbackDays);
+  console.log(`Snapshot:  ${snapshot.commands.length} commands, ${snapshot.memories.length} memories\n`);
+  const truth = buildGroundTruth(snapshot);
+
+  if (process.argv.includes("--sweep")) {
+    const reports: EvalReport[] = [];
+    console.log("keyword-share  min-entries  preds  prec   hit  preload-p  (time_of_day)");
+    for (const keywordShare of [0.3, 0.4, 0.5, 0.6]) {
+      for (const minHourEntries of [2, 3, 4, 5]) {
+        const report = replayPredictions(snapshot, truth, { ...thresholds, keywordShare, minHourEntries }, { intervalHours });
+        reports.push(report);
+        const s = report.byTrigger.time_of_day;
+        console.log(
+          `${String(keywordShare).padStart(13)}  ${String(minHourEntries).padStart(11)}  ` +
+            (s
+              ? `${String(s.predictions).padStart(5)} ${pct(s.precision)} ${pct(s.hitRate)} ${pct(s.preloadPrecision).padStart(10)}`
+              : "    0     -     -          -")
+        );
+      }
+    }
+    const out = argValue("--json");
+    if (out) fs.writeFileSync(out, JSON.stringify(reports, null, 2) + "\n");
+    return;
+  }
+
+  const report = replayPredictions(snapshot, truth, thresholds, { intervalHours });
+  printReport(report);
+
+  const out = argValue("--json");
+  if (out) {
+    fs.writeFileSync(out, JSON.stringify(report, null, 2) + "\n");
+    console.log(`\n✓ Report written to ${out}`);
+  }
+}
+
+main().catch((err) => {
+  console.error("Evaluation failed:", err);
+  process.exit(1);
+});
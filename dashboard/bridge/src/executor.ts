@@ -3,17 +3,37 @@ import { runAgentWithFallback } from "../lib/openclaw.js";
 import { createStreamer } from "./streamer.js";
 import { captureCommandOutcome } from "../lib/agent-memory.js";
 import { buildSoulContext } from "../lib/soul/index.js";
-import { parseSwapCommand, executeSwap, isSwapEnabled } from "../lib/swap-executor.js";
-import { isMemoryScanCommand, executeMemoryScan } from "../lib/oracle-memory-scan.js";
+import { findInterceptor, type CommandInterceptor } from "./interceptors/index.js";
 import { refreshSitrep } from "./heartbeat.js";
 import { TTLCache } from "../lib/ttl-cache.js";
+import { checkBudget, recordUsage } from "../lib/usage-ledger.js";
+import { enqueueCommand, releaseCommand, type QueuedCommand } from "./command-queue.js";
+import { counter, histogram, trackCache } from "../lib/metrics.js";
 import type { ChildProcess } from "child_process";
 
-/** Track running processes per agent (one at a time per agent) */
+/** Track running processes per command ID */
 export const running = new Map<string, ChildProcess>();
 
 /** Cache agent enabled status for 30s — avoids DB query on every command */
 const agentEnabledCache = new TTLCache<boolean>(30_000);
+trackCache("agent_enabled", agentEnabledCache);
+
+const commandsTotal = counter(
+  "bridge_commands_total",
+  "Commands handled by the executor, by agent and outcome (completed|failed|cancelled|held)",
+  ["agent", "status"]
+);
+const commandDuration = histogram(
+  "bridge_command_duration_seconds",
+  "Wall time from dispatch to exit for agent runs and interceptors",
+  ["agent", "status"]
+);
+
+/** How long an over-budget command with action "queue" waits before re-checking */
+const BUDGET_RECHECK_MS = 5 * 60_000;
+
+/** Commands already told they're waiting on budget, so the note is posted once */
+const heldForBudget = new Set<string>();
 
 async function isAgentEnabled(agentId: string): Promise<boolean> {
   return agentEnabledCache.getOrFetch(`enabled:${agentId}`, async () => {
@@ -32,25 +52,13 @@ async function isAgentEnabled(agentId: string): Promise<boolean> {
   });
 }
 
-export async function executeCommand(command: {
-  id: string;
-  agent_id: string;
-  message: string;
-}) {
+/**
+ * Run a single command. Called by the command queue once a slot is free —
+ * every exit path must call releaseCommand() so the next one can start.
+ */
+export async function executeCommand(command: QueuedCommand) {
   const { id, agent_id, message } = command;
 
-  // CONCURRENCY: Allow up to 4 concurrent commands per agent (96GB RAM)
-  const MAX_CONCURRENT = 4;
-  const currentRuns = [...running.entries()].filter(([_, child]) => child.exitCode === null).length;
-  const agentRuns = [...running.entries()].filter(([aid, child]) => aid === agent_id && child.exitCode === null).length;
-  
-  if (agentRuns >= MAX_CONCURRENT) {
-    console.log(`[executor] Agent "${agent_id}" has ${agentRuns} running commands (max ${MAX_CONCURRENT}), queueing command ${id}`);
-    return;
-  }
-  
-  console.log(`[executor] Concurrent: ${currentRuns} total, ${agentRuns} for ${agent_id} (max ${MAX_CONCURRENT})`);
-
   // Check if agent is enabled
   const enabled = await isAgentEnabled(agent_id);
   if (!enabled) {
@@ -69,163 +77,34 @@ export async function executeCommand(command: {
       is_final: true,
     });
 
+    commandsTotal.inc({ agent: agent_id, status: "cancelled" });
+    releaseCommand(agent_id, id);
     return;
   }
 
   console.log(`[executor] Executing command ${id} on agent "${agent_id}"`);
 
-  // ── Swap command interception ──────────────────────────────────
-  // If the message is a swap command (e.g. "swap 5 USDC to ETH"),
-  // execute it directly instead of spawning an agent.
-  const swapParams = parseSwapCommand(message);
-  if (swapParams && isSwapEnabled()) {
-    console.log(`[executor] Swap command detected: ${swapParams.amount} ${swapParams.fromToken} → ${swapParams.toToken}`);
-
-    await supabase
-      .from("agent_commands")
-      .update({ status: "running" })
-      .eq("id", id);
-
-    await supabase
-      .from("agent_sessions")
-      .upsert(
-        { agent_id, status: "busy", last_heartbeat: new Date().toISOString() },
-        { onConflict: "agent_id" }
-      );
-
-    const streamer = createStreamer(id);
-    streamer.start();
-
-    streamer.write(`\n🔄 **Executing swap:** ${swapParams.amount} ${swapParams.fromToken} → ${swapParams.toToken}\n\n`);
-    streamer.write(`⏳ Checking balances & getting quote from Aerodrome...\n\n`);
-
-    try {
-      const result = await executeSwap({
-        ...swapParams,
-        agentId: agent_id,
-        commandId: id,
-      });
-
-      if (result.success) {
-        streamer.write(`✅ **Swap executed successfully!**\n\n`);
-        streamer.write(`📊 **${result.amountIn} → ${result.amountOut}**\n\n`);
-        streamer.write(`🔗 [View on BaseScan](${result.explorerUrl})\n\n`);
-        if (result.approveTxHash) {
-          streamer.write(`🔐 Approval: [${result.approveTxHash.slice(0, 10)}...](https://basescan.org/tx/${result.approveTxHash})\n\n`);
-        }
-        streamer.write(`Transaction: \`${result.txHash}\`\n`);
-      } else {
-        streamer.write(`\n❌ **Swap failed**\n\n`);
-        streamer.write(`${result.error}\n`);
-      }
-
-      await streamer.end(result.success ? 0 : 1);
-
-      await supabase
-        .from("agent_commands")
-        .update({ status: result.success ? "completed" : "failed" })
-        .eq("id", id);
-    } catch (err) {
-      const msg = err instanceof Error ? err.message : String(err);
-      // Clean error for display
-      const cleanMsg = msg.length > 300 ? msg.slice(0, 300) + "..." : msg;
-      streamer.write(`\n❌ **Swap error**\n\n${cleanMsg}\n`);
-      await streamer.end(1);
-
-      await supabase
-        .from("agent_commands")
-        .update({ status: "failed" })
-        .eq("id", id);
-    }
-
-    // Reset session
-    await supabase
-      .from("agent_sessions")
-      .upsert(
-        { agent_id, status: "idle", last_heartbeat: new Date().toISOString() },
-        { onConflict: "agent_id" }
-      );
-
-    running.delete(agent_id);
-    pickNextCommand(agent_id);
+  // ── Interceptors ───────────────────────────────────────────
+  // Swaps, memory scans, status checks, etc. run directly instead of
+  // spawning an agent. See ./interceptors/ to add new ones.
+  const interceptor = findInterceptor(agent_id, message);
+  if (interceptor) {
+    await runInterceptor(interceptor, command);
     return;
   }
 
-  // ── Oracle memory-scan interception ────────────────────────────
-  // If oracle (or main delegating to oracle) sends a memory-scan
-  // command, execute it directly via the dashboard API.
-  if (
-    (agent_id === "oracle" || agent_id === "main") &&
-    isMemoryScanCommand(message)
-  ) {
-    console.log(`[executor] Memory-scan command detected for "${agent_id}"`);
-
-    await supabase
-      .from("agent_commands")
-      .update({ status: "running" })
-      .eq("id", id);
-
-    await supabase
-      .from("agent_sessions")
-      .upsert(
-        { agent_id, status: "busy", last_heartbeat: new Date().toISOString() },
-        { onConflict: "agent_id" }
-      );
-
-    const streamer = createStreamer(id);
-    streamer.start();
-
-    streamer.write(`\n🔍 **Oracle ERC-8004 Memory-Similarity Scan starting...**\n\n`);
-    streamer.write(`⏳ Scanning Base Mainnet for agents with memory/consciousness metadata...\n\n`);
-
-    try {
-      const result = await executeMemoryScan(message);
-
-      streamer.write(result.markdown);
-      await streamer.end(result.success ? 0 : 1);
-
-      await supabase
-        .from("agent_commands")
-        .update({ status: result.success ? "completed" : "failed" })
-        .eq("id", id);
-
-      // Capture to memory
-      captureCommandOutcome(
-        agent_id,
-        message,
-        result.markdown,
-        result.success ? 0 : 1
-      ).catch((err) =>
-        console.error(`[executor] Memory capture failed (non-fatal):`, err)
-      );
-    } catch (err) {
-      const msg = err instanceof Error ? err.message : String(err);
-      streamer.write(`\n❌ **Memory scan error**\n\n${msg}\n`);
-      await streamer.end(1);
-
-      await supabase
-        .from("agent_commands")
-        .update({ status: "failed" })
-        .eq("id", id);
-    }
-
-    // Reset session
-    await supabase
-      .from("agent_sessions")
-      .upsert(
-        { agent_id, status: "idle", last_heartbeat: new Date().toISOString() },
-        { onConflict: "agent_id" }
-      );
-
-    running.delete(agent_id);
-    pickNextCommand(agent_id);
+  // ── Daily budget ───────────────────────────────────────────
+  const budget = await checkBudget(agent_id);
+  if (!budget.ok) {
+    await holdOverBudget(command, budget.action, budget.reason);
     return;
   }
+  heldForBudget.delete(id);
 
   // Inject Soul-curated context into the dispatch message
   let enrichedMessage = message;
   try {
-    const soulCtx = await buildSoulContext(agent_id, message);
+    const soulCtx = await buildSoulContext(agent_id, message, id);
     if (soulCtx) {
       enrichedMessage = soulCtx + message;
       console.log(`[executor] Soul injected context for "${agent_id}" (${soulCtx.length} chars)`);
@@ -250,6 +129,7 @@ export async function executeCommand(command: {
 
   const streamer = createStreamer(id);
   streamer.start();
+  const startedAt = Date.now();
 
   // Accumulate raw output for memory capture
   let rawOutput = "";
@@ -286,8 +166,13 @@ export async function executeCommand(command: {
           batchTimer = setTimeout(flushTokenBatch, BATCH_MS);
         }
       },
+      onUsage: (usage) => {
+        recordUsage(agent_id, usage, { commandId: id }).catch((err) =>
+          console.error(`[executor] Usage record failed (non-fatal):`, err)
+        );
+      },
       onExit: async (code) => {
-        running.delete(agent_id);
+        running.delete(id);
 
         // Flush any remaining batched tokens before ending the stream
         flushTokenBatch();
@@ -313,17 +198,19 @@ export async function executeCommand(command: {
             { onConflict: "agent_id" }
           );
 
+        commandsTotal.inc({ agent: agent_id, status });
+        commandDuration.observe({ agent: agent_id, status }, (Date.now() - startedAt) / 1000);
         console.log(`[executor] Command ${id} finished: ${status}`);
 
         // Refresh SITREP so main always has latest context
         refreshSitrep("post-command");
 
-        // Check for queued commands for this agent
-        pickNextCommand(agent_id);
+        // Free the slot so the queue can dispatch the next command
+        releaseCommand(agent_id, id);
       },
     });
 
-    running.set(agent_id, child);
+    running.set(id, child);
   } catch (err) {
     const errorMsg = err instanceof Error ? err.message : String(err);
     console.error(`[executor] Failed to spawn agent:`, errorMsg);
@@ -336,22 +223,132 @@ export async function executeCommand(command: {
       .update({ status: "failed" })
       .eq("id", id);
 
-    running.delete(agent_id);
+    running.delete(id);
+    commandsTotal.inc({ agent: agent_id, status: "failed" });
+    releaseCommand(agent_id, id);
   }
 }
 
-/** Pick the next pending command for an agent */
-async function pickNextCommand(agentId: string) {
-  const { data } = await supabase
+/**
+ * Over-budget command: "refuse" cancels it with an explanation; "queue"
+ * leaves it pending, frees the slot and re-enqueues it after
+ * BUDGET_RECHECK_MS (it runs once the UTC day rolls over or the budget
+ * is raised).
+ */
+async function holdOverBudget(command: QueuedCommand, action: "refuse" | "queue", reason: string) {
+  const { id, agent_id } = command;
+
+  if (action === "refuse") {
+    console.log(`[executor] Agent "${agent_id}" over budget (${reason}). Cancelling command ${id}`);
+    heldForBudget.delete(id);
+
+    await supabase
+      .from("agent_commands")
+      .update({ status: "cancelled" })
+      .eq("id", id);
+
+    await supabase.from("agent_responses").insert({
+      command_id: id,
+      content: `\n[Bridge] Agent "${agent_id}" is over its daily budget: ${reason}. Raise the budget on /fleet or try again tomorrow (UTC).\n`,
+      is_final: true,
+    });
+
+    commandsTotal.inc({ agent: agent_id, status: "cancelled" });
+    releaseCommand(agent_id, id);
+    return;
+  }
+
+  if (!heldForBudget.has(id)) {
+    heldForBudget.add(id);
+    commandsTotal.inc({ agent: agent_id, status: "held" });
+    console.log(`[executor] Agent "${agent_id}" over budget (${reason}). Holding command ${id}`);
+    await supabase.from("agent_responses").insert({
+      command_id: id,
+      content: `\n[Bridge] Agent "${agent_id}" is over its daily budget: ${reason}. Command queued until budget is available.\n`,
+      is_final: false,
+    });
+  }
+
+  releaseCommand(agent_id, id);
+  setTimeout(async () => {
+    // Skip if it was cancelled from the dashboard while waiting
+    const { data } = await supabase
+      .from("agent_commands")
+      .select("status")
+      .eq("id", id)
+      .single();
+    if (data?.status !== "pending") {
+      heldForBudget.delete(id);
+      return;
+    }
+    enqueueCommand(command);
+  }, BUDGET_RECHECK_MS).unref();
+}
+
+/**
+ * Shared lifecycle for intercepted commands: mark running, stream the
+ * handler's output, record the outcome, reset the session, free the slot.
+ */
+async function runInterceptor(interceptor: CommandInterceptor, command: QueuedCommand) {
+  const { id, agent_id, message } = command;
+  console.log(`[executor] Command ${id} handled by interceptor "${interceptor.name}"`);
+
+  await supabase
     .from("agent_commands")
-    .select("*")
-    .eq("agent_id", agentId)
-    .eq("status", "pending")
-    .order("created_at", { ascending: true })
-    .limit(1)
-    .single();
-
-  if (data) {
-    executeCommand(data);
+    .update({ status: "running" })
+    .eq("id", id);
+
+  await supabase
+    .from("agent_sessions")
+    .upsert(
+      { agent_id, status: "busy", last_heartbeat: new Date().toISOString() },
+      { onConflict: "agent_id" }
+    );
+
+  const streamer = createStreamer(id);
+  streamer.start();
+  const startedAt = Date.now();
+
+  let success = false;
+  try {
+    const result = await interceptor.handle({
+      commandId: id,
+      agentId: agent_id,
+      message,
+      streamer,
+    });
+    success = result.success;
+
+    if (result.memory !== undefined) {
+      captureCommandOutcome(agent_id, message, result.memory, success ? 0 : 1).catch((err) =>
+        console.error(`[executor] Memory capture failed (non-fatal):`, err)
+      );
+    }
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    // Clean error for display
+    const cleanMsg = msg.length > 300 ? msg.slice(0, 300) + "..." : msg;
+    streamer.write(`\n❌ **${interceptor.name} error**\n\n${cleanMsg}\n`);
   }
+
+  await streamer.end(success ? 0 : 1);
+
+  const status = success ? "completed" : "failed";
+  await supabase
+    .from("agent_commands")
+    .update({ status })
+    .eq("id", id);
+
+  // Reset session
+  await supabase
+    .from("agent_sessions")
+    .upsert(
+      { agent_id, status: "idle", last_heartbeat: new Date().toISOString() },
+      { onConflict: "agent_id" }
+    );
+
+  commandsTotal.inc({ agent: agent_id, status });
+  commandDuration.observe({ agent: agent_id, status }, (Date.now() - startedAt) / 1000);
+  console.log(`[executor] Command ${id} finished: ${status} (${interceptor.name})`);
+  releaseCommand(agent_id, id);
 }
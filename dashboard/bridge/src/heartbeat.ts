@@ -3,7 +3,8 @@ import { execFile } from "child_process";
 import { supabase } from "../lib/supabase.js";
 import { maybeStartDream } from "../lib/soul/index.js";
 import { expireOldProposals } from "../lib/soul/dream-proposals.js";
-import { running } from "./executor.js";
+import { isAgentBusy } from "./command-queue.js";
+import { fleetAgentIds } from "../lib/agent-registry.js";
 
 const HEARTBEAT_INTERVAL_MS = 30_000; // 30 seconds
 let expireCheckCounter = 0;
@@ -11,12 +12,6 @@ let sitrepCounter = 0;
 let sitrepRunning = false;
 let timer: ReturnType<typeof setInterval> | null = null;
 
-/** All fleet agents whose sessions the bridge keeps alive */
-const FLEET_AGENTS = [
-  "main", "soul", "oracle", "sentinel", "briefing",
-  "alchemist", "web3dev", "akua", "basedintern", "midas",
-];
-
 /** Path to the briefing skill (pure bash — no LLM tokens) */
 const BRIEFING_SCRIPT = `${process.env.HOME}/.openclaw/workspace/skills/briefing/briefing.sh`;
 
@@ -64,10 +59,10 @@ async function sendHeartbeat() {
     console.error(`[heartbeat] Failed:`, error.message);
   }
 
-  // Keep all fleet agents alive — idle unless actively running a command
-  const rows = FLEET_AGENTS.map((id) => ({
+  // Keep all registered fleet agents alive — idle unless actively running a command
+  const rows = fleetAgentIds().map((id) => ({
     agent_id: id,
-    status: running.has(id) ? "busy" : "idle",
+    status: isAgentBusy(id) ? "busy" : "idle",
     hostname: host,
     last_heartbeat: now,
   }));
@@ -3,8 +3,24 @@ import { createServer } from "http";
 import { supabase } from "../lib/supabase.js";
 import { startHeartbeat, stopHeartbeat } from "./heartbeat.js";
 import { executeCommand } from "./executor.js";
+import { startCommandQueue, enqueueCommand, removeQueuedCommand, getQueueSnapshot, type QueuedCommand } from "./command-queue.js";
 import { subscribeToSwarms } from "./swarm-executor.js";
+import { startSwarmScheduler, stopSwarmScheduler } from "./swarm-scheduler.js";
 import { startIntentTracker } from "./intent-tracker.js";
+import { startTranscriptCompactor, stopTranscriptCompactor } from "./transcript-compactor.js";
+import {
+  startEmbeddingBackfill,
+  stopEmbeddingBackfill,
+  startContextFeedback,
+  startContradictionResolver,
+  startLucidReviewer,
+  startSoulPolicies,
+  stopSoulPolicies,
+  getDreamConsolidationConfig,
+} from "../lib/soul/index.js";
+import { listInterceptors } from "./interceptors/index.js";
+import { startAgentRegistry, stopAgentRegistry, fleetAgentIds } from "../lib/agent-registry.js";
+import { gauge, onCollect, renderMetrics, metricsSnapshot, trackChannelStatus } from "../lib/metrics.js";
 import * as fs from "fs";
 import * as path from "path";
 
@@ -20,10 +36,27 @@ console.log("");
 // Write PID file so the dashboard bridge-manager can detect us
 fs.writeFileSync(PID_FILE, String(process.pid), "utf-8");
 
-// Lightweight HTTP health endpoint (:3001/health)
+// Process + queue gauges, refreshed on every scrape
+const uptimeGauge = gauge("bridge_uptime_seconds", "Seconds since the bridge process started");
+const memoryGauge = gauge("bridge_process_memory_bytes", "Process memory by type (rss|heap_used|heap_total)", ["type"]);
+const queuedGauge = gauge("bridge_queue_commands", "Commands in the bridge queue by agent and state (queued|running)", ["agent", "state"]);
+onCollect(() => {
+  uptimeGauge.set({}, process.uptime());
+  const mem = process.memoryUsage();
+  memoryGauge.set({ type: "rss" }, mem.rss);
+  memoryGauge.set({ type: "heap_used" }, mem.heapUsed);
+  memoryGauge.set({ type: "heap_total" }, mem.heapTotal);
+  for (const [agent, counts] of Object.entries(getQueueSnapshot().agents)) {
+    queuedGauge.set({ agent, state: "queued" }, counts.queued);
+    queuedGauge.set({ agent, state: "running" }, counts.running);
+  }
+});
+
+// Lightweight HTTP health endpoint (:3001/health, /metrics, /interceptors, /soul/dream)
 const startedAt = new Date().toISOString();
 const healthServer = createServer((req, res) => {
-  if (req.url === "/health" || req.url === "/") {
+  const { pathname, searchParams } = new URL(req.url ?? "/", "http://localhost");
+  if (pathname === "/health" || pathname === "/") {
     res.writeHead(200, { "Content-Type": "application/json" });
     res.end(JSON.stringify({
       status: "ok",
@@ -32,6 +65,21 @@ const healthServer = createServer((req, res) => {
       uptime: process.uptime(),
       startedAt,
     }));
+  } else if (pathname === "/metrics") {
+    // Prometheus scrape target; ?format=json for the dashboard
+    if (searchParams.get("format") === "json") {
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ startedAt, metrics: metricsSnapshot() }));
+    } else {
+      res.writeHead(200, { "Content-Type": "text/plain; version=0.0.4; charset=utf-8" });
+      res.end(renderMetrics());
+    }
+  } else if (pathname === "/interceptors") {
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ interceptors: listInterceptors() }));
+  } else if (pathname === "/soul/dream") {
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ consolidation: getDreamConsolidationConfig() }));
   } else {
     res.writeHead(404);
     res.end();
@@ -41,6 +89,12 @@ healthServer.listen(HEALTH_PORT, () => {
   console.log(`[health] Listening on http://localhost:${HEALTH_PORT}/health`);
 });
 
+// Load the agent registry before anything dispatches or heartbeats agents
+await startAgentRegistry();
+
+// Per-agent Soul policies (memory budget, kinds, insights) — hot-reloaded
+await startSoulPolicies();
+
 // Start heartbeat
 startHeartbeat();
 
@@ -57,58 +111,78 @@ const channel = supabase
     },
     (payload) => {
       console.log(`[bridge] New command received: ${payload.new.id}`);
-      executeCommand(payload.new as { id: string; agent_id: string; message: string });
+      enqueueCommand(payload.new as QueuedCommand);
+    }
+  )
+  .on(
+    "postgres_changes",
+    {
+      event: "UPDATE",
+      schema: "public",
+      table: "agent_commands",
+      filter: "status=eq.cancelled",
+    },
+    (payload) => {
+      removeQueuedCommand(payload.new.id);
     }
   )
   .subscribe((status) => {
+    trackChannelStatus("bridge-commands", status);
     console.log(`[bridge] Realtime subscription: ${status}`);
   });
 
-// Also pick up any pending commands that were created while bridge was offline
-async function processPendingCommands() {
-  const { data } = await supabase
-    .from("agent_commands")
-    .select("*")
-    .eq("status", "pending")
-    .order("created_at", { ascending: true });
-
-  if (data && data.length > 0) {
-    console.log(`[bridge] Found ${data.length} pending command(s) to process`);
-    for (const cmd of data) {
-      await executeCommand(cmd);
-    }
-  } else {
-    console.log("[bridge] No pending commands");
-  }
-}
-
-processPendingCommands();
+// Start the command queue — also recovers pending commands created while the
+// bridge was offline and running commands orphaned by a crash
+startCommandQueue(executeCommand);
 
 // Subscribe to swarm runs
 const swarmChannel = subscribeToSwarms();
 
+// Launch scheduled swarm runs (cron schedules in swarm_schedules)
+startSwarmScheduler();
+
 // Start intent session tracker
 const intentChannel = startIntentTracker();
 
-console.log("[bridge] Listening for commands, swarm runs & intent sessions...");
+// Fold finished commands' output chunks into command_transcripts
+startTranscriptCompactor();
+
+// Embed Soul memories missed at write time (Ollama down, new model, older rows)
+startEmbeddingBackfill();
+
+// Apply thumbs up/down on injected context to associations + predictions
+const feedbackChannel = startContextFeedback();
+
+// Archive the losing memory when a contradiction is resolved on the dashboard
+const contradictionChannel = startContradictionResolver();
+
+// Execute lucid dream proposals approved on the dashboard, and undo them on request
+const lucidReviewChannel = startLucidReviewer();
+
+console.log("[bridge] Listening for commands, swarm runs, swarm schedules & intent sessions...");
 console.log("[bridge] Press Ctrl+C to stop");
 
 // Graceful shutdown
 process.on("SIGINT", async () => {
   console.log("\n[bridge] Shutting down...");
   stopHeartbeat();
+  stopSwarmScheduler();
+  stopAgentRegistry();
+  stopSoulPolicies();
+  stopTranscriptCompactor();
+  stopEmbeddingBackfill();
   healthServer.close();
   try { fs.unlinkSync(PID_FILE); } catch { /* ignore */ }
   supabase.removeChannel(channel);
   supabase.removeChannel(swarmChannel);
   supabase.removeChannel(intentChannel);
+  supabase.removeChannel(feedbackChannel);
+  supabase.removeChannel(contradictionChannel);
+  supabase.removeChannel(lucidReviewChannel);
 
   // Mark bridge + all fleet agents as offline
   const now = new Date().toISOString();
-  const offlineRows = [
-    "bridge", "main", "soul", "oracle", "sentinel", "briefing",
-    "alchemist", "web3dev", "akua", "basedintern", "midas",
-  ].map((id) => ({ agent_id: id, status: "offline", last_heartbeat: now }));
+  const offlineRows = ["bridge", ...fleetAgentIds()].map((id) => ({ agent_id: id, status: "offline", last_heartbeat: now }));
 
   await supabase
     .from("agent_sessions")
@@ -120,17 +194,22 @@ process.on("SIGINT", async () => {
 process.on("SIGTERM", async () => {
   console.log("\n[bridge] SIGTERM received, shutting down...");
   stopHeartbeat();
+  stopSwarmScheduler();
+  stopAgentRegistry();
+  stopSoulPolicies();
+  stopTranscriptCompactor();
+  stopEmbeddingBackfill();
   healthServer.close();
   try { fs.unlinkSync(PID_FILE); } catch { /* ignore */ }
   supabase.removeChannel(channel);
   supabase.removeChannel(swarmChannel);
   supabase.removeChannel(intentChannel);
+  supabase.removeChannel(feedbackChannel);
+  supabase.removeChannel(contradictionChannel);
+  supabase.removeChannel(lucidReviewChannel);
 
   const now = new Date().toISOString();
-  const offlineRows = [
-    "bridge", "main", "soul", "oracle", "sentinel", "briefing",
-    "alchemist", "web3dev", "akua", "basedintern", "midas",
-  ].map((id) => ({ agent_id: id, status: "offline", last_heartbeat: now }));
+  const offlineRows = ["bridge", ...fleetAgentIds()].map((id) => ({ agent_id: id, status: "offline", last_heartbeat: now }));
 
   await supabase
     .from("agent_sessions")
@@ -1,6 +1,8 @@
 import { supabase } from "../lib/supabase.js";
 import { running } from "./executor.js";
 import { CursorClient } from "../lib/cursor-client.js";
+import { readCommandOutput } from "./transcript-compactor.js";
+import { trackChannelStatus } from "../lib/metrics.js";
 
 // ============================================================
 // Intent Session Tracker
@@ -62,6 +64,7 @@ export function startIntentTracker() {
       }
     )
     .subscribe((status) => {
+      trackChannelStatus("intent-tracker", status);
       if (status === "SUBSCRIBED") {
         console.log("[intent-tracker] Listening for command completions + timeouts...");
       }
@@ -95,7 +98,7 @@ async function maybeStartTimeout(commandId: string, agentId: string) {
     console.log(`[intent-tracker] Command ${commandId} TIMED OUT after ${timeoutMs / 1000}s`);
 
     // Kill the child process
-    const child = running.get(agentId);
+    const child = running.get(commandId);
     if (child) {
       try {
         child.kill("SIGTERM");
@@ -103,7 +106,7 @@ async function maybeStartTimeout(commandId: string, agentId: string) {
           try { child.kill("SIGKILL"); } catch { /* already dead */ }
         }, 5000);
       } catch { /* already dead */ }
-      running.delete(agentId);
+      running.delete(commandId);
     }
 
     // Mark command as timeout
@@ -194,13 +197,7 @@ async function handleCommandTimeout(commandId: string) {
     // Get partial output from timed-out commands
     let failureContext = `The following commands timed out after ${session.timeout_seconds || 120}s:\n`;
     for (const cmd of timedOutCmds) {
-      const { data: responses } = await supabase
-        .from("agent_responses")
-        .select("content")
-        .eq("command_id", cmd.id)
-        .order("created_at", { ascending: true });
-
-      const partialOutput = responses?.map((r: { content: string }) => r.content).join("") || "(no output)";
+      const partialOutput = (await readCommandOutput(cmd.id)) || "(no output)";
       failureContext += `\n- Agent "${cmd.agent_id}": "${cmd.message}"\n  Partial output: ${partialOutput.slice(0, 500)}\n`;
     }
 
@@ -0,0 +1,46 @@
+import { supabase } from "../../lib/supabase.js";
+import { getQueueSnapshot } from "../command-queue.js";
+import type { CommandInterceptor } from "./registry.js";
+
+/** Exact "fleet status" command (optionally prefixed with "/") */
+const FLEET_STATUS_RE = /^\s*\/?fleet[\s-]?status\??\s*$/i;
+
+/**
+ * Fleet status snapshot (sessions, enabled state, queue depth)
+ * answered from the bridge without an LLM round-trip.
+ */
+export const fleetStatusInterceptor: CommandInterceptor = {
+  name: "fleet-status",
+  description: "Report agent sessions, enabled state and command queue depth (\"fleet status\")",
+  agents: ["main"],
+  match: (message) => FLEET_STATUS_RE.test(message),
+  async handle({ streamer }) {
+    const [sessionsRes, controlsRes] = await Promise.all([
+      supabase.from("agent_sessions").select("agent_id, status, last_heartbeat").order("agent_id"),
+      supabase.from("agent_controls").select("agent_id, enabled"),
+    ]);
+
+    if (sessionsRes.error) {
+      streamer.write(`\n❌ **Fleet status unavailable**\n\n${sessionsRes.error.message}\n`);
+      return { success: false };
+    }
+
+    const disabled = new Set(
+      (controlsRes.data ?? []).filter((c) => c.enabled === false).map((c) => c.agent_id)
+    );
+    const queue = getQueueSnapshot();
+
+    streamer.write(`\n🛰️ **Fleet status** — ${queue.running}/${queue.maxGlobal} commands running\n\n`);
+    streamer.write(`| Agent | Session | Enabled | Running | Queued | Last heartbeat |\n`);
+    streamer.write(`|---|---|---|---|---|---|\n`);
+    for (const s of sessionsRes.data ?? []) {
+      const q = queue.agents[s.agent_id];
+      const beat = new Date(s.last_heartbeat).toISOString().slice(11, 19);
+      streamer.write(
+        `| ${s.agent_id} | ${s.status} | ${disabled.has(s.agent_id) ? "no" : "yes"} | ${q?.running ?? 0} | ${q?.queued ?? 0} | ${beat} |\n`
+      );
+    }
+
+    return { success: true };
+  },
+};
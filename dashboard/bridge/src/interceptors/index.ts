@@ -0,0 +1,12 @@
+import { registerInterceptor } from "./registry.js";
+import { swapInterceptor } from "./swap.js";
+import { memoryScanInterceptor } from "./memory-scan.js";
+import { fleetStatusInterceptor } from "./fleet-status.js";
+
+export { findInterceptor, listInterceptors, registerInterceptor } from "./registry.js";
+export type { CommandInterceptor, InterceptorContext, InterceptorResult, InterceptorInfo } from "./registry.js";
+
+// Built-in interceptors — order matters, first match wins
+registerInterceptor(swapInterceptor);
+registerInterceptor(memoryScanInterceptor);
+registerInterceptor(fleetStatusInterceptor);
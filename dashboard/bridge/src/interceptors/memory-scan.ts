@@ -0,0 +1,24 @@
+import { isMemoryScanCommand, executeMemoryScan } from "../../lib/oracle-memory-scan.js";
+import type { CommandInterceptor } from "./registry.js";
+
+/**
+ * Oracle ERC-8004 memory-similarity scans, run directly via the
+ * dashboard API when oracle (or main delegating to oracle) asks.
+ */
+export const memoryScanInterceptor: CommandInterceptor = {
+  name: "memory-scan",
+  description: "Scan Base Mainnet for ERC-8004 agents with memory/consciousness metadata",
+  agents: ["oracle", "main"],
+  match: isMemoryScanCommand,
+  async handle({ agentId, message, streamer }) {
+    console.log(`[executor] Memory-scan command detected for "${agentId}"`);
+
+    streamer.write(`\n🔍 **Oracle ERC-8004 Memory-Similarity Scan starting...**\n\n`);
+    streamer.write(`⏳ Scanning Base Mainnet for agents with memory/consciousness metadata...\n\n`);
+
+    const result = await executeMemoryScan(message);
+    streamer.write(result.markdown);
+
+    return { success: result.success, memory: result.markdown };
+  },
+};
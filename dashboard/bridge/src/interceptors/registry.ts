@@ -0,0 +1,74 @@
+import type { Streamer } from "../streamer.js";
+
+// ============================================================
+// Command Interceptor Registry
+// Direct-execution handlers that answer a command without spawning
+// an OpenClaw agent (swaps, scans, status checks). The executor owns
+// the shared lifecycle — status rows, session, streamer, memory capture
+// and queue release — so a module only has to match and handle.
+// ============================================================
+
+export interface InterceptorContext {
+  commandId: string;
+  agentId: string;
+  message: string;
+  /** Already started — write output, the executor ends it */
+  streamer: Streamer;
+}
+
+export interface InterceptorResult {
+  success: boolean;
+  /** Output to capture into agent memory (omit to skip capture) */
+  memory?: string;
+}
+
+export interface CommandInterceptor {
+  /** Unique name, shown in logs and /api/bridge/status */
+  name: string;
+  description: string;
+  /** Agents allowed to trigger this interceptor (omit for any agent) */
+  agents?: string[];
+  /** Whether a message is meant for this interceptor */
+  match: (message: string) => boolean;
+  /** Runtime gate checked after a match (e.g. feature flags, env config) */
+  enabled?: () => boolean;
+  handle: (ctx: InterceptorContext) => Promise<InterceptorResult>;
+}
+
+/** Public description of a registered interceptor */
+export interface InterceptorInfo {
+  name: string;
+  description: string;
+  agents: string[] | null;
+  enabled: boolean;
+}
+
+/** Registered interceptors, checked in registration order */
+const interceptors = new Map<string, CommandInterceptor>();
+
+export function registerInterceptor(interceptor: CommandInterceptor) {
+  if (interceptors.has(interceptor.name)) {
+    throw new Error(`Interceptor "${interceptor.name}" is already registered`);
+  }
+  interceptors.set(interceptor.name, interceptor);
+}
+
+/** First interceptor that matches this agent + message, if any */
+export function findInterceptor(agentId: string, message: string): CommandInterceptor | null {
+  for (const interceptor of interceptors.values()) {
+    if (interceptor.agents && !interceptor.agents.includes(agentId)) continue;
+    if (!interceptor.match(message)) continue;
+    if (interceptor.enabled && !interceptor.enabled()) continue;
+    return interceptor;
+  }
+  return null;
+}
+
+export function listInterceptors(): InterceptorInfo[] {
+  return [...interceptors.values()].map((i) => ({
+    name: i.name,
+    description: i.description,
+    agents: i.agents ?? null,
+    enabled: i.enabled ? i.enabled() : true,
+  }));
+}
@@ -0,0 +1,41 @@
+import { parseSwapCommand, executeSwap, isSwapEnabled } from "../../lib/swap-executor.js";
+import type { CommandInterceptor } from "./registry.js";
+
+/**
+ * On-chain swaps (e.g. "swap 5 USDC to ETH") executed directly via
+ * Aerodrome instead of spawning an agent.
+ */
+export const swapInterceptor: CommandInterceptor = {
+  name: "swap",
+  description: "Execute token swaps on Base via Aerodrome (e.g. \"swap 5 USDC to ETH\")",
+  match: (message) => parseSwapCommand(message) !== null,
+  enabled: isSwapEnabled,
+  async handle({ commandId, agentId, message, streamer }) {
+    const swapParams = parseSwapCommand(message)!;
+    console.log(`[executor] Swap command detected: ${swapParams.amount} ${swapParams.fromToken} → ${swapParams.toToken}`);
+
+    streamer.write(`\n🔄 **Executing swap:** ${swapParams.amount} ${swapParams.fromToken} → ${swapParams.toToken}\n\n`);
+    streamer.write(`⏳ Checking balances & getting quote from Aerodrome...\n\n`);
+
+    const result = await executeSwap({
+      ...swapParams,
+      agentId,
+      commandId,
+    });
+
+    if (result.success) {
+      streamer.write(`✅ **Swap executed successfully!**\n\n`);
+      streamer.write(`📊 **${result.amountIn} → ${result.amountOut}**\n\n`);
+      streamer.write(`🔗 [View on BaseScan](${result.explorerUrl})\n\n`);
+      if (result.approveTxHash) {
+        streamer.write(`🔐 Approval: [${result.approveTxHash.slice(0, 10)}...](https://basescan.org/tx/${result.approveTxHash})\n\n`);
+      }
+      streamer.write(`Transaction: \`${result.txHash}\`\n`);
+    } else {
+      streamer.write(`\n❌ **Swap failed**\n\n`);
+      streamer.write(`${result.error}\n`);
+    }
+
+    return { success: result.success };
+  },
+};
@@ -0,0 +1,59 @@
+/**
+ * Soul Agent — Memory Export
+ *
+ * Writes an agent's memories, associations, insights, crystals and
+ * decay state to a bundle directory (JSON lines + manifest.json).
+ * With --verify-anchors, anchored memories are checked against the
+ * CIDs recorded on-chain and the result is stored in the manifest.
+ *
+ * Usage:
+ *   npm run memory:export -- --agent soul [--out bundles/soul] [--include-shared] [--verify-anchors]
+ */
+
+import "dotenv/config";
+import { exportMemoryBundle, writeBundle } from "../lib/memory-bundle.js";
+
+function argValue(flag: string): string | undefined {
+  const i = process.argv.indexOf(flag);
+  return i === -1 ? undefined : process.argv[i + 1];
+}
+
+async function main() {
+  const agentId = argValue("--agent");
+  if (!agentId) {
+    console.error("Usage: npm run memory:export -- --agent <id> [--out <dir>] [--include-shared] [--verify-anchors]");
+    process.exit(1);
+  }
+  const out = argValue("--out") ?? `bundles/${agentId}-${new Date().toISOString().slice(0, 10)}`;
+
+  console.log(`=== Memory export (${agentId}) ===\n`);
+  const bundle = await exportMemoryBundle(agentId, {
+    includeShared: process.argv.includes("--include-shared"),
+    verifyAnchors: process.argv.includes("--verify-anchors"),
+  });
+  writeBundle(out, bundle);
+
+  for (const [file, count] of Object.entries(bundle.manifest.counts)) {
+    console.log(`${file.padEnd(13)} ${count}`);
+  }
+
+  const anchors = bundle.manifest.anchors;
+  if (anchors) {
+    if (anchors.skipped) {
+      console.log(`\nAnchors: not verified (${anchors.skipped})`);
+    } else {
+      console.log(`\nAnchors: ${anchors.verified}/${anchors.checked} verified on-chain`);
+      for (const e of anchors.entries.filter((e) => e.status !== "verified")) {
+        console.log(`  ✗ ${e.memory_id} ${e.cid ?? "(no cid)"} — ${e.status}`);
+      }
+    }
+  }
+
+  console.log(`\n✓ Bundle written to ${out}`);
+  if (anchors && anchors.failed > 0) process.exit(2);
+}
+
+main().catch((err) => {
+  console.error("Export failed:", err);
+  process.exit(1);
+});
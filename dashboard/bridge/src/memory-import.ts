@@ -0,0 +1,61 @@
+/**
+ * Soul Agent — Memory Import
+ *
+ * Loads a bundle written by memory:export. IDs are regenerated, rows
+ * that already exist are skipped, and rows that exist with different
+ * state are listed as conflicts (the existing row wins). Pass --target
+ * to clone the bundle's agent into another agent.
+ *
+ * Imported memories have no embeddings — run backfill:embeddings after.
+ *
+ * Usage:
+ *   npm run memory:import -- --bundle bundles/soul [--target soul-2] [--dry-run]
+ */
+
+import "dotenv/config";
+import { importMemoryBundle, readBundle } from "../lib/memory-bundle.js";
+
+function argValue(flag: string): string | undefined {
+  const i = process.argv.indexOf(flag);
+  return i === -1 ? undefined : process.argv[i + 1];
+}
+
+async function main() {
+  const dir = argValue("--bundle");
+  if (!dir) {
+    console.error("Usage: npm run memory:import -- --bundle <dir> [--target <agent>] [--dry-run]");
+    process.exit(1);
+  }
+
+  const bundle = readBundle(dir);
+  const report = await importMemoryBundle(bundle, {
+    targetAgentId: argValue("--target"),
+    dryRun: process.argv.includes("--dry-run"),
+  });
+
+  console.log(
+    `=== Memory import ${report.source_agent_id} → ${report.target_agent_id}${report.dry_run ? " (dry run)" : ""} ===\n`
+  );
+  console.log(`${"".padEnd(13)} inserted  duplicate  skipped`);
+  for (const file of Object.keys(report.inserted) as (keyof typeof report.inserted)[]) {
+    console.log(
+      `${file.padEnd(13)} ${String(report.inserted[file]).padStart(8)}  ${String(report.duplicates[file]).padStart(9)}  ${String(report.skipped[file]).padStart(7)}`
+    );
+  }
+
+  if (report.conflicts.length > 0) {
+    console.log(`\nConflicts (${report.conflicts.length}) — existing rows kept:`);
+    for (const c of report.conflicts) {
+      console.log(`  ${c.file}: ${c.source_id} → ${c.existing_id} — ${c.reason}`);
+    }
+  }
+
+  if (!report.dry_run && report.inserted.memories > 0) {
+    console.log("\nRun `npm run backfill:embeddings` to embed the imported memories");
+  }
+}
+
+main().catch((err) => {
+  console.error("Import failed:", err);
+  process.exit(1);
+});
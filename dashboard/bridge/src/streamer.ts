@@ -1,9 +1,23 @@
 import { supabase } from "../lib/supabase.js";
+import { scheduleCompaction } from "./transcript-compactor.js";
+import { counter, histogram } from "../lib/metrics.js";
 
 const CHUNK_SIZE = 80;            // chars per chunk — faster flushing
 const FLUSH_INTERVAL_MS = 40;     // flush every 40ms for 2x smoother streaming
 const FIRST_FLUSH_MS = 15;        // first chunk fires in 15ms
 
+const flushLatency = histogram(
+  "bridge_streamer_flush_seconds",
+  "Time to write one output chunk to agent_responses",
+  [],
+  [0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5]
+);
+const flushFailures = counter(
+  "bridge_streamer_flush_failures_total",
+  "Failed writes to agent_responses by kind (chunk = re-queued, tail/final = lost)",
+  ["kind"]
+);
+
 /**
  * Creates a buffered streamer that writes output chunks to agent_responses.
  * Buffers small writes and flushes periodically to avoid excessive DB writes.
@@ -13,6 +27,11 @@ const FIRST_FLUSH_MS = 15;        // first chunk fires in 15ms
  *  - Subsequent flushes every 80ms or when buffer hits 160 chars
  *  - Concurrent-flush guard with retry (no lost chunks)
  *  - Non-blocking flushes (fire-and-forget with error logging)
+ *
+ * Chunks are numbered by the database (agent_responses.seq) in insert order,
+ * so end() waits for an in-flight flush before writing the tail and the final
+ * marker. Once the command is done its chunks are queued for compaction into
+ * command_transcripts.
  */
 export function createStreamer(commandId: string) {
   let buffer = "";
@@ -35,12 +54,15 @@ export function createStreamer(commandId: string) {
     const content = buffer;
     buffer = "";
 
+    const stopTimer = flushLatency.startTimer();
     try {
       const { error } = await supabase
         .from("agent_responses")
         .insert({ command_id: commandId, content, is_final: false });
+      stopTimer();
 
       if (error) {
+        flushFailures.inc({ kind: "chunk" });
         console.error(`[streamer] Failed to write chunk:`, error.message);
         // Re-queue failed content so it's not lost
         buffer = content + buffer;
@@ -84,13 +106,24 @@ export function createStreamer(commandId: string) {
       timer = null;
     }
 
+    // Let an in-flight flush (and its retry) land first so seq order matches output order
+    while (flushing) {
+      await new Promise(r => setTimeout(r, 5));
+    }
+
     // Flush remaining buffer
     if (buffer.length > 0) {
       const content = buffer;
       buffer = "";
-      await supabase
+      const stopTimer = flushLatency.startTimer();
+      const { error: tailError } = await supabase
         .from("agent_responses")
         .insert({ command_id: commandId, content, is_final: false });
+      stopTimer();
+      if (tailError) {
+        flushFailures.inc({ kind: "tail" });
+        console.error(`[streamer] Failed to write last chunk:`, tailError.message);
+      }
     }
 
     // Small delay to ensure last chunk is received by realtime subscribers
@@ -106,9 +139,15 @@ export function createStreamer(commandId: string) {
       });
 
     if (error) {
+      flushFailures.inc({ kind: "final" });
       console.error(`[streamer] Failed to write final chunk:`, error.message);
+      return;
     }
+
+    scheduleCompaction(commandId);
   }
 
   return { start, write, end };
 }
+
+export type Streamer = ReturnType<typeof createStreamer>;
@@ -1,21 +1,34 @@
 import { supabase } from "../lib/supabase.js";
 import { runAgentWithFallback } from "../lib/openclaw.js";
+import { checkBudget, recordUsage } from "../lib/usage-ledger.js";
+import { counter, trackChannelStatus } from "../lib/metrics.js";
+import {
+  validateDag,
+  validateTaskPolicies,
+  normalizeDependsOn,
+  renderTaskMessage,
+  unmetCondition,
+  type TaskCondition,
+} from "../lib/swarm-dag.js";
 import type { ChildProcess } from "child_process";
 
 // ============================================================
 // Swarm Executor -- handles swarm_runs orchestration
 // Optimizations:
 // - Cancellation-aware: kills child processes on cancel
-// - Agent-enabled check before spawning
+// - Agent-enabled and daily budget checks before spawning
 // - Error resilience: individual task failures don't crash the run
 // - Output buffer dedup to reduce DB writes
+// - Per-task retry with backoff, fallback agents, `when` conditions
+// - Resume: interrupted/failed/cancelled runs continue from completed tasks
 // ============================================================
 
 interface SwarmManifestTask {
   id: string;
   agent: string;
   message: string;
-  depends_on?: string;
+  /** Upstream task id(s). A single string is accepted for older manifests. */
+  depends_on?: string | string[];
   timeout?: number;
   /** Task type: "openclaw" (default) or "intent" (uses Cursor API to generate commands first) */
   type?: "openclaw" | "intent";
@@ -23,10 +36,20 @@ interface SwarmManifestTask {
   repo?: string;
   /** For intent tasks: auto-execute generated commands */
   auto_execute?: boolean;
+  /** Total attempts (including the first); backoff is seconds before the first retry, doubling after */
+  retry?: { attempts: number; backoff?: number };
+  /** Overrides the run-level on_failure for this task */
+  on_failure?: "stop" | "continue" | "fallback_agent";
+  /** Agent that takes over once retries are exhausted */
+  fallback_agent?: string;
+  /** Pipeline/dag: run only when every condition holds, otherwise skip */
+  when?: TaskCondition | TaskCondition[];
 }
 
+type TaskResult = { output: string; exitCode: number | null };
+
 interface SwarmManifest {
-  mode: "parallel" | "pipeline" | "collaborative";
+  mode: "parallel" | "pipeline" | "collaborative" | "dag";
   tasks?: SwarmManifestTask[];
   task?: string;
   agents?: string[];
@@ -51,10 +74,22 @@ interface SwarmTaskRow {
   message: string;
   status: string;
   output: string;
+  exit_code?: number | null;
+  attempts?: number;
+  /** Original agent when the task was rerouted to its fallback_agent */
+  fallback_from?: string | null;
+}
+
+/** Task rows for a run, plus results carried over from a previous execution */
+interface PreparedTasks {
+  rows: SwarmTaskRow[];
+  completed: Map<string, TaskResult>;
 }
 
 const MAX_CONCURRENT = 3;
 const OUTPUT_FLUSH_MS = 800;
+/** Seconds before the first retry when a task's retry policy omits backoff */
+const DEFAULT_RETRY_BACKOFF_S = 5;
 
 /** Track active swarm run IDs to prevent duplicate execution */
 const activeSwarms = new Set<string>();
@@ -62,7 +97,7 @@ const activeSwarms = new Set<string>();
 /** Track child processes per run so they can be killed on cancel */
 const runChildren = new Map<string, Set<ChildProcess>>();
 
-/** Listen for new swarm_runs inserts with status=pending */
+/** Listen for new swarm_runs inserts with status=pending, and runs put back to pending for resume */
 export function subscribeToSwarms() {
   const channel = supabase
     .channel("bridge-swarms")
@@ -80,6 +115,20 @@ export function subscribeToSwarms() {
         processSwarmRun(run);
       }
     )
+    .on(
+      "postgres_changes",
+      {
+        event: "UPDATE",
+        schema: "public",
+        table: "swarm_runs",
+        filter: "status=eq.pending",
+      },
+      (payload) => {
+        const run = payload.new as SwarmRun;
+        console.log(`[swarm] Resume requested for run ${run.id} (${run.name})`);
+        processSwarmRun(run);
+      }
+    )
     .on(
       "postgres_changes",
       {
@@ -94,15 +143,50 @@ export function subscribeToSwarms() {
       }
     )
     .subscribe((status) => {
+      trackChannelStatus("bridge-swarms", status);
       console.log(`[swarm] Realtime subscription: ${status}`);
     });
 
-  // Also pick up any pending swarm runs on startup
-  processPendingSwarms();
+  // Also pick up any pending or interrupted swarm runs on startup
+  recoverInterruptedSwarms().then(processPendingSwarms);
 
   return channel;
 }
 
+/**
+ * Runs left `running` by a previous bridge process have no live children.
+ * Mark their in-flight tasks interrupted and resume each run from its
+ * completed tasks.
+ */
+async function recoverInterruptedSwarms() {
+  const { data: runs } = await supabase
+    .from("swarm_runs")
+    .select("*")
+    .eq("status", "running")
+    .order("created_at", { ascending: true });
+
+  if (!runs || runs.length === 0) return;
+  console.log(`[swarm] Found ${runs.length} interrupted swarm run(s) to resume`);
+
+  for (const run of runs) {
+    const { data: inFlight } = await supabase
+      .from("swarm_tasks")
+      .select("id, output")
+      .eq("swarm_id", run.id)
+      .eq("status", "running");
+
+    for (const task of inFlight ?? []) {
+      await supabase.from("swarm_tasks").update({
+        status: "interrupted",
+        output: `${task.output ?? ""}\n[Bridge] Interrupted by bridge restart.\n`,
+        completed_at: new Date().toISOString(),
+      }).eq("id", task.id);
+    }
+
+    processSwarmRun(run as SwarmRun);
+  }
+}
+
 async function processPendingSwarms() {
   const { data } = await supabase
     .from("swarm_runs")
@@ -133,6 +217,12 @@ async function processSwarmRun(run: SwarmRun) {
     const manifest = run.manifest;
     console.log(`[swarm] Executing run ${run.id}: mode=${manifest.mode}, name="${run.name}"`);
 
+    // DAG manifests are validated (policies included) by executeDag
+    if (manifest.tasks && manifest.mode !== "dag") {
+      const errors = validateTaskPolicies(manifest.tasks, manifest.mode);
+      if (errors.length > 0) throw new Error(`Invalid task policy: ${errors.join("; ")}`);
+    }
+
     switch (manifest.mode) {
       case "parallel":
         await executeParallel(run.id, manifest);
@@ -143,6 +233,9 @@ async function processSwarmRun(run: SwarmRun) {
       case "collaborative":
         await executeCollaborative(run.id, manifest);
         break;
+      case "dag":
+        await executeDag(run.id, manifest);
+        break;
       default:
         throw new Error(`Unknown swarm mode: ${manifest.mode}`);
     }
@@ -164,32 +257,28 @@ async function executeParallel(runId: string, manifest: SwarmManifest) {
   const tasks = manifest.tasks ?? [];
   if (tasks.length === 0) throw new Error("No tasks defined in manifest");
 
-  const taskRows = await createTaskRows(runId, tasks);
+  const { rows: taskRows, completed } = await prepareTaskRows(runId, tasks);
   if (await isCancelled(runId)) return;
 
-  const results: Map<string, { output: string; exitCode: number | null }> = new Map();
-  const chunks = chunkArray(taskRows, MAX_CONCURRENT);
+  const results: Map<string, TaskResult> = new Map(completed);
+  const chunks = chunkArray(taskRows.filter((r) => !completed.has(r.task_id)), MAX_CONCURRENT);
 
   for (const chunk of chunks) {
     if (await isCancelled(runId)) return;
 
+    let halted = false;
     await Promise.all(
       chunk.map(async (taskRow) => {
-        const taskDef = tasks.find((t) => t.id === taskRow.task_id);
-        const result = taskDef?.type === "intent"
-          ? await executeIntentTask(runId, taskRow, taskDef?.message ?? taskRow.message, taskDef?.repo, taskDef?.auto_execute)
-          : await executeTask(runId, taskRow, taskDef?.message ?? taskRow.message, taskDef?.timeout);
+        const taskDef = tasks.find((t) => t.id === taskRow.task_id)!;
+        const result = await executeTaskWithPolicy(runId, taskRow, taskDef, taskDef.message);
         results.set(taskRow.task_id, result);
+        if (haltsRun(manifest, taskDef, result)) halted = true;
       })
     );
 
-    if (manifest.on_failure === "stop") {
-      for (const [, res] of results) {
-        if (res.exitCode !== 0 && res.exitCode !== null) {
-          await finalizeRun(runId, "failed");
-          return;
-        }
-      }
+    if (halted) {
+      await finalizeRun(runId, "failed");
+      return;
     }
   }
 
@@ -214,8 +303,10 @@ async function executePipeline(runId: string, manifest: SwarmManifest) {
   const tasks = manifest.tasks ?? [];
   if (tasks.length === 0) throw new Error("No tasks defined in manifest");
 
-  const taskRows = await createTaskRows(runId, tasks);
+  const { rows: taskRows, completed } = await prepareTaskRows(runId, tasks);
+  const results: Map<string, TaskResult> = new Map();
   let previousOutput = "";
+  let previousId = "";
 
   for (let i = 0; i < taskRows.length; i++) {
     if (await isCancelled(runId)) return;
@@ -223,17 +314,33 @@ async function executePipeline(runId: string, manifest: SwarmManifest) {
     const taskRow = taskRows[i];
     const taskDef = tasks[i];
 
+    // Resumed run: reuse the step's earlier output as context for the next one
+    const done = completed.get(taskDef.id);
+    if (done) {
+      results.set(taskDef.id, done);
+      previousOutput = done.output;
+      previousId = taskDef.id;
+      continue;
+    }
+
+    // Skipped steps don't break the chain: the next step gets the last real output
+    const unmet = unmetCondition(taskDef, results);
+    if (unmet) {
+      results.set(taskDef.id, await skipForCondition(taskRow, unmet));
+      continue;
+    }
+
     let message = taskDef.message;
-    if (previousOutput && i > 0) {
-      message = `[Context from previous step "${tasks[i - 1].id}"]:\n${previousOutput}\n\n[Your task]:\n${message}`;
+    if (previousOutput && previousId) {
+      message = `[Context from previous step "${previousId}"]:\n${previousOutput}\n\n[Your task]:\n${message}`;
     }
 
-    const result = taskDef.type === "intent"
-      ? await executeIntentTask(runId, taskRow, message, taskDef.repo, taskDef.auto_execute)
-      : await executeTask(runId, taskRow, message, taskDef.timeout);
+    const result = await executeTaskWithPolicy(runId, taskRow, taskDef, message);
+    results.set(taskDef.id, result);
     previousOutput = result.output;
+    previousId = taskDef.id;
 
-    if (manifest.on_failure === "stop" && result.exitCode !== 0 && result.exitCode !== null) {
+    if (haltsRun(manifest, taskDef, result)) {
       for (let j = i + 1; j < taskRows.length; j++) {
         await supabase.from("swarm_tasks").update({ status: "skipped" }).eq("id", taskRows[j].id);
       }
@@ -261,15 +368,17 @@ async function executeCollaborative(runId: string, manifest: SwarmManifest) {
     agent,
     message: task,
   }));
-  const taskRows = await createTaskRows(runId, taskDefs);
+  const { rows: taskRows, completed } = await prepareTaskRows(runId, taskDefs);
   if (await isCancelled(runId)) return;
 
-  const results: Map<string, { output: string; exitCode: number | null }> = new Map();
+  const results: Map<string, TaskResult> = new Map(completed);
   await Promise.all(
-    taskRows.map(async (taskRow, idx) => {
-      const result = await executeTask(runId, taskRow, task);
-      results.set(taskDefs[idx].id, result);
-    })
+    taskRows
+      .filter((taskRow) => !completed.has(taskRow.task_id))
+      .map(async (taskRow) => {
+        const result = await executeTask(runId, taskRow, task);
+        results.set(taskRow.task_id, result);
+      })
   );
 
   if (manifest.synthesize_agent && !(await isCancelled(runId))) {
@@ -282,11 +391,94 @@ async function executeCollaborative(runId: string, manifest: SwarmManifest) {
   }
 }
 
+// ============================================================
+// Mode: DAG
+// ============================================================
+
+async function executeDag(runId: string, manifest: SwarmManifest) {
+  const tasks = manifest.tasks ?? [];
+  const errors = validateDag(tasks);
+  if (errors.length > 0) throw new Error(`Invalid DAG manifest: ${errors.join("; ")}`);
+
+  const { rows: taskRows, completed } = await prepareTaskRows(runId, tasks);
+  if (await isCancelled(runId)) return;
+
+  const rowByTask = new Map(taskRows.map((r) => [r.task_id, r]));
+  const results: Map<string, TaskResult> = new Map(completed);
+  const waiting = new Set(tasks.filter((t) => !completed.has(t.id)).map((t) => t.id));
+  const inFlight = new Map<string, Promise<void>>();
+  let failed = false;
+
+  while (waiting.size > 0 || inFlight.size > 0) {
+    if (await isCancelled(runId)) return;
+
+    // Launch every ready task (all deps finished) up to the concurrency cap.
+    // Tasks whose `when` conditions fail are skipped on the spot; their
+    // dependents still run. After a halting failure nothing new is launched.
+    let skippedAny = false;
+    if (!failed) {
+      for (const taskDef of tasks) {
+        if (inFlight.size >= MAX_CONCURRENT) break;
+        if (!waiting.has(taskDef.id)) continue;
+        if (!normalizeDependsOn(taskDef.depends_on).every((dep) => results.has(dep))) continue;
+
+        waiting.delete(taskDef.id);
+        const taskRow = rowByTask.get(taskDef.id)!;
+
+        const unmet = unmetCondition(taskDef, results);
+        if (unmet) {
+          results.set(taskDef.id, await skipForCondition(taskRow, unmet));
+          skippedAny = true;
+          continue;
+        }
+
+        const message = renderTaskMessage(taskDef, results);
+
+        const promise = (async () => {
+          const result = await executeTaskWithPolicy(runId, taskRow, taskDef, message);
+          results.set(taskDef.id, result);
+          inFlight.delete(taskDef.id);
+
+          if (haltsRun(manifest, taskDef, result)) failed = true;
+        })();
+        inFlight.set(taskDef.id, promise);
+      }
+    }
+
+    if (inFlight.size === 0) {
+      if (skippedAny) continue; // a skip may have unblocked tasks listed earlier
+      break; // nothing running and nothing launchable
+    }
+    await Promise.race(inFlight.values());
+  }
+
+  if (failed || waiting.size > 0) {
+    for (const id of waiting) {
+      await supabase.from("swarm_tasks").update({ status: "skipped" }).eq("id", rowByTask.get(id)!.id);
+    }
+    await finalizeRun(runId, "failed");
+    return;
+  }
+
+  // Synthesis
+  if (manifest.synthesize && manifest.synthesize_agent) {
+    if (!(await isCancelled(runId))) {
+      const synthesisOutput = await runSynthesis(runId, manifest.synthesize_agent, tasks.map((t) => t.id), results);
+      await supabase.from("swarm_runs").update({ synthesis: synthesisOutput }).eq("id", runId);
+    }
+  }
+
+  if (!(await isCancelled(runId))) {
+    await finalizeRun(runId, "completed");
+  }
+}
+
 // ============================================================
 // Helpers
 // ============================================================
 
 async function createTaskRows(runId: string, tasks: SwarmManifestTask[]): Promise<SwarmTaskRow[]> {
+  if (tasks.length === 0) return [];
   const rows = tasks.map((t) => ({
     swarm_id: runId,
     task_id: t.id,
@@ -301,6 +493,72 @@ async function createTaskRows(runId: string, tasks: SwarmManifestTask[]): Promis
   return (data ?? []) as SwarmTaskRow[];
 }
 
+/**
+ * Task rows for a run, in manifest order. A fresh run gets new rows; a
+ * resumed run keeps its completed tasks (returned as results so they are
+ * not re-executed), resets everything else to pending on the manifest's
+ * agent with a fresh attempt count (undoing any fallback reroute), and
+ * drops the old synthesis so it is regenerated from the full set of outputs.
+ */
+async function prepareTaskRows(runId: string, tasks: SwarmManifestTask[]): Promise<PreparedTasks> {
+  const { data: existing, error } = await supabase
+    .from("swarm_tasks")
+    .select("*")
+    .eq("swarm_id", runId)
+    .order("created_at", { ascending: true });
+  if (error) throw new Error(`Failed to load task rows: ${error.message}`);
+
+  const completed = new Map<string, TaskResult>();
+  if (!existing || existing.length === 0) {
+    return { rows: await createTaskRows(runId, tasks), completed };
+  }
+
+  const byTask = new Map((existing as SwarmTaskRow[]).map((r) => [r.task_id, r]));
+  const defs = new Map(tasks.map((t) => [t.id, t]));
+  const toReset: SwarmTaskRow[] = [];
+
+  for (const row of byTask.values()) {
+    if (row.task_id === "__synthesis__") continue;
+    if (row.status === "completed") {
+      completed.set(row.task_id, { output: row.output, exitCode: row.exit_code ?? 0 });
+    } else {
+      toReset.push(row);
+    }
+  }
+
+  await supabase.from("swarm_tasks").delete().eq("swarm_id", runId).eq("task_id", "__synthesis__");
+  if (toReset.length > 0) {
+    // Interrupted rows keep their output until re-executed so the interruption stays visible
+    await supabase.from("swarm_tasks").update({
+      status: "pending",
+      exit_code: null,
+      completed_at: null,
+    }).in("id", toReset.map((r) => r.id)).neq("status", "interrupted");
+
+    // Retries and fallback start over on the task's own agent
+    await Promise.all(toReset.map((row) => {
+      row.agent_id = defs.get(row.task_id)?.agent ?? row.fallback_from ?? row.agent_id;
+      row.fallback_from = null;
+      row.attempts = 1;
+      if (row.status !== "interrupted") {
+        row.status = "pending";
+        row.exit_code = null;
+      }
+      return supabase.from("swarm_tasks").update({
+        agent_id: row.agent_id,
+        fallback_from: null,
+        attempts: 1,
+      }).eq("id", row.id);
+    }));
+  }
+
+  const created = await createTaskRows(runId, tasks.filter((t) => !byTask.has(t.id)));
+  for (const row of created) byTask.set(row.task_id, row);
+
+  console.log(`[swarm] Resuming run ${runId}: ${completed.size}/${tasks.length} task(s) already completed`);
+  return { rows: tasks.map((t) => byTask.get(t.id)!), completed };
+}
+
 async function isAgentEnabled(agentId: string): Promise<boolean> {
   try {
     const { data, error } = await supabase
@@ -315,12 +573,136 @@ async function isAgentEnabled(agentId: string): Promise<boolean> {
   }
 }
 
+const taskOutcomes = counter(
+  "bridge_swarm_tasks_total",
+  "Swarm task outcomes after retries and fallback (completed|failed|skipped)",
+  ["agent", "status"]
+);
+const taskRetries = counter(
+  "bridge_swarm_task_retries_total",
+  "Swarm task re-runs, by kind (retry|fallback)",
+  ["agent", "kind"]
+);
+
+function countOutcome(agentId: string, result: TaskResult) {
+  const status = result.exitCode === null ? "skipped" : result.exitCode === 0 ? "completed" : "failed";
+  taskOutcomes.inc({ agent: agentId, status });
+}
+
+function isFailure(result: TaskResult): boolean {
+  return result.exitCode !== 0 && result.exitCode !== null;
+}
+
+/** Whether a task result should stop the run. A task-level stop/continue wins over the run-level setting. */
+function haltsRun(manifest: SwarmManifest, taskDef: SwarmManifestTask, result: TaskResult): boolean {
+  if (!isFailure(result)) return false;
+  const policy = taskDef.on_failure === "stop" || taskDef.on_failure === "continue"
+    ? taskDef.on_failure
+    : manifest.on_failure;
+  return policy === "stop";
+}
+
+async function skipForCondition(taskRow: SwarmTaskRow, reason: string): Promise<TaskResult> {
+  const msg = `[Bridge] Condition not met: ${reason}. Skipping task.`;
+  console.log(`[swarm] Task ${taskRow.task_id}: ${msg}`);
+  await supabase.from("swarm_tasks").update({
+    status: "skipped",
+    output: msg,
+    completed_at: new Date().toISOString(),
+  }).eq("id", taskRow.id);
+  taskOutcomes.inc({ agent: taskRow.agent_id, status: "skipped" });
+  return { output: "", exitCode: null };
+}
+
+function runTaskOnce(
+  runId: string,
+  taskRow: SwarmTaskRow,
+  taskDef: SwarmManifestTask,
+  message: string,
+  priorOutput: string
+): Promise<TaskResult> {
+  return taskDef.type === "intent"
+    ? executeIntentTask(runId, taskRow, message, taskDef.repo, taskDef.auto_execute)
+    : executeTask(runId, taskRow, message, taskDef.timeout, priorOutput);
+}
+
+/**
+ * Run a task under its retry / fallback policy. Failed attempts are retried
+ * with exponential backoff; once exhausted, on_failure=fallback_agent reroutes
+ * the task to its fallback agent for one more attempt. Earlier attempts stay
+ * in the task's stored output, but only the last attempt's output is returned
+ * (that's what downstream tasks see).
+ */
+async function executeTaskWithPolicy(
+  runId: string,
+  taskRow: SwarmTaskRow,
+  taskDef: SwarmManifestTask,
+  message: string
+): Promise<TaskResult> {
+  const result = await runTaskWithPolicy(runId, taskRow, taskDef, message);
+  countOutcome(taskRow.agent_id, result);
+  return result;
+}
+
+async function runTaskWithPolicy(
+  runId: string,
+  taskRow: SwarmTaskRow,
+  taskDef: SwarmManifestTask,
+  message: string
+): Promise<TaskResult> {
+  const maxAttempts = taskDef.retry?.attempts ?? 1;
+  const backoff = taskDef.retry?.backoff ?? DEFAULT_RETRY_BACKOFF_S;
+  let history = "";
+  let attempt = 1;
+  let result = await runTaskOnce(runId, taskRow, taskDef, message, history);
+
+  while (isFailure(result) && attempt < maxAttempts) {
+    if (await isCancelled(runId)) return result;
+
+    const delay = backoff * 2 ** (attempt - 1);
+    history += `${result.output}\n[Bridge] Attempt ${attempt}/${maxAttempts} failed (exit ${result.exitCode}). Retrying in ${delay}s...\n\n`;
+    attempt++;
+    console.log(`[swarm] Task ${taskRow.task_id} failed, retry ${attempt}/${maxAttempts} in ${delay}s`);
+    taskRetries.inc({ agent: taskRow.agent_id, kind: "retry" });
+    await supabase.from("swarm_tasks").update({
+      status: "pending",
+      output: history,
+      attempts: attempt,
+    }).eq("id", taskRow.id);
+
+    await new Promise((r) => setTimeout(r, delay * 1000));
+    result = await runTaskOnce(runId, taskRow, taskDef, message, history);
+  }
+
+  if (isFailure(result) && taskDef.on_failure === "fallback_agent" && taskDef.fallback_agent) {
+    if (await isCancelled(runId)) return result;
+
+    const fallback = taskDef.fallback_agent;
+    history += `${result.output}\n[Bridge] "${taskRow.agent_id}" failed (exit ${result.exitCode}). Rerouting to fallback agent "${fallback}"...\n\n`;
+    attempt++;
+    console.log(`[swarm] Task ${taskRow.task_id} rerouted from "${taskRow.agent_id}" to "${fallback}"`);
+    taskRetries.inc({ agent: taskRow.agent_id, kind: "fallback" });
+    await supabase.from("swarm_tasks").update({
+      status: "pending",
+      agent_id: fallback,
+      fallback_from: taskRow.agent_id,
+      output: history,
+      attempts: attempt,
+    }).eq("id", taskRow.id);
+
+    result = await runTaskOnce(runId, { ...taskRow, agent_id: fallback }, taskDef, message, history);
+  }
+
+  return result;
+}
+
 async function executeTask(
   runId: string,
   taskRow: SwarmTaskRow,
   message: string,
-  timeout?: number
-): Promise<{ output: string; exitCode: number | null }> {
+  timeout?: number,
+  priorOutput = ""
+): Promise<TaskResult> {
   // Check if agent is enabled
   const enabled = await isAgentEnabled(taskRow.agent_id);
   if (!enabled) {
@@ -328,7 +710,20 @@ async function executeTask(
     console.log(`[swarm] ${msg}`);
     await supabase.from("swarm_tasks").update({
       status: "skipped",
-      output: msg,
+      output: priorOutput + msg,
+      completed_at: new Date().toISOString(),
+    }).eq("id", taskRow.id);
+    return { output: msg, exitCode: null };
+  }
+
+  // Over its daily budget: skip rather than hold the whole run
+  const budget = await checkBudget(taskRow.agent_id);
+  if (!budget.ok) {
+    const msg = `[Bridge] Agent "${taskRow.agent_id}" is over budget: ${budget.reason}. Skipping task.`;
+    console.log(`[swarm] ${msg}`);
+    await supabase.from("swarm_tasks").update({
+      status: "skipped",
+      output: priorOutput + msg,
       completed_at: new Date().toISOString(),
     }).eq("id", taskRow.id);
     return { output: msg, exitCode: null };
@@ -363,7 +758,7 @@ async function executeTask(
       // Only write to DB if output actually changed (dedup)
       if (output !== lastFlushedOutput) {
         lastFlushedOutput = output;
-        await supabase.from("swarm_tasks").update({ output }).eq("id", taskRow.id);
+        await supabase.from("swarm_tasks").update({ output: priorOutput + output }).eq("id", taskRow.id);
       }
     };
 
@@ -385,7 +780,7 @@ async function executeTask(
       const status = exitCode === 0 ? "completed" : "failed";
       await supabase.from("swarm_tasks").update({
         status,
-        output,
+        output: priorOutput + output,
         exit_code: exitCode,
         completed_at: new Date().toISOString(),
       }).eq("id", taskRow.id);
@@ -411,6 +806,11 @@ async function executeTask(
         agentId: taskRow.agent_id,
         message,
         onChunk: (text) => { outputBuffer += text; },
+        onUsage: (usage) => {
+          recordUsage(taskRow.agent_id, usage, { swarmId: runId, swarmTaskId: taskRow.id }).catch((err) =>
+            console.error(`[swarm] Usage record failed (non-fatal):`, err)
+          );
+        },
         onExit: (code) => finish(code),
       });
 
@@ -450,7 +850,7 @@ async function executeIntentTask(
   message: string,
   repo?: string,
   autoExecute?: boolean
-): Promise<{ output: string; exitCode: number | null }> {
+): Promise<TaskResult> {
   const apiKey = process.env.CURSOR_API_KEY;
   if (!apiKey) {
     const err = "[Bridge] CURSOR_API_KEY not configured. Cannot run intent task.";
@@ -607,7 +1007,7 @@ async function runSynthesis(
   runId: string,
   synthesizeAgent: string,
   taskIds: string[],
-  results: Map<string, { output: string; exitCode: number | null }>
+  results: Map<string, TaskResult>
 ): Promise<string> {
   console.log(`[swarm] Running synthesis for run ${runId} using agent ${synthesizeAgent}`);
 
@@ -0,0 +1,256 @@
+import { promises as fs } from "fs";
+import * as path from "path";
+import { supabase } from "../lib/supabase.js";
+import { nextRun, occurrencesBetween, parseCron } from "../lib/cron.js";
+
+// ============================================================
+// Swarm Scheduler -- launches swarm_runs from swarm_schedules
+// - Cron expressions evaluated in each schedule's timezone
+// - Overlap policy: skip, or queue one run behind the active one
+// - Downtime: occurrences missed while the bridge was offline are
+//   recorded as "missed"; catch_up runs the latest one late
+// - Every due occurrence leaves a swarm_schedule_runs row
+// ============================================================
+
+interface SwarmSchedule {
+  id: string;
+  name: string;
+  template: string;
+  overrides: Record<string, unknown> | null;
+  cron: string;
+  timezone: string;
+  overlap_policy: "skip" | "queue";
+  catch_up: boolean;
+  enabled: boolean;
+  next_run_at: string | null;
+  created_by: string | null;
+}
+
+type Outcome = "started" | "skipped" | "queued" | "missed" | "error";
+
+const TICK_MS = 30_000;
+/** A due occurrence older than this was missed (the bridge was not running) */
+const MISSED_GRACE_MS = 2 * 60_000;
+/** Cap on missed occurrences recorded per schedule in one pass */
+const MAX_MISSED_RECORDED = 50;
+const TEMPLATES_DIR = path.resolve(import.meta.dirname, "../../../templates/swarms");
+
+let timer: ReturnType<typeof setInterval> | null = null;
+let ticking = false;
+
+export function startSwarmScheduler() {
+  if (timer) return;
+  console.log(`[scheduler] Started (tick every ${TICK_MS / 1000}s)`);
+  tick();
+  timer = setInterval(tick, TICK_MS);
+}
+
+export function stopSwarmScheduler() {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+}
+
+async function tick() {
+  if (ticking) return;
+  ticking = true;
+  try {
+    const { data, error } = await supabase
+      .from("swarm_schedules")
+      .select("*")
+      .eq("enabled", true);
+
+    if (error) {
+      console.error("[scheduler] Failed to load schedules:", error.message);
+      return;
+    }
+
+    const now = new Date();
+    for (const schedule of (data ?? []) as SwarmSchedule[]) {
+      await processSchedule(schedule, now).catch((err) =>
+        console.error(`[scheduler] Schedule "${schedule.name}" failed:`, err)
+      );
+    }
+  } finally {
+    ticking = false;
+  }
+}
+
+async function processSchedule(s: SwarmSchedule, now: Date) {
+  let cron;
+  try {
+    cron = parseCron(s.cron);
+  } catch (err) {
+    // Only reachable if the row was written around the API's validation
+    const msg = err instanceof Error ? err.message : String(err);
+    console.error(`[scheduler] Disabling "${s.name}": ${msg}`);
+    await record(s.id, now, "error", null, `Invalid cron "${s.cron}": ${msg}. Schedule disabled.`);
+    await supabase.from("swarm_schedules").update({ enabled: false }).eq("id", s.id);
+    return;
+  }
+
+  await releaseQueued(s);
+
+  // New or edited schedule: compute the first occurrence and wait for it
+  if (!s.next_run_at) {
+    const next = nextRun(cron, s.timezone, now);
+    await supabase.from("swarm_schedules").update({ next_run_at: next?.toISOString() ?? null }).eq("id", s.id);
+    return;
+  }
+
+  const due = new Date(s.next_run_at);
+  if (due > now) return;
+
+  // Every occurrence from next_run_at up to now (more than one after downtime)
+  const occurrences = occurrencesBetween(cron, s.timezone, new Date(due.getTime() - 1), now, MAX_MISSED_RECORDED + 1);
+  const fresh = occurrences.filter((o) => now.getTime() - o.getTime() <= MISSED_GRACE_MS);
+  const stale = occurrences.filter((o) => now.getTime() - o.getTime() > MISSED_GRACE_MS);
+
+  let fire = fresh.at(-1) ?? null;
+  let catchingUp = false;
+  if (!fire && s.catch_up && stale.length > 0) {
+    fire = stale.pop()!;
+    catchingUp = true;
+  }
+
+  const missed = [...stale, ...fresh.filter((o) => o !== fire)];
+  if (missed.length > 0) {
+    console.log(`[scheduler] "${s.name}" missed ${missed.length} occurrence(s) while the bridge was offline`);
+    for (const occurrence of missed) {
+      await record(s.id, occurrence, "missed", null, "Bridge was not running at the scheduled time");
+    }
+  }
+
+  if (fire) await fireOccurrence(s, fire, catchingUp);
+
+  const next = nextRun(cron, s.timezone, now);
+  await supabase.from("swarm_schedules").update({ next_run_at: next?.toISOString() ?? null }).eq("id", s.id);
+}
+
+/** Start, skip or queue one due occurrence depending on the previous run */
+async function fireOccurrence(s: SwarmSchedule, scheduledFor: Date, catchingUp: boolean) {
+  const active = await activeRun(s.id);
+
+  if (active) {
+    if (s.overlap_policy === "queue" && !(await queuedOccurrence(s.id))) {
+      console.log(`[scheduler] "${s.name}" queued behind run ${active.id}`);
+      await record(s.id, scheduledFor, "queued", null, `Waiting for run ${active.id} (${active.status})`);
+    } else {
+      console.log(`[scheduler] "${s.name}" skipped, run ${active.id} still ${active.status}`);
+      await record(s.id, scheduledFor, "skipped", null, `Previous run ${active.id} still ${active.status}`);
+    }
+    return;
+  }
+
+  try {
+    const runId = await launchRun(s);
+    console.log(`[scheduler] "${s.name}" started run ${runId}${catchingUp ? " (catch-up)" : ""}`);
+    await record(s.id, scheduledFor, "started", runId, catchingUp ? "Catch-up after downtime" : null);
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    console.error(`[scheduler] "${s.name}" failed to start:`, msg);
+    await record(s.id, scheduledFor, "error", null, msg);
+  }
+}
+
+/** Start a queued occurrence once the run it was waiting on has finished */
+async function releaseQueued(s: SwarmSchedule) {
+  const queued = await queuedOccurrence(s.id);
+  if (!queued || (await activeRun(s.id))) return;
+
+  try {
+    const runId = await launchRun(s);
+    console.log(`[scheduler] "${s.name}" started queued run ${runId}`);
+    await supabase
+      .from("swarm_schedule_runs")
+      .update({ outcome: "started", swarm_id: runId, detail: "Started after the previous run finished" })
+      .eq("id", queued.id);
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    await supabase
+      .from("swarm_schedule_runs")
+      .update({ outcome: "error", detail: msg })
+      .eq("id", queued.id);
+  }
+}
+
+// ============================================================
+// Helpers
+// ============================================================
+
+/** Load the template, apply overrides and insert a pending swarm_runs row */
+async function launchRun(s: SwarmSchedule): Promise<string> {
+  if (path.basename(s.template) !== s.template || !s.template.endsWith(".json")) {
+    throw new Error(`Invalid template filename "${s.template}"`);
+  }
+
+  let manifest: Record<string, unknown>;
+  try {
+    manifest = JSON.parse(await fs.readFile(path.join(TEMPLATES_DIR, s.template), "utf-8"));
+  } catch (err) {
+    throw new Error(`Cannot load template "${s.template}": ${err instanceof Error ? err.message : String(err)}`);
+  }
+  manifest = { ...manifest, ...(s.overrides ?? {}) };
+
+  const { data, error } = await supabase
+    .from("swarm_runs")
+    .insert({
+      name: s.name,
+      mode: manifest.mode,
+      status: "pending",
+      manifest,
+      created_by: s.created_by,
+      schedule_id: s.id,
+    })
+    .select("id")
+    .single();
+
+  if (error || !data) throw new Error(`Failed to create run: ${error?.message ?? "no row returned"}`);
+
+  await supabase
+    .from("swarm_schedules")
+    .update({ last_run_at: new Date().toISOString(), last_run_id: data.id })
+    .eq("id", s.id);
+
+  return data.id;
+}
+
+async function activeRun(scheduleId: string): Promise<{ id: string; status: string } | null> {
+  const { data } = await supabase
+    .from("swarm_runs")
+    .select("id, status")
+    .eq("schedule_id", scheduleId)
+    .in("status", ["pending", "running"])
+    .order("created_at", { ascending: false })
+    .limit(1);
+  return data?.[0] ?? null;
+}
+
+async function queuedOccurrence(scheduleId: string): Promise<{ id: string } | null> {
+  const { data } = await supabase
+    .from("swarm_schedule_runs")
+    .select("id")
+    .eq("schedule_id", scheduleId)
+    .eq("outcome", "queued")
+    .order("scheduled_for", { ascending: true })
+    .limit(1);
+  return data?.[0] ?? null;
+}
+
+async function record(
+  scheduleId: string,
+  scheduledFor: Date,
+  outcome: Outcome,
+  swarmId: string | null,
+  detail: string | null
+) {
+  const { error } = await supabase.from("swarm_schedule_runs").insert({
+    schedule_id: scheduleId,
+    scheduled_for: scheduledFor.toISOString(),
+    outcome,
+    swarm_id: swarmId,
+    detail,
+  });
+  if (error) console.error(`[scheduler] Failed to record ${outcome} occurrence:`, error.message);
+}
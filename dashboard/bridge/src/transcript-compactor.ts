@@ -0,0 +1,178 @@
+import { supabase } from "../lib/supabase.js";
+
+// ============================================================
+// Transcript compactor
+//   - Folds the streamed chunks of a finished command into a single
+//     command_transcripts row, then deletes the chunk rows
+//   - The is_final marker stays in agent_responses (completion signal)
+//   - Runs GRACE_MS after the streamer ends so late readers still see chunks
+//   - Periodic sweep picks up commands finished outside the streamer
+//     (refusals, restarts) or before the bridge was restarted
+// ============================================================
+
+const GRACE_MS = 60_000;
+const SWEEP_MS = 10 * 60_000;
+const SWEEP_BATCH = 500;
+
+const scheduled = new Map<string, ReturnType<typeof setTimeout>>();
+let sweepTimer: ReturnType<typeof setInterval> | null = null;
+
+/** Compact a command once the grace period has passed. */
+export function scheduleCompaction(commandId: string) {
+  if (scheduled.has(commandId)) return;
+  const timer = setTimeout(() => {
+    scheduled.delete(commandId);
+    compactCommand(commandId).catch((err) =>
+      console.error(`[transcript] Compaction of ${commandId} failed:`, err)
+    );
+  }, GRACE_MS);
+  scheduled.set(commandId, timer);
+}
+
+/**
+ * Fold the chunk rows of a finished command into its transcript.
+ * Idempotent: chunks already folded in (seq <= last_seq) are only deleted.
+ * Returns the number of chunk rows removed.
+ */
+export async function compactCommand(commandId: string): Promise<number> {
+  const { data: final } = await supabase
+    .from("agent_responses")
+    .select("seq")
+    .eq("command_id", commandId)
+    .eq("is_final", true)
+    .limit(1);
+
+  // Still running (or held) — nothing to compact yet
+  if (!final || final.length === 0) return 0;
+
+  const { data: chunks, error } = await supabase
+    .from("agent_responses")
+    .select("seq, content")
+    .eq("command_id", commandId)
+    .eq("is_final", false)
+    .order("seq", { ascending: true });
+
+  if (error) throw new Error(error.message);
+  if (!chunks || chunks.length === 0) return 0;
+
+  const { data: existing } = await supabase
+    .from("command_transcripts")
+    .select("content, chunk_count, last_seq")
+    .eq("command_id", commandId)
+    .maybeSingle();
+
+  const foldedSeq = existing?.last_seq ?? 0;
+  const fresh = chunks.filter((c) => c.seq > foldedSeq);
+  const lastSeq = chunks[chunks.length - 1].seq;
+
+  if (fresh.length > 0) {
+    const { error: upsertError } = await supabase
+      .from("command_transcripts")
+      .upsert(
+        {
+          command_id: commandId,
+          content: (existing?.content ?? "") + fresh.map((c) => c.content).join(""),
+          chunk_count: (existing?.chunk_count ?? 0) + fresh.length,
+          last_seq: Math.max(lastSeq, foldedSeq),
+        },
+        { onConflict: "command_id" }
+      );
+    if (upsertError) throw new Error(upsertError.message);
+  }
+
+  // Only delete once the transcript holds the content
+  const { error: deleteError } = await supabase
+    .from("agent_responses")
+    .delete()
+    .eq("command_id", commandId)
+    .eq("is_final", false)
+    .lte("seq", lastSeq);
+  if (deleteError) throw new Error(deleteError.message);
+
+  return chunks.length;
+}
+
+/** Full output of a command: the compacted transcript plus any chunk rows not yet folded in. */
+export async function readCommandOutput(commandId: string): Promise<string> {
+  const [{ data: transcript }, { data: rows }] = await Promise.all([
+    supabase
+      .from("command_transcripts")
+      .select("content, last_seq")
+      .eq("command_id", commandId)
+      .maybeSingle(),
+    supabase
+      .from("agent_responses")
+      .select("seq, content")
+      .eq("command_id", commandId)
+      .order("seq", { ascending: true }),
+  ]);
+
+  const foldedSeq = transcript?.last_seq ?? 0;
+  return (
+    (transcript?.content ?? "") +
+    (rows ?? [])
+      .filter((r: { seq: number }) => r.seq > foldedSeq)
+      .map((r: { content: string }) => r.content)
+      .join("")
+  );
+}
+
+/** Compact every finished command that still has chunk rows older than the grace period. */
+async function sweep() {
+  const cutoff = new Date(Date.now() - GRACE_MS).toISOString();
+
+  // Never touch commands that are queued or running
+  const { data: active } = await supabase
+    .from("agent_commands")
+    .select("id")
+    .in("status", ["pending", "running"]);
+  const activeIds = (active ?? []).map((c: { id: string }) => c.id);
+
+  let query = supabase
+    .from("agent_responses")
+    .select("command_id")
+    .eq("is_final", false)
+    .lt("created_at", cutoff);
+  if (activeIds.length > 0) {
+    query = query.not("command_id", "in", `(${activeIds.join(",")})`);
+  }
+  const { data: rows, error } = await query
+    .order("created_at", { ascending: true })
+    .limit(SWEEP_BATCH);
+
+  if (error) {
+    console.error("[transcript] Sweep query failed:", error.message);
+    return;
+  }
+
+  const ids = [...new Set((rows ?? []).map((r: { command_id: string }) => r.command_id))]
+    .filter((id) => !scheduled.has(id));
+
+  let removed = 0;
+  for (const id of ids) {
+    removed += await compactCommand(id).catch((err) => {
+      console.error(`[transcript] Compaction of ${id} failed:`, err);
+      return 0;
+    });
+  }
+  if (removed > 0) {
+    console.log(`[transcript] Compacted ${removed} chunk row(s) across ${ids.length} command(s)`);
+  }
+}
+
+export function startTranscriptCompactor() {
+  if (sweepTimer) return;
+  sweep().catch((err) => console.error("[transcript] Sweep failed:", err));
+  sweepTimer = setInterval(() => {
+    sweep().catch((err) => console.error("[transcript] Sweep failed:", err));
+  }, SWEEP_MS);
+}
+
+export function stopTranscriptCompactor() {
+  if (sweepTimer) {
+    clearInterval(sweepTimer);
+    sweepTimer = null;
+  }
+  for (const timer of scheduled.values()) clearTimeout(timer);
+  scheduled.clear();
+}
@@ -14,6 +14,8 @@ import {
   DreamSynthesis,
   PredictiveContext,
   MemoryReforge,
+  SoulPolicies,
+  ContradictionQueue,
 } from "@/components/consciousness";
 import { Brain, RefreshCw, Loader2 } from "lucide-react";
 
@@ -31,6 +33,7 @@ export default function ConsciousnessPage() {
     dreamInsights,
     lastDreamAt,
     dreamReady,
+    dreamConsolidation,
     loading,
     error,
     refresh,
@@ -122,6 +125,7 @@ export default function ConsciousnessPage() {
           dreamInsights={dreamInsights}
           lastDreamAt={lastDreamAt}
           dreamReady={dreamReady}
+          consolidation={dreamConsolidation}
           memoryCount={memories.length}
         />
       </div>
@@ -138,6 +142,12 @@ export default function ConsciousnessPage() {
       {/* 8: Memory Reforge (full width) */}
       <MemoryReforge />
 
+      {/* Contradiction queue — pick the winner of conflicting facts */}
+      <ContradictionQueue />
+
+      {/* Soul Policies — per-agent context curation */}
+      <SoulPolicies />
+
       {/* 9: Dreamscape visualization (full width) */}
       <DreamscapeView
         dreamInsights={dreamInsights}
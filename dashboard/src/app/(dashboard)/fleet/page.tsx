@@ -1,4 +1,6 @@
 import { FleetTable } from "@/components/FleetTable";
+import { FleetUsage } from "@/components/FleetUsage";
+import { FleetRegistry } from "@/components/FleetRegistry";
 import { Users, Shield } from "lucide-react";
 
 export default function FleetPage() {
@@ -24,6 +26,10 @@ export default function FleetPage() {
       </div>
 
       <FleetTable />
+
+      <FleetUsage />
+
+      <FleetRegistry />
     </div>
   );
 }
@@ -0,0 +1,27 @@
+import { MemoryExplorer } from "@/components/MemoryExplorer";
+import { Database } from "lucide-react";
+
+export default function MemoriesPage() {
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-xl font-bold font-mono tracking-wider neon-glow" style={{ color: '#00f0ff' }}>
+            MEMORY EXPLORER
+          </h1>
+          <p className="text-[11px] font-mono mt-1" style={{ color: '#4a6a8a' }}>
+            {"// search, edit, pin, expire & merge what Soul injects into agent context"}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Database className="h-3.5 w-3.5" style={{ color: '#00f0ff33' }} />
+          <span className="text-[9px] font-mono uppercase tracking-wider" style={{ color: '#00f0ff33' }}>
+            agent_memory
+          </span>
+        </div>
+      </div>
+
+      <MemoryExplorer />
+    </div>
+  );
+}
@@ -34,7 +34,14 @@ interface ABSummary {
   premiumConversionRate: number;
   controlRevenue: number;
   premiumRevenue: number;
-  winner: string;
+  controlPayers: number;
+  premiumPayers: number;
+  /** Revenue-per-payer test, premium vs control */
+  pValue: number | null;
+  sampleReady: boolean;
+  /** null while the experiment is inconclusive */
+  winner: string | null;
+  verdict: string;
 }
 
 interface SpawnBilling {
@@ -188,13 +195,13 @@ export default function MidasPage() {
               </CardTitle>
             </div>
             <CardDescription className="text-[10px] font-mono" style={{ color: "#4a6a8a" }}>
-              {abActive} active experiments · comparing control vs premium pricing
+              {abActive} active variants · sticky per payer · revenue per payer at p &lt; 0.05
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-2">
             {abSummary.length === 0 ? (
               <p className="text-[10px] font-mono" style={{ color: "#4a6a8a" }}>
-                No experiment data yet. Pricing experiments track automatically on each payment.
+                No experiment data yet. Callers are assigned a variant when first quoted a 402.
               </p>
             ) : (
               abSummary.map((ab) => (
@@ -210,12 +217,16 @@ export default function MidasPage() {
                     <span
                       className="text-[8px] font-mono px-1.5 py-0.5 rounded"
                       style={{
-                        background: ab.winner === "premium" ? "#22c55e15" : "#f59e0b15",
-                        color: ab.winner === "premium" ? GREEN : GOLD,
-                        border: `1px solid ${ab.winner === "premium" ? GREEN + "30" : GOLD_DIM}`,
+                        background: ab.winner ? "#22c55e15" : "#f59e0b15",
+                        color: ab.winner ? GREEN : GOLD,
+                        border: `1px solid ${ab.winner ? GREEN + "30" : GOLD_DIM}`,
                       }}
                     >
-                      {ab.winner.toUpperCase()} WINNING
+                      {ab.winner
+                        ? `${ab.winner.toUpperCase()} WINS`
+                        : ab.sampleReady
+                          ? "INCONCLUSIVE"
+                          : "COLLECTING"}
                     </span>
                   </div>
                   <div className="grid grid-cols-2 gap-2">
@@ -224,6 +235,7 @@ export default function MidasPage() {
                       price={ab.controlPrice}
                       rate={ab.controlConversionRate}
                       revenue={ab.controlRevenue}
+                      payers={ab.controlPayers}
                       color="#94a3b8"
                     />
                     <VariantBar
@@ -231,9 +243,13 @@ export default function MidasPage() {
                       price={ab.premiumPrice}
                       rate={ab.premiumConversionRate}
                       revenue={ab.premiumRevenue}
+                      payers={ab.premiumPayers}
                       color={GOLD}
                     />
                   </div>
+                  <p className="text-[7px] font-mono mt-1" style={{ color: "#4a6a8a" }}>
+                    {ab.verdict}
+                  </p>
                 </div>
               ))
             )}
@@ -438,12 +454,15 @@ function VariantBar({
   price,
   rate,
   revenue,
+  payers,
   color,
 }: {
   label: string;
   price: number;
+  /** Payer conversion, % */
   rate: number;
   revenue: number;
+  payers: number;
   color: string;
 }) {
   return (
@@ -453,21 +472,21 @@ function VariantBar({
           {label}
         </span>
         <span className="text-[8px] font-mono" style={{ color: "#4a6a8a" }}>
-          ${price?.toFixed(2) ?? "?"}
+          ${price?.toFixed(2) ?? "?"} · n={payers}
         </span>
       </div>
       <div className="h-1 rounded-full overflow-hidden" style={{ background: "#1a2a3a" }}>
         <div
           className="h-full rounded-full transition-all duration-500"
           style={{
-            width: `${Math.min(100, (rate || 0) * 100)}%`,
+            width: `${Math.min(100, rate || 0)}%`,
             background: color,
           }}
         />
       </div>
       <div className="flex items-center justify-between">
         <span className="text-[7px] font-mono" style={{ color: "#4a6a8a" }}>
-          {((rate || 0) * 100).toFixed(1)}% cvr
+          {(rate || 0).toFixed(1)}% cvr
         </span>
         <span className="text-[7px] font-mono" style={{ color }}>
           ${(revenue || 0).toFixed(4)}
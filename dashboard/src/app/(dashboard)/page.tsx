@@ -5,11 +5,12 @@ import { BridgeControls } from "@/components/BridgeControls";
 import { CommandHistory } from "@/components/CommandHistory";
 import { QuickCommand } from "@/components/QuickCommand";
 import { useBridgeStatus } from "@/hooks/useBridgeStatus";
-import { KNOWN_AGENTS } from "@/lib/types";
+import { useAgentRegistry } from "@/hooks/useAgentRegistry";
 import { Bot, Zap, Terminal, Shield, Cpu, Activity } from "lucide-react";
 
 export default function CommandCenterPage() {
   const { isOnline } = useBridgeStatus();
+  const { fleet } = useAgentRegistry();
 
   return (
     <div className="p-6 space-y-6">
@@ -64,13 +65,13 @@ export default function CommandCenterPage() {
             </h3>
           </div>
           <div className="text-3xl font-bold font-mono neon-glow" style={{ color: '#00f0ff' }}>
-            {KNOWN_AGENTS.length}
+            {fleet.length}
           </div>
           <p className="text-[10px] font-mono mt-1" style={{ color: '#4a6a8a' }}>
             registered agents
           </p>
           <div className="mt-4 flex flex-wrap gap-1.5">
-            {KNOWN_AGENTS.map((agent) => (
+            {fleet.map((agent) => (
               <span
                 key={agent.id}
                 className="text-[9px] font-mono uppercase tracking-wider px-2 py-0.5 rounded cyber-badge"
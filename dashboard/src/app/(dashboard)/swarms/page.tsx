@@ -5,6 +5,7 @@ import { Network, Plus, Activity, Clock, Loader2 } from "lucide-react";
 import { SwarmCreate } from "@/components/SwarmCreate";
 import { SwarmActiveRuns } from "@/components/SwarmActiveRuns";
 import { SwarmHistory } from "@/components/SwarmHistory";
+import { SwarmSchedules } from "@/components/SwarmSchedules";
 import { useSwarmRuns } from "@/hooks/useSwarmRuns";
 
 type Tab = "create" | "active" | "history";
@@ -154,7 +155,14 @@ export default function SwarmsPage() {
           </div>
         ) : (
           <>
-            {activeTab === "create" && <SwarmCreate onCreated={handleCreated} />}
+            {activeTab === "create" && (
+              <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 items-start">
+                <div className="lg:col-span-2">
+                  <SwarmCreate onCreated={handleCreated} />
+                </div>
+                <SwarmSchedules />
+              </div>
+            )}
             {activeTab === "active" && (
               <SwarmActiveRuns runs={activeRuns} taskMap={taskMap} fetchTasks={fetchTasks} />
             )}
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase-server";
+import { isActiveAgent } from "@/lib/agent-registry";
+
+export const runtime = "nodejs";
+
+const LIMIT_FIELDS = ["daily_token_limit", "daily_cost_limit_usd", "daily_run_limit"] as const;
+
+export async function GET() {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const { data, error } = await supabase
+    .from("agent_budgets")
+    .select("*");
+
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 });
+  return NextResponse.json(data ?? []);
+}
+
+/** Create or replace an agent's budget. Omitted or null limits are unlimited. */
+export async function POST(request: NextRequest) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const body = await request.json().catch(() => ({}));
+  const agent_id = body.agent_id;
+
+  if (typeof agent_id !== "string" || agent_id.length === 0) {
+    return NextResponse.json({ error: "agent_id is required" }, { status: 400 });
+  }
+  if (!(await isActiveAgent(supabase, agent_id))) {
+    return NextResponse.json({ error: `Unknown agent_id: ${agent_id}` }, { status: 400 });
+  }
+
+  const limits: Record<string, number | null> = {};
+  for (const field of LIMIT_FIELDS) {
+    const value = body[field];
+    if (value === undefined || value === null || value === "") {
+      limits[field] = null;
+    } else if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+      return NextResponse.json({ error: `${field} must be a non-negative number or null` }, { status: 400 });
+    } else {
+      limits[field] = field === "daily_cost_limit_usd" ? value : Math.floor(value);
+    }
+  }
+
+  const action = body.over_budget_action ?? "refuse";
+  if (action !== "refuse" && action !== "queue") {
+    return NextResponse.json({ error: "over_budget_action must be refuse|queue" }, { status: 400 });
+  }
+
+  const { data, error } = await supabase
+    .from("agent_budgets")
+    .upsert(
+      { agent_id, ...limits, over_budget_action: action, updated_by: user.id },
+      { onConflict: "agent_id" }
+    )
+    .select()
+    .single();
+
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 });
+  return NextResponse.json(data);
+}
+
+/** DELETE /api/agents/budgets?agent_id=x — remove the budget (unlimited) */
+export async function DELETE(request: NextRequest) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const agentId = request.nextUrl.searchParams.get("agent_id");
+  if (!agentId) return NextResponse.json({ error: "agent_id is required" }, { status: 400 });
+
+  const { error } = await supabase
+    .from("agent_budgets")
+    .delete()
+    .eq("agent_id", agentId);
+
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 });
+  return NextResponse.json({ ok: true });
+}
@@ -1,11 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase-server";
-import { KNOWN_AGENTS } from "@/lib/types";
+import { isActiveAgent } from "@/lib/agent-registry";
 
 export const runtime = "nodejs";
 
-const KNOWN_IDS = new Set(KNOWN_AGENTS.map((a) => a.id));
-
 export async function GET() {
   const supabase = await createClient();
   const {
@@ -38,7 +36,7 @@ export async function POST(request: NextRequest) {
   if (typeof enabled !== "boolean") {
     return NextResponse.json({ error: "enabled must be boolean" }, { status: 400 });
   }
-  if (!KNOWN_IDS.has(agent_id)) {
+  if (!(await isActiveAgent(supabase, agent_id))) {
     return NextResponse.json({ error: `Unknown agent_id: ${agent_id}` }, { status: 400 });
   }
   if (agent_id === "main" && enabled === false) {
@@ -0,0 +1,199 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase-admin";
+import { requireAuth, isValidUUID } from "@/lib/api-auth";
+import { expiredTtl, parseMemoryUpdate, setArchived } from "@/lib/agent-memory";
+import type {
+  AgentMemoryEntry,
+  MemoryAssociationLink,
+  MemoryDetail,
+  MemoryInjection,
+} from "@/lib/types";
+
+export const runtime = "nodejs";
+
+const MAX_ASSOCIATIONS = 50;
+const MAX_INJECTIONS = 25;
+
+type Params = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/agents/memory/[id]
+ * A memory with its decay state, associations (strongest first) and the
+ * most recent commands its Soul context was injected into.
+ */
+export async function GET(_request: NextRequest, { params }: Params) {
+  const auth = await requireAuth();
+  if (auth.error) return auth.error;
+
+  const { id } = await params;
+  if (!isValidUUID(id)) {
+    return NextResponse.json({ error: "Valid UUID id is required" }, { status: 400 });
+  }
+
+  const admin = createAdminClient();
+
+  const [entryRes, assocRes, queryRes] = await Promise.all([
+    admin.from("agent_memory_explorer").select("*").eq("id", id).maybeSingle(),
+    admin
+      .from("memory_associations")
+      .select("id, memory_id, related_memory_id, association_type, strength")
+      .or(`memory_id.eq.${id},related_memory_id.eq.${id}`)
+      .order("strength", { ascending: false })
+      .limit(MAX_ASSOCIATIONS),
+    admin
+      .from("memory_queries")
+      .select("id, agent_id, command_id, retrieved_memory_ids, relevance_scores, query_time")
+      .contains("retrieved_memory_ids", [id])
+      .order("query_time", { ascending: false })
+      .limit(MAX_INJECTIONS),
+  ]);
+
+  if (entryRes.error) {
+    return NextResponse.json({ error: entryRes.error.message }, { status: 500 });
+  }
+  if (!entryRes.data) {
+    return NextResponse.json({ error: "Memory not found" }, { status: 404 });
+  }
+
+  const assocRows = (assocRes.data ?? []) as Array<{
+    id: string;
+    memory_id: string;
+    related_memory_id: string;
+    association_type: string;
+    strength: number;
+  }>;
+  const queryRows = (queryRes.data ?? []) as Array<{
+    id: string;
+    agent_id: string;
+    command_id: string | null;
+    retrieved_memory_ids: string[];
+    relevance_scores: number[];
+    query_time: string;
+  }>;
+
+  const relatedIds = [...new Set(assocRows.map((a) => (a.memory_id === id ? a.related_memory_id : a.memory_id)))];
+  const commandIds = [...new Set(queryRows.map((q) => q.command_id).filter((c): c is string => !!c))];
+
+  const [relatedRes, commandRes] = await Promise.all([
+    relatedIds.length > 0
+      ? admin.from("agent_memory").select("id, agent_id, kind, content, created_at").in("id", relatedIds)
+      : Promise.resolve({ data: [] }),
+    commandIds.length > 0
+      ? admin.from("agent_commands").select("id, agent_id, message, status, created_at").in("id", commandIds)
+      : Promise.resolve({ data: [] }),
+  ]);
+
+  const related = new Map(
+    ((relatedRes.data ?? []) as NonNullable<MemoryAssociationLink["related"]>[]).map((m) => [m.id, m])
+  );
+  const commands = new Map(
+    ((commandRes.data ?? []) as NonNullable<MemoryInjection["command"]>[]).map((c) => [c.id, c])
+  );
+
+  const detail: MemoryDetail = {
+    entry: entryRes.data as AgentMemoryEntry,
+    associations: assocRows.map((a) => ({
+      id: a.id,
+      association_type: a.association_type,
+      strength: a.strength,
+      related: related.get(a.memory_id === id ? a.related_memory_id : a.memory_id) ?? null,
+    })),
+    injections: queryRows.map((q) => {
+      const idx = q.retrieved_memory_ids.indexOf(id);
+      return {
+        query_id: q.id,
+        query_time: q.query_time,
+        agent_id: q.agent_id,
+        relevance: idx >= 0 ? q.relevance_scores[idx] ?? null : null,
+        command: q.command_id ? commands.get(q.command_id) ?? null : null,
+      };
+    }),
+  };
+
+  return NextResponse.json(detail);
+}
+
+/**
+ * PATCH /api/agents/memory/[id]
+ * Body (any subset): { content, kind, ttl_hours, pinned, archived, expire: true }
+ * Returns the updated explorer row.
+ */
+export async function PATCH(request: NextRequest, { params }: Params) {
+  const auth = await requireAuth();
+  if (auth.error) return auth.error;
+
+  const { id } = await params;
+  if (!isValidUUID(id)) {
+    return NextResponse.json({ error: "Valid UUID id is required" }, { status: 400 });
+  }
+
+  const body = await request.json().catch(() => null);
+  if (!body || typeof body !== "object") {
+    return NextResponse.json({ error: "JSON body required" }, { status: 400 });
+  }
+
+  const { update, errors } = parseMemoryUpdate(body as Record<string, unknown>);
+  if (errors.length > 0) {
+    return NextResponse.json({ error: errors.join("; ") }, { status: 400 });
+  }
+
+  const admin = createAdminClient();
+
+  const { data: existing, error: readError } = await admin
+    .from("agent_memory")
+    .select("id, created_at")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (readError) {
+    return NextResponse.json({ error: readError.message }, { status: 500 });
+  }
+  if (!existing) {
+    return NextResponse.json({ error: "Memory not found" }, { status: 404 });
+  }
+
+  const fields = { ...update.fields };
+  if (update.expire) fields.ttl_hours = expiredTtl(existing.created_at);
+
+  if (Object.keys(fields).length > 0) {
+    const { error } = await admin.from("agent_memory").update(fields).eq("id", id);
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+  }
+
+  if (update.archived !== undefined) {
+    const error = await setArchived(admin, [id], update.archived, "Archived from dashboard");
+    if (error) {
+      return NextResponse.json({ error }, { status: 500 });
+    }
+  }
+
+  const { data, error } = await admin.from("agent_memory_explorer").select("*").eq("id", id).single();
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+  return NextResponse.json(data as AgentMemoryEntry);
+}
+
+/**
+ * DELETE /api/agents/memory/[id]
+ * Delete a memory (its decay row, embedding and associations cascade).
+ */
+export async function DELETE(_request: NextRequest, { params }: Params) {
+  const auth = await requireAuth();
+  if (auth.error) return auth.error;
+
+  const { id } = await params;
+  if (!isValidUUID(id)) {
+    return NextResponse.json({ error: "Valid UUID id is required" }, { status: 400 });
+  }
+
+  const { error } = await createAdminClient().from("agent_memory").delete().eq("id", id);
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({ deleted: id });
+}
@@ -0,0 +1,253 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase-admin";
+import { requireAuth, isValidUUID, clampLimit } from "@/lib/api-auth";
+import {
+  buildAdjacency,
+  computeCentrality,
+  detectCommunities,
+  loadAssociationGraph,
+  loadGraphEntries,
+  loadNeighborhood,
+  shortestPath,
+  topTerms,
+  traverse,
+} from "@/lib/memory-graph";
+import type {
+  MemoryCommunity,
+  MemoryGraphHub,
+  MemoryGraphNode,
+  MemoryGraphPath,
+  MemoryGraphSubgraph,
+  MemoryKind,
+} from "@/lib/types";
+
+export const runtime = "nodejs";
+
+type Entry = Omit<MemoryGraphHub, "pagerank" | "degree" | "weighted_degree">;
+
+const MAX_FOCUS = 10;
+
+function parseFraction(raw: string | null, fallback: number): number {
+  const n = Number(raw);
+  return raw !== null && Number.isFinite(n) && n >= 0 && n <= 1 ? n : fallback;
+}
+
+/** agent_id (+ `_shared` unless shared=false), or null for every agent */
+function agentScope(params: URLSearchParams): string[] | undefined {
+  const agentId = params.get("agent_id");
+  if (!agentId) return undefined;
+  return params.get("shared") === "false" ? [agentId] : [agentId, "_shared"];
+}
+
+/**
+ * GET /api/agents/memory/graph?action=subgraph|path|communities|centrality
+ *
+ * Association graph analytics over memory_associations. Edge weight is
+ * strength × type weight (causal > similar > sequential > related).
+ *
+ *   subgraph     focus=<id>[,<id>…] depth (1-4, default 2) limit (nodes, default 60, max 200)
+ *                decay (0-1, default 0.6) min_strength (default 0.1)
+ *                — the focus's neighbourhood by spreading activation
+ *   path         from, to, max_hops (1-6, default 4)
+ *                — the strongest association chain between two memories
+ *   communities  agent_id, shared=false, min_strength (default 0.2), min_size (default 3),
+ *                limit (default 12, max 50) — topic clusters, largest first
+ *   centrality   agent_id, shared=false, min_strength, limit (default 20, max 100) — hub memories
+ */
+export async function GET(request: NextRequest) {
+  const auth = await requireAuth();
+  if (auth.error) return auth.error;
+
+  const params = request.nextUrl.searchParams;
+  const action = params.get("action") ?? "subgraph";
+  const admin = createAdminClient();
+
+  switch (action) {
+    /* ── Focused subgraph ───────────────────────── */
+    case "subgraph": {
+      const focus = (params.get("focus") ?? "")
+        .split(",")
+        .map((id) => id.trim())
+        .filter(Boolean);
+      if (focus.length === 0 || focus.length > MAX_FOCUS || !focus.every(isValidUUID)) {
+        return NextResponse.json(
+          { error: `focus must be 1-${MAX_FOCUS} comma-separated memory UUIDs` },
+          { status: 400 }
+        );
+      }
+      const depth = clampLimit(params.get("depth"), 2, 4);
+      const limit = clampLimit(params.get("limit"), 60, 200);
+
+      const { edges, error } = await loadNeighborhood(admin, focus, {
+        depth,
+        minStrength: parseFraction(params.get("min_strength"), 0.1),
+      });
+      if (error) return NextResponse.json({ error }, { status: 500 });
+
+      const reached = traverse(buildAdjacency(edges), focus, {
+        maxDepth: depth,
+        decay: parseFraction(params.get("decay"), 0.6),
+        maxNodes: limit,
+      });
+      const keptEdges = edges.filter((e) => reached.has(e.memory_id) && reached.has(e.related_memory_id));
+      const subAdj = buildAdjacency(keptEdges);
+      const communities = detectCommunities(subAdj);
+      const centrality = computeCentrality(subAdj);
+
+      const { entries, error: entriesError } = await loadGraphEntries<Entry>(admin, [...reached.keys()]);
+      if (entriesError) return NextResponse.json({ error: entriesError }, { status: 500 });
+
+      const nodes: MemoryGraphNode[] = [];
+      for (const [id, a] of reached) {
+        const entry = entries.get(id);
+        if (!entry) continue;
+        nodes.push({
+          ...entry,
+          activation: Math.round(a.activation * 1000) / 1000,
+          depth: a.depth,
+          community: communities.get(id) ?? id,
+          centrality: Math.round((centrality.get(id)?.pagerank ?? 0) * 1000) / 1000,
+        });
+      }
+      nodes.sort((a, b) => b.activation - a.activation);
+
+      const body: MemoryGraphSubgraph = {
+        focus,
+        nodes,
+        edges: keptEdges.filter((e) => entries.has(e.memory_id) && entries.has(e.related_memory_id)),
+      };
+      return NextResponse.json(body);
+    }
+
+    /* ── Explanation path ───────────────────────── */
+    case "path": {
+      const from = params.get("from") ?? "";
+      const to = params.get("to") ?? "";
+      if (!isValidUUID(from) || !isValidUUID(to)) {
+        return NextResponse.json({ error: "from and to must be memory UUIDs" }, { status: 400 });
+      }
+      const maxHops = clampLimit(params.get("max_hops"), 4, 6);
+
+      // Any path of ≤ maxHops has every edge within ⌈maxHops/2⌉ hops of one end
+      const { edges, error } = await loadNeighborhood(admin, [from, to], { depth: Math.ceil(maxHops / 2) });
+      if (error) return NextResponse.json({ error }, { status: 500 });
+
+      const path = shortestPath(buildAdjacency(edges), from, to, maxHops);
+      if (!path) return NextResponse.json({ path: null });
+
+      const { entries, error: entriesError } = await loadGraphEntries<Entry>(admin, path.nodes);
+      if (entriesError) return NextResponse.json({ error: entriesError }, { status: 500 });
+      if (path.nodes.some((id) => !entries.has(id))) return NextResponse.json({ path: null });
+
+      const body: MemoryGraphPath = {
+        nodes: path.nodes.map((id) => entries.get(id)!),
+        hops: path.hops.map((h) => ({ association_type: h.type, strength: h.strength })),
+        confidence: Math.round(path.confidence * 1000) / 1000,
+      };
+      return NextResponse.json({ path: body });
+    }
+
+    /* ── Topic clusters ─────────────────────────── */
+    case "communities": {
+      const limit = clampLimit(params.get("limit"), 12, 50);
+      const minSize = clampLimit(params.get("min_size"), 3, 100);
+
+      const { edges, truncated, error } = await loadAssociationGraph(admin, {
+        agentIds: agentScope(params),
+        minStrength: parseFraction(params.get("min_strength"), 0.2),
+      });
+      if (error) return NextResponse.json({ error }, { status: 500 });
+
+      const adj = buildAdjacency(edges);
+      const labels = detectCommunities(adj);
+      const centrality = computeCentrality(adj);
+
+      const groups = new Map<string, string[]>();
+      for (const [id, label] of labels) groups.set(label, [...(groups.get(label) ?? []), id]);
+      const ranked = [...groups.entries()]
+        .filter(([, members]) => members.length >= minSize)
+        .sort((a, b) => b[1].length - a[1].length);
+
+      const shown = ranked.slice(0, limit);
+      const { entries, error: entriesError } = await loadGraphEntries<Entry>(
+        admin,
+        shown.flatMap(([, members]) => members)
+      );
+      if (entriesError) return NextResponse.json({ error: entriesError }, { status: 500 });
+
+      const communities: MemoryCommunity[] = shown.map(([label, members]) => {
+        const rows = members.map((id) => entries.get(id)).filter((e): e is Entry => Boolean(e));
+        const kinds: Partial<Record<MemoryKind, number>> = {};
+        const agents: Record<string, number> = {};
+        for (const r of rows) {
+          kinds[r.kind] = (kinds[r.kind] ?? 0) + 1;
+          agents[r.agent_id] = (agents[r.agent_id] ?? 0) + 1;
+        }
+        const hubs = rows
+          .map((r) => toHub(r, centrality.get(r.id)))
+          .sort((a, b) => b.pagerank - a.pagerank)
+          .slice(0, 5);
+        return {
+          id: label,
+          size: members.length,
+          terms: topTerms(rows.map((r) => r.content)),
+          kinds,
+          agents,
+          hubs,
+        };
+      });
+
+      return NextResponse.json({
+        communities,
+        total: ranked.length,
+        nodes: adj.size,
+        edges: edges.length,
+        truncated,
+      });
+    }
+
+    /* ── Hub memories ───────────────────────────── */
+    case "centrality": {
+      const limit = clampLimit(params.get("limit"), 20, 100);
+
+      const { edges, truncated, error } = await loadAssociationGraph(admin, {
+        agentIds: agentScope(params),
+        minStrength: parseFraction(params.get("min_strength"), 0),
+      });
+      if (error) return NextResponse.json({ error }, { status: 500 });
+
+      const centrality = computeCentrality(buildAdjacency(edges));
+      const top = [...centrality.entries()].sort((a, b) => b[1].pagerank - a[1].pagerank).slice(0, limit);
+
+      const { entries, error: entriesError } = await loadGraphEntries<Entry>(
+        admin,
+        top.map(([id]) => id)
+      );
+      if (entriesError) return NextResponse.json({ error: entriesError }, { status: 500 });
+
+      const hubs: MemoryGraphHub[] = top
+        .filter(([id]) => entries.has(id))
+        .map(([id, c]) => toHub(entries.get(id)!, c));
+
+      return NextResponse.json({ hubs, nodes: centrality.size, edges: edges.length, truncated });
+    }
+
+    default:
+      return NextResponse.json(
+        { error: "action must be one of: subgraph, path, communities, centrality" },
+        { status: 400 }
+      );
+  }
+}
+
+function toHub(
+  entry: Entry,
+  c: { pagerank: number; degree: number; weightedDegree: number } | undefined
+): MemoryGraphHub {
+  return {
+    ...entry,
+    pagerank: Math.round((c?.pagerank ?? 0) * 1000) / 1000,
+    degree: c?.degree ?? 0,
+    weighted_degree: Math.round((c?.weightedDegree ?? 0) * 1000) / 1000,
+  };
+}
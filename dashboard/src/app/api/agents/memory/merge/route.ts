@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase-admin";
+import { requireAuth, isValidUUID } from "@/lib/api-auth";
+import { MEMORY_KINDS, setArchived } from "@/lib/agent-memory";
+import type { AgentMemoryEntry, MemoryKind } from "@/lib/types";
+
+export const runtime = "nodejs";
+
+const MAX_MERGE = 20;
+
+/**
+ * POST /api/agents/memory/merge
+ * Body: { ids: uuid[] (2–20), content?, kind?, agent_id? }
+ *
+ * Writes one memory in place of several: content defaults to the sources
+ * joined oldest first, kind to the most common kind, agent_id to the
+ * sources' agent (required when they differ). The merged memory inherits
+ * each source's associations (strongest wins) and is pinned if any source
+ * was; the sources are archived, not deleted.
+ */
+export async function POST(request: NextRequest) {
+  const auth = await requireAuth();
+  if (auth.error) return auth.error;
+
+  const body = await request.json().catch(() => null);
+  const ids: unknown = body?.ids;
+  if (!Array.isArray(ids) || ids.length < 2 || ids.length > MAX_MERGE || !ids.every((id) => typeof id === "string" && isValidUUID(id))) {
+    return NextResponse.json({ error: `ids must be 2-${MAX_MERGE} memory UUIDs` }, { status: 400 });
+  }
+  if (body.kind !== undefined && !MEMORY_KINDS.includes(body.kind)) {
+    return NextResponse.json({ error: `kind must be one of: ${MEMORY_KINDS.join(", ")}` }, { status: 400 });
+  }
+  if (body.content !== undefined && (typeof body.content !== "string" || !body.content.trim())) {
+    return NextResponse.json({ error: "content must be a non-empty string" }, { status: 400 });
+  }
+
+  const sourceIds = [...new Set(ids as string[])];
+  const admin = createAdminClient();
+
+  const { data: sources, error: readError } = await admin
+    .from("agent_memory")
+    .select("id, agent_id, kind, content, pinned, created_at")
+    .in("id", sourceIds)
+    .order("created_at", { ascending: true });
+
+  if (readError) {
+    return NextResponse.json({ error: readError.message }, { status: 500 });
+  }
+  if (!sources || sources.length !== sourceIds.length) {
+    return NextResponse.json({ error: "Some memories were not found" }, { status: 404 });
+  }
+
+  const agents = [...new Set(sources.map((s) => s.agent_id as string))];
+  const agentId: string | undefined = typeof body.agent_id === "string" && body.agent_id ? body.agent_id : undefined;
+  if (!agentId && agents.length > 1) {
+    return NextResponse.json(
+      { error: `Memories belong to several agents (${agents.join(", ")}) -- pass agent_id` },
+      { status: 400 }
+    );
+  }
+
+  const kindCounts = new Map<string, number>();
+  for (const s of sources) kindCounts.set(s.kind, (kindCounts.get(s.kind) ?? 0) + 1);
+  const commonKind = [...kindCounts.entries()].sort((a, b) => b[1] - a[1])[0][0] as MemoryKind;
+
+  const { data: merged, error: insertError } = await admin
+    .from("agent_memory")
+    .insert({
+      agent_id: agentId ?? agents[0],
+      kind: (body.kind as MemoryKind | undefined) ?? commonKind,
+      content: body.content?.trim() ?? sources.map((s) => s.content).join("\n"),
+      source: "merge",
+      pinned: sources.some((s) => s.pinned),
+    })
+    .select("id")
+    .single();
+
+  if (insertError || !merged) {
+    return NextResponse.json({ error: insertError?.message ?? "Insert failed" }, { status: 500 });
+  }
+
+  // Carry the sources' associations over to the merged memory
+  const { data: assocs } = await admin
+    .from("memory_associations")
+    .select("memory_id, related_memory_id, association_type, strength")
+    .or(sourceIds.map((id) => `memory_id.eq.${id},related_memory_id.eq.${id}`).join(","))
+    .limit(1000);
+
+  const inherited = new Map<string, { association_type: string; strength: number }>();
+  for (const a of assocs ?? []) {
+    const other = sourceIds.includes(a.memory_id) ? a.related_memory_id : a.memory_id;
+    if (sourceIds.includes(other)) continue;
+    const current = inherited.get(other);
+    if (!current || a.strength > current.strength) {
+      inherited.set(other, { association_type: a.association_type, strength: a.strength });
+    }
+  }
+
+  if (inherited.size > 0) {
+    const { error } = await admin.from("memory_associations").upsert(
+      [...inherited.entries()].map(([related, a]) => ({
+        memory_id: merged.id,
+        related_memory_id: related,
+        ...a,
+      })),
+      { onConflict: "memory_id,related_memory_id" }
+    );
+    if (error) console.error("[memory] Failed to carry associations into merge:", error.message);
+  }
+
+  const archiveError = await setArchived(admin, sourceIds, true, `Merged into ${merged.id.slice(0, 8)}`);
+  if (archiveError) {
+    return NextResponse.json({ error: archiveError }, { status: 500 });
+  }
+  // Pinned memories bypass the archive check in retrieval -- the pin moved to the merge
+  await admin.from("agent_memory").update({ pinned: false }).in("id", sourceIds).eq("pinned", true);
+
+  const { data: entry } = await admin.from("agent_memory_explorer").select("*").eq("id", merged.id).single();
+  return NextResponse.json(
+    { entry: entry as AgentMemoryEntry, merged: sourceIds, associations: inherited.size },
+    { status: 201 }
+  );
+}
@@ -1,39 +1,38 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createAdminClient } from "@/lib/supabase-admin";
 import { requireAuth, isValidUUID, clampLimit } from "@/lib/api-auth";
+import { MEMORY_KINDS, parseMemoryFilters, queryMemories } from "@/lib/agent-memory";
 
 export const runtime = "nodejs";
 
 /**
- * GET /api/agents/memory?agent_id=<id>&limit=<n>
- * Fetch recent memory entries for an agent (or all agents if no agent_id).
+ * GET /api/agents/memory
+ * Search memory entries (newest first). Query params, all optional:
+ *   agent_id, shared=false (exclude _shared), kind=fact,goal, source,
+ *   from / to (ISO, created_at), archived, anchored, pinned (true|false),
+ *   q (free text), sort=created_at|updated_at|decay_score|access_count,
+ *   limit (default 30, max 200), offset
  */
 export async function GET(request: NextRequest) {
   const auth = await requireAuth();
   if (auth.error) return auth.error;
 
-  const agentId = request.nextUrl.searchParams.get("agent_id");
-  const limit = clampLimit(request.nextUrl.searchParams.get("limit"), 30, 200);
-
-  const admin = createAdminClient();
-
-  let query = admin
-    .from("agent_memory")
-    .select("*")
-    .order("created_at", { ascending: false })
-    .limit(limit);
-
-  if (agentId) {
-    query = query.in("agent_id", [agentId, "_shared"]);
+  const params = request.nextUrl.searchParams;
+  const { filters, errors } = parseMemoryFilters(params);
+  if (errors.length > 0) {
+    return NextResponse.json({ error: errors.join("; ") }, { status: 400 });
   }
 
-  const { data, error } = await query;
+  const limit = clampLimit(params.get("limit"), 30, 200);
+  const offset = Math.max(0, parseInt(params.get("offset") || "0", 10) || 0);
+
+  const { entries, total, error } = await queryMemories(createAdminClient(), filters, limit, offset);
 
   if (error) {
-    return NextResponse.json({ error: error.message }, { status: 500 });
+    return NextResponse.json({ error }, { status: 500 });
   }
 
-  return NextResponse.json({ entries: data, count: data?.length ?? 0 });
+  return NextResponse.json({ entries, count: entries.length, total, offset });
 }
 
 /**
@@ -54,10 +53,9 @@ export async function POST(request: NextRequest) {
     );
   }
 
-  const validKinds = ["observation", "outcome", "fact", "error", "goal", "note"];
-  if (kind && !validKinds.includes(kind)) {
+  if (kind && !MEMORY_KINDS.includes(kind)) {
     return NextResponse.json(
-      { error: `kind must be one of: ${validKinds.join(", ")}` },
+      { error: `kind must be one of: ${MEMORY_KINDS.join(", ")}` },
       { status: 400 }
     );
   }
@@ -81,7 +79,7 @@ export async function POST(request: NextRequest) {
 
 /**
  * DELETE /api/agents/memory?id=<uuid>
- * Delete a specific memory entry.
+ * Delete a specific memory entry (same as DELETE /api/agents/memory/<id>).
  */
 export async function DELETE(request: NextRequest) {
   const auth = await requireAuth();
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase-server";
+import { parseAgentInput } from "@/lib/agent-registry";
+
+export const runtime = "nodejs";
+
+/**
+ * PATCH /api/agents/registry/[id] -- update fields, or retire/restore with
+ * { enabled: false|true }. Retired agents are kept for history; the bridge
+ * refuses to run them.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const body = await request.json().catch(() => ({}));
+  const { values, errors } = parseAgentInput(body, true);
+  const update: Record<string, unknown> = { ...values };
+
+  if (body.enabled !== undefined) {
+    if (typeof body.enabled !== "boolean") {
+      errors.push("enabled must be a boolean");
+    } else if (id === "main" && body.enabled === false) {
+      errors.push("main cannot be retired");
+    } else {
+      update.enabled = body.enabled;
+      update.retired_at = body.enabled ? null : new Date().toISOString();
+    }
+  }
+  if (errors.length > 0) {
+    return NextResponse.json({ error: errors.join("; "), errors }, { status: 400 });
+  }
+  if (Object.keys(update).length === 0) {
+    return NextResponse.json({ error: "Nothing to update" }, { status: 400 });
+  }
+
+  const { data, error } = await supabase
+    .from("agent_registry")
+    .update(update)
+    .eq("id", id)
+    .select()
+    .maybeSingle();
+
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 });
+  if (!data) return NextResponse.json({ error: "Agent not found" }, { status: 404 });
+  return NextResponse.json(data);
+}
+
+/** DELETE /api/agents/registry/[id] -- retire the agent (soft delete) */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  if (id === "main") {
+    return NextResponse.json({ error: "main cannot be retired" }, { status: 400 });
+  }
+
+  const { data, error } = await supabase
+    .from("agent_registry")
+    .update({ enabled: false, retired_at: new Date().toISOString() })
+    .eq("id", id)
+    .select()
+    .maybeSingle();
+
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 });
+  if (!data) return NextResponse.json({ error: "Agent not found" }, { status: 404 });
+  return NextResponse.json(data);
+}
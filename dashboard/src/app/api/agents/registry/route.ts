@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase-server";
+import { parseAgentInput } from "@/lib/agent-registry";
+
+export const runtime = "nodejs";
+
+/** GET /api/agents/registry -- all registered agents (retired included), in fleet order */
+export async function GET() {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const { data, error } = await supabase
+    .from("agent_registry")
+    .select("*")
+    .order("sort_order", { ascending: true })
+    .order("id", { ascending: true });
+
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 });
+  return NextResponse.json(data ?? []);
+}
+
+/** POST /api/agents/registry -- register a new agent (the bridge picks it up via Realtime) */
+export async function POST(request: NextRequest) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const body = await request.json().catch(() => ({}));
+  const { values, errors } = parseAgentInput(body, false);
+  if (errors.length > 0) {
+    return NextResponse.json({ error: errors.join("; "), errors }, { status: 400 });
+  }
+
+  const { data: existing } = await supabase
+    .from("agent_registry")
+    .select("id, enabled")
+    .eq("id", values.id!)
+    .maybeSingle();
+  if (existing) {
+    const hint = existing.enabled ? "" : " (retired -- restore it instead)";
+    return NextResponse.json({ error: `Agent "${values.id}" already exists${hint}` }, { status: 409 });
+  }
+
+  const { data, error } = await supabase
+    .from("agent_registry")
+    .insert({ ...values, created_by: user.id })
+    .select()
+    .single();
+
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 });
+  return NextResponse.json(data, { status: 201 });
+}
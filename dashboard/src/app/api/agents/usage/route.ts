@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase-server";
+
+export const runtime = "nodejs";
+
+const MAX_DAYS = 90;
+
+/** GET /api/agents/usage?days=7 — per-agent daily usage, per-swarm totals and budgets */
+export async function GET(request: NextRequest) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const daysParam = parseInt(request.nextUrl.searchParams.get("days") ?? "7", 10);
+  const days = Number.isFinite(daysParam) ? Math.min(Math.max(daysParam, 1), MAX_DAYS) : 7;
+
+  // Days are UTC, matching the bridge's budget window
+  const since = new Date();
+  since.setUTCHours(0, 0, 0, 0);
+  since.setUTCDate(since.getUTCDate() - (days - 1));
+
+  const [daily, swarms, budgets] = await Promise.all([
+    supabase
+      .from("agent_usage_daily")
+      .select("*")
+      .gte("day", since.toISOString())
+      .order("day", { ascending: false }),
+    supabase
+      .from("swarm_usage")
+      .select("*")
+      .gte("last_run_at", since.toISOString())
+      .order("last_run_at", { ascending: false })
+      .limit(20),
+    supabase.from("agent_budgets").select("*"),
+  ]);
+
+  const error = daily.error ?? swarms.error ?? budgets.error;
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 });
+
+  return NextResponse.json({
+    days,
+    daily: daily.data ?? [],
+    swarms: swarms.data ?? [],
+    budgets: budgets.data ?? [],
+  });
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase-server";
+import { getBridgeMetrics } from "@/lib/bridge-manager";
+
+export const runtime = "nodejs";
+
+/** GET /api/bridge/metrics -- JSON view of the bridge's Prometheus metrics */
+export async function GET() {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const snapshot = await getBridgeMetrics();
+  if (!snapshot) {
+    return NextResponse.json({ error: "Bridge metrics unavailable" }, { status: 503 });
+  }
+  return NextResponse.json(snapshot);
+}
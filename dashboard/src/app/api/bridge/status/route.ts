@@ -1,6 +1,6 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase-server";
-import { getBridgeStatus } from "@/lib/bridge-manager";
+import { getBridgeStatus, getBridgeInterceptors } from "@/lib/bridge-manager";
 
 export const runtime = "nodejs";
 
@@ -15,6 +15,7 @@ export async function GET() {
   }
 
   const status = await getBridgeStatus();
-  return NextResponse.json(status);
+  const interceptors = status.running ? await getBridgeInterceptors() : [];
+  return NextResponse.json({ ...status, interceptors });
 }
 
@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase-server";
+import { isValidUUID } from "@/lib/api-auth";
+import type { CommandContext, CommandContextDetail, ContextFeedback } from "@/lib/types";
+
+export const runtime = "nodejs";
+
+type Params = { params: Promise<{ id: string }> };
+
+const FEEDBACK: ContextFeedback[] = ["up", "down"];
+
+/**
+ * GET /api/commands/[id]/context
+ * The Soul context injected into a command at dispatch: memories (with
+ * their relevance, in injection order), dream insights, matched
+ * predictions and the character budget. `context` is null when nothing
+ * was injected.
+ */
+export async function GET(_request: NextRequest, { params }: Params) {
+  const { id } = await params;
+  if (!isValidUUID(id)) {
+    return NextResponse.json({ error: "Valid UUID id is required" }, { status: 400 });
+  }
+
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const [cmdRes, ctxRes] = await Promise.all([
+    supabase.from("agent_commands").select("id").eq("id", id).maybeSingle(),
+    supabase.from("command_context").select("*").eq("command_id", id).maybeSingle(),
+  ]);
+
+  if (cmdRes.error) return NextResponse.json({ error: cmdRes.error.message }, { status: 500 });
+  if (!cmdRes.data) return NextResponse.json({ error: "Command not found" }, { status: 404 });
+  if (ctxRes.error) return NextResponse.json({ error: ctxRes.error.message }, { status: 500 });
+
+  const context = ctxRes.data as CommandContext | null;
+  if (!context) {
+    const empty: CommandContextDetail = { command_id: id, context: null, memories: [], insights: [], predictions: [] };
+    return NextResponse.json(empty);
+  }
+
+  const [memRes, insightRes, predictionRes] = await Promise.all([
+    context.memory_ids.length > 0
+      ? supabase.from("agent_memory").select("id, agent_id, kind, content, created_at").in("id", context.memory_ids)
+      : Promise.resolve({ data: [] }),
+    context.insight_ids.length > 0
+      ? supabase.from("dream_insights").select("id, insight, category, confidence").in("id", context.insight_ids)
+      : Promise.resolve({ data: [] }),
+    context.prediction_ids.length > 0
+      ? supabase
+          .from("predictive_contexts")
+          .select("id, trigger_type, predicted_intent, confidence, was_useful")
+          .in("id", context.prediction_ids)
+      : Promise.resolve({ data: [] }),
+  ]);
+
+  const memoryById = new Map(
+    ((memRes.data ?? []) as NonNullable<CommandContextDetail["memories"][number]["entry"]>[]).map((m) => [m.id, m])
+  );
+
+  const detail: CommandContextDetail = {
+    command_id: id,
+    context,
+    memories: context.memory_ids.map((memoryId, i) => ({
+      id: memoryId,
+      relevance: context.memory_relevance[i] ?? null,
+      entry: memoryById.get(memoryId) ?? null,
+    })),
+    insights: (insightRes.data ?? []) as CommandContextDetail["insights"],
+    predictions: (predictionRes.data ?? []) as CommandContextDetail["predictions"],
+  };
+  return NextResponse.json(detail);
+}
+
+/**
+ * POST /api/commands/[id]/context
+ * Body: { feedback: "up" | "down" }
+ *
+ * Thumbs up/down on the injected context. The bridge applies it once:
+ * associations between the injected memories are reinforced (or
+ * weakened) and matched predictions are consumed as useful (or not).
+ * Feedback can't be changed after the bridge has applied it.
+ */
+export async function POST(request: NextRequest, { params }: Params) {
+  const { id } = await params;
+  if (!isValidUUID(id)) {
+    return NextResponse.json({ error: "Valid UUID id is required" }, { status: 400 });
+  }
+
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const body = await request.json().catch(() => null);
+  const feedback = body?.feedback as ContextFeedback;
+  if (!FEEDBACK.includes(feedback)) {
+    return NextResponse.json({ error: "feedback must be up|down" }, { status: 400 });
+  }
+
+  const { data: existing, error: readError } = await supabase
+    .from("command_context")
+    .select("feedback_applied_at")
+    .eq("command_id", id)
+    .maybeSingle();
+
+  if (readError) return NextResponse.json({ error: readError.message }, { status: 500 });
+  if (!existing) {
+    return NextResponse.json({ error: "No Soul context was recorded for this command" }, { status: 404 });
+  }
+  if (existing.feedback_applied_at) {
+    return NextResponse.json({ error: "Feedback was already applied" }, { status: 409 });
+  }
+
+  const { data, error } = await supabase
+    .from("command_context")
+    .update({ feedback, feedback_at: new Date().toISOString() })
+    .eq("command_id", id)
+    .is("feedback_applied_at", null)
+    .select("*")
+    .maybeSingle();
+
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 });
+  if (!data) return NextResponse.json({ error: "Feedback was already applied" }, { status: 409 });
+  return NextResponse.json(data as CommandContext);
+}
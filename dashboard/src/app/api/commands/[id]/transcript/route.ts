@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase-server";
+import {
+  TRANSCRIPT_FORMATS,
+  loadTranscript,
+  toJsonLines,
+  toMarkdown,
+  toPlainText,
+  type TranscriptFormat,
+} from "@/lib/transcript";
+
+export const runtime = "nodejs";
+
+/**
+ * GET /api/commands/[id]/transcript?since=<seq>&format=json|text|markdown|jsonl
+ *
+ * json (default) returns { content, reset, last_seq, is_final, ... } for
+ * clients catching up after a reconnect: append `content`, or replace with
+ * it when `reset` is set, then resume from `last_seq`. The other formats
+ * are exports of the same output.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const sp = request.nextUrl.searchParams;
+  const since = Number(sp.get("since") ?? 0);
+  if (!Number.isInteger(since) || since < 0) {
+    return NextResponse.json({ error: "since must be a non-negative integer" }, { status: 400 });
+  }
+  const format = (sp.get("format") ?? "json") as TranscriptFormat;
+  if (!TRANSCRIPT_FORMATS.includes(format)) {
+    return NextResponse.json({ error: `format must be ${TRANSCRIPT_FORMATS.join("|")}` }, { status: 400 });
+  }
+
+  const { data: command, error: cmdError } = await supabase
+    .from("agent_commands")
+    .select("id, agent_id, message, status, created_at")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (cmdError) return NextResponse.json({ error: cmdError.message }, { status: 500 });
+  if (!command) return NextResponse.json({ error: "Command not found" }, { status: 404 });
+
+  const { slice, error } = await loadTranscript(supabase, id, since);
+  if (error || !slice) return NextResponse.json({ error }, { status: 500 });
+
+  if (format === "json") {
+    return NextResponse.json({
+      command_id: id,
+      status: command.status,
+      since,
+      content: slice.content,
+      reset: slice.reset,
+      last_seq: slice.last_seq,
+      is_final: slice.is_final,
+      compacted: slice.compacted,
+    });
+  }
+
+  const exporters: Record<Exclude<TranscriptFormat, "json">, { ext: string; type: string; render: () => string }> = {
+    text: { ext: "txt", type: "text/plain", render: () => toPlainText(slice.content) },
+    markdown: { ext: "md", type: "text/markdown", render: () => toMarkdown(command, slice.content) },
+    jsonl: { ext: "jsonl", type: "application/x-ndjson", render: () => toJsonLines(slice.entries) },
+  };
+  const out = exporters[format];
+
+  return new NextResponse(out.render(), {
+    headers: {
+      "Content-Type": `${out.type}; charset=utf-8`,
+      "Content-Disposition": `inline; filename="command-${id.slice(0, 8)}.${out.ext}"`,
+      "Cache-Control": "no-store",
+    },
+  });
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase-server";
+import { assembleOutput } from "@/lib/transcript";
 
 /**
  * GET /api/commands/history?agent_id=main&limit=50
@@ -46,23 +47,36 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({ conversations: [] });
   }
 
-  // Fetch all responses for these commands in one query
+  // Fetch transcripts + remaining chunks for these commands in two queries
   const commandIds = commands.map((c) => c.id);
-  const { data: responses, error: respError } = await supabase
-    .from("agent_responses")
-    .select("command_id, content, is_final, created_at")
-    .in("command_id", commandIds)
-    .order("created_at", { ascending: true });
+  const [{ data: transcripts, error: tError }, { data: responses, error: respError }] = await Promise.all([
+    supabase
+      .from("command_transcripts")
+      .select("command_id, content, last_seq")
+      .in("command_id", commandIds),
+    supabase
+      .from("agent_responses")
+      .select("command_id, seq, content")
+      .in("command_id", commandIds)
+      .order("seq", { ascending: true }),
+  ]);
 
-  if (respError) {
-    return NextResponse.json({ error: respError.message }, { status: 500 });
+  if (tError || respError) {
+    return NextResponse.json({ error: (tError ?? respError)!.message }, { status: 500 });
   }
 
-  // Group responses by command_id and concatenate content
-  const responseMap = new Map<string, string>();
+  // Group chunks by command_id and join them onto any compacted transcript
+  const chunkMap = new Map<string, { seq: number; content: string }[]>();
   for (const r of responses || []) {
-    const existing = responseMap.get(r.command_id) || "";
-    responseMap.set(r.command_id, existing + r.content);
+    const list = chunkMap.get(r.command_id) ?? [];
+    list.push(r);
+    chunkMap.set(r.command_id, list);
+  }
+  const transcriptMap = new Map((transcripts || []).map((t) => [t.command_id, t]));
+  const responseMap = new Map<string, string>();
+  for (const id of commandIds) {
+    const output = assembleOutput(transcriptMap.get(id) ?? null, chunkMap.get(id) ?? []);
+    if (output) responseMap.set(id, output);
   }
 
   // Build conversation entries
@@ -14,7 +14,7 @@ export async function POST(request: NextRequest) {
   }
 
   const body = await request.json();
-  const { agent_id = "main", message } = body;
+  const { agent_id = "main", message, priority = 0 } = body;
 
   if (!message || typeof message !== "string" || message.trim().length === 0) {
     return NextResponse.json(
@@ -23,12 +23,20 @@ export async function POST(request: NextRequest) {
     );
   }
 
+  if (!Number.isInteger(priority) || priority < -10 || priority > 10) {
+    return NextResponse.json(
+      { error: "priority must be an integer between -10 and 10" },
+      { status: 400 }
+    );
+  }
+
   const { data, error } = await supabase
     .from("agent_commands")
     .insert({
       agent_id,
       message: message.trim(),
       status: "pending",
+      priority,
       created_by: user.id,
     })
     .select()
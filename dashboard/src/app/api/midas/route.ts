@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createAdminClient } from "@/lib/supabase-admin";
 import { requireAuth } from "@/lib/api-auth";
+import { analyzeExperiments } from "@/lib/pricing-experiments";
 
 export const runtime = "nodejs";
 
@@ -140,39 +141,44 @@ export async function GET(request: NextRequest) {
 
       // ---- Phase 2: A/B Pricing Experiments ----
       case "experiments": {
-        const { data } = await supabase
-          .from("pricing_experiments")
-          .select("*")
-          .order("endpoint_path", { ascending: true })
-          .order("variant_name", { ascending: true });
-
-        const experiments = data || [];
-        // Compute summary per endpoint
-        const byEndpoint: Record<string, { control: typeof experiments[0] | null; premium: typeof experiments[0] | null }> = {};
-        for (const exp of experiments) {
-          if (!byEndpoint[exp.endpoint_path]) byEndpoint[exp.endpoint_path] = { control: null, premium: null };
-          if (exp.variant_name === "control") byEndpoint[exp.endpoint_path].control = exp;
-          else byEndpoint[exp.endpoint_path].premium = exp;
-        }
-
-        const summary = Object.entries(byEndpoint).map(([endpoint, variants]) => {
-          const c = variants.control;
-          const p = variants.premium;
+        const [experimentsRes, statsRes] = await Promise.all([
+          supabase
+            .from("pricing_experiments")
+            .select("*")
+            .order("endpoint_path", { ascending: true })
+            .order("variant_name", { ascending: true }),
+          supabase.from("pricing_experiment_variant_stats").select("*"),
+        ]);
+
+        const experiments = experimentsRes.data || [];
+        // Significance per endpoint over sticky per-payer assignments
+        const results = analyzeExperiments(experiments, statsRes.data || []);
+
+        const summary = results.map((r) => {
+          const c = r.variants.find((v) => v.variant === r.control);
+          const p = r.variants.find((v) => v.variant !== r.control);
           return {
-            endpoint,
+            endpoint: r.endpoint,
             controlPrice: c?.price_usd,
             premiumPrice: p?.price_usd,
             controlConversionRate: c?.conversion_rate || 0,
             premiumConversionRate: p?.conversion_rate || 0,
             controlRevenue: c?.revenue_usd || 0,
             premiumRevenue: p?.revenue_usd || 0,
-            winner: (c?.conversion_rate || 0) >= (p?.conversion_rate || 0) ? "control" : "premium",
+            controlPayers: c?.payers || 0,
+            premiumPayers: p?.payers || 0,
+            pValue: r.comparisons[0]?.revenue_p_value ?? null,
+            sampleReady: r.sample_ready,
+            // null until one variant earns significantly more per payer
+            winner: r.winner,
+            verdict: r.summary,
           };
         });
 
         return NextResponse.json({
           experiments,
           summary,
+          results,
           totalExperiments: experiments.length,
           activeExperiments: experiments.filter(e => e.is_active).length,
         });
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase-admin";
+import { requireAuth, isValidUUID } from "@/lib/api-auth";
+import type { MemoryContradiction } from "@/lib/types";
+
+export const runtime = "nodejs";
+
+type Params = { params: Promise<{ id: string }> };
+
+/**
+ * POST /api/soul/contradictions/[id]
+ * Resolve an open contradiction. Body: { winner_id } (one of the pair's
+ * memories) or { dismiss: true } (not actually a conflict). The bridge
+ * archives the loser and updates the correction insight.
+ */
+export async function POST(request: NextRequest, { params }: Params) {
+  const auth = await requireAuth();
+  if (auth.error) return auth.error;
+
+  const { id } = await params;
+  if (!isValidUUID(id)) {
+    return NextResponse.json({ error: "Valid UUID id is required" }, { status: 400 });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const dismiss = body.dismiss === true;
+  const winnerId = body.winner_id;
+  if (!dismiss && (typeof winnerId !== "string" || !isValidUUID(winnerId))) {
+    return NextResponse.json({ error: "winner_id (UUID) or dismiss: true is required" }, { status: 400 });
+  }
+
+  const admin = createAdminClient();
+  const { data: row, error: readError } = await admin
+    .from("memory_contradictions")
+    .select("*")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (readError) return NextResponse.json({ error: readError.message }, { status: 500 });
+  if (!row) return NextResponse.json({ error: "Contradiction not found" }, { status: 404 });
+
+  const current = row as MemoryContradiction;
+  if (current.status !== "open") {
+    return NextResponse.json({ error: `Contradiction already ${current.status}` }, { status: 409 });
+  }
+  if (!dismiss && winnerId !== current.memory_a_id && winnerId !== current.memory_b_id) {
+    return NextResponse.json({ error: "winner_id must be one of the two conflicting memories" }, { status: 400 });
+  }
+
+  // Only flip rows that are still open — a concurrent resolution wins
+  const { data, error } = await admin
+    .from("memory_contradictions")
+    .update({
+      status: dismiss ? "dismissed" : "resolved",
+      winner_id: dismiss ? null : winnerId,
+      resolved_by: auth.user.id,
+      resolved_at: new Date().toISOString(),
+    })
+    .eq("id", id)
+    .eq("status", "open")
+    .select()
+    .maybeSingle();
+
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 });
+  if (!data) return NextResponse.json({ error: "Contradiction was resolved concurrently" }, { status: 409 });
+
+  return NextResponse.json({ contradiction: data as MemoryContradiction });
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase-admin";
+import { requireAuth, clampLimit } from "@/lib/api-auth";
+import type { MemoryContradiction, MemoryContradictionDetail } from "@/lib/types";
+
+export const runtime = "nodejs";
+
+const STATUSES = ["open", "resolved", "dismissed", "all"];
+
+/**
+ * GET /api/soul/contradictions
+ * Conflicting fact/goal pairs with both memories attached (newest first).
+ *   status=open|resolved|dismissed|all (default open), limit (default 50, max 200)
+ */
+export async function GET(request: NextRequest) {
+  const auth = await requireAuth();
+  if (auth.error) return auth.error;
+
+  const params = request.nextUrl.searchParams;
+  const status = params.get("status") ?? "open";
+  if (!STATUSES.includes(status)) {
+    return NextResponse.json({ error: `status must be one of: ${STATUSES.join(", ")}` }, { status: 400 });
+  }
+  const limit = clampLimit(params.get("limit"), 50, 200);
+
+  const admin = createAdminClient();
+  let query = admin.from("memory_contradictions").select("*");
+  if (status !== "all") query = query.eq("status", status);
+
+  const { data, error } = await query.order("created_at", { ascending: false }).limit(limit);
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 });
+
+  const rows = (data ?? []) as MemoryContradiction[];
+  const memoryIds = [...new Set(rows.flatMap((r) => [r.memory_a_id, r.memory_b_id]))];
+
+  const memories = new Map<string, MemoryContradictionDetail["memory_a"]>();
+  if (memoryIds.length > 0) {
+    const { data: entries, error: entriesError } = await admin
+      .from("agent_memory_explorer")
+      .select("id, agent_id, kind, content, source, pinned, archived, created_at")
+      .in("id", memoryIds);
+    if (entriesError) return NextResponse.json({ error: entriesError.message }, { status: 500 });
+    for (const entry of entries ?? []) memories.set(entry.id, entry);
+  }
+
+  const contradictions: MemoryContradictionDetail[] = rows.map((r) => ({
+    ...r,
+    memory_a: memories.get(r.memory_a_id) ?? null,
+    memory_b: memories.get(r.memory_b_id) ?? null,
+  }));
+
+  return NextResponse.json({ contradictions, count: contradictions.length });
+}
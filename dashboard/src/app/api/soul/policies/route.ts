@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase-server";
+import { isActiveAgent } from "@/lib/agent-registry";
+import { DEFAULT_POLICY_ID, parseSoulPolicyInput } from "@/lib/soul-policy";
+
+export const runtime = "nodejs";
+
+/** GET /api/soul/policies — every Soul policy row ('_default' + per-agent overrides) */
+export async function GET() {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const { data, error } = await supabase
+    .from("soul_policies")
+    .select("*")
+    .order("agent_id");
+
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 });
+  return NextResponse.json(data ?? []);
+}
+
+/**
+ * POST /api/soul/policies — create or replace a policy.
+ * Omitted or null fields inherit from '_default'; the bridge picks
+ * the change up via Realtime.
+ */
+export async function POST(request: NextRequest) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const body = await request.json().catch(() => ({}));
+  const agent_id = body.agent_id;
+
+  if (typeof agent_id !== "string" || agent_id.length === 0) {
+    return NextResponse.json({ error: "agent_id is required" }, { status: 400 });
+  }
+  const isDefault = agent_id === DEFAULT_POLICY_ID;
+  if (!isDefault && !(await isActiveAgent(supabase, agent_id))) {
+    return NextResponse.json({ error: `Unknown agent_id: ${agent_id}` }, { status: 400 });
+  }
+
+  const { values, errors } = parseSoulPolicyInput(body, isDefault);
+  if (errors.length > 0) {
+    return NextResponse.json({ error: errors.join("; ") }, { status: 400 });
+  }
+
+  const { data, error } = await supabase
+    .from("soul_policies")
+    .upsert({ agent_id, ...values, updated_by: user.id }, { onConflict: "agent_id" })
+    .select()
+    .single();
+
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 });
+  return NextResponse.json(data);
+}
+
+/** DELETE /api/soul/policies?agent_id=x — drop an override (the agent falls back to '_default') */
+export async function DELETE(request: NextRequest) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const agentId = request.nextUrl.searchParams.get("agent_id");
+  if (!agentId) return NextResponse.json({ error: "agent_id is required" }, { status: 400 });
+  if (agentId === DEFAULT_POLICY_ID) {
+    return NextResponse.json({ error: `${DEFAULT_POLICY_ID} cannot be removed` }, { status: 400 });
+  }
+
+  const { error } = await supabase
+    .from("soul_policies")
+    .delete()
+    .eq("agent_id", agentId);
+
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 });
+  return NextResponse.json({ ok: true });
+}
@@ -1,14 +1,27 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createAdminClient } from "@/lib/supabase-admin";
 import { requireAuth, isValidUUID, clampLimit } from "@/lib/api-auth";
+import { getBridgeDreamConfig } from "@/lib/bridge-manager";
+import {
+  BUILTIN_LUCID_POLICY,
+  MANIFESTATION_CATEGORIES,
+  appliedManifestation,
+  parseLucidPolicyInput,
+  previewManifestation,
+} from "@/lib/lucid-dream";
+import type { LucidPolicy } from "@/lib/types";
 
 export const runtime = "nodejs";
 
 /**
- * GET /api/soul?action=proposals|stats|sessions|manifest&id=<uuid>
+ * GET /api/soul?action=proposals|stats|sessions|manifest|diff|modifications|lucid_policies|dream_config&id=<uuid>
  *
  * Soul Lucid Dreaming API — manages dream proposals, sessions,
  * and manifestation lifecycle.
+ *
+ *   diff            id — what approving a proposal will change (live associations),
+ *                   or what an executed one changed and undo would revert
+ *   lucid_policies  per-category auto-execute switch + confidence threshold
  */
 export async function GET(request: NextRequest) {
   const auth = await requireAuth();
@@ -72,6 +85,7 @@ export async function GET(request: NextRequest) {
         auto_executed: 0,
         rejected: 0,
         expired: 0,
+        undone: 0,
         by_category: {} as Record<string, number>,
       };
 
@@ -82,6 +96,7 @@ export async function GET(request: NextRequest) {
         else if (s === "auto_executed") stats.auto_executed++;
         else if (s === "rejected") stats.rejected++;
         else if (s === "expired") stats.expired++;
+        else if (s === "undone") stats.undone++;
         stats.by_category[row.category] = (stats.by_category[row.category] ?? 0) + 1;
       }
 
@@ -122,14 +137,54 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ manifest: data });
     }
 
+    /* ── Review Diff ───────────────────────────── */
+    case "diff": {
+      const id = request.nextUrl.searchParams.get("id");
+      if (!id || !isValidUUID(id)) {
+        return NextResponse.json({ error: "Valid UUID id required" }, { status: 400 });
+      }
+
+      const { data: manifest, error: fetchErr } = await admin
+        .from("soul_dream_manifestations")
+        .select("id, status, proposed_action")
+        .eq("id", id)
+        .maybeSingle();
+
+      if (fetchErr) {
+        return NextResponse.json({ error: fetchErr.message }, { status: 500 });
+      }
+      if (!manifest) {
+        return NextResponse.json({ error: "Manifest not found" }, { status: 404 });
+      }
+
+      // Anything that ran (or was undone) is shown from its log, not re-simulated
+      const ran = ["executed", "auto_executed", "undone"].includes(manifest.status);
+      const { diff, error } = ran
+        ? await appliedManifestation(admin, manifest)
+        : await previewManifestation(admin, manifest);
+
+      if (error) {
+        return NextResponse.json({ error }, { status: 500 });
+      }
+      return NextResponse.json({ diff });
+    }
+
     /* ── Modification Log ──────────────────────── */
     case "modifications": {
       const limit = clampLimit(request.nextUrl.searchParams.get("limit"), 30, 100);
-      const { data, error } = await admin
+      const manifestId = request.nextUrl.searchParams.get("id");
+      if (manifestId && !isValidUUID(manifestId)) {
+        return NextResponse.json({ error: "id must be a UUID" }, { status: 400 });
+      }
+
+      let query = admin
         .from("soul_association_modifications")
         .select("*")
         .order("created_at", { ascending: false })
         .limit(limit);
+      if (manifestId) query = query.eq("manifestation_id", manifestId);
+
+      const { data, error } = await query;
 
       if (error) {
         return NextResponse.json({ error: error.message }, { status: 500 });
@@ -137,6 +192,43 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ modifications: data ?? [] });
     }
 
+    /* ── Auto-Execute Policies ─────────────────── */
+    case "lucid_policies": {
+      const { data, error } = await admin.from("soul_lucid_policies").select("*");
+
+      if (error) {
+        return NextResponse.json({ error: error.message }, { status: 500 });
+      }
+
+      // One entry per category; missing rows show the bridge's fallback
+      const rows = new Map(((data ?? []) as LucidPolicy[]).map((p) => [p.category, p]));
+      const policies: LucidPolicy[] = MANIFESTATION_CATEGORIES.map(
+        (category) =>
+          rows.get(category) ?? { category, ...BUILTIN_LUCID_POLICY, updated_by: null, updated_at: new Date(0).toISOString() }
+      );
+      return NextResponse.json({ policies });
+    }
+
+    /* ── Dream Consolidation Config ────────────── */
+    case "dream_config": {
+      // Lives in the bridge's env; null when the bridge isn't running
+      const [consolidation, { data: generators }] = await Promise.all([
+        getBridgeDreamConfig(),
+        admin
+          .from("dream_insights")
+          .select("generator")
+          .gte("generated_at", new Date(Date.now() - 7 * 86_400_000).toISOString())
+          .limit(1000),
+      ]);
+
+      const byGenerator: Record<string, number> = {};
+      for (const row of (generators ?? []) as Array<{ generator: string | null }>) {
+        const key = row.generator ?? "heuristic";
+        byGenerator[key] = (byGenerator[key] ?? 0) + 1;
+      }
+      return NextResponse.json({ consolidation, insights7d: byGenerator });
+    }
+
     default:
       return NextResponse.json(
         { error: `Unknown action: ${action}` },
@@ -147,7 +239,12 @@ export async function GET(request: NextRequest) {
 
 /**
  * POST /api/soul
- * Body: { action: "approve" | "reject" | "trigger_dream", id?, reason? }
+ * Body: { action: "approve" | "reject" | "undo" | "set_policy" | "trigger_dream", id?, reason? }
+ *
+ * approve marks a proposal approved; the bridge executes it and stamps
+ * execution_result. undo asks the bridge to revert an executed
+ * association change from its modification log. set_policy takes
+ * { category, auto_execute, min_confidence }.
  */
 export async function POST(request: NextRequest) {
   const auth = await requireAuth();
@@ -183,7 +280,7 @@ export async function POST(request: NextRequest) {
         );
       }
 
-      // Mark approved + executed
+      // Mark approved — the bridge's lucid reviewer executes it
       const { error: updateErr } = await admin
         .from("soul_dream_manifestations")
         .update({
@@ -191,7 +288,8 @@ export async function POST(request: NextRequest) {
           approved_by: "user",
           approved_at: new Date().toISOString(),
         })
-        .eq("id", id);
+        .eq("id", id)
+        .eq("status", "proposed");
 
       if (updateErr) {
         return NextResponse.json({ error: updateErr.message }, { status: 500 });
@@ -222,6 +320,86 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ success: true, status: "rejected" });
     }
 
+    /* ── Undo an Executed Manifestation ────────── */
+    case "undo": {
+      if (!id || !isValidUUID(id)) {
+        return NextResponse.json({ error: "Valid UUID id required" }, { status: 400 });
+      }
+
+      const { data: manifest, error: fetchErr } = await admin
+        .from("soul_dream_manifestations")
+        .select("id, status, undo_requested_at, undone_at")
+        .eq("id", id)
+        .maybeSingle();
+
+      if (fetchErr) {
+        return NextResponse.json({ error: fetchErr.message }, { status: 500 });
+      }
+      if (!manifest) {
+        return NextResponse.json({ error: "Manifest not found" }, { status: 404 });
+      }
+      if (manifest.status !== "executed" && manifest.status !== "auto_executed") {
+        return NextResponse.json(
+          { error: `Cannot undo: status is ${manifest.status}` },
+          { status: 409 }
+        );
+      }
+      if (manifest.undo_requested_at && !manifest.undone_at) {
+        return NextResponse.json({ success: true, status: "undo_pending" });
+      }
+
+      const { count, error: countErr } = await admin
+        .from("soul_association_modifications")
+        .select("id", { count: "exact", head: true })
+        .eq("manifestation_id", id)
+        .is("undone_at", null);
+
+      if (countErr) {
+        return NextResponse.json({ error: countErr.message }, { status: 500 });
+      }
+      if (!count) {
+        return NextResponse.json(
+          { error: "Nothing to undo: this manifestation made no association changes" },
+          { status: 409 }
+        );
+      }
+
+      const { error } = await admin
+        .from("soul_dream_manifestations")
+        .update({
+          undo_requested_at: new Date().toISOString(),
+          undo_requested_by: auth.user.id,
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", id);
+
+      if (error) {
+        return NextResponse.json({ error: error.message }, { status: 500 });
+      }
+
+      return NextResponse.json({ success: true, status: "undo_pending", changes: count });
+    }
+
+    /* ── Auto-Execute Policy ───────────────────── */
+    case "set_policy": {
+      const { values, errors } = parseLucidPolicyInput(body);
+      if (!values) {
+        return NextResponse.json({ error: errors.join("; ") }, { status: 400 });
+      }
+
+      const { data, error } = await admin
+        .from("soul_lucid_policies")
+        .upsert({ ...values, updated_by: auth.user.id }, { onConflict: "category" })
+        .select()
+        .single();
+
+      if (error) {
+        return NextResponse.json({ error: error.message }, { status: 500 });
+      }
+
+      return NextResponse.json({ policy: data });
+    }
+
     /* ── Manual Dream Trigger ──────────────────── */
     case "trigger_dream": {
       // Signal the bridge to trigger a dream via a command entry
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase-server";
+
+export const runtime = "nodejs";
+
+/**
+ * POST /api/swarms/[id]/resume -- resume a failed or cancelled swarm.
+ * The run goes back to pending; the bridge keeps completed task outputs
+ * and re-runs everything else.
+ */
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const { data: run, error: fetchErr } = await supabase
+    .from("swarm_runs")
+    .select("status")
+    .eq("id", id)
+    .single();
+
+  if (fetchErr || !run) {
+    return NextResponse.json({ error: "Swarm run not found" }, { status: 404 });
+  }
+  if (run.status !== "failed" && run.status !== "cancelled") {
+    return NextResponse.json(
+      { error: `Cannot resume run in status: ${run.status}` },
+      { status: 400 }
+    );
+  }
+
+  // Guard on the status we just read so two clicks can't both resume
+  const { data: resumed, error: updateErr } = await supabase
+    .from("swarm_runs")
+    .update({ status: "pending" })
+    .eq("id", id)
+    .eq("status", run.status)
+    .select("id");
+
+  if (updateErr) {
+    return NextResponse.json({ error: updateErr.message }, { status: 500 });
+  }
+  if (!resumed || resumed.length === 0) {
+    return NextResponse.json({ error: "Run status changed, try again" }, { status: 409 });
+  }
+
+  const { count } = await supabase
+    .from("swarm_tasks")
+    .select("id", { count: "exact", head: true })
+    .eq("swarm_id", id)
+    .eq("status", "completed")
+    .neq("task_id", "__synthesis__");
+
+  return NextResponse.json({ ok: true, completedTasks: count ?? 0 });
+}
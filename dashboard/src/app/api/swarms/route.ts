@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase-server";
+import { validateDag, validateTaskPolicies } from "@/lib/swarm-dag";
 
 export const runtime = "nodejs";
 
@@ -38,12 +39,23 @@ export async function POST(request: NextRequest) {
   const body = await request.json().catch(() => ({}));
   const { name, mode, manifest } = body;
 
-  if (!mode || !["parallel", "pipeline", "collaborative"].includes(mode)) {
-    return NextResponse.json({ error: "mode must be parallel|pipeline|collaborative" }, { status: 400 });
+  if (!mode || !["parallel", "pipeline", "collaborative", "dag"].includes(mode)) {
+    return NextResponse.json({ error: "mode must be parallel|pipeline|collaborative|dag" }, { status: 400 });
   }
   if (!manifest || typeof manifest !== "object") {
     return NextResponse.json({ error: "manifest object is required" }, { status: 400 });
   }
+  if (mode === "dag") {
+    const errors = validateDag(Array.isArray(manifest.tasks) ? manifest.tasks : []);
+    if (errors.length > 0) {
+      return NextResponse.json({ error: `Invalid DAG: ${errors.join("; ")}`, errors }, { status: 400 });
+    }
+  } else if (Array.isArray(manifest.tasks)) {
+    const errors = validateTaskPolicies(manifest.tasks, mode);
+    if (errors.length > 0) {
+      return NextResponse.json({ error: `Invalid task policy: ${errors.join("; ")}`, errors }, { status: 400 });
+    }
+  }
 
   const { data, error } = await supabase
     .from("swarm_runs")
@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase-server";
+import { parseScheduleInput, computeNextRunAt } from "@/lib/swarm-schedules";
+
+export const runtime = "nodejs";
+
+/** GET /api/swarms/schedules/[id] -- schedule details + occurrence history */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const limit = Math.min(parseInt(request.nextUrl.searchParams.get("limit") || "50", 10) || 50, 200);
+
+  const [scheduleRes, runsRes] = await Promise.all([
+    supabase.from("swarm_schedules").select("*").eq("id", id).single(),
+    supabase
+      .from("swarm_schedule_runs")
+      .select("*")
+      .eq("schedule_id", id)
+      .order("scheduled_for", { ascending: false })
+      .limit(limit),
+  ]);
+
+  if (scheduleRes.error) {
+    return NextResponse.json({ error: "Schedule not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({
+    schedule: scheduleRes.data,
+    occurrences: runsRes.data ?? [],
+  });
+}
+
+/** PATCH /api/swarms/schedules/[id] -- update a schedule (any subset of fields) */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const { data: existing, error: fetchErr } = await supabase
+    .from("swarm_schedules")
+    .select("cron, timezone, enabled")
+    .eq("id", id)
+    .single();
+  if (fetchErr || !existing) {
+    return NextResponse.json({ error: "Schedule not found" }, { status: 404 });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const { values, errors } = await parseScheduleInput(body, true);
+  if (errors.length > 0) {
+    return NextResponse.json({ error: errors.join("; "), errors }, { status: 400 });
+  }
+
+  // Re-plan from now when timing changes or the schedule is re-enabled, so
+  // occurrences from before the edit aren't reported as missed
+  const update: Record<string, unknown> = { ...values };
+  const cron = values.cron ?? existing.cron;
+  const timezone = values.timezone ?? existing.timezone;
+  if (
+    cron !== existing.cron ||
+    timezone !== existing.timezone ||
+    (values.enabled === true && !existing.enabled)
+  ) {
+    update.next_run_at = computeNextRunAt(cron, timezone);
+  }
+
+  const { data, error } = await supabase
+    .from("swarm_schedules")
+    .update(update)
+    .eq("id", id)
+    .select()
+    .single();
+
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 });
+  return NextResponse.json(data);
+}
+
+/** DELETE /api/swarms/schedules/[id] -- delete a schedule (its runs are kept) */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const { error } = await supabase.from("swarm_schedules").delete().eq("id", id);
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 });
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase-server";
+import { parseScheduleInput, computeNextRunAt } from "@/lib/swarm-schedules";
+import type { SwarmScheduleRun } from "@/lib/types";
+
+export const runtime = "nodejs";
+
+/** Occurrences returned per schedule in the list view */
+const RECENT_OCCURRENCES = 5;
+
+/** GET /api/swarms/schedules -- list schedules with their most recent occurrences */
+export async function GET() {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const { data: schedules, error } = await supabase
+    .from("swarm_schedules")
+    .select("*")
+    .order("created_at", { ascending: true });
+
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 });
+
+  const recent = await Promise.all(
+    (schedules ?? []).map((s) =>
+      supabase
+        .from("swarm_schedule_runs")
+        .select("*")
+        .eq("schedule_id", s.id)
+        .order("scheduled_for", { ascending: false })
+        .limit(RECENT_OCCURRENCES)
+        .then(({ data }) => (data ?? []) as SwarmScheduleRun[])
+    )
+  );
+
+  return NextResponse.json(
+    (schedules ?? []).map((s, i) => ({ ...s, recent: recent[i] }))
+  );
+}
+
+/** POST /api/swarms/schedules -- create a schedule */
+export async function POST(request: NextRequest) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const body = await request.json().catch(() => ({}));
+  const { values, errors } = await parseScheduleInput(body, false);
+  if (errors.length > 0) {
+    return NextResponse.json({ error: errors.join("; "), errors }, { status: 400 });
+  }
+
+  const timezone = values.timezone ?? "UTC";
+  const { data, error } = await supabase
+    .from("swarm_schedules")
+    .insert({
+      ...values,
+      timezone,
+      next_run_at: computeNextRunAt(values.cron!, timezone),
+      created_by: user.id,
+    })
+    .select()
+    .single();
+
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 });
+  return NextResponse.json(data);
+}
@@ -11,6 +11,7 @@ import { VoiceSettingsPanel } from "./VoiceSettings";
 import { ChatHistory } from "./ChatHistory";
 import type { HistoryEntry } from "./ChatHistory";
 import { AgentTerminal } from "./AgentTerminal";
+import { CommandContextPanel } from "./CommandContextPanel";
 import {
   Send,
   Loader2,
@@ -124,6 +125,10 @@ const MessageBubble = React.memo(function MessageBubble({
           {(msg.role === "agent" ? cleanAgentOutput(msg.content) : msg.content) ||
             (msg.status === "pending" ? "// waiting for bridge..." : "")}
         </pre>
+
+        {msg.role === "agent" && msg.commandId && msg.status !== "pending" && (
+          <CommandContextPanel commandId={msg.commandId} />
+        )}
       </div>
     </div>
   );
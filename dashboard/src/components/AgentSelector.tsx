@@ -1,6 +1,6 @@
 "use client";
 
-import { KNOWN_AGENTS } from "@/lib/types";
+import { useAgentRegistry } from "@/hooks/useAgentRegistry";
 
 interface AgentSelectorProps {
   value: string;
@@ -8,6 +8,8 @@ interface AgentSelectorProps {
 }
 
 export function AgentSelector({ value, onChange }: AgentSelectorProps) {
+  const { fleet } = useAgentRegistry();
+
   return (
     <div className="flex items-center gap-2">
       <span className="text-[9px] font-mono uppercase tracking-wider" style={{ color: '#00f0ff44' }}>
@@ -24,7 +26,7 @@ export function AgentSelector({ value, onChange }: AgentSelectorProps) {
           outline: 'none',
         }}
       >
-        {KNOWN_AGENTS.map((agent) => (
+        {fleet.map((agent) => (
           <option key={agent.id} value={agent.id} style={{ background: '#0a0f1a' }}>
             {agent.id}
           </option>
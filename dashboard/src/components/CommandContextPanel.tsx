@@ -0,0 +1,200 @@
+"use client";
+
+import React, { useState } from "react";
+import { Brain, ChevronDown, ChevronRight, Loader2, ThumbsDown, ThumbsUp } from "lucide-react";
+import { useCommandContext } from "@/hooks/useCommandContext";
+import type { CommandContextDetail, ContextFeedback } from "@/lib/types";
+
+// ────────────────────────────────────────────────────
+// Collapsible "context used" panel under an agent reply:
+// what Soul injected at dispatch + thumbs up/down
+// ────────────────────────────────────────────────────
+
+const KIND_COLORS: Record<string, string> = {
+  observation: "#00f0ff",
+  outcome: "#39ff14",
+  fact: "#a855f7",
+  error: "#ef4444",
+  goal: "#f59e0b",
+  note: "#38bdf8",
+};
+
+const SectionLabel = React.memo(function SectionLabel({ label, count }: { label: string; count: number }) {
+  return (
+    <div className="text-[8px] font-mono uppercase tracking-wider mb-1" style={{ color: "#4a6a8a" }}>
+      {label} ({count})
+    </div>
+  );
+});
+
+const ContextBody = React.memo(function ContextBody({ detail }: { detail: CommandContextDetail }) {
+  const ctx = detail.context;
+  if (!ctx) {
+    return (
+      <div className="text-[10px] font-mono" style={{ color: "#4a6a8a" }}>
+        {"// no Soul context was injected into this command"}
+      </div>
+    );
+  }
+
+  const budgetPct = Math.min(100, Math.round((ctx.chars_used / Math.max(1, ctx.char_budget)) * 100));
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <div className="flex-1 h-1 rounded overflow-hidden" style={{ background: "#00f0ff10" }}>
+          <div className="h-full" style={{ width: `${budgetPct}%`, background: "#00f0ff66" }} />
+        </div>
+        <span className="text-[9px] font-mono" style={{ color: "#4a6a8a" }}>
+          {ctx.chars_used}/{ctx.char_budget} chars
+        </span>
+        {ctx.anchor_included && (
+          <span className="text-[8px] font-mono uppercase" style={{ color: "#f59e0b99" }}>
+            +identity
+          </span>
+        )}
+      </div>
+
+      {ctx.task_keywords.length > 0 && (
+        <div className="text-[9px] font-mono" style={{ color: "#4a6a8a" }}>
+          keywords: <span style={{ color: "#00f0ff88" }}>{ctx.task_keywords.join(", ")}</span>
+        </div>
+      )}
+
+      {detail.memories.length > 0 && (
+        <div>
+          <SectionLabel label="memories" count={detail.memories.length} />
+          <div className="space-y-1">
+            {detail.memories.map((m) => {
+              const color = m.entry ? KIND_COLORS[m.entry.kind] ?? "#4a6a8a" : "#4a6a8a";
+              return (
+                <div key={m.id} className="flex items-start gap-2 text-[10px] font-mono">
+                  <span className="shrink-0 uppercase text-[8px] mt-0.5 w-16" style={{ color }}>
+                    {m.entry ? (m.entry.agent_id === "_shared" ? "shared" : m.entry.kind) : "deleted"}
+                  </span>
+                  <span className="flex-1 break-words" style={{ color: m.entry ? "#c8d6e5aa" : "#4a6a8a" }}>
+                    {m.entry?.content ?? m.id}
+                  </span>
+                  {m.relevance !== null && (
+                    <span className="shrink-0" style={{ color: m.relevance >= 0.5 ? "#39ff14aa" : "#4a6a8a" }}>
+                      {m.relevance.toFixed(2)}
+                    </span>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {detail.insights.length > 0 && (
+        <div>
+          <SectionLabel label="insights" count={detail.insights.length} />
+          {detail.insights.map((i) => (
+            <div key={i.id} className="text-[10px] font-mono break-words" style={{ color: "#a855f7aa" }}>
+              [{i.category}] {i.insight}{" "}
+              <span style={{ color: "#4a6a8a" }}>{Math.round(i.confidence * 100)}%</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {detail.predictions.length > 0 && (
+        <div>
+          <SectionLabel label="predictions" count={detail.predictions.length} />
+          {detail.predictions.map((p) => (
+            <div key={p.id} className="text-[10px] font-mono break-words" style={{ color: "#f59e0baa" }}>
+              [{p.trigger_type}] {p.predicted_intent}{" "}
+              <span style={{ color: "#4a6a8a" }}>{Math.round(p.confidence * 100)}%</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+});
+
+const FeedbackButton = React.memo(function FeedbackButton({
+  value,
+  current,
+  disabled,
+  onClick,
+}: {
+  value: ContextFeedback;
+  current: ContextFeedback | null;
+  disabled: boolean;
+  onClick: (value: ContextFeedback) => void;
+}) {
+  const Icon = value === "up" ? ThumbsUp : ThumbsDown;
+  const color = value === "up" ? "#39ff14" : "#ff2d5e";
+  const active = current === value;
+  return (
+    <button
+      onClick={() => onClick(value)}
+      disabled={disabled}
+      title={value === "up" ? "Context was helpful" : "Context was wrong or irrelevant"}
+      className="p-1 rounded transition-colors disabled:cursor-default"
+      style={{
+        color: active ? color : `${color}66`,
+        background: active ? `${color}15` : "transparent",
+        border: `1px solid ${active ? `${color}40` : "transparent"}`,
+        opacity: disabled && !active ? 0.35 : 1,
+      }}
+    >
+      <Icon className="h-3 w-3" />
+    </button>
+  );
+});
+
+export const CommandContextPanel = React.memo(function CommandContextPanel({
+  commandId,
+}: {
+  commandId: string;
+}) {
+  const [open, setOpen] = useState(false);
+  const { detail, loading, error, sending, sendFeedback } = useCommandContext(commandId, open);
+
+  const ctx = detail?.context ?? null;
+  // One vote per command; locked once chosen (the bridge applies it once)
+  const locked = sending || !ctx || ctx.feedback !== null;
+
+  return (
+    <div className="mt-3 pt-2" style={{ borderTop: "1px solid #00f0ff0a" }}>
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => setOpen((v) => !v)}
+          className="flex items-center gap-1.5 text-[9px] font-mono uppercase tracking-wider"
+          style={{ color: "#4a6a8a" }}
+        >
+          {open ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+          <Brain className="h-3 w-3" />
+          context used
+          {ctx && (
+            <span style={{ color: "#00f0ff66" }}>
+              {" "}
+              · {ctx.memory_ids.length} mem · {ctx.insight_ids.length} ins · {ctx.prediction_ids.length} pred
+            </span>
+          )}
+        </button>
+        {loading && <Loader2 className="h-3 w-3 animate-spin" style={{ color: "#4a6a8a" }} />}
+        {open && ctx && (
+          <div className="ml-auto flex items-center gap-1">
+            <FeedbackButton value="up" current={ctx.feedback} disabled={locked} onClick={sendFeedback} />
+            <FeedbackButton value="down" current={ctx.feedback} disabled={locked} onClick={sendFeedback} />
+          </div>
+        )}
+      </div>
+
+      {open && (
+        <div className="mt-2">
+          {error && (
+            <div className="text-[10px] font-mono mb-2" style={{ color: "#ff2d5eaa" }}>
+              {error}
+            </div>
+          )}
+          {detail && <ContextBody detail={detail} />}
+        </div>
+      )}
+    </div>
+  );
+});
@@ -15,6 +15,10 @@ const statusStyle: Record<string, { color: string; bg: string; border: string }>
 
 const CommandRow = React.memo(function CommandRow({ cmd, index }: { cmd: AgentCommand; index: number }) {
   const style = statusStyle[cmd.status] || statusStyle.cancelled;
+  const label =
+    cmd.status === "pending" && cmd.queue_position != null
+      ? `queued #${cmd.queue_position}`
+      : cmd.status;
   return (
     <div className="px-5 py-3 cyber-table-row">
       <div className="flex items-center justify-between mb-1.5">
@@ -32,7 +36,7 @@ const CommandRow = React.memo(function CommandRow({ cmd, index }: { cmd: AgentCo
             className="text-[10px] font-mono uppercase tracking-wider px-1.5 py-0.5 rounded"
             style={{ color: style.color, background: style.bg, border: `1px solid ${style.border}` }}
           >
-            {cmd.status}
+            {label}
           </span>
         </div>
         <span className="text-[9px] font-mono" style={{ color: '#4a6a8a' }}>
@@ -0,0 +1,247 @@
+"use client";
+
+import React, { useState, useCallback } from "react";
+import { BookUser, Plus, X, Loader2, Archive, RotateCcw, AlertTriangle } from "lucide-react";
+import type { RegisteredAgent } from "@/lib/types";
+import { useAgentRegistry } from "@/hooks/useAgentRegistry";
+
+const TOOL_PROFILES = ["coding", "full", "minimal"];
+
+export const FleetRegistry = React.memo(function FleetRegistry() {
+  const { agents, loading, addAgent, updateAgent } = useAgentRegistry();
+  const [showForm, setShowForm] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [busy, setBusy] = useState<Set<string>>(new Set());
+  const [error, setError] = useState<string | null>(null);
+
+  // Form state
+  const [id, setId] = useState("");
+  const [name, setName] = useState("");
+  const [model, setModel] = useState("ollama/kimi-k2.5:cloud");
+  const [workspace, setWorkspace] = useState("");
+  const [tools, setTools] = useState("coding");
+  const [skills, setSkills] = useState("");
+  const [fleet, setFleet] = useState(true);
+
+  const resetForm = useCallback(() => {
+    setId("");
+    setName("");
+    setWorkspace("");
+    setSkills("");
+    setTools("coding");
+    setFleet(true);
+  }, []);
+
+  const createAgent = useCallback(async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      await addAgent({
+        id: id.trim(),
+        name: name.trim(),
+        model: model.trim() || null,
+        workspace: workspace.trim() || `/home/manifest/${id.trim()}`,
+        tools,
+        skills: skills.split(",").map((s) => s.trim()).filter(Boolean),
+        fleet,
+      });
+      resetForm();
+      setShowForm(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setSaving(false);
+    }
+  }, [addAgent, id, name, model, workspace, tools, skills, fleet, resetForm]);
+
+  const setRetired = useCallback(
+    async (agent: RegisteredAgent, retired: boolean) => {
+      setBusy((prev) => new Set(prev).add(agent.id));
+      setError(null);
+      try {
+        await updateAgent(agent.id, { enabled: !retired });
+      } catch (err) {
+        setError(err instanceof Error ? err.message : String(err));
+      } finally {
+        setBusy((prev) => {
+          const next = new Set(prev);
+          next.delete(agent.id);
+          return next;
+        });
+      }
+    },
+    [updateAgent]
+  );
+
+  const retiredCount = agents.filter((a) => !a.enabled).length;
+
+  return (
+    <div className="cyber-card rounded-lg p-5 space-y-4">
+      <div className="flex items-center gap-2">
+        <BookUser className="h-3.5 w-3.5" style={{ color: "#00f0ff" }} />
+        <span className="text-[10px] font-mono uppercase tracking-wider" style={{ color: "#00f0ff" }}>
+          Agent Registry
+        </span>
+        <span className="text-[9px] font-mono" style={{ color: "#4a6a8a" }}>
+          {agents.length - retiredCount} active{retiredCount > 0 ? ` · ${retiredCount} retired` : ""}
+        </span>
+        <div className="flex-1" />
+        <button
+          onClick={() => setShowForm((p) => !p)}
+          className="flex items-center gap-1 px-2 py-1 rounded text-[9px] font-mono uppercase tracking-wider"
+          style={{ background: "#00f0ff10", border: "1px solid #00f0ff30", color: "#00f0ff" }}
+        >
+          {showForm ? <X className="h-3 w-3" /> : <Plus className="h-3 w-3" />}
+          {showForm ? "Close" : "Add Agent"}
+        </button>
+      </div>
+
+      {error && (
+        <div className="rounded border px-3 py-2" style={{ borderColor: "#ff2d5e25", background: "#ff2d5e08" }}>
+          <p className="text-[10px] font-mono" style={{ color: "#ff2d5e" }}>
+            [ERROR] {error}
+          </p>
+        </div>
+      )}
+
+      {/* New agent form */}
+      {showForm && (
+        <div className="space-y-2 rounded p-3" style={{ background: "#05080f", border: "1px solid #00f0ff10" }}>
+          <p className="text-[9px] font-mono" style={{ color: "#4a6a8a" }}>
+            {"// the agent must also exist in openclaw.json (scripts/create-agent.sh) -- the bridge flags mismatches"}
+          </p>
+          <div className="grid gap-2 sm:grid-cols-2">
+            <input
+              value={id}
+              onChange={(e) => setId(e.target.value.toLowerCase())}
+              placeholder="id (e.g. researcher)"
+              className="w-full px-2 py-1.5 rounded text-[10px] font-mono cyber-input"
+            />
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Display name"
+              className="w-full px-2 py-1.5 rounded text-[10px] font-mono cyber-input"
+            />
+            <input
+              value={model}
+              onChange={(e) => setModel(e.target.value)}
+              placeholder="Model"
+              className="w-full px-2 py-1.5 rounded text-[10px] font-mono cyber-input"
+            />
+            <input
+              value={workspace}
+              onChange={(e) => setWorkspace(e.target.value)}
+              placeholder={`Workspace (default /home/manifest/${id || "<id>"})`}
+              className="w-full px-2 py-1.5 rounded text-[10px] font-mono cyber-input"
+            />
+            <input
+              value={skills}
+              onChange={(e) => setSkills(e.target.value)}
+              placeholder="Skills (comma separated)"
+              className="w-full px-2 py-1.5 rounded text-[10px] font-mono cyber-input"
+            />
+            <div className="flex items-center gap-3">
+              <select
+                value={tools}
+                onChange={(e) => setTools(e.target.value)}
+                className="px-2 py-1 rounded text-[10px] font-mono cyber-input"
+              >
+                {TOOL_PROFILES.map((t) => (
+                  <option key={t} value={t}>{t}</option>
+                ))}
+              </select>
+              <label className="flex items-center gap-1.5 text-[10px] font-mono" style={{ color: "#c8d6e5" }}>
+                <input type="checkbox" checked={fleet} onChange={(e) => setFleet(e.target.checked)} />
+                Show on fleet
+              </label>
+            </div>
+          </div>
+          <button
+            onClick={createAgent}
+            disabled={saving || !id.trim() || !name.trim()}
+            className="w-full flex items-center justify-center gap-2 px-3 py-2 rounded text-[10px] font-mono uppercase tracking-wider disabled:opacity-40"
+            style={{ background: "#00f0ff15", border: "1px solid #00f0ff40", color: "#00f0ff" }}
+          >
+            {saving ? <Loader2 className="h-3 w-3 animate-spin" /> : <Plus className="h-3 w-3" />}
+            Register Agent
+          </button>
+        </div>
+      )}
+
+      {/* Registry list */}
+      {loading ? (
+        <div className="flex items-center justify-center py-4">
+          <Loader2 className="h-4 w-4 animate-spin" style={{ color: "#00f0ff44" }} />
+        </div>
+      ) : (
+        <div className="space-y-1">
+          {agents.map((agent) => (
+            <RegistryRow
+              key={agent.id}
+              agent={agent}
+              isBusy={busy.has(agent.id)}
+              onRetire={setRetired}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+});
+
+// ============================================================
+// Memoized registry row
+// ============================================================
+
+const RegistryRow = React.memo(function RegistryRow({
+  agent,
+  isBusy,
+  onRetire,
+}: {
+  agent: RegisteredAgent;
+  isBusy: boolean;
+  onRetire: (agent: RegisteredAgent, retired: boolean) => void;
+}) {
+  const retired = !agent.enabled;
+  const hasIssues = agent.config_issues.length > 0;
+
+  return (
+    <div
+      className="flex items-center gap-3 rounded px-2 py-1.5 text-[10px] font-mono"
+      style={{ background: "#05080f", border: "1px solid #00f0ff08", opacity: retired ? 0.5 : 1 }}
+    >
+      <span className="w-32 truncate" style={{ color: retired ? "#4a6a8a" : "#00f0ff" }}>{agent.id}</span>
+      <span className="flex-1 truncate" style={{ color: "#c8d6e5" }}>{agent.name}</span>
+      {!agent.fleet && (
+        <span className="text-[8px] uppercase px-1.5 py-0.5 rounded cyber-badge">companion</span>
+      )}
+      {retired ? (
+        <span className="text-[8px] uppercase" style={{ color: "#4a6a8a" }}>retired</span>
+      ) : hasIssues ? (
+        <span title={agent.config_issues.join("\n")} className="flex items-center gap-1 text-[8px] uppercase" style={{ color: "#f59e0b" }}>
+          <AlertTriangle className="h-3 w-3" /> config
+        </span>
+      ) : agent.validated_at ? (
+        <span className="text-[8px] uppercase" style={{ color: "#39ff14" }}>ok</span>
+      ) : null}
+      {agent.id !== "main" && (
+        <button
+          onClick={() => onRetire(agent, !retired)}
+          disabled={isBusy}
+          className="p-1 rounded disabled:opacity-40"
+          style={{ color: retired ? "#39ff14" : "#ff2d5e" }}
+          title={retired ? "Restore agent" : "Retire agent"}
+        >
+          {isBusy ? (
+            <Loader2 className="h-3 w-3 animate-spin" />
+          ) : retired ? (
+            <RotateCcw className="h-3 w-3" />
+          ) : (
+            <Archive className="h-3 w-3" />
+          )}
+        </button>
+      )}
+    </div>
+  );
+});
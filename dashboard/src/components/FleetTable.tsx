@@ -1,9 +1,10 @@
 "use client";
 
 import React, { useState, useCallback } from "react";
-import { KNOWN_AGENTS, type AgentStatus } from "@/lib/types";
+import type { AgentStatus } from "@/lib/types";
 import { useAgentSessions } from "@/hooks/useAgentSessions";
 import { useAgentControls } from "@/hooks/useAgentControls";
+import { useAgentRegistry } from "@/hooks/useAgentRegistry";
 import { Send, Cpu, X, Power } from "lucide-react";
 
 const statusConfig: Record<AgentStatus, { color: string; bg: string; border: string; glow: string; label: string }> = {
@@ -16,6 +17,7 @@ const statusConfig: Record<AgentStatus, { color: string; bg: string; border: str
 export const FleetTable = React.memo(function FleetTable() {
   const { getStatus } = useAgentSessions();
   const { isEnabled, setEnabled } = useAgentControls();
+  const { fleet } = useAgentRegistry();
   const [taskAgent, setTaskAgent] = useState<string | null>(null);
   const [taskMessage, setTaskMessage] = useState("");
   const [sending, setSending] = useState(false);
@@ -57,7 +59,7 @@ export const FleetTable = React.memo(function FleetTable() {
 
   return (
     <div className="grid gap-4">
-      {KNOWN_AGENTS.map((agent) => {
+      {fleet.map((agent) => {
         const status = getStatus(agent.id);
         const cfg = statusConfig[status];
         const isOpen = taskAgent === agent.id;
@@ -144,6 +146,15 @@ export const FleetTable = React.memo(function FleetTable() {
                       {agent.workspace}
                     </code>
                   </div>
+
+                  {agent.config_issues.length > 0 && (
+                    <div className="flex items-start gap-1.5">
+                      <span className="text-[9px] font-mono" style={{ color: '#f59e0b' }}>CONFIG:</span>
+                      <span className="text-[9px] font-mono" style={{ color: '#f59e0b' }}>
+                        {agent.config_issues.join("; ")}
+                      </span>
+                    </div>
+                  )}
                 </div>
               </div>
 
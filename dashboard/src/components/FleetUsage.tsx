@@ -0,0 +1,320 @@
+"use client";
+
+import React, { useState, useCallback, useMemo } from "react";
+import { Gauge, Loader2, Pencil, Trash2, X, Check } from "lucide-react";
+import type { AgentBudget, AgentUsageDaily } from "@/lib/types";
+import { useAgentUsage, type BudgetInput } from "@/hooks/useAgentUsage";
+import { useAgentRegistry } from "@/hooks/useAgentRegistry";
+
+const DAYS = 7;
+
+interface Totals {
+  runs: number;
+  failed: number;
+  wallMs: number;
+  tokens: number;
+  cost: number;
+}
+
+const EMPTY: Totals = { runs: 0, failed: 0, wallMs: 0, tokens: 0, cost: 0 };
+
+function addRow(t: Totals, r: AgentUsageDaily): Totals {
+  return {
+    runs: t.runs + Number(r.runs),
+    failed: t.failed + Number(r.failed_runs),
+    wallMs: t.wallMs + Number(r.wall_ms),
+    tokens: t.tokens + Number(r.total_tokens),
+    cost: t.cost + Number(r.cost_usd),
+  };
+}
+
+function formatTokens(n: number): string {
+  if (n >= 1_000_000) return `${(n / 1_000_000).toFixed(1)}M`;
+  if (n >= 1_000) return `${(n / 1_000).toFixed(1)}k`;
+  return String(n);
+}
+
+function formatWall(ms: number): string {
+  const s = Math.round(ms / 1000);
+  if (s < 60) return `${s}s`;
+  if (s < 3600) return `${Math.floor(s / 60)}m ${s % 60}s`;
+  return `${Math.floor(s / 3600)}h ${Math.floor((s % 3600) / 60)}m`;
+}
+
+const formatCost = (usd: number) => `$${usd.toFixed(usd >= 1 ? 2 : 4)}`;
+
+export const FleetUsage = React.memo(function FleetUsage() {
+  const { daily, swarms, budgets, loading, saveBudget, clearBudget } = useAgentUsage(DAYS);
+  const { fleet } = useAgentRegistry();
+  const [editing, setEditing] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Per-agent totals for today (UTC) and the whole window
+  const { today, period, totals } = useMemo(() => {
+    const todayKey = new Date().toISOString().slice(0, 10);
+    const today: Record<string, Totals> = {};
+    const period: Record<string, Totals> = {};
+    let totals = EMPTY;
+    for (const r of daily) {
+      period[r.agent_id] = addRow(period[r.agent_id] ?? EMPTY, r);
+      if (r.day.slice(0, 10) === todayKey) today[r.agent_id] = addRow(today[r.agent_id] ?? EMPTY, r);
+      totals = addRow(totals, r);
+    }
+    return { today, period, totals };
+  }, [daily]);
+
+  const onSave = useCallback(
+    async (agentId: string, input: BudgetInput) => {
+      setError(null);
+      try {
+        await saveBudget(agentId, input);
+        setEditing(null);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : String(err));
+      }
+    },
+    [saveBudget]
+  );
+
+  const onClear = useCallback(
+    async (agentId: string) => {
+      setError(null);
+      try {
+        await clearBudget(agentId);
+        setEditing(null);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : String(err));
+      }
+    },
+    [clearBudget]
+  );
+
+  return (
+    <div className="cyber-card rounded-lg p-5 space-y-4">
+      <div className="flex items-center gap-2">
+        <Gauge className="h-3.5 w-3.5" style={{ color: "#00f0ff" }} />
+        <span className="text-[10px] font-mono uppercase tracking-wider" style={{ color: "#00f0ff" }}>
+          Usage &amp; Budgets
+        </span>
+        <div className="flex-1" />
+        <span className="text-[9px] font-mono" style={{ color: "#4a6a8a" }}>
+          {DAYS}d: {totals.runs} runs · {formatTokens(totals.tokens)} tok · {formatCost(totals.cost)} · {formatWall(totals.wallMs)}
+        </span>
+      </div>
+
+      {error && (
+        <div className="rounded border px-3 py-2" style={{ borderColor: "#ff2d5e25", background: "#ff2d5e08" }}>
+          <p className="text-[10px] font-mono" style={{ color: "#ff2d5e" }}>
+            [ERROR] {error}
+          </p>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center py-4">
+          <Loader2 className="h-4 w-4 animate-spin" style={{ color: "#00f0ff44" }} />
+        </div>
+      ) : (
+        <div className="space-y-1">
+          <div
+            className="grid grid-cols-[1.2fr_repeat(4,0.8fr)_1.6fr_auto] gap-3 px-2 text-[8px] font-mono uppercase tracking-wider"
+            style={{ color: "#4a6a8a" }}
+          >
+            <span>Agent</span>
+            <span>Runs today</span>
+            <span>Tokens</span>
+            <span>Cost</span>
+            <span>Wall</span>
+            <span>Budget</span>
+            <span />
+          </div>
+          {fleet.map((agent) => (
+            <UsageRow
+              key={agent.id}
+              agentId={agent.id}
+              today={today[agent.id] ?? EMPTY}
+              period={period[agent.id] ?? EMPTY}
+              budget={budgets[agent.id] ?? null}
+              isEditing={editing === agent.id}
+              onEdit={setEditing}
+              onSave={onSave}
+              onClear={onClear}
+            />
+          ))}
+        </div>
+      )}
+
+      {swarms.length > 0 && (
+        <div className="space-y-1 pt-2" style={{ borderTop: "1px solid #00f0ff10" }}>
+          <span className="text-[8px] font-mono uppercase tracking-wider" style={{ color: "#4a6a8a" }}>
+            Recent swarm runs
+          </span>
+          {swarms.slice(0, 5).map((s) => (
+            <div key={s.swarm_id} className="flex items-center gap-3 px-2 text-[9px] font-mono" style={{ color: "#c8d6e5" }}>
+              <span style={{ color: "#4a6a8a" }}>{s.swarm_id.slice(0, 8)}</span>
+              <span>{s.runs} runs</span>
+              <span>{formatTokens(Number(s.total_tokens))} tok</span>
+              <span>{formatCost(Number(s.cost_usd))}</span>
+              <span>{formatWall(Number(s.wall_ms))}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+});
+
+// ============================================================
+// Memoized agent row
+// ============================================================
+
+const UsageRow = React.memo(function UsageRow({
+  agentId,
+  today,
+  period,
+  budget,
+  isEditing,
+  onEdit,
+  onSave,
+  onClear,
+}: {
+  agentId: string;
+  today: Totals;
+  period: Totals;
+  budget: AgentBudget | null;
+  isEditing: boolean;
+  onEdit: (agentId: string | null) => void;
+  onSave: (agentId: string, input: BudgetInput) => void;
+  onClear: (agentId: string) => void;
+}) {
+  const limits: { label: string; used: number; limit: number | null; fmt: (n: number) => string }[] = [
+    { label: "runs", used: today.runs, limit: budget?.daily_run_limit ?? null, fmt: String },
+    { label: "tok", used: today.tokens, limit: budget?.daily_token_limit ?? null, fmt: formatTokens },
+    { label: "usd", used: today.cost, limit: budget?.daily_cost_limit_usd ?? null, fmt: formatCost },
+  ];
+  const active = limits.filter((l) => l.limit !== null);
+
+  return (
+    <div className="rounded px-2 py-1.5" style={{ background: "#05080f", border: "1px solid #00f0ff08" }}>
+      <div className="grid grid-cols-[1.2fr_repeat(4,0.8fr)_1.6fr_auto] gap-3 items-center text-[10px] font-mono">
+        <span style={{ color: "#00f0ff" }}>{agentId}</span>
+        <span style={{ color: "#c8d6e5" }}>
+          {today.runs}
+          {today.failed > 0 && <span style={{ color: "#ff2d5e" }}> ({today.failed} failed)</span>}
+        </span>
+        <span style={{ color: "#c8d6e5" }}>{formatTokens(today.tokens)}</span>
+        <span style={{ color: "#c8d6e5" }}>{formatCost(today.cost)}</span>
+        <span style={{ color: "#c8d6e5" }} title={`${DAYS}d: ${period.runs} runs, ${formatTokens(period.tokens)} tok, ${formatCost(period.cost)}`}>
+          {formatWall(today.wallMs)}
+        </span>
+
+        <div className="space-y-0.5">
+          {active.length === 0 ? (
+            <span className="text-[9px]" style={{ color: "#4a6a8a" }}>unlimited</span>
+          ) : (
+            active.map((l) => {
+              const pct = l.limit! > 0 ? Math.min(100, (l.used / Number(l.limit)) * 100) : 100;
+              const color = pct >= 100 ? "#ff2d5e" : pct >= 80 ? "#f59e0b" : "#39ff14";
+              return (
+                <div key={l.label} className="flex items-center gap-1.5">
+                  <div className="flex-1 h-1 rounded-full overflow-hidden" style={{ background: "#00f0ff10" }}>
+                    <div className="h-full rounded-full" style={{ width: `${pct}%`, background: color }} />
+                  </div>
+                  <span className="text-[8px] whitespace-nowrap" style={{ color }}>
+                    {l.fmt(l.used)}/{l.fmt(Number(l.limit))} {l.label}
+                  </span>
+                </div>
+              );
+            })
+          )}
+          {budget && active.length > 0 && (
+            <span className="text-[8px] uppercase" style={{ color: "#4a6a8a" }}>
+              over → {budget.over_budget_action}
+            </span>
+          )}
+        </div>
+
+        <button
+          onClick={() => onEdit(isEditing ? null : agentId)}
+          className="p-1 rounded"
+          style={{ color: "#4a6a8a" }}
+          title="Edit budget"
+        >
+          {isEditing ? <X className="h-3 w-3" /> : <Pencil className="h-3 w-3" />}
+        </button>
+      </div>
+
+      {isEditing && <BudgetForm agentId={agentId} budget={budget} onSave={onSave} onClear={onClear} />}
+    </div>
+  );
+});
+
+function BudgetForm({
+  agentId,
+  budget,
+  onSave,
+  onClear,
+}: {
+  agentId: string;
+  budget: AgentBudget | null;
+  onSave: (agentId: string, input: BudgetInput) => void;
+  onClear: (agentId: string) => void;
+}) {
+  const [runs, setRuns] = useState(budget?.daily_run_limit?.toString() ?? "");
+  const [tokens, setTokens] = useState(budget?.daily_token_limit?.toString() ?? "");
+  const [cost, setCost] = useState(budget?.daily_cost_limit_usd?.toString() ?? "");
+  const [action, setAction] = useState<AgentBudget["over_budget_action"]>(budget?.over_budget_action ?? "refuse");
+
+  const parse = (v: string) => (v.trim() === "" ? null : Number(v));
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mt-2 pt-2" style={{ borderTop: "1px solid #00f0ff10" }}>
+      {[
+        { label: "Runs/day", value: runs, set: setRuns },
+        { label: "Tokens/day", value: tokens, set: setTokens },
+        { label: "USD/day", value: cost, set: setCost },
+      ].map((f) => (
+        <input
+          key={f.label}
+          type="number"
+          min={0}
+          value={f.value}
+          onChange={(e) => f.set(e.target.value)}
+          placeholder={f.label}
+          className="w-24 px-2 py-1 rounded text-[10px] font-mono cyber-input"
+        />
+      ))}
+      <select
+        value={action}
+        onChange={(e) => setAction(e.target.value as AgentBudget["over_budget_action"])}
+        className="px-2 py-1 rounded text-[10px] font-mono cyber-input"
+      >
+        <option value="refuse">refuse</option>
+        <option value="queue">queue</option>
+      </select>
+      <button
+        onClick={() =>
+          onSave(agentId, {
+            daily_run_limit: parse(runs),
+            daily_token_limit: parse(tokens),
+            daily_cost_limit_usd: parse(cost),
+            over_budget_action: action,
+          })
+        }
+        className="flex items-center gap-1 px-2 py-1 rounded text-[9px] font-mono uppercase tracking-wider"
+        style={{ background: "#39ff1410", border: "1px solid #39ff1430", color: "#39ff14" }}
+      >
+        <Check className="h-3 w-3" /> Save
+      </button>
+      {budget && (
+        <button
+          onClick={() => onClear(agentId)}
+          className="flex items-center gap-1 px-2 py-1 rounded text-[9px] font-mono uppercase tracking-wider"
+          style={{ background: "#ff2d5e08", border: "1px solid #ff2d5e25", color: "#ff2d5e" }}
+        >
+          <Trash2 className="h-3 w-3" /> Remove
+        </button>
+      )}
+    </div>
+  );
+}
@@ -27,6 +27,7 @@ import {
   Filter,
 } from "lucide-react";
 import { cleanAgentOutput } from "@/lib/utils";
+import { assembleOutput } from "@/lib/transcript";
 
 interface LogEntry {
   id: string;
@@ -62,27 +63,52 @@ export function LiveLogs() {
   const [searchQuery, setSearchQuery] = useState("");
   const scrollRef = useRef<HTMLDivElement>(null);
   const supabaseRef = useRef(createClient());
+  // agent_responses rows carry no agent — resolved through their command
+  const commandAgentsRef = useRef(new Map<string, string>());
 
-  // Initial load from agent_responses
+  // Initial load: the 100 latest commands, one entry each. Finished
+  // commands' chunks are compacted into command_transcripts (only the final
+  // marker stays in agent_responses), so output is reassembled from both.
   useEffect(() => {
     const loadInitialLogs = async () => {
-      const { data } = await supabaseRef.current
-        .from("agent_responses")
-        .select("*")
+      const { data: commands } = await supabaseRef.current
+        .from("agent_commands")
+        .select("id, agent_id, status, created_at, updated_at")
         .order("created_at", { ascending: false })
         .limit(100);
+      if (!commands || commands.length === 0) return;
 
-      if (data) {
-        const initialLogs: LogEntry[] = data.map((r: any) => ({
-          id: r.id,
-          timestamp: r.created_at,
-          agent: r.agent || r.agent_id || "unknown",
-          level: r.error ? "error" : r.is_final === false ? "debug" : "info",
-          message: cleanAgentOutput((r.output || r.content)?.slice(0, 500) || "No output"),
-          metadata: { session_id: r.session_id || r.command_id },
-        }));
-        setLogs(initialLogs.reverse());
+      const commandIds = commands.map((c) => c.id);
+      const [{ data: transcripts }, { data: chunks }] = await Promise.all([
+        supabaseRef.current
+          .from("command_transcripts")
+          .select("command_id, content, last_seq")
+          .in("command_id", commandIds),
+        supabaseRef.current
+          .from("agent_responses")
+          .select("command_id, seq, content")
+          .in("command_id", commandIds),
+      ]);
+
+      const transcriptMap = new Map((transcripts || []).map((t) => [t.command_id, t]));
+      const chunkMap = new Map<string, { seq: number; content: string }[]>();
+      for (const c of chunks || []) {
+        chunkMap.set(c.command_id, [...(chunkMap.get(c.command_id) ?? []), c]);
       }
+
+      const initialLogs: LogEntry[] = commands.map((c) => {
+        commandAgentsRef.current.set(c.id, c.agent_id);
+        const output = assembleOutput(transcriptMap.get(c.id) ?? null, chunkMap.get(c.id) ?? []);
+        return {
+          id: c.id,
+          timestamp: c.updated_at || c.created_at,
+          agent: c.agent_id || "unknown",
+          level: c.status === "failed" ? "error" : c.status === "running" || c.status === "pending" ? "debug" : "info",
+          message: cleanAgentOutput(output.slice(0, 500)) || "No output",
+          metadata: { session_id: c.id, status: c.status },
+        };
+      });
+      setLogs(initialLogs.reverse());
     };
     loadInitialLogs();
   }, []);
@@ -104,7 +130,7 @@ export function LiveLogs() {
           const newLog: LogEntry = {
             id: payload.new.id,
             timestamp: payload.new.created_at,
-            agent: payload.new.agent || payload.new.agent_id || "unknown",
+            agent: payload.new.agent || payload.new.agent_id || commandAgentsRef.current.get(payload.new.command_id) || "unknown",
             level: payload.new.error ? "error" : payload.new.is_final === false ? "debug" : "info",
             message: cleanAgentOutput((payload.new.output || payload.new.content)?.slice(0, 500) || "No output"),
             metadata: { session_id: payload.new.session_id || payload.new.command_id },
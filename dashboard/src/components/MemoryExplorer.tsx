@@ -0,0 +1,759 @@
+"use client";
+
+import React, { useState, useCallback, useEffect, useMemo } from "react";
+import {
+  Search, Loader2, Pin, PinOff, Archive, RotateCcw, Timer, Trash2, Merge, X, Check,
+  Anchor, Link2, Send, RefreshCw, Pencil,
+} from "lucide-react";
+import type { AgentMemoryEntry, MemoryDetail, MemoryKind } from "@/lib/types";
+import {
+  useMemoryExplorer,
+  DEFAULT_MEMORY_FILTERS,
+  type MemoryExplorerFilters,
+  type MemoryPatch,
+  type TriState,
+} from "@/hooks/useMemoryExplorer";
+import { useAgentRegistry } from "@/hooks/useAgentRegistry";
+
+const KINDS: MemoryKind[] = ["observation", "outcome", "fact", "error", "goal", "note"];
+
+const KIND_COLORS: Record<string, string> = {
+  observation: "#00f0ff",
+  outcome: "#39ff14",
+  fact: "#a855f7",
+  error: "#ef4444",
+  goal: "#f59e0b",
+  note: "#38bdf8",
+};
+
+function timeAgo(iso: string): string {
+  const diff = Date.now() - new Date(iso).getTime();
+  const mins = Math.floor(diff / 60_000);
+  if (mins < 60) return `${Math.max(0, mins)}m ago`;
+  const hours = Math.floor(mins / 60);
+  if (hours < 24) return `${hours}h ago`;
+  return `${Math.floor(hours / 24)}d ago`;
+}
+
+/** Same bands as the Soul decay pass: < 0.15 archives, < 0.4 is a reforge candidate */
+function decayColor(score: number): string {
+  if (score < 0.15) return "#ff2d5e";
+  if (score < 0.4) return "#f59e0b";
+  return "#39ff14";
+}
+
+function isExpired(entry: AgentMemoryEntry): boolean {
+  return !!entry.expires_at && new Date(entry.expires_at).getTime() <= Date.now();
+}
+
+export const MemoryExplorer = React.memo(function MemoryExplorer() {
+  const [filters, setFilters] = useState<MemoryExplorerFilters>(DEFAULT_MEMORY_FILTERS);
+  const [qInput, setQInput] = useState("");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [checked, setChecked] = useState<Set<string>>(new Set());
+  const [showMerge, setShowMerge] = useState(false);
+  const { fleet } = useAgentRegistry();
+  const {
+    entries, total, loading, loadingMore, error, hasMore,
+    loadMore, refetch, loadDetail, updateMemory, deleteMemory, mergeMemories,
+  } = useMemoryExplorer(filters);
+
+  const setFilter = useCallback(<K extends keyof MemoryExplorerFilters>(key: K, value: MemoryExplorerFilters[K]) => {
+    setFilters((prev) => ({ ...prev, [key]: value }));
+  }, []);
+
+  const toggleKind = useCallback((kind: MemoryKind) => {
+    setFilters((prev) => ({
+      ...prev,
+      kinds: prev.kinds.includes(kind) ? prev.kinds.filter((k) => k !== kind) : [...prev.kinds, kind],
+    }));
+  }, []);
+
+  const toggleChecked = useCallback((id: string) => {
+    setChecked((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  }, []);
+
+  const onDeleted = useCallback((id: string) => {
+    setSelectedId((prev) => (prev === id ? null : prev));
+    setChecked((prev) => {
+      const next = new Set(prev);
+      next.delete(id);
+      return next;
+    });
+  }, []);
+
+  const checkedEntries = useMemo(() => entries.filter((e) => checked.has(e.id)), [entries, checked]);
+
+  const onMerged = useCallback((entry: AgentMemoryEntry) => {
+    setChecked(new Set());
+    setShowMerge(false);
+    setSelectedId(entry.id);
+  }, []);
+
+  return (
+    <div className="grid gap-4 lg:grid-cols-[minmax(0,1fr)_420px]">
+      <div className="cyber-card rounded-lg p-5 space-y-4 min-w-0">
+        {/* Filters */}
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <div className="relative flex-1">
+              <Search className="absolute left-2 top-1/2 -translate-y-1/2 h-3 w-3" style={{ color: "#4a6a8a" }} />
+              <input
+                value={qInput}
+                onChange={(e) => setQInput(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && setFilter("q", qInput)}
+                onBlur={() => setFilter("q", qInput)}
+                placeholder="Search memory content (Enter)"
+                className="w-full pl-7 pr-2 py-1.5 rounded text-[10px] font-mono cyber-input"
+              />
+            </div>
+            <button
+              onClick={refetch}
+              className="p-1.5 rounded"
+              style={{ background: "#00f0ff10", border: "1px solid #00f0ff30", color: "#00f0ff" }}
+              title="Refresh"
+            >
+              <RefreshCw className="h-3 w-3" />
+            </button>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2 text-[10px] font-mono">
+            <select
+              value={filters.agentId}
+              onChange={(e) => setFilter("agentId", e.target.value)}
+              className="px-2 py-1 rounded cyber-input"
+            >
+              <option value="">All agents</option>
+              <option value="_shared">_shared</option>
+              {fleet.map((a) => (
+                <option key={a.id} value={a.id}>{a.id}</option>
+              ))}
+            </select>
+            <input
+              value={filters.source}
+              onChange={(e) => setFilter("source", e.target.value.trim())}
+              placeholder="source"
+              className="w-24 px-2 py-1 rounded cyber-input"
+            />
+            <input
+              type="date"
+              value={filters.from}
+              onChange={(e) => setFilter("from", e.target.value)}
+              className="px-2 py-1 rounded cyber-input"
+              title="Created from"
+            />
+            <input
+              type="date"
+              value={filters.to}
+              onChange={(e) => setFilter("to", e.target.value)}
+              className="px-2 py-1 rounded cyber-input"
+              title="Created until"
+            />
+            <TriSelect label="archived" value={filters.archived} onChange={(v) => setFilter("archived", v)} />
+            <TriSelect label="anchored" value={filters.anchored} onChange={(v) => setFilter("anchored", v)} />
+            <TriSelect label="pinned" value={filters.pinned} onChange={(v) => setFilter("pinned", v)} />
+            <select
+              value={filters.sort}
+              onChange={(e) => setFilter("sort", e.target.value as MemoryExplorerFilters["sort"])}
+              className="px-2 py-1 rounded cyber-input"
+            >
+              <option value="created_at">newest</option>
+              <option value="updated_at">recently edited</option>
+              <option value="decay_score">freshest (decay)</option>
+              <option value="access_count">most accessed</option>
+            </select>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-1.5">
+            {KINDS.map((kind) => {
+              const on = filters.kinds.includes(kind);
+              const color = KIND_COLORS[kind];
+              return (
+                <button
+                  key={kind}
+                  onClick={() => toggleKind(kind)}
+                  className="px-2 py-0.5 rounded text-[9px] font-mono uppercase tracking-wider"
+                  style={{
+                    background: on ? `${color}20` : "transparent",
+                    border: `1px solid ${on ? color : `${color}30`}`,
+                    color: on ? color : `${color}88`,
+                  }}
+                >
+                  {kind}
+                </button>
+              );
+            })}
+            <div className="flex-1" />
+            <span className="text-[9px] font-mono" style={{ color: "#4a6a8a" }}>
+              {loading ? "…" : `${entries.length} of ${total}`}
+            </span>
+          </div>
+        </div>
+
+        {error && (
+          <div className="rounded border px-3 py-2" style={{ borderColor: "#ff2d5e25", background: "#ff2d5e08" }}>
+            <p className="text-[10px] font-mono" style={{ color: "#ff2d5e" }}>
+              [ERROR] {error}
+            </p>
+          </div>
+        )}
+
+        {/* Merge bar */}
+        {checked.size > 0 && (
+          <div
+            className="flex items-center gap-2 rounded px-3 py-2 text-[10px] font-mono"
+            style={{ background: "#a855f710", border: "1px solid #a855f730", color: "#a855f7" }}
+          >
+            <span>{checked.size} selected</span>
+            <div className="flex-1" />
+            <button
+              onClick={() => setShowMerge(true)}
+              disabled={checkedEntries.length < 2}
+              className="flex items-center gap-1 px-2 py-1 rounded uppercase tracking-wider disabled:opacity-40"
+              style={{ border: "1px solid #a855f740" }}
+            >
+              <Merge className="h-3 w-3" /> Merge
+            </button>
+            <button onClick={() => setChecked(new Set())} className="p-1" title="Clear selection">
+              <X className="h-3 w-3" />
+            </button>
+          </div>
+        )}
+
+        {showMerge && checkedEntries.length >= 2 && (
+          <MergePanel
+            sources={checkedEntries}
+            onMerge={mergeMemories}
+            onMerged={onMerged}
+            onClose={() => setShowMerge(false)}
+          />
+        )}
+
+        {/* List */}
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-4 w-4 animate-spin" style={{ color: "#00f0ff44" }} />
+          </div>
+        ) : entries.length === 0 ? (
+          <p className="py-8 text-center text-[10px] font-mono" style={{ color: "#4a6a8a" }}>
+            {"// no memories match these filters"}
+          </p>
+        ) : (
+          <div className="space-y-1">
+            {entries.map((entry) => (
+              <MemoryRow
+                key={entry.id}
+                entry={entry}
+                selected={entry.id === selectedId}
+                checked={checked.has(entry.id)}
+                onSelect={setSelectedId}
+                onCheck={toggleChecked}
+              />
+            ))}
+            {hasMore && (
+              <button
+                onClick={loadMore}
+                disabled={loadingMore}
+                className="w-full flex items-center justify-center gap-2 py-2 rounded text-[10px] font-mono uppercase tracking-wider disabled:opacity-40"
+                style={{ background: "#00f0ff08", border: "1px solid #00f0ff15", color: "#00f0ff88" }}
+              >
+                {loadingMore && <Loader2 className="h-3 w-3 animate-spin" />}
+                Load more
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {selectedId ? (
+        <MemoryDetailPanel
+          key={selectedId}
+          id={selectedId}
+          loadDetail={loadDetail}
+          onUpdate={updateMemory}
+          onDelete={deleteMemory}
+          onDeleted={onDeleted}
+          onSelect={setSelectedId}
+        />
+      ) : (
+        <div className="cyber-card rounded-lg p-5 flex items-center justify-center">
+          <p className="text-[10px] font-mono" style={{ color: "#4a6a8a" }}>
+            {"// select a memory to inspect its decay, associations and injections"}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+});
+
+// ============================================================
+// Filter select (any / yes / no)
+// ============================================================
+
+const TriSelect = React.memo(function TriSelect({
+  label,
+  value,
+  onChange,
+}: {
+  label: string;
+  value: TriState;
+  onChange: (value: TriState) => void;
+}) {
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value as TriState)}
+      className="px-2 py-1 rounded cyber-input"
+    >
+      <option value="any">{label}: any</option>
+      <option value="yes">{label}: yes</option>
+      <option value="no">{label}: no</option>
+    </select>
+  );
+});
+
+// ============================================================
+// Memoized memory row
+// ============================================================
+
+const MemoryRow = React.memo(function MemoryRow({
+  entry,
+  selected,
+  checked,
+  onSelect,
+  onCheck,
+}: {
+  entry: AgentMemoryEntry;
+  selected: boolean;
+  checked: boolean;
+  onSelect: (id: string) => void;
+  onCheck: (id: string) => void;
+}) {
+  const color = KIND_COLORS[entry.kind] ?? "#4a6a8a";
+  const expired = isExpired(entry);
+
+  return (
+    <div
+      onClick={() => onSelect(entry.id)}
+      className="flex items-start gap-2 rounded px-2 py-1.5 text-[10px] font-mono cursor-pointer"
+      style={{
+        background: selected ? "#00f0ff0c" : "#05080f",
+        border: `1px solid ${selected ? "#00f0ff40" : "#00f0ff08"}`,
+        opacity: entry.archived || expired ? 0.5 : 1,
+      }}
+    >
+      <input
+        type="checkbox"
+        checked={checked}
+        onClick={(e) => e.stopPropagation()}
+        onChange={() => onCheck(entry.id)}
+        className="mt-0.5"
+      />
+      <span className="w-16 shrink-0 text-[8px] uppercase pt-0.5" style={{ color }}>{entry.kind}</span>
+      <div className="flex-1 min-w-0">
+        <p className="line-clamp-2 break-words" style={{ color: "#c8d6e5" }}>{entry.content}</p>
+        <div className="flex items-center gap-2 mt-0.5 text-[8px]" style={{ color: "#4a6a8a" }}>
+          <span>{entry.agent_id}</span>
+          {entry.source && <span>· {entry.source}</span>}
+          <span>· {timeAgo(entry.created_at)}</span>
+          {entry.pinned && <Pin className="h-2.5 w-2.5" style={{ color: "#00f0ff" }} />}
+          {entry.anchored && <Anchor className="h-2.5 w-2.5" style={{ color: "#f59e0b" }} />}
+          {entry.archived && <span style={{ color: "#ff2d5e" }}>archived</span>}
+          {expired && <span style={{ color: "#ff2d5e" }}>expired</span>}
+        </div>
+      </div>
+      <DecayBar score={entry.decay_score} />
+    </div>
+  );
+});
+
+const DecayBar = React.memo(function DecayBar({ score }: { score: number | null }) {
+  if (score === null) {
+    return <span className="w-14 shrink-0 text-right text-[8px] pt-0.5" style={{ color: "#4a6a8a" }}>unscored</span>;
+  }
+  const color = decayColor(score);
+  return (
+    <div className="w-14 shrink-0 pt-1" title={`Decay score ${score.toFixed(3)}`}>
+      <div className="h-1 rounded" style={{ background: "#ffffff10" }}>
+        <div className="h-1 rounded" style={{ width: `${Math.round(score * 100)}%`, background: color }} />
+      </div>
+      <p className="text-[8px] text-right mt-0.5" style={{ color }}>{score.toFixed(2)}</p>
+    </div>
+  );
+});
+
+// ============================================================
+// Detail panel (remounted per memory via key)
+// ============================================================
+
+const MemoryDetailPanel = React.memo(function MemoryDetailPanel({
+  id,
+  loadDetail,
+  onUpdate,
+  onDelete,
+  onDeleted,
+  onSelect,
+}: {
+  id: string;
+  loadDetail: (id: string) => Promise<MemoryDetail>;
+  onUpdate: (id: string, patch: MemoryPatch) => Promise<AgentMemoryEntry>;
+  onDelete: (id: string) => Promise<void>;
+  onDeleted: (id: string) => void;
+  onSelect: (id: string) => void;
+}) {
+  const [detail, setDetail] = useState<MemoryDetail | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState("");
+  const [draftKind, setDraftKind] = useState<MemoryKind>("note");
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      setDetail(await loadDetail(id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  }, [id, loadDetail]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const apply = useCallback(
+    async (patch: MemoryPatch) => {
+      setBusy(true);
+      setError(null);
+      try {
+        const entry = await onUpdate(id, patch);
+        setDetail((prev) => (prev ? { ...prev, entry } : prev));
+        setEditing(false);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : String(err));
+      } finally {
+        setBusy(false);
+      }
+    },
+    [id, onUpdate]
+  );
+
+  const remove = useCallback(async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      await onDelete(id);
+      onDeleted(id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      setBusy(false);
+    }
+  }, [id, onDelete, onDeleted]);
+
+  if (!detail) {
+    return (
+      <div className="cyber-card rounded-lg p-5 flex items-center justify-center">
+        {error ? (
+          <p className="text-[10px] font-mono" style={{ color: "#ff2d5e" }}>[ERROR] {error}</p>
+        ) : (
+          <Loader2 className="h-4 w-4 animate-spin" style={{ color: "#00f0ff44" }} />
+        )}
+      </div>
+    );
+  }
+
+  const { entry, associations, injections } = detail;
+  const color = KIND_COLORS[entry.kind] ?? "#4a6a8a";
+  const expired = isExpired(entry);
+
+  return (
+    <div className="cyber-card rounded-lg p-5 space-y-4 text-[10px] font-mono self-start">
+      <div className="flex items-center gap-2">
+        <span className="text-[9px] uppercase tracking-wider" style={{ color }}>{entry.kind}</span>
+        <span style={{ color: "#4a6a8a" }}>{entry.id.slice(0, 8)}</span>
+        <div className="flex-1" />
+        {busy && <Loader2 className="h-3 w-3 animate-spin" style={{ color: "#00f0ff" }} />}
+      </div>
+
+      {error && <p style={{ color: "#ff2d5e" }}>[ERROR] {error}</p>}
+
+      {/* Content */}
+      {editing ? (
+        <div className="space-y-2">
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            rows={6}
+            className="w-full px-2 py-1.5 rounded text-[10px] font-mono cyber-input"
+          />
+          <div className="flex items-center gap-2">
+            <select
+              value={draftKind}
+              onChange={(e) => setDraftKind(e.target.value as MemoryKind)}
+              className="px-2 py-1 rounded cyber-input"
+            >
+              {KINDS.map((k) => (
+                <option key={k} value={k}>{k}</option>
+              ))}
+            </select>
+            <div className="flex-1" />
+            <button onClick={() => setEditing(false)} className="p-1" style={{ color: "#4a6a8a" }} title="Cancel">
+              <X className="h-3 w-3" />
+            </button>
+            <button
+              onClick={() =>
+                apply({
+                  ...(draft.trim() !== entry.content ? { content: draft } : {}),
+                  ...(draftKind !== entry.kind ? { kind: draftKind } : {}),
+                })
+              }
+              disabled={busy || !draft.trim() || (draft.trim() === entry.content && draftKind === entry.kind)}
+              className="p-1 disabled:opacity-40"
+              style={{ color: "#39ff14" }}
+              title="Save"
+            >
+              <Check className="h-3 w-3" />
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="group relative">
+          <p className="whitespace-pre-wrap break-words" style={{ color: "#c8d6e5" }}>{entry.content}</p>
+          <button
+            onClick={() => {
+              setDraft(entry.content);
+              setDraftKind(entry.kind);
+              setEditing(true);
+            }}
+            className="absolute top-0 right-0 p-1 opacity-0 group-hover:opacity-100"
+            style={{ color: "#00f0ff" }}
+            title="Edit"
+          >
+            <Pencil className="h-3 w-3" />
+          </button>
+        </div>
+      )}
+
+      {/* Facts */}
+      <div className="grid grid-cols-2 gap-x-3 gap-y-1 text-[9px]" style={{ color: "#4a6a8a" }}>
+        <span>agent</span><span style={{ color: "#c8d6e5" }}>{entry.agent_id}</span>
+        <span>source</span><span style={{ color: "#c8d6e5" }}>{entry.source ?? "—"}</span>
+        <span>created</span><span style={{ color: "#c8d6e5" }}>{new Date(entry.created_at).toLocaleString()}</span>
+        <span>decay</span>
+        <span style={{ color: entry.decay_score === null ? "#4a6a8a" : decayColor(entry.decay_score) }}>
+          {entry.decay_score === null ? "not scored yet" : entry.decay_score.toFixed(3)} · {entry.access_count} access{entry.access_count === 1 ? "" : "es"}
+        </span>
+        <span>expires</span>
+        <span style={{ color: expired ? "#ff2d5e" : "#c8d6e5" }}>
+          {entry.expires_at ? `${new Date(entry.expires_at).toLocaleString()}${expired ? " (expired)" : ""}` : "never"}
+        </span>
+        {entry.archived && (
+          <>
+            <span>archived</span><span style={{ color: "#ff2d5e" }}>{entry.archive_reason ?? "yes"}</span>
+          </>
+        )}
+      </div>
+
+      {/* Actions */}
+      <div className="flex flex-wrap gap-1.5">
+        <ActionButton
+          onClick={() => apply({ pinned: !entry.pinned })}
+          disabled={busy}
+          color="#00f0ff"
+          icon={entry.pinned ? PinOff : Pin}
+          label={entry.pinned ? "Unpin" : "Pin"}
+          title="Pinned memories are always considered for Soul context and never decay"
+        />
+        <ActionButton
+          onClick={() => apply({ archived: !entry.archived })}
+          disabled={busy}
+          color="#a855f7"
+          icon={entry.archived ? RotateCcw : Archive}
+          label={entry.archived ? "Restore" : "Archive"}
+          title={entry.archived ? "Restore to retrieval (the decay pass may re-archive it unless pinned)" : "Exclude from Soul context"}
+        />
+        <ActionButton
+          onClick={() => apply({ expire: true })}
+          disabled={busy || expired}
+          color="#f59e0b"
+          icon={Timer}
+          label="Expire"
+          title="Stop injecting now; the hourly TTL cleanup deletes it"
+        />
+        {confirmDelete ? (
+          <ActionButton onClick={remove} disabled={busy} color="#ff2d5e" icon={Trash2} label="Confirm delete" />
+        ) : (
+          <ActionButton onClick={() => setConfirmDelete(true)} disabled={busy} color="#ff2d5e" icon={Trash2} label="Delete" />
+        )}
+      </div>
+
+      {/* Associations */}
+      <div className="space-y-1">
+        <p className="flex items-center gap-1 text-[9px] uppercase tracking-wider" style={{ color: "#00f0ff88" }}>
+          <Link2 className="h-3 w-3" /> Associations ({associations.length})
+        </p>
+        {associations.length === 0 ? (
+          <p style={{ color: "#4a6a8a" }}>{"// none"}</p>
+        ) : (
+          associations.map((a) => (
+            <button
+              key={a.id}
+              onClick={() => a.related && onSelect(a.related.id)}
+              disabled={!a.related}
+              className="w-full flex items-start gap-2 rounded px-2 py-1 text-left"
+              style={{ background: "#05080f", border: "1px solid #00f0ff08" }}
+            >
+              <span className="w-10 shrink-0" style={{ color: "#00f0ff" }}>{a.strength.toFixed(2)}</span>
+              <span className="w-16 shrink-0 text-[8px] uppercase pt-0.5" style={{ color: "#4a6a8a" }}>{a.association_type}</span>
+              <span className="flex-1 truncate" style={{ color: "#c8d6e5" }}>{a.related?.content ?? "(deleted)"}</span>
+            </button>
+          ))
+        )}
+      </div>
+
+      {/* Injections */}
+      <div className="space-y-1">
+        <p className="flex items-center gap-1 text-[9px] uppercase tracking-wider" style={{ color: "#00f0ff88" }}>
+          <Send className="h-3 w-3" /> Injected into ({injections.length})
+        </p>
+        {injections.length === 0 ? (
+          <p style={{ color: "#4a6a8a" }}>{"// not injected into any logged context yet"}</p>
+        ) : (
+          injections.map((inj) => (
+            <div
+              key={inj.query_id}
+              className="flex items-start gap-2 rounded px-2 py-1"
+              style={{ background: "#05080f", border: "1px solid #00f0ff08" }}
+            >
+              <span className="w-12 shrink-0" style={{ color: "#4a6a8a" }}>{timeAgo(inj.query_time)}</span>
+              <span className="w-14 shrink-0 truncate" style={{ color: "#00f0ff" }}>{inj.agent_id}</span>
+              <span className="flex-1 truncate" style={{ color: "#c8d6e5" }} title={inj.command?.message}>
+                {inj.command ? inj.command.message : "(command not recorded)"}
+              </span>
+              {inj.relevance !== null && (
+                <span className="shrink-0" style={{ color: "#39ff14" }}>{inj.relevance.toFixed(2)}</span>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+});
+
+const ActionButton = React.memo(function ActionButton({
+  onClick,
+  disabled,
+  color,
+  icon: Icon,
+  label,
+  title,
+}: {
+  onClick: () => void;
+  disabled: boolean;
+  color: string;
+  icon: React.ComponentType<{ className?: string }>;
+  label: string;
+  title?: string;
+}) {
+  return (
+    <button
+      onClick={onClick}
+      disabled={disabled}
+      title={title}
+      className="flex items-center gap-1 px-2 py-1 rounded text-[9px] uppercase tracking-wider disabled:opacity-40"
+      style={{ background: `${color}10`, border: `1px solid ${color}30`, color }}
+    >
+      <Icon className="h-3 w-3" />
+      {label}
+    </button>
+  );
+});
+
+// ============================================================
+// Merge panel
+// ============================================================
+
+const MergePanel = React.memo(function MergePanel({
+  sources,
+  onMerge,
+  onMerged,
+  onClose,
+}: {
+  sources: AgentMemoryEntry[];
+  onMerge: (ids: string[], opts: { content?: string; kind?: MemoryKind; agent_id?: string }) => Promise<AgentMemoryEntry>;
+  onMerged: (entry: AgentMemoryEntry) => void;
+  onClose: () => void;
+}) {
+  const ordered = useMemo(
+    () => [...sources].sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime()),
+    [sources]
+  );
+  const agents = useMemo(() => [...new Set(ordered.map((s) => s.agent_id))], [ordered]);
+  const [content, setContent] = useState(() => ordered.map((s) => s.content).join("\n"));
+  const [kind, setKind] = useState<MemoryKind>(ordered[ordered.length - 1].kind);
+  const [agentId, setAgentId] = useState(agents.length > 1 ? "_shared" : agents[0]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = useCallback(async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const entry = await onMerge(
+        ordered.map((s) => s.id),
+        { content: content.trim(), kind, agent_id: agentId }
+      );
+      onMerged(entry);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setSaving(false);
+    }
+  }, [onMerge, onMerged, ordered, content, kind, agentId]);
+
+  return (
+    <div className="space-y-2 rounded p-3 text-[10px] font-mono" style={{ background: "#05080f", border: "1px solid #a855f730" }}>
+      <p className="text-[9px]" style={{ color: "#4a6a8a" }}>
+        {`// merge ${ordered.length} memories into one -- the sources are archived and their associations carried over`}
+      </p>
+      <textarea
+        value={content}
+        onChange={(e) => setContent(e.target.value)}
+        rows={6}
+        className="w-full px-2 py-1.5 rounded cyber-input"
+      />
+      <div className="flex items-center gap-2">
+        <select value={kind} onChange={(e) => setKind(e.target.value as MemoryKind)} className="px-2 py-1 rounded cyber-input">
+          {KINDS.map((k) => (
+            <option key={k} value={k}>{k}</option>
+          ))}
+        </select>
+        <select value={agentId} onChange={(e) => setAgentId(e.target.value)} className="px-2 py-1 rounded cyber-input">
+          {[...new Set([...agents, "_shared"])].map((a) => (
+            <option key={a} value={a}>{a}</option>
+          ))}
+        </select>
+        <div className="flex-1" />
+        <button onClick={onClose} className="p-1" style={{ color: "#4a6a8a" }} title="Cancel">
+          <X className="h-3 w-3" />
+        </button>
+        <button
+          onClick={submit}
+          disabled={saving || !content.trim()}
+          className="flex items-center gap-1 px-2 py-1 rounded uppercase tracking-wider disabled:opacity-40"
+          style={{ background: "#a855f715", border: "1px solid #a855f740", color: "#a855f7" }}
+        >
+          {saving ? <Loader2 className="h-3 w-3 animate-spin" /> : <Merge className="h-3 w-3" />}
+          Merge
+        </button>
+      </div>
+      {error && <p style={{ color: "#ff2d5e" }}>[ERROR] {error}</p>}
+    </div>
+  );
+});
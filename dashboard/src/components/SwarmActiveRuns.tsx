@@ -9,6 +9,7 @@ import {
   Zap,
   ArrowRight,
   Users,
+  GitBranch,
   Activity,
 } from "lucide-react";
 import type { SwarmRun, SwarmTask, SwarmMode } from "@/lib/types";
@@ -18,12 +19,14 @@ const modeIcons: Record<SwarmMode, React.ReactNode> = {
   parallel: <Zap className="h-3.5 w-3.5" />,
   pipeline: <ArrowRight className="h-3.5 w-3.5" />,
   collaborative: <Users className="h-3.5 w-3.5" />,
+  dag: <GitBranch className="h-3.5 w-3.5" />,
 };
 
 const modeColors: Record<SwarmMode, string> = {
   parallel: "#00f0ff",
   pipeline: "#39ff14",
   collaborative: "#a855f7",
+  dag: "#f472b6",
 };
 
 const taskStatusColors: Record<string, { color: string; bg: string }> = {
@@ -32,6 +35,7 @@ const taskStatusColors: Record<string, { color: string; bg: string }> = {
   completed: { color: "#39ff14", bg: "#39ff1412" },
   failed: { color: "#ff2d5e", bg: "#ff2d5e12" },
   skipped: { color: "#f59e0b", bg: "#f59e0b12" },
+  interrupted: { color: "#f59e0b", bg: "#f59e0b12" },
 };
 
 interface Props {
@@ -370,6 +374,16 @@ const TaskRow = React.memo(function TaskRow({
         >
           {task.agent_id}
         </span>
+        {task.fallback_from && (
+          <span className="text-[8px] font-mono" style={{ color: "#4a6a8a" }}>
+            fallback from {task.fallback_from}
+          </span>
+        )}
+        {task.attempts > 1 && (
+          <span className="text-[8px] font-mono" style={{ color: "#f59e0b" }}>
+            attempt {task.attempts}
+          </span>
+        )}
         <div className="flex-1" />
         <span
           className="text-[8px] font-mono uppercase tracking-wider"
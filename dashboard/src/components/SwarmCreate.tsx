@@ -5,6 +5,7 @@ import {
   Zap,
   ArrowRight,
   Users,
+  GitBranch,
   Plus,
   Trash2,
   Loader2,
@@ -13,7 +14,8 @@ import {
   Play,
   CheckCircle,
 } from "lucide-react";
-import { KNOWN_AGENTS, type SwarmMode, type SwarmTemplate, type SwarmManifestTask } from "@/lib/types";
+import type { SwarmMode, SwarmTemplate, SwarmManifestTask } from "@/lib/types";
+import { useAgentRegistry } from "@/hooks/useAgentRegistry";
 
 const modeConfig: Record<SwarmMode, { icon: React.ReactNode; label: string; desc: string; color: string }> = {
   parallel: {
@@ -34,6 +36,12 @@ const modeConfig: Record<SwarmMode, { icon: React.ReactNode; label: string; desc
     desc: "Same task to multiple agents",
     color: "#a855f7",
   },
+  dag: {
+    icon: <GitBranch className="h-4 w-4" />,
+    label: "DAG",
+    desc: "Fan-out/fan-in via depends_on",
+    color: "#f472b6",
+  },
 };
 
 const INITIAL_TASK: SwarmManifestTask = { id: "task-1", agent: "main", message: "" };
@@ -43,6 +51,7 @@ interface Props {
 }
 
 export const SwarmCreate = React.memo(function SwarmCreate({ onCreated }: Props) {
+  const { fleet } = useAgentRegistry();
   const [tab, setTab] = useState<"templates" | "custom">("templates");
   const [templates, setTemplates] = useState<SwarmTemplate[]>([]);
   const [loadingTemplates, setLoadingTemplates] = useState(true);
@@ -149,7 +158,13 @@ export const SwarmCreate = React.memo(function SwarmCreate({ onCreated }: Props)
         synthesize_agent: synthesizeAgent,
       });
     } else {
-      const validTasks = tasks.filter((t) => t.message.trim());
+      // depends_on is edited as a comma-separated string; only dag mode uses it
+      const validTasks = tasks
+        .filter((t) => t.message.trim())
+        .map(({ depends_on, ...t }) => {
+          const deps = String(depends_on ?? "").split(",").map((d) => d.trim()).filter(Boolean);
+          return mode === "dag" && deps.length > 0 ? { ...t, depends_on: deps } : t;
+        });
       if (validTasks.length === 0) {
         setError("At least one task with a message is required");
         return;
@@ -214,8 +229,8 @@ export const SwarmCreate = React.memo(function SwarmCreate({ onCreated }: Props)
 
   // Memoize agent options to avoid re-render on every keystroke
   const agentOptions = useMemo(
-    () => KNOWN_AGENTS.map((a) => <option key={a.id} value={a.id}>{a.id}</option>),
-    []
+    () => fleet.map((a) => <option key={a.id} value={a.id}>{a.id}</option>),
+    [fleet]
   );
 
   return (
@@ -334,7 +349,7 @@ export const SwarmCreate = React.memo(function SwarmCreate({ onCreated }: Props)
             <label className="block text-[9px] font-mono uppercase tracking-wider mb-2" style={{ color: "#4a6a8a" }}>
               Execution Mode
             </label>
-            <div className="grid grid-cols-3 gap-2">
+            <div className="grid grid-cols-4 gap-2">
               {(Object.entries(modeConfig) as [SwarmMode, typeof modeConfig["parallel"]][]).map(
                 ([key, cfg]) => (
                   <button
@@ -384,7 +399,7 @@ export const SwarmCreate = React.memo(function SwarmCreate({ onCreated }: Props)
                   Agents
                 </label>
                 <div className="flex flex-wrap gap-2">
-                  {KNOWN_AGENTS.map((agent) => (
+                  {fleet.map((agent) => (
                     <button
                       key={agent.id}
                       onClick={() => toggleCollabAgent(agent.id)}
@@ -415,7 +430,7 @@ export const SwarmCreate = React.memo(function SwarmCreate({ onCreated }: Props)
             </div>
           )}
 
-          {/* Parallel / Pipeline Task List */}
+          {/* Parallel / Pipeline / DAG Task List */}
           {mode !== "collaborative" && (
             <div className="space-y-4">
               <div className="flex items-center justify-between">
@@ -597,6 +612,19 @@ const TaskEditor = React.memo(function TaskEditor({
         </select>
       </div>
 
+      {mode === "dag" && (
+        <div className="flex items-center gap-3">
+          <label className="text-[9px] font-mono shrink-0" style={{ color: "#4a6a8a" }}>DEPENDS ON:</label>
+          <input
+            type="text"
+            value={Array.isArray(task.depends_on) ? task.depends_on.join(", ") : task.depends_on ?? ""}
+            onChange={(e) => onUpdate(index, "depends_on", e.target.value)}
+            className="flex-1 px-2 py-1.5 rounded text-[10px] font-mono cyber-input"
+            placeholder="task-1, task-2 (use {{tasks.task-1.output}} in the message)"
+          />
+        </div>
+      )}
+
       <textarea
         value={task.message}
         onChange={(e) => onUpdate(index, "message", e.target.value)}
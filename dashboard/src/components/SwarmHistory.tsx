@@ -8,11 +8,13 @@ import {
   Zap,
   ArrowRight,
   Users,
+  GitBranch,
   Check,
   XCircle,
   Ban,
   Filter,
   Loader2,
+  RotateCcw,
 } from "lucide-react";
 import type { SwarmRun, SwarmTask, SwarmMode, SwarmRunStatus } from "@/lib/types";
 
@@ -20,12 +22,14 @@ const modeIcons: Record<SwarmMode, React.ReactNode> = {
   parallel: <Zap className="h-3 w-3" />,
   pipeline: <ArrowRight className="h-3 w-3" />,
   collaborative: <Users className="h-3 w-3" />,
+  dag: <GitBranch className="h-3 w-3" />,
 };
 
 const modeColors: Record<SwarmMode, string> = {
   parallel: "#00f0ff",
   pipeline: "#39ff14",
   collaborative: "#a855f7",
+  dag: "#f472b6",
 };
 
 const statusIcons: Record<string, React.ReactNode> = {
@@ -38,6 +42,7 @@ const statusColors: Record<string, string> = {
   completed: "#39ff14",
   failed: "#ff2d5e",
   cancelled: "#f59e0b",
+  interrupted: "#f59e0b",
 };
 
 interface Props {
@@ -54,6 +59,7 @@ export const SwarmHistory = React.memo(function SwarmHistory({
   const [expanded, setExpanded] = useState<Set<string>>(new Set());
   const [modeFilter, setModeFilter] = useState<SwarmMode | "all">("all");
   const [statusFilter, setStatusFilter] = useState<SwarmRunStatus | "all">("all");
+  const [resuming, setResuming] = useState<Set<string>>(new Set());
 
   const filteredRuns = useMemo(() => {
     return runs.filter((r) => {
@@ -80,6 +86,26 @@ export const SwarmHistory = React.memo(function SwarmHistory({
     [taskMap, fetchTasks]
   );
 
+  // On success the run goes back to pending and moves to the Active tab via Realtime
+  const resumeRun = useCallback(async (id: string) => {
+    setResuming((prev) => new Set(prev).add(id));
+    try {
+      const res = await fetch(`/api/swarms/${id}/resume`, { method: "POST" });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        console.error("[swarm-resume]", data.error || res.statusText);
+      }
+    } catch (err) {
+      console.error("[swarm-resume]", err);
+    } finally {
+      setResuming((prev) => {
+        const next = new Set(prev);
+        next.delete(id);
+        return next;
+      });
+    }
+  }, []);
+
   return (
     <div className="space-y-4">
       {/* Filters */}
@@ -100,6 +126,7 @@ export const SwarmHistory = React.memo(function SwarmHistory({
           <option value="parallel">Parallel</option>
           <option value="pipeline">Pipeline</option>
           <option value="collaborative">Collaborative</option>
+          <option value="dag">DAG</option>
         </select>
 
         <select
@@ -134,7 +161,9 @@ export const SwarmHistory = React.memo(function SwarmHistory({
               run={run}
               tasks={taskMap[run.id]}
               isExpanded={expanded.has(run.id)}
+              isResuming={resuming.has(run.id)}
               onToggle={toggle}
+              onResume={resumeRun}
             />
           ))}
         </div>
@@ -151,12 +180,16 @@ const HistoryRunRow = React.memo(function HistoryRunRow({
   run,
   tasks,
   isExpanded,
+  isResuming,
   onToggle,
+  onResume,
 }: {
   run: SwarmRun;
   tasks?: SwarmTask[];
   isExpanded: boolean;
+  isResuming: boolean;
   onToggle: (id: string) => void;
+  onResume: (id: string) => void;
 }) {
   const mc = modeColors[run.mode as SwarmMode] ?? "#00f0ff";
   const sc = statusColors[run.status] ?? "#4a6a8a";
@@ -170,6 +203,9 @@ const HistoryRunRow = React.memo(function HistoryRunRow({
     return `${(ms / 60000).toFixed(1)}m`;
   }, [run.created_at, run.updated_at]);
 
+  const canResume = run.status === "failed" || run.status === "cancelled";
+  const completedCount = tasks?.filter((t) => t.status === "completed" && t.task_id !== "__synthesis__").length ?? 0;
+
   const timestamp = useMemo(() => {
     const d = new Date(run.created_at);
     return (
@@ -226,6 +262,34 @@ const HistoryRunRow = React.memo(function HistoryRunRow({
 
       {isExpanded && (
         <div className="px-4 pb-4 space-y-3" style={{ borderTop: "1px solid #00f0ff08" }}>
+          {/* Resume -- completed tasks are kept, the rest re-run */}
+          {canResume && (
+            <div className="mt-3 flex items-center gap-3">
+              <button
+                onClick={() => onResume(run.id)}
+                disabled={isResuming}
+                className="flex items-center gap-1 px-2 py-1 rounded text-[9px] font-mono uppercase tracking-wider transition-all disabled:opacity-40"
+                style={{
+                  background: "#00f0ff10",
+                  border: "1px solid #00f0ff30",
+                  color: "#00f0ff",
+                }}
+              >
+                {isResuming ? (
+                  <Loader2 className="h-3 w-3 animate-spin" />
+                ) : (
+                  <RotateCcw className="h-3 w-3" />
+                )}
+                Resume
+              </button>
+              {tasks && (
+                <span className="text-[9px] font-mono" style={{ color: "#4a6a8a" }}>
+                  keeps {completedCount} completed task{completedCount !== 1 ? "s" : ""}, re-runs the rest
+                </span>
+              )}
+            </div>
+          )}
+
           {/* Synthesis */}
           {run.synthesis && (
             <div className="mt-3 rounded-lg p-3" style={{ background: "#060b14", border: "1px solid #a855f720" }}>
@@ -296,7 +360,13 @@ const HistoryTaskRow = React.memo(function HistoryTaskRow({
         </span>
         <span className="text-[8px] font-mono" style={{ color: "#4a6a8a" }}>
           @{task.agent_id}
+          {task.fallback_from && ` (fallback from ${task.fallback_from})`}
         </span>
+        {task.attempts > 1 && (
+          <span className="text-[8px] font-mono" style={{ color: "#f59e0b" }}>
+            x{task.attempts}
+          </span>
+        )}
         <div className="flex-1" />
         <span className="text-[8px] font-mono uppercase" style={{ color }}>
           {task.status}
@@ -0,0 +1,387 @@
+"use client";
+
+import React, { useState, useCallback, useEffect } from "react";
+import { CalendarClock, Plus, Trash2, Loader2, Power, X } from "lucide-react";
+import type {
+  SwarmSchedule,
+  SwarmScheduleRun,
+  SwarmScheduleOutcome,
+  SwarmTemplate,
+  SwarmOverlapPolicy,
+} from "@/lib/types";
+
+type ScheduleWithRecent = SwarmSchedule & { recent: SwarmScheduleRun[] };
+
+const REFRESH_MS = 60_000;
+
+const CRON_PRESETS: { label: string; cron: string }[] = [
+  { label: "Weekdays 9:00", cron: "0 9 * * 1-5" },
+  { label: "Daily 8:00", cron: "0 8 * * *" },
+  { label: "Hourly", cron: "0 * * * *" },
+];
+
+const outcomeColors: Record<SwarmScheduleOutcome, string> = {
+  started: "#39ff14",
+  queued: "#00f0ff",
+  skipped: "#f59e0b",
+  missed: "#ff2d5e",
+  error: "#ff2d5e",
+};
+
+const localTimezone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+
+function formatWhen(iso: string | null): string {
+  if (!iso) return "--";
+  const d = new Date(iso);
+  return (
+    d.toLocaleDateString("en-US", { month: "short", day: "numeric" }) +
+    " " +
+    d.toLocaleTimeString("en-US", { hour: "2-digit", minute: "2-digit", hour12: false })
+  );
+}
+
+export const SwarmSchedules = React.memo(function SwarmSchedules() {
+  const [schedules, setSchedules] = useState<ScheduleWithRecent[]>([]);
+  const [templates, setTemplates] = useState<SwarmTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [busy, setBusy] = useState<Set<string>>(new Set());
+  const [error, setError] = useState<string | null>(null);
+
+  // Form state
+  const [name, setName] = useState("");
+  const [template, setTemplate] = useState("");
+  const [cron, setCron] = useState(CRON_PRESETS[0].cron);
+  const [timezone, setTimezone] = useState(localTimezone);
+  const [overlap, setOverlap] = useState<SwarmOverlapPolicy>("skip");
+  const [catchUp, setCatchUp] = useState(false);
+  const [overridesText, setOverridesText] = useState("");
+
+  const fetchSchedules = useCallback(async () => {
+    try {
+      const res = await fetch("/api/swarms/schedules");
+      const data = await res.json();
+      if (Array.isArray(data)) setSchedules(data);
+    } catch {
+      // keep the last list on transient errors
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSchedules();
+    const timer = setInterval(fetchSchedules, REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [fetchSchedules]);
+
+  useEffect(() => {
+    fetch("/api/swarms/templates")
+      .then((r) => r.json())
+      .then((data) => {
+        if (Array.isArray(data)) {
+          setTemplates(data);
+          if (data.length > 0) setTemplate((prev) => prev || data[0].filename);
+        }
+      })
+      .catch(() => {});
+  }, []);
+
+  const resetForm = useCallback(() => {
+    setName("");
+    setCron(CRON_PRESETS[0].cron);
+    setOverlap("skip");
+    setCatchUp(false);
+    setOverridesText("");
+    setShowForm(false);
+  }, []);
+
+  const createSchedule = useCallback(async () => {
+    setError(null);
+    let overrides: Record<string, unknown> = {};
+    if (overridesText.trim()) {
+      try {
+        overrides = JSON.parse(overridesText);
+      } catch {
+        setError("Overrides must be valid JSON");
+        return;
+      }
+    }
+
+    setSaving(true);
+    try {
+      const res = await fetch("/api/swarms/schedules", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: name.trim() || template.replace(".json", ""),
+          template,
+          cron: cron.trim(),
+          timezone,
+          overlap_policy: overlap,
+          catch_up: catchUp,
+          overrides,
+        }),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || "Failed to create schedule");
+      }
+      resetForm();
+      fetchSchedules();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Unknown error");
+    } finally {
+      setSaving(false);
+    }
+  }, [name, template, cron, timezone, overlap, catchUp, overridesText, resetForm, fetchSchedules]);
+
+  const mutate = useCallback(
+    async (id: string, init: RequestInit) => {
+      setBusy((prev) => new Set(prev).add(id));
+      try {
+        const res = await fetch(`/api/swarms/schedules/${id}`, init);
+        if (!res.ok) {
+          const data = await res.json().catch(() => ({}));
+          setError(data.error || res.statusText);
+        }
+        await fetchSchedules();
+      } catch (err) {
+        console.error("[swarm-schedule]", err);
+      } finally {
+        setBusy((prev) => {
+          const next = new Set(prev);
+          next.delete(id);
+          return next;
+        });
+      }
+    },
+    [fetchSchedules]
+  );
+
+  const toggleEnabled = useCallback(
+    (s: SwarmSchedule) =>
+      mutate(s.id, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ enabled: !s.enabled }),
+      }),
+    [mutate]
+  );
+
+  const deleteSchedule = useCallback(
+    (id: string) => mutate(id, { method: "DELETE" }),
+    [mutate]
+  );
+
+  return (
+    <div className="cyber-card rounded-lg p-4 space-y-4">
+      <div className="flex items-center gap-2">
+        <CalendarClock className="h-3.5 w-3.5" style={{ color: "#00f0ff" }} />
+        <span className="text-[10px] font-mono uppercase tracking-wider" style={{ color: "#00f0ff" }}>
+          Schedules
+        </span>
+        <div className="flex-1" />
+        <button
+          onClick={() => setShowForm((p) => !p)}
+          className="flex items-center gap-1 px-2 py-1 rounded text-[9px] font-mono uppercase tracking-wider"
+          style={{ background: "#00f0ff10", border: "1px solid #00f0ff30", color: "#00f0ff" }}
+        >
+          {showForm ? <X className="h-3 w-3" /> : <Plus className="h-3 w-3" />}
+          {showForm ? "Close" : "New"}
+        </button>
+      </div>
+
+      {error && (
+        <div className="rounded border px-3 py-2" style={{ borderColor: "#ff2d5e25", background: "#ff2d5e08" }}>
+          <p className="text-[10px] font-mono" style={{ color: "#ff2d5e" }}>
+            [ERROR] {error}
+          </p>
+        </div>
+      )}
+
+      {/* New schedule form */}
+      {showForm && (
+        <div className="space-y-2.5 rounded p-3" style={{ background: "#060b14", border: "1px solid #00f0ff08" }}>
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Name (defaults to template)"
+            className="w-full px-2 py-1.5 rounded text-[10px] font-mono cyber-input"
+          />
+          <select
+            value={template}
+            onChange={(e) => setTemplate(e.target.value)}
+            className="w-full px-2 py-1.5 rounded text-[10px] font-mono cyber-input"
+          >
+            {templates.map((t) => (
+              <option key={t.filename} value={t.filename}>
+                {t.filename} ({t.mode})
+              </option>
+            ))}
+          </select>
+          <input
+            value={cron}
+            onChange={(e) => setCron(e.target.value)}
+            placeholder="m h dom mon dow"
+            className="w-full px-2 py-1.5 rounded text-[10px] font-mono cyber-input"
+          />
+          <div className="flex flex-wrap gap-1">
+            {CRON_PRESETS.map((p) => (
+              <button
+                key={p.cron}
+                onClick={() => setCron(p.cron)}
+                className="px-1.5 py-0.5 rounded text-[8px] font-mono"
+                style={{
+                  background: cron === p.cron ? "#00f0ff15" : "transparent",
+                  border: "1px solid #00f0ff20",
+                  color: cron === p.cron ? "#00f0ff" : "#4a6a8a",
+                }}
+              >
+                {p.label}
+              </button>
+            ))}
+          </div>
+          <input
+            value={timezone}
+            onChange={(e) => setTimezone(e.target.value)}
+            placeholder="Timezone (e.g. America/New_York)"
+            className="w-full px-2 py-1.5 rounded text-[10px] font-mono cyber-input"
+          />
+          <div className="flex items-center gap-3">
+            <select
+              value={overlap}
+              onChange={(e) => setOverlap(e.target.value as SwarmOverlapPolicy)}
+              className="px-2 py-1 rounded text-[10px] font-mono cyber-input"
+              title="When the previous run is still active"
+            >
+              <option value="skip">If busy: skip</option>
+              <option value="queue">If busy: queue</option>
+            </select>
+            <label className="flex items-center gap-1.5 text-[9px] font-mono" style={{ color: "#4a6a8a" }}>
+              <input type="checkbox" checked={catchUp} onChange={(e) => setCatchUp(e.target.checked)} />
+              Catch up after downtime
+            </label>
+          </div>
+          <textarea
+            value={overridesText}
+            onChange={(e) => setOverridesText(e.target.value)}
+            placeholder='Overrides (JSON), e.g. {"synthesize_agent": "soul"}'
+            rows={2}
+            className="w-full px-2 py-1.5 rounded text-[10px] font-mono cyber-input resize-none"
+          />
+          <button
+            onClick={createSchedule}
+            disabled={saving || !template || !cron.trim()}
+            className="w-full flex items-center justify-center gap-2 px-3 py-2 rounded text-[10px] font-mono uppercase tracking-wider disabled:opacity-40"
+            style={{ background: "#00f0ff15", border: "1px solid #00f0ff40", color: "#00f0ff" }}
+          >
+            {saving ? <Loader2 className="h-3 w-3 animate-spin" /> : <CalendarClock className="h-3 w-3" />}
+            Create Schedule
+          </button>
+        </div>
+      )}
+
+      {/* Schedule list */}
+      {loading ? (
+        <div className="flex items-center justify-center py-4">
+          <Loader2 className="h-4 w-4 animate-spin" style={{ color: "#00f0ff44" }} />
+        </div>
+      ) : schedules.length === 0 ? (
+        <p className="text-[10px] font-mono text-center py-4" style={{ color: "#4a6a8a" }}>
+          No schedules -- run a template on a cron
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {schedules.map((s) => (
+            <ScheduleRow
+              key={s.id}
+              schedule={s}
+              isBusy={busy.has(s.id)}
+              onToggle={toggleEnabled}
+              onDelete={deleteSchedule}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+});
+
+// ============================================================
+// Memoized schedule row
+// ============================================================
+
+const ScheduleRow = React.memo(function ScheduleRow({
+  schedule: s,
+  isBusy,
+  onToggle,
+  onDelete,
+}: {
+  schedule: ScheduleWithRecent;
+  isBusy: boolean;
+  onToggle: (s: SwarmSchedule) => void;
+  onDelete: (id: string) => void;
+}) {
+  const last = s.recent[0];
+
+  return (
+    <div
+      className="rounded p-2.5 space-y-1.5"
+      style={{ background: "#060b14", border: "1px solid #00f0ff06", opacity: s.enabled ? 1 : 0.5 }}
+    >
+      <div className="flex items-center gap-2">
+        <span className="text-[10px] font-mono font-bold truncate" style={{ color: "#c8d6e5" }}>
+          {s.name}
+        </span>
+        <div className="flex-1" />
+        <button
+          onClick={() => onToggle(s)}
+          disabled={isBusy}
+          title={s.enabled ? "Disable" : "Enable"}
+          className="disabled:opacity-40"
+          style={{ color: s.enabled ? "#39ff14" : "#4a6a8a" }}
+        >
+          {isBusy ? <Loader2 className="h-3 w-3 animate-spin" /> : <Power className="h-3 w-3" />}
+        </button>
+        <button
+          onClick={() => onDelete(s.id)}
+          disabled={isBusy}
+          title="Delete"
+          className="disabled:opacity-40"
+          style={{ color: "#ff2d5e88" }}
+        >
+          <Trash2 className="h-3 w-3" />
+        </button>
+      </div>
+
+      <div className="text-[9px] font-mono" style={{ color: "#4a6a8a" }}>
+        {s.template} · <span style={{ color: "#00f0ff99" }}>{s.cron}</span> ({s.timezone})
+        {s.overlap_policy === "queue" && " · queues"}
+        {s.catch_up && " · catch-up"}
+      </div>
+
+      <div className="flex items-center gap-2 text-[9px] font-mono" style={{ color: "#4a6a8a" }}>
+        <span>next: {s.enabled ? formatWhen(s.next_run_at) : "disabled"}</span>
+        {last && (
+          <span style={{ color: outcomeColors[last.outcome] }} title={last.detail ?? undefined}>
+            last: {last.outcome} {formatWhen(last.scheduled_for)}
+          </span>
+        )}
+        <div className="flex-1" />
+        {/* Recent occurrences, newest first */}
+        <div className="flex items-center gap-0.5">
+          {s.recent.map((r) => (
+            <div
+              key={r.id}
+              className="h-1.5 w-1.5 rounded-full"
+              style={{ background: outcomeColors[r.outcome] }}
+              title={`${formatWhen(r.scheduled_for)} ${r.outcome}${r.detail ? ` -- ${r.detail}` : ""}`}
+            />
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+});
@@ -1,11 +1,50 @@
 "use client";
 
-import React from "react";
+import React, { useMemo } from "react";
 import { useBridgeStatus } from "@/hooks/useBridgeStatus";
+import { useBridgeMetrics } from "@/hooks/useBridgeMetrics";
+import type { BridgeMetricsSnapshot } from "@/lib/types";
 import { Server } from "lucide-react";
 
+type Metrics = BridgeMetricsSnapshot["metrics"];
+
+/** Sum a metric's series whose labels match `where` (histograms: field = count|sum) */
+function total(metrics: Metrics, name: string, where: Record<string, string> = {}, field: "value" | "count" | "sum" = "value"): number {
+  return (metrics[name]?.series ?? [])
+    .filter((s) => Object.entries(where).every(([k, v]) => s.labels[k] === v))
+    .reduce((acc, s) => acc + (s[field] ?? 0), 0);
+}
+
+function summarize(metrics: Metrics) {
+  const runCount = total(metrics, "bridge_command_duration_seconds", {}, "count");
+  const flushCount = total(metrics, "bridge_streamer_flush_seconds", {}, "count");
+  const hits = total(metrics, "bridge_cache_hits_total");
+  const lookups = hits + total(metrics, "bridge_cache_misses_total");
+  const channels = metrics.bridge_realtime_channel_up?.series ?? [];
+  const openBreakers = (metrics.bridge_circuit_breaker_state?.series ?? [])
+    .filter((s) => s.labels.state !== "CLOSED" && s.value === 1)
+    .map((s) => `${s.labels.breaker} (${s.labels.state.toLowerCase()})`);
+
+  return {
+    completed: total(metrics, "bridge_commands_total", { status: "completed" }),
+    failed: total(metrics, "bridge_commands_total", { status: "failed" }),
+    avgRunS: runCount > 0 ? total(metrics, "bridge_command_duration_seconds", {}, "sum") / runCount : null,
+    tasksOk: total(metrics, "bridge_swarm_tasks_total", { status: "completed" }),
+    tasksFailed: total(metrics, "bridge_swarm_tasks_total", { status: "failed" }),
+    avgFlushMs: flushCount > 0 ? (total(metrics, "bridge_streamer_flush_seconds", {}, "sum") / flushCount) * 1000 : null,
+    flushFailures: total(metrics, "bridge_streamer_flush_failures_total"),
+    channelsUp: channels.filter((s) => s.value === 1).length,
+    channels: channels.length,
+    openBreakers,
+    hitRate: lookups > 0 ? hits / lookups : null,
+    rssMb: total(metrics, "bridge_process_memory_bytes", { type: "rss" }) / 1024 / 1024,
+  };
+}
+
 export const SystemHealth = React.memo(function SystemHealth() {
   const { session, isOnline } = useBridgeStatus();
+  const { metrics } = useBridgeMetrics();
+  const summary = useMemo(() => (metrics ? summarize(metrics.metrics) : null), [metrics]);
 
   const lastSeen = session
     ? new Date(session.last_heartbeat).toLocaleString()
@@ -64,6 +103,57 @@ export const SystemHealth = React.memo(function SystemHealth() {
           </div>
         )}
       </div>
+
+      {summary && (
+        <div className="mt-3 pt-3 space-y-1.5" style={{ borderTop: '1px solid #00f0ff10' }}>
+          <MetricRow
+            label="Commands"
+            value={`${summary.completed} ok · ${summary.failed} failed${summary.avgRunS !== null ? ` · avg ${summary.avgRunS.toFixed(1)}s` : ""}`}
+            warn={summary.failed > 0}
+          />
+          <MetricRow label="Swarm tasks" value={`${summary.tasksOk} ok · ${summary.tasksFailed} failed`} warn={summary.tasksFailed > 0} />
+          <MetricRow
+            label="Stream flush"
+            value={`${summary.avgFlushMs !== null ? `${summary.avgFlushMs.toFixed(0)}ms avg` : "—"}${summary.flushFailures > 0 ? ` · ${summary.flushFailures} failed` : ""}`}
+            warn={summary.flushFailures > 0}
+          />
+          <MetricRow
+            label="Realtime"
+            value={`${summary.channelsUp}/${summary.channels} channels`}
+            warn={summary.channelsUp < summary.channels}
+          />
+          <MetricRow
+            label="Breakers"
+            value={summary.openBreakers.length > 0 ? summary.openBreakers.join(", ") : "all closed"}
+            warn={summary.openBreakers.length > 0}
+          />
+          <MetricRow
+            label="Cache / RSS"
+            value={`${summary.hitRate !== null ? `${(summary.hitRate * 100).toFixed(0)}% hits` : "—"} · ${summary.rssMb.toFixed(0)} MB`}
+          />
+        </div>
+      )}
+    </div>
+  );
+});
+
+// ============================================================
+// Memoized metric row
+// ============================================================
+
+const MetricRow = React.memo(function MetricRow({
+  label,
+  value,
+  warn = false,
+}: {
+  label: string;
+  value: string;
+  warn?: boolean;
+}) {
+  return (
+    <div className="flex items-center justify-between">
+      <span className="text-[10px] font-mono" style={{ color: '#4a6a8a' }}>{label}</span>
+      <span className="text-[10px] font-mono" style={{ color: warn ? '#f59e0b' : '#00f0ff88' }}>{value}</span>
     </div>
   );
 });
@@ -0,0 +1,162 @@
+"use client";
+
+import React from "react";
+import { GitCompareArrows, Loader2, Check, X, Pin } from "lucide-react";
+import { useContradictions } from "@/hooks/useContradictions";
+import type { MemoryContradictionDetail } from "@/lib/types";
+
+// ────────────────────────────────────────────────────
+// Contradiction queue: fact/goal pairs that give the
+// same subject different values. Keep one — Soul
+// archives the other and learns the correction.
+// ────────────────────────────────────────────────────
+
+function timeSince(iso: string): string {
+  const diff = Date.now() - new Date(iso).getTime();
+  const hours = Math.floor(diff / 3_600_000);
+  if (hours < 1) return `${Math.floor(diff / 60_000)}m ago`;
+  if (hours < 24) return `${hours}h ago`;
+  return `${Math.floor(hours / 24)}d ago`;
+}
+
+const Side = React.memo(function Side({
+  label,
+  value,
+  memory,
+  disabled,
+  onKeep,
+}: {
+  label: string;
+  value: string;
+  memory: MemoryContradictionDetail["memory_a"];
+  disabled: boolean;
+  onKeep: () => void;
+}) {
+  return (
+    <div
+      className="flex-1 min-w-0 p-2 rounded space-y-1"
+      style={{ background: "#05080f", border: "1px solid #00f0ff10" }}
+    >
+      <div className="flex items-center gap-2 text-[8px] font-mono uppercase tracking-wider" style={{ color: "#4a6a8a" }}>
+        <span>{label}</span>
+        {memory && (
+          <>
+            <span style={{ color: memory.agent_id === "_shared" ? "#a855f7" : "#00f0ff88" }}>{memory.agent_id}</span>
+            <span>{timeSince(memory.created_at)}</span>
+            {memory.source && <span>via {memory.source}</span>}
+            {memory.pinned && <Pin className="h-2.5 w-2.5" style={{ color: "#f59e0b" }} />}
+          </>
+        )}
+      </div>
+      <div className="text-[11px] font-mono font-bold break-all" style={{ color: "#f59e0b" }}>
+        {value}
+      </div>
+      <div className="text-[10px] font-mono break-words" style={{ color: memory ? "#c8d6e5aa" : "#4a6a8a" }}>
+        {memory?.content ?? "memory deleted"}
+      </div>
+      <button
+        onClick={onKeep}
+        disabled={disabled || !memory}
+        className="flex items-center gap-1 px-2 py-1 rounded text-[9px] font-mono uppercase tracking-wider disabled:opacity-40"
+        style={{ background: "#39ff1410", border: "1px solid #39ff1430", color: "#39ff14" }}
+      >
+        <Check className="h-3 w-3" /> Keep this
+      </button>
+    </div>
+  );
+});
+
+const ContradictionCard = React.memo(function ContradictionCard({
+  contradiction: c,
+  busy,
+  onResolve,
+}: {
+  contradiction: MemoryContradictionDetail;
+  busy: boolean;
+  onResolve: (id: string, winnerId: string | null) => void;
+}) {
+  return (
+    <div className="p-3 rounded-lg space-y-2" style={{ background: "#ff2d5e06", border: "1px solid #ff2d5e22" }}>
+      <div className="flex items-center gap-2 text-[10px] font-mono">
+        <span className="uppercase text-[8px] px-1.5 py-0.5 rounded" style={{ color: "#a855f7", background: "#a855f715" }}>
+          {c.kind}
+        </span>
+        <span style={{ color: "#00f0ff" }}>{c.subject}</span>
+        <span className="text-[8px]" style={{ color: "#4a6a8a" }}>
+          found on {c.detected_by} · {timeSince(c.created_at)}
+        </span>
+        <div className="flex-1" />
+        {busy && <Loader2 className="h-3 w-3 animate-spin" style={{ color: "#4a6a8a" }} />}
+        <button
+          onClick={() => onResolve(c.id, null)}
+          disabled={busy}
+          title="Not a real conflict — keep both"
+          className="flex items-center gap-1 px-2 py-0.5 rounded text-[8px] font-mono uppercase disabled:opacity-40"
+          style={{ color: "#4a6a8a", border: "1px solid #4a6a8a33" }}
+        >
+          <X className="h-3 w-3" /> Dismiss
+        </button>
+      </div>
+      <div className="flex flex-col md:flex-row gap-2">
+        <Side
+          label="older"
+          value={c.value_a}
+          memory={c.memory_a}
+          disabled={busy}
+          onKeep={() => onResolve(c.id, c.memory_a_id)}
+        />
+        <Side
+          label="newer"
+          value={c.value_b}
+          memory={c.memory_b}
+          disabled={busy}
+          onKeep={() => onResolve(c.id, c.memory_b_id)}
+        />
+      </div>
+    </div>
+  );
+});
+
+export function ContradictionQueue() {
+  const { contradictions, loading, error, resolving, resolve } = useContradictions();
+
+  return (
+    <div className="cyber-card rounded-lg p-5">
+      <div className="flex items-center gap-2 mb-4">
+        <GitCompareArrows className="h-4 w-4" style={{ color: "#ff2d5e" }} />
+        <h2 className="text-sm font-mono font-bold tracking-wider" style={{ color: "#ff2d5e" }}>
+          CONTRADICTIONS
+        </h2>
+        <span className="text-[9px] font-mono" style={{ color: "#4a6a8a" }}>
+          {"// conflicting facts & goals · keep one, soul archives the other"}
+        </span>
+        <div className="flex-1" />
+        <span className="text-[10px] font-mono" style={{ color: contradictions.length > 0 ? "#ff2d5e" : "#4a6a8a" }}>
+          {contradictions.length} open
+        </span>
+      </div>
+
+      {error && (
+        <div className="text-[10px] font-mono mb-3" style={{ color: "#ff2d5eaa" }}>
+          [ERROR] {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center py-4">
+          <Loader2 className="h-4 w-4 animate-spin" style={{ color: "#00f0ff44" }} />
+        </div>
+      ) : contradictions.length === 0 ? (
+        <div className="text-[10px] font-mono text-center py-4" style={{ color: "#4a6a8a" }}>
+          No open contradictions. New facts and goals are checked on write and during dreams.
+        </div>
+      ) : (
+        <div className="space-y-3 max-h-[480px] overflow-y-auto pr-1">
+          {contradictions.map((c) => (
+            <ContradictionCard key={c.id} contradiction={c} busy={resolving === c.id} onResolve={resolve} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
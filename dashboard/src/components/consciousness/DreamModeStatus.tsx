@@ -1,14 +1,15 @@
 "use client";
 
 import React, { useMemo } from "react";
-import type { DreamInsight } from "@/hooks/useConsciousness";
-import { Moon, Sparkles, AlertCircle, BookOpen, RefreshCw } from "lucide-react";
+import type { DreamConsolidationInfo, DreamInsight } from "@/hooks/useConsciousness";
+import { Moon, Sparkles, AlertCircle, BookOpen, RefreshCw, Cpu } from "lucide-react";
 
 interface Props {
   dreamInsights: DreamInsight[];
   lastDreamAt: string | null;
   dreamReady: boolean;
   memoryCount: number;
+  consolidation: DreamConsolidationInfo | null;
 }
 
 const CATEGORY_META: Record<string, { icon: React.ReactNode; color: string }> = {
@@ -26,11 +27,58 @@ function timeSince(iso: string): string {
   return `${Math.floor(hours / 24)}d ago`;
 }
 
+/** How the bridge consolidates dreams: model + breaker, or heuristics only */
+const ConsolidationConfig = React.memo(function ConsolidationConfig({
+  info,
+}: {
+  info: DreamConsolidationInfo | null;
+}) {
+  const cfg = info?.consolidation ?? null;
+  const llm = cfg?.mode === "llm";
+  const breakerOpen = cfg?.breaker === "OPEN";
+  const color = !cfg ? "#4a6a8a" : llm ? (breakerOpen ? "#f59e0b" : "#39ff14") : "#00f0ff";
+  const counts = Object.entries(info?.insights7d ?? {}).sort((a, b) => b[1] - a[1]);
+
+  return (
+    <div
+      className="mb-4 px-3 py-2 rounded"
+      style={{ background: "#0d1525", border: "1px solid #00f0ff10" }}
+    >
+      <div className="flex items-center gap-2">
+        <Cpu className="h-3 w-3" style={{ color }} />
+        <span className="text-[9px] font-mono uppercase tracking-wider" style={{ color: "#4a6a8a" }}>
+          Consolidation
+        </span>
+        <span className="flex-1" />
+        <span className="text-[9px] font-mono" style={{ color }}>
+          {!cfg
+            ? "bridge offline"
+            : llm
+              ? `${cfg.model} · ${breakerOpen ? "model down → heuristic" : `top ${cfg.maxClusters} clusters`}`
+              : "heuristic (SOUL_DREAM_MODEL unset)"}
+        </span>
+      </div>
+      {cfg?.lastRun && (
+        <div className="text-[8px] font-mono mt-1" style={{ color: "#4a6a8a88" }}>
+          Last cycle {timeSince(cfg.lastRun.at)}: {cfg.lastRun.llm} model · {cfg.lastRun.heuristic} heuristic
+          {cfg.lastRun.fallbacks > 0 ? ` · ${cfg.lastRun.fallbacks} fell back` : ""}
+        </div>
+      )}
+      {counts.length > 0 && (
+        <div className="text-[8px] font-mono mt-1" style={{ color: "#4a6a8a88" }}>
+          7d insights: {counts.map(([gen, n]) => `${gen.replace(/^llm:/, "")} ${n}`).join(" · ")}
+        </div>
+      )}
+    </div>
+  );
+});
+
 export const DreamModeStatus = React.memo(function DreamModeStatus({
   dreamInsights,
   lastDreamAt,
   dreamReady,
   memoryCount,
+  consolidation,
 }: Props) {
   const status = dreamReady ? "READY" : lastDreamAt ? "COOLDOWN" : "WAITING";
   const statusColor = dreamReady ? "#39ff14" : lastDreamAt ? "#f59e0b" : "#4a6a8a";
@@ -99,6 +147,8 @@ export const DreamModeStatus = React.memo(function DreamModeStatus({
         </div>
       </div>
 
+      <ConsolidationConfig info={consolidation} />
+
       {/* Latest dream insights */}
       {recentInsights.length > 0 ? (
         <div>
@@ -153,6 +203,19 @@ export const DreamModeStatus = React.memo(function DreamModeStatus({
                       ? insight.insight.slice(0, 200) + "…"
                       : insight.insight}
                   </div>
+                  {insight.generator?.startsWith("llm:") && (
+                    <div
+                      className="text-[8px] font-mono mt-1"
+                      style={{ color: "#4a6a8a88" }}
+                      title={insight.confidence_rationale ?? undefined}
+                    >
+                      {insight.evidence_memory_ids?.length ?? 0} supporting
+                      {insight.counter_evidence_ids?.length
+                        ? ` · ${insight.counter_evidence_ids.length} against`
+                        : ""}
+                      {insight.confidence_rationale ? ` — ${insight.confidence_rationale}` : ""}
+                    </div>
+                  )}
                 </div>
               );
             })}
@@ -16,8 +16,14 @@ import {
   Clock,
   Moon,
   Play,
+  Undo2,
+  SlidersHorizontal,
+  ChevronDown,
+  ChevronRight,
 } from "lucide-react";
 import { createClient } from "@/lib/supabase-browser";
+import { EXECUTABLE_CATEGORIES } from "@/lib/lucid-dream";
+import type { LucidPolicy, ManifestationChange, ManifestationDiff } from "@/lib/types";
 
 /* ── Types ─────────────────────────────────────────────────── */
 
@@ -35,9 +41,14 @@ interface Manifestation {
   dream_session_id: string | null;
   approved_by: string | null;
   executed_at: string | null;
+  execution_result: Record<string, unknown> | null;
+  undo_requested_at: string | null;
+  undone_at: string | null;
   created_at: string;
 }
 
+type DiffState = ManifestationDiff | "loading" | { error: string };
+
 interface DreamSessionRow {
   id: string;
   started_at: string;
@@ -101,6 +112,15 @@ const STATUS_COLORS: Record<string, string> = {
   executed: "#39ff14",
   auto_executed: "#a855f7",
   expired: "#4a6a8a",
+  undone: "#818cf8",
+};
+
+const CHANGE_META: Record<ManifestationChange["change"], { sign: string; color: string; label: string }> = {
+  create: { sign: "+", color: "#39ff14", label: "LINK" },
+  reinforce: { sign: "↑", color: "#00f0ff", label: "REINFORCE" },
+  weaken: { sign: "↓", color: "#f59e0b", label: "WEAKEN" },
+  retype: { sign: "~", color: "#a855f7", label: "RETYPE" },
+  skip: { sign: "·", color: "#4a6a8a", label: "SKIP" },
 };
 
 /* ── Helpers ───────────────────────────────────────────────── */
@@ -135,6 +155,190 @@ function priorityColor(p: number): string {
   }
 }
 
+function snippet(mem: ManifestationChange["memory"], id: string): string {
+  if (!mem) return id.slice(0, 8);
+  const text = mem.content.length > 60 ? mem.content.slice(0, 60) + "…" : mem.content;
+  return `${mem.agent_id}/${mem.kind}: ${text}`;
+}
+
+async function postSoul(body: Record<string, unknown>): Promise<string | null> {
+  const res = await fetch("/api/soul", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  if (res.ok) return null;
+  const data = await res.json().catch(() => ({}));
+  return data.error ?? `Failed (${res.status})`;
+}
+
+/* ── Diff View ─────────────────────────────────────────────── */
+
+const ManifestationDiffView = React.memo(function ManifestationDiffView({
+  state,
+}: {
+  state: DiffState;
+}) {
+  if (state === "loading") {
+    return (
+      <div className="text-[9px] font-mono py-1" style={{ color: "#4a6a8a" }}>
+        Computing changes…
+      </div>
+    );
+  }
+  if ("error" in state) {
+    return (
+      <div className="text-[9px] font-mono py-1" style={{ color: "#ef4444" }}>
+        {state.error}
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className="rounded px-2 py-2 mb-2 space-y-1"
+      style={{ background: "#05080fcc", border: "1px solid #00f0ff10" }}
+    >
+      <div className="text-[8px] font-mono uppercase tracking-wider" style={{ color: "#4a6a8a" }}>
+        {state.mode === "preview" ? "WILL CHANGE" : "CHANGED"} · {state.action_type ?? "no action"}
+      </div>
+      {!state.executable ? (
+        <div className="text-[9px] font-mono" style={{ color: "#c8d6e5aa" }}>
+          No executor for this action — approving records the decision only.
+        </div>
+      ) : state.changes.length === 0 ? (
+        <div className="text-[9px] font-mono" style={{ color: "#c8d6e5aa" }}>
+          {state.action_type === "highlight_pattern"
+            ? "Recorded as a highlighted pattern — no associations change."
+            : "No association changes."}
+        </div>
+      ) : (
+        state.changes.map((c, i) => {
+          const meta = CHANGE_META[c.change];
+          return (
+            <div key={i} className="text-[9px] font-mono leading-relaxed">
+              <div className="flex items-center gap-1.5">
+                <span style={{ color: meta.color }}>{meta.sign}</span>
+                <span className="uppercase" style={{ color: meta.color }}>
+                  {meta.label}
+                </span>
+                <span style={{ color: "#c8d6e5cc" }}>
+                  {c.before ? `${c.before.strength.toFixed(2)} ${c.before.association_type}` : "none"}
+                  {c.after && ` → ${c.after.strength.toFixed(2)} ${c.after.association_type}`}
+                </span>
+                {c.note && <span style={{ color: "#4a6a8a" }}>({c.note})</span>}
+              </div>
+              <div className="pl-3 truncate" style={{ color: "#c8d6e588" }}>
+                {snippet(c.memory, c.memory_id)}
+              </div>
+              <div className="pl-3 truncate" style={{ color: "#c8d6e588" }}>
+                ↔ {snippet(c.related, c.related_memory_id)}
+              </div>
+            </div>
+          );
+        })
+      )}
+    </div>
+  );
+});
+
+/* ── Auto-Execute Policies ─────────────────────────────────── */
+
+const LucidPolicyPanel = React.memo(function LucidPolicyPanel() {
+  const [policies, setPolicies] = useState<LucidPolicy[]>([]);
+  const [saving, setSaving] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch("/api/soul?action=lucid_policies", { cache: "no-store" })
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.error) setError(data.error);
+        else setPolicies(data.policies ?? []);
+      })
+      .catch(() => setError("Failed to load policies"));
+  }, []);
+
+  const save = async (policy: LucidPolicy) => {
+    setSaving(policy.category);
+    const err = await postSoul({
+      action: "set_policy",
+      category: policy.category,
+      auto_execute: policy.auto_execute,
+      min_confidence: policy.min_confidence,
+    });
+    setError(err);
+    if (!err) setPolicies((prev) => prev.map((p) => (p.category === policy.category ? policy : p)));
+    setSaving(null);
+  };
+
+  return (
+    <div
+      className="rounded px-3 py-2 mb-4"
+      style={{ background: "#ff006e04", border: "1px solid #ff006e12" }}
+    >
+      <div className="text-[9px] font-mono uppercase tracking-wider mb-2" style={{ color: "#4a6a8a" }}>
+        AUTO-EXECUTE POLICY
+      </div>
+      <div className="space-y-1">
+        {policies.map((p) => {
+          const meta = CATEGORY_META[p.category] ?? CATEGORY_META.pattern;
+          const executable = EXECUTABLE_CATEGORIES.includes(p.category);
+          return (
+            <div key={p.category} className="flex items-center gap-2">
+              <span style={{ color: meta.color }}>{meta.icon}</span>
+              <span className="text-[9px] font-mono w-24" style={{ color: meta.color }}>
+                {meta.label}
+              </span>
+              {executable ? (
+                <>
+                  <button
+                    onClick={() => save({ ...p, auto_execute: !p.auto_execute })}
+                    disabled={saving === p.category}
+                    className="px-2 py-0.5 rounded text-[8px] font-mono"
+                    style={{
+                      color: p.auto_execute ? "#39ff14" : "#4a6a8a",
+                      border: `1px solid ${p.auto_execute ? "#39ff1422" : "#4a6a8a22"}`,
+                      background: "#05080fcc",
+                    }}
+                  >
+                    {p.auto_execute ? "AUTO" : "APPROVAL"}
+                  </button>
+                  <span className="text-[8px] font-mono" style={{ color: "#4a6a8a" }}>
+                    at ≥
+                  </span>
+                  <input
+                    type="number"
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    defaultValue={p.min_confidence}
+                    disabled={!p.auto_execute || saving === p.category}
+                    onBlur={(e) => {
+                      const value = Number(e.target.value);
+                      if (value !== p.min_confidence) save({ ...p, min_confidence: value });
+                    }}
+                    className="cyber-input w-16 px-1 py-0.5 rounded text-[9px] font-mono"
+                  />
+                </>
+              ) : (
+                <span className="text-[8px] font-mono" style={{ color: "#4a6a8a66" }}>
+                  approval only — no executor
+                </span>
+              )}
+            </div>
+          );
+        })}
+      </div>
+      {error && (
+        <div className="text-[9px] font-mono mt-2" style={{ color: "#ef4444" }}>
+          {error}
+        </div>
+      )}
+    </div>
+  );
+});
+
 /* ── Component ─────────────────────────────────────────────── */
 
 export const LucidDreaming = React.memo(function LucidDreaming() {
@@ -145,6 +349,10 @@ export const LucidDreaming = React.memo(function LucidDreaming() {
   const [loading, setLoading] = useState(true);
   const [actionLoading, setActionLoading] = useState<string | null>(null);
   const [triggerLoading, setTriggerLoading] = useState(false);
+  const [diffs, setDiffs] = useState<Record<string, DiffState>>({});
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [showPolicies, setShowPolicies] = useState(false);
+  const [actionError, setActionError] = useState<{ id: string; message: string } | null>(null);
 
   const fetchData = useCallback(async () => {
     try {
@@ -195,32 +403,44 @@ export const LucidDreaming = React.memo(function LucidDreaming() {
     };
   }, [manifestations]);
 
-  // Approve
-  const handleApprove = async (id: string) => {
-    setActionLoading(id);
+  // Load what a manifestation will change (or changed)
+  const loadDiff = useCallback(async (id: string) => {
+    setDiffs((prev) => ({ ...prev, [id]: "loading" }));
     try {
-      await fetch("/api/soul", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ action: "approve", id }),
-      });
-      await fetchData();
-    } catch {
-      // Non-fatal
-    } finally {
-      setActionLoading(null);
+      const res = await fetch(`/api/soul?action=diff&id=${id}`, { cache: "no-store" });
+      const data = await res.json().catch(() => ({}));
+      setDiffs((prev) => ({
+        ...prev,
+        [id]: res.ok ? (data.diff as ManifestationDiff) : { error: data.error ?? `Failed (${res.status})` },
+      }));
+    } catch (err) {
+      setDiffs((prev) => ({ ...prev, [id]: { error: err instanceof Error ? err.message : String(err) } }));
+    }
+  }, []);
+
+  const toggleReview = (id: string) => {
+    if (expanded === id) {
+      setExpanded(null);
+      return;
     }
+    setExpanded(id);
+    loadDiff(id);
   };
 
-  // Reject
-  const handleReject = async (id: string) => {
+  // Approve / reject / undo
+  const runAction = async (action: "approve" | "reject" | "undo", id: string) => {
     setActionLoading(id);
+    setActionError(null);
     try {
-      await fetch("/api/soul", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ action: "reject", id }),
+      const err = await postSoul({ action, id });
+      if (err) setActionError({ id, message: err });
+      // The bridge applies approvals and undos — drop the stale diff
+      setDiffs((prev) => {
+        const next = { ...prev };
+        delete next[id];
+        return next;
       });
+      if (expanded === id) setExpanded(null);
       await fetchData();
     } catch {
       // Non-fatal
@@ -269,6 +489,19 @@ export const LucidDreaming = React.memo(function LucidDreaming() {
           </span>
         </div>
         <div className="flex items-center gap-2">
+          {/* Policy editor toggle */}
+          <button
+            onClick={() => setShowPolicies((v) => !v)}
+            className="flex items-center gap-1 px-2 py-1 rounded text-[9px] font-mono transition-all"
+            style={{
+              color: showPolicies ? "#00f0ff" : "#4a6a8a",
+              border: `1px solid ${showPolicies ? "#00f0ff22" : "#4a6a8a22"}`,
+              background: "#05080fcc",
+            }}
+          >
+            <SlidersHorizontal className="h-3 w-3" />
+            POLICY
+          </button>
           {/* Dream trigger button */}
           <button
             onClick={handleTriggerDream}
@@ -330,6 +563,8 @@ export const LucidDreaming = React.memo(function LucidDreaming() {
         ))}
       </div>
 
+      {showPolicies && <LucidPolicyPanel />}
+
       {/* Manifestation List */}
       {loading ? (
         <div className="text-center py-6">
@@ -345,6 +580,14 @@ export const LucidDreaming = React.memo(function LucidDreaming() {
             const isActionable = m.status === "proposed";
             const isLoading = actionLoading === m.id;
             const statusColor = STATUS_COLORS[m.status] ?? "#4a6a8a";
+            const diff = diffs[m.id];
+            // Approval needs the change preview to have been looked at
+            const reviewed = Boolean(diff && diff !== "loading" && !("error" in diff));
+            const ran = m.status === "executed" || m.status === "auto_executed";
+            const undoPending = Boolean(m.undo_requested_at) && !m.undone_at;
+            const canUndo = ran && m.category === "association" && !undoPending;
+            const noExecutor =
+              m.status === "approved" && m.execution_result?.success === false;
 
             return (
               <div
@@ -413,6 +656,20 @@ export const LucidDreaming = React.memo(function LucidDreaming() {
                     : m.description}
                 </div>
 
+                {noExecutor && (
+                  <div className="text-[9px] font-mono mb-2" style={{ color: "#00f0ff88" }}>
+                    Approved — recorded only, Soul has no executor for this action.
+                  </div>
+                )}
+
+                {expanded === m.id && diff && <ManifestationDiffView state={diff} />}
+
+                {actionError?.id === m.id && (
+                  <div className="text-[9px] font-mono mb-2" style={{ color: "#ef4444" }}>
+                    {actionError.message}
+                  </div>
+                )}
+
                 {/* Footer: timestamp + actions */}
                 <div className="flex items-center gap-2">
                   <Clock className="h-3 w-3" style={{ color: "#4a6a8a44" }} />
@@ -432,15 +689,60 @@ export const LucidDreaming = React.memo(function LucidDreaming() {
                   )}
                   <span className="flex-1" />
 
+                  {(isActionable || ran || m.status === "undone") && (
+                    <button
+                      onClick={() => toggleReview(m.id)}
+                      className="flex items-center gap-1 px-2 py-1 rounded text-[9px] font-mono transition-all"
+                      style={{
+                        color: expanded === m.id ? "#00f0ff" : "#4a6a8a",
+                        border: `1px solid ${expanded === m.id ? "#00f0ff22" : "#4a6a8a22"}`,
+                        background: "#05080fcc",
+                      }}
+                    >
+                      {expanded === m.id ? (
+                        <ChevronDown className="h-3 w-3" />
+                      ) : (
+                        <ChevronRight className="h-3 w-3" />
+                      )}
+                      {isActionable ? "REVIEW" : "CHANGES"}
+                    </button>
+                  )}
+
+                  {undoPending && (
+                    <span
+                      className="text-[8px] font-mono px-1.5 py-0.5 rounded animate-pulse"
+                      style={{ color: "#818cf8", border: "1px solid #818cf822" }}
+                    >
+                      UNDOING…
+                    </span>
+                  )}
+
+                  {canUndo && (
+                    <button
+                      onClick={() => runAction("undo", m.id)}
+                      disabled={isLoading}
+                      className="flex items-center gap-1 px-2 py-1 rounded text-[9px] font-mono transition-all hover:border-[#818cf844]"
+                      style={{
+                        color: isLoading ? "#4a6a8a" : "#818cf8",
+                        border: `1px solid ${isLoading ? "#4a6a8a22" : "#818cf822"}`,
+                        background: "#05080fcc",
+                      }}
+                    >
+                      <Undo2 className="h-3 w-3" />
+                      UNDO
+                    </button>
+                  )}
+
                   {isActionable && (
                     <div className="flex items-center gap-1">
                       <button
-                        onClick={() => handleApprove(m.id)}
-                        disabled={isLoading}
+                        onClick={() => runAction("approve", m.id)}
+                        disabled={isLoading || !reviewed}
+                        title={reviewed ? undefined : "Review the changes first"}
                         className="flex items-center gap-1 px-2 py-1 rounded text-[9px] font-mono transition-all hover:border-[#39ff1444]"
                         style={{
-                          color: isLoading ? "#4a6a8a" : "#39ff14",
-                          border: `1px solid ${isLoading ? "#4a6a8a22" : "#39ff1422"}`,
+                          color: isLoading || !reviewed ? "#4a6a8a" : "#39ff14",
+                          border: `1px solid ${isLoading || !reviewed ? "#4a6a8a22" : "#39ff1422"}`,
                           background: "#05080fcc",
                         }}
                       >
@@ -448,7 +750,7 @@ export const LucidDreaming = React.memo(function LucidDreaming() {
                         APPROVE
                       </button>
                       <button
-                        onClick={() => handleReject(m.id)}
+                        onClick={() => runAction("reject", m.id)}
                         disabled={isLoading}
                         className="flex items-center gap-1 px-2 py-1 rounded text-[9px] font-mono transition-all hover:border-[#ef444444]"
                         style={{
@@ -2,7 +2,8 @@
 
 import React, { useRef, useEffect, useState, useCallback, useMemo } from "react";
 import type { MemoryNode, MemoryEdge } from "@/hooks/useConsciousness";
-import { Maximize2, Minimize2 } from "lucide-react";
+import { useMemorySubgraph } from "@/hooks/useMemorySubgraph";
+import { Maximize2, Minimize2, Crosshair, X, Loader2 } from "lucide-react";
 
 /* ── Force-directed layout ──────────────────────────────── */
 
@@ -16,6 +17,8 @@ interface GraphNode {
   vx: number;
   vy: number;
   radius: number;
+  /** The memory the subgraph is centred on */
+  focus: boolean;
 }
 
 interface GraphEdge {
@@ -71,6 +74,14 @@ export const MemoryGraph = React.memo(function MemoryGraph({
   const scaleRef = useRef(1);
   const [hoveredNode, setHoveredNode] = useState<GraphNode | null>(null);
   const [expanded, setExpanded] = useState(false);
+  const { subgraph, focusId, depth, loading, error, focus, changeDepth, clear } = useMemorySubgraph();
+
+  // Focused: the subgraph around one memory instead of the recent window
+  const graphMemories = useMemo<MemoryNode[]>(
+    () => (subgraph ? subgraph.nodes.map((n) => ({ ...n, source: n.source ?? undefined })) : memories),
+    [subgraph, memories],
+  );
+  const graphAssociations = subgraph ? subgraph.edges : associations;
 
   // Build graph data from memories and associations
   useEffect(() => {
@@ -83,17 +94,17 @@ export const MemoryGraph = React.memo(function MemoryGraph({
     // Prioritize memories that have associations (entangle strings)
     // so the graph always shows connected nodes, then fill with recent unlinked ones
     const MAX_NODES = 80;
-    const memById = new Map(memories.map((m) => [m.id, m]));
+    const memById = new Map(graphMemories.map((m) => [m.id, m]));
 
     // 1. Collect all memory IDs referenced by associations
     const linkedIds = new Set<string>();
-    for (const a of associations) {
+    for (const a of graphAssociations) {
       if (memById.has(a.memory_id)) linkedIds.add(a.memory_id);
       if (memById.has(a.related_memory_id)) linkedIds.add(a.related_memory_id);
     }
 
     // 2. Add linked memories first (these get entangle strings)
-    const selected: typeof memories = [];
+    const selected: MemoryNode[] = [];
     const usedIds = new Set<string>();
     for (const id of linkedIds) {
       if (selected.length >= MAX_NODES) break;
@@ -102,7 +113,7 @@ export const MemoryGraph = React.memo(function MemoryGraph({
     }
 
     // 3. Fill remaining slots with the most recent unlinked memories
-    for (const m of memories) {
+    for (const m of graphMemories) {
       if (selected.length >= MAX_NODES) break;
       if (!usedIds.has(m.id)) { selected.push(m); usedIds.add(m.id); }
     }
@@ -119,11 +130,12 @@ export const MemoryGraph = React.memo(function MemoryGraph({
         vx: 0,
         vy: 0,
         radius: 5 + Math.min(m.content.length / 50, 8),
+        focus: m.id === focusId,
       });
     });
 
     const nodeIds = new Set(nodeMap.keys());
-    const edges: GraphEdge[] = associations
+    const edges: GraphEdge[] = graphAssociations
       .filter((a) => nodeIds.has(a.memory_id) && nodeIds.has(a.related_memory_id))
       .map((a) => ({
         source: a.memory_id,
@@ -134,7 +146,7 @@ export const MemoryGraph = React.memo(function MemoryGraph({
 
     nodesRef.current = Array.from(nodeMap.values());
     edgesRef.current = edges;
-  }, [memories, associations]);
+  }, [graphMemories, graphAssociations, focusId]);
 
   // Force simulation + render loop
   useEffect(() => {
@@ -257,6 +269,13 @@ export const MemoryGraph = React.memo(function MemoryGraph({
         ctx.strokeStyle = color + "44";
         ctx.lineWidth = 1;
         ctx.stroke();
+        if (node.focus) {
+          ctx.beginPath();
+          ctx.arc(node.x, node.y, node.radius + 6, 0, Math.PI * 2);
+          ctx.strokeStyle = "#ffffffaa";
+          ctx.lineWidth = 1.5;
+          ctx.stroke();
+        }
       }
 
       ctx.restore();
@@ -339,6 +358,16 @@ export const MemoryGraph = React.memo(function MemoryGraph({
     dragRef.current.nodeId = null;
   }, []);
 
+  const handleDoubleClick = useCallback(
+    (e: React.MouseEvent) => {
+      const rect = canvasRef.current?.getBoundingClientRect();
+      if (!rect) return;
+      const node = getNodeAtPos(e.clientX - rect.left, e.clientY - rect.top);
+      if (node) focus(node.id);
+    },
+    [getNodeAtPos, focus],
+  );
+
   const handleWheel = useCallback((e: React.WheelEvent) => {
     e.preventDefault();
     const delta = e.deltaY > 0 ? 0.9 : 1.1;
@@ -348,13 +377,13 @@ export const MemoryGraph = React.memo(function MemoryGraph({
   // Count clusters by agent
   const clusters = useMemo(() => {
     const map = new Map<string, number>();
-    for (const m of memories.slice(0, 80)) {
+    for (const m of graphMemories.slice(0, 80)) {
       map.set(m.agent_id, (map.get(m.agent_id) ?? 0) + 1);
     }
     return Array.from(map.entries())
       .sort((a, b) => b[1] - a[1])
       .slice(0, 5);
-  }, [memories]);
+  }, [graphMemories]);
 
   return (
     <div className="cyber-card rounded-lg p-5">
@@ -366,6 +395,34 @@ export const MemoryGraph = React.memo(function MemoryGraph({
           MEMORY GRAPH
         </h2>
         <div className="flex items-center gap-3">
+          {focusId && (
+            <div className="flex items-center gap-1.5">
+              {loading ? (
+                <Loader2 className="h-3 w-3 animate-spin" style={{ color: "#4a6a8a" }} />
+              ) : (
+                <Crosshair className="h-3 w-3" style={{ color: "#a855f7" }} />
+              )}
+              <span className="text-[8px] font-mono uppercase" style={{ color: "#a855f7" }}>
+                focus
+              </span>
+              {[1, 2, 3].map((hops) => (
+                <button
+                  key={hops}
+                  onClick={() => changeDepth(hops)}
+                  className="text-[8px] font-mono px-1 rounded"
+                  style={{
+                    color: hops === depth ? "#a855f7" : "#4a6a8a",
+                    border: `1px solid ${hops === depth ? "#a855f755" : "#4a6a8a33"}`,
+                  }}
+                >
+                  {hops}h
+                </button>
+              ))}
+              <button onClick={clear} title="Back to the full graph" style={{ color: "#4a6a8a" }}>
+                <X className="h-3 w-3" />
+              </button>
+            </div>
+          )}
           <div className="flex items-center gap-2">
             {clusters.map(([agent, count]) => (
               <span
@@ -427,6 +484,7 @@ export const MemoryGraph = React.memo(function MemoryGraph({
           onMouseMove={handleMouseMove}
           onMouseUp={handleMouseUp}
           onMouseLeave={handleMouseUp}
+          onDoubleClick={handleDoubleClick}
           onWheel={handleWheel}
         />
 
@@ -464,7 +522,17 @@ export const MemoryGraph = React.memo(function MemoryGraph({
           }}
         >
           {nodesRef.current.length} nodes · {edgesRef.current.length} edges
+          {focusId ? "" : " · double-click a node to focus"}
         </div>
+
+        {error && (
+          <div
+            className="absolute top-2 left-2 text-[9px] font-mono px-2 py-1 rounded"
+            style={{ color: "#ff2d5eaa", background: "#05080fcc" }}
+          >
+            [ERROR] {error}
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,354 @@
+"use client";
+
+import React, { useCallback, useState } from "react";
+import { SlidersHorizontal, Loader2, Pencil, Trash2, X, Check } from "lucide-react";
+import type { SoulPolicy } from "@/lib/types";
+import { MEMORY_KINDS } from "@/lib/agent-memory";
+import {
+  DEFAULT_POLICY_ID,
+  INSIGHT_CATEGORIES,
+  resolveSoulPolicy,
+  type SoulPolicyFields,
+} from "@/lib/soul-policy";
+import { useSoulPolicies } from "@/hooks/useSoulPolicies";
+import { useAgentRegistry } from "@/hooks/useAgentRegistry";
+
+// ────────────────────────────────────────────────────
+// Per-agent Soul policies: what Soul injects for each
+// agent. Blank fields inherit from _default.
+// ────────────────────────────────────────────────────
+
+const INHERITED = "#4a6a8a";
+const SET = "#00f0ff";
+
+export const SoulPolicies = React.memo(function SoulPolicies() {
+  const { policies, loading, savePolicy, clearPolicy } = useSoulPolicies();
+  const { fleet } = useAgentRegistry();
+  const [editing, setEditing] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fallback = policies[DEFAULT_POLICY_ID] ?? null;
+  const agentIds = [DEFAULT_POLICY_ID, ...fleet.map((a) => a.id)];
+
+  const onSave = useCallback(
+    async (agentId: string, input: SoulPolicyFields) => {
+      setError(null);
+      try {
+        await savePolicy(agentId, input);
+        setEditing(null);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : String(err));
+      }
+    },
+    [savePolicy]
+  );
+
+  const onClear = useCallback(
+    async (agentId: string) => {
+      setError(null);
+      try {
+        await clearPolicy(agentId);
+        setEditing(null);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : String(err));
+      }
+    },
+    [clearPolicy]
+  );
+
+  return (
+    <div className="cyber-card rounded-lg p-5 space-y-4">
+      <div className="flex items-center gap-2">
+        <SlidersHorizontal className="h-4 w-4" style={{ color: SET }} />
+        <h2 className="text-sm font-mono font-bold tracking-wider" style={{ color: SET }}>
+          SOUL POLICIES
+        </h2>
+        <span className="text-[9px] font-mono" style={{ color: INHERITED }}>
+          {"// what soul injects per agent · dim = inherited from _default"}
+        </span>
+      </div>
+
+      {error && (
+        <div className="rounded border px-3 py-2" style={{ borderColor: "#ff2d5e25", background: "#ff2d5e08" }}>
+          <p className="text-[10px] font-mono" style={{ color: "#ff2d5e" }}>
+            [ERROR] {error}
+          </p>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center py-4">
+          <Loader2 className="h-4 w-4 animate-spin" style={{ color: "#00f0ff44" }} />
+        </div>
+      ) : (
+        <div className="space-y-1">
+          {agentIds.map((agentId) => (
+            <PolicyRow
+              key={agentId}
+              agentId={agentId}
+              policy={policies[agentId] ?? null}
+              fallback={agentId === DEFAULT_POLICY_ID ? null : fallback}
+              isEditing={editing === agentId}
+              onEdit={setEditing}
+              onSave={onSave}
+              onClear={onClear}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+});
+
+// ============================================================
+// Memoized agent row
+// ============================================================
+
+const Value = React.memo(function Value({ label, value, own }: { label: string; value: string; own: boolean }) {
+  return (
+    <span className="whitespace-nowrap" title={own ? "set for this agent" : "inherited"}>
+      <span style={{ color: INHERITED }}>{label} </span>
+      <span style={{ color: own ? SET : `${INHERITED}cc` }}>{value}</span>
+    </span>
+  );
+});
+
+const PolicyRow = React.memo(function PolicyRow({
+  agentId,
+  policy,
+  fallback,
+  isEditing,
+  onEdit,
+  onSave,
+  onClear,
+}: {
+  agentId: string;
+  policy: SoulPolicy | null;
+  fallback: SoulPolicy | null;
+  isEditing: boolean;
+  onEdit: (agentId: string | null) => void;
+  onSave: (agentId: string, input: SoulPolicyFields) => void;
+  onClear: (agentId: string) => void;
+}) {
+  const effective = resolveSoulPolicy(policy, fallback);
+  const own = (field: keyof SoulPolicyFields) => policy?.[field] !== null && policy?.[field] !== undefined;
+  const list = (values: string[]) => (values.length === 0 ? "none" : values.join(","));
+
+  return (
+    <div className="rounded px-2 py-1.5" style={{ background: "#05080f", border: "1px solid #00f0ff08" }}>
+      <div className="flex items-center gap-3 text-[10px] font-mono">
+        <span className="w-20 shrink-0" style={{ color: agentId === DEFAULT_POLICY_ID ? "#f59e0b" : SET }}>
+          {agentId}
+        </span>
+        <div className="flex-1 flex flex-wrap gap-x-3 gap-y-0.5 text-[9px]">
+          <Value label="mem" value={String(effective.max_memories)} own={own("max_memories")} />
+          <Value label="chars" value={String(effective.max_context_chars)} own={own("max_context_chars")} />
+          <Value label="shared" value={effective.include_shared ? "on" : "off"} own={own("include_shared")} />
+          <Value label="exclude" value={list(effective.excluded_kinds)} own={own("excluded_kinds")} />
+          {effective.excluded_sources.length > 0 && (
+            <Value label="sources" value={`-${list(effective.excluded_sources)}`} own={own("excluded_sources")} />
+          )}
+          <Value label="insights" value={list(effective.insight_categories)} own={own("insight_categories")} />
+          <Value label="predict" value={effective.predictive_injection ? "on" : "off"} own={own("predictive_injection")} />
+        </div>
+        <button
+          onClick={() => onEdit(isEditing ? null : agentId)}
+          className="p-1 rounded"
+          style={{ color: INHERITED }}
+          title="Edit policy"
+        >
+          {isEditing ? <X className="h-3 w-3" /> : <Pencil className="h-3 w-3" />}
+        </button>
+      </div>
+
+      {isEditing && (
+        <PolicyForm
+          agentId={agentId}
+          policy={policy}
+          isDefault={agentId === DEFAULT_POLICY_ID}
+          onSave={onSave}
+          onClear={onClear}
+        />
+      )}
+    </div>
+  );
+});
+
+// ============================================================
+// Edit form — blank / "inherit" leaves a field to _default
+// ============================================================
+
+type Tri = "inherit" | "on" | "off";
+
+const toTri = (v: boolean | null | undefined): Tri => (v === null || v === undefined ? "inherit" : v ? "on" : "off");
+const fromTri = (v: Tri): boolean | null => (v === "inherit" ? null : v === "on");
+
+function Chips<T extends string>({
+  options,
+  selected,
+  onChange,
+  color,
+}: {
+  options: readonly T[];
+  selected: T[] | null;
+  onChange: (next: T[] | null) => void;
+  color: string;
+}) {
+  const inherit = selected === null;
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      {options.map((opt) => {
+        const on = !inherit && selected.includes(opt);
+        return (
+          <button
+            key={opt}
+            disabled={inherit}
+            onClick={() => onChange(on ? selected!.filter((s) => s !== opt) : [...selected!, opt])}
+            className="px-1.5 py-0.5 rounded text-[9px] font-mono disabled:cursor-default"
+            style={{
+              color: on ? color : INHERITED,
+              background: on ? `${color}15` : "transparent",
+              border: `1px solid ${on ? `${color}40` : "#00f0ff10"}`,
+              opacity: inherit ? 0.4 : 1,
+            }}
+          >
+            {opt}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
+function PolicyForm({
+  agentId,
+  policy,
+  isDefault,
+  onSave,
+  onClear,
+}: {
+  agentId: string;
+  policy: SoulPolicy | null;
+  isDefault: boolean;
+  onSave: (agentId: string, input: SoulPolicyFields) => void;
+  onClear: (agentId: string) => void;
+}) {
+  const [memories, setMemories] = useState(policy?.max_memories?.toString() ?? "");
+  const [chars, setChars] = useState(policy?.max_context_chars?.toString() ?? "");
+  const [shared, setShared] = useState<Tri>(toTri(policy?.include_shared));
+  const [predict, setPredict] = useState<Tri>(toTri(policy?.predictive_injection));
+  const [kinds, setKinds] = useState(policy?.excluded_kinds ?? (isDefault ? [] : null));
+  const [categories, setCategories] = useState(policy?.insight_categories ?? (isDefault ? [] : null));
+  const [sources, setSources] = useState(policy?.excluded_sources?.join(", ") ?? "");
+  const [sourcesInherit, setSourcesInherit] = useState(!isDefault && !policy?.excluded_sources);
+
+  const parse = (v: string) => (v.trim() === "" ? null : Number(v));
+  const triOptions: Tri[] = isDefault ? ["on", "off"] : ["inherit", "on", "off"];
+
+  const row = (label: string, control: React.ReactNode, inherit?: { value: boolean; set: (v: boolean) => void }) => (
+    <div className="flex items-center gap-2">
+      <span className="w-20 shrink-0 text-[8px] font-mono uppercase tracking-wider" style={{ color: INHERITED }}>
+        {label}
+      </span>
+      {inherit && !isDefault && (
+        <label className="flex items-center gap-1 text-[8px] font-mono" style={{ color: INHERITED }}>
+          <input type="checkbox" checked={inherit.value} onChange={(e) => inherit.set(e.target.checked)} />
+          inherit
+        </label>
+      )}
+      {control}
+    </div>
+  );
+
+  return (
+    <div className="space-y-1.5 mt-2 pt-2" style={{ borderTop: "1px solid #00f0ff10" }}>
+      <div className="flex flex-wrap items-center gap-2">
+        {[
+          { label: "Memories (0-50)", value: memories, set: setMemories, max: 50 },
+          { label: "Chars (0-20000)", value: chars, set: setChars, max: 20_000 },
+        ].map((f) => (
+          <input
+            key={f.label}
+            type="number"
+            min={0}
+            max={f.max}
+            value={f.value}
+            onChange={(e) => f.set(e.target.value)}
+            placeholder={isDefault ? f.label : `${f.label} · inherit`}
+            className="w-36 px-2 py-1 rounded text-[10px] font-mono cyber-input"
+          />
+        ))}
+        {[
+          { label: "shared", value: shared, set: setShared },
+          { label: "predict", value: predict, set: setPredict },
+        ].map((f) => (
+          <select
+            key={f.label}
+            value={f.value}
+            onChange={(e) => f.set(e.target.value as Tri)}
+            className="px-2 py-1 rounded text-[10px] font-mono cyber-input"
+          >
+            {triOptions.map((opt) => (
+              <option key={opt} value={opt}>
+                {f.label}: {opt}
+              </option>
+            ))}
+          </select>
+        ))}
+      </div>
+
+      {row(
+        "exclude",
+        <Chips options={MEMORY_KINDS} selected={kinds} onChange={setKinds} color="#ff2d5e" />,
+        { value: kinds === null, set: (v) => setKinds(v ? null : []) }
+      )}
+      {row(
+        "insights",
+        <Chips options={INSIGHT_CATEGORIES} selected={categories} onChange={setCategories} color="#a855f7" />,
+        { value: categories === null, set: (v) => setCategories(v ? null : [...INSIGHT_CATEGORIES]) }
+      )}
+      {row(
+        "sources",
+        <input
+          value={sources}
+          disabled={sourcesInherit}
+          onChange={(e) => setSources(e.target.value)}
+          placeholder="excluded sources, e.g. dashboard, x402"
+          className="flex-1 px-2 py-1 rounded text-[10px] font-mono cyber-input disabled:opacity-40"
+        />,
+        { value: sourcesInherit, set: setSourcesInherit }
+      )}
+
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() =>
+            onSave(agentId, {
+              max_memories: parse(memories),
+              max_context_chars: parse(chars),
+              include_shared: fromTri(shared),
+              excluded_kinds: kinds,
+              excluded_sources: sourcesInherit
+                ? null
+                : sources.split(",").map((s) => s.trim()).filter(Boolean),
+              insight_categories: categories,
+              predictive_injection: fromTri(predict),
+            })
+          }
+          className="flex items-center gap-1 px-2 py-1 rounded text-[9px] font-mono uppercase tracking-wider"
+          style={{ background: "#39ff1410", border: "1px solid #39ff1430", color: "#39ff14" }}
+        >
+          <Check className="h-3 w-3" /> Save
+        </button>
+        {policy && !isDefault && (
+          <button
+            onClick={() => onClear(agentId)}
+            className="flex items-center gap-1 px-2 py-1 rounded text-[9px] font-mono uppercase tracking-wider"
+            style={{ background: "#ff2d5e08", border: "1px solid #ff2d5e25", color: "#ff2d5e" }}
+          >
+            <Trash2 className="h-3 w-3" /> Reset to default
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
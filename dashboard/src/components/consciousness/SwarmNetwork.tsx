@@ -24,6 +24,7 @@ const STATUS_COLORS: Record<string, string> = {
   completed: "#39ff14",
   failed: "#ff2d5e",
   skipped: "#4a6a8a",
+  interrupted: "#f59e0b",
   cancelled: "#4a6a8a",
 };
 
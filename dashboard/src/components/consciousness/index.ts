@@ -10,3 +10,5 @@ export { MiniArena } from "./MiniArena";
 export { DreamSynthesis } from "./DreamSynthesis";
 export { PredictiveContext } from "./PredictiveContext";
 export { MemoryReforge } from "./MemoryReforge";
+export { SoulPolicies } from "./SoulPolicies";
+export { ContradictionQueue } from "./ContradictionQueue";
@@ -0,0 +1,88 @@
+"use client";
+
+import { useCallback, useEffect, useId, useMemo, useState } from "react";
+import { createClient } from "@/lib/supabase-browser";
+import type { RegisteredAgent } from "@/lib/types";
+
+export type AgentInput = Partial<
+  Pick<RegisteredAgent, "id" | "name" | "model" | "workspace" | "tools" | "skills" | "fleet" | "sort_order" | "enabled">
+>;
+
+/**
+ * The agent registry with real-time updates. `agents` is every row
+ * (retired included); `fleet` is the active agents listed on the fleet.
+ */
+export function useAgentRegistry() {
+  const [agents, setAgents] = useState<RegisteredAgent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const supabase = useMemo(() => createClient(), []);
+  // Several components use this hook on one page — each needs its own channel
+  const channelId = useId().replace(/[^a-zA-Z0-9]/g, "");
+
+  const fetchAgents = useCallback(async () => {
+    try {
+      const res = await fetch("/api/agents/registry", { cache: "no-store" });
+      const data = await res.json();
+      if (Array.isArray(data)) setAgents(data);
+    } catch {
+      // keep the last list on transient errors
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchAgents();
+
+    const channel = supabase
+      .channel(`agent-registry-${channelId}`)
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "agent_registry" },
+        (payload) => {
+          const row = payload.new as RegisteredAgent;
+          if (!row?.id) return;
+          setAgents((prev) => {
+            const next = prev.some((a) => a.id === row.id)
+              ? prev.map((a) => (a.id === row.id ? row : a))
+              : [...prev, row];
+            return next.sort((a, b) => a.sort_order - b.sort_order || a.id.localeCompare(b.id));
+          });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [fetchAgents, supabase, channelId]);
+
+  const fleet = useMemo(() => agents.filter((a) => a.enabled && a.fleet), [agents]);
+
+  const mutate = useCallback(async (url: string, init: RequestInit) => {
+    const res = await fetch(url, {
+      ...init,
+      headers: { "Content-Type": "application/json" },
+    });
+    const body = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(body.error || `Failed (${res.status})`);
+    const row = body as RegisteredAgent;
+    setAgents((prev) =>
+      prev.some((a) => a.id === row.id) ? prev.map((a) => (a.id === row.id ? row : a)) : [...prev, row]
+    );
+    return row;
+  }, []);
+
+  const addAgent = useCallback(
+    (input: AgentInput) => mutate("/api/agents/registry", { method: "POST", body: JSON.stringify(input) }),
+    [mutate]
+  );
+
+  const updateAgent = useCallback(
+    (id: string, input: AgentInput) =>
+      mutate(`/api/agents/registry/${encodeURIComponent(id)}`, { method: "PATCH", body: JSON.stringify(input) }),
+    [mutate]
+  );
+
+  return { agents, fleet, loading, addAgent, updateAgent, refetch: fetchAgents };
+}
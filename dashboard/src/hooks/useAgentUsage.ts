@@ -0,0 +1,102 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { createClient } from "@/lib/supabase-browser";
+import type { AgentBudget, AgentUsageDaily } from "@/lib/types";
+
+export interface SwarmUsage {
+  swarm_id: string;
+  runs: number;
+  wall_ms: number;
+  total_tokens: number;
+  cost_usd: number;
+  last_run_at: string;
+}
+
+interface UsageResponse {
+  daily: AgentUsageDaily[];
+  swarms: SwarmUsage[];
+  budgets: AgentBudget[];
+}
+
+export type BudgetInput = Pick<
+  AgentBudget,
+  "daily_token_limit" | "daily_cost_limit_usd" | "daily_run_limit" | "over_budget_action"
+>;
+
+/** Usage ledger + budgets, refreshed whenever a new usage row lands */
+export function useAgentUsage(days = 7) {
+  const [daily, setDaily] = useState<AgentUsageDaily[]>([]);
+  const [swarms, setSwarms] = useState<SwarmUsage[]>([]);
+  const [budgets, setBudgets] = useState<Record<string, AgentBudget>>({});
+  const [loading, setLoading] = useState(true);
+  const supabase = useMemo(() => createClient(), []);
+
+  const fetchUsage = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/agents/usage?days=${days}`, { cache: "no-store" });
+      const data = (await res.json()) as UsageResponse;
+      if (!res.ok) return;
+      setDaily(data.daily);
+      setSwarms(data.swarms);
+      const map: Record<string, AgentBudget> = {};
+      for (const row of data.budgets) map[row.agent_id] = row;
+      setBudgets(map);
+    } catch {
+      // keep the last figures on transient errors
+    } finally {
+      setLoading(false);
+    }
+  }, [days]);
+
+  useEffect(() => {
+    fetchUsage();
+
+    // Views don't emit Realtime events, so refetch on new ledger rows
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const channel = supabase
+      .channel("agent-usage")
+      .on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "agent_usage" },
+        () => {
+          if (timer) clearTimeout(timer);
+          timer = setTimeout(fetchUsage, 1000);
+        }
+      )
+      .subscribe();
+
+    return () => {
+      if (timer) clearTimeout(timer);
+      supabase.removeChannel(channel);
+    };
+  }, [fetchUsage, supabase]);
+
+  const saveBudget = useCallback(async (agentId: string, input: BudgetInput) => {
+    const res = await fetch("/api/agents/budgets", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ agent_id: agentId, ...input }),
+    });
+    const body = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(body.error || `Failed (${res.status})`);
+    setBudgets((prev) => ({ ...prev, [agentId]: body as AgentBudget }));
+  }, []);
+
+  const clearBudget = useCallback(async (agentId: string) => {
+    const res = await fetch(`/api/agents/budgets?agent_id=${encodeURIComponent(agentId)}`, {
+      method: "DELETE",
+    });
+    if (!res.ok) {
+      const body = await res.json().catch(() => ({}));
+      throw new Error(body.error || `Failed (${res.status})`);
+    }
+    setBudgets((prev) => {
+      const next = { ...prev };
+      delete next[agentId];
+      return next;
+    });
+  }, []);
+
+  return { daily, swarms, budgets, loading, saveBudget, clearBudget, refetch: fetchUsage };
+}
@@ -6,6 +6,8 @@ export type BridgeControlStatus = {
   supported: boolean;
   running: boolean;
   pid: number | null;
+  /** Direct-execution interceptors registered in the running bridge */
+  interceptors?: { name: string; description: string; agents: string[] | null; enabled: boolean }[];
 };
 
 export function useBridgeControl() {
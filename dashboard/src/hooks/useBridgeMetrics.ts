@@ -0,0 +1,61 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { BridgeMetricsSnapshot } from "@/lib/types";
+
+const POLL_INTERVAL_MS = 15_000;
+
+/**
+ * Poll the bridge's metrics (the same data Prometheus scrapes from
+ * :3001/metrics). `metrics` is null while the bridge is unreachable.
+ * Polling pauses while the tab is hidden.
+ */
+export function useBridgeMetrics() {
+  const [metrics, setMetrics] = useState<BridgeMetricsSnapshot | null>(null);
+  const [loading, setLoading] = useState(true);
+  const intervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
+
+  const fetchMetrics = useCallback(async () => {
+    try {
+      const res = await fetch("/api/bridge/metrics", { cache: "no-store" });
+      setMetrics(res.ok ? ((await res.json()) as BridgeMetricsSnapshot) : null);
+    } catch {
+      setMetrics(null);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchMetrics();
+
+    const startPolling = () => {
+      if (intervalRef.current) return;
+      intervalRef.current = setInterval(fetchMetrics, POLL_INTERVAL_MS);
+    };
+    const stopPolling = () => {
+      if (intervalRef.current) {
+        clearInterval(intervalRef.current);
+        intervalRef.current = null;
+      }
+    };
+    const handleVisibility = () => {
+      if (document.hidden) {
+        stopPolling();
+      } else {
+        fetchMetrics();
+        startPolling();
+      }
+    };
+
+    startPolling();
+    document.addEventListener("visibilitychange", handleVisibility);
+
+    return () => {
+      stopPolling();
+      document.removeEventListener("visibilitychange", handleVisibility);
+    };
+  }, [fetchMetrics]);
+
+  return { metrics, loading, refetch: fetchMetrics };
+}
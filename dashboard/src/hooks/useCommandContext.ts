@@ -0,0 +1,61 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { CommandContext, CommandContextDetail, ContextFeedback } from "@/lib/types";
+
+/**
+ * The Soul context injected into a command, fetched when `enabled`
+ * (e.g. the panel is expanded), plus thumbs up/down feedback.
+ */
+export function useCommandContext(commandId: string, enabled: boolean) {
+  const [detail, setDetail] = useState<CommandContextDetail | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [sending, setSending] = useState(false);
+
+  const fetchContext = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/commands/${commandId}/context`, { cache: "no-store" });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(body.error || `Failed (${res.status})`);
+      setDetail(body as CommandContextDetail);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  }, [commandId]);
+
+  useEffect(() => {
+    if (enabled && !detail) fetchContext();
+  }, [enabled, detail, fetchContext]);
+
+  const sendFeedback = useCallback(
+    async (feedback: ContextFeedback) => {
+      setSending(true);
+      try {
+        const res = await fetch(`/api/commands/${commandId}/context`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ feedback }),
+        });
+        const body = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(body.error || `Failed (${res.status})`);
+        setDetail((prev) => (prev ? { ...prev, context: body as CommandContext } : prev));
+        setError(null);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : String(err));
+      } finally {
+        setSending(false);
+      }
+    },
+    [commandId]
+  );
+
+  return {
+    detail,
+    loading: enabled && !detail && !error,
+    error,
+    sending,
+    sendFeedback,
+    refetch: fetchContext,
+  };
+}
@@ -2,6 +2,7 @@
 
 import { useEffect, useState, useCallback, useMemo, useRef } from "react";
 import { createClient } from "@/lib/supabase-browser";
+import type { DreamConsolidationConfig } from "@/lib/types";
 
 /* ── Types ─────────────────────────────────────────────────── */
 
@@ -29,6 +30,18 @@ export interface DreamInsight {
   category: string;
   confidence: number;
   generated_at: string;
+  evidence_memory_ids?: string[];
+  counter_evidence_ids?: string[];
+  confidence_rationale?: string | null;
+  /** "heuristic" or "llm:<model>" */
+  generator?: string;
+}
+
+export interface DreamConsolidationInfo {
+  /** null when the bridge isn't reachable */
+  consolidation: DreamConsolidationConfig | null;
+  /** Insights per generator over the last 7 days */
+  insights7d: Record<string, number>;
 }
 
 export interface MemoryQuery {
@@ -78,6 +91,7 @@ export interface ConsciousnessData {
   dreamInsights: DreamInsight[];
   lastDreamAt: string | null;
   dreamReady: boolean;
+  dreamConsolidation: DreamConsolidationInfo | null;
 
   /* Meta */
   loading: boolean;
@@ -103,6 +117,7 @@ export function useConsciousness(): ConsciousnessData & { refresh: () => void }
     dreamInsights: [],
     lastDreamAt: null,
     dreamReady: false,
+    dreamConsolidation: null,
     loading: true,
     error: null,
   });
@@ -121,6 +136,7 @@ export function useConsciousness(): ConsciousnessData & { refresh: () => void }
         queriesRes,
         dreamsRes,
         recentCmdsRes,
+        dreamConsolidation,
       ] = await Promise.all([
         supabase
           .from("agent_sessions")
@@ -149,7 +165,7 @@ export function useConsciousness(): ConsciousnessData & { refresh: () => void }
           .limit(50),
         supabase
           .from("dream_insights")
-          .select("id, insight, source_memories, category, confidence, generated_at")
+          .select("id, insight, source_memories, category, confidence, generated_at, evidence_memory_ids, counter_evidence_ids, confidence_rationale, generator")
           .order("generated_at", { ascending: false })
           .limit(30),
         // Check for recent fleet commands — used for dreamReady calculation
@@ -158,6 +174,10 @@ export function useConsciousness(): ConsciousnessData & { refresh: () => void }
           .select("id")
           .gte("created_at", sixHoursAgo)
           .limit(1),
+        // Consolidation settings live in the bridge's env
+        fetch("/api/soul?action=dream_config", { cache: "no-store" })
+          .then((res) => (res.ok ? (res.json() as Promise<DreamConsolidationInfo>) : null))
+          .catch(() => null),
       ]);
 
       if (!mountedRef.current) return;
@@ -214,6 +234,7 @@ export function useConsciousness(): ConsciousnessData & { refresh: () => void }
         dreamInsights,
         lastDreamAt,
         dreamReady,
+        dreamConsolidation,
         loading: false,
         error: null,
       });
@@ -0,0 +1,68 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { createClient } from "@/lib/supabase-browser";
+import type { MemoryContradictionDetail } from "@/lib/types";
+
+/** Open memory contradictions, refreshed on every queue change */
+export function useContradictions() {
+  const [contradictions, setContradictions] = useState<MemoryContradictionDetail[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [resolving, setResolving] = useState<string | null>(null);
+  const supabase = useMemo(() => createClient(), []);
+
+  const fetchQueue = useCallback(async () => {
+    try {
+      const res = await fetch("/api/soul/contradictions?status=open", { cache: "no-store" });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(body.error || `Failed (${res.status})`);
+      setContradictions(body.contradictions as MemoryContradictionDetail[]);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchQueue();
+
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const channel = supabase
+      .channel("memory-contradictions-queue")
+      .on("postgres_changes", { event: "*", schema: "public", table: "memory_contradictions" }, () => {
+        if (timer) clearTimeout(timer);
+        timer = setTimeout(fetchQueue, 500);
+      })
+      .subscribe();
+
+    return () => {
+      if (timer) clearTimeout(timer);
+      supabase.removeChannel(channel);
+    };
+  }, [fetchQueue, supabase]);
+
+  /** Keep `winnerId` (archiving the other memory), or pass null to dismiss */
+  const resolve = useCallback(async (id: string, winnerId: string | null) => {
+    setResolving(id);
+    try {
+      const res = await fetch(`/api/soul/contradictions/${id}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(winnerId ? { winner_id: winnerId } : { dismiss: true }),
+      });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(body.error || `Failed (${res.status})`);
+      setContradictions((prev) => prev.filter((c) => c.id !== id));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setResolving(null);
+    }
+  }, []);
+
+  return { contradictions, loading, error, resolving, resolve, refetch: fetchQueue };
+}
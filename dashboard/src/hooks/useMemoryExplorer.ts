@@ -0,0 +1,168 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import type { AgentMemoryEntry, MemoryDetail, MemoryKind } from "@/lib/types";
+
+const PAGE_SIZE = 50;
+
+export type TriState = "any" | "yes" | "no";
+
+export interface MemoryExplorerFilters {
+  agentId: string;
+  kinds: MemoryKind[];
+  source: string;
+  from: string;
+  to: string;
+  archived: TriState;
+  anchored: TriState;
+  pinned: TriState;
+  q: string;
+  sort: "created_at" | "updated_at" | "decay_score" | "access_count";
+}
+
+export const DEFAULT_MEMORY_FILTERS: MemoryExplorerFilters = {
+  agentId: "",
+  kinds: [],
+  source: "",
+  from: "",
+  to: "",
+  archived: "no",
+  anchored: "any",
+  pinned: "any",
+  q: "",
+  sort: "created_at",
+};
+
+export type MemoryPatch = Partial<Pick<AgentMemoryEntry, "content" | "kind" | "ttl_hours" | "pinned" | "archived">> & {
+  expire?: true;
+};
+
+function toQuery(f: MemoryExplorerFilters, offset: number): string {
+  const p = new URLSearchParams({ limit: String(PAGE_SIZE), offset: String(offset), sort: f.sort });
+  if (f.agentId) p.set("agent_id", f.agentId);
+  if (f.kinds.length > 0) p.set("kind", f.kinds.join(","));
+  if (f.source) p.set("source", f.source);
+  // Date inputs are local calendar days; `to` includes the whole day
+  if (f.from) p.set("from", new Date(`${f.from}T00:00:00`).toISOString());
+  if (f.to) p.set("to", new Date(`${f.to}T23:59:59.999`).toISOString());
+  for (const key of ["archived", "anchored", "pinned"] as const) {
+    if (f[key] !== "any") p.set(key, String(f[key] === "yes"));
+  }
+  if (f.q.trim()) p.set("q", f.q.trim());
+  return p.toString();
+}
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, {
+    cache: "no-store",
+    ...init,
+    headers: init?.body ? { "Content-Type": "application/json" } : undefined,
+  });
+  const body = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(body.error || `Failed (${res.status})`);
+  return body as T;
+}
+
+/**
+ * Filtered, paginated memory list plus the edit/pin/expire/archive/merge
+ * actions of the memory explorer. Edits update the list in place; rows
+ * that no longer match the filters stay until the next refetch.
+ */
+export function useMemoryExplorer(filters: MemoryExplorerFilters) {
+  const queryKey = toQuery(filters, 0);
+  const [page, setPage] = useState<{ key: string; entries: AgentMemoryEntry[]; total: number } | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchFirstPage = useCallback(async () => {
+    try {
+      const data = await request<{ entries: AgentMemoryEntry[]; total: number }>(`/api/agents/memory?${queryKey}`);
+      setPage({ key: queryKey, entries: data.entries, total: data.total });
+      setError(null);
+    } catch (err) {
+      setPage({ key: queryKey, entries: [], total: 0 });
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  }, [queryKey]);
+
+  useEffect(() => {
+    fetchFirstPage();
+  }, [fetchFirstPage]);
+
+  const loading = page?.key !== queryKey;
+  const entries = useMemo(() => (loading ? [] : page?.entries ?? []), [loading, page]);
+  const total = loading ? 0 : page?.total ?? 0;
+
+  const loadMore = useCallback(async () => {
+    if (!page || page.entries.length >= page.total) return;
+    setLoadingMore(true);
+    try {
+      const data = await request<{ entries: AgentMemoryEntry[]; total: number }>(
+        `/api/agents/memory?${toQuery(filters, page.entries.length)}`
+      );
+      setPage((prev) =>
+        prev && prev.key === queryKey
+          ? { key: queryKey, entries: [...prev.entries, ...data.entries], total: data.total }
+          : prev
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [page, filters, queryKey]);
+
+  const replaceEntry = useCallback((entry: AgentMemoryEntry) => {
+    setPage((prev) =>
+      prev ? { ...prev, entries: prev.entries.map((e) => (e.id === entry.id ? entry : e)) } : prev
+    );
+  }, []);
+
+  const updateMemory = useCallback(
+    async (id: string, patch: MemoryPatch) => {
+      const entry = await request<AgentMemoryEntry>(`/api/agents/memory/${id}`, {
+        method: "PATCH",
+        body: JSON.stringify(patch),
+      });
+      replaceEntry(entry);
+      return entry;
+    },
+    [replaceEntry]
+  );
+
+  const deleteMemory = useCallback(async (id: string) => {
+    await request(`/api/agents/memory/${id}`, { method: "DELETE" });
+    setPage((prev) =>
+      prev ? { ...prev, entries: prev.entries.filter((e) => e.id !== id), total: prev.total - 1 } : prev
+    );
+  }, []);
+
+  const mergeMemories = useCallback(
+    async (ids: string[], opts: { content?: string; kind?: MemoryKind; agent_id?: string } = {}) => {
+      const { entry } = await request<{ entry: AgentMemoryEntry }>("/api/agents/memory/merge", {
+        method: "POST",
+        body: JSON.stringify({ ids, ...opts }),
+      });
+      await fetchFirstPage();
+      return entry;
+    },
+    [fetchFirstPage]
+  );
+
+  const loadDetail = useCallback((id: string) => request<MemoryDetail>(`/api/agents/memory/${id}`), []);
+
+  return {
+    entries,
+    total,
+    loading,
+    loadingMore,
+    error,
+    hasMore: entries.length < total,
+    loadMore,
+    refetch: fetchFirstPage,
+    loadDetail,
+    updateMemory,
+    deleteMemory,
+    mergeMemories,
+  };
+}
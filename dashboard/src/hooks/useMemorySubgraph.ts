@@ -0,0 +1,56 @@
+"use client";
+
+import { useCallback, useRef, useState } from "react";
+import type { MemoryGraphSubgraph } from "@/lib/types";
+
+/** Focused association subgraph around one memory (null = whole graph) */
+export function useMemorySubgraph() {
+  const [subgraph, setSubgraph] = useState<MemoryGraphSubgraph | null>(null);
+  const [focusId, setFocusId] = useState<string | null>(null);
+  const [depth, setDepth] = useState(2);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Drop responses for a focus the user has already moved away from
+  const requestRef = useRef(0);
+
+  const load = useCallback(async (id: string, hops: number) => {
+    const request = ++requestRef.current;
+    setFocusId(id);
+    setDepth(hops);
+    setLoading(true);
+    try {
+      const qs = new URLSearchParams({ action: "subgraph", focus: id, depth: String(hops) });
+      const res = await fetch(`/api/agents/memory/graph?${qs}`, { cache: "no-store" });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(body.error || `Failed (${res.status})`);
+      if (request !== requestRef.current) return;
+      setSubgraph(body as MemoryGraphSubgraph);
+      setError(null);
+    } catch (err) {
+      if (request !== requestRef.current) return;
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      if (request === requestRef.current) setLoading(false);
+    }
+  }, []);
+
+  const focus = useCallback((id: string) => load(id, depth), [load, depth]);
+
+  const changeDepth = useCallback(
+    (hops: number) => {
+      if (focusId) load(focusId, hops);
+      else setDepth(hops);
+    },
+    [load, focusId]
+  );
+
+  const clear = useCallback(() => {
+    requestRef.current++;
+    setFocusId(null);
+    setSubgraph(null);
+    setLoading(false);
+    setError(null);
+  }, []);
+
+  return { subgraph, focusId, depth, loading, error, focus, changeDepth, clear };
+}
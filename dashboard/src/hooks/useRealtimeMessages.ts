@@ -8,9 +8,14 @@ import type { AgentResponse } from "@/lib/types";
  * Subscribe to real-time agent_responses for a given command_id.
  * Returns accumulated response text as it streams in.
  *
+ * Chunks carry a per-command `seq`. Anything that breaks the sequence — a
+ * missed Realtime event, a channel reconnect, a tab waking from sleep —
+ * triggers a catch-up from /api/commands/[id]/transcript?since=<last seq>,
+ * which also covers commands whose chunks were compacted into a transcript.
+ *
  * Optimizations:
  *  - Ref-based text accumulator (avoids rebuilding full string on each chunk)
- *  - Deduplication guard on chunk IDs
+ *  - Deduplication on chunk seq
  *  - Throttled state updates (batches rapid chunks into single render)
  *  - Stable callback refs to avoid re-subscriptions
  *  - Proper cleanup on unmount and commandId change
@@ -21,7 +26,8 @@ export function useRealtimeMessages(commandId: string | null) {
   const [fullText, setFullText] = useState("");
   const [isComplete, setIsComplete] = useState(false);
 
-  const seenIds = useRef(new Set<string>());
+  const lastSeqRef = useRef(0); // highest chunk seq applied to textRef
+  const completeRef = useRef(false);
   const textRef = useRef(""); // running text accumulator
   const rafRef = useRef<number | null>(null);
   const throttleRef = useRef<ReturnType<typeof setTimeout> | null>(null);
@@ -34,7 +40,8 @@ export function useRealtimeMessages(commandId: string | null) {
   if (commandId !== prevCommandIdRef.current) {
     prevCommandIdRef.current = commandId;
     textRef.current = "";
-    seenIds.current.clear();
+    lastSeqRef.current = 0;
+    completeRef.current = false;
     if (throttleRef.current) {
       clearTimeout(throttleRef.current);
       throttleRef.current = null;
@@ -80,7 +87,8 @@ export function useRealtimeMessages(commandId: string | null) {
     setFullText("");
     setIsComplete(false);
     textRef.current = "";
-    seenIds.current.clear();
+    lastSeqRef.current = 0;
+    completeRef.current = false;
     if (throttleRef.current) {
       clearTimeout(throttleRef.current);
       throttleRef.current = null;
@@ -96,28 +104,52 @@ export function useRealtimeMessages(commandId: string | null) {
 
     reset();
     let cancelled = false;
+    let fetching = false;
+    let stale = false; // chunks arrived while a catch-up was in flight
+    let subscribedOnce = false;
+
+    const markComplete = () => {
+      completeRef.current = true;
+      flushNow();
+      setIsComplete(true);
+    };
 
-    // Fetch any existing responses first (catch-up)
-    supabase
-      .from("agent_responses")
-      .select("*")
-      .eq("command_id", commandId)
-      .order("created_at", { ascending: true })
-      .then(({ data }) => {
-        if (cancelled || !data || data.length === 0) return;
-        const ids = new Set<string>();
-        let text = "";
-        data.forEach((r) => {
-          ids.add(r.id);
-          text += r.content;
-        });
-        seenIds.current = ids;
-        textRef.current = text;
-        flushNow();
-        if (data.some((r) => r.is_final)) setIsComplete(true);
-      });
+    /** Fetch everything after the last applied seq (loops while chunks keep arriving) */
+    const catchUp = async () => {
+      if (fetching) {
+        stale = true;
+        return;
+      }
+      fetching = true;
+      try {
+        do {
+          stale = false;
+          const res = await fetch(
+            `/api/commands/${commandId}/transcript?since=${lastSeqRef.current}`,
+            { cache: "no-store" }
+          );
+          if (cancelled || !res.ok) return;
+          const data = await res.json();
+          if (cancelled) return;
+          textRef.current = data.reset ? data.content : textRef.current + data.content;
+          lastSeqRef.current = data.last_seq;
+          if (data.is_final) {
+            markComplete();
+            return;
+          }
+          flushNow();
+        } while (stale);
+      } catch {
+        // next chunk, reconnect or tab wake retries
+      } finally {
+        fetching = false;
+      }
+    };
 
-    // Subscribe to new responses with dedup
+    // Fetch any existing output first (catch-up)
+    catchUp();
+
+    // Subscribe to new responses, applying them in seq order
     const channel = supabase
       .channel(`responses:${commandId}`)
       .on(
@@ -129,27 +161,50 @@ export function useRealtimeMessages(commandId: string | null) {
           filter: `command_id=eq.${commandId}`,
         },
         (payload) => {
-          if (cancelled) return;
+          if (cancelled || completeRef.current) return;
           const row = payload.new as AgentResponse;
+
+          // A catch-up is in flight — it (or its follow-up) will include this row
+          if (fetching) {
+            stale = true;
+            return;
+          }
           // Deduplicate (Realtime can fire for rows already fetched)
-          if (seenIds.current.has(row.id)) return;
-          seenIds.current.add(row.id);
+          if (row.seq <= lastSeqRef.current) return;
+          // Gap: one or more chunks were missed
+          if (row.seq !== lastSeqRef.current + 1) {
+            catchUp();
+            return;
+          }
 
           // Append to accumulator (no array copy)
           textRef.current += row.content;
+          lastSeqRef.current = row.seq;
 
           if (row.is_final) {
-            flushNow();
-            setIsComplete(true);
+            markComplete();
           } else {
             scheduleUpdate();
           }
         }
       )
-      .subscribe();
+      .subscribe((status) => {
+        // Resubscribed after a dropped connection — fetch what was missed
+        if (status === "SUBSCRIBED") {
+          if (subscribedOnce && !completeRef.current) catchUp();
+          subscribedOnce = true;
+        }
+      });
+
+    // Browsers throttle or suspend background tabs — catch up on wake
+    const onVisible = () => {
+      if (document.visibilityState === "visible" && !completeRef.current) catchUp();
+    };
+    document.addEventListener("visibilitychange", onVisible);
 
     return () => {
       cancelled = true;
+      document.removeEventListener("visibilitychange", onVisible);
       if (throttleRef.current) clearTimeout(throttleRef.current);
       if (rafRef.current) cancelAnimationFrame(rafRef.current);
       supabase.removeChannel(channel);
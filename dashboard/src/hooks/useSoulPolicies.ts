@@ -0,0 +1,69 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { createClient } from "@/lib/supabase-browser";
+import type { SoulPolicy } from "@/lib/types";
+import type { SoulPolicyFields } from "@/lib/soul-policy";
+
+/** Soul policy rows keyed by agent_id, kept in sync via Realtime */
+export function useSoulPolicies() {
+  const [policies, setPolicies] = useState<Record<string, SoulPolicy>>({});
+  const [loading, setLoading] = useState(true);
+  const supabase = useMemo(() => createClient(), []);
+
+  const fetchPolicies = useCallback(async () => {
+    try {
+      const res = await fetch("/api/soul/policies", { cache: "no-store" });
+      if (!res.ok) return;
+      const rows = (await res.json()) as SoulPolicy[];
+      const map: Record<string, SoulPolicy> = {};
+      for (const row of rows) map[row.agent_id] = row;
+      setPolicies(map);
+    } catch {
+      // keep the last policies on transient errors
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchPolicies();
+
+    const channel = supabase
+      .channel("soul-policies")
+      .on("postgres_changes", { event: "*", schema: "public", table: "soul_policies" }, fetchPolicies)
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [fetchPolicies, supabase]);
+
+  const savePolicy = useCallback(async (agentId: string, input: SoulPolicyFields) => {
+    const res = await fetch("/api/soul/policies", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ agent_id: agentId, ...input }),
+    });
+    const body = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(body.error || `Failed (${res.status})`);
+    setPolicies((prev) => ({ ...prev, [agentId]: body as SoulPolicy }));
+  }, []);
+
+  const clearPolicy = useCallback(async (agentId: string) => {
+    const res = await fetch(`/api/soul/policies?agent_id=${encodeURIComponent(agentId)}`, {
+      method: "DELETE",
+    });
+    if (!res.ok) {
+      const body = await res.json().catch(() => ({}));
+      throw new Error(body.error || `Failed (${res.status})`);
+    }
+    setPolicies((prev) => {
+      const next = { ...prev };
+      delete next[agentId];
+      return next;
+    });
+  }, []);
+
+  return { policies, loading, savePolicy, clearPolicy, refetch: fetchPolicies };
+}
@@ -0,0 +1,196 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { AgentMemoryEntry, MemoryKind } from "@/lib/types";
+
+// ============================================================
+// Agent memory filters + edits (shared by the memory API routes)
+//   - Search filters over the agent_memory_explorer view
+//   - Edit / pin / archive / expire validation
+//   - Archive state lives in memory_decay (same flag the Soul
+//     decay pass sets), so archived memories drop out of retrieval
+// ============================================================
+
+export const MEMORY_KINDS: MemoryKind[] = ["observation", "outcome", "fact", "error", "goal", "note"];
+
+export const MEMORY_SORTS = ["created_at", "updated_at", "decay_score", "access_count"] as const;
+export type MemorySort = (typeof MEMORY_SORTS)[number];
+
+export interface MemoryFilters {
+  agentId: string | null;
+  /** Include `_shared` entries alongside agentId (default true) */
+  includeShared: boolean;
+  kinds: MemoryKind[];
+  source: string | null;
+  from: string | null;
+  to: string | null;
+  archived: boolean | null;
+  anchored: boolean | null;
+  pinned: boolean | null;
+  q: string | null;
+  sort: MemorySort;
+}
+
+function parseBool(raw: string | null): boolean | null {
+  if (raw === "true" || raw === "1") return true;
+  if (raw === "false" || raw === "0") return false;
+  return null;
+}
+
+function parseDate(raw: string | null, name: string, errors: string[]): string | null {
+  if (!raw) return null;
+  const t = Date.parse(raw);
+  if (Number.isNaN(t)) {
+    errors.push(`${name} must be an ISO date`);
+    return null;
+  }
+  return new Date(t).toISOString();
+}
+
+/** Parse search params. Boolean filters accept true|false; anything else means "either". */
+export function parseMemoryFilters(params: URLSearchParams): { filters: MemoryFilters; errors: string[] } {
+  const errors: string[] = [];
+
+  const kinds = (params.get("kind") ?? "")
+    .split(",")
+    .map((k) => k.trim())
+    .filter(Boolean);
+  const badKinds = kinds.filter((k) => !MEMORY_KINDS.includes(k as MemoryKind));
+  if (badKinds.length > 0) errors.push(`kind must be one of: ${MEMORY_KINDS.join(", ")}`);
+
+  const sort = (params.get("sort") ?? "created_at") as MemorySort;
+  if (!MEMORY_SORTS.includes(sort)) errors.push(`sort must be one of: ${MEMORY_SORTS.join(", ")}`);
+
+  return {
+    filters: {
+      agentId: params.get("agent_id") || null,
+      includeShared: parseBool(params.get("shared")) ?? true,
+      kinds: kinds as MemoryKind[],
+      source: params.get("source") || null,
+      from: parseDate(params.get("from"), "from", errors),
+      to: parseDate(params.get("to"), "to", errors),
+      archived: parseBool(params.get("archived")),
+      anchored: parseBool(params.get("anchored")),
+      pinned: parseBool(params.get("pinned")),
+      q: params.get("q")?.trim() || null,
+      sort,
+    },
+    errors,
+  };
+}
+
+/** Escape LIKE wildcards so free text matches literally */
+function likePattern(q: string): string {
+  return `%${q.replace(/[\\%_]/g, (c) => `\\${c}`)}%`;
+}
+
+/** One page of memories matching the filters, newest (or highest `sort`) first, with the total count */
+export async function queryMemories(
+  supabase: SupabaseClient,
+  f: MemoryFilters,
+  limit: number,
+  offset: number
+): Promise<{ entries: AgentMemoryEntry[]; total: number; error: string | null }> {
+  let query = supabase.from("agent_memory_explorer").select("*", { count: "exact" });
+
+  if (f.agentId) {
+    query = f.includeShared && f.agentId !== "_shared"
+      ? query.in("agent_id", [f.agentId, "_shared"])
+      : query.eq("agent_id", f.agentId);
+  }
+  if (f.kinds.length > 0) query = query.in("kind", f.kinds);
+  if (f.source) query = query.eq("source", f.source);
+  if (f.from) query = query.gte("created_at", f.from);
+  if (f.to) query = query.lte("created_at", f.to);
+  if (f.archived !== null) query = query.eq("archived", f.archived);
+  if (f.anchored !== null) query = query.eq("anchored", f.anchored);
+  if (f.pinned !== null) query = query.eq("pinned", f.pinned);
+  if (f.q) query = query.ilike("content", likePattern(f.q));
+
+  const { data, count, error } = await query
+    .order(f.sort, { ascending: false, nullsFirst: false })
+    .order("created_at", { ascending: false })
+    .range(offset, offset + limit - 1);
+
+  if (error) return { entries: [], total: 0, error: error.message };
+  return { entries: (data ?? []) as AgentMemoryEntry[], total: count ?? 0, error: null };
+}
+
+// ── Edits ────────────────────────────────────────────
+
+export interface MemoryUpdate {
+  fields: Partial<Pick<AgentMemoryEntry, "content" | "kind" | "ttl_hours" | "pinned">>;
+  archived?: boolean;
+  /** Expire now: ttl_hours becomes the memory's age, so retrieval skips it and the hourly TTL cleanup deletes it */
+  expire?: boolean;
+}
+
+/** Validate a PATCH body. Unknown keys are ignored. */
+export function parseMemoryUpdate(body: Record<string, unknown>): { update: MemoryUpdate; errors: string[] } {
+  const update: MemoryUpdate = { fields: {} };
+  const errors: string[] = [];
+
+  if (body.content !== undefined) {
+    if (typeof body.content !== "string" || !body.content.trim()) errors.push("content must be a non-empty string");
+    else update.fields.content = body.content.trim();
+  }
+  if (body.kind !== undefined) {
+    if (!MEMORY_KINDS.includes(body.kind as MemoryKind)) errors.push(`kind must be one of: ${MEMORY_KINDS.join(", ")}`);
+    else update.fields.kind = body.kind as MemoryKind;
+  }
+  if (body.ttl_hours !== undefined) {
+    const ttl = body.ttl_hours;
+    if (ttl !== null && (typeof ttl !== "number" || !Number.isInteger(ttl) || ttl < 0)) {
+      errors.push("ttl_hours must be a non-negative integer or null");
+    } else {
+      update.fields.ttl_hours = ttl as number | null;
+    }
+  }
+  if (body.pinned !== undefined) {
+    if (typeof body.pinned !== "boolean") errors.push("pinned must be a boolean");
+    else update.fields.pinned = body.pinned;
+  }
+  if (body.archived !== undefined) {
+    if (typeof body.archived !== "boolean") errors.push("archived must be a boolean");
+    else update.archived = body.archived;
+  }
+  if (body.expire !== undefined) {
+    if (body.expire !== true) errors.push("expire must be true");
+    else if (update.fields.ttl_hours !== undefined) errors.push("expire and ttl_hours are mutually exclusive");
+    else update.expire = true;
+  }
+
+  if (Object.keys(update.fields).length === 0 && update.archived === undefined && !update.expire) {
+    errors.push("nothing to update");
+  }
+  return { update, errors };
+}
+
+/** Whole hours since `createdAt` — a ttl_hours value that has already run out */
+export function expiredTtl(createdAt: string): number {
+  return Math.max(0, Math.floor((Date.now() - new Date(createdAt).getTime()) / 3_600_000));
+}
+
+/**
+ * Archive or restore memories in memory_decay (creating the row if the
+ * decay pass hasn't scored them yet). Restored memories can be
+ * re-archived by the next decay pass if their score is still low —
+ * pin them to keep them.
+ */
+export async function setArchived(
+  supabase: SupabaseClient,
+  memoryIds: string[],
+  archived: boolean,
+  reason: string | null
+): Promise<string | null> {
+  if (memoryIds.length === 0) return null;
+  const now = new Date().toISOString();
+  const { error } = await supabase.from("memory_decay").upsert(
+    memoryIds.map((memory_id) => ({
+      memory_id,
+      is_archived: archived,
+      archive_reason: archived ? reason : null,
+      updated_at: now,
+    })),
+    { onConflict: "memory_id" }
+  );
+  return error?.message ?? null;
+}
@@ -0,0 +1,83 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { RegisteredAgent } from "@/lib/types";
+
+// ============================================================
+// Agent registry helpers (shared by the agent API routes)
+// ============================================================
+
+export const AGENT_ID_RE = /^[a-z0-9][a-z0-9_-]{0,63}$/;
+
+type RegistryFields = Pick<
+  RegisteredAgent,
+  "id" | "name" | "model" | "workspace" | "tools" | "skills" | "fleet" | "sort_order"
+>;
+
+/** Whether agent_id is registered and not retired */
+export async function isActiveAgent(supabase: SupabaseClient, agentId: string): Promise<boolean> {
+  const { data } = await supabase
+    .from("agent_registry")
+    .select("id")
+    .eq("id", agentId)
+    .eq("enabled", true)
+    .maybeSingle();
+  return !!data;
+}
+
+/**
+ * Validate a create (id + name required) or update (any subset, id
+ * immutable) body. Unknown keys are ignored.
+ */
+export function parseAgentInput(
+  body: Record<string, unknown>,
+  partial: boolean
+): { values: Partial<RegistryFields>; errors: string[] } {
+  const values: Partial<RegistryFields> = {};
+  const errors: string[] = [];
+  const has = (key: string) => body[key] !== undefined;
+
+  if (!partial) {
+    if (typeof body.id !== "string" || !AGENT_ID_RE.test(body.id)) {
+      errors.push("id must be lowercase letters, digits, _ or - (max 64)");
+    } else {
+      values.id = body.id;
+    }
+  }
+
+  if (has("name") || !partial) {
+    if (typeof body.name !== "string" || !body.name.trim()) errors.push("name is required");
+    else values.name = body.name.trim();
+  }
+
+  for (const key of ["model", "workspace"] as const) {
+    if (!has(key)) continue;
+    const v = body[key];
+    if (v !== null && typeof v !== "string") errors.push(`${key} must be a string`);
+    else values[key] = typeof v === "string" && v.trim() ? v.trim() : null;
+  }
+
+  if (has("tools")) {
+    if (typeof body.tools !== "string" || !body.tools.trim()) errors.push("tools must be a non-empty string");
+    else values.tools = body.tools.trim();
+  }
+
+  if (has("skills")) {
+    const skills = body.skills;
+    if (!Array.isArray(skills) || !skills.every((s) => typeof s === "string")) {
+      errors.push("skills must be an array of strings");
+    } else {
+      values.skills = [...new Set(skills.map((s: string) => s.trim()).filter(Boolean))];
+    }
+  }
+
+  if (has("fleet")) {
+    if (typeof body.fleet !== "boolean") errors.push("fleet must be a boolean");
+    else values.fleet = body.fleet;
+  }
+
+  if (has("sort_order")) {
+    if (!Number.isInteger(body.sort_order)) errors.push("sort_order must be an integer");
+    else values.sort_order = body.sort_order as number;
+  }
+
+  return { values, errors };
+}
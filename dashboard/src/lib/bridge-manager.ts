@@ -1,6 +1,7 @@
 import { spawn, type ChildProcess } from "child_process";
 import fs from "fs";
 import path from "path";
+import type { BridgeMetricsSnapshot, DreamConsolidationConfig } from "@/lib/types";
 
 type BridgeProcState = {
   child: ChildProcess | null;
@@ -12,6 +13,14 @@ type BridgeStatus = {
   pid: number | null;
 };
 
+/** Direct-execution command handler registered in the bridge */
+export type BridgeInterceptor = {
+  name: string;
+  description: string;
+  agents: string[] | null;
+  enabled: boolean;
+};
+
 declare global {
   // eslint-disable-next-line no-var
   var __xmetavBridgeState: BridgeProcState | undefined;
@@ -95,6 +104,40 @@ export async function getBridgeStatus(): Promise<BridgeStatus> {
   return { supported: true, running: false, pid: null };
 }
 
+function bridgeHealthUrl(pathname: string): string {
+  const port = process.env.BRIDGE_PORT || "3001";
+  return `http://localhost:${port}${pathname}`;
+}
+
+/** Interceptors registered in the running bridge (empty if unreachable) */
+export async function getBridgeInterceptors(): Promise<BridgeInterceptor[]> {
+  try {
+    const res = await fetch(bridgeHealthUrl("/interceptors"), {
+      signal: AbortSignal.timeout(1500),
+      cache: "no-store",
+    });
+    if (!res.ok) return [];
+    const body = (await res.json()) as { interceptors?: BridgeInterceptor[] };
+    return body.interceptors ?? [];
+  } catch {
+    return [];
+  }
+}
+
+/** Metrics snapshot from the running bridge (null if unreachable) */
+export async function getBridgeMetrics(): Promise<BridgeMetricsSnapshot | null> {
+  try {
+    const res = await fetch(bridgeHealthUrl("/metrics?format=json"), {
+      signal: AbortSignal.timeout(1500),
+      cache: "no-store",
+    });
+    if (!res.ok) return null;
+    return (await res.json()) as BridgeMetricsSnapshot;
+  } catch {
+    return null;
+  }
+}
+
 export async function startBridge(): Promise<BridgeStatus> {
   if (!isSupported()) return { supported: false, running: false, pid: null };
 
@@ -160,3 +203,17 @@ export async function stopBridge(): Promise<BridgeStatus> {
   return { supported: true, running: false, pid: null };
 }
 
+/** Soul dream consolidation settings from the running bridge (null if unreachable) */
+export async function getBridgeDreamConfig(): Promise<DreamConsolidationConfig | null> {
+  try {
+    const res = await fetch(bridgeHealthUrl("/soul/dream"), {
+      signal: AbortSignal.timeout(1500),
+      cache: "no-store",
+    });
+    if (!res.ok) return null;
+    const body = (await res.json()) as { consolidation?: DreamConsolidationConfig };
+    return body.consolidation ?? null;
+  } catch {
+    return null;
+  }
+}
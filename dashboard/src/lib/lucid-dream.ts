@@ -0,0 +1,267 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type {
+  LucidPolicy,
+  ManifestationCategory,
+  ManifestationChange,
+  ManifestationDiff,
+} from "@/lib/types";
+
+// ============================================================
+// Lucid dream review helpers (shared by /api/soul and LucidDreaming)
+//
+// The preview mirrors the bridge's executeManifest
+// (bridge/lib/soul/dream-proposals.ts) — keep them in step.
+// ============================================================
+
+export const MANIFESTATION_CATEGORIES: ManifestationCategory[] = [
+  "fusion",
+  "association",
+  "pricing",
+  "skill",
+  "meeting",
+  "pattern",
+  "correction",
+];
+
+/** proposed_action types the bridge can execute */
+export const EXECUTABLE_ACTIONS = ["create_associations", "reinforce_associations", "highlight_pattern"];
+
+/** Categories whose proposals can be executed (and so auto-executed) */
+export const EXECUTABLE_CATEGORIES: ManifestationCategory[] = ["association", "pattern"];
+
+/** Strength the bridge gives associations a manifestation creates */
+export const CREATED_ASSOCIATION_STRENGTH = 0.5;
+
+/** What the bridge falls back to when soul_lucid_policies has no row */
+export const BUILTIN_LUCID_POLICY = { auto_execute: false, min_confidence: 0.8 };
+
+interface ManifestRow {
+  id: string;
+  status: string;
+  proposed_action: Record<string, unknown> | null;
+}
+
+interface AssociationRow {
+  memory_id: string;
+  related_memory_id: string;
+  association_type: string;
+  strength: number;
+}
+
+interface ModificationRow {
+  memory_id: string;
+  related_memory_id: string;
+  modification_type: "reinforce" | "weaken" | "create" | "retype";
+  old_strength: number | null;
+  new_strength: number | null;
+  old_type: string | null;
+  new_type: string | null;
+  undone_at: string | null;
+}
+
+type Pair = { memory_id: string; related_memory_id: string };
+type Draft = Omit<ManifestationChange, "memory" | "related">;
+
+const pairKey = (memoryId: string, relatedId: string) => `${memoryId}:${relatedId}`;
+
+async function loadAssociations(
+  supabase: SupabaseClient,
+  pairs: Pair[]
+): Promise<{ byPair: Map<string, AssociationRow>; error: string | null }> {
+  const byPair = new Map<string, AssociationRow>();
+  const ids = [...new Set(pairs.map((p) => p.memory_id))];
+  if (ids.length === 0) return { byPair, error: null };
+
+  const { data, error } = await supabase
+    .from("memory_associations")
+    .select("memory_id, related_memory_id, association_type, strength")
+    .in("memory_id", ids)
+    .in("related_memory_id", [...new Set(pairs.map((p) => p.related_memory_id))]);
+  if (error) return { byPair, error: error.message };
+
+  for (const row of (data ?? []) as AssociationRow[]) {
+    byPair.set(pairKey(row.memory_id, row.related_memory_id), row);
+  }
+  return { byPair, error: null };
+}
+
+/** Attach a short snippet of both memories to every change */
+async function withMemories(
+  supabase: SupabaseClient,
+  drafts: Draft[]
+): Promise<{ changes: ManifestationChange[]; error: string | null }> {
+  const ids = [...new Set(drafts.flatMap((d) => [d.memory_id, d.related_memory_id]))];
+  const byId = new Map<string, ManifestationChange["memory"]>();
+
+  if (ids.length > 0) {
+    const { data, error } = await supabase
+      .from("agent_memory")
+      .select("id, agent_id, kind, content")
+      .in("id", ids);
+    if (error) return { changes: [], error: error.message };
+    for (const row of (data ?? []) as NonNullable<ManifestationChange["memory"]>[]) {
+      byId.set(row.id, { ...row, content: row.content.slice(0, 200) });
+    }
+  }
+
+  return {
+    changes: drafts.map((d) => ({
+      ...d,
+      memory: byId.get(d.memory_id) ?? null,
+      related: byId.get(d.related_memory_id) ?? null,
+    })),
+    error: null,
+  };
+}
+
+/**
+ * What approving a proposal will change, computed against the live
+ * association rows the same way the bridge executes it.
+ */
+export async function previewManifestation(
+  supabase: SupabaseClient,
+  manifest: ManifestRow
+): Promise<{ diff: ManifestationDiff | null; error: string | null }> {
+  const action = manifest.proposed_action ?? {};
+  const actionType = typeof action.type === "string" ? action.type : null;
+  const drafts: Draft[] = [];
+
+  if (actionType === "create_associations") {
+    const pairs = ((action.memory_pairs as string[][] | undefined) ?? [])
+      .filter((p) => Array.isArray(p) && p.length >= 2)
+      .map(([memory_id, related_memory_id]) => ({ memory_id, related_memory_id }));
+    const { byPair, error } = await loadAssociations(supabase, pairs);
+    if (error) return { diff: null, error };
+
+    for (const p of pairs) {
+      const live = byPair.get(pairKey(p.memory_id, p.related_memory_id));
+      drafts.push(
+        live
+          ? { ...p, change: "skip", before: pick(live), after: null, note: "Already linked — left as is" }
+          : {
+              ...p,
+              change: "create",
+              before: null,
+              after: { strength: CREATED_ASSOCIATION_STRENGTH, association_type: "related" },
+              note: null,
+            }
+      );
+    }
+  } else if (actionType === "reinforce_associations") {
+    const assocs = (action.associations as Array<Pair & { proposed_boost: number }> | undefined) ?? [];
+    const { byPair, error } = await loadAssociations(supabase, assocs);
+    if (error) return { diff: null, error };
+
+    for (const a of assocs) {
+      const p = { memory_id: a.memory_id, related_memory_id: a.related_memory_id };
+      const live = byPair.get(pairKey(a.memory_id, a.related_memory_id));
+      if (!live) {
+        drafts.push({ ...p, change: "skip", before: null, after: null, note: "Association no longer exists" });
+        continue;
+      }
+      const strength = Math.min(1, live.strength + a.proposed_boost);
+      drafts.push(
+        strength === live.strength
+          ? { ...p, change: "skip", before: pick(live), after: null, note: "Already at full strength" }
+          : {
+              ...p,
+              change: "reinforce",
+              before: pick(live),
+              after: { strength, association_type: live.association_type },
+              note: null,
+            }
+      );
+    }
+  }
+
+  const { changes, error } = await withMemories(supabase, drafts);
+  if (error) return { diff: null, error };
+
+  return {
+    diff: {
+      id: manifest.id,
+      mode: "preview",
+      action_type: actionType,
+      executable: actionType !== null && EXECUTABLE_ACTIONS.includes(actionType),
+      undoable: changes.some((c) => c.change !== "skip"),
+      changes,
+    },
+    error: null,
+  };
+}
+
+/** What an executed manifestation changed, from soul_association_modifications */
+export async function appliedManifestation(
+  supabase: SupabaseClient,
+  manifest: ManifestRow
+): Promise<{ diff: ManifestationDiff | null; error: string | null }> {
+  const { data, error } = await supabase
+    .from("soul_association_modifications")
+    .select("memory_id, related_memory_id, modification_type, old_strength, new_strength, old_type, new_type, undone_at")
+    .eq("manifestation_id", manifest.id)
+    .order("created_at", { ascending: true });
+  if (error) return { diff: null, error: error.message };
+
+  const mods = (data ?? []) as ModificationRow[];
+  const drafts: Draft[] = mods.map((m) => ({
+    memory_id: m.memory_id,
+    related_memory_id: m.related_memory_id,
+    change: m.modification_type,
+    before:
+      m.modification_type === "create"
+        ? null
+        : { strength: m.old_strength ?? m.new_strength ?? 0, association_type: m.old_type ?? m.new_type ?? "related" },
+    after: { strength: m.new_strength ?? m.old_strength ?? 0, association_type: m.new_type ?? m.old_type ?? "related" },
+    note: m.undone_at ? `Undone ${new Date(m.undone_at).toLocaleString()}` : null,
+  }));
+
+  const { changes, error: memError } = await withMemories(supabase, drafts);
+  if (memError) return { diff: null, error: memError };
+
+  const actionType = manifest.proposed_action?.type;
+  return {
+    diff: {
+      id: manifest.id,
+      mode: "applied",
+      action_type: typeof actionType === "string" ? actionType : null,
+      executable: true,
+      undoable: mods.some((m) => !m.undone_at) && (manifest.status === "executed" || manifest.status === "auto_executed"),
+      changes,
+    },
+    error: null,
+  };
+}
+
+function pick(row: AssociationRow): { strength: number; association_type: string } {
+  return { strength: row.strength, association_type: row.association_type };
+}
+
+/** Validate a set_policy body */
+export function parseLucidPolicyInput(body: Record<string, unknown>): {
+  values: Pick<LucidPolicy, "category" | "auto_execute" | "min_confidence"> | null;
+  errors: string[];
+} {
+  const errors: string[] = [];
+  const { category, auto_execute, min_confidence } = body;
+
+  if (!MANIFESTATION_CATEGORIES.includes(category as ManifestationCategory)) {
+    errors.push(`category must be one of: ${MANIFESTATION_CATEGORIES.join(", ")}`);
+  }
+  if (typeof auto_execute !== "boolean") errors.push("auto_execute must be a boolean");
+  if (typeof min_confidence !== "number" || !(min_confidence >= 0 && min_confidence <= 1)) {
+    errors.push("min_confidence must be a number 0-1");
+  }
+  if (auto_execute === true && !EXECUTABLE_CATEGORIES.includes(category as ManifestationCategory)) {
+    errors.push(`${String(category)} proposals have no executor and can't be auto-executed`);
+  }
+
+  if (errors.length > 0) return { values: null, errors };
+  return {
+    values: {
+      category: category as ManifestationCategory,
+      auto_execute: auto_execute as boolean,
+      min_confidence: min_confidence as number,
+    },
+    errors,
+  };
+}
@@ -0,0 +1,404 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { AssociationType, MemoryGraphEdge } from "@/lib/types";
+
+// ============================================================
+// Association graph analytics (shared by /api/agents/memory/graph)
+//   - memory_associations as an undirected weighted graph
+//   - Spreading-activation traversal with per-hop decay
+//   - Strongest explanation path between two memories
+//   - Label-propagation communities (topic clusters)
+//   - Weighted PageRank + degree centrality (hub memories)
+// ============================================================
+
+/**
+ * How much of an edge's strength carries across a hop, by type — a
+ * causal link explains more than two memories written close together.
+ */
+export const ASSOCIATION_TYPE_WEIGHTS: Record<AssociationType, number> = {
+  causal: 1.0,
+  similar: 0.9,
+  sequential: 0.7,
+  related: 0.6,
+};
+
+export interface Neighbor {
+  id: string;
+  strength: number;
+  type: AssociationType;
+}
+
+/** Undirected adjacency list; parallel edges keep the strongest */
+export type Adjacency = Map<string, Neighbor[]>;
+
+/** Effective weight of an edge: strength × type weight, in [0, 1] */
+export function edgeWeight(strength: number, type: AssociationType): number {
+  return Math.max(0, Math.min(1, strength)) * (ASSOCIATION_TYPE_WEIGHTS[type] ?? 0.5);
+}
+
+export function buildAdjacency(edges: MemoryGraphEdge[]): Adjacency {
+  const adj: Adjacency = new Map();
+  const link = (from: string, to: string, e: MemoryGraphEdge) => {
+    const list = adj.get(from) ?? [];
+    const existing = list.find((n) => n.id === to);
+    if (existing) {
+      if (edgeWeight(e.strength, e.association_type) > edgeWeight(existing.strength, existing.type)) {
+        existing.strength = e.strength;
+        existing.type = e.association_type;
+      }
+    } else {
+      list.push({ id: to, strength: e.strength, type: e.association_type });
+    }
+    adj.set(from, list);
+  };
+  for (const e of edges) {
+    if (e.memory_id === e.related_memory_id) continue;
+    link(e.memory_id, e.related_memory_id, e);
+    link(e.related_memory_id, e.memory_id, e);
+  }
+  return adj;
+}
+
+// ── Traversal ────────────────────────────────────────────────
+
+export interface TraversalOptions {
+  /** Hops from the seeds (default 2) */
+  maxDepth?: number;
+  /** Activation kept per hop on top of edge weight (default 0.6) */
+  decay?: number;
+  /** Stop spreading below this activation (default 0.05) */
+  minActivation?: number;
+  /** Keep at most this many nodes, strongest first (default 80) */
+  maxNodes?: number;
+}
+
+export interface Activation {
+  activation: number;
+  depth: number;
+}
+
+/**
+ * Spread activation out from the seeds (activation 1.0). Each hop
+ * multiplies by edge weight and `decay`; a node keeps the best
+ * activation it is reached with.
+ */
+export function traverse(adj: Adjacency, seeds: string[], opts: TraversalOptions = {}): Map<string, Activation> {
+  const maxDepth = opts.maxDepth ?? 2;
+  const decay = opts.decay ?? 0.6;
+  const minActivation = opts.minActivation ?? 0.05;
+  const maxNodes = opts.maxNodes ?? 80;
+
+  const reached = new Map<string, Activation>();
+  let frontier = seeds.map((id) => ({ id, activation: 1 }));
+  for (const s of frontier) reached.set(s.id, { activation: 1, depth: 0 });
+
+  for (let depth = 1; depth <= maxDepth && frontier.length > 0; depth++) {
+    const next = new Map<string, number>();
+    for (const { id, activation } of frontier) {
+      for (const n of adj.get(id) ?? []) {
+        const a = activation * edgeWeight(n.strength, n.type) * decay;
+        if (a < minActivation) continue;
+        const best = reached.get(n.id);
+        if (best && best.activation >= a) continue;
+        reached.set(n.id, { activation: a, depth: best && best.depth < depth ? best.depth : depth });
+        next.set(n.id, Math.max(next.get(n.id) ?? 0, a));
+      }
+    }
+    frontier = [...next.entries()].map(([id, activation]) => ({ id, activation }));
+  }
+
+  if (reached.size <= maxNodes) return reached;
+  const kept = [...reached.entries()].sort((a, b) => b[1].activation - a[1].activation).slice(0, maxNodes);
+  return new Map(kept);
+}
+
+// ── Explanation paths ────────────────────────────────────────
+
+export interface GraphPath {
+  /** Memory IDs from `from` to `to` */
+  nodes: string[];
+  /** Edge between nodes[i] and nodes[i + 1] */
+  hops: Neighbor[];
+  /** Product of edge weights along the path (1.0 = perfect chain) */
+  confidence: number;
+}
+
+/**
+ * The most convincing chain of associations linking two memories:
+ * Dijkstra on −ln(edge weight), so the result maximises the product of
+ * weights, limited to `maxHops`.
+ */
+export function shortestPath(adj: Adjacency, from: string, to: string, maxHops = 6): GraphPath | null {
+  if (from === to) return { nodes: [from], hops: [], confidence: 1 };
+
+  // State is (node, hops) so the hop limit can't hide a longer-but-valid route
+  const best = new Map<string, number>();
+  const prev = new Map<string, { key: string; edge: Neighbor }>();
+  const key = (id: string, hops: number) => `${id}#${hops}`;
+  const queue: Array<{ id: string; hops: number; cost: number }> = [{ id: from, hops: 0, cost: 0 }];
+  best.set(key(from, 0), 0);
+
+  while (queue.length > 0) {
+    // Graphs here are a few thousand edges — a linear scan is fine
+    let min = 0;
+    for (let i = 1; i < queue.length; i++) if (queue[i].cost < queue[min].cost) min = i;
+    const cur = queue.splice(min, 1)[0];
+    if (cur.cost > (best.get(key(cur.id, cur.hops)) ?? Infinity)) continue;
+
+    if (cur.id === to) {
+      const nodes = [to];
+      const hops: Neighbor[] = [];
+      let k = key(cur.id, cur.hops);
+      while (prev.has(k)) {
+        const p = prev.get(k)!;
+        hops.unshift(p.edge);
+        nodes.unshift(p.key.slice(0, p.key.lastIndexOf("#")));
+        k = p.key;
+      }
+      return { nodes, hops, confidence: Math.exp(-cur.cost) };
+    }
+    if (cur.hops >= maxHops) continue;
+
+    for (const n of adj.get(cur.id) ?? []) {
+      const w = edgeWeight(n.strength, n.type);
+      if (w <= 0) continue;
+      const cost = cur.cost - Math.log(w);
+      const k = key(n.id, cur.hops + 1);
+      if (cost >= (best.get(k) ?? Infinity)) continue;
+      best.set(k, cost);
+      prev.set(k, { key: key(cur.id, cur.hops), edge: n });
+      queue.push({ id: n.id, hops: cur.hops + 1, cost });
+    }
+  }
+  return null;
+}
+
+// ── Communities ──────────────────────────────────────────────
+
+/**
+ * Weighted label propagation. Every node starts in its own community
+ * and repeatedly adopts the label with the most edge weight among its
+ * neighbours. Deterministic: nodes are visited in ID order and ties go
+ * to the smallest label. Returns node → community label.
+ */
+export function detectCommunities(adj: Adjacency, maxIterations = 20): Map<string, string> {
+  const ids = [...adj.keys()].sort();
+  const label = new Map(ids.map((id) => [id, id]));
+
+  for (let iter = 0; iter < maxIterations; iter++) {
+    let changed = false;
+    for (const id of ids) {
+      const votes = new Map<string, number>();
+      for (const n of adj.get(id) ?? []) {
+        const l = label.get(n.id) ?? n.id;
+        votes.set(l, (votes.get(l) ?? 0) + edgeWeight(n.strength, n.type));
+      }
+      let bestLabel = label.get(id)!;
+      let bestVote = votes.get(bestLabel) ?? 0;
+      for (const [l, v] of votes) {
+        if (v > bestVote + 1e-9 || (Math.abs(v - bestVote) <= 1e-9 && l < bestLabel)) {
+          bestLabel = l;
+          bestVote = v;
+        }
+      }
+      if (bestLabel !== label.get(id)) {
+        label.set(id, bestLabel);
+        changed = true;
+      }
+    }
+    if (!changed) break;
+  }
+  return label;
+}
+
+// ── Centrality ───────────────────────────────────────────────
+
+export interface Centrality {
+  /** Weighted PageRank, normalised so the top node is 1.0 */
+  pagerank: number;
+  degree: number;
+  /** Sum of effective edge weights */
+  weightedDegree: number;
+}
+
+/** Weighted PageRank plus degree for every node in the graph */
+export function computeCentrality(adj: Adjacency, damping = 0.85, iterations = 30): Map<string, Centrality> {
+  const ids = [...adj.keys()];
+  const n = ids.length;
+  const result = new Map<string, Centrality>();
+  if (n === 0) return result;
+
+  const outWeight = new Map<string, number>();
+  for (const id of ids) {
+    outWeight.set(
+      id,
+      (adj.get(id) ?? []).reduce((sum, nb) => sum + edgeWeight(nb.strength, nb.type), 0)
+    );
+  }
+
+  let rank = new Map(ids.map((id) => [id, 1 / n]));
+  for (let iter = 0; iter < iterations; iter++) {
+    const next = new Map(ids.map((id) => [id, (1 - damping) / n]));
+    let dangling = 0;
+    for (const id of ids) {
+      const out = outWeight.get(id)!;
+      const r = rank.get(id)!;
+      if (out === 0) {
+        dangling += r;
+        continue;
+      }
+      for (const nb of adj.get(id) ?? []) {
+        next.set(nb.id, (next.get(nb.id) ?? 0) + (damping * r * edgeWeight(nb.strength, nb.type)) / out);
+      }
+    }
+    for (const id of ids) next.set(id, next.get(id)! + (damping * dangling) / n);
+    rank = next;
+  }
+
+  const top = Math.max(...rank.values());
+  for (const id of ids) {
+    result.set(id, {
+      pagerank: top > 0 ? rank.get(id)! / top : 0,
+      degree: (adj.get(id) ?? []).length,
+      weightedDegree: outWeight.get(id)!,
+    });
+  }
+  return result;
+}
+
+// ── Topic terms ──────────────────────────────────────────────
+
+const STOPWORDS = new Set(
+  "the a an and or but of to in on at for with from by is are was were be been it this that as not no into out over then than so via task agent completed result output".split(
+    " "
+  )
+);
+
+/** Most frequent content words across a set of memories — a cheap cluster label */
+export function topTerms(contents: string[], limit = 5): string[] {
+  const counts = new Map<string, number>();
+  for (const text of contents) {
+    const seen = new Set<string>();
+    for (const word of text.toLowerCase().match(/[a-z][a-z0-9_-]{2,}/g) ?? []) {
+      if (STOPWORDS.has(word) || seen.has(word)) continue;
+      seen.add(word);
+      counts.set(word, (counts.get(word) ?? 0) + 1);
+    }
+  }
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, limit)
+    .map(([word]) => word);
+}
+
+// ── Loading ──────────────────────────────────────────────────
+
+const EDGE_COLUMNS = "id, memory_id, related_memory_id, association_type, strength";
+const PAGE_SIZE = 1000;
+/** IDs per `.in()` filter — keeps PostgREST URLs short */
+const ID_CHUNK = 150;
+
+/** Upper bound on edges loaded for whole-graph analytics */
+export const MAX_GRAPH_EDGES = 20_000;
+
+/**
+ * Load associations, optionally only those between memories of
+ * `agentIds`. Stops at MAX_GRAPH_EDGES strongest-first (`truncated`).
+ */
+export async function loadAssociationGraph(
+  supabase: SupabaseClient,
+  opts: { agentIds?: string[]; minStrength?: number } = {}
+): Promise<{ edges: MemoryGraphEdge[]; truncated: boolean; error: string | null }> {
+  let allowed: Set<string> | null = null;
+  if (opts.agentIds && opts.agentIds.length > 0) {
+    allowed = new Set();
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from("agent_memory")
+        .select("id")
+        .in("agent_id", opts.agentIds)
+        .range(from, from + PAGE_SIZE - 1);
+      if (error) return { edges: [], truncated: false, error: error.message };
+      for (const row of data ?? []) allowed.add(row.id);
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+  }
+
+  const edges: MemoryGraphEdge[] = [];
+  for (let from = 0; from < MAX_GRAPH_EDGES; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("memory_associations")
+      .select(EDGE_COLUMNS)
+      .gte("strength", opts.minStrength ?? 0)
+      .order("strength", { ascending: false })
+      .order("id", { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) return { edges: [], truncated: false, error: error.message };
+    for (const e of (data ?? []) as MemoryGraphEdge[]) {
+      if (!allowed || (allowed.has(e.memory_id) && allowed.has(e.related_memory_id))) edges.push(e);
+    }
+    if (!data || data.length < PAGE_SIZE) return { edges, truncated: false, error: null };
+  }
+  return { edges, truncated: true, error: null };
+}
+
+/**
+ * Load only the neighbourhood of `seeds`, hop by hop, instead of the
+ * whole table. Each hop fetches edges touching the current frontier.
+ */
+export async function loadNeighborhood(
+  supabase: SupabaseClient,
+  seeds: string[],
+  opts: { depth: number; minStrength?: number; maxEdges?: number }
+): Promise<{ edges: MemoryGraphEdge[]; error: string | null }> {
+  const maxEdges = opts.maxEdges ?? 5000;
+  const edges = new Map<string, MemoryGraphEdge>();
+  const visited = new Set(seeds);
+  let frontier = [...seeds];
+
+  for (let hop = 0; hop < opts.depth && frontier.length > 0 && edges.size < maxEdges; hop++) {
+    const next = new Set<string>();
+    for (let i = 0; i < frontier.length; i += ID_CHUNK) {
+      const ids = frontier.slice(i, i + ID_CHUNK).join(",");
+      const { data, error } = await supabase
+        .from("memory_associations")
+        .select(EDGE_COLUMNS)
+        .or(`memory_id.in.(${ids}),related_memory_id.in.(${ids})`)
+        .gte("strength", opts.minStrength ?? 0)
+        .order("strength", { ascending: false })
+        .limit(maxEdges);
+      if (error) return { edges: [], error: error.message };
+      for (const e of (data ?? []) as MemoryGraphEdge[]) {
+        if (edges.size >= maxEdges) break;
+        edges.set(e.id, e);
+        for (const id of [e.memory_id, e.related_memory_id]) {
+          if (!visited.has(id)) {
+            visited.add(id);
+            next.add(id);
+          }
+        }
+      }
+    }
+    frontier = [...next];
+  }
+
+  return { edges: [...edges.values()], error: null };
+}
+
+export const GRAPH_ENTRY_COLUMNS = "id, agent_id, kind, content, source, pinned, archived, created_at";
+
+/** Explorer rows (memory + archive flag) for a set of IDs, keyed by ID */
+export async function loadGraphEntries<T extends { id: string }>(
+  supabase: SupabaseClient,
+  ids: string[]
+): Promise<{ entries: Map<string, T>; error: string | null }> {
+  const entries = new Map<string, T>();
+  for (let i = 0; i < ids.length; i += ID_CHUNK) {
+    const { data, error } = await supabase
+      .from("agent_memory_explorer")
+      .select(GRAPH_ENTRY_COLUMNS)
+      .in("id", ids.slice(i, i + ID_CHUNK));
+    if (error) return { entries, error: error.message };
+    for (const row of (data ?? []) as unknown as T[]) entries.set(row.id, row);
+  }
+  return { entries, error: null };
+}
@@ -0,0 +1,174 @@
+import type {
+  PricingExperimentResult,
+  PricingVariantComparison,
+  PricingVariantStats,
+} from "@/lib/types";
+
+// ============================================================
+// A/B pricing experiment analysis (shared by /api/midas and /midas)
+//
+// The unit is the payer: the x402 server pins each caller to one
+// variant, so conversion = payers who paid / payers challenged, and
+// revenue is compared per payer. Mirrors analyzeExperiments in the
+// bridge (bridge/lib/midas-revenue.ts) — keep them in step.
+// ============================================================
+
+/** Two-sided significance level for a verdict */
+export const EXPERIMENT_ALPHA = 0.05;
+
+/** Payers each variant needs before a verdict is drawn */
+export const MIN_PAYERS_PER_VARIANT = 30;
+
+/** Row of pricing_experiments */
+export interface ExperimentRow {
+  endpoint_path: string;
+  variant_name: string;
+  price_usd: number | string;
+  is_active: boolean | null;
+}
+
+/** Row of the pricing_experiment_variant_stats view */
+export interface VariantStatsRow {
+  endpoint_path: string;
+  variant_name: string;
+  payers: number;
+  converted_payers: number;
+  impressions: number;
+  conversions: number;
+  revenue_usd: number | string | null;
+  revenue_sq_usd: number | string | null;
+}
+
+/** Standard normal CDF (Abramowitz & Stegun 7.1.26, |error| < 1.5e-7) */
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+const twoSided = (z: number) => 2 * (1 - normalCdf(Math.abs(z)));
+
+/** Two-proportion z-test; null when either arm is empty or there's no variance */
+export function twoProportionPValue(x1: number, n1: number, x2: number, n2: number): number | null {
+  if (n1 === 0 || n2 === 0) return null;
+  const pooled = (x1 + x2) / (n1 + n2);
+  const se = Math.sqrt(pooled * (1 - pooled) * (1 / n1 + 1 / n2));
+  if (se === 0) return null;
+  return twoSided((x1 / n1 - x2 / n2) / se);
+}
+
+/** Welch test on means from sums (normal approximation — arms are ≥ MIN_PAYERS) */
+export function welchPValue(
+  a: { n: number; sum: number; sumSq: number },
+  b: { n: number; sum: number; sumSq: number }
+): number | null {
+  if (a.n < 2 || b.n < 2) return null;
+  const variance = (s: { n: number; sum: number; sumSq: number }) =>
+    Math.max(0, (s.sumSq - (s.sum * s.sum) / s.n) / (s.n - 1));
+  const se = Math.sqrt(variance(a) / a.n + variance(b) / b.n);
+  if (se === 0) return null;
+  return twoSided((a.sum / a.n - b.sum / b.n) / se);
+}
+
+const round = (n: number, digits: number) => Math.round(n * 10 ** digits) / 10 ** digits;
+const fmtP = (p: number | null) => (p === null ? "n/a" : p < 0.001 ? "<0.001" : p.toFixed(3));
+
+/** Significance verdict for every endpoint with two or more variants */
+export function analyzeExperiments(experiments: ExperimentRow[], stats: VariantStatsRow[]): PricingExperimentResult[] {
+  const statsByKey = new Map(stats.map((s) => [`${s.endpoint_path}:${s.variant_name}`, s]));
+  const byEndpoint = new Map<string, ExperimentRow[]>();
+  for (const e of experiments) {
+    byEndpoint.set(e.endpoint_path, [...(byEndpoint.get(e.endpoint_path) ?? []), e]);
+  }
+
+  const results: PricingExperimentResult[] = [];
+  for (const [endpoint, rows] of byEndpoint) {
+    if (rows.length < 2) continue;
+
+    const sums = new Map<string, { n: number; sum: number; sumSq: number }>();
+    const variants: PricingVariantStats[] = rows.map((row) => {
+      const s = statsByKey.get(`${endpoint}:${row.variant_name}`);
+      const payers = s?.payers ?? 0;
+      const revenue = Number(s?.revenue_usd ?? 0);
+      sums.set(row.variant_name, { n: payers, sum: revenue, sumSq: Number(s?.revenue_sq_usd ?? 0) });
+      return {
+        variant: row.variant_name,
+        price_usd: Number(row.price_usd),
+        is_active: row.is_active !== false,
+        payers,
+        converted_payers: s?.converted_payers ?? 0,
+        conversion_rate: payers > 0 ? round(((s?.converted_payers ?? 0) / payers) * 100, 2) : 0,
+        impressions: s?.impressions ?? 0,
+        conversions: s?.conversions ?? 0,
+        revenue_usd: round(revenue, 6),
+        revenue_per_payer: payers > 0 ? round(revenue / payers, 6) : 0,
+      };
+    });
+
+    // "control" when there is one, else the cheapest variant
+    const control =
+      variants.find((v) => v.variant === "control") ?? [...variants].sort((a, b) => a.price_usd - b.price_usd)[0];
+    const base = sums.get(control.variant)!;
+
+    const comparisons: PricingVariantComparison[] = variants
+      .filter((v) => v !== control)
+      .map((v) => ({
+        variant: v.variant,
+        conversion_p_value: twoProportionPValue(v.converted_payers, v.payers, control.converted_payers, control.payers),
+        revenue_p_value: welchPValue(sums.get(v.variant)!, base),
+        revenue_lift:
+          control.revenue_per_payer > 0
+            ? round(((v.revenue_per_payer - control.revenue_per_payer) / control.revenue_per_payer) * 100, 1)
+            : null,
+      }));
+
+    const sampleReady = variants.every((v) => v.payers >= MIN_PAYERS_PER_VARIANT);
+    const significant = comparisons.filter((c) => c.revenue_p_value !== null && c.revenue_p_value < EXPERIMENT_ALPHA);
+    const perPayer = (name: string) => variants.find((v) => v.variant === name)!.revenue_per_payer;
+
+    let winner: string | null = null;
+    let pValue: number | null = null;
+    if (sampleReady) {
+      const better = significant
+        .filter((c) => perPayer(c.variant) > control.revenue_per_payer)
+        .sort((a, b) => perPayer(b.variant) - perPayer(a.variant));
+      if (better.length > 0) {
+        winner = better[0].variant;
+        pValue = better[0].revenue_p_value;
+      } else if (comparisons.length > 0 && significant.length === comparisons.length) {
+        // Every challenger earns significantly less than control
+        winner = control.variant;
+        pValue = Math.max(...significant.map((c) => c.revenue_p_value!));
+      }
+    }
+
+    const smallest = Math.min(...variants.map((v) => v.payers));
+    const summary = !sampleReady
+      ? `Collecting data — ${smallest}/${MIN_PAYERS_PER_VARIANT} payers in the smallest variant`
+      : winner
+        ? `${winner} earns $${perPayer(winner).toFixed(4)}/payer vs ` +
+          `${winner === control.variant ? "every challenger" : `control $${control.revenue_per_payer.toFixed(4)}`}` +
+          ` (p=${fmtP(pValue)})`
+        : `No significant difference in revenue per payer (p=${fmtP(
+            comparisons.reduce<number | null>(
+              (min, c) => (c.revenue_p_value === null ? min : min === null ? c.revenue_p_value : Math.min(min, c.revenue_p_value)),
+              null
+            )
+          )})`;
+
+    results.push({
+      endpoint,
+      control: control.variant,
+      variants,
+      comparisons,
+      sample_ready: sampleReady,
+      winner,
+      p_value: pValue,
+      summary,
+    });
+  }
+
+  return results.sort((a, b) => a.endpoint.localeCompare(b.endpoint));
+}
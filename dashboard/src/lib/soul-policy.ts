@@ -0,0 +1,102 @@
+import { MEMORY_KINDS } from "@/lib/agent-memory";
+import type { DreamInsightCategory, MemoryKind, SoulPolicy } from "@/lib/types";
+
+// ============================================================
+// Soul policy helpers (shared by /api/soul/policies and the editor)
+// ============================================================
+
+export const DEFAULT_POLICY_ID = "_default";
+
+export const INSIGHT_CATEGORIES: DreamInsightCategory[] = ["pattern", "recommendation", "summary", "correction"];
+
+export type SoulPolicyFields = Omit<SoulPolicy, "agent_id" | "updated_by" | "updated_at">;
+
+/** Effective values, every field resolved */
+export type ResolvedSoulPolicy = { [K in keyof SoulPolicyFields]: NonNullable<SoulPolicyFields[K]> };
+
+/** What the bridge falls back to when no row sets a field (its DEFAULT_CONFIG) */
+export const BUILTIN_POLICY: ResolvedSoulPolicy = {
+  max_memories: 10,
+  max_context_chars: 3000,
+  include_shared: true,
+  excluded_kinds: [],
+  excluded_sources: [],
+  insight_categories: INSIGHT_CATEGORIES,
+  predictive_injection: false,
+};
+
+const FIELDS = Object.keys(BUILTIN_POLICY) as (keyof SoulPolicyFields)[];
+
+/** Resolve an agent's policy the way the bridge does: own row → '_default' → built-in */
+export function resolveSoulPolicy(row: SoulPolicy | null, fallback: SoulPolicy | null): ResolvedSoulPolicy {
+  const resolved = { ...BUILTIN_POLICY } as Record<string, unknown>;
+  for (const field of FIELDS) {
+    const value = row?.[field] ?? fallback?.[field];
+    if (value !== null && value !== undefined) resolved[field] = value;
+  }
+  return resolved as ResolvedSoulPolicy;
+}
+
+function parseBoundedInt(value: unknown, field: string, max: number, errors: string[]): number | null {
+  if (value === null || value === "") return null;
+  if (typeof value !== "number" || !Number.isInteger(value) || value < 0 || value > max) {
+    errors.push(`${field} must be an integer 0-${max} or null`);
+    return null;
+  }
+  return value;
+}
+
+function parseList<T extends string>(
+  value: unknown,
+  field: string,
+  allowed: readonly T[] | null,
+  errors: string[]
+): T[] | null {
+  if (value === null) return null;
+  if (!Array.isArray(value) || value.some((v) => typeof v !== "string" || v.trim() === "")) {
+    errors.push(`${field} must be an array of strings or null`);
+    return null;
+  }
+  const bad = allowed ? value.filter((v) => !allowed.includes(v as T)) : [];
+  if (bad.length > 0) {
+    errors.push(`${field} must only contain: ${allowed!.join(", ")}`);
+    return null;
+  }
+  return [...new Set(value.map((v: string) => v.trim()))] as T[];
+}
+
+/**
+ * Validate a create/replace body. Omitted fields are null (inherit);
+ * the '_default' row must set every field. Unknown keys are ignored.
+ */
+export function parseSoulPolicyInput(
+  body: Record<string, unknown>,
+  isDefault: boolean
+): { values: SoulPolicyFields; errors: string[] } {
+  const errors: string[] = [];
+  const get = (key: string) => (body[key] === undefined ? null : body[key]);
+
+  const bool = (key: string): boolean | null => {
+    const value = get(key);
+    if (value === null || typeof value === "boolean") return value;
+    errors.push(`${key} must be a boolean or null`);
+    return null;
+  };
+
+  const values: SoulPolicyFields = {
+    max_memories: parseBoundedInt(get("max_memories"), "max_memories", 50, errors),
+    max_context_chars: parseBoundedInt(get("max_context_chars"), "max_context_chars", 20_000, errors),
+    include_shared: bool("include_shared"),
+    excluded_kinds: parseList<MemoryKind>(get("excluded_kinds"), "excluded_kinds", MEMORY_KINDS, errors),
+    excluded_sources: parseList<string>(get("excluded_sources"), "excluded_sources", null, errors),
+    insight_categories: parseList(get("insight_categories"), "insight_categories", INSIGHT_CATEGORIES, errors),
+    predictive_injection: bool("predictive_injection"),
+  };
+
+  if (isDefault && errors.length === 0) {
+    const missing = FIELDS.filter((f) => values[f] === null);
+    if (missing.length > 0) errors.push(`${DEFAULT_POLICY_ID} must set every field (missing: ${missing.join(", ")})`);
+  }
+
+  return { values, errors };
+}
@@ -0,0 +1,85 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { isValidTimezone, nextRun, validateCron } from "@/lib/cron";
+import type { SwarmSchedule } from "@/lib/types";
+
+// ============================================================
+// Swarm schedule input validation (shared by the schedule API routes)
+// ============================================================
+
+const TEMPLATES_DIR = path.resolve(process.cwd(), "..", "templates", "swarms");
+
+type ScheduleFields = Pick<
+  SwarmSchedule,
+  "name" | "template" | "overrides" | "cron" | "timezone" | "overlap_policy" | "catch_up" | "enabled"
+>;
+
+/**
+ * Validate a create (all required fields) or update (any subset) body.
+ * Unknown keys are ignored.
+ */
+export async function parseScheduleInput(
+  body: Record<string, unknown>,
+  partial: boolean
+): Promise<{ values: Partial<ScheduleFields>; errors: string[] }> {
+  const values: Partial<ScheduleFields> = {};
+  const errors: string[] = [];
+  const has = (key: string) => body[key] !== undefined;
+
+  if (has("name") || !partial) {
+    if (typeof body.name !== "string" || !body.name.trim()) errors.push("name is required");
+    else values.name = body.name.trim();
+  }
+
+  if (has("template") || !partial) {
+    const template = body.template;
+    if (typeof template !== "string" || path.basename(template) !== template || !template.endsWith(".json")) {
+      errors.push("template must be a filename from templates/swarms/");
+    } else if (!(await fs.stat(path.join(TEMPLATES_DIR, template)).catch(() => null))) {
+      errors.push(`template "${template}" not found`);
+    } else {
+      values.template = template;
+    }
+  }
+
+  if (has("cron") || !partial) {
+    const err = typeof body.cron === "string" ? validateCron(body.cron) : "cron is required";
+    if (err) errors.push(err);
+    else values.cron = (body.cron as string).trim();
+  }
+
+  if (has("timezone")) {
+    if (typeof body.timezone !== "string" || !isValidTimezone(body.timezone)) {
+      errors.push(`Unknown timezone "${String(body.timezone)}"`);
+    } else {
+      values.timezone = body.timezone;
+    }
+  }
+
+  if (has("overlap_policy")) {
+    if (body.overlap_policy !== "skip" && body.overlap_policy !== "queue") {
+      errors.push("overlap_policy must be skip|queue");
+    } else {
+      values.overlap_policy = body.overlap_policy;
+    }
+  }
+
+  if (has("overrides")) {
+    const o = body.overrides;
+    if (!o || typeof o !== "object" || Array.isArray(o)) errors.push("overrides must be an object");
+    else values.overrides = o as ScheduleFields["overrides"];
+  }
+
+  for (const key of ["catch_up", "enabled"] as const) {
+    if (!has(key)) continue;
+    if (typeof body[key] !== "boolean") errors.push(`${key} must be a boolean`);
+    else values[key] = body[key] as boolean;
+  }
+
+  return { values, errors };
+}
+
+/** First occurrence after now, as stored in swarm_schedules.next_run_at */
+export function computeNextRunAt(cron: string, timezone: string): string | null {
+  return nextRun(cron, timezone, new Date())?.toISOString() ?? null;
+}
@@ -0,0 +1,182 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { AgentCommand, CommandTranscript } from "@/lib/types";
+import { cleanAgentOutput, stripAnsi } from "@/lib/utils";
+
+// ============================================================
+// Command transcripts (shared by the command API routes)
+//   - Reassemble output from command_transcripts + agent_responses
+//   - Resume from a chunk seq for reconnecting clients
+//   - Export as plain text, markdown or JSON lines
+// ============================================================
+
+export const TRANSCRIPT_FORMATS = ["json", "text", "markdown", "jsonl"] as const;
+export type TranscriptFormat = (typeof TRANSCRIPT_FORMATS)[number];
+
+/** One JSON-lines record: a chunk, or the compacted transcript as a whole */
+export interface TranscriptEntry {
+  seq: number;
+  content: string;
+  is_final: boolean;
+  compacted?: boolean;
+  chunk_count?: number;
+  created_at: string;
+}
+
+export interface TranscriptSlice {
+  /** Output after `since` — or the whole output when `reset` is set */
+  content: string;
+  /**
+   * `since` pointed inside the compacted transcript, which can't be split
+   * by seq — `content` is the full output and replaces what the client has.
+   */
+  reset: boolean;
+  last_seq: number;
+  is_final: boolean;
+  compacted: boolean;
+  entries: TranscriptEntry[];
+}
+
+type ChunkRow = { seq: number; content: string; is_final: boolean; created_at: string };
+
+/** Concatenate a transcript with the chunk rows that haven't been folded into it */
+export function assembleOutput(
+  transcript: Pick<CommandTranscript, "content" | "last_seq"> | null,
+  rows: { seq: number; content: string }[]
+): string {
+  const foldedSeq = transcript?.last_seq ?? 0;
+  return (
+    (transcript?.content ?? "") +
+    rows
+      .filter((r) => r.seq > foldedSeq)
+      .sort((a, b) => a.seq - b.seq)
+      .map((r) => r.content)
+      .join("")
+  );
+}
+
+/** Output of a command after chunk `since` (0 = from the beginning) */
+export async function loadTranscript(
+  supabase: SupabaseClient,
+  commandId: string,
+  since: number
+): Promise<{ slice: TranscriptSlice | null; error: string | null }> {
+  const [{ data: transcript, error: tError }, { data: rows, error: rError }, { data: final }] = await Promise.all([
+    supabase
+      .from("command_transcripts")
+      .select("*")
+      .eq("command_id", commandId)
+      .maybeSingle(),
+    supabase
+      .from("agent_responses")
+      .select("seq, content, is_final, created_at")
+      .eq("command_id", commandId)
+      .gt("seq", since)
+      .order("seq", { ascending: true }),
+    // The final marker may be at or before `since`
+    supabase
+      .from("agent_responses")
+      .select("seq")
+      .eq("command_id", commandId)
+      .eq("is_final", true)
+      .limit(1),
+  ]);
+
+  if (tError || rError) return { slice: null, error: (tError ?? rError)!.message };
+
+  const t = transcript as CommandTranscript | null;
+  const foldedSeq = t?.last_seq ?? 0;
+  const includeTranscript = !!t && since < foldedSeq;
+  const chunks = ((rows ?? []) as ChunkRow[]).filter((r) => r.seq > Math.max(since, foldedSeq));
+
+  const entries: TranscriptEntry[] = [];
+  if (includeTranscript) {
+    entries.push({
+      seq: t.last_seq,
+      content: t.content,
+      is_final: false,
+      compacted: true,
+      chunk_count: t.chunk_count,
+      created_at: t.created_at,
+    });
+  }
+  entries.push(...chunks);
+
+  return {
+    slice: {
+      content: entries.map((e) => e.content).join(""),
+      reset: includeTranscript && since > 0,
+      last_seq: Math.max(since, foldedSeq, ...chunks.map((c) => c.seq)),
+      is_final: (final ?? []).length > 0,
+      compacted: !!t,
+      entries,
+    },
+    error: null,
+  };
+}
+
+// ── Export ──────────────────────────────────────────
+
+/**
+ * Terminal output → plain text: drops ANSI/OSC escapes, applies carriage
+ * return overwrites (progress bars) and backspaces, and removes bridge noise.
+ */
+export function toPlainText(raw: string): string {
+  const text = stripAnsi(raw.replace(/\x1B\][^\x07\x1B]*(?:\x07|\x1B\\)/g, ""))
+    .replace(/\x1B[@-Z\\-_]/g, "")
+    .replace(/\r\n/g, "\n")
+    .split("\n")
+    .map((line) => {
+      let out = line.slice(line.lastIndexOf("\r") + 1);
+      while (/[^\x08]\x08/.test(out)) out = out.replace(/[^\x08]\x08/, "");
+      return out.replace(/[\x00-\x08\x0B-\x1F\x7F]/g, "");
+    })
+    .join("\n");
+  return cleanAgentOutput(text).trimEnd();
+}
+
+/**
+ * Plain text output embedded in a markdown document. Agents usually answer
+ * in markdown, so it is kept as-is — headings are demoted below the
+ * document's own and an unterminated code fence (cut-off output) is closed.
+ */
+export function toMarkdown(
+  command: Pick<AgentCommand, "id" | "agent_id" | "message" | "status" | "created_at">,
+  raw: string
+): string {
+  const lines: string[] = [];
+  let fence: string | null = null;
+  for (const line of toPlainText(raw).split("\n")) {
+    const marker = line.match(/^\s*(`{3,}|~{3,})/)?.[1];
+    if (marker && (!fence || marker.startsWith(fence))) {
+      fence = fence ? null : marker;
+      lines.push(line);
+    } else if (!fence && /^#{1,6}\s/.test(line)) {
+      lines.push(line.replace(/^(#{1,6})/, (h) => "#".repeat(Math.min(6, h.length + 2))));
+    } else {
+      lines.push(line);
+    }
+  }
+  if (fence) lines.push(fence);
+
+  return [
+    `# Command ${command.id.slice(0, 8)} — ${command.agent_id}`,
+    "",
+    `- **Agent:** \`${command.agent_id}\``,
+    `- **Status:** ${command.status}`,
+    `- **Created:** ${command.created_at}`,
+    "",
+    "## Prompt",
+    "",
+    ...command.message.split("\n").map((l) => `> ${l}`),
+    "",
+    "## Output",
+    "",
+    ...lines,
+    "",
+  ].join("\n");
+}
+
+/** One JSON object per line; chunk content is kept raw (lossless replay) */
+export function toJsonLines(entries: TranscriptEntry[]): string {
+  return entries.map((e) => JSON.stringify(e)).join("\n") + (entries.length > 0 ? "\n" : "");
+}
@@ -12,12 +12,40 @@ export interface AgentControl {
   updated_at: string;
 }
 
+/** Row in the agent_usage_daily view (UTC days) */
+export interface AgentUsageDaily {
+  agent_id: string;
+  day: string;
+  runs: number;
+  failed_runs: number;
+  wall_ms: number;
+  total_tokens: number;
+  input_tokens: number;
+  output_tokens: number;
+  cost_usd: number;
+}
+
+/** Row in the agent_budgets table — null limits are unlimited */
+export interface AgentBudget {
+  agent_id: string;
+  daily_token_limit: number | null;
+  daily_cost_limit_usd: number | null;
+  daily_run_limit: number | null;
+  over_budget_action: "refuse" | "queue";
+  updated_by: string | null;
+  updated_at: string;
+}
+
 /** Row in the agent_commands table */
 export interface AgentCommand {
   id: string;
   agent_id: string;
   message: string;
   status: CommandStatus;
+  /** Higher runs first within the agent's queue (default 0) */
+  priority: number;
+  /** 1-based position in the agent's queue while pending; null once dispatched */
+  queue_position: number | null;
   created_by: string | null;
   created_at: string;
   updated_at: string;
@@ -27,11 +55,24 @@ export interface AgentCommand {
 export interface AgentResponse {
   id: string;
   command_id: string;
+  /** Per-command chunk number (1, 2, 3…) assigned on insert */
+  seq: number;
   content: string;
   is_final: boolean;
   created_at: string;
 }
 
+/** Row in the command_transcripts table (compacted chunks of a finished command) */
+export interface CommandTranscript {
+  command_id: string;
+  content: string;
+  chunk_count: number;
+  /** Highest agent_responses.seq folded into content */
+  last_seq: number;
+  created_at: string;
+  updated_at: string;
+}
+
 /** Row in the agent_sessions table */
 export interface AgentSession {
   id: string;
@@ -42,38 +83,104 @@ export interface AgentSession {
   last_heartbeat: string;
 }
 
-/** Agent definition from OpenClaw config */
-export interface AgentInfo {
+/** One labelled series from the bridge's /metrics?format=json snapshot */
+export interface BridgeMetricSeries {
+  labels: Record<string, string>;
+  /** counters and gauges */
+  value?: number;
+  /** histograms */
+  count?: number;
+  sum?: number;
+  buckets?: { le: number; count: number }[];
+}
+
+/** Bridge metrics snapshot, keyed by Prometheus metric name */
+export interface BridgeMetricsSnapshot {
+  startedAt: string;
+  metrics: Record<string, { type: "counter" | "gauge" | "histogram"; help: string; series: BridgeMetricSeries[] }>;
+}
+
+/** Soul dream consolidation settings reported by the running bridge (GET :3001/soul/dream) */
+export interface DreamConsolidationConfig {
+  mode: "llm" | "heuristic";
+  provider: "ollama" | null;
+  model: string | null;
+  url: string | null;
+  timeoutMs: number;
+  /** Largest clusters per dream summarized by the model */
+  maxClusters: number;
+  /** Circuit breaker state for the dream model (CLOSED | OPEN | HALF_OPEN) */
+  breaker: string;
+  /** Last dream cycle in this bridge process; null until one runs */
+  lastRun: {
+    at: string;
+    clusters: number;
+    llm: number;
+    heuristic: number;
+    fallbacks: number;
+  } | null;
+}
+
+/** Row in the agent_registry table — the single source of truth for the fleet */
+export interface RegisteredAgent {
   id: string;
   name: string;
-  workspace: string;
+  model: string | null;
+  workspace: string | null;
   tools: string;
-  model: string;
-  status: AgentStatus;
-  skills?: string[];
+  skills: string[];
+  /** Listed on the fleet (false for *_web companions) */
+  fleet: boolean;
+  /** false = retired; the bridge refuses to run it */
+  enabled: boolean;
+  sort_order: number;
+  /** Mismatches against openclaw.json, written by the bridge */
+  config_issues: string[];
+  validated_at: string | null;
+  retired_at: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
 }
 
 // ============================================================
 // Swarm types
 // ============================================================
 
-export type SwarmMode = "parallel" | "pipeline" | "collaborative";
+export type SwarmMode = "parallel" | "pipeline" | "collaborative" | "dag";
 export type SwarmRunStatus = "pending" | "running" | "completed" | "failed" | "cancelled";
-export type SwarmTaskStatus = "pending" | "running" | "completed" | "failed" | "skipped";
+export type SwarmTaskStatus = "pending" | "running" | "completed" | "failed" | "skipped" | "interrupted";
 
 /** A single task definition within a swarm manifest */
 export interface SwarmManifestTask {
   id: string;
   agent: string;
   message: string;
-  depends_on?: string;
+  /** Upstream task id(s) — dag mode runs a task once all of them finish */
+  depends_on?: string | string[];
   timeout?: number;
+  /** Total attempts (including the first); backoff is seconds before the first retry, doubling after */
+  retry?: { attempts: number; backoff?: number };
+  /** Overrides the run-level on_failure for this task */
+  on_failure?: "stop" | "continue" | "fallback_agent";
+  /** Agent that takes over once retries are exhausted */
+  fallback_agent?: string;
+  /** Run only when every condition on an upstream task holds (pipeline/dag) */
+  when?: SwarmTaskCondition | SwarmTaskCondition[];
+}
+
+/** Condition on an upstream task result, evaluated before a task starts */
+export interface SwarmTaskCondition {
+  task: string;
+  /** Case-insensitive regex the upstream output must match */
+  output_matches?: string;
+  exit_code?: number | "zero" | "nonzero";
 }
 
 /** The full manifest stored in swarm_runs.manifest */
 export interface SwarmManifest {
   mode: SwarmMode;
-  /** For parallel/pipeline mode */
+  /** For parallel/pipeline/dag mode */
   tasks?: SwarmManifestTask[];
   /** For collaborative mode */
   task?: string;
@@ -92,6 +199,8 @@ export interface SwarmRun {
   manifest: SwarmManifest;
   synthesis: string | null;
   created_by: string | null;
+  /** Set when the run was launched by a swarm schedule */
+  schedule_id: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -106,6 +215,10 @@ export interface SwarmTask {
   status: SwarmTaskStatus;
   output: string;
   exit_code: number | null;
+  /** Attempts made so far (retry policy) */
+  attempts: number;
+  /** Original agent when the task was rerouted to its fallback_agent */
+  fallback_from: string | null;
   started_at: string | null;
   completed_at: string | null;
   created_at: string;
@@ -120,6 +233,44 @@ export interface SwarmTemplate {
   manifest: SwarmManifest;
 }
 
+/** What a schedule does when an occurrence comes due while its previous run is still active */
+export type SwarmOverlapPolicy = "skip" | "queue";
+
+/** Row in the swarm_schedules table */
+export interface SwarmSchedule {
+  id: string;
+  name: string;
+  /** Filename in templates/swarms/ */
+  template: string;
+  /** Manifest fields merged over the template */
+  overrides: Partial<SwarmManifest>;
+  cron: string;
+  timezone: string;
+  overlap_policy: SwarmOverlapPolicy;
+  /** Run the latest missed occurrence when the bridge comes back after downtime */
+  catch_up: boolean;
+  enabled: boolean;
+  next_run_at: string | null;
+  last_run_at: string | null;
+  last_run_id: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type SwarmScheduleOutcome = "started" | "skipped" | "queued" | "missed" | "error";
+
+/** Row in the swarm_schedule_runs table -- one per due occurrence */
+export interface SwarmScheduleRun {
+  id: string;
+  schedule_id: string;
+  scheduled_for: string;
+  outcome: SwarmScheduleOutcome;
+  swarm_id: string | null;
+  detail: string | null;
+  created_at: string;
+}
+
 // ============================================================
 // Intent Layer types (Cursor Cloud Agents as reasoning layer)
 // ============================================================
@@ -222,6 +373,269 @@ export interface X402WalletInfo {
   budgetLimit: string;
 }
 
+// ============================================================
+// Agent Memory types
+// ============================================================
+
+export type MemoryKind = "observation" | "outcome" | "fact" | "error" | "goal" | "note";
+
+/** Row in the agent_memory_explorer view (agent_memory + memory_decay) */
+export interface AgentMemoryEntry {
+  id: string;
+  agent_id: string;
+  kind: MemoryKind;
+  content: string;
+  source: string | null;
+  ttl_hours: number | null;
+  pinned: boolean;
+  created_at: string;
+  updated_at: string;
+  /** Written by the anchor flow (pinned to IPFS + recorded on Base) */
+  anchored: boolean;
+  archived: boolean;
+  archive_reason: string | null;
+  /** From the Soul decay pass (1.0 fresh → 0.0 forgotten); null until scored */
+  decay_score: number | null;
+  access_count: number;
+  last_accessed: string | null;
+  expires_at: string | null;
+}
+
+/** An association from a memory to another, seen from the memory's side */
+export interface MemoryAssociationLink {
+  id: string;
+  association_type: string;
+  strength: number;
+  related: Pick<AgentMemoryEntry, "id" | "agent_id" | "kind" | "content" | "created_at"> | null;
+}
+
+/** A command whose Soul context included the memory */
+export interface MemoryInjection {
+  query_id: string;
+  query_time: string;
+  agent_id: string;
+  relevance: number | null;
+  command: Pick<AgentCommand, "id" | "agent_id" | "message" | "status" | "created_at"> | null;
+}
+
+export interface MemoryDetail {
+  entry: AgentMemoryEntry;
+  associations: MemoryAssociationLink[];
+  injections: MemoryInjection[];
+}
+
+export type AssociationType = "causal" | "similar" | "sequential" | "related";
+
+/** Row in memory_associations */
+export interface MemoryGraphEdge {
+  id: string;
+  memory_id: string;
+  related_memory_id: string;
+  association_type: AssociationType;
+  strength: number;
+}
+
+type MemoryGraphEntry = Pick<
+  AgentMemoryEntry,
+  "id" | "agent_id" | "kind" | "content" | "source" | "pinned" | "archived" | "created_at"
+>;
+
+/** A memory in a focused subgraph (GET /api/agents/memory/graph?action=subgraph) */
+export interface MemoryGraphNode extends MemoryGraphEntry {
+  /** Spreading activation from the focus (1.0 = focus itself) */
+  activation: number;
+  /** Hops from the focus */
+  depth: number;
+  /** Label-propagation community within the subgraph */
+  community: string;
+  /** Weighted PageRank within the subgraph, top node = 1.0 */
+  centrality: number;
+}
+
+export interface MemoryGraphSubgraph {
+  focus: string[];
+  nodes: MemoryGraphNode[];
+  edges: MemoryGraphEdge[];
+}
+
+/** GET /api/agents/memory/graph?action=path — strongest association chain */
+export interface MemoryGraphPath {
+  nodes: MemoryGraphEntry[];
+  hops: { association_type: AssociationType; strength: number }[];
+  /** Product of type-weighted edge strengths (1.0 = perfect chain) */
+  confidence: number;
+}
+
+/** A memory ranked by centrality (action=centrality, community hubs) */
+export interface MemoryGraphHub extends MemoryGraphEntry {
+  pagerank: number;
+  degree: number;
+  weighted_degree: number;
+}
+
+/** A topic cluster found by community detection (action=communities) */
+export interface MemoryCommunity {
+  id: string;
+  size: number;
+  /** Most frequent content words across members */
+  terms: string[];
+  kinds: Partial<Record<MemoryKind, number>>;
+  agents: Record<string, number>;
+  /** Most central members */
+  hubs: MemoryGraphHub[];
+}
+
+export type ContextFeedback = "up" | "down";
+
+/** Row in command_context — what Soul prepended to a command at dispatch */
+export interface CommandContext {
+  command_id: string;
+  agent_id: string;
+  task_keywords: string[];
+  memory_ids: string[];
+  /** Parallel to memory_ids */
+  memory_relevance: number[];
+  insight_ids: string[];
+  prediction_ids: string[];
+  anchor_included: boolean;
+  chars_used: number;
+  char_budget: number;
+  feedback: ContextFeedback | null;
+  feedback_at: string | null;
+  /** Set by the bridge once the feedback reached associations + predictions */
+  feedback_applied_at: string | null;
+  created_at: string;
+}
+
+/** GET /api/commands/[id]/context — the provenance row with its referents resolved */
+export interface CommandContextDetail {
+  command_id: string;
+  /** null when Soul injected nothing (or the command predates provenance) */
+  context: CommandContext | null;
+  /** In injection order; `entry` is null if the memory has since been deleted */
+  memories: Array<{
+    id: string;
+    relevance: number | null;
+    entry: Pick<AgentMemoryEntry, "id" | "agent_id" | "kind" | "content" | "created_at"> | null;
+  }>;
+  insights: Array<{ id: string; insight: string; category: string; confidence: number }>;
+  predictions: Array<{
+    id: string;
+    trigger_type: string;
+    predicted_intent: string;
+    confidence: number;
+    was_useful: boolean | null;
+  }>;
+}
+
+export type ContradictionStatus = "open" | "resolved" | "dismissed";
+
+/** Row in memory_contradictions — two facts/goals giving one subject different values */
+export interface MemoryContradiction {
+  id: string;
+  /** The older memory */
+  memory_a_id: string;
+  /** The newer memory */
+  memory_b_id: string;
+  kind: "fact" | "goal";
+  subject: string;
+  value_a: string;
+  value_b: string;
+  detected_by: "write" | "dream";
+  /** The `correction` dream insight standing for this pair */
+  insight_id: string | null;
+  status: ContradictionStatus;
+  winner_id: string | null;
+  resolved_by: string | null;
+  resolved_at: string | null;
+  /** Set by the bridge once the loser is archived */
+  applied_at: string | null;
+  created_at: string;
+}
+
+type ContradictionMemory = Pick<
+  AgentMemoryEntry,
+  "id" | "agent_id" | "kind" | "content" | "source" | "pinned" | "archived" | "created_at"
+>;
+
+/** GET /api/soul/contradictions — a contradiction with both memories resolved (null if deleted) */
+export interface MemoryContradictionDetail extends MemoryContradiction {
+  memory_a: ContradictionMemory | null;
+  memory_b: ContradictionMemory | null;
+}
+
+export type DreamInsightCategory = "pattern" | "recommendation" | "summary" | "correction";
+
+/**
+ * Row in soul_policies — how Soul curates context for one agent.
+ * '_default' applies fleet-wide; null fields inherit from it.
+ */
+export interface SoulPolicy {
+  agent_id: string;
+  max_memories: number | null;
+  max_context_chars: number | null;
+  include_shared: boolean | null;
+  excluded_kinds: MemoryKind[] | null;
+  excluded_sources: string[] | null;
+  /** Insight categories injected ('[]' = none) */
+  insight_categories: DreamInsightCategory[] | null;
+  predictive_injection: boolean | null;
+  updated_by: string | null;
+  updated_at: string;
+}
+
+export type ManifestationCategory =
+  | "fusion"
+  | "association"
+  | "pricing"
+  | "skill"
+  | "meeting"
+  | "pattern"
+  | "correction";
+
+/** Row in soul_lucid_policies — when a category's dream proposals run without approval */
+export interface LucidPolicy {
+  category: ManifestationCategory;
+  auto_execute: boolean;
+  /** Proposals below this confidence always wait for approval */
+  min_confidence: number;
+  updated_by: string | null;
+  updated_at: string;
+}
+
+type ManifestationMemory = Pick<AgentMemoryEntry, "id" | "agent_id" | "kind" | "content">;
+
+/** One association change a lucid dream manifestation would make, or made */
+export interface ManifestationChange {
+  change: "create" | "reinforce" | "weaken" | "retype" | "skip";
+  memory_id: string;
+  related_memory_id: string;
+  /** null = no association yet */
+  before: { strength: number; association_type: string } | null;
+  /** null = the change is skipped */
+  after: { strength: number; association_type: string } | null;
+  /** Why a change is skipped, or that it was already undone */
+  note: string | null;
+  memory: ManifestationMemory | null;
+  related: ManifestationMemory | null;
+}
+
+/**
+ * GET /api/soul?action=diff — what approving a proposal will change
+ * (`preview`, from live associations), or what an executed one changed
+ * and undo would revert (`applied`, from the modification log)
+ */
+export interface ManifestationDiff {
+  id: string;
+  mode: "preview" | "applied";
+  action_type: string | null;
+  /** False when the bridge has no executor — approval only records it */
+  executable: boolean;
+  /** True when executing changed (or will change) associations that undo can revert */
+  undoable: boolean;
+  changes: ManifestationChange[];
+}
+
 // ============================================================
 // Memory Crystal (Materia) types
 // ============================================================
@@ -328,86 +742,47 @@ export interface DailyQuest {
 }
 
 // ============================================================
-// Agent fleet
+// Midas A/B pricing experiment types
 // ============================================================
 
-/** Known agent fleet (matches OpenClaw config) */
-export const KNOWN_AGENTS: Omit<AgentInfo, "status">[] = [
-  {
-    id: "main",
-    name: "Main Orchestrator",
-    workspace: "~/.openclaw/workspace",
-    tools: "full",
-    model: "ollama/kimi-k2.5:cloud",
-    skills: ["wallets"],
-  },
-  {
-    id: "akua",
-    name: "Akua (CRE/DTA/Solidity)",
-    workspace: "/home/manifest/akua",
-    tools: "coding",
-    model: "ollama/kimi-k2.5:cloud",
-  },
-  {
-    id: "basedintern",
-    name: "BasedIntern (Repo)",
-    workspace: "/home/manifest/basedintern",
-    tools: "coding",
-    model: "ollama/kimi-k2.5:cloud",
-  },
-  {
-    id: "briefing",
-    name: "Briefing (Context Curator)",
-    workspace: "/home/manifest/briefing",
-    tools: "coding",
-    model: "ollama/kimi-k2.5:cloud",
-  },
-  {
-    id: "oracle",
-    name: "Oracle (On-Chain Intel)",
-    workspace: "/home/manifest/oracle",
-    tools: "coding",
-    model: "ollama/kimi-k2.5:cloud",
-    skills: ["gas", "l2s"],
-  },
-  {
-    id: "alchemist",
-    name: "Alchemist (Tokenomics)",
-    workspace: "/home/manifest/alchemist",
-    tools: "coding",
-    model: "ollama/kimi-k2.5:cloud",
-    skills: ["gas", "addresses"],
-  },
-  {
-    id: "web3dev",
-    name: "Web3Dev (Blockchain)",
-    workspace: "/home/manifest/web3dev",
-    tools: "coding",
-    model: "ollama/kimi-k2.5:cloud",
-    skills: ["tools", "l2s", "orchestration", "addresses", "concepts", "security", "standards", "frontend-ux", "frontend-playbook", "building-blocks"],
-  },
-  {
-    id: "soul",
-    name: "Soul (Memory Orchestrator)",
-    workspace: "/home/manifest/soul",
-    tools: "coding",
-    model: "ollama/kimi-k2.5:cloud",
-    skills: ["recall", "dream", "inject"],
-  },
-  {
-    id: "midas",
-    name: "Midas (Revenue & Growth)",
-    workspace: "/home/manifest/midas",
-    tools: "coding",
-    model: "ollama/kimi-k2.5:cloud",
-    skills: ["revenue", "pricing", "growth", "forecast", "gas", "standards", "addresses", "concepts"],
-  },
-  {
-    id: "sentinel",
-    name: "Sentinel (Security & Monitoring)",
-    workspace: "/home/manifest/sentinel",
-    tools: "coding",
-    model: "ollama/kimi-k2.5:cloud",
-    skills: ["security", "monitoring", "alerts"],
-  },
-];
+/** One variant's totals over enrolled payers (pricing_experiment_variant_stats) */
+export interface PricingVariantStats {
+  variant: string;
+  price_usd: number;
+  is_active: boolean;
+  /** Payers pinned to this variant */
+  payers: number;
+  /** Payers who paid at least once */
+  converted_payers: number;
+  /** % of payers who converted */
+  conversion_rate: number;
+  impressions: number;
+  conversions: number;
+  revenue_usd: number;
+  revenue_per_payer: number;
+}
+
+/** A challenger compared with the control variant */
+export interface PricingVariantComparison {
+  variant: string;
+  /** Two-proportion z-test on payer conversion vs control */
+  conversion_p_value: number | null;
+  /** Welch test on revenue per payer vs control */
+  revenue_p_value: number | null;
+  /** Revenue per payer relative to control, % */
+  revenue_lift: number | null;
+}
+
+export interface PricingExperimentResult {
+  endpoint: string;
+  control: string;
+  variants: PricingVariantStats[];
+  comparisons: PricingVariantComparison[];
+  /** Every variant has the minimum payers for a verdict */
+  sample_ready: boolean;
+  /** Variant that earns significantly more per payer, or null while inconclusive */
+  winner: string | null;
+  /** Smallest revenue p-value behind the verdict */
+  p_value: number | null;
+  summary: string;
+}
@@ -53,7 +53,7 @@ const NOISE_PATTERNS: RegExp[] = [
   /^.*session file locked/,        // session file locked (timeout ...)
 ];
 
-function stripAnsi(input: string): string {
+export function stripAnsi(input: string): string {
   // Matches standard ANSI escape sequences (colors, cursor movement, etc.)
   return input.replace(/\x1B\[[0-?]*[ -/]*[@-~]/g, "");
 }
@@ -0,0 +1,16 @@
+-- ============================================================
+-- Migration: Durable command queue
+-- Priority + queue position on agent_commands so the bridge can
+-- schedule fairly and the dashboard can show "queued #N"
+-- ============================================================
+
+-- Higher priority runs first within an agent's queue (default 0)
+ALTER TABLE agent_commands ADD COLUMN IF NOT EXISTS priority integer NOT NULL DEFAULT 0;
+
+-- 1-based position in the agent's queue while pending; NULL once dispatched
+ALTER TABLE agent_commands ADD COLUMN IF NOT EXISTS queue_position integer;
+
+-- Startup recovery scans pending rows in priority/age order
+CREATE INDEX IF NOT EXISTS idx_commands_queue
+  ON agent_commands (priority DESC, created_at)
+  WHERE status = 'pending';
@@ -0,0 +1,8 @@
+-- ============================================================
+-- Migration: Swarm DAG mode
+-- Allow mode = 'dag' on swarm_runs (tasks with multi-parent depends_on)
+-- ============================================================
+
+ALTER TABLE swarm_runs DROP CONSTRAINT IF EXISTS swarm_runs_mode_check;
+ALTER TABLE swarm_runs ADD CONSTRAINT swarm_runs_mode_check
+  CHECK (mode IN ('parallel', 'pipeline', 'collaborative', 'dag'));
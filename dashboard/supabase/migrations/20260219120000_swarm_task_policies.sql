@@ -0,0 +1,7 @@
+-- ============================================================
+-- Migration: Swarm task policies
+-- Track retry attempts and fallback-agent reroutes per swarm task
+-- ============================================================
+
+ALTER TABLE swarm_tasks ADD COLUMN IF NOT EXISTS attempts integer NOT NULL DEFAULT 1;
+ALTER TABLE swarm_tasks ADD COLUMN IF NOT EXISTS fallback_from text;
@@ -0,0 +1,9 @@
+-- ============================================================
+-- Migration: Swarm resume
+-- Allow status = 'interrupted' on swarm_tasks (in flight when the
+-- bridge restarted; re-run when the swarm is resumed)
+-- ============================================================
+
+ALTER TABLE swarm_tasks DROP CONSTRAINT IF EXISTS swarm_tasks_status_check;
+ALTER TABLE swarm_tasks ADD CONSTRAINT swarm_tasks_status_check
+  CHECK (status IN ('pending', 'running', 'completed', 'failed', 'skipped', 'interrupted'));
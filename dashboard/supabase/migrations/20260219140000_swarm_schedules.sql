@@ -0,0 +1,78 @@
+-- ============================================================
+-- Migration: Scheduled swarm runs
+-- swarm_schedules      — cron schedules that launch a template
+-- swarm_schedule_runs  — one row per due occurrence (started,
+--                        skipped, queued, missed, error)
+-- swarm_runs.schedule_id links runs back to their schedule
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS swarm_schedules (
+  id              uuid        PRIMARY KEY DEFAULT gen_random_uuid(),
+  name            text        NOT NULL,
+  template        text        NOT NULL,                  -- filename in templates/swarms/
+  overrides       jsonb       NOT NULL DEFAULT '{}',     -- merged over the template manifest
+  cron            text        NOT NULL,                  -- 5-field cron expression
+  timezone        text        NOT NULL DEFAULT 'UTC',    -- IANA zone the cron is evaluated in
+  overlap_policy  text        NOT NULL DEFAULT 'skip'
+    CHECK (overlap_policy IN ('skip', 'queue')),
+  catch_up        boolean     NOT NULL DEFAULT false,    -- run the latest missed occurrence after downtime
+  enabled         boolean     NOT NULL DEFAULT true,
+  next_run_at     timestamptz,
+  last_run_at     timestamptz,
+  last_run_id     uuid        REFERENCES swarm_runs(id) ON DELETE SET NULL,
+  created_by      uuid        REFERENCES auth.users(id),
+  created_at      timestamptz NOT NULL DEFAULT now(),
+  updated_at      timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_swarm_schedules_due
+  ON swarm_schedules(next_run_at) WHERE enabled;
+
+DO $$ BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_trigger WHERE tgname = 'trg_swarm_schedules_updated_at'
+  ) THEN
+    CREATE TRIGGER trg_swarm_schedules_updated_at
+      BEFORE UPDATE ON swarm_schedules
+      FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS swarm_schedule_runs (
+  id             uuid        PRIMARY KEY DEFAULT gen_random_uuid(),
+  schedule_id    uuid        NOT NULL REFERENCES swarm_schedules(id) ON DELETE CASCADE,
+  scheduled_for  timestamptz NOT NULL,
+  outcome        text        NOT NULL
+    CHECK (outcome IN ('started', 'skipped', 'queued', 'missed', 'error')),
+  swarm_id       uuid        REFERENCES swarm_runs(id) ON DELETE SET NULL,
+  detail         text,
+  created_at     timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_swarm_schedule_runs_schedule
+  ON swarm_schedule_runs(schedule_id, scheduled_for DESC);
+
+ALTER TABLE swarm_runs ADD COLUMN IF NOT EXISTS schedule_id uuid
+  REFERENCES swarm_schedules(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_swarm_runs_schedule
+  ON swarm_runs(schedule_id, created_at DESC) WHERE schedule_id IS NOT NULL;
+
+-- RLS
+ALTER TABLE swarm_schedules     ENABLE ROW LEVEL SECURITY;
+ALTER TABLE swarm_schedule_runs ENABLE ROW LEVEL SECURITY;
+
+DO $$ BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies WHERE tablename = 'swarm_schedules' AND policyname = 'Authenticated users can manage swarm schedules'
+  ) THEN
+    CREATE POLICY "Authenticated users can manage swarm schedules"
+      ON swarm_schedules FOR ALL TO authenticated USING (true) WITH CHECK (true);
+  END IF;
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies WHERE tablename = 'swarm_schedule_runs' AND policyname = 'Authenticated users can read swarm schedule runs'
+  ) THEN
+    CREATE POLICY "Authenticated users can read swarm schedule runs"
+      ON swarm_schedule_runs FOR SELECT TO authenticated USING (true);
+  END IF;
+END $$;
@@ -0,0 +1,103 @@
+-- ============================================================
+-- Migration: Agent usage ledger + daily budgets
+-- agent_usage         — one row per agent process run (wall time,
+--                       exit code, tokens/cost parsed from output)
+-- agent_usage_daily   — per agent per day (UTC) aggregates
+-- swarm_usage         — per swarm run aggregates
+-- agent_budgets       — optional per-agent daily limits
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS agent_usage (
+  id             uuid        PRIMARY KEY DEFAULT gen_random_uuid(),
+  agent_id       text        NOT NULL,
+  source         text        NOT NULL DEFAULT 'command'
+    CHECK (source IN ('command', 'swarm')),
+  command_id     uuid        REFERENCES agent_commands(id) ON DELETE SET NULL,
+  swarm_id       uuid        REFERENCES swarm_runs(id) ON DELETE SET NULL,
+  swarm_task_id  uuid        REFERENCES swarm_tasks(id) ON DELETE SET NULL,
+  wall_ms        integer     NOT NULL,
+  exit_code      integer,
+  timed_out      boolean     NOT NULL DEFAULT false,
+  input_tokens   integer,
+  output_tokens  integer,
+  total_tokens   integer,
+  cost_usd       numeric(12, 6),
+  model          text,
+  created_at     timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_agent_usage_agent_created
+  ON agent_usage(agent_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_agent_usage_swarm
+  ON agent_usage(swarm_id) WHERE swarm_id IS NOT NULL;
+
+CREATE OR REPLACE VIEW agent_usage_daily AS
+SELECT
+  agent_id,
+  date_trunc('day', created_at)          AS day,
+  count(*)                               AS runs,
+  count(*) FILTER (WHERE exit_code <> 0) AS failed_runs,
+  sum(wall_ms)                           AS wall_ms,
+  coalesce(sum(total_tokens), 0)         AS total_tokens,
+  coalesce(sum(input_tokens), 0)         AS input_tokens,
+  coalesce(sum(output_tokens), 0)        AS output_tokens,
+  coalesce(sum(cost_usd), 0)             AS cost_usd
+FROM agent_usage
+GROUP BY agent_id, date_trunc('day', created_at)
+ORDER BY day DESC;
+
+CREATE OR REPLACE VIEW swarm_usage AS
+SELECT
+  swarm_id,
+  count(*)                       AS runs,
+  sum(wall_ms)                   AS wall_ms,
+  coalesce(sum(total_tokens), 0) AS total_tokens,
+  coalesce(sum(cost_usd), 0)     AS cost_usd,
+  max(created_at)                AS last_run_at
+FROM agent_usage
+WHERE swarm_id IS NOT NULL
+GROUP BY swarm_id;
+
+CREATE TABLE IF NOT EXISTS agent_budgets (
+  agent_id              text        PRIMARY KEY,
+  daily_token_limit     bigint,
+  daily_cost_limit_usd  numeric(12, 4),
+  daily_run_limit       integer,
+  over_budget_action    text        NOT NULL DEFAULT 'refuse'
+    CHECK (over_budget_action IN ('refuse', 'queue')),
+  updated_by            uuid        REFERENCES auth.users(id),
+  updated_at            timestamptz NOT NULL DEFAULT now()
+);
+
+DO $$ BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_trigger WHERE tgname = 'trg_agent_budgets_updated_at'
+  ) THEN
+    CREATE TRIGGER trg_agent_budgets_updated_at
+      BEFORE UPDATE ON agent_budgets
+      FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+  END IF;
+END $$;
+
+-- Realtime (usage panel refreshes on new ledger rows)
+ALTER PUBLICATION supabase_realtime ADD TABLE agent_usage;
+
+-- RLS
+ALTER TABLE agent_usage   ENABLE ROW LEVEL SECURITY;
+ALTER TABLE agent_budgets ENABLE ROW LEVEL SECURITY;
+
+DO $$ BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies WHERE tablename = 'agent_usage' AND policyname = 'Authenticated users can read agent usage'
+  ) THEN
+    CREATE POLICY "Authenticated users can read agent usage"
+      ON agent_usage FOR SELECT TO authenticated USING (true);
+  END IF;
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies WHERE tablename = 'agent_budgets' AND policyname = 'Authenticated users can manage agent budgets'
+  ) THEN
+    CREATE POLICY "Authenticated users can manage agent budgets"
+      ON agent_budgets FOR ALL TO authenticated USING (true) WITH CHECK (true);
+  END IF;
+END $$;
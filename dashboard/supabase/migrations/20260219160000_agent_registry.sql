@@ -0,0 +1,73 @@
+-- ============================================================
+-- Migration: Agent registry
+-- Single source of truth for the agent fleet. Replaces the
+-- hard-coded lists in the bridge (ALLOWED_AGENTS, FLEET_AGENTS,
+-- shutdown offline rows) and the dashboard (KNOWN_AGENTS).
+--   enabled = false  → retired: the bridge refuses to run it
+--   fleet   = false  → runnable but not listed on the fleet
+--                      (e.g. *_web companions)
+-- The bridge validates rows against ~/.openclaw/openclaw.json and
+-- writes any mismatches to config_issues.
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS agent_registry (
+  id             text        PRIMARY KEY
+    CHECK (id ~ '^[a-z0-9][a-z0-9_-]{0,63}$'),
+  name           text        NOT NULL,
+  model          text,
+  workspace      text,
+  tools          text        NOT NULL DEFAULT 'coding',
+  skills         text[]      NOT NULL DEFAULT '{}',
+  fleet          boolean     NOT NULL DEFAULT true,
+  enabled        boolean     NOT NULL DEFAULT true,
+  sort_order     integer     NOT NULL DEFAULT 100,
+  config_issues  text[]      NOT NULL DEFAULT '{}',
+  validated_at   timestamptz,
+  retired_at     timestamptz,
+  created_by     uuid        REFERENCES auth.users(id),
+  created_at     timestamptz NOT NULL DEFAULT now(),
+  updated_at     timestamptz NOT NULL DEFAULT now()
+);
+
+DO $$ BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_trigger WHERE tgname = 'trg_agent_registry_updated_at'
+  ) THEN
+    CREATE TRIGGER trg_agent_registry_updated_at
+      BEFORE UPDATE ON agent_registry
+      FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+  END IF;
+END $$;
+
+-- Seed with the fleet that was previously hard-coded
+INSERT INTO agent_registry (id, name, model, workspace, tools, skills, fleet, sort_order) VALUES
+  ('main',            'Main Orchestrator',               'ollama/kimi-k2.5:cloud', '~/.openclaw/workspace',      'full',   '{wallets}', true, 10),
+  ('akua',            'Akua (CRE/DTA/Solidity)',         'ollama/kimi-k2.5:cloud', '/home/manifest/akua',        'coding', '{}', true, 20),
+  ('basedintern',     'BasedIntern (Repo)',              'ollama/kimi-k2.5:cloud', '/home/manifest/basedintern', 'coding', '{}', true, 30),
+  ('briefing',        'Briefing (Context Curator)',      'ollama/kimi-k2.5:cloud', '/home/manifest/briefing',    'coding', '{}', true, 40),
+  ('oracle',          'Oracle (On-Chain Intel)',         'ollama/kimi-k2.5:cloud', '/home/manifest/oracle',      'coding', '{gas,l2s}', true, 50),
+  ('alchemist',       'Alchemist (Tokenomics)',          'ollama/kimi-k2.5:cloud', '/home/manifest/alchemist',   'coding', '{gas,addresses}', true, 60),
+  ('web3dev',         'Web3Dev (Blockchain)',            'ollama/kimi-k2.5:cloud', '/home/manifest/web3dev',     'coding',
+    '{tools,l2s,orchestration,addresses,concepts,security,standards,frontend-ux,frontend-playbook,building-blocks}', true, 70),
+  ('soul',            'Soul (Memory Orchestrator)',      'ollama/kimi-k2.5:cloud', '/home/manifest/soul',        'coding', '{recall,dream,inject}', true, 80),
+  ('midas',           'Midas (Revenue & Growth)',        'ollama/kimi-k2.5:cloud', '/home/manifest/midas',       'coding',
+    '{revenue,pricing,growth,forecast,gas,standards,addresses,concepts}', true, 90),
+  ('sentinel',        'Sentinel (Security & Monitoring)', 'ollama/kimi-k2.5:cloud', '/home/manifest/sentinel',   'coding', '{security,monitoring,alerts}', true, 100),
+  ('akua_web',        'Akua (Web)',                      'ollama/kimi-k2.5:cloud', '/home/manifest/akua',        'full',   '{}', false, 200),
+  ('basedintern_web', 'BasedIntern (Web)',               'ollama/kimi-k2.5:cloud', '/home/manifest/basedintern', 'full',   '{}', false, 210)
+ON CONFLICT (id) DO NOTHING;
+
+-- Realtime (bridge hot-reloads on change)
+ALTER PUBLICATION supabase_realtime ADD TABLE agent_registry;
+
+-- RLS
+ALTER TABLE agent_registry ENABLE ROW LEVEL SECURITY;
+
+DO $$ BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies WHERE tablename = 'agent_registry' AND policyname = 'Authenticated users can manage agent registry'
+  ) THEN
+    CREATE POLICY "Authenticated users can manage agent registry"
+      ON agent_registry FOR ALL TO authenticated USING (true) WITH CHECK (true);
+  END IF;
+END $$;
@@ -0,0 +1,85 @@
+-- ============================================================
+-- Migration: Sequenced response chunks + command transcripts
+-- agent_responses.seq numbers every chunk of a command (1, 2, 3…)
+-- so reconnecting clients can ask for "everything after seq N"
+-- and detect gaps. Once a command has finished, the bridge folds
+-- its chunks into a single command_transcripts row and deletes
+-- them — only the is_final marker row stays in agent_responses.
+-- ============================================================
+
+ALTER TABLE agent_responses ADD COLUMN IF NOT EXISTS seq integer;
+
+-- Backfill existing rows in insertion order
+UPDATE agent_responses r
+SET seq = n.rn
+FROM (
+  SELECT id, row_number() OVER (PARTITION BY command_id ORDER BY created_at, id) AS rn
+  FROM agent_responses
+) n
+WHERE r.id = n.id AND r.seq IS NULL;
+
+ALTER TABLE agent_responses ALTER COLUMN seq SET NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_responses_command_seq
+  ON agent_responses(command_id, seq);
+
+-- Assign seq on insert. The advisory lock serialises writers of the
+-- same command (streamer, executor, queue, intent tracker) so two
+-- concurrent inserts can't take the same number.
+CREATE OR REPLACE FUNCTION assign_response_seq()
+RETURNS trigger AS $$
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext(NEW.command_id::text));
+  SELECT GREATEST(
+    COALESCE((SELECT max(seq) FROM agent_responses WHERE command_id = NEW.command_id), 0),
+    COALESCE((SELECT last_seq FROM command_transcripts WHERE command_id = NEW.command_id), 0)
+  ) + 1
+  INTO NEW.seq;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================
+-- command_transcripts: compacted output of finished commands
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS command_transcripts (
+  command_id   uuid        PRIMARY KEY REFERENCES agent_commands(id) ON DELETE CASCADE,
+  content      text        NOT NULL DEFAULT '',
+  chunk_count  integer     NOT NULL DEFAULT 0,
+  last_seq     integer     NOT NULL DEFAULT 0,   -- highest chunk seq folded in
+  created_at   timestamptz NOT NULL DEFAULT now(),
+  updated_at   timestamptz NOT NULL DEFAULT now()
+);
+
+DO $$ BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_trigger WHERE tgname = 'trg_agent_responses_seq'
+  ) THEN
+    CREATE TRIGGER trg_agent_responses_seq
+      BEFORE INSERT ON agent_responses
+      FOR EACH ROW EXECUTE FUNCTION assign_response_seq();
+  END IF;
+END $$;
+
+DO $$ BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_trigger WHERE tgname = 'trg_command_transcripts_updated_at'
+  ) THEN
+    CREATE TRIGGER trg_command_transcripts_updated_at
+      BEFORE UPDATE ON command_transcripts
+      FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+  END IF;
+END $$;
+
+-- RLS
+ALTER TABLE command_transcripts ENABLE ROW LEVEL SECURITY;
+
+DO $$ BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies WHERE tablename = 'command_transcripts' AND policyname = 'Authenticated users can read transcripts'
+  ) THEN
+    CREATE POLICY "Authenticated users can read transcripts"
+      ON command_transcripts FOR SELECT TO authenticated USING (true);
+  END IF;
+END $$;
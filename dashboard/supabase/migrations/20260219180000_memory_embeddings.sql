@@ -0,0 +1,89 @@
+-- ============================================================
+-- Migration: Memory embeddings (semantic Soul retrieval)
+-- One pgvector embedding per agent_memory row, tagged with the
+-- model that produced it. Search only compares vectors from the
+-- current model; rows from another model (or whose content has
+-- changed since, see content_hash) are picked up by the bridge's
+-- embedding backfill.
+--   768 dimensions: nomic-embed-text (Ollama default) and the
+--   bridge's deterministic local fallback both emit 768-d vectors.
+-- ============================================================
+
+CREATE EXTENSION IF NOT EXISTS vector WITH SCHEMA extensions;
+
+CREATE TABLE IF NOT EXISTS memory_embeddings (
+  memory_id     uuid        PRIMARY KEY REFERENCES agent_memory(id) ON DELETE CASCADE,
+  provider      text        NOT NULL,                 -- ollama | local
+  model         text        NOT NULL,
+  embedding     extensions.vector(768) NOT NULL,
+  content_hash  text        NOT NULL,                 -- md5(agent_memory.content) when embedded
+  created_at    timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_memory_embeddings_model
+  ON memory_embeddings (model);
+
+CREATE INDEX IF NOT EXISTS idx_memory_embeddings_hnsw
+  ON memory_embeddings USING hnsw (embedding extensions.vector_cosine_ops);
+
+-- Nearest memories for a query vector (cosine similarity, 1 = identical),
+-- restricted to the given agents and skipping TTL-expired rows
+CREATE OR REPLACE FUNCTION match_agent_memory(
+  query_embedding extensions.vector(768),
+  match_model     text,
+  agent_ids       text[],
+  match_count     integer DEFAULT 50
+)
+RETURNS TABLE (
+  id          uuid,
+  agent_id    text,
+  kind        text,
+  content     text,
+  source      text,
+  ttl_hours   integer,
+  created_at  timestamptz,
+  similarity  double precision
+)
+LANGUAGE sql STABLE
+SET search_path = public, extensions
+AS $$
+  SELECT m.id, m.agent_id, m.kind, m.content, m.source, m.ttl_hours, m.created_at,
+         1 - (e.embedding <=> query_embedding) AS similarity
+  FROM memory_embeddings e
+  JOIN agent_memory m ON m.id = e.memory_id
+  WHERE e.model = match_model
+    AND m.agent_id = ANY(agent_ids)
+    AND (m.ttl_hours IS NULL OR m.created_at + make_interval(hours => m.ttl_hours) > now())
+  ORDER BY e.embedding <=> query_embedding
+  LIMIT match_count;
+$$;
+
+-- Memories with no embedding for the model, or edited since they were embedded
+CREATE OR REPLACE FUNCTION memories_needing_embedding(
+  match_model text,
+  batch_size  integer DEFAULT 50
+)
+RETURNS TABLE (id uuid, content text)
+LANGUAGE sql STABLE
+AS $$
+  SELECT m.id, m.content
+  FROM agent_memory m
+  LEFT JOIN memory_embeddings e ON e.memory_id = m.id
+  WHERE e.memory_id IS NULL
+     OR e.model <> match_model
+     OR e.content_hash <> md5(m.content)
+  ORDER BY m.created_at DESC
+  LIMIT batch_size;
+$$;
+
+-- RLS
+ALTER TABLE memory_embeddings ENABLE ROW LEVEL SECURITY;
+
+DO $$ BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies WHERE tablename = 'memory_embeddings' AND policyname = 'Authenticated users can read memory embeddings'
+  ) THEN
+    CREATE POLICY "Authenticated users can read memory embeddings"
+      ON memory_embeddings FOR SELECT TO authenticated USING (true);
+  END IF;
+END $$;
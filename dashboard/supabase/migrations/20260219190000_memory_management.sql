@@ -0,0 +1,76 @@
+-- ============================================================
+-- Migration: Memory management (dashboard memory explorer)
+--   - agent_memory.pinned: always a retrieval candidate, never decays
+--   - agent_memory.updated_at: edits from the dashboard
+--   - memory_queries.command_id: which command a context was injected into
+--   - agent_memory_explorer: memory + decay state in one filterable view
+-- ============================================================
+
+ALTER TABLE agent_memory ADD COLUMN IF NOT EXISTS pinned boolean NOT NULL DEFAULT false;
+ALTER TABLE agent_memory ADD COLUMN IF NOT EXISTS updated_at timestamptz NOT NULL DEFAULT now();
+
+CREATE INDEX IF NOT EXISTS idx_agent_memory_pinned
+  ON agent_memory (agent_id)
+  WHERE pinned;
+
+DO $$ BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_trigger WHERE tgname = 'agent_memory_updated_at'
+  ) THEN
+    CREATE TRIGGER agent_memory_updated_at
+      BEFORE UPDATE ON agent_memory
+      FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+  END IF;
+END $$;
+
+-- Dashboard edits and deletes go through the API (service role); make
+-- UPDATE explicit for authenticated clients alongside SELECT/INSERT
+DO $$ BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies WHERE tablename = 'agent_memory' AND policyname = 'Authenticated users can update agent memory'
+  ) THEN
+    CREATE POLICY "Authenticated users can update agent memory"
+      ON agent_memory FOR UPDATE TO authenticated USING (true) WITH CHECK (true);
+  END IF;
+END $$;
+
+-- ── Injection provenance ─────────────────────────────────────
+
+ALTER TABLE memory_queries
+  ADD COLUMN IF NOT EXISTS command_id uuid REFERENCES agent_commands(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_mq_command
+  ON memory_queries (command_id)
+  WHERE command_id IS NOT NULL;
+
+-- "Which commands was this memory injected into?" (retrieved_memory_ids @> {id})
+CREATE INDEX IF NOT EXISTS idx_mq_retrieved_ids
+  ON memory_queries USING gin (retrieved_memory_ids);
+
+-- ── Explorer view ────────────────────────────────────────────
+-- Memories without a memory_decay row yet (the decay pass hasn't
+-- scored them) show a null decay_score and count as not archived.
+
+CREATE OR REPLACE VIEW agent_memory_explorer
+WITH (security_invoker = true) AS
+SELECT
+  m.id,
+  m.agent_id,
+  m.kind,
+  m.content,
+  m.source,
+  m.ttl_hours,
+  m.pinned,
+  m.created_at,
+  m.updated_at,
+  (m.source = 'anchor')                 AS anchored,
+  COALESCE(d.is_archived, false)        AS archived,
+  d.archive_reason,
+  d.decay_score,
+  COALESCE(d.access_count, 0)           AS access_count,
+  d.last_accessed,
+  CASE WHEN m.ttl_hours IS NOT NULL
+    THEN m.created_at + make_interval(hours => m.ttl_hours)
+  END                                   AS expires_at
+FROM agent_memory m
+LEFT JOIN memory_decay d ON d.memory_id = m.id;
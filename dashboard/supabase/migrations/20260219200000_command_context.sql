@@ -0,0 +1,57 @@
+-- ============================================================
+-- Migration: Context injection provenance
+--   - command_context: exactly what buildSoulContext prepended to a
+--     command (memory / insight / prediction IDs, character budget)
+--   - feedback: thumbs up/down from the dashboard; the bridge applies
+--     it to memory_associations + predictive_contexts and stamps
+--     feedback_applied_at
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS command_context (
+  command_id          uuid PRIMARY KEY REFERENCES agent_commands(id) ON DELETE CASCADE,
+  agent_id            text        NOT NULL,
+  task_keywords       text[]      NOT NULL DEFAULT '{}',
+  memory_ids          uuid[]      NOT NULL DEFAULT '{}',
+  memory_relevance    real[]      NOT NULL DEFAULT '{}',   -- parallel to memory_ids
+  insight_ids         uuid[]      NOT NULL DEFAULT '{}',
+  prediction_ids      uuid[]      NOT NULL DEFAULT '{}',
+  anchor_included     boolean     NOT NULL DEFAULT false,
+  chars_used          integer     NOT NULL DEFAULT 0,
+  char_budget         integer     NOT NULL,
+  feedback            text        CHECK (feedback IN ('up', 'down')),
+  feedback_at         timestamptz,
+  feedback_applied_at timestamptz,
+  created_at          timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_command_context_agent
+  ON command_context (agent_id, created_at DESC);
+
+-- Feedback the bridge hasn't applied yet (picked up again on restart)
+CREATE INDEX IF NOT EXISTS idx_command_context_feedback_pending
+  ON command_context (feedback_at)
+  WHERE feedback IS NOT NULL AND feedback_applied_at IS NULL;
+
+-- Realtime (bridge applies feedback as it arrives)
+ALTER PUBLICATION supabase_realtime ADD TABLE command_context;
+
+-- RLS
+ALTER TABLE command_context ENABLE ROW LEVEL SECURITY;
+
+DO $$ BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies WHERE tablename = 'command_context' AND policyname = 'Authenticated users can read command context'
+  ) THEN
+    CREATE POLICY "Authenticated users can read command context"
+      ON command_context FOR SELECT TO authenticated USING (true);
+  END IF;
+END $$;
+
+DO $$ BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies WHERE tablename = 'command_context' AND policyname = 'Authenticated users can leave context feedback'
+  ) THEN
+    CREATE POLICY "Authenticated users can leave context feedback"
+      ON command_context FOR UPDATE TO authenticated USING (true) WITH CHECK (true);
+  END IF;
+END $$;
@@ -0,0 +1,14 @@
+-- ============================================================
+-- Migration: Structured dream insights
+--   - evidence / counter-evidence memory IDs + confidence rationale
+--     (filled by LLM consolidation; heuristics cite every source memory)
+--   - generator: 'heuristic' or 'llm:<model>'
+-- ============================================================
+
+ALTER TABLE dream_insights ADD COLUMN IF NOT EXISTS evidence_memory_ids uuid[] NOT NULL DEFAULT '{}';
+ALTER TABLE dream_insights ADD COLUMN IF NOT EXISTS counter_evidence_ids uuid[] NOT NULL DEFAULT '{}';
+ALTER TABLE dream_insights ADD COLUMN IF NOT EXISTS confidence_rationale text;
+ALTER TABLE dream_insights ADD COLUMN IF NOT EXISTS generator text NOT NULL DEFAULT 'heuristic';
+
+CREATE INDEX IF NOT EXISTS idx_dream_insights_generator
+  ON dream_insights (generator, generated_at DESC);
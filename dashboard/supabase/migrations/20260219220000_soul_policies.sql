@@ -0,0 +1,58 @@
+-- ============================================================
+-- Migration: Per-agent Soul policies
+--   - soul_policies: how Soul curates context for each agent
+--   - '_default' applies to every agent; an agent's own row
+--     overrides it field by field (NULL = inherit)
+--   - Hot-reloaded by the bridge via Realtime
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS soul_policies (
+  agent_id             text        PRIMARY KEY,
+  -- Memories injected per command
+  max_memories         integer     CHECK (max_memories BETWEEN 0 AND 50),
+  -- Character budget for the whole context block
+  max_context_chars    integer     CHECK (max_context_chars BETWEEN 0 AND 20000),
+  -- Include `_shared` memories alongside the agent's own
+  include_shared       boolean,
+  excluded_kinds       text[],
+  excluded_sources     text[],
+  -- Dream insight categories to inject ('{}' = none)
+  insight_categories   text[],
+  -- Inject matching predictive contexts as [predicted] lines
+  predictive_injection boolean,
+  updated_by           uuid        REFERENCES auth.users(id),
+  updated_at           timestamptz NOT NULL DEFAULT now()
+);
+
+DO $$ BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_trigger WHERE tgname = 'trg_soul_policies_updated_at'
+  ) THEN
+    CREATE TRIGGER trg_soul_policies_updated_at
+      BEFORE UPDATE ON soul_policies
+      FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+  END IF;
+END $$;
+
+-- Fleet-wide defaults (matches the bridge's DEFAULT_CONFIG); predictions
+-- are learned from main's command history, so main gets them injected
+INSERT INTO soul_policies (agent_id, max_memories, max_context_chars, include_shared, excluded_kinds, excluded_sources, insight_categories, predictive_injection)
+VALUES
+  ('_default', 10, 3000, true, '{}', '{}', '{pattern,recommendation,summary,correction}', false),
+  ('main', NULL, NULL, NULL, NULL, NULL, NULL, true)
+ON CONFLICT (agent_id) DO NOTHING;
+
+-- Realtime (bridge hot-reloads on change)
+ALTER PUBLICATION supabase_realtime ADD TABLE soul_policies;
+
+-- RLS
+ALTER TABLE soul_policies ENABLE ROW LEVEL SECURITY;
+
+DO $$ BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies WHERE tablename = 'soul_policies' AND policyname = 'Authenticated users can manage soul policies'
+  ) THEN
+    CREATE POLICY "Authenticated users can manage soul policies"
+      ON soul_policies FOR ALL TO authenticated USING (true) WITH CHECK (true);
+  END IF;
+END $$;
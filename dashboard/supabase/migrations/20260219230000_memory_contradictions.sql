@@ -0,0 +1,66 @@
+-- ============================================================
+-- Migration: Memory contradiction queue
+--   - memory_contradictions: fact/goal pairs that claim different
+--     values for the same subject (found on write and during dreams)
+--   - Each open pair has a low-confidence `correction` dream insight
+--     (below the 0.4 injection threshold) as its candidate
+--   - The dashboard picks a winner (or dismisses); the bridge archives
+--     the loser in memory_decay, firms up the correction and stamps
+--     applied_at
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS memory_contradictions (
+  id             uuid        PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- memory_a is the older memory, memory_b the newer one
+  memory_a_id    uuid        NOT NULL REFERENCES agent_memory(id) ON DELETE CASCADE,
+  memory_b_id    uuid        NOT NULL REFERENCES agent_memory(id) ON DELETE CASCADE,
+  kind           text        NOT NULL CHECK (kind IN ('fact', 'goal')),
+  subject        text        NOT NULL,
+  value_a        text        NOT NULL,
+  value_b        text        NOT NULL,
+  detected_by    text        NOT NULL DEFAULT 'write' CHECK (detected_by IN ('write', 'dream')),
+  insight_id     uuid        REFERENCES dream_insights(id) ON DELETE SET NULL,
+  status         text        NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'resolved', 'dismissed')),
+  winner_id      uuid        REFERENCES agent_memory(id) ON DELETE SET NULL,
+  resolved_by    uuid        REFERENCES auth.users(id),
+  resolved_at    timestamptz,
+  -- Set by the bridge once the loser is archived / the candidate settled
+  applied_at     timestamptz,
+  created_at     timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (memory_a_id, memory_b_id),
+  CHECK (memory_a_id <> memory_b_id),
+  CHECK (winner_id IS NULL OR winner_id IN (memory_a_id, memory_b_id))
+);
+
+CREATE INDEX IF NOT EXISTS idx_memory_contradictions_open
+  ON memory_contradictions (created_at DESC)
+  WHERE status = 'open';
+
+-- Resolutions the bridge hasn't applied yet (picked up again on restart)
+CREATE INDEX IF NOT EXISTS idx_memory_contradictions_pending
+  ON memory_contradictions (resolved_at)
+  WHERE status <> 'open' AND applied_at IS NULL;
+
+-- Realtime (queue updates live; the bridge applies resolutions as they arrive)
+ALTER PUBLICATION supabase_realtime ADD TABLE memory_contradictions;
+
+-- RLS
+ALTER TABLE memory_contradictions ENABLE ROW LEVEL SECURITY;
+
+DO $$ BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies WHERE tablename = 'memory_contradictions' AND policyname = 'Authenticated users can read memory contradictions'
+  ) THEN
+    CREATE POLICY "Authenticated users can read memory contradictions"
+      ON memory_contradictions FOR SELECT TO authenticated USING (true);
+  END IF;
+END $$;
+
+DO $$ BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies WHERE tablename = 'memory_contradictions' AND policyname = 'Authenticated users can resolve memory contradictions'
+  ) THEN
+    CREATE POLICY "Authenticated users can resolve memory contradictions"
+      ON memory_contradictions FOR UPDATE TO authenticated USING (true) WITH CHECK (true);
+  END IF;
+END $$;
@@ -0,0 +1,95 @@
+-- ============================================================
+-- Migration: Lucid dream review & undo
+--   - soul_lucid_policies: per-category auto-execute switch and
+--     confidence threshold (replaces the hard-coded 0.8 gate)
+--   - Dashboard approvals are executed by the bridge, which stamps
+--     executed_at / execution_result
+--   - Executed association changes can be undone: the dashboard sets
+--     undo_requested_at, the bridge replays soul_association_modifications
+--     in reverse (restore strengths/types, delete created links) and
+--     marks the manifestation 'undone'
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS soul_lucid_policies (
+  category        text        PRIMARY KEY CHECK (category IN (
+    'fusion', 'association', 'pricing', 'skill', 'meeting', 'pattern', 'correction'
+  )),
+  -- Execute high-confidence proposals of this category without approval
+  auto_execute    boolean     NOT NULL DEFAULT false,
+  min_confidence  float       NOT NULL DEFAULT 0.8 CHECK (min_confidence >= 0 AND min_confidence <= 1),
+  updated_by      uuid        REFERENCES auth.users(id),
+  updated_at      timestamptz NOT NULL DEFAULT now()
+);
+
+DO $$ BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_trigger WHERE tgname = 'trg_soul_lucid_policies_updated_at'
+  ) THEN
+    CREATE TRIGGER trg_soul_lucid_policies_updated_at
+      BEFORE UPDATE ON soul_lucid_policies
+      FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+  END IF;
+END $$;
+
+-- Matches the bridge's previous AUTO_EXEC_CATEGORIES / AUTO_EXEC_THRESHOLD
+INSERT INTO soul_lucid_policies (category, auto_execute, min_confidence)
+VALUES
+  ('association', true,  0.8),
+  ('pattern',     true,  0.8),
+  ('fusion',      false, 0.8),
+  ('pricing',     false, 0.8),
+  ('skill',       false, 0.8),
+  ('meeting',     false, 0.8),
+  ('correction',  false, 0.8)
+ON CONFLICT (category) DO NOTHING;
+
+-- ── Undo bookkeeping ──
+ALTER TABLE soul_dream_manifestations
+  ADD COLUMN IF NOT EXISTS undo_requested_at timestamptz,
+  ADD COLUMN IF NOT EXISTS undo_requested_by uuid REFERENCES auth.users(id),
+  ADD COLUMN IF NOT EXISTS undone_at         timestamptz,
+  ADD COLUMN IF NOT EXISTS undo_result       jsonb;
+
+ALTER TABLE soul_dream_manifestations
+  DROP CONSTRAINT IF EXISTS soul_dream_manifestations_status_check;
+ALTER TABLE soul_dream_manifestations
+  ADD CONSTRAINT soul_dream_manifestations_status_check CHECK (status IN (
+    'proposed', 'approved', 'rejected', 'executed', 'auto_executed', 'expired', 'undone'
+  ));
+
+-- Set when the change was reverted (a log row is only undone once)
+ALTER TABLE soul_association_modifications
+  ADD COLUMN IF NOT EXISTS undone_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_association_modifications_manifestation
+  ON soul_association_modifications (manifestation_id);
+
+-- Approvals / undo requests the bridge hasn't applied yet (picked up again on restart)
+CREATE INDEX IF NOT EXISTS idx_manifestations_pending_review
+  ON soul_dream_manifestations (approved_at)
+  WHERE (status = 'approved' AND execution_result IS NULL)
+     OR (undo_requested_at IS NOT NULL AND undone_at IS NULL);
+
+-- Realtime (the bridge executes approvals and undos as they arrive)
+ALTER PUBLICATION supabase_realtime ADD TABLE soul_dream_manifestations;
+
+-- RLS
+ALTER TABLE soul_lucid_policies ENABLE ROW LEVEL SECURITY;
+
+DO $$ BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies WHERE tablename = 'soul_lucid_policies' AND policyname = 'Authenticated users can manage lucid policies'
+  ) THEN
+    CREATE POLICY "Authenticated users can manage lucid policies"
+      ON soul_lucid_policies FOR ALL TO authenticated USING (true) WITH CHECK (true);
+  END IF;
+END $$;
+
+DO $$ BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies WHERE tablename = 'soul_dream_manifestations' AND policyname = 'Authenticated users can review manifestations'
+  ) THEN
+    CREATE POLICY "Authenticated users can review manifestations"
+      ON soul_dream_manifestations FOR UPDATE TO authenticated USING (true) WITH CHECK (true);
+  END IF;
+END $$;
@@ -0,0 +1,115 @@
+-- ============================================================
+-- Migration: Real A/B pricing experiments
+--   - pricing_experiment_assignments: sticky per-payer variant,
+--     assigned when the payer is first shown a 402 challenge
+--   - record_pricing_experiment_event(): impressions (402 served at
+--     the variant price) and conversions (payment settled), counted
+--     atomically on the assignment and on pricing_experiments
+--   - pricing_experiment_variant_stats: per-variant payer totals
+--   - Counters gathered before this were all post-payment random
+--     draws (every impression "converted") — reset them
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS pricing_experiment_assignments (
+  endpoint_path   text          NOT NULL,
+  -- Lower-cased X-Caller-Address the variant is pinned to
+  payer           text          NOT NULL,
+  variant_name    text          NOT NULL,
+  price_usd       decimal(18,6) NOT NULL,
+  impressions     int           NOT NULL DEFAULT 0,
+  conversions     int           NOT NULL DEFAULT 0,
+  revenue_usd     decimal(18,6) NOT NULL DEFAULT 0,
+  assigned_at     timestamptz   NOT NULL DEFAULT now(),
+  last_seen_at    timestamptz   NOT NULL DEFAULT now(),
+  converted_at    timestamptz,
+  PRIMARY KEY (endpoint_path, payer)
+);
+
+CREATE INDEX IF NOT EXISTS idx_pricing_assignments_variant
+  ON pricing_experiment_assignments (endpoint_path, variant_name);
+
+-- One event, counted on the payer's assignment and the variant's totals
+CREATE OR REPLACE FUNCTION record_pricing_experiment_event(
+  p_endpoint   text,
+  p_variant    text,
+  p_payer      text,
+  p_price_usd  numeric,
+  p_event      text,      -- 'impression' | 'conversion'
+  p_amount_usd numeric DEFAULT 0
+) RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  is_conversion boolean := p_event = 'conversion';
+BEGIN
+  IF p_event NOT IN ('impression', 'conversion') THEN
+    RAISE EXCEPTION 'unknown pricing experiment event: %', p_event;
+  END IF;
+
+  INSERT INTO pricing_experiment_assignments AS a
+    (endpoint_path, payer, variant_name, price_usd, impressions, conversions, revenue_usd, converted_at)
+  VALUES (
+    p_endpoint, p_payer, p_variant, p_price_usd,
+    CASE WHEN is_conversion THEN 0 ELSE 1 END,
+    CASE WHEN is_conversion THEN 1 ELSE 0 END,
+    CASE WHEN is_conversion THEN p_amount_usd ELSE 0 END,
+    CASE WHEN is_conversion THEN now() END
+  )
+  ON CONFLICT (endpoint_path, payer) DO UPDATE SET
+    impressions  = a.impressions + CASE WHEN is_conversion THEN 0 ELSE 1 END,
+    conversions  = a.conversions + CASE WHEN is_conversion THEN 1 ELSE 0 END,
+    revenue_usd  = a.revenue_usd + CASE WHEN is_conversion THEN p_amount_usd ELSE 0 END,
+    converted_at = COALESCE(a.converted_at, CASE WHEN is_conversion THEN now() END),
+    last_seen_at = now();
+
+  UPDATE pricing_experiments e SET
+    impressions = e.impressions + CASE WHEN is_conversion THEN 0 ELSE 1 END,
+    conversions = e.conversions + CASE WHEN is_conversion THEN 1 ELSE 0 END,
+    revenue_usd = e.revenue_usd + CASE WHEN is_conversion THEN p_amount_usd ELSE 0 END,
+    conversion_rate = LEAST(100, CASE
+      WHEN e.impressions + CASE WHEN is_conversion THEN 0 ELSE 1 END > 0
+      THEN (e.conversions + CASE WHEN is_conversion THEN 1 ELSE 0 END)::decimal * 100
+           / (e.impressions + CASE WHEN is_conversion THEN 0 ELSE 1 END)
+      ELSE 0 END),
+    avg_revenue_per_impression = CASE
+      WHEN e.impressions + CASE WHEN is_conversion THEN 0 ELSE 1 END > 0
+      THEN (e.revenue_usd + CASE WHEN is_conversion THEN p_amount_usd ELSE 0 END)
+           / (e.impressions + CASE WHEN is_conversion THEN 0 ELSE 1 END)
+      ELSE 0 END,
+    updated_at = now()
+  WHERE e.endpoint_path = p_endpoint AND e.variant_name = p_variant;
+END $$;
+
+-- Per-variant totals over payers (the experiment unit) — what the
+-- significance tests in analyzePricing and /api/midas read
+CREATE OR REPLACE VIEW pricing_experiment_variant_stats AS
+SELECT
+  endpoint_path,
+  variant_name,
+  count(*)::int                                AS payers,
+  (count(*) FILTER (WHERE conversions > 0))::int AS converted_payers,
+  sum(impressions)::int                        AS impressions,
+  sum(conversions)::int                        AS conversions,
+  sum(revenue_usd)                             AS revenue_usd,
+  sum(revenue_usd * revenue_usd)               AS revenue_sq_usd
+FROM pricing_experiment_assignments
+GROUP BY endpoint_path, variant_name;
+
+-- Start every experiment over with honest counters
+UPDATE pricing_experiments SET
+  impressions = 0,
+  conversions = 0,
+  revenue_usd = 0,
+  conversion_rate = 0,
+  avg_revenue_per_impression = 0,
+  started_at = now(),
+  updated_at = now();
+
+-- RLS
+ALTER TABLE pricing_experiment_assignments ENABLE ROW LEVEL SECURITY;
+
+DO $$ BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE policyname = 'pricing_experiment_assignments_select') THEN
+    CREATE POLICY pricing_experiment_assignments_select ON pricing_experiment_assignments FOR SELECT USING (true);
+  END IF;
+END $$;
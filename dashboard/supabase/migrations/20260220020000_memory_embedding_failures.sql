@@ -0,0 +1,82 @@
+-- ============================================================
+-- Migration: Embedding backfill failures
+-- A memory the embedding model keeps rejecting used to stay at the
+-- head of memories_needing_embedding, so every backfill pass stopped
+-- on it and nothing behind it got embedded.
+--   - memory_embedding_failures: attempts per row, for the model and
+--     content that failed (an edit or model switch starts over)
+--   - memories_needing_embedding(): skips rows that have failed
+--     max_attempts times, and rows already tried in this pass
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS memory_embedding_failures (
+  memory_id        uuid        PRIMARY KEY REFERENCES agent_memory(id) ON DELETE CASCADE,
+  model            text        NOT NULL,
+  content_hash     text        NOT NULL,                 -- md5(agent_memory.content) that failed
+  attempts         integer     NOT NULL DEFAULT 1,
+  last_error       text,
+  last_attempt_at  timestamptz NOT NULL DEFAULT now()
+);
+
+-- Count one failed attempt; a different model or content resets the count
+CREATE OR REPLACE FUNCTION record_embedding_failure(
+  p_memory_id    uuid,
+  p_model        text,
+  p_content_hash text,
+  p_error        text
+) RETURNS integer
+LANGUAGE sql
+AS $$
+  INSERT INTO memory_embedding_failures AS f (memory_id, model, content_hash, attempts, last_error)
+  VALUES (p_memory_id, p_model, p_content_hash, 1, left(p_error, 500))
+  ON CONFLICT (memory_id) DO UPDATE SET
+    attempts = CASE
+      WHEN f.model = EXCLUDED.model AND f.content_hash = EXCLUDED.content_hash THEN f.attempts + 1
+      ELSE 1 END,
+    model           = EXCLUDED.model,
+    content_hash    = EXCLUDED.content_hash,
+    last_error      = EXCLUDED.last_error,
+    last_attempt_at = now()
+  RETURNING attempts;
+$$;
+
+DROP FUNCTION IF EXISTS memories_needing_embedding(text, integer);
+
+-- Memories with no embedding for the model, or edited since they were
+-- embedded — minus rows given up on and rows this pass already tried
+CREATE OR REPLACE FUNCTION memories_needing_embedding(
+  match_model  text,
+  batch_size   integer DEFAULT 50,
+  max_attempts integer DEFAULT 5,
+  skip_ids     uuid[]  DEFAULT '{}'
+)
+RETURNS TABLE (id uuid, content text)
+LANGUAGE sql STABLE
+AS $$
+  SELECT m.id, m.content
+  FROM agent_memory m
+  LEFT JOIN memory_embeddings e ON e.memory_id = m.id
+  LEFT JOIN memory_embedding_failures f
+    ON f.memory_id = m.id
+   AND f.model = match_model
+   AND f.content_hash = md5(m.content)
+  WHERE (e.memory_id IS NULL
+     OR e.model <> match_model
+     OR e.content_hash <> md5(m.content))
+    AND COALESCE(f.attempts, 0) < max_attempts
+    AND NOT (m.id = ANY(skip_ids))
+  ORDER BY m.created_at DESC
+  LIMIT batch_size;
+$$;
+
+-- RLS
+ALTER TABLE memory_embedding_failures ENABLE ROW LEVEL SECURITY;
+
+DO $$ BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies WHERE tablename = 'memory_embedding_failures' AND policyname = 'Authenticated users can read memory embedding failures'
+  ) THEN
+    CREATE POLICY "Authenticated users can read memory embedding failures"
+      ON memory_embedding_failures FOR SELECT TO authenticated USING (true);
+  END IF;
+END $$;
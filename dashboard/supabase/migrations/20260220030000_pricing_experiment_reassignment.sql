@@ -0,0 +1,69 @@
+-- ============================================================
+-- Migration: Re-pinned pricing experiment payers
+-- When a payer's variant stops running they're pinned to another one,
+-- but record_pricing_experiment_event() kept adding their new events
+-- to the assignment row labelled with the old variant and price.
+--   - An event for a different variant now resets the row: new
+--     variant, price and assigned_at, counters start from this event
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION record_pricing_experiment_event(
+  p_endpoint   text,
+  p_variant    text,
+  p_payer      text,
+  p_price_usd  numeric,
+  p_event      text,      -- 'impression' | 'conversion'
+  p_amount_usd numeric DEFAULT 0
+) RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  is_conversion boolean := p_event = 'conversion';
+BEGIN
+  IF p_event NOT IN ('impression', 'conversion') THEN
+    RAISE EXCEPTION 'unknown pricing experiment event: %', p_event;
+  END IF;
+
+  INSERT INTO pricing_experiment_assignments AS a
+    (endpoint_path, payer, variant_name, price_usd, impressions, conversions, revenue_usd, converted_at)
+  VALUES (
+    p_endpoint, p_payer, p_variant, p_price_usd,
+    CASE WHEN is_conversion THEN 0 ELSE 1 END,
+    CASE WHEN is_conversion THEN 1 ELSE 0 END,
+    CASE WHEN is_conversion THEN p_amount_usd ELSE 0 END,
+    CASE WHEN is_conversion THEN now() END
+  )
+  ON CONFLICT (endpoint_path, payer) DO UPDATE SET
+    -- Same variant: accumulate. Re-pinned: the row starts over as this event
+    impressions  = CASE WHEN a.variant_name = EXCLUDED.variant_name
+                        THEN a.impressions + EXCLUDED.impressions ELSE EXCLUDED.impressions END,
+    conversions  = CASE WHEN a.variant_name = EXCLUDED.variant_name
+                        THEN a.conversions + EXCLUDED.conversions ELSE EXCLUDED.conversions END,
+    revenue_usd  = CASE WHEN a.variant_name = EXCLUDED.variant_name
+                        THEN a.revenue_usd + EXCLUDED.revenue_usd ELSE EXCLUDED.revenue_usd END,
+    converted_at = CASE WHEN a.variant_name = EXCLUDED.variant_name
+                        THEN COALESCE(a.converted_at, EXCLUDED.converted_at) ELSE EXCLUDED.converted_at END,
+    price_usd    = CASE WHEN a.variant_name = EXCLUDED.variant_name
+                        THEN a.price_usd ELSE EXCLUDED.price_usd END,
+    assigned_at  = CASE WHEN a.variant_name = EXCLUDED.variant_name
+                        THEN a.assigned_at ELSE now() END,
+    variant_name = EXCLUDED.variant_name,
+    last_seen_at = now();
+
+  UPDATE pricing_experiments e SET
+    impressions = e.impressions + CASE WHEN is_conversion THEN 0 ELSE 1 END,
+    conversions = e.conversions + CASE WHEN is_conversion THEN 1 ELSE 0 END,
+    revenue_usd = e.revenue_usd + CASE WHEN is_conversion THEN p_amount_usd ELSE 0 END,
+    conversion_rate = LEAST(100, CASE
+      WHEN e.impressions + CASE WHEN is_conversion THEN 0 ELSE 1 END > 0
+      THEN (e.conversions + CASE WHEN is_conversion THEN 1 ELSE 0 END)::decimal * 100
+           / (e.impressions + CASE WHEN is_conversion THEN 0 ELSE 1 END)
+      ELSE 0 END),
+    avg_revenue_per_impression = CASE
+      WHEN e.impressions + CASE WHEN is_conversion THEN 0 ELSE 1 END > 0
+      THEN (e.revenue_usd + CASE WHEN is_conversion THEN p_amount_usd ELSE 0 END)
+           / (e.impressions + CASE WHEN is_conversion THEN 0 ELSE 1 END)
+      ELSE 0 END,
+    updated_at = now()
+  WHERE e.endpoint_path = p_endpoint AND e.variant_name = p_variant;
+END $$;
@@ -29,6 +29,7 @@ import { base } from "viem/chains";
 /* ── Config ──────────────────────────────────────────────────── */
 
 const BASE_RPC = process.env.BASE_RPC_URL || "https://base-mainnet.g.alchemy.com/v2/bHdHyC4tCZcSjdNYDPRQs";
+const DEFILLAMA_API = process.env.DEFILLAMA_API_URL || "https://api.llama.fi";
 
 const viemClient: PublicClient = createPublicClient({
   chain: base,
@@ -517,7 +518,7 @@ async function fetchGovernanceSignals(lookbackBlocks: number = 5000): Promise<Go
 
   // Supplement with DeFi Llama governance data for broader coverage
   try {
-    const resp = await fetch("https://api.llama.fi/lite/protocols", { signal: AbortSignal.timeout(5000) });
+    const resp = await fetch(`${DEFILLAMA_API}/lite/protocols`, { signal: AbortSignal.timeout(5000) });
     if (resp.ok) {
       const protocols = await resp.json() as Array<{ name: string; chain: string; tvl: number; governanceID?: string[] }>;
       const baseProtocols = protocols
@@ -0,0 +1,352 @@
+/**
+ * x402 end-to-end suite — `npm run test:e2e`
+ *
+ * Pays every gated route without spending USDC: starts the local
+ * facilitator (local-facilitator.ts) on a fresh in-memory ledger, boots
+ * index.ts against it (FACILITATOR_URL, Base Sepolia, no Supabase) and
+ * walks each route in gated-routes.ts through the full cycle:
+ *
+ *   request → 402 (amount = the route's price, or its trade quote)
+ *           → sign an EIP-3009 authorization with a fresh funded wallet
+ *           → retry → 2xx + PAYMENT-RESPONSE, and exactly that amount
+ *             moved from the wallet to payTo on the ledger
+ *
+ * Then the failure paths: a replayed payment and an unfunded wallet are
+ * refused and move nothing.
+ *
+ * Upstreams are stubbed too: BASE_RPC_URL, the DefiLlama URLs and
+ * OPENAI_BASE_URL point at a local server (an empty chain whose contract
+ * reads revert, so prices come from the oracle's static fallback, and
+ * canned Whisper / TTS answers for the voice routes), and no Supabase.
+ * A handler that still answers 5xx gets no settlement, which is checked,
+ * and is reported as "handler error"; any 4xx after paying fails the run.
+ */
+
+import assert from "node:assert/strict";
+import { spawn } from "node:child_process";
+import { createServer, type AddressInfo } from "node:net";
+import { fileURLToPath } from "node:url";
+import { dirname } from "node:path";
+import type { Server } from "node:http";
+import express from "express";
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
+import { x402Client, x402HTTPClient } from "@x402/core/client";
+import { registerExactEvmScheme } from "@x402/evm/exact/client";
+import type { Network } from "@x402/core/types";
+import { buildGatedRoutes } from "./gated-routes.js";
+import { isQuotedEndpoint } from "./trade-quotes.js";
+import { UsdcLedger, createLocalFacilitator, formatUnitsUsd } from "./local-facilitator.js";
+
+const NETWORK: Network = "eip155:84532";
+const PAY_TO = "0x00000000000000000000000000000000000e2e01";
+const REQUEST_TIMEOUT_MS = 60_000;
+
+/** A request that passes each route's input validation */
+const SAMPLES: Record<string, { query?: string; body?: unknown }> = {
+  "POST /agent-task": { body: { agent: "main", message: "e2e: report status" } },
+  "POST /intent": { body: { goal: "e2e: summarize fleet health" } },
+  "GET /fleet-status": {},
+  "POST /swarm": { body: { mode: "parallel", tasks: [{ agent: "main", message: "e2e" }] } },
+  "POST /memory-crystal": { body: { query: "e2e" } },
+  "POST /neural-swarm": { body: { goal: "e2e: plan a test run" } },
+  "POST /fusion-chamber": { body: { memoryIds: ["e2e-a", "e2e-b"] } },
+  "POST /cosmos-explore": { body: { region: "city", depth: 1 } },
+  "POST /voice/transcribe": { body: new TextEncoder().encode("RIFF") },
+  "POST /voice/synthesize": { body: { text: "e2e" } },
+  "POST /execute-trade": { body: { tokenIn: "USDC", tokenOut: "WETH", amountIn: "100" } },
+  "POST /rebalance-portfolio": {
+    body: { walletAddress: PAY_TO, targetAllocation: { USDC: 50, WETH: 50 } },
+  },
+  "GET /arb-opportunity": { query: "tokenA=USDC&tokenB=WETH" },
+  "POST /execute-arb": { body: { tokenA: "USDC", tokenB: "WETH", amountIn: "100", expectedProfitUsd: "25" } },
+  "GET /yield-optimize": { query: "token=USDC&amount=1000" },
+  "POST /deploy-yield-strategy": { body: { protocol: "Aave V3", token: "USDC", amount: "300" } },
+  "GET /whale-alert": {},
+  "GET /liquidation-signal": {},
+  "GET /arb-detection": {},
+  "GET /governance-signal": {},
+};
+
+const here = dirname(fileURLToPath(import.meta.url));
+
+function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const probe = createServer().once("error", reject);
+    probe.listen(0, () => {
+      const { port } = probe.address() as AddressInfo;
+      probe.close(() => resolve(port));
+    });
+  });
+}
+
+async function waitForHealth(url: string, timeoutMs = 30_000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    try {
+      if ((await fetch(`${url}/health`)).ok) return;
+    } catch {
+      // not listening yet
+    }
+    await new Promise((resolve) => setTimeout(resolve, 250));
+  }
+  throw new Error(`x402 server didn't come up at ${url}`);
+}
+
+/** Route price in atomic USDC ("$0.05" → "50000") */
+const atomic = (price: string) => String(Math.round(parseFloat(price.replace("$", "")) * 1e6));
+
+/**
+ * Base RPC + DefiLlama + OpenAI stand-in: an empty chain at a fixed height
+ * (no logs, every eth_call reverts), one Base USDC yield pool, and fixed
+ * transcription / speech responses
+ */
+function createUpstreamStub() {
+  const app = express();
+  app.use(express.json());
+
+  const rpc = ({ id, method }: { id: number; method: string }) => {
+    switch (method) {
+      case "eth_chainId":
+        return { jsonrpc: "2.0", id, result: "0x2105" };
+      case "eth_blockNumber":
+        return { jsonrpc: "2.0", id, result: "0x1000000" };
+      case "eth_getLogs":
+        return { jsonrpc: "2.0", id, result: [] };
+      case "eth_call":
+        return { jsonrpc: "2.0", id, error: { code: 3, message: "execution reverted" } };
+      default:
+        return { jsonrpc: "2.0", id, error: { code: -32601, message: `e2e stub: ${method} not supported` } };
+    }
+  };
+  app.post("/rpc", (req, res) => {
+    res.json(Array.isArray(req.body) ? req.body.map(rpc) : rpc(req.body));
+  });
+
+  app.get("/yields/pools", (_req, res) => {
+    res.json({
+      data: [{ chain: "Base", project: "aave-v3", symbol: "USDC", apy: 4.2, tvlUsd: 120_000_000, rewardTokens: [] }],
+    });
+  });
+  app.get("/api/lite/protocols", (_req, res) => {
+    res.json([]);
+  });
+
+  app.post("/openai/audio/transcriptions", express.raw({ type: "*/*", limit: "25mb" }), (_req, res) => {
+    res.json({ text: "e2e transcript" });
+  });
+  app.post("/openai/audio/speech", (_req, res) => {
+    // MPEG frame header + silence
+    res.type("audio/mpeg").send(Buffer.concat([Buffer.from([0xff, 0xfb, 0x90, 0x64]), Buffer.alloc(413)]));
+  });
+
+  return app;
+}
+
+/* ── Setup ───────────────────────────────────────────────────── */
+
+const ledger = new UsdcLedger();
+const facilitator: Server = createLocalFacilitator(ledger, [NETWORK]).listen(0);
+await new Promise((resolve) => facilitator.once("listening", resolve));
+const facilitatorUrl = `http://127.0.0.1:${(facilitator.address() as AddressInfo).port}`;
+
+const upstream: Server = createUpstreamStub().listen(0);
+await new Promise((resolve) => upstream.once("listening", resolve));
+const upstreamUrl = `http://127.0.0.1:${(upstream.address() as AddressInfo).port}`;
+
+const port = await freePort();
+const serverUrl = `http://127.0.0.1:${port}`;
+const server = spawn(process.execPath, ["--import", "tsx", "index.ts"], {
+  cwd: here,
+  stdio: ["ignore", "pipe", "pipe"],
+  env: {
+    ...process.env,
+    PORT: String(port),
+    EVM_ADDRESS: PAY_TO,
+    NETWORK,
+    FACILITATOR_URL: facilitatorUrl,
+    BASE_RPC_URL: `${upstreamUrl}/rpc`,
+    DEFILLAMA_API_URL: `${upstreamUrl}/api`,
+    DEFILLAMA_YIELDS_URL: `${upstreamUrl}/yields`,
+    // Empty values keep dotenv from filling these in from .env
+    SUPABASE_URL: "",
+    SUPABASE_SERVICE_ROLE_KEY: "",
+    XMETAV_TOKEN_ADDRESS: "",
+    OPENAI_API_KEY: "sk-e2e-stub",
+    OPENAI_BASE_URL: `${upstreamUrl}/openai`,
+  },
+});
+let serverLog = "";
+server.stdout.on("data", (chunk) => (serverLog += chunk));
+server.stderr.on("data", (chunk) => (serverLog += chunk));
+
+/** A fresh payer — one per route, so no route runs into the None tier's daily limit */
+function testWallet() {
+  const account = privateKeyToAccount(generatePrivateKey());
+  return { account, http: new x402HTTPClient(registerExactEvmScheme(new x402Client(), { signer: account })) };
+}
+
+async function fund(address: string, amount: string): Promise<void> {
+  const res = await fetch(`${facilitatorUrl}/faucet`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ address, amount }),
+  });
+  assert.equal(res.status, 200, `faucet: ${await res.text()}`);
+}
+
+type Outcome = { route: string; price: string; status: "paid" | "handler error" | "FAILED"; detail: string };
+const outcomes: Outcome[] = [];
+let exitCode = 0;
+
+async function send(route: string, headers: Record<string, string> = {}): Promise<Response> {
+  const [method, path] = route.split(" ");
+  const sample = SAMPLES[route];
+  const binary = sample.body instanceof Uint8Array;
+  return fetch(`${serverUrl}${path}${sample.query ? `?${sample.query}` : ""}`, {
+    method,
+    headers: {
+      ...(sample.body !== undefined ? { "Content-Type": binary ? "audio/wav" : "application/json" } : {}),
+      ...headers,
+    },
+    body: sample.body === undefined ? undefined : binary ? (sample.body as Uint8Array<ArrayBuffer>) : JSON.stringify(sample.body),
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+}
+
+/** Unpaid call → its 402 challenge, asserting the quoted amount */
+async function challenge(http: x402HTTPClient, route: string, headers: Record<string, string>, price: string) {
+  const res = await send(route, headers);
+  const body = await res.json().catch(() => undefined);
+  assert.equal(res.status, 402, `${route}: unpaid call should be 402, got ${res.status} ${JSON.stringify(body)}`);
+  const required = http.getPaymentRequiredResponse((name) => res.headers.get(name), body);
+  const accepted = required.accepts[0];
+  assert.equal(accepted.network, NETWORK, `${route}: network`);
+  assert.equal(accepted.payTo.toLowerCase(), PAY_TO, `${route}: payTo`);
+  assert.equal(accepted.amount, atomic(price), `${route}: 402 should charge ${price}`);
+  return required;
+}
+
+/* ── Routes ──────────────────────────────────────────────────── */
+
+try {
+  await waitForHealth(serverUrl);
+  console.log(`[e2e] x402 server on ${serverUrl}, local facilitator on ${facilitatorUrl}`);
+
+  const routes = buildGatedRoutes({ network: NETWORK, payTo: PAY_TO, voice: true });
+  for (const key of Object.keys(routes)) assert.ok(SAMPLES[key], `${key}: add a sample request to SAMPLES`);
+
+  let replay: { route: string; payer: string; headers: Record<string, string> } | null = null;
+
+  for (const [route, config] of Object.entries(routes)) {
+    const option = Array.isArray(config.accepts) ? config.accepts[0] : config.accepts;
+    let price = String(option.price);
+    const { account: wallet, http } = testWallet();
+    const headers: Record<string, string> = { "X-Caller-Address": wallet.address };
+
+    try {
+      await fund(wallet.address, "$10");
+
+      // Value-based trade routes: quote first, then pay the quoted fee
+      const path = route.split(" ")[1];
+      if (isQuotedEndpoint(path)) {
+        const quoted = await fetch(`${serverUrl}/quote${path}`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json", ...headers },
+          body: JSON.stringify(SAMPLES[route].body),
+          signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        });
+        const { quote } = await quoted.json();
+        assert.equal(quoted.status, 200, `${route}: quote failed`);
+        headers["X-Quote-Id"] = quote.id;
+        price = quote.price;
+      }
+
+      const required = await challenge(http, route, headers, price);
+      const payment = http.encodePaymentSignatureHeader(await http.createPaymentPayload(required));
+      const before = { wallet: ledger.balanceOf(wallet.address), payTo: ledger.balanceOf(PAY_TO) };
+
+      const res = await send(route, { ...headers, ...payment });
+      await res.arrayBuffer();
+      const moved = before.wallet - ledger.balanceOf(wallet.address);
+
+      // A paid request the server still refuses is a bug; only handler crashes are tolerated
+      assert.ok(res.status < 400 || res.status >= 500, `${route}: paid retry got ${res.status}`);
+      if (res.status >= 500) {
+        assert.equal(moved, BigInt(0), `${route}: a failed call (${res.status}) must not settle`);
+        outcomes.push({ route, price, status: "handler error", detail: `${res.status} — not settled` });
+        continue;
+      }
+
+      const settled = http.getPaymentSettleResponse((name) => res.headers.get(name));
+      assert.ok(settled.success, `${route}: settlement should succeed`);
+      assert.equal(moved, BigInt(atomic(price)), `${route}: wallet should be charged ${price}`);
+      assert.equal(ledger.balanceOf(PAY_TO) - before.payTo, moved, `${route}: payTo should receive ${price}`);
+      assert.ok(ledger.transfer(settled.transaction), `${route}: settlement tx on the ledger`);
+      outcomes.push({ route, price, status: "paid", detail: `${res.status} · tx ${settled.transaction.slice(0, 10)}…` });
+
+      if (!replay && !isQuotedEndpoint(path)) replay = { route, payer: wallet.address, headers: { ...headers, ...payment } };
+    } catch (err) {
+      exitCode = 1;
+      outcomes.push({ route, price, status: "FAILED", detail: (err as Error).message });
+    }
+  }
+
+  /* ── Failure paths ─────────────────────────────────────────── */
+
+  if (replay) {
+    // Verification passes (the signature is valid) but the nonce is spent, so settlement reverts
+    const before = ledger.balanceOf(replay.payer);
+    const res = await send(replay.route, replay.headers);
+    await res.arrayBuffer();
+    try {
+      assert.equal(res.status, 402, `replayed payment should be refused, got ${res.status}`);
+      assert.equal(ledger.balanceOf(replay.payer), before, "replay must not move funds");
+      outcomes.push({ route: replay.route, price: "replay", status: "paid", detail: "402 — nonce already used" });
+    } catch (err) {
+      exitCode = 1;
+      outcomes.push({ route: replay.route, price: "replay", status: "FAILED", detail: (err as Error).message });
+    }
+  }
+
+  {
+    const { account: broke, http } = testWallet();
+    const route = "POST /intent";
+    const headers = { "X-Caller-Address": broke.address };
+    try {
+      const required = await challenge(http, route, headers, "$0.05");
+      const res = await send(route, {
+        ...headers,
+        ...http.encodePaymentSignatureHeader(await http.createPaymentPayload(required)),
+      });
+      await res.arrayBuffer();
+      assert.equal(res.status, 402, `unfunded wallet should be refused, got ${res.status}`);
+      assert.equal(ledger.history().filter((t) => t.from === broke.address.toLowerCase()).length, 0);
+      outcomes.push({ route, price: "unfunded", status: "paid", detail: "402 — insufficient funds" });
+    } catch (err) {
+      exitCode = 1;
+      outcomes.push({ route, price: "unfunded", status: "FAILED", detail: (err as Error).message });
+    }
+  }
+} catch (err) {
+  exitCode = 1;
+  console.error("[e2e] Setup failed:", (err as Error).message);
+  console.error(serverLog.slice(-4000));
+} finally {
+  server.kill();
+  facilitator.close();
+  upstream.close();
+}
+
+/* ── Report ──────────────────────────────────────────────────── */
+
+const width = Math.max(...outcomes.map((o) => o.route.length), 10);
+for (const o of outcomes) {
+  const mark = o.status === "paid" ? "✓" : o.status === "handler error" ? "~" : "✗";
+  console.log(`  ${mark} ${o.route.padEnd(width)}  ${o.price.padEnd(10)}  ${o.detail}`);
+}
+const count = (status: Outcome["status"]) => outcomes.filter((o) => o.status === status).length;
+console.log(
+  `[e2e] ${count("paid")} passed, ${count("handler error")} handler errors (upstream), ${count("FAILED")} failed` +
+    ` — ${formatUnitsUsd(ledger.balanceOf(PAY_TO))} settled to payTo`
+);
+process.exit(exitCode);
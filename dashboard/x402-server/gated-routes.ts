@@ -0,0 +1,202 @@
+/**
+ * x402 Gated Route Table
+ *
+ * Base price of every paid endpoint. index.ts hands these to
+ * paymentMiddleware wrapped in per-caller tier pricing (tier-pricing.ts);
+ * the daily spend gate and verify-tier-pricing.ts read the same table.
+ *
+ * PRICING: Cost + margin for profitability
+ */
+
+import type { RouteConfig } from "@x402/core/http";
+
+export interface GatedRouteOptions {
+  network: `${string}:${string}`;
+  payTo: string;
+  /** Include the Whisper/TTS routes (OPENAI_API_KEY set) */
+  voice: boolean;
+}
+
+export function buildGatedRoutes({ network, payTo, voice }: GatedRouteOptions): Record<string, RouteConfig> {
+  return {
+    "POST /agent-task": {
+      accepts: [
+        {
+          scheme: "exact",
+          price: "$0.10",  // Was $0.01 — 10x for agent execution value
+          network,
+          payTo,
+        },
+      ],
+      description: "Dispatch a task to an XmetaV agent",
+      mimeType: "application/json",
+    },
+    "POST /intent": {
+      accepts: [
+        {
+          scheme: "exact",
+          price: "$0.05",  // Was $0.005 — 10x for intent resolution value
+          network,
+          payTo,
+        },
+      ],
+      description: "Resolve a goal into executable agent commands",
+      mimeType: "application/json",
+    },
+    "GET /fleet-status": {
+      accepts: [
+        {
+          scheme: "exact",
+          price: "$0.01",  // Was $0.001 — 10x minimum viable
+          network,
+          payTo,
+        },
+      ],
+      description: "Live status of all agents in the XmetaV fleet",
+      mimeType: "application/json",
+    },
+    "POST /swarm": {
+      accepts: [
+        {
+          scheme: "exact",
+          price: "$0.50",  // Was $0.02 — 25x for multi-agent orchestration
+          network,
+          payTo,
+        },
+      ],
+      description: "Launch a multi-agent swarm orchestration",
+      mimeType: "application/json",
+    },
+    // ---- Value-Based Premium Endpoints ----
+    "POST /memory-crystal": {
+      accepts: [
+        {
+          scheme: "exact",
+          price: "$0.05",  // Unique memory crystal summon
+          network,
+          payTo,
+        },
+      ],
+      description: "Summon a memory crystal from the agent's memory cosmos",
+      mimeType: "application/json",
+    },
+    "POST /neural-swarm": {
+      accepts: [
+        {
+          scheme: "exact",
+          price: "$0.10",  // Complex multi-agent delegation
+          network,
+          payTo,
+        },
+      ],
+      description: "Delegate a task across the neural swarm network",
+      mimeType: "application/json",
+    },
+    "POST /fusion-chamber": {
+      accepts: [
+        {
+          scheme: "exact",
+          price: "$0.15",  // Rare memory fusion operation
+          network,
+          payTo,
+        },
+      ],
+      description: "Fuse memory crystals in the Materia chamber",
+      mimeType: "application/json",
+    },
+    "POST /cosmos-explore": {
+      accepts: [
+        {
+          scheme: "exact",
+          price: "$0.20",  // Experiential memory cosmos exploration
+          network,
+          payTo,
+        },
+      ],
+      description: "Explore the Memory Cosmos world — islands, highways, crystals",
+      mimeType: "application/json",
+    },
+    ...(voice
+      ? {
+          "POST /voice/transcribe": {
+            accepts: [
+              {
+                scheme: "exact",
+                price: "$0.05",  // Was $0.005 — 10x (covers Whisper ~$0.006 + margin)
+                network,
+                payTo,
+              },
+            ],
+            description: "Speech-to-text transcription via Whisper",
+            mimeType: "application/json",
+          },
+          "POST /voice/synthesize": {
+            accepts: [
+              {
+                scheme: "exact",
+                price: "$0.08",  // Was $0.01 — 8x (covers TTS $0.015 + healthy margin)
+                network,
+                payTo,
+              },
+            ],
+            description: "Text-to-speech synthesis via OpenAI TTS",
+            mimeType: "audio/mpeg",
+          },
+        }
+      : {}),
+    // ---- Trade Execution Endpoints (%-of-capital pricing) ----
+    // Value-based routes are charged their POST /quote/:endpoint fee
+    // (trade-quotes.ts); the price here is the schedule minimum.
+    "POST /execute-trade": {
+      accepts: [{ scheme: "exact", price: "$0.50", network, payTo }],
+      description: "Generate unsigned swap transaction (fee: 0.5% of trade, min $0.50)",
+      mimeType: "application/json",
+    },
+    "POST /rebalance-portfolio": {
+      accepts: [{ scheme: "exact", price: "$2.00", network, payTo }],
+      description: "Portfolio rebalance analysis + tx bundle (fee: $2 + 0.3% of portfolio)",
+      mimeType: "application/json",
+    },
+    "GET /arb-opportunity": {
+      accepts: [{ scheme: "exact", price: "$0.25", network, payTo }],
+      description: "Scan for cross-DEX arbitrage opportunities",
+      mimeType: "application/json",
+    },
+    "POST /execute-arb": {
+      accepts: [{ scheme: "exact", price: "$0.10", network, payTo }],
+      description: "Execute arbitrage (fee: 1% of profit captured, min $0.10)",
+      mimeType: "application/json",
+    },
+    "GET /yield-optimize": {
+      accepts: [{ scheme: "exact", price: "$0.50", network, payTo }],
+      description: "Analyze yield farming opportunities across Base protocols",
+      mimeType: "application/json",
+    },
+    "POST /deploy-yield-strategy": {
+      accepts: [{ scheme: "exact", price: "$3.00", network, payTo }],
+      description: "Deploy capital into yield strategy (fee: $3 + 0.5% of capital)",
+      mimeType: "application/json",
+    },
+    // ---- Alpha / Intelligence Feeds (recurring revenue) ----
+    "GET /whale-alert": {
+      accepts: [{ scheme: "exact", price: "$0.15", network, payTo }],
+      description: "Whale transfer/swap detection on Base — tiered lookback depth",
+      mimeType: "application/json",
+    },
+    "GET /liquidation-signal": {
+      accepts: [{ scheme: "exact", price: "$0.25", network, payTo }],
+      description: "DeFi lending liquidation signals (Aave V3, Moonwell, Seamless)",
+      mimeType: "application/json",
+    },
+    "GET /arb-detection": {
+      accepts: [{ scheme: "exact", price: "$0.20", network, payTo }],
+      description: "Cross-DEX arbitrage signal detection (Uniswap V3 × Aerodrome)",
+      mimeType: "application/json",
+    },
+    "GET /governance-signal": {
+      accepts: [{ scheme: "exact", price: "$0.10", network, payTo }],
+      description: "Governance proposal tracker across Base protocols",
+      mimeType: "application/json",
+    },
+  };
+}
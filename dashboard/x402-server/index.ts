@@ -18,6 +18,22 @@ import {
 } from "./payment-memory.js";
 import { createTradeRouter, TRADE_FEE_SCHEDULES } from "./trade-routes.js";
 import { createAlphaFeedsRouter, ALPHA_FEE_SCHEDULES } from "./alpha-feeds.js";
+import { createReceiptRouter, closeReceiptStreams } from "./receipt-routes.js";
+import { issueReceipt } from "./receipts.js";
+import { buildGatedRoutes } from "./gated-routes.js";
+import { createQuoteGate, withQuotePricing } from "./trade-quotes.js";
+import { PricingExperiments } from "./pricing-experiments.js";
+import {
+  TIERS,
+  getTier,
+  parseUsd,
+  formatUsd,
+  nextReset,
+  withTierPricing,
+  createSpendLimitGate,
+  DailySpendLedger,
+  type TokenTier,
+} from "./tier-pricing.js";
 
 // ── TTL Cache for expensive lookups ──────────────────────────
 interface CacheEntry<T> { value: T; expiresAt: number; }
@@ -36,7 +52,7 @@ class SimpleCache<T> {
 }
 
 // Cache: token tier lookups (60s TTL — balance rarely changes)
-const tierCache = new SimpleCache<{ name: string; minBalance: number; discount: number; dailyLimit: number; color: string }>(60_000);
+const tierCache = new SimpleCache<TokenTier>(60_000);
 // Cache: ERC-8004 identity resolution (5min TTL — on-chain identity is stable)
 const identityCache = new SimpleCache<{ agentId: string; owner: string; wallet: string; tokenURI: string; x402Enabled?: boolean } | null>(300_000);
 // Cache: fleet-status (30s TTL — acceptable staleness)
@@ -77,7 +93,8 @@ const openaiKey = process.env.OPENAI_API_KEY;
 const openai = openaiKey ? new OpenAI({ apiKey: openaiKey }) : null;
 
 // ---- $XMETAV Token Tier System ----
-// Holding XMETAV tokens grants tiered discounts on gated endpoints
+// Holding XMETAV tokens grants tiered discounts on gated endpoints and a
+// higher daily spend limit (tiers + enforcement: tier-pricing.ts)
 
 const XMETAV_TOKEN_ADDRESS = process.env.XMETAV_TOKEN_ADDRESS as `0x${string}` | undefined;
 
@@ -91,37 +108,13 @@ const ERC20_BALANCE_ABI = [
   },
 ] as const;
 
-interface TokenTier {
-  name: string;
-  minBalance: number;
-  discount: number;
-  dailyLimit: number;
-  color: string;
-}
-
-const TIERS: TokenTier[] = [
-  { name: "None",      minBalance: 0,           discount: 0,    dailyLimit: 5,    color: "#4a6a8a" },
-  { name: "Starter",   minBalance: 100,         discount: 0.10, dailyLimit: 25,   color: "#a3e635" },
-  { name: "Bronze",    minBalance: 1_000,       discount: 0.15, dailyLimit: 50,   color: "#cd7f32" },
-  { name: "Silver",    minBalance: 10_000,      discount: 0.25, dailyLimit: 200,  color: "#c0c0c0" },
-  { name: "Gold",      minBalance: 100_000,     discount: 0.50, dailyLimit: 1000, color: "#ffd700" },
-  { name: "Diamond",   minBalance: 1_000_000,   discount: 0.75, dailyLimit: 5000, color: "#b9f2ff" },
-];
-
-function getTier(balance: number): TokenTier {
-  for (let i = TIERS.length - 1; i >= 0; i--) {
-    if (balance >= TIERS[i].minBalance) return TIERS[i];
-  }
-  return TIERS[0];
-}
-
 const viemClient = XMETAV_TOKEN_ADDRESS
   ? createPublicClient({ chain: base, transport: http(process.env.BASE_RPC_URL || "https://base-mainnet.g.alchemy.com/v2/bHdHyC4tCZcSjdNYDPRQs") })
   : null;
 
 async function getCallerTier(callerAddress?: string): Promise<TokenTier> {
   if (!viemClient || !XMETAV_TOKEN_ADDRESS || !callerAddress) return TIERS[0];
-  return tierCache.getOrFetch(`tier:${callerAddress}`, async () => {
+  return tierCache.getOrFetch(`tier:${callerAddress.toLowerCase()}`, async () => {
     try {
       const raw = await viemClient.readContract({
         address: XMETAV_TOKEN_ADDRESS,
@@ -137,6 +130,20 @@ async function getCallerTier(callerAddress?: string): Promise<TokenTier> {
   });
 }
 
+// Per-payer spend today, seeded from x402_payments so a restart doesn't reset limits
+const spendLedger = new DailySpendLedger(async (payer, since) => {
+  if (!supabase) return { calls: 0, spentUsd: 0 };
+  const { data, error } = await supabase
+    .from("x402_payments")
+    .select("amount")
+    .ilike("payer_address", payer)
+    .eq("status", "settled")
+    .gte("created_at", since.toISOString());
+  if (error) throw error;
+  const rows = data ?? [];
+  return { calls: rows.length, spentUsd: rows.reduce((sum, r) => sum + (parseUsd(String(r.amount)) || 0), 0) };
+});
+
 const app = express();
 app.use(compression());  // gzip — ~60% bandwidth reduction
 app.use(express.json());
@@ -149,11 +156,13 @@ async function logPayment(endpoint: string, amount: string, req: express.Request
     const callerAgent = (req as any).callerAgent as {
       agentId: string; owner: string; wallet: string; x402Enabled?: boolean;
     } | undefined;
+    // Handlers log the route's base price; the caller actually paid their tier's quote
+    if (req.tierQuote && amount === req.tierQuote.basePrice) amount = req.tierQuote.price;
     const row: Record<string, unknown> = {
       endpoint,
       amount,
       agent_id: callerAgent?.agentId || "external",
-      payer_address: callerAddress || callerAgent?.wallet || null,
+      payer_address: req.tierQuote?.payer || callerAddress || callerAgent?.wallet || null,
       payee_address: evmAddress,
       network,
       status: "settled",
@@ -165,17 +174,23 @@ async function logPayment(endpoint: string, amount: string, req: express.Request
     // ---- Midas endpoint_analytics tracking ----
     trackEndpointAnalytics(endpoint, amount, callerAddress);
 
-    // ---- A/B pricing experiment tracking ----
-    const numAmt = parseFloat(amount.replace("$", ""));
-    // Randomly assign variant (50/50 split); "control" uses current price
-    const variant = Math.random() < 0.5 ? "control" : "premium";
-    trackABExperiment(endpoint, variant, true, numAmt);
-
     // ---- Payment → Agent Memory pipeline ----
     recordPaymentEvent(endpoint, amount, callerAddress || callerAgent?.wallet, callerAgent?.agentId);
   } catch { /* best effort */ }
 }
 
+// ---- Paying wallet recorded in result receipts ----
+// The wallet that signed the payment (decoded by the spend gate); the
+// declared X-Caller-Address only stands in when no payment was sent
+function callerPayer(req: express.Request): string | null {
+  return (
+    req.tierQuote?.payer ||
+    (req.headers["x-caller-address"] as string | undefined) ||
+    req.callerAgent?.wallet ||
+    null
+  );
+}
+
 // ---- Midas per-endpoint revenue tracking ----
 async function trackEndpointAnalytics(endpoint: string, amount: string, _callerAddress?: string) {
   if (!supabase) return;
@@ -217,32 +232,6 @@ async function trackEndpointAnalytics(endpoint: string, amount: string, _callerA
   } catch { /* best-effort analytics */ }
 }
 
-// ---- A/B Pricing Experiment Tracking ----
-async function trackABExperiment(endpoint: string, variant: string, converted: boolean, amount: number) {
-  if (!supabase) return;
-  try {
-    const { data: exp } = await supabase
-      .from("pricing_experiments")
-      .select("id, impressions, conversions, revenue_usd")
-      .eq("endpoint_path", endpoint)
-      .eq("variant_name", variant)
-      .eq("is_active", true)
-      .maybeSingle();
-    if (exp) {
-      const newImpressions = (exp.impressions || 0) + 1;
-      const newConversions = (exp.conversions || 0) + (converted ? 1 : 0);
-      const newRevenue = parseFloat(exp.revenue_usd || "0") + (converted ? amount : 0);
-      await supabase.from("pricing_experiments").update({
-        impressions: newImpressions,
-        conversions: newConversions,
-        revenue_usd: newRevenue,
-        conversion_rate: newImpressions > 0 ? (newConversions / newImpressions) * 100 : 0,
-        avg_revenue_per_impression: newImpressions > 0 ? newRevenue / newImpressions : 0,
-      }).eq("id", exp.id);
-    }
-  } catch { /* best-effort */ }
-}
-
 // ---- Swarm Spawn Billing ----
 async function billSwarmSpawns(swarmId: string, agents: string[], payerAddress?: string) {
   if (!supabase) return;
@@ -350,189 +339,26 @@ app.use(async (req, _res, next) => {
 
 // ---- x402 Payment Middleware ----
 // Gates XmetaV platform endpoints with USDC micro-payments on Base
-// PRICING: Cost + margin for profitability
-
+// Base prices live in gated-routes.ts; the 402 challenge quotes each caller
+// their tier-discounted price, and the spend gate enforces the tier's
+// dailyLimit (429) before payment is verified. Value-based trade routes
+// charge the fee quoted by POST /quote/:endpoint (trade-quotes.ts). Callers
+// enrolled in an A/B pricing experiment are quoted their variant's price.
+const gatedRoutes = buildGatedRoutes({ network, payTo: evmAddress, voice: !!openai });
+const pricingExperiments = new PricingExperiments(supabase);
+
+app.use(createQuoteGate());
+app.use(pricingExperiments.tracker(gatedRoutes));
+app.use(
+  createSpendLimitGate(gatedRoutes, getCallerTier, spendLedger, {
+    listPrice: pricingExperiments.listPrice,
+    enrolled: pricingExperiments.enrolled,
+    quotedPrice: (req) => req.tradeQuote?.price,
+  })
+);
 app.use(
   paymentMiddleware(
-    {
-      "POST /agent-task": {
-        accepts: [
-          {
-            scheme: "exact",
-            price: "$0.10",  // Was $0.01 — 10x for agent execution value
-            network,
-            payTo: evmAddress,
-          },
-        ],
-        description: "Dispatch a task to an XmetaV agent",
-        mimeType: "application/json",
-      },
-      "POST /intent": {
-        accepts: [
-          {
-            scheme: "exact",
-            price: "$0.05",  // Was $0.005 — 10x for intent resolution value
-            network,
-            payTo: evmAddress,
-          },
-        ],
-        description: "Resolve a goal into executable agent commands",
-        mimeType: "application/json",
-      },
-      "GET /fleet-status": {
-        accepts: [
-          {
-            scheme: "exact",
-            price: "$0.01",  // Was $0.001 — 10x minimum viable
-            network,
-            payTo: evmAddress,
-          },
-        ],
-        description: "Live status of all agents in the XmetaV fleet",
-        mimeType: "application/json",
-      },
-      "POST /swarm": {
-        accepts: [
-          {
-            scheme: "exact",
-            price: "$0.50",  // Was $0.02 — 25x for multi-agent orchestration
-            network,
-            payTo: evmAddress,
-          },
-        ],
-        description: "Launch a multi-agent swarm orchestration",
-        mimeType: "application/json",
-      },
-      // ---- Value-Based Premium Endpoints ----
-      "POST /memory-crystal": {
-        accepts: [
-          {
-            scheme: "exact",
-            price: "$0.05",  // Unique memory crystal summon
-            network,
-            payTo: evmAddress,
-          },
-        ],
-        description: "Summon a memory crystal from the agent's memory cosmos",
-        mimeType: "application/json",
-      },
-      "POST /neural-swarm": {
-        accepts: [
-          {
-            scheme: "exact",
-            price: "$0.10",  // Complex multi-agent delegation
-            network,
-            payTo: evmAddress,
-          },
-        ],
-        description: "Delegate a task across the neural swarm network",
-        mimeType: "application/json",
-      },
-      "POST /fusion-chamber": {
-        accepts: [
-          {
-            scheme: "exact",
-            price: "$0.15",  // Rare memory fusion operation
-            network,
-            payTo: evmAddress,
-          },
-        ],
-        description: "Fuse memory crystals in the Materia chamber",
-        mimeType: "application/json",
-      },
-      "POST /cosmos-explore": {
-        accepts: [
-          {
-            scheme: "exact",
-            price: "$0.20",  // Experiential memory cosmos exploration
-            network,
-            payTo: evmAddress,
-          },
-        ],
-        description: "Explore the Memory Cosmos world — islands, highways, crystals",
-        mimeType: "application/json",
-      },
-      ...(openai
-        ? {
-            "POST /voice/transcribe": {
-              accepts: [
-                {
-                  scheme: "exact",
-                  price: "$0.05",  // Was $0.005 — 10x (covers Whisper ~$0.006 + margin)
-                  network,
-                  payTo: evmAddress,
-                },
-              ],
-              description: "Speech-to-text transcription via Whisper",
-              mimeType: "application/json",
-            },
-            "POST /voice/synthesize": {
-              accepts: [
-                {
-                  scheme: "exact",
-                  price: "$0.08",  // Was $0.01 — 8x (covers TTS $0.015 + healthy margin)
-                  network,
-                  payTo: evmAddress,
-                },
-              ],
-              description: "Text-to-speech synthesis via OpenAI TTS",
-              mimeType: "audio/mpeg",
-            },
-          }
-        : {}),
-      // ---- Trade Execution Endpoints (%-of-capital pricing) ----
-      "POST /execute-trade": {
-        accepts: [{ scheme: "exact", price: "$0.50", network, payTo: evmAddress }],
-        description: "Generate unsigned swap transaction (fee: 0.5% of trade, min $0.50)",
-        mimeType: "application/json",
-      },
-      "POST /rebalance-portfolio": {
-        accepts: [{ scheme: "exact", price: "$2.00", network, payTo: evmAddress }],
-        description: "Portfolio rebalance analysis + tx bundle (fee: $2 + 0.3% of portfolio)",
-        mimeType: "application/json",
-      },
-      "GET /arb-opportunity": {
-        accepts: [{ scheme: "exact", price: "$0.25", network, payTo: evmAddress }],
-        description: "Scan for cross-DEX arbitrage opportunities",
-        mimeType: "application/json",
-      },
-      "POST /execute-arb": {
-        accepts: [{ scheme: "exact", price: "$0.10", network, payTo: evmAddress }],
-        description: "Execute arbitrage (fee: 1% of profit captured, min $0.10)",
-        mimeType: "application/json",
-      },
-      "GET /yield-optimize": {
-        accepts: [{ scheme: "exact", price: "$0.50", network, payTo: evmAddress }],
-        description: "Analyze yield farming opportunities across Base protocols",
-        mimeType: "application/json",
-      },
-      "POST /deploy-yield-strategy": {
-        accepts: [{ scheme: "exact", price: "$3.00", network, payTo: evmAddress }],
-        description: "Deploy capital into yield strategy (fee: $3 + 0.5% of capital)",
-        mimeType: "application/json",
-      },
-      // ---- Alpha / Intelligence Feeds (recurring revenue) ----
-      "GET /whale-alert": {
-        accepts: [{ scheme: "exact", price: "$0.15", network, payTo: evmAddress }],
-        description: "Whale transfer/swap detection on Base — tiered lookback depth",
-        mimeType: "application/json",
-      },
-      "GET /liquidation-signal": {
-        accepts: [{ scheme: "exact", price: "$0.25", network, payTo: evmAddress }],
-        description: "DeFi lending liquidation signals (Aave V3, Moonwell, Seamless)",
-        mimeType: "application/json",
-      },
-      "GET /arb-detection": {
-        accepts: [{ scheme: "exact", price: "$0.20", network, payTo: evmAddress }],
-        description: "Cross-DEX arbitrage signal detection (Uniswap V3 × Aerodrome)",
-        mimeType: "application/json",
-      },
-      "GET /governance-signal": {
-        accepts: [{ scheme: "exact", price: "$0.10", network, payTo: evmAddress }],
-        description: "Governance proposal tracker across Base protocols",
-        mimeType: "application/json",
-      },
-    },
+    withQuotePricing(withTierPricing(gatedRoutes, getCallerTier, pricingExperiments.listPrice)),
     new x402ResourceServer(facilitatorClient).register(
       network,
       new ExactEvmScheme()
@@ -544,7 +370,7 @@ app.use(
 
 /**
  * POST /agent-task — dispatch a task to a specific agent
- * Body: { agent: "main"|"akua"|"basedintern", message: "..." }
+ * Body: { agent: "<agent_registry id>", message: "..." }
  */
 app.post("/agent-task", async (req, res) => {
   logPayment("/agent-task", "$0.10", req);
@@ -555,13 +381,18 @@ app.post("/agent-task", async (req, res) => {
     return;
   }
 
-  const validAgents = ["main", "sentinel", "soul", "briefing", "oracle", "alchemist", "midas", "web3dev", "akua", "akua_web", "basedintern", "basedintern_web"];
-  if (!validAgents.includes(agent)) {
-    res.status(400).json({ error: `Invalid agent. Choose from: ${validAgents.join(", ")}` });
-    return;
-  }
-
   if (supabase) {
+    // Only active agents from the registry (agent_registry) can be targeted
+    const { data: agents } = await supabase
+      .from("agent_registry")
+      .select("id")
+      .eq("enabled", true);
+    const validAgents = (agents ?? []).map((a: { id: string }) => a.id);
+    if (!validAgents.includes(agent)) {
+      res.status(400).json({ error: `Invalid agent. Choose from: ${validAgents.join(", ")}` });
+      return;
+    }
+
     // Insert command into Supabase — the bridge daemon picks it up
     const { data, error } = await supabase
       .from("agent_commands")
@@ -578,9 +409,16 @@ app.post("/agent-task", async (req, res) => {
       return;
     }
 
+    // Receipt scoped to this task — the only way a paying caller can read it back
+    const receipt = issueReceipt("agent-task", data.id, callerPayer(req));
     res.json({
       command: data,
-      note: "Task queued — the bridge daemon will execute it. Poll /api/commands/:id for status.",
+      receipt: {
+        ...receipt,
+        result: `/agent-task/${data.id}`,
+        stream: `/agent-task/${data.id}/stream`,
+      },
+      note: "Task queued — the bridge daemon will execute it. Read the result from receipt.result (or follow receipt.stream) with Authorization: Bearer <receipt.token>.",
       timestamp: new Date().toISOString(),
     });
   } else {
@@ -631,9 +469,11 @@ app.post("/intent", async (req, res) => {
       return;
     }
 
+    const receipt = issueReceipt("intent", data.id, callerPayer(req));
     res.json({
       session: data,
-      note: "Intent session created. Poll /api/intent/:id for resolution.",
+      receipt: { ...receipt, result: `/intent/${data.id}` },
+      note: "Intent session created. Poll receipt.result with Authorization: Bearer <receipt.token> for resolution.",
       timestamp: new Date().toISOString(),
     });
   } else {
@@ -772,9 +612,6 @@ app.post("/swarm", async (req, res) => {
     const callerAddr = req.headers["x-caller-address"] as string | undefined;
     billSwarmSpawns(run.id, spawnAgents, callerAddr);
 
-    // A/B tracking
-    trackABExperiment("/swarm", "control", true, 0.50);
-
     res.json({
       swarm: run,
       tasks: taskRows.length,
@@ -1053,7 +890,23 @@ if (openai) {
 
 // ---- Free endpoints (no payment required) ----
 
-app.get("/token-info", async (_req, res) => {
+app.get("/token-info", async (req, res) => {
+  // ?address=0x… — that wallet's tier and today's spend against its dailyLimit
+  const address = typeof req.query.address === "string" ? req.query.address.trim().toLowerCase() : "";
+  let caller: Record<string, unknown> | undefined;
+  if (address) {
+    const [tier, usage] = await Promise.all([getCallerTier(address), spendLedger.usage(address)]);
+    caller = {
+      address,
+      tier: tier.name,
+      discount: `${(tier.discount * 100).toFixed(0)}%`,
+      dailyLimit: `$${tier.dailyLimit}`,
+      spentToday: formatUsd(usage.spentUsd),
+      callsToday: usage.calls,
+      remaining: formatUsd(Math.max(0, tier.dailyLimit - usage.spentUsd)),
+      resetAt: nextReset().toISOString(),
+    };
+  }
   res.json({
     token: {
       name: "XmetaV",
@@ -1069,6 +922,7 @@ app.get("/token-info", async (_req, res) => {
       dailyLimit: `$${t.dailyLimit}`,
       color: t.color,
     })),
+    ...(caller ? { caller } : {}),
     enabled: !!XMETAV_TOKEN_ADDRESS,
     timestamp: new Date().toISOString(),
   });
@@ -1102,7 +956,7 @@ app.get("/health", (_req, res) => {
               "POST /voice/synthesize": "$0.08 — text-to-speech (TTS HD)",
             }
           : {}),
-        // Trade Execution
+        // Trade Execution (value-based routes need X-Quote-Id from POST /quote/:endpoint)
         "POST /execute-trade": "$0.50 min (0.5% of trade) — generate swap tx bundle",
         "POST /rebalance-portfolio": "$2.00 + 0.3% — portfolio rebalance analysis",
         "GET /arb-opportunity": "$0.25 — scan for arbitrage opportunities",
@@ -1117,10 +971,14 @@ app.get("/health", (_req, res) => {
       },
       free: {
         "GET /health": "this endpoint",
-        "GET /token-info": "XMETAV token info and tier table",
+        "GET /token-info": "XMETAV token info and tier table (?address= for a wallet's tier and spend today)",
         "GET /agent/:agentId/payment-info": "ERC-8004 agent payment capabilities",
         "POST /digest": "trigger payment→memory digest (writes to agent memories)",
         "GET /trade-fees": "fee schedule, examples, and revenue projections",
+        "POST /quote/:endpoint": "exact fee + quote ID for execute-trade, rebalance-portfolio, execute-arb, deploy-yield-strategy",
+        "GET /agent-task/:id": "paid task status + output (receipt required)",
+        "GET /agent-task/:id/stream": "paid task output as Server-Sent Events (receipt required)",
+        "GET /intent/:id": "paid intent status + executed tasks (receipt required)",
       },
     },
   });
@@ -1140,6 +998,9 @@ const alphaRouter = createAlphaFeedsRouter(
 );
 app.use(alphaRouter);
 
+// ---- Paid-caller result retrieval (receipt-gated, no payment) ----
+app.use(createReceiptRouter(supabase));
+
 // ---- On-Demand Payment Digest ----
 app.post("/digest", async (_req, res) => {
   try {
@@ -1247,7 +1108,7 @@ const server = app.listen(port, () => {
     console.log(`    POST /voice/transcribe $0.05   Speech-to-text (Whisper)`);
     console.log(`    POST /voice/synthesize $0.08   Text-to-speech (TTS HD)`);
   }
-  console.log(`\n  Trade Execution (%-of-capital):`);
+  console.log(`\n  Trade Execution (%-of-capital, quoted via POST /quote/:endpoint):`);
   console.log(`    POST /execute-trade        $0.50 min  0.5% of trade value`);
   console.log(`    POST /rebalance-portfolio  $2.00 +    0.3% of portfolio`);
   console.log(`    GET  /arb-opportunity       $0.25      Arb scan`);
@@ -1264,6 +1125,11 @@ const server = app.listen(port, () => {
   console.log(`    GET  /token-info                Token tiers & discounts`);
   console.log(`    GET  /agent/:agentId/payment-info  ERC-8004 agent lookup`);
   console.log(`    GET  /trade-fees                Fee schedule & projections`);
+  console.log(`    POST /quote/:endpoint           Trade fee quote (X-Quote-Id)`);
+  console.log(`\n  Receipt-gated (from a paid dispatch):`);
+  console.log(`    GET  /agent-task/:id            Task status & output`);
+  console.log(`    GET  /agent-task/:id/stream     Task output (SSE)`);
+  console.log(`    GET  /intent/:id                Intent status & tasks`);
   console.log();
 
   // Start payment→memory digest scheduler (hourly)
@@ -1274,6 +1140,7 @@ const server = app.listen(port, () => {
 async function gracefulShutdown(signal: string) {
   console.log(`\n[x402] ${signal} received — writing session summary...`);
   stopDigestScheduler();
+  closeReceiptStreams();
   await writeSessionSummary();
   server.close(() => {
     console.log("[x402] Server closed.");
@@ -0,0 +1,259 @@
+/**
+ * XmetaV Local x402 Facilitator — offline stand-in for the CDP facilitator
+ *
+ * Serves the facilitator API the resource server calls through
+ * HTTPFacilitatorClient, so `FACILITATOR_URL=http://localhost:4022`
+ * points index.ts at it instead of CDP / Base mainnet:
+ *
+ *   GET  /supported  — exact scheme on FACILITATOR_NETWORKS
+ *   POST /verify     — signature, recipient, validity window, amount, balance
+ *   POST /settle     — transferWithAuthorization against the ledger
+ *
+ * Verification and settlement are @x402/evm's own ExactEvmScheme; only
+ * the chain is swapped for a UsdcLedger that keeps balances and used
+ * authorization nonces in memory (like an anvil fork), so EIP-712
+ * signatures are checked for real and a replayed authorization reverts.
+ *
+ * Test wallets are funded with POST /faucet { address, amount: "$5" };
+ * GET /balance/:address and GET /transfers show what moved.
+ *
+ *   npm run facilitator:local     # standalone, port FACILITATOR_PORT (4022)
+ *   npm run test:e2e              # starts its own (e2e-x402.ts)
+ */
+
+import { createHash } from "crypto";
+import { fileURLToPath } from "url";
+import express from "express";
+import { verifyTypedData, getAddress, type TypedDataDefinition } from "viem";
+import { x402Facilitator } from "@x402/core/facilitator";
+import type { Network, PaymentPayload, PaymentRequirements } from "@x402/core/types";
+import { ExactEvmScheme } from "@x402/evm/exact/facilitator";
+import type { FacilitatorEvmSigner } from "@x402/evm";
+import { parseUsd } from "./tier-pricing.js";
+
+/** Address the local facilitator "submits" settlements from */
+export const LOCAL_FACILITATOR_ADDRESS = "0x000000000000000000000000000000000000fac1" as const;
+
+/** USDC has 6 decimals */
+const USDC_UNIT = BigInt(1_000_000);
+
+export interface LedgerTransfer {
+  hash: `0x${string}`;
+  asset: string;
+  from: string;
+  to: string;
+  /** Atomic USDC units */
+  value: bigint;
+  nonce: string;
+  at: string;
+}
+
+/* ── Ledger ──────────────────────────────────────────────────── */
+
+/**
+ * In-memory USDC balances and EIP-3009 authorization state. One ledger
+ * backs every network and asset — a test wallet funded once can pay on
+ * any of them.
+ */
+export class UsdcLedger {
+  private balances = new Map<string, bigint>();
+  private usedNonces = new Set<string>();
+  private transfers = new Map<`0x${string}`, LedgerTransfer>();
+
+  balanceOf(holder: string): bigint {
+    return this.balances.get(holder.toLowerCase()) ?? BigInt(0);
+  }
+
+  mint(holder: string, value: bigint): bigint {
+    const balance = this.balanceOf(holder) + value;
+    this.balances.set(holder.toLowerCase(), balance);
+    return balance;
+  }
+
+  authorizationUsed(from: string, nonce: string): boolean {
+    return this.usedNonces.has(`${from.toLowerCase()}:${nonce.toLowerCase()}`);
+  }
+
+  /**
+   * FiatToken.transferWithAuthorization (signature already verified):
+   * throws like a reverted call when the authorization can't execute.
+   */
+  transferWithAuthorization(
+    asset: string,
+    auth: { from: string; to: string; value: bigint; validAfter: bigint; validBefore: bigint; nonce: string },
+    now = Math.floor(Date.now() / 1000)
+  ): LedgerTransfer {
+    if (BigInt(now) <= auth.validAfter) throw new Error("execution reverted: authorization is not yet valid");
+    if (BigInt(now) >= auth.validBefore) throw new Error("execution reverted: authorization is expired");
+    if (this.authorizationUsed(auth.from, auth.nonce)) throw new Error("execution reverted: authorization is used or canceled");
+    if (this.balanceOf(auth.from) < auth.value) throw new Error("execution reverted: transfer amount exceeds balance");
+
+    this.usedNonces.add(`${auth.from.toLowerCase()}:${auth.nonce.toLowerCase()}`);
+    this.balances.set(auth.from.toLowerCase(), this.balanceOf(auth.from) - auth.value);
+    this.mint(auth.to, auth.value);
+
+    const hash = `0x${createHash("sha256").update(`${asset}:${auth.from}:${auth.nonce}`).digest("hex")}` as const;
+    const transfer: LedgerTransfer = {
+      hash,
+      asset: asset.toLowerCase(),
+      from: auth.from.toLowerCase(),
+      to: auth.to.toLowerCase(),
+      value: auth.value,
+      nonce: auth.nonce,
+      at: new Date(now * 1000).toISOString(),
+    };
+    this.transfers.set(hash, transfer);
+    return transfer;
+  }
+
+  transfer(hash: string): LedgerTransfer | undefined {
+    return this.transfers.get(hash as `0x${string}`);
+  }
+
+  history(): LedgerTransfer[] {
+    return [...this.transfers.values()];
+  }
+}
+
+/** Atomic USDC units → "$0.025" style amount */
+export function formatUnitsUsd(value: bigint): string {
+  const whole = value / USDC_UNIT;
+  const frac = (value % USDC_UNIT).toString().padStart(6, "0").replace(/0+$/, "");
+  return `$${whole}.${frac.padEnd(2, "0")}`;
+}
+
+/* ── Signer ──────────────────────────────────────────────────── */
+
+/**
+ * FacilitatorEvmSigner whose chain is the ledger: reads and writes the
+ * ExactEvmScheme makes land on UsdcLedger, signatures are recovered with
+ * viem. Payers are plain EOAs (no smart-wallet code), and Permit2 isn't
+ * supported — clients sign EIP-3009 authorizations.
+ */
+export function ledgerSigner(ledger: UsdcLedger): FacilitatorEvmSigner {
+  return {
+    getAddresses: () => [LOCAL_FACILITATOR_ADDRESS],
+
+    async readContract({ functionName, args = [] }) {
+      switch (functionName) {
+        case "balanceOf":
+          return ledger.balanceOf(String(args[0]));
+        case "authorizationState":
+          return ledger.authorizationUsed(String(args[0]), String(args[1]));
+        case "allowance":
+          return BigInt(0);
+        default:
+          throw new Error(`Local facilitator: unsupported read ${functionName}`);
+      }
+    },
+
+    async verifyTypedData({ signature, ...typedData }) {
+      return verifyTypedData({ ...(typedData as TypedDataDefinition & { address: `0x${string}` }), signature });
+    },
+
+    async writeContract({ address, functionName, args }) {
+      if (functionName !== "transferWithAuthorization") {
+        throw new Error(`Local facilitator: unsupported call ${functionName}`);
+      }
+      const [from, to, value, validAfter, validBefore, nonce] = args as [string, string, bigint, bigint, bigint, string];
+      return ledger.transferWithAuthorization(address, { from, to, value, validAfter, validBefore, nonce }).hash;
+    },
+
+    async sendTransaction() {
+      throw new Error("Local facilitator: smart-wallet deployment isn't supported");
+    },
+
+    async waitForTransactionReceipt({ hash }) {
+      return { status: ledger.transfer(hash) ? "success" : "reverted" };
+    },
+
+    async getCode() {
+      return "0x";
+    },
+  };
+}
+
+/* ── HTTP ────────────────────────────────────────────────────── */
+
+/** Express app implementing the facilitator API over `ledger` */
+export function createLocalFacilitator(ledger: UsdcLedger, networks: Network[]) {
+  const facilitator = new x402Facilitator().register(networks, new ExactEvmScheme(ledgerSigner(ledger)));
+  const app = express();
+  app.use(express.json());
+
+  type FacilitatorBody = { paymentPayload: PaymentPayload; paymentRequirements: PaymentRequirements };
+
+  app.get("/supported", (_req, res) => {
+    res.json(facilitator.getSupported());
+  });
+
+  app.post("/verify", async (req, res) => {
+    const { paymentPayload, paymentRequirements } = req.body as FacilitatorBody;
+    try {
+      res.json(await facilitator.verify(paymentPayload, paymentRequirements));
+    } catch (err) {
+      res.json({ isValid: false, invalidReason: (err as Error).message });
+    }
+  });
+
+  app.post("/settle", async (req, res) => {
+    const { paymentPayload, paymentRequirements } = req.body as FacilitatorBody;
+    try {
+      const result = await facilitator.settle(paymentPayload, paymentRequirements);
+      if (result.success) {
+        const t = ledger.transfer(result.transaction);
+        console.log(`[facilitator] Settled ${t ? formatUnitsUsd(t.value) : "?"} ${t?.from} → ${t?.to} (${result.transaction.slice(0, 10)}…)`);
+      }
+      res.json(result);
+    } catch (err) {
+      res.json({
+        success: false,
+        errorReason: (err as Error).message,
+        transaction: "",
+        network: paymentRequirements?.network,
+      });
+    }
+  });
+
+  app.post("/faucet", (req, res) => {
+    const { address, amount } = req.body ?? {};
+    if (typeof address !== "string" || !/^0x[0-9a-fA-F]{40}$/.test(address)) {
+      res.status(400).json({ error: "address must be a 0x wallet address" });
+      return;
+    }
+    const usd = typeof amount === "number" ? amount : parseUsd(String(amount ?? "$10"));
+    if (!(usd > 0)) {
+      res.status(400).json({ error: "amount must be a positive USD amount" });
+      return;
+    }
+    const balance = ledger.mint(address, BigInt(Math.round(usd * 1e6)));
+    res.json({ address: getAddress(address), balance: balance.toString(), balanceUsd: formatUnitsUsd(balance) });
+  });
+
+  app.get("/balance/:address", (req, res) => {
+    const balance = ledger.balanceOf(req.params.address);
+    res.json({ address: req.params.address, balance: balance.toString(), balanceUsd: formatUnitsUsd(balance) });
+  });
+
+  app.get("/transfers", (_req, res) => {
+    res.json({ transfers: ledger.history().map((t) => ({ ...t, value: t.value.toString() })) });
+  });
+
+  app.get("/health", (_req, res) => {
+    res.json({ status: "ok", facilitator: "local", networks, signer: LOCAL_FACILITATOR_ADDRESS });
+  });
+
+  return app;
+}
+
+// Standalone: `npm run facilitator:local`
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  const port = parseInt(process.env.FACILITATOR_PORT || "4022", 10);
+  const networks = (process.env.FACILITATOR_NETWORKS || "eip155:8453,eip155:84532")
+    .split(",")
+    .map((n) => n.trim() as Network);
+  createLocalFacilitator(new UsdcLedger(), networks).listen(port, () => {
+    console.log(`[facilitator] Local x402 facilitator on http://localhost:${port} (${networks.join(", ")})`);
+    console.log(`[facilitator] Run the server with FACILITATOR_URL=http://localhost:${port}`);
+  });
+}
@@ -0,0 +1,191 @@
+/**
+ * XmetaV A/B Pricing Experiments
+ *
+ * pricing_experiments holds the active price variants per endpoint
+ * (control / premium …). A caller identified by X-Caller-Address is
+ * pinned to one variant the first time they're challenged, and every
+ * 402 they get quotes that variant's price (before their tier discount):
+ *
+ *   assignment   — stored variant in pricing_experiment_assignments,
+ *                  else a hash of endpoint + caller, so the challenge
+ *                  and the paid retry always agree on the price
+ *   impression   — a 402 challenge served at the variant price
+ *   conversion   — a paid call that settled (revenue = price paid)
+ *
+ * Only the declared wallet can pay for its variant (createSpendLimitGate
+ * refuses another payer with 403), so a caller can't borrow an address
+ * that hashes to a cheaper arm. Anonymous callers aren't enrolled and are
+ * quoted the experiment's highest price, so dropping X-Caller-Address
+ * doesn't pick one either. Quoted trade routes run no experiments: their
+ * fee is the quote.
+ * Analysis (significance per experiment): bridge/lib/midas-revenue.ts
+ * analyzePricing and /api/midas?action=experiments.
+ */
+
+import { createHash } from "crypto";
+import type { Request, Response, NextFunction } from "express";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { declaredCaller, formatUsd, parseUsd, type ListPriceResolver } from "./tier-pricing.js";
+import { isQuotedEndpoint } from "./trade-quotes.js";
+
+export interface PricingVariant {
+  variant: string;
+  priceUsd: number;
+}
+
+export interface VariantAssignment {
+  endpoint: string;
+  payer: string;
+  variant: string;
+  priceUsd: number;
+}
+
+/** Active variants are re-read this often */
+const VARIANTS_TTL_MS = 60_000;
+/** Assignments are sticky; the cache only bounds memory */
+const ASSIGNMENT_TTL_MS = 10 * 60_000;
+
+/** Deterministic variant for a caller: stable across restarts and instances */
+export function hashVariant(endpoint: string, payer: string, variants: PricingVariant[]): PricingVariant {
+  const sorted = [...variants].sort((a, b) => a.variant.localeCompare(b.variant));
+  const bucket = createHash("sha256").update(`${endpoint}:${payer}`).digest().readUInt32BE(0);
+  return sorted[bucket % sorted.length];
+}
+
+export class PricingExperiments {
+  private variants: { at: number; byEndpoint: Promise<Map<string, PricingVariant[]>> } | null = null;
+  private assignments = new Map<string, { at: number; value: Promise<VariantAssignment | null> }>();
+
+  constructor(private supabase: SupabaseClient | null) {}
+
+  /** Variants of the endpoint's running experiment ([] when none) */
+  async activeVariants(endpoint: string): Promise<PricingVariant[]> {
+    if (!this.supabase) return [];
+    if (!this.variants || Date.now() - this.variants.at > VARIANTS_TTL_MS) {
+      const supabase = this.supabase;
+      this.variants = {
+        at: Date.now(),
+        byEndpoint: (async () => {
+          const byEndpoint = new Map<string, PricingVariant[]>();
+          const { data, error } = await supabase
+            .from("pricing_experiments")
+            .select("endpoint_path, variant_name, price_usd")
+            .eq("is_active", true);
+          if (error) throw error;
+          for (const row of data ?? []) {
+            const list = byEndpoint.get(row.endpoint_path) ?? [];
+            list.push({ variant: row.variant_name, priceUsd: Number(row.price_usd) });
+            byEndpoint.set(row.endpoint_path, list);
+          }
+          return byEndpoint;
+        })().catch((err) => {
+          console.warn("[x402] Pricing experiments unavailable:", (err as Error).message);
+          this.variants = null;
+          return new Map<string, PricingVariant[]>();
+        }),
+      };
+    }
+    const variants = (await this.variants.byEndpoint).get(endpoint) ?? [];
+    // A single variant is just a price, not an experiment
+    return variants.length >= 2 ? variants : [];
+  }
+
+  /** The payer's variant for an endpoint, or null when it runs no experiment */
+  assign(endpoint: string, payer: string): Promise<VariantAssignment | null> {
+    const key = `${endpoint}:${payer}`;
+    const cached = this.assignments.get(key);
+    if (cached && Date.now() - cached.at < ASSIGNMENT_TTL_MS) return cached.value;
+
+    const value = this.lookup(endpoint, payer);
+    this.assignments.set(key, { at: Date.now(), value });
+    if (this.assignments.size > 10_000) {
+      const now = Date.now();
+      for (const [k, entry] of this.assignments) {
+        if (now - entry.at >= ASSIGNMENT_TTL_MS) this.assignments.delete(k);
+      }
+    }
+    return value;
+  }
+
+  private async lookup(endpoint: string, payer: string): Promise<VariantAssignment | null> {
+    const variants = await this.activeVariants(endpoint);
+    if (variants.length === 0 || !this.supabase) return null;
+
+    // Keep an earlier assignment while its variant is still running
+    const { data: stored } = await this.supabase
+      .from("pricing_experiment_assignments")
+      .select("variant_name")
+      .eq("endpoint_path", endpoint)
+      .eq("payer", payer)
+      .maybeSingle();
+    const pinned = stored && variants.find((v) => v.variant === stored.variant_name);
+    const chosen = pinned || hashVariant(endpoint, payer, variants);
+
+    return { endpoint, payer, variant: chosen.variant, priceUsd: chosen.priceUsd };
+  }
+
+  /** ListPriceResolver for withTierPricing / createSpendLimitGate */
+  listPrice: ListPriceResolver = async (endpoint, caller, basePrice) => {
+    if (isQuotedEndpoint(endpoint)) return basePrice;
+    if (!caller) {
+      const variants = await this.activeVariants(endpoint);
+      return variants.length > 0 ? formatUsd(Math.max(...variants.map((v) => v.priceUsd))) : basePrice;
+    }
+    const assignment = await this.assign(endpoint, caller);
+    return assignment ? formatUsd(assignment.priceUsd) : basePrice;
+  };
+
+  /** Whether the caller is pinned to a variant on this endpoint (createSpendLimitGate's `enrolled`) */
+  enrolled = async (endpoint: string, caller: string): Promise<boolean> =>
+    !isQuotedEndpoint(endpoint) && (await this.assign(endpoint, caller)) !== null;
+
+  private record(assignment: VariantAssignment, event: "impression" | "conversion", amountUsd = 0): void {
+    if (!this.supabase) return;
+    this.supabase
+      .rpc("record_pricing_experiment_event", {
+        p_endpoint: assignment.endpoint,
+        p_variant: assignment.variant,
+        p_payer: assignment.payer,
+        p_price_usd: assignment.priceUsd,
+        p_event: event,
+        p_amount_usd: amountUsd,
+      })
+      .then(({ error }) => {
+        if (error) console.warn(`[x402] Experiment ${event} not recorded:`, error.message);
+      });
+  }
+
+  /**
+   * Express middleware for the gated routes, mounted before
+   * paymentMiddleware: counts an impression when an enrolled caller is
+   * sent a 402, and a conversion when their paid call goes through.
+   */
+  tracker(routes: Record<string, unknown>) {
+    return async (req: Request, res: Response, next: NextFunction) => {
+      if (!routes[`${req.method} ${req.path}`]) return next();
+      // withQuotePricing charges the quote there, never the variant price
+      if (isQuotedEndpoint(req.path)) return next();
+      const caller = declaredCaller((name) => req.get(name));
+      if (!caller) {
+        // Out of the experiment: quoted its highest price, no impressions or conversions
+        if ((await this.activeVariants(req.path)).length > 0) res.setHeader("X-Price-Variant", "none");
+        return next();
+      }
+
+      const assignment = await this.assign(req.path, caller);
+      if (!assignment) return next();
+
+      const paying = !!(req.get("payment-signature") || req.get("x-payment"));
+      res.setHeader("X-Price-Variant", assignment.variant);
+      res.on("finish", () => {
+        if (!paying && res.statusCode === 402) {
+          this.record(assignment, "impression");
+        } else if (paying && res.statusCode < 400) {
+          // tierQuote.price is what was charged (variant price less tier discount)
+          this.record(assignment, "conversion", req.tierQuote ? parseUsd(req.tierQuote.price) : assignment.priceUsd);
+        }
+      });
+      next();
+    };
+  }
+}
@@ -0,0 +1,358 @@
+/**
+ * XmetaV Receipt Routes — paid-caller result retrieval
+ *
+ * Free to call, but only with the receipt a paid dispatch returned
+ * (see receipts.ts). A receipt opens exactly one task or intent —
+ * nothing else in agent_commands / intent_sessions is reachable.
+ *
+ *   GET /agent-task/:id          status + output (?since=<seq> for the rest)
+ *   GET /agent-task/:id/stream   output as Server-Sent Events
+ *   GET /intent/:id              intent status, resolved commands and the
+ *                                tasks it executed (readable with the same receipt)
+ */
+
+import { Router, Request, Response } from "express";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { receiptFromRequest, verifyReceipt, ReceiptClaims } from "./receipts.js";
+
+/* ── Setup ───────────────────────────────────────────────────── */
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const TERMINAL_STATUSES = new Set(["completed", "failed", "cancelled"]);
+
+/** SSE: poll interval, keep-alive comment interval, max connection age */
+const STREAM_POLL_MS = 1000;
+const STREAM_HEARTBEAT_MS = 15_000;
+const STREAM_MAX_MS = 10 * 60_000;
+/** Polls to wait for the final marker after a terminal status */
+const STREAM_FINAL_GRACE_TICKS = 3;
+
+/** Open SSE connections, ended on shutdown */
+const openStreams = new Set<() => void>();
+
+interface OutputSlice {
+  /** Output after `since` — or all of it when `reset` is set */
+  content: string;
+  /** `since` fell inside the compacted transcript; content replaces what the client has */
+  reset: boolean;
+  last_seq: number;
+  is_final: boolean;
+}
+
+/* ── Helpers ─────────────────────────────────────────────────── */
+
+/**
+ * Output of a command after chunk `since` — command_transcripts holds the
+ * folded chunks of a finished command, agent_responses the rest.
+ * Mirrors the dashboard's loadTranscript (src/lib/transcript.ts).
+ */
+async function loadOutput(
+  supabase: SupabaseClient,
+  commandId: string,
+  since: number
+): Promise<{ output: OutputSlice | null; error: string | null }> {
+  const [{ data: transcript, error: tError }, { data: rows, error: rError }, { data: final }] = await Promise.all([
+    supabase
+      .from("command_transcripts")
+      .select("content, last_seq")
+      .eq("command_id", commandId)
+      .maybeSingle(),
+    supabase
+      .from("agent_responses")
+      .select("seq, content")
+      .eq("command_id", commandId)
+      .gt("seq", since)
+      .order("seq", { ascending: true }),
+    supabase
+      .from("agent_responses")
+      .select("seq")
+      .eq("command_id", commandId)
+      .eq("is_final", true)
+      .limit(1),
+  ]);
+
+  if (tError || rError) return { output: null, error: (tError ?? rError)!.message };
+
+  const t = transcript as { content: string; last_seq: number } | null;
+  const foldedSeq = t?.last_seq ?? 0;
+  const includeTranscript = !!t && since < foldedSeq;
+  const chunks = ((rows ?? []) as { seq: number; content: string }[]).filter(
+    (r) => r.seq > Math.max(since, foldedSeq)
+  );
+
+  return {
+    output: {
+      content: (includeTranscript ? t.content : "") + chunks.map((c) => c.content).join(""),
+      reset: includeTranscript && since > 0,
+      last_seq: Math.max(since, foldedSeq, ...chunks.map((c) => c.seq)),
+      is_final: (final ?? []).length > 0,
+    },
+    error: null,
+  };
+}
+
+function parseSince(raw: unknown): number {
+  const n = Number(raw);
+  return Number.isInteger(n) && n > 0 ? n : 0;
+}
+
+/** Verify the request's receipt; responds and returns null when refused */
+function requireReceipt(req: Request, res: Response): ReceiptClaims | null {
+  const token = receiptFromRequest(req);
+  if (!token) {
+    res.status(401).json({
+      error: "Receipt required — send the receipt from the paid dispatch as Authorization: Bearer <receipt>",
+    });
+    return null;
+  }
+  const { claims, error } = verifyReceipt(token);
+  if (!claims) {
+    res.status(401).json({ error });
+    return null;
+  }
+  return claims;
+}
+
+/**
+ * Whether a receipt opens a command: its own agent-task receipt, or the
+ * receipt of the intent that executed it.
+ */
+async function coversCommand(supabase: SupabaseClient, claims: ReceiptClaims, commandId: string): Promise<boolean> {
+  if (claims.scope === "agent-task") return claims.id === commandId;
+
+  const { data } = await supabase
+    .from("intent_sessions")
+    .select("executed_command_ids")
+    .eq("id", claims.id)
+    .maybeSingle();
+  const executed = (data?.executed_command_ids ?? []) as string[];
+  return Array.isArray(executed) && executed.includes(commandId);
+}
+
+/* ── Router ──────────────────────────────────────────────────── */
+
+export function createReceiptRouter(supabase: SupabaseClient | null): Router {
+  const router = Router();
+
+  /** Receipt + Supabase + scope checks shared by the task routes */
+  async function authorizeTask(req: Request, res: Response): Promise<string | null> {
+    if (!supabase) {
+      res.status(503).json({ error: "Supabase not connected — tasks are not tracked" });
+      return null;
+    }
+    const id = String(req.params.id);
+    if (!UUID_RE.test(id)) {
+      res.status(400).json({ error: "id must be a task UUID" });
+      return null;
+    }
+    const claims = requireReceipt(req, res);
+    if (!claims) return null;
+    if (!(await coversCommand(supabase, claims, id))) {
+      res.status(403).json({ error: "Receipt does not cover this task" });
+      return null;
+    }
+    return id;
+  }
+
+  /* ──────────────────────────────────────────────────────────
+   * GET /agent-task/:id
+   *
+   * Status and output of a paid task.
+   * Query: ?since=<seq> — only output after that chunk
+   * ────────────────────────────────────────────────────────── */
+  router.get("/agent-task/:id", async (req: Request, res: Response) => {
+    const id = await authorizeTask(req, res);
+    if (!id || !supabase) return;
+
+    const [{ data: command, error }, { output, error: outputError }] = await Promise.all([
+      supabase
+        .from("agent_commands")
+        .select("id, agent_id, message, status, created_at, updated_at")
+        .eq("id", id)
+        .maybeSingle(),
+      loadOutput(supabase, id, parseSince(req.query.since)),
+    ]);
+
+    if (error || outputError) {
+      res.status(500).json({ error: error?.message ?? outputError });
+      return;
+    }
+    if (!command) {
+      res.status(404).json({ error: "Task not found" });
+      return;
+    }
+
+    res.json({
+      command,
+      output,
+      done: TERMINAL_STATUSES.has(command.status),
+      stream: `/agent-task/${id}/stream`,
+      timestamp: new Date().toISOString(),
+    });
+  });
+
+  /* ──────────────────────────────────────────────────────────
+   * GET /agent-task/:id/stream
+   *
+   * Server-Sent Events:
+   *   status  { status }                       — on every status change
+   *   output  { content, reset, seq }          — new output (id: seq)
+   *   done    { status, last_seq }             — task finished, stream ends
+   *   timeout { last_seq }                     — max age reached, reconnect
+   *
+   * Resume with the Last-Event-ID header (EventSource does this on
+   * reconnect) or ?since=<seq>. The receipt can go in ?receipt=.
+   * ────────────────────────────────────────────────────────── */
+  router.get("/agent-task/:id/stream", async (req: Request, res: Response) => {
+    const id = await authorizeTask(req, res);
+    if (!id || !supabase) return;
+
+    let lastSeq = parseSince(req.headers["last-event-id"] ?? req.query.since);
+    let lastStatus: string | null = null;
+    let terminalTicks = 0;
+    let closed = false;
+    let poll: ReturnType<typeof setTimeout> | undefined;
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      // no-transform keeps compression() from buffering the stream
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    });
+
+    const send = (event: string, data: unknown, eventId?: number) => {
+      if (closed) return;
+      res.write(`${eventId !== undefined ? `id: ${eventId}\n` : ""}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    const close = () => {
+      if (closed) return;
+      closed = true;
+      clearTimeout(poll);
+      clearInterval(heartbeat);
+      clearTimeout(maxAge);
+      openStreams.delete(close);
+      res.end();
+    };
+
+    const heartbeat = setInterval(() => {
+      if (!closed) res.write(": ping\n\n");
+    }, STREAM_HEARTBEAT_MS);
+    const maxAge = setTimeout(() => {
+      send("timeout", { last_seq: lastSeq });
+      close();
+    }, STREAM_MAX_MS);
+    openStreams.add(close);
+    req.on("close", close);
+
+    const tick = async () => {
+      if (closed) return;
+      try {
+        const [{ data: command }, { output }] = await Promise.all([
+          supabase.from("agent_commands").select("status").eq("id", id).maybeSingle(),
+          loadOutput(supabase, id, lastSeq),
+        ]);
+        if (!command) {
+          send("done", { status: "not_found", last_seq: lastSeq });
+          close();
+          return;
+        }
+
+        if (command.status !== lastStatus) {
+          lastStatus = command.status;
+          send("status", { status: command.status });
+        }
+        if (output && (output.content || output.reset)) {
+          send("output", { content: output.content, reset: output.reset, seq: output.last_seq }, output.last_seq);
+        }
+        if (output) lastSeq = output.last_seq;
+
+        // Output can trail the status flip by a moment — wait for the final marker
+        const terminal = TERMINAL_STATUSES.has(command.status);
+        if (output?.is_final || (terminal && ++terminalTicks > STREAM_FINAL_GRACE_TICKS)) {
+          send("done", { status: command.status, last_seq: lastSeq });
+          close();
+          return;
+        }
+      } catch {
+        // Transient Supabase error — try again next tick
+      }
+      poll = setTimeout(tick, STREAM_POLL_MS);
+    };
+
+    tick();
+  });
+
+  /* ──────────────────────────────────────────────────────────
+   * GET /intent/:id
+   *
+   * Status of a paid intent, the commands it resolved to, and the
+   * tasks it executed. Those tasks' output is readable through
+   * /agent-task/:id with this intent's receipt.
+   * ────────────────────────────────────────────────────────── */
+  router.get("/intent/:id", async (req: Request, res: Response) => {
+    if (!supabase) {
+      res.status(503).json({ error: "Supabase not connected — intents are not tracked" });
+      return;
+    }
+    const id = String(req.params.id);
+    if (!UUID_RE.test(id)) {
+      res.status(400).json({ error: "id must be an intent UUID" });
+      return;
+    }
+    const claims = requireReceipt(req, res);
+    if (!claims) return;
+    if (claims.scope !== "intent" || claims.id !== id) {
+      res.status(403).json({ error: "Receipt does not cover this intent" });
+      return;
+    }
+
+    const { data: session, error } = await supabase
+      .from("intent_sessions")
+      .select("id, goal, status, commands, executed_command_ids, created_at, updated_at")
+      .eq("id", id)
+      .maybeSingle();
+
+    if (error) {
+      res.status(500).json({ error: error.message });
+      return;
+    }
+    if (!session) {
+      res.status(404).json({ error: "Intent not found" });
+      return;
+    }
+
+    const executed = (Array.isArray(session.executed_command_ids) ? session.executed_command_ids : []) as string[];
+    let tasks: Array<{ id: string; agent_id: string; status: string; created_at: string }> = [];
+    if (executed.length > 0) {
+      const { data } = await supabase
+        .from("agent_commands")
+        .select("id, agent_id, status, created_at")
+        .in("id", executed);
+      tasks = data ?? [];
+    }
+
+    res.json({
+      session: {
+        id: session.id,
+        goal: session.goal,
+        status: session.status,
+        commands: session.commands,
+        created_at: session.created_at,
+        updated_at: session.updated_at,
+      },
+      tasks: tasks.map((t) => ({ ...t, result: `/agent-task/${t.id}`, stream: `/agent-task/${t.id}/stream` })),
+      done: ["COMPLETED", "FAILED", "CANCELLED"].includes(session.status),
+      timestamp: new Date().toISOString(),
+    });
+  });
+
+  return router;
+}
+
+/** End every open SSE stream (graceful shutdown) */
+export function closeReceiptStreams(): void {
+  for (const close of [...openStreams]) close();
+}
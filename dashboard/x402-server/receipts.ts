@@ -0,0 +1,117 @@
+/**
+ * x402 Receipt Tokens
+ *
+ * A paid dispatch (POST /agent-task, POST /intent) returns a receipt that
+ * lets the payer — and only the payer — read back what they paid for,
+ * without a dashboard session. Receipts are scoped to one resource:
+ *
+ *   agent-task:<command id>   → GET /agent-task/:id, GET /agent-task/:id/stream
+ *   intent:<session id>       → GET /intent/:id (+ the commands it executed)
+ *
+ * Format: base64url(JSON claims) "." base64url(HMAC-SHA256(claims))
+ *
+ * Signed with X402_RECEIPT_SECRET. Without it a random per-process key is
+ * used, so receipts stop verifying when the server restarts.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import type { Request } from "express";
+
+export type ReceiptScope = "agent-task" | "intent";
+
+export interface ReceiptClaims {
+  v: 1;
+  scope: ReceiptScope;
+  /** agent_commands.id or intent_sessions.id */
+  id: string;
+  /** Paying wallet, when the caller identified one */
+  payer: string | null;
+  /** Issued / expires, unix seconds */
+  iat: number;
+  exp: number;
+}
+
+export interface IssuedReceipt {
+  token: string;
+  scope: ReceiptScope;
+  expires_at: string;
+}
+
+/** Receipt lifetime (X402_RECEIPT_TTL_HOURS, default 7 days) */
+export const RECEIPT_TTL_SECONDS =
+  Math.max(1, Number(process.env.X402_RECEIPT_TTL_HOURS) || 168) * 3600;
+
+let secret: Buffer | null = null;
+
+function signingKey(): Buffer {
+  if (secret) return secret;
+  const configured = process.env.X402_RECEIPT_SECRET;
+  if (configured && configured.length >= 32) {
+    secret = Buffer.from(configured, "utf8");
+  } else {
+    console.warn(
+      "[x402] X402_RECEIPT_SECRET unset or shorter than 32 chars — using a per-process key (receipts won't survive a restart)"
+    );
+    secret = randomBytes(32);
+  }
+  return secret;
+}
+
+function sign(payload: string): string {
+  return createHmac("sha256", signingKey()).update(payload).digest("base64url");
+}
+
+/** Issue a receipt for one paid resource */
+export function issueReceipt(scope: ReceiptScope, id: string, payer?: string | null): IssuedReceipt {
+  const iat = Math.floor(Date.now() / 1000);
+  const claims: ReceiptClaims = { v: 1, scope, id, payer: payer ?? null, iat, exp: iat + RECEIPT_TTL_SECONDS };
+  const payload = Buffer.from(JSON.stringify(claims)).toString("base64url");
+  return {
+    token: `${payload}.${sign(payload)}`,
+    scope,
+    expires_at: new Date(claims.exp * 1000).toISOString(),
+  };
+}
+
+/**
+ * Check a receipt's signature and expiry. Returns the claims, or the
+ * reason it was refused.
+ */
+export function verifyReceipt(
+  token: string
+): { claims: ReceiptClaims; error?: never } | { claims?: never; error: string } {
+  const [payload, signature, extra] = token.split(".");
+  if (!payload || !signature || extra !== undefined) return { error: "Malformed receipt" };
+
+  const expected = Buffer.from(sign(payload));
+  const given = Buffer.from(signature);
+  if (expected.length !== given.length || !timingSafeEqual(expected, given)) {
+    return { error: "Invalid receipt signature" };
+  }
+
+  let claims: ReceiptClaims;
+  try {
+    claims = JSON.parse(Buffer.from(payload, "base64url").toString("utf8"));
+  } catch {
+    return { error: "Malformed receipt" };
+  }
+  if (claims.v !== 1 || (claims.scope !== "agent-task" && claims.scope !== "intent") || typeof claims.id !== "string") {
+    return { error: "Unsupported receipt" };
+  }
+  if (claims.exp * 1000 < Date.now()) return { error: "Receipt expired" };
+
+  return { claims };
+}
+
+/**
+ * Receipt from `Authorization: Bearer <receipt>`, `X-Receipt`, or
+ * `?receipt=` (EventSource can't set headers).
+ */
+export function receiptFromRequest(req: Request): string | null {
+  const auth = req.headers.authorization;
+  if (auth?.startsWith("Bearer ")) return auth.slice(7).trim();
+  const header = req.headers["x-receipt"];
+  if (typeof header === "string" && header) return header.trim();
+  const query = req.query.receipt;
+  return typeof query === "string" && query ? query : null;
+}
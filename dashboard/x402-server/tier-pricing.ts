@@ -0,0 +1,336 @@
+/**
+ * $XMETAV Tier Pricing & Daily Spend Limits
+ *
+ * Holding XMETAV tokens discounts every gated endpoint and raises the
+ * holder's daily spend limit. Both are enforced here:
+ *
+ *   withTierPricing()     — wraps each route's static price in a dynamic
+ *                           price, so the 402 challenge quotes the caller's
+ *                           discounted amount
+ *   createSpendLimitGate() — runs before paymentMiddleware: refuses a call
+ *                           with 429 once the payer's UTC-day spend would
+ *                           pass their tier's dailyLimit, and holds the
+ *                           price in a DailySpendLedger until the call
+ *                           settles (kept) or fails (released)
+ *
+ * The tier comes from the X-Caller-Address header (the wallet whose
+ * XMETAV balance is checked). A discounted payment — or one at the
+ * caller's A/B variant price — must be signed by that same wallet, so a
+ * caller can't borrow a Gold holder's address or a cheaper arm.
+ */
+
+import type { Request, Response, NextFunction } from "express";
+import type { RoutesConfig, RouteConfig, HTTPRequestContext, DynamicPrice } from "@x402/core/http";
+import { decodePaymentSignatureHeader } from "@x402/core/http";
+
+/* ── Tiers ───────────────────────────────────────────────────── */
+
+export interface TokenTier {
+  name: string;
+  minBalance: number;
+  discount: number;
+  /** Max spend per UTC day, USD */
+  dailyLimit: number;
+  color: string;
+}
+
+export const TIERS: TokenTier[] = [
+  { name: "None",      minBalance: 0,           discount: 0,    dailyLimit: 5,    color: "#4a6a8a" },
+  { name: "Starter",   minBalance: 100,         discount: 0.10, dailyLimit: 25,   color: "#a3e635" },
+  { name: "Bronze",    minBalance: 1_000,       discount: 0.15, dailyLimit: 50,   color: "#cd7f32" },
+  { name: "Silver",    minBalance: 10_000,      discount: 0.25, dailyLimit: 200,  color: "#c0c0c0" },
+  { name: "Gold",      minBalance: 100_000,     discount: 0.50, dailyLimit: 1000, color: "#ffd700" },
+  { name: "Diamond",   minBalance: 1_000_000,   discount: 0.75, dailyLimit: 5000, color: "#b9f2ff" },
+];
+
+export function getTier(balance: number): TokenTier {
+  for (let i = TIERS.length - 1; i >= 0; i--) {
+    if (balance >= TIERS[i].minBalance) return TIERS[i];
+  }
+  return TIERS[0];
+}
+
+export type TierResolver = (callerAddress?: string) => Promise<TokenTier>;
+
+/**
+ * A route's list price for one caller before the tier discount — e.g.
+ * their A/B pricing variant (pricing-experiments.ts). `endpoint` is the
+ * route path ("/memory-crystal").
+ */
+export type ListPriceResolver = (endpoint: string, caller: string | undefined, basePrice: string) => Promise<string>;
+
+/* ── Prices ──────────────────────────────────────────────────── */
+
+/** "$0.10" → 0.1 */
+export function parseUsd(price: string): number {
+  return parseFloat(price.replace("$", ""));
+}
+
+/** 0.05 → "$0.05", 0.0125 → "$0.0125" (USDC has 6 decimals) */
+export function formatUsd(amount: number): string {
+  const micros = Math.round(amount * 1e6);
+  return micros % 10_000 === 0 ? `$${(micros / 1e6).toFixed(2)}` : `$${micros / 1e6}`;
+}
+
+/** A route's static price with the tier's discount applied */
+export function discountedPrice(basePrice: string, tier: TokenTier): string {
+  return formatUsd(parseUsd(basePrice) * (1 - tier.discount));
+}
+
+/** The wallet whose tier prices this request (lower-cased) */
+export function declaredCaller(getHeader: (name: string) => string | undefined): string | undefined {
+  return getHeader("x-caller-address")?.trim().toLowerCase() || undefined;
+}
+
+/** Dynamic x402 price: the caller's list price, discounted for their tier */
+export function tierPrice(
+  endpoint: string,
+  basePrice: string,
+  resolveTier: TierResolver,
+  listPrice?: ListPriceResolver
+): DynamicPrice {
+  return async (context: HTTPRequestContext) => {
+    const caller = declaredCaller((name) => context.adapter.getHeader(name));
+    const [tier, price] = await Promise.all([
+      resolveTier(caller),
+      listPrice ? listPrice(endpoint, caller, basePrice) : basePrice,
+    ]);
+    return discountedPrice(price, tier);
+  };
+}
+
+/** "POST /memory-crystal" → "/memory-crystal" */
+const routePath = (key: string) => key.slice(key.indexOf(" ") + 1);
+
+function routeBasePrice(route: RouteConfig): string | null {
+  const option = Array.isArray(route.accepts) ? route.accepts[0] : route.accepts;
+  return typeof option?.price === "string" ? option.price : null;
+}
+
+/** Copy of `routes` where every static "$x" price is quoted per caller tier */
+export function withTierPricing(
+  routes: Record<string, RouteConfig>,
+  resolveTier: TierResolver,
+  listPrice?: ListPriceResolver
+): Record<string, RouteConfig> {
+  const priced: Record<string, RouteConfig> = {};
+  for (const [key, route] of Object.entries(routes)) {
+    const options = Array.isArray(route.accepts) ? route.accepts : [route.accepts];
+    priced[key] = {
+      ...route,
+      accepts: options.map((o) =>
+        typeof o.price === "string" && o.price.startsWith("$") ? { ...o, price: tierPrice(routePath(key), o.price, resolveTier, listPrice) } : o
+      ),
+    };
+  }
+  return priced;
+}
+
+/** Paying wallet of an x402 payment header (exact EVM scheme), lower-cased */
+export function payerFromPaymentHeader(header: string | undefined): string | undefined {
+  if (!header) return undefined;
+  try {
+    const payload = decodePaymentSignatureHeader(header).payload as { authorization?: { from?: string } };
+    return payload.authorization?.from?.toLowerCase();
+  } catch {
+    return undefined;
+  }
+}
+
+/* ── Daily Spend Ledger ──────────────────────────────────────── */
+
+export interface DailyUsage {
+  /** UTC day, YYYY-MM-DD */
+  day: string;
+  calls: number;
+  spentUsd: number;
+}
+
+/** Loads spend already recorded for a payer today (e.g. from x402_payments) */
+export type UsageLoader = (payer: string, since: Date) => Promise<Omit<DailyUsage, "day">>;
+
+const utcDay = (now: Date) => now.toISOString().slice(0, 10);
+
+/** Start of the next UTC day — when daily limits reset */
+export function nextReset(now = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1));
+}
+
+/**
+ * Per-payer spend and call counts for the current UTC day. A payer's
+ * first lookup of the day is seeded from `load`, so restarts don't
+ * reset anyone's limit.
+ */
+export class DailySpendLedger {
+  private entries = new Map<string, DailyUsage>();
+  private loading = new Map<string, Promise<DailyUsage>>();
+
+  constructor(private load?: UsageLoader) {}
+
+  async usage(payer: string, now = new Date()): Promise<DailyUsage> {
+    const day = utcDay(now);
+    const cached = this.entries.get(payer);
+    if (cached?.day === day) return cached;
+
+    const key = `${payer}:${day}`;
+    let pending = this.loading.get(key);
+    if (!pending) {
+      const since = new Date(`${day}T00:00:00.000Z`);
+      pending = (this.load ? this.load(payer, since) : Promise.resolve({ calls: 0, spentUsd: 0 }))
+        .catch(() => ({ calls: 0, spentUsd: 0 }))
+        .then((seed) => {
+          // Keep anything recorded while the seed was loading
+          const current = this.entries.get(payer);
+          const entry: DailyUsage =
+            current?.day === day
+              ? { day, calls: current.calls + seed.calls, spentUsd: current.spentUsd + seed.spentUsd }
+              : { day, ...seed };
+          this.entries.set(payer, entry);
+          return entry;
+        })
+        .finally(() => this.loading.delete(key));
+      this.loading.set(key, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * Count `amountUsd` as spent now, so requests from the payer that are
+   * still in flight see it. Returns release(), which takes it back.
+   */
+  reserve(payer: string, amountUsd: number, now = new Date()): () => void {
+    this.record(payer, amountUsd, now);
+    const entry = this.entries.get(payer)!;
+    let held = true;
+    return () => {
+      if (!held) return;
+      held = false;
+      entry.calls--;
+      entry.spentUsd -= amountUsd;
+    };
+  }
+
+  record(payer: string, amountUsd: number, now = new Date()): void {
+    const day = utcDay(now);
+    const entry = this.entries.get(payer);
+    if (entry?.day === day) {
+      entry.calls++;
+      entry.spentUsd += amountUsd;
+    } else {
+      this.entries.set(payer, { day, calls: 1, spentUsd: amountUsd });
+    }
+  }
+}
+
+/* ── Gate ────────────────────────────────────────────────────── */
+
+export interface TierQuote {
+  tier: string;
+  discount: number;
+  basePrice: string;
+  price: string;
+  /** Wallet charged against the daily limit (payer, else declared caller) */
+  payer: string | null;
+}
+
+declare module "express-serve-static-core" {
+  interface Request {
+    /** Set by createSpendLimitGate on gated routes */
+    tierQuote?: TierQuote;
+  }
+}
+
+/**
+ * Express middleware for the gated routes, mounted before
+ * paymentMiddleware. Quotes the caller's price (X-Price-Quote header),
+ * refuses discounted payments from a different wallet (403), refuses
+ * calls past the tier's dailyLimit (429 + Retry-After), and reserves a
+ * paid call's price as it passes — released again if the call fails or
+ * the connection drops, so concurrent calls can't overshoot the limit.
+ *
+ * Options: `listPrice` as in withTierPricing; `enrolled` tells whether
+ * the declared caller has a personal list price (an A/B variant), which
+ * like a discount must be paid from that wallet; `quotedPrice` overrides
+ * the price outright for requests priced elsewhere (trade quotes
+ * already include the tier discount).
+ */
+export function createSpendLimitGate(
+  routes: RoutesConfig,
+  resolveTier: TierResolver,
+  ledger: DailySpendLedger,
+  options: {
+    listPrice?: ListPriceResolver;
+    enrolled?: (endpoint: string, caller: string) => Promise<boolean>;
+    quotedPrice?: (req: Request) => string | undefined;
+  } = {}
+) {
+  const table = routes as Record<string, RouteConfig>;
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const route = table[`${req.method} ${req.path}`];
+    const basePrice = route ? routeBasePrice(route) : null;
+    if (!basePrice) return next();
+
+    const declared = declaredCaller((name) => req.get(name));
+    const payer = payerFromPaymentHeader(req.get("payment-signature") || req.get("x-payment"));
+    const tier = await resolveTier(declared);
+
+    if (payer && declared && payer !== declared) {
+      if (tier.discount > 0) {
+        res.status(403).json({
+          error: `The ${tier.name} discount for ${declared} applies only to payments from that wallet`,
+          payer,
+        });
+        return;
+      }
+      if (options.enrolled && (await options.enrolled(req.path, declared))) {
+        res.status(403).json({
+          error: `The ${req.path} pricing variant for ${declared} applies only to payments from that wallet`,
+          payer,
+        });
+        return;
+      }
+    }
+
+    const price =
+      options.quotedPrice?.(req) ??
+      discountedPrice(options.listPrice ? await options.listPrice(req.path, declared, basePrice) : basePrice, tier);
+    const who = payer ?? declared ?? null;
+    req.tierQuote = { tier: tier.name, discount: tier.discount, basePrice, price, payer: who };
+    res.setHeader("X-Price-Quote", price);
+
+    if (who) {
+      const now = new Date();
+      const usage = await ledger.usage(who, now);
+      if (usage.spentUsd + parseUsd(price) > tier.dailyLimit + 1e-9) {
+        const resetAt = nextReset(now);
+        res.setHeader("Retry-After", String(Math.ceil((resetAt.getTime() - now.getTime()) / 1000)));
+        res.setHeader("X-RateLimit-Limit", `$${tier.dailyLimit}`);
+        res.setHeader("X-RateLimit-Remaining", formatUsd(Math.max(0, tier.dailyLimit - usage.spentUsd)));
+        res.setHeader("X-RateLimit-Reset", resetAt.toISOString());
+        res.status(429).json({
+          error: `Daily spend limit reached for the ${tier.name} tier`,
+          tier: tier.name,
+          dailyLimit: `$${tier.dailyLimit}`,
+          spent: formatUsd(usage.spentUsd),
+          calls: usage.calls,
+          price,
+          resetAt: resetAt.toISOString(),
+        });
+        return;
+      }
+    }
+
+    // Only paid requests that settled (2xx/3xx) keep their reservation
+    if (payer) {
+      const release = ledger.reserve(payer, parseUsd(price));
+      res.on("finish", () => {
+        if (res.statusCode >= 400) release();
+      });
+      res.on("close", () => {
+        if (!res.writableFinished) release();
+      });
+    }
+    next();
+  };
+}
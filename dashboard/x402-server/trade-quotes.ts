@@ -0,0 +1,214 @@
+/**
+ * XmetaV Trade Quotes — two-phase pricing for value-based trade fees
+ *
+ * Trade fees scale with the capital involved (trade-fee-calculator.ts),
+ * so they can't be a static x402 price. Instead:
+ *
+ *   1. POST /quote/:endpoint (free) with the exact body of the paid call
+ *      → FeeResult breakdown + a short-lived, single-use quote ID
+ *   2. The paid call sends X-Quote-Id; its 402 challenge charges exactly
+ *      the quoted fee, and the handler logs that same amount
+ *
+ * A quote is bound to its endpoint, the request body and the caller
+ * (X-Caller-Address) it was priced for.
+ */
+
+import { createHash, randomUUID } from "crypto";
+import type { Request, Response, NextFunction } from "express";
+import type { RouteConfig, HTTPRequestContext, DynamicPrice } from "@x402/core/http";
+import type { FeeResult } from "./trade-fee-calculator.js";
+
+/** Trade routes whose price is the quoted, value-based fee */
+export const QUOTED_ENDPOINTS = [
+  "/execute-trade",
+  "/rebalance-portfolio",
+  "/execute-arb",
+  "/deploy-yield-strategy",
+] as const;
+
+export type QuotedEndpoint = (typeof QUOTED_ENDPOINTS)[number];
+
+/** How long a quote can be paid against */
+export const QUOTE_TTL_MS = 2 * 60_000;
+
+export interface TradeQuote {
+  id: string;
+  endpoint: QuotedEndpoint;
+  /** x402 price of the paid call — `$${fee.feeUsd.toFixed(6)}` */
+  price: string;
+  fee: FeeResult;
+  /** Trade size / portfolio value / profit the fee was computed on */
+  valueUsd: number;
+  callerTier: string;
+  /** Declared caller the tier discount was priced for (lower-cased) */
+  caller: string | null;
+  bodyHash: string;
+  createdAt: number;
+  expiresAt: number;
+  /** Set while a paid request is using the quote */
+  claimed: boolean;
+}
+
+declare module "express-serve-static-core" {
+  interface Request {
+    /** The validated quote a paid trade call is charged against */
+    tradeQuote?: TradeQuote;
+  }
+}
+
+export const isQuotedEndpoint = (endpoint: string): endpoint is QuotedEndpoint =>
+  (QUOTED_ENDPOINTS as readonly string[]).includes(endpoint);
+
+/** Key-order independent JSON, so `{a, b}` and `{b, a}` hash the same */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+  if (value && typeof value === "object") {
+    return `{${Object.keys(value)
+      .sort()
+      .map((k) => `${JSON.stringify(k)}:${canonicalJson((value as Record<string, unknown>)[k])}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+export function hashBody(body: unknown): string {
+  return createHash("sha256").update(canonicalJson(body)).digest("hex");
+}
+
+/* ── Store ───────────────────────────────────────────────────── */
+
+/** In-memory quotes (they outlive a request by minutes, not restarts) */
+export class TradeQuoteStore {
+  private quotes = new Map<string, TradeQuote>();
+
+  issue(input: Omit<TradeQuote, "id" | "price" | "createdAt" | "expiresAt" | "claimed">): TradeQuote {
+    this.sweep();
+    const now = Date.now();
+    const quote: TradeQuote = {
+      ...input,
+      id: randomUUID(),
+      price: `$${input.fee.feeUsd.toFixed(6)}`,
+      createdAt: now,
+      expiresAt: now + QUOTE_TTL_MS,
+      claimed: false,
+    };
+    this.quotes.set(quote.id, quote);
+    return quote;
+  }
+
+  /** A live (unexpired, unused) quote */
+  get(id: string | undefined): TradeQuote | null {
+    if (!id) return null;
+    const quote = this.quotes.get(id);
+    if (!quote) return null;
+    if (quote.expiresAt < Date.now() && !quote.claimed) {
+      this.quotes.delete(id);
+      return null;
+    }
+    return quote;
+  }
+
+  /** The quote was paid for — it can't be used again */
+  consume(id: string): void {
+    this.quotes.delete(id);
+  }
+
+  private sweep(): void {
+    const now = Date.now();
+    for (const [id, quote] of this.quotes) {
+      if (quote.expiresAt < now && !quote.claimed) this.quotes.delete(id);
+    }
+  }
+}
+
+export const tradeQuotes = new TradeQuoteStore();
+
+export function quoteIdFromHeaders(getHeader: (name: string) => string | undefined): string | undefined {
+  return getHeader("x-quote-id")?.trim() || undefined;
+}
+
+/* ── x402 integration ────────────────────────────────────────── */
+
+/** Copy of `routes` where the quoted trade routes charge the X-Quote-Id quote */
+export function withQuotePricing(
+  routes: Record<string, RouteConfig>,
+  store: TradeQuoteStore = tradeQuotes
+): Record<string, RouteConfig> {
+  const priced = { ...routes };
+  for (const endpoint of QUOTED_ENDPOINTS) {
+    const route = priced[`POST ${endpoint}`];
+    if (!route) continue;
+    const options = Array.isArray(route.accepts) ? route.accepts : [route.accepts];
+    priced[`POST ${endpoint}`] = {
+      ...route,
+      accepts: options.map((o) => {
+        // The static route price stays as the fallback (createQuoteGate refuses unquoted calls first)
+        const fallback = o.price;
+        const price: DynamicPrice = async (context: HTTPRequestContext) =>
+          store.get(quoteIdFromHeaders((name) => context.adapter.getHeader(name)))?.price ??
+          (typeof fallback === "function" ? fallback(context) : fallback);
+        return { ...o, price };
+      }),
+    };
+  }
+  return priced;
+}
+
+/**
+ * Express middleware mounted before the spend gate and paymentMiddleware.
+ * A quoted trade route needs a live quote for this endpoint, body and
+ * caller; a paid request claims it, and it's consumed once the paid
+ * response goes out (released again if the call fails).
+ */
+export function createQuoteGate(store: TradeQuoteStore = tradeQuotes) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (req.method !== "POST" || !isQuotedEndpoint(req.path)) return next();
+    const endpoint = req.path;
+
+    const id = quoteIdFromHeaders((name) => req.get(name));
+    if (!id) {
+      res.status(428).json({
+        error: `${endpoint} is priced per request — POST /quote${endpoint} with this body first, then send X-Quote-Id`,
+        quote: `/quote${endpoint}`,
+      });
+      return;
+    }
+
+    const quote = store.get(id);
+    if (!quote) {
+      res.status(410).json({ error: "Quote expired or already used — request a new one", quote: `/quote${endpoint}` });
+      return;
+    }
+    if (quote.endpoint !== endpoint) {
+      res.status(409).json({ error: `Quote is for ${quote.endpoint}, not ${endpoint}` });
+      return;
+    }
+    if (quote.bodyHash !== hashBody(req.body)) {
+      res.status(409).json({ error: "Request body differs from the quoted one — request a new quote" });
+      return;
+    }
+    const caller = req.get("x-caller-address")?.trim().toLowerCase() || null;
+    if (quote.caller !== caller) {
+      res.status(403).json({ error: "Quote was priced for a different X-Caller-Address" });
+      return;
+    }
+
+    const paying = !!(req.get("payment-signature") || req.get("x-payment"));
+    if (paying) {
+      if (quote.claimed) {
+        res.status(409).json({ error: "Quote is already being paid by another request" });
+        return;
+      }
+      quote.claimed = true;
+      // "close" also fires when the client disconnects mid-request
+      res.on("close", () => {
+        if (res.writableFinished && res.statusCode < 400) store.consume(quote.id);
+        else quote.claimed = false;
+      });
+    }
+
+    req.tradeQuote = quote;
+    res.setHeader("X-Quote-Expires", new Date(quote.expiresAt).toISOString());
+    next();
+  };
+}
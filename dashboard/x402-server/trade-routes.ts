@@ -26,6 +26,7 @@ import {
   FeeResult,
 } from "./trade-fee-calculator.js";
 import { getOracle, PriceOracle } from "./price-oracle.js";
+import { tradeQuotes, hashBody, isQuotedEndpoint, QUOTED_ENDPOINTS, QuotedEndpoint } from "./trade-quotes.js";
 
 // Re-export for server integration
 export { TRADE_FEE_SCHEDULES } from "./trade-fee-calculator.js";
@@ -49,6 +50,8 @@ const viemClient = createPublicClient({
   ),
 });
 
+const DEFILLAMA_YIELDS = process.env.DEFILLAMA_YIELDS_URL || "https://yields.llama.fi";
+
 /* ── Common ABIs ─────────────────────────────────────────────── */
 
 const ERC20_ABI = parseAbi([
@@ -164,7 +167,7 @@ async function fetchDefiLlamaYields(token: string): Promise<YieldPool[]> {
   }
 
   try {
-    const res = await fetch("https://yields.llama.fi/pools");
+    const res = await fetch(`${DEFILLAMA_YIELDS}/pools`);
     if (!res.ok) throw new Error(`DeFi Llama returned ${res.status}`);
     const json = await res.json();
     yieldCache = { data: json.data || [], updatedAt: Date.now() };
@@ -246,6 +249,155 @@ export function createTradeRouter(
   const router = Router();
   const priceOracle = oracle || getOracle(viemClient as any);
 
+  type Holding = { symbol: string; address: `0x${string}`; balance: number; valueUsd: number; currentPct: number };
+
+  /** Wallet balances of every token in a target allocation, valued via the oracle */
+  async function loadHoldings(
+    walletAddress: string,
+    targetAllocation: Record<string, number>
+  ): Promise<{ holdings: Holding[]; portfolioValueUsd: number }> {
+    const holdings: Holding[] = [];
+    let portfolioValueUsd = 0;
+
+    for (const symbol of Object.keys(targetAllocation)) {
+      const token = resolveToken(symbol);
+      if (!token) continue;
+
+      try {
+        const rawBalance = await viemClient.readContract({
+          address: token.address,
+          abi: ERC20_ABI,
+          functionName: "balanceOf",
+          args: [walletAddress as `0x${string}`],
+        });
+        const balance = Number(rawBalance) / 10 ** token.decimals;
+        const price = await priceOracle.getPriceUsd(token.address);
+        const valueUsd = balance * price;
+        portfolioValueUsd += valueUsd;
+        holdings.push({ symbol, address: token.address, balance, valueUsd, currentPct: 0 });
+      } catch {
+        holdings.push({ symbol, address: token.address, balance: 0, valueUsd: 0, currentPct: 0 });
+      }
+    }
+
+    // Calculate current %
+    for (const h of holdings) {
+      h.currentPct = portfolioValueUsd > 0 ? (h.valueUsd / portfolioValueUsd) * 100 : 0;
+    }
+    return { holdings, portfolioValueUsd };
+  }
+
+  /**
+   * The USD amount a quoted route's fee scales with (trade size, portfolio
+   * value, expected profit, deployed capital), with the same validation
+   * the paid route applies.
+   */
+  async function feeBasis(endpoint: QuotedEndpoint, body: Request["body"]): Promise<{ valueUsd: number } | { error: string }> {
+    switch (endpoint) {
+      case "/execute-trade": {
+        if (!body.tokenIn || !body.tokenOut || !body.amountIn) return { error: "tokenIn, tokenOut, and amountIn are required" };
+        const inToken = resolveToken(body.tokenIn);
+        if (!inToken) return { error: `Unknown tokenIn: ${body.tokenIn}. Supported: ${Object.keys(BASE_TOKENS).join(", ")}` };
+        if (!resolveToken(body.tokenOut)) return { error: `Unknown tokenOut: ${body.tokenOut}. Supported: ${Object.keys(BASE_TOKENS).join(", ")}` };
+        const amount = parseFloat(body.amountIn);
+        if (isNaN(amount) || amount <= 0) return { error: "amountIn must be a positive number" };
+        return { valueUsd: amount * (await priceOracle.getPriceUsd(inToken.address)) };
+      }
+      case "/rebalance-portfolio": {
+        const { walletAddress, targetAllocation } = body;
+        if (!walletAddress || !targetAllocation) return { error: "walletAddress and targetAllocation are required" };
+        const totalAlloc = Object.values(targetAllocation as Record<string, number>).reduce((s: number, v: number) => s + v, 0);
+        if (Math.abs(totalAlloc - 100) > 0.1) return { error: `targetAllocation must sum to 100% (got ${totalAlloc}%)` };
+        return { valueUsd: (await loadHoldings(walletAddress, targetAllocation)).portfolioValueUsd };
+      }
+      case "/execute-arb": {
+        if (!body.tokenA || !body.tokenB || !body.amountIn || !body.expectedProfitUsd) {
+          return { error: "tokenA, tokenB, amountIn, and expectedProfitUsd are required" };
+        }
+        if (!resolveToken(body.tokenA) || !resolveToken(body.tokenB)) return { error: "Invalid token pair" };
+        const profit = parseFloat(body.expectedProfitUsd);
+        if (isNaN(profit) || profit <= 0) return { error: "expectedProfitUsd must be positive" };
+        return { valueUsd: profit };
+      }
+      case "/deploy-yield-strategy": {
+        if (!body.protocol || !body.token || !body.amount) return { error: "protocol, token, and amount are required" };
+        const tokenInfo = resolveToken(body.token);
+        if (!tokenInfo) return { error: `Unknown token: ${body.token}` };
+        const amount = parseFloat(body.amount);
+        if (isNaN(amount) || amount <= 0) return { error: "amount must be a positive number" };
+        return { valueUsd: amount * (await priceOracle.getPriceUsd(tokenInfo.address)) };
+      }
+    }
+  }
+
+  /**
+   * The fee a paid trade call is charged: its quote when one was validated
+   * (createQuoteGate), so the logged amount is what x402 collected.
+   * Computed live only when the router runs without the quote gate.
+   */
+  async function chargedFee(req: Request, endpoint: QuotedEndpoint, valueUsd: number): Promise<FeeResult> {
+    if (req.tradeQuote?.endpoint === endpoint) return req.tradeQuote.fee;
+    const tier = await getCallerTierFn(req.headers["x-caller-address"] as string | undefined);
+    return calculateTradeFee(endpoint, valueUsd, tier.discount);
+  }
+
+  /* ──────────────────────────────────────────────────────────
+   * POST /quote/:endpoint — Fee quote for a value-based route (FREE)
+   *
+   * Send the exact body you'll send to the paid route, e.g.
+   * POST /quote/execute-trade { tokenIn, tokenOut, amountIn, ... }
+   *
+   * Returns the FeeResult and a quote ID valid for a couple of minutes.
+   * Pay the route with X-Quote-Id: <id> (same body, same
+   * X-Caller-Address) — the 402 challenge charges exactly quote.price.
+   * ──────────────────────────────────────────────────────── */
+  router.post("/quote/:endpoint", async (req: Request, res: Response) => {
+    const endpoint = `/${String(req.params.endpoint)}`;
+    if (!isQuotedEndpoint(endpoint)) {
+      res.status(400).json({
+        error: `${endpoint} has a fixed price — quotes are for: ${QUOTED_ENDPOINTS.join(", ")}`,
+      });
+      return;
+    }
+
+    const body = req.body ?? {};
+    const basis = await feeBasis(endpoint, body);
+    if ("error" in basis) {
+      res.status(400).json({ error: basis.error });
+      return;
+    }
+
+    const caller = (req.headers["x-caller-address"] as string | undefined)?.trim().toLowerCase() || null;
+    const tier = await getCallerTierFn(caller ?? undefined);
+    const quote = tradeQuotes.issue({
+      endpoint,
+      fee: calculateTradeFee(endpoint, basis.valueUsd, tier.discount),
+      valueUsd: Math.round(basis.valueUsd * 100) / 100,
+      callerTier: tier.name,
+      caller,
+      bodyHash: hashBody(body),
+    });
+
+    res.json({
+      quote: {
+        id: quote.id,
+        endpoint: quote.endpoint,
+        price: quote.price,
+        valueUsd: quote.valueUsd,
+        callerTier: quote.callerTier,
+        fee: quote.fee,
+        expiresAt: new Date(quote.expiresAt).toISOString(),
+      },
+      pay: {
+        method: "POST",
+        path: endpoint,
+        headers: { "X-Quote-Id": quote.id, ...(caller ? { "X-Caller-Address": caller } : {}) },
+        note: "Send the same body. The quote is single-use.",
+      },
+      timestamp: new Date().toISOString(),
+    });
+  });
+
   /* ──────────────────────────────────────────────────────────
    * POST /execute-trade
    *
@@ -285,10 +437,9 @@ export function createTradeRouter(
     const tokenPrice = await priceOracle.getPriceUsd(inToken.address);
     const tradeValueUsd = amount * tokenPrice;
 
-    // Calculate dynamic fee
+    // Fee quoted via POST /quote/execute-trade
     const callerAddress = req.headers["x-caller-address"] as string | undefined;
-    const tier = await getCallerTierFn(callerAddress);
-    const fee = calculateTradeFee("/execute-trade", tradeValueUsd, tier.discount);
+    const fee = await chargedFee(req, "/execute-trade", tradeValueUsd);
 
     // Log payment
     logPaymentFn("/execute-trade", `$${fee.feeUsd.toFixed(6)}`, req);
@@ -428,39 +579,11 @@ export function createTradeRouter(
     }
 
     // Fetch current balances for each token
-    const holdings: Array<{ symbol: string; address: `0x${string}`; balance: number; valueUsd: number; currentPct: number }> = [];
-    let portfolioValueUsd = 0;
-
-    for (const symbol of Object.keys(targetAllocation)) {
-      const token = resolveToken(symbol);
-      if (!token) continue;
-
-      try {
-        const rawBalance = await viemClient.readContract({
-          address: token.address,
-          abi: ERC20_ABI,
-          functionName: "balanceOf",
-          args: [walletAddress as `0x${string}`],
-        });
-        const balance = Number(rawBalance) / 10 ** token.decimals;
-        const price = await priceOracle.getPriceUsd(token.address);
-        const valueUsd = balance * price;
-        portfolioValueUsd += valueUsd;
-        holdings.push({ symbol, address: token.address, balance, valueUsd, currentPct: 0 });
-      } catch {
-        holdings.push({ symbol, address: token.address, balance: 0, valueUsd: 0, currentPct: 0 });
-      }
-    }
+    const { holdings, portfolioValueUsd } = await loadHoldings(walletAddress, targetAllocation);
 
-    // Calculate current %
-    for (const h of holdings) {
-      h.currentPct = portfolioValueUsd > 0 ? (h.valueUsd / portfolioValueUsd) * 100 : 0;
-    }
-
-    // Calculate fee
+    // Fee quoted via POST /quote/rebalance-portfolio
     const callerAddress = req.headers["x-caller-address"] as string | undefined;
-    const tier = await getCallerTierFn(callerAddress);
-    const fee = calculateTradeFee("/rebalance-portfolio", portfolioValueUsd, tier.discount);
+    const fee = await chargedFee(req, "/rebalance-portfolio", portfolioValueUsd);
 
     logPaymentFn("/rebalance-portfolio", `$${fee.feeUsd.toFixed(6)}`, req);
 
@@ -675,10 +798,9 @@ export function createTradeRouter(
       return;
     }
 
-    // Fee: 1% of expected profit
+    // Fee: 1% of expected profit, quoted via POST /quote/execute-arb
     const callerAddress = req.headers["x-caller-address"] as string | undefined;
-    const tier = await getCallerTierFn(callerAddress);
-    const fee = calculateTradeFee("/execute-arb", profit, tier.discount);
+    const fee = await chargedFee(req, "/execute-arb", profit);
 
     logPaymentFn("/execute-arb", `$${fee.feeUsd.toFixed(6)}`, req);
 
@@ -922,12 +1044,11 @@ export function createTradeRouter(
       return;
     }
 
-    // Calculate fee based on deployed capital
+    // Fee based on deployed capital, quoted via POST /quote/deploy-yield-strategy
     const callerAddress = req.headers["x-caller-address"] as string | undefined;
-    const tier = await getCallerTierFn(callerAddress);
     const tokenPrice = await priceOracle.getPriceUsd(tokenInfo.address);
     const deployValueUsd = amount * tokenPrice;
-    const fee = calculateTradeFee("/deploy-yield-strategy", deployValueUsd, tier.discount);
+    const fee = await chargedFee(req, "/deploy-yield-strategy", deployValueUsd);
 
     logPaymentFn("/deploy-yield-strategy", `$${fee.feeUsd.toFixed(6)}`, req);
 
@@ -0,0 +1,343 @@
+/**
+ * Tier pricing self-check — `npm run verify:pricing`
+ *
+ * Runs offline (no RPC, facilitator or Supabase): tiers are injected by
+ * wallet address, and the spend gate is exercised on a throwaway
+ * Express app with a stub handler standing in for paymentMiddleware.
+ *
+ * Checks:
+ *   - every gated route quotes a Gold holder exactly 50% of the None price
+ *   - every tier's quote matches its advertised discount
+ *   - a payer at their dailyLimit gets 429 + Retry-After until UTC midnight
+ *   - a discounted quote can't be paid from a different wallet (403)
+ *   - concurrent paid calls can't overshoot the dailyLimit, and a failed
+ *     or dropped call gives its reserved spend back
+ *   - an A/B variant's list price gets the same tier discount, and a
+ *     caller's hashed variant is stable
+ *   - an enrolled caller's variant can't be paid from another wallet
+ *     (403), and anonymous callers are quoted the highest variant price
+ */
+
+import assert from "node:assert/strict";
+import type { AddressInfo } from "node:net";
+import express from "express";
+import type { HTTPRequestContext, DynamicPrice, RouteConfig } from "@x402/core/http";
+import { buildGatedRoutes } from "./gated-routes.js";
+import { hashVariant, PricingExperiments, type VariantAssignment } from "./pricing-experiments.js";
+import {
+  TIERS,
+  parseUsd,
+  withTierPricing,
+  createSpendLimitGate,
+  DailySpendLedger,
+  nextReset,
+  type TokenTier,
+} from "./tier-pricing.js";
+
+const tierByName = (name: string) => TIERS.find((t) => t.name === name)!;
+
+const GOLD_WALLET = "0x000000000000000000000000000000000000a0a0";
+const NONE_WALLET = "0x0000000000000000000000000000000000000b0b";
+const WALLETS: Record<string, TokenTier> = {
+  [GOLD_WALLET]: tierByName("Gold"),
+  [NONE_WALLET]: tierByName("None"),
+};
+TIERS.forEach((t, i) => (WALLETS[`0x${String(i + 1).padStart(40, "c")}`] = t));
+
+const resolveTier = async (address?: string) => (address && WALLETS[address.toLowerCase()]) || TIERS[0];
+
+const routes = buildGatedRoutes({
+  network: "eip155:84532",
+  payTo: "0x0000000000000000000000000000000000000001",
+  voice: true,
+});
+const priced = withTierPricing(routes, resolveTier);
+
+function contextFor(caller: string | undefined): HTTPRequestContext {
+  return {
+    adapter: {
+      getHeader: (name: string) => (name.toLowerCase() === "x-caller-address" ? caller : undefined),
+      getMethod: () => "GET",
+      getPath: () => "/",
+      getUrl: () => "http://localhost/",
+      getAcceptHeader: () => "application/json",
+      getUserAgent: () => "verify-tier-pricing",
+    },
+    path: "/",
+    method: "GET",
+  };
+}
+
+async function quote(route: RouteConfig, caller: string | undefined): Promise<number> {
+  const option = Array.isArray(route.accepts) ? route.accepts[0] : route.accepts;
+  assert.equal(typeof option.price, "function", "priced route should carry a dynamic price");
+  return parseUsd(String(await (option.price as DynamicPrice)(contextFor(caller))));
+}
+
+let checks = 0;
+
+/* ── Quotes ──────────────────────────────────────────────────── */
+
+for (const [key, route] of Object.entries(priced)) {
+  const none = await quote(route, NONE_WALLET);
+  const gold = await quote(route, GOLD_WALLET);
+  const base = parseUsd(String((Array.isArray(routes[key].accepts) ? routes[key].accepts[0] : routes[key].accepts).price));
+
+  assert.equal(none, base, `${key}: None tier pays the base price`);
+  assert.equal(await quote(route, undefined), base, `${key}: anonymous callers pay the base price`);
+  assert.ok(Math.abs(gold - none * 0.5) < 1e-6, `${key}: Gold quote ${gold} should be 50% of ${none}`);
+  checks += 3;
+
+  for (const [i, tier] of TIERS.entries()) {
+    const q = await quote(route, `0x${String(i + 1).padStart(40, "c")}`);
+    assert.ok(Math.abs(q - base * (1 - tier.discount)) < 1e-6, `${key}: ${tier.name} quote ${q}`);
+    checks++;
+  }
+}
+
+/* ── A/B list prices ─────────────────────────────────────────── */
+
+const variants = [
+  { variant: "premium", priceUsd: 0.08 },
+  { variant: "control", priceUsd: 0.05 },
+];
+const premiumFor = async (endpoint: string, caller: string | undefined, basePrice: string) =>
+  endpoint === "/memory-crystal" && caller ? "$0.08" : basePrice;
+const withVariants = withTierPricing(routes, resolveTier, premiumFor);
+
+assert.equal(await quote(withVariants["POST /memory-crystal"], NONE_WALLET), 0.08);
+assert.equal(await quote(withVariants["POST /memory-crystal"], GOLD_WALLET), 0.04);
+assert.equal(await quote(withVariants["POST /memory-crystal"], undefined), 0.05, "anonymous callers aren't enrolled");
+assert.equal(await quote(withVariants["POST /neural-swarm"], GOLD_WALLET), 0.05);
+checks += 4;
+
+for (const wallet of Object.keys(WALLETS)) {
+  const first = hashVariant("/memory-crystal", wallet, variants);
+  assert.equal(hashVariant("/memory-crystal", wallet, [...variants].reverse()), first, "assignment ignores variant order");
+  checks++;
+}
+
+/* ── Spend gate ──────────────────────────────────────────────── */
+
+const ledger = new DailySpendLedger(async (payer) =>
+  // A None payer who already spent $4.95 today (before a restart)
+  payer === NONE_WALLET ? { calls: 40, spentUsd: 4.95 } : { calls: 0, spentUsd: 0 }
+);
+
+const app = express();
+app.use(createSpendLimitGate(routes, resolveTier, ledger));
+app.use((req, res) => res.json({ quote: req.tierQuote ?? null }));
+
+const server = app.listen(0);
+await new Promise((resolve) => server.once("listening", resolve));
+const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+/** An x402 v2 payment header whose exact-scheme authorization is signed by `from` */
+const paymentFrom = (from: string) =>
+  Buffer.from(
+    JSON.stringify({
+      x402Version: 2,
+      accepted: { scheme: "exact", network: "eip155:84532" },
+      payload: { signature: "0x", authorization: { from } },
+    })
+  ).toString("base64");
+
+try {
+  // Gold: half the $0.05 intent price, header + request carry it
+  let res = await fetch(`${url}/intent`, { method: "POST", headers: { "X-Caller-Address": GOLD_WALLET } });
+  let body = await res.json();
+  assert.equal(res.status, 200);
+  assert.equal(res.headers.get("x-price-quote"), "$0.025");
+  assert.equal(body.quote.tier, "Gold");
+  checks += 3;
+
+  // None: $4.95 spent, a $0.05 intent fits exactly, settles, then the next is refused
+  res = await fetch(`${url}/intent`, {
+    method: "POST",
+    headers: { "X-Caller-Address": NONE_WALLET, "Payment-Signature": paymentFrom(NONE_WALLET) },
+  });
+  assert.equal(res.status, 200);
+  assert.equal(res.headers.get("x-price-quote"), "$0.05");
+  await res.json();
+  await new Promise((resolve) => setTimeout(resolve, 10));
+  assert.ok(Math.abs((await ledger.usage(NONE_WALLET)).spentUsd - 5) < 1e-9, "settled call is recorded");
+  checks += 3;
+
+  res = await fetch(`${url}/intent`, { method: "POST", headers: { "X-Caller-Address": NONE_WALLET } });
+  body = await res.json();
+  assert.equal(res.status, 429);
+  assert.equal(body.tier, "None");
+  assert.equal(body.calls, 41);
+  assert.equal(body.resetAt, nextReset().toISOString());
+  assert.ok(Number(res.headers.get("retry-after")) > 0);
+  checks += 5;
+
+  // Free routes are never gated
+  res = await fetch(`${url}/health`, { headers: { "X-Caller-Address": NONE_WALLET } });
+  assert.equal(res.status, 200);
+  await res.json();
+  checks++;
+
+  // Gold's discount, paid from another wallet
+  res = await fetch(`${url}/intent`, {
+    method: "POST",
+    headers: { "X-Caller-Address": GOLD_WALLET, "Payment-Signature": paymentFrom(NONE_WALLET) },
+  });
+  assert.equal(res.status, 403);
+  await res.json();
+  checks++;
+} finally {
+  server.close();
+}
+
+/* ── Concurrent spend ────────────────────────────────────────── */
+
+const BUSY_WALLET = "0x0000000000000000000000000000000000000c0c";
+const busyLedger = new DailySpendLedger(async () => ({ calls: 0, spentUsd: 4.8 }));
+
+// Paid handlers that take a while, so calls overlap; ?fail answers 500
+const slowApp = express();
+slowApp.use(createSpendLimitGate(routes, resolveTier, busyLedger));
+slowApp.use(async (req, res) => {
+  await new Promise((resolve) => setTimeout(resolve, 100));
+  if (req.query.fail !== undefined) res.status(500).json({ error: "handler failed" });
+  else res.json({ ok: true });
+});
+
+const slowServer = slowApp.listen(0);
+await new Promise((resolve) => slowServer.once("listening", resolve));
+const slowUrl = `http://127.0.0.1:${(slowServer.address() as AddressInfo).port}`;
+const busyHeaders = { "X-Caller-Address": BUSY_WALLET, "Payment-Signature": paymentFrom(BUSY_WALLET) };
+const busySpent = async () => (await busyLedger.usage(BUSY_WALLET)).spentUsd;
+
+try {
+  // $4.80 spent: ten $0.05 intents at once — only four fit under $5
+  const statuses = await Promise.all(
+    Array.from({ length: 10 }, async () => {
+      const res = await fetch(`${slowUrl}/intent`, { method: "POST", headers: busyHeaders });
+      await res.json();
+      return res.status;
+    })
+  );
+  assert.equal(statuses.filter((s) => s === 200).length, 4, `concurrent calls past the limit: ${statuses}`);
+  assert.equal(statuses.filter((s) => s === 429).length, 6);
+  assert.ok(Math.abs((await busySpent()) - 5) < 1e-9, "the four settled calls are kept");
+  checks += 3;
+
+  // A call that fails, and one the client drops, hand their reservation back
+  const RETRY_WALLET = "0x0000000000000000000000000000000000000d0d";
+  const retryHeaders = { "X-Caller-Address": RETRY_WALLET, "Payment-Signature": paymentFrom(RETRY_WALLET) };
+  const retrySpent = async () => (await busyLedger.usage(RETRY_WALLET)).spentUsd;
+
+  const failing = fetch(`${slowUrl}/intent?fail`, { method: "POST", headers: retryHeaders });
+  await new Promise((resolve) => setTimeout(resolve, 30));
+  assert.ok(Math.abs((await retrySpent()) - 4.85) < 1e-9, "in-flight call holds its price");
+  const failed = await failing;
+  await failed.json();
+  assert.equal(failed.status, 500);
+  assert.ok(Math.abs((await retrySpent()) - 4.8) < 1e-9, "failed call is released");
+  checks += 3;
+
+  const abort = new AbortController();
+  const dropped = fetch(`${slowUrl}/intent`, { method: "POST", headers: retryHeaders, signal: abort.signal }).catch(
+    () => null
+  );
+  await new Promise((resolve) => setTimeout(resolve, 30));
+  abort.abort();
+  await dropped;
+  await new Promise((resolve) => setTimeout(resolve, 150));
+  assert.ok(Math.abs((await retrySpent()) - 4.8) < 1e-9, "dropped call is released");
+  checks++;
+} finally {
+  slowServer.close();
+}
+
+/* ── Experiment enrollment ───────────────────────────────────── */
+
+/** /memory-crystal runs control ($0.05) vs premium ($0.08); assignments by hash, no Supabase */
+class FixedExperiments extends PricingExperiments {
+  constructor() {
+    super(null);
+  }
+  async activeVariants(endpoint: string) {
+    return endpoint === "/memory-crystal" ? variants : [];
+  }
+  async assign(endpoint: string, payer: string): Promise<VariantAssignment | null> {
+    const active = await this.activeVariants(endpoint);
+    if (active.length === 0) return null;
+    const v = hashVariant(endpoint, payer, active);
+    return { endpoint, payer, variant: v.variant, priceUsd: v.priceUsd };
+  }
+}
+const experiments = new FixedExperiments();
+
+// A None-tier caller hashed to control, and one to premium
+const byArm = (arm: string) => {
+  for (let i = 1; ; i++) {
+    const wallet = `0x${i.toString(16).padStart(40, "e")}`;
+    if (hashVariant("/memory-crystal", wallet, variants).variant === arm) return wallet;
+  }
+};
+const CONTROL_WALLET = byArm("control");
+const PREMIUM_WALLET = byArm("premium");
+
+const withExperiments = withTierPricing(routes, resolveTier, experiments.listPrice);
+assert.equal(await quote(withExperiments["POST /memory-crystal"], CONTROL_WALLET), 0.05);
+assert.equal(await quote(withExperiments["POST /memory-crystal"], PREMIUM_WALLET), 0.08);
+assert.equal(await quote(withExperiments["POST /memory-crystal"], undefined), 0.08, "anonymous callers get the highest arm");
+assert.equal(await quote(withExperiments["POST /neural-swarm"], undefined), 0.1, "no experiment, base price");
+checks += 4;
+
+const enrollApp = express();
+enrollApp.use(
+  createSpendLimitGate(routes, resolveTier, new DailySpendLedger(), {
+    listPrice: experiments.listPrice,
+    enrolled: experiments.enrolled,
+  })
+);
+enrollApp.use((req, res) => res.json({ quote: req.tierQuote ?? null }));
+
+const enrollServer = enrollApp.listen(0);
+await new Promise((resolve) => enrollServer.once("listening", resolve));
+const enrollUrl = `http://127.0.0.1:${(enrollServer.address() as AddressInfo).port}`;
+
+try {
+  // Declaring a control-arm address but paying from the premium payer's wallet
+  let res = await fetch(`${enrollUrl}/memory-crystal`, {
+    method: "POST",
+    headers: { "X-Caller-Address": CONTROL_WALLET, "Payment-Signature": paymentFrom(PREMIUM_WALLET) },
+  });
+  assert.equal(res.status, 403, "enrolled variant paid from another wallet");
+  await res.json();
+  checks++;
+
+  // Same wallet on both is fine; on a route with no experiment a None payer may differ
+  res = await fetch(`${enrollUrl}/memory-crystal`, {
+    method: "POST",
+    headers: { "X-Caller-Address": CONTROL_WALLET, "Payment-Signature": paymentFrom(CONTROL_WALLET) },
+  });
+  assert.equal(res.status, 200);
+  assert.equal(res.headers.get("x-price-quote"), "$0.05");
+  await res.json();
+  res = await fetch(`${enrollUrl}/neural-swarm`, {
+    method: "POST",
+    headers: { "X-Caller-Address": CONTROL_WALLET, "Payment-Signature": paymentFrom(PREMIUM_WALLET) },
+  });
+  assert.equal(res.status, 200);
+  await res.json();
+  checks += 3;
+
+  // No header: paying from the control wallet still costs the highest arm
+  res = await fetch(`${enrollUrl}/memory-crystal`, {
+    method: "POST",
+    headers: { "Payment-Signature": paymentFrom(CONTROL_WALLET) },
+  });
+  assert.equal(res.status, 200);
+  assert.equal(res.headers.get("x-price-quote"), "$0.08", "header-less payer isn't given the control price");
+  await res.json();
+  checks += 2;
+} finally {
+  enrollServer.close();
+}
+
+console.log(`[verify:pricing] ${checks} checks passed across ${Object.keys(routes).length} gated routes`);
@@ -1,10 +1,11 @@
 #!/usr/bin/env bash
 # swarm.sh — Multi-agent swarm orchestration engine
 #
-# Dispatches tasks across the OpenClaw agent fleet in three modes:
+# Dispatches tasks across the OpenClaw agent fleet in four modes:
 #   parallel      — all tasks run simultaneously, results collected
 #   pipeline      — sequential chain, output from one feeds into the next
 #   collaborative — same task sent to multiple agents, then synthesized
+#   dag           — tasks with depends_on arrays, run in dependency order
 #
 # Builds on agent-task.sh for anti-stall best practices.
 #
@@ -297,6 +298,111 @@ $prev_output
   return 0
 }
 
+# ─── DAG Mode ───
+# The CLI runs DAG tasks one at a time in dependency order (the bridge runs
+# ready tasks in parallel). Upstream output is injected where the message uses
+# {{tasks.<id>.output}}, otherwise direct dependencies are prepended as context.
+
+run_dag() {
+  local run_dir="$1"
+  local manifest="$2"
+
+  local order
+  order=$(node -e "
+    const m = JSON.parse(require('fs').readFileSync('/dev/stdin', 'utf8'));
+    const tasks = m.tasks || [];
+    const deps = (t) => [].concat(t.depends_on || []);
+    const done = new Set();
+    const order = [];
+    while (order.length < tasks.length) {
+      const next = tasks.find((t) => !done.has(t.id) && deps(t).every((d) => done.has(d)));
+      if (!next) process.exit(1);
+      done.add(next.id);
+      order.push(next.id);
+    }
+    console.log(order.join(' '));
+  " <<< "$manifest") || {
+    err "Invalid DAG: dependency cycle or unknown depends_on"
+    return 1
+  }
+
+  if [[ -z "$order" ]]; then
+    err "No tasks defined in manifest"
+    return 1
+  fi
+
+  local on_failure
+  on_failure=$(node -e "
+    const m = JSON.parse(require('fs').readFileSync('/dev/stdin', 'utf8'));
+    console.log(m.on_failure || 'stop');
+  " <<< "$manifest")
+
+  local task_count
+  task_count=$(wc -w <<< "$order" | tr -d ' ')
+  log "Mode: DAG | Tasks: $task_count | Order: $order | Failure: $on_failure"
+  echo ""
+
+  local failures=0
+  local step=0
+
+  for tid in $order; do
+    step=$((step + 1))
+
+    # Render the message (with upstream outputs) to a file to avoid quoting issues
+    local msgfile="$run_dir/${tid}.msg"
+    node -e "
+      const fs = require('fs');
+      const m = JSON.parse(fs.readFileSync('/dev/stdin', 'utf8'));
+      const t = m.tasks.find((x) => x.id === '$tid');
+      const outputOf = (id) => {
+        try {
+          const lines = fs.readFileSync('$run_dir/' + id + '.out', 'utf8').split('\\n');
+          const first = lines.indexOf('---');
+          const last = lines.lastIndexOf('---');
+          return lines.slice(first + 1, last > first ? last : undefined).join('\\n').trim();
+        } catch { return '(no output)'; }
+      };
+      const re = /\\{\\{\\s*tasks\\.([A-Za-z0-9_-]+)\\.output\\s*\\}\\}/g;
+      let msg = t.message || '';
+      if (re.test(msg)) {
+        msg = msg.replace(re, (_, id) => outputOf(id));
+      } else {
+        const ctx = [].concat(t.depends_on || []).map((d) =>
+          '--- Context from upstream task ' + d + ' ---\\n' + outputOf(d) + '\\n--- End context ---');
+        if (ctx.length) msg = msg + '\\n\\n' + ctx.join('\\n\\n');
+      }
+      fs.writeFileSync('$msgfile', msg);
+      console.log((t.agent || 'main') + ' ' + (t.timeout || $SWARM_TIMEOUT));
+    " <<< "$manifest" > "$run_dir/${tid}.meta"
+
+    local tagent ttimeout tmsg
+    read -r tagent ttimeout < "$run_dir/${tid}.meta"
+    tmsg=$(cat "$msgfile")
+    rm -f "$msgfile" "$run_dir/${tid}.meta"
+
+    local outfile="$run_dir/${tid}.out"
+    log "  Task $step/$task_count: $tid -> $tagent"
+
+    local rc=0
+    run_agent_task "$tagent" "$tmsg" "$outfile" "$ttimeout" || rc=$?
+
+    if [[ $rc -ne 0 ]]; then
+      ((failures++)) || true
+      log "  FAILED: $tid (exit=$rc)"
+      if [[ "$on_failure" == "stop" ]]; then
+        err "DAG halted at task $tid"
+        return 1
+      fi
+    fi
+  done
+
+  local succeeded=$((task_count - failures))
+  log ""
+  log "DAG: $succeeded/$task_count tasks succeeded"
+
+  return 0
+}
+
 # ─── Collaborative Mode ───
 
 run_collaborative() {
@@ -800,9 +906,9 @@ main() {
 
   local do_synthesize
   do_synthesize=$(node -e "
-    const m = JSON.parse('$(echo "$manifest" | sed "s/'/\\\\'/g")');
+    const m = JSON.parse(require('fs').readFileSync('/dev/stdin', 'utf8'));
     console.log(m.synthesize === true || m.mode === 'collaborative' ? 'true' : 'false');
-  ")
+  " <<< "$manifest")
 
   local run_id
   run_id=$(generate_run_id)
@@ -834,8 +940,11 @@ main() {
     collaborative)
       run_collaborative "$run_dir" "$manifest"
       ;;
+    dag)
+      run_dag "$run_dir" "$manifest"
+      ;;
     *)
-      err "Unknown mode: $mode (expected parallel, pipeline, or collaborative)"
+      err "Unknown mode: $mode (expected parallel, pipeline, collaborative, or dag)"
       exit 1
       ;;
   esac